@@ -0,0 +1,115 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Dev Chat Server - WebSocket Stand-In for a Real Chat Backend
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.10 (pushes message notifications)
+ * UPDATED: Feature Phase - Step 2.21 (live events)
+ * UPDATED: Feature Phase - Step 2.8 (dev server only, never `vite preview`)
+ * PURPOSE: Serve the chat protocol over a real WebSocket during development,
+ *          so two browser tabs (or two browsers) can chat with each other
+ *
+ * How to Use:
+ * - `npm run dev` already serves it at ws://localhost:5173/chat
+ *   (chatServerPlugin below hooks into Vite's HTTP server)
+ * - Set VITE_CHAT_URL=ws://localhost:5173/chat in .env.local to make the
+ *   app use it instead of the in-page loopback
+ *
+ * What It Does NOT Do:
+ * - Persist anything: conversations and messages are a fresh in-memory copy
+ *   of the fixtures each time the dev server starts
+ * - Verify sessions: tokens live in each browser's localStorage, which the
+ *   server cannot see, so 'hello' is trusted for any fixture user ID.
+ *   A real server must check the token instead. That is also why it is
+ *   not attached to `vite preview`, which serves a production build and
+ *   may be reachable by others
+ * - See likes, comments or posts made in the browser: the mock API runs
+ *   in the page, so only activity published in THIS process (none, unless
+ *   something here calls the mock handlers) reaches its live stream.
+ *   Chat messages and their notifications do flow, since the hub itself
+ *   creates them. A real backend publishes from its API servers.
+ *
+ * LEARNING NOTES:
+ * - The chat rules live in ChatHub (src/services/mock/chatHub.ts); this
+ *   file only moves frames between sockets and the hub
+ * - Vite's own HMR WebSocket shares the HTTP server; we ignore every
+ *   upgrade request that is not for our path, so the two never collide
+ */
+
+import type { IncomingMessage } from 'node:http'
+import type { Duplex } from 'node:stream'
+import type { Plugin } from 'vite'
+import { decodeEvent, encodeEvent, type ClientEvent } from '../src/services/chat/protocol'
+import { createChatHub } from '../src/services/mock/chatHub'
+import { createFixtures } from '../src/services/mock/fixtures'
+import { subscribeToNotifications } from '../src/services/mock/notify'
+import { subscribeToActivity } from '../src/services/mock/activity'
+import { acceptWebSocket } from './webSocket'
+
+/**
+ * UpgradeSource - Anything that emits Node's HTTP 'upgrade' event
+ */
+interface UpgradeSource {
+  on(event: 'upgrade', listener: (request: IncomingMessage, socket: Duplex, head: Buffer) => void): unknown
+}
+
+/**
+ * ChatServerOptions
+ * - path: URL path that accepts chat connections (default '/chat')
+ */
+export interface ChatServerOptions {
+  path?: string
+}
+
+/**
+ * attachChatServer - Handles chat WebSocket upgrades on an HTTP server
+ */
+export function attachChatServer(httpServer: UpgradeSource, options: ChatServerOptions = {}): void {
+  const path = options.path ?? '/chat'
+  const tables = createFixtures()
+  const hub = createChatHub({
+    getTables: () => tables,
+    authenticate: (token, userId) =>
+      token && tables.users.some((user) => user.id === userId) ? userId : null,
+    subscribeNotifications: subscribeToNotifications,
+    subscribeActivity: subscribeToActivity,
+  })
+
+  httpServer.on('upgrade', (request, socket, head) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    if (url.pathname !== path) return
+
+    const connection = acceptWebSocket(request, socket, head)
+    if (!connection) return
+
+    const session = hub.connect((event) => connection.send(encodeEvent(event)))
+    connection.onMessage((text) => {
+      let event: ClientEvent
+      try {
+        event = decodeEvent<ClientEvent>(text)
+      } catch {
+        connection.send(encodeEvent({ type: 'error', code: 'BAD_REQUEST', message: 'Frames must be JSON.' }))
+        return
+      }
+      session.receive(event)
+    })
+    connection.onClose(() => session.close())
+  })
+}
+
+/**
+ * chatServerPlugin - Vite plugin serving the chat server in dev only
+ *
+ * @example
+ * // vite.config.ts
+ * plugins: [react(), chatServerPlugin()]
+ */
+export function chatServerPlugin(options: ChatServerOptions = {}): Plugin {
+  return {
+    name: 'dev-chat-server',
+    configureServer(server) {
+      if (server.httpServer) attachChatServer(server.httpServer, options)
+    },
+  }
+}
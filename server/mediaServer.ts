@@ -0,0 +1,155 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Dev Media Server - Files on Disk for the Mock Backend
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Give the in-browser mock a place to keep uploads that survives
+ *          a reload, the way a real backend's object store would
+ *
+ * Routes (under /media):
+ * - PUT    /media/<key>   → stores the request body, 201
+ * - GET    /media/<key>   → the file, with a Content-Type from its extension
+ * - DELETE /media/<key>   → 204, also when it did not exist
+ *
+ * Where Files Go:
+ * - `.media/` in the project root (git-ignored); delete it to start over
+ * - Keys are slash-separated paths such as 'media/<id>.jpg' or
+ *   'uploads/<id>/<offset>' (see src/services/media/storage.ts)
+ *
+ * What It Does NOT Do:
+ * - Check who is asking: like the chat stand-in, it trusts every request.
+ *   The upload rules (types, sizes, owners) are enforced by the mock
+ *   server in the browser before anything reaches this file
+ *
+ * LEARNING NOTES:
+ * - Each key segment must be a plain file name, so a key can never reach
+ *   outside `.media/` ('..', empty segments and odd characters are refused)
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { dirname, join, resolve } from 'node:path'
+import type { Plugin } from 'vite'
+
+const MAX_BODY_BYTES = 12 * 1024 * 1024
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+}
+
+/**
+ * MediaServerOptions
+ * - path: URL prefix of the routes (default '/media')
+ * - directory: Where files are written (default '.media')
+ */
+export interface MediaServerOptions {
+  path?: string
+  directory?: string
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * toFilePath - The file for a URL path below the prefix, or null when unsafe
+ */
+function toFilePath(root: string, urlPath: string): string | null {
+  const segments = urlPath.split('/').filter(Boolean).map(decodeURIComponent)
+  const safe = segments.every((segment) => /^[\w.-]+$/.test(segment) && segment !== '.' && segment !== '..')
+  return segments.length > 0 && safe ? join(root, ...segments) : null
+}
+
+/**
+ * readBody - The whole request body, refusing anything over MAX_BODY_BYTES
+ */
+async function readBody(request: IncomingMessage): Promise<Buffer | null> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of request as AsyncIterable<Buffer>) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) return null
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * handleMediaRequest - Answers one request for a file path
+ */
+async function handleMediaRequest(request: IncomingMessage, response: ServerResponse, file: string): Promise<void> {
+  switch (request.method) {
+    case 'PUT': {
+      const body = await readBody(request)
+      if (!body) {
+        response.statusCode = 413
+        break
+      }
+      await mkdir(dirname(file), { recursive: true })
+      await writeFile(file, body)
+      response.statusCode = 201
+      break
+    }
+    case 'GET':
+    case 'HEAD': {
+      let data: Buffer
+      try {
+        data = await readFile(file)
+      } catch {
+        response.statusCode = 404
+        break
+      }
+      const extension = file.slice(file.lastIndexOf('.') + 1)
+      response.setHeader('Content-Type', CONTENT_TYPES[extension] ?? 'application/octet-stream')
+      response.setHeader('Cache-Control', 'private, max-age=31536000, immutable')
+      response.end(request.method === 'GET' ? data : undefined)
+      return
+    }
+    case 'DELETE':
+      await rm(file, { force: true })
+      response.statusCode = 204
+      break
+    default:
+      response.statusCode = 405
+  }
+  response.end()
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+/**
+ * mediaServerPlugin - Vite plugin serving /media from `.media/` in dev
+ *
+ * @example
+ * // vite.config.ts
+ * plugins: [react(), chatServerPlugin(), mediaServerPlugin()]
+ */
+export function mediaServerPlugin(options: MediaServerOptions = {}): Plugin {
+  const path = options.path ?? '/media'
+  const root = resolve(options.directory ?? '.media')
+
+  return {
+    name: 'dev-media-server',
+    configureServer(server) {
+      server.middlewares.use(path, (request, response) => {
+        const file = toFilePath(root, new URL(request.url ?? '/', 'http://localhost').pathname)
+        if (!file) {
+          response.statusCode = 400
+          response.end()
+          return
+        }
+        handleMediaRequest(request, response, file).catch(() => {
+          response.statusCode = 500
+          response.end()
+        })
+      })
+    },
+  }
+}
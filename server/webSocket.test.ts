@@ -0,0 +1,178 @@
+/**
+ * ============================================================================
+ * STEP 2.8: WebSocket Connection Tests - Handshake, Frames and Close Codes
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: Feed acceptWebSocket the bytes a browser would send, split and
+ *          joined the way TCP may deliver them, and check the frames it
+ *          writes back
+ *
+ * LEARNING NOTES:
+ * - The socket is an in-memory Duplex: 'data' events stand in for the
+ *   network and every write is recorded
+ * - Client frames must be masked, so the helper below masks them
+ */
+
+import type { IncomingMessage } from 'node:http'
+import { Duplex } from 'node:stream'
+import { describe, expect, it } from 'vitest'
+import { acceptWebSocket } from './webSocket'
+
+/** The example key and answer from RFC 6455 section 1.3 */
+const KEY = 'dGhlIHNhbXBsZSBub25jZQ=='
+const ACCEPT = 's3pPLMBiTxaQ9kYGzzhZRbK+xOo='
+
+const handshake = (headers: Record<string, string> = {}) =>
+  ({
+    headers: { upgrade: 'websocket', 'sec-websocket-version': '13', 'sec-websocket-key': KEY, ...headers },
+  }) as unknown as IncomingMessage
+
+/**
+ * clientFrame - A masked frame as a browser sends it
+ */
+function clientFrame(opcode: number, payload: string | Buffer, { fin = true, masked = true } = {}): Buffer {
+  const data = Buffer.from(payload)
+  const length =
+    data.length < 126 ? Buffer.from([data.length]) : Buffer.from([126, data.length >> 8, data.length & 0xff])
+  const mask = Buffer.from([0x12, 0x34, 0x56, 0x78])
+  const body = Buffer.from(data.map((byte, i) => (masked ? byte ^ mask[i % 4] : byte)))
+  length[0] |= masked ? 0x80 : 0
+  return Buffer.concat([Buffer.from([(fin ? 0x80 : 0) | opcode]), length, masked ? mask : Buffer.alloc(0), body])
+}
+
+/**
+ * open - Accepts a connection on a fake socket
+ *
+ * Returns what the server wrote after the 101 response, the messages it
+ * delivered, and `receive` to send it bytes.
+ */
+function open(head = Buffer.alloc(0)) {
+  const written: Buffer[] = []
+  const socket = new Duplex({
+    read() {},
+    write(chunk: Buffer, _encoding, callback) {
+      written.push(Buffer.from(chunk))
+      callback()
+    },
+  })
+  const connection = acceptWebSocket(handshake(), socket, head)
+  if (!connection) throw new Error('Handshake refused')
+  const response = written.shift()?.toString() ?? ''
+  const messages: string[] = []
+  connection.onMessage((text) => messages.push(text))
+  const receive = (...chunks: Buffer[]) => chunks.forEach((chunk) => socket.emit('data', chunk))
+  return { connection, socket, response, written, messages, receive }
+}
+
+/** The close code of a server close frame */
+const closeCode = (frame: Buffer | undefined) => (frame && frame[0] === 0x88 ? frame.readUInt16BE(2) : null)
+
+describe('handshake', () => {
+  it('answers 101 with the accept key derived from the client key', () => {
+    const { response } = open()
+    expect(response).toMatch(/^HTTP\/1\.1 101 Switching Protocols\r\n/)
+    expect(response).toContain(`Sec-WebSocket-Accept: ${ACCEPT}\r\n`)
+  })
+
+  it('answers 400 and returns null for anything else', () => {
+    const written: string[] = []
+    const socket = new Duplex({
+      read() {},
+      write(chunk: Buffer, _encoding, callback) {
+        written.push(chunk.toString())
+        callback()
+      },
+    })
+    expect(acceptWebSocket(handshake({ 'sec-websocket-version': '8' }), socket, Buffer.alloc(0))).toBeNull()
+    expect(written[0]).toMatch(/^HTTP\/1\.1 400 Bad Request/)
+  })
+})
+
+describe('frames', () => {
+  it('unmasks a text frame, also when TCP splits it or joins two', () => {
+    const { messages, receive } = open()
+    const hello = clientFrame(0x1, 'hello')
+    receive(hello.subarray(0, 1), hello.subarray(1, 4), hello.subarray(4))
+    receive(Buffer.concat([clientFrame(0x1, 'one'), clientFrame(0x1, 'two')]))
+    expect(messages).toEqual(['hello', 'one', 'two'])
+  })
+
+  it('reads 16-bit lengths', () => {
+    const { messages, receive } = open()
+    const text = 'x'.repeat(300)
+    receive(clientFrame(0x1, text))
+    expect(messages).toEqual([text])
+  })
+
+  it('joins a fragmented message, with a ping in between', () => {
+    const { messages, receive, written } = open()
+    receive(clientFrame(0x1, 'Hel', { fin: false }))
+    receive(clientFrame(0x9, 'are you there'))
+    receive(clientFrame(0x0, 'lo ', { fin: false }), clientFrame(0x0, 'world'))
+    expect(messages).toEqual(['Hello world'])
+    expect(written).toEqual([Buffer.concat([Buffer.from([0x8a, 13]), Buffer.from('are you there')])])
+  })
+
+  it('processes frames that arrived with the handshake', async () => {
+    const { messages } = open(clientFrame(0x1, 'early'))
+    expect(messages).toEqual([])
+    await Promise.resolve()
+    expect(messages).toEqual(['early'])
+  })
+
+  it('sends unmasked text frames and stops sending once closing', () => {
+    const { connection, written } = open()
+    connection.send('hi')
+    connection.close()
+    connection.send('too late')
+    expect(written[0]).toEqual(Buffer.from([0x81, 2, ...Buffer.from('hi')]))
+    expect(closeCode(written[1])).toBe(1000)
+    expect(written).toHaveLength(2)
+  })
+})
+
+describe('close codes', () => {
+  const closedWith = (...chunks: Buffer[]) => {
+    const { receive, written, messages } = open()
+    receive(...chunks)
+    return { code: closeCode(written.at(-1)), messages }
+  }
+
+  it('answers a close frame with 1000', () => {
+    expect(closedWith(clientFrame(0x8, Buffer.from([0x03, 0xe8]))).code).toBe(1000)
+  })
+
+  it('closes with 1002 for unmasked frames, reserved bits and broken fragmentation', () => {
+    expect(closedWith(clientFrame(0x1, 'hi', { masked: false })).code).toBe(1002)
+    const reserved = clientFrame(0x1, 'hi')
+    reserved[0] |= 0x40
+    expect(closedWith(reserved).code).toBe(1002)
+    expect(closedWith(clientFrame(0x0, 'orphan')).code).toBe(1002)
+    expect(closedWith(clientFrame(0x1, 'a', { fin: false }), clientFrame(0x1, 'b')).code).toBe(1002)
+    expect(closedWith(clientFrame(0x3, 'x')).code).toBe(1002)
+  })
+
+  it('closes with 1003 for binary data', () => {
+    expect(closedWith(clientFrame(0x2, Buffer.from([1, 2, 3]))).code).toBe(1003)
+  })
+
+  it('closes with 1009 for a message over 1 MB, before the payload arrives', () => {
+    const header = Buffer.alloc(10)
+    header[0] = 0x81
+    header[1] = 0x80 | 127
+    header.writeBigUInt64BE(BigInt(1024 * 1024 + 1), 2)
+    const { code, messages } = closedWith(header)
+    expect(code).toBe(1009)
+    expect(messages).toEqual([])
+  })
+
+  it('tells the listener once when the socket closes', () => {
+    const { connection, socket } = open()
+    let closes = 0
+    connection.onClose(() => closes++)
+    socket.emit('close')
+    socket.emit('close')
+    expect(closes).toBe(1)
+  })
+})
@@ -0,0 +1,273 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Minimal WebSocket Server Connection (RFC 6455)
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: Just enough of the WebSocket protocol for the dev chat server,
+ *          using only Node built-ins (no extra dependency)
+ *
+ * The Handshake:
+ * - The browser sends an HTTP request with `Upgrade: websocket` and a
+ *   random Sec-WebSocket-Key
+ * - We answer 101 Switching Protocols with Sec-WebSocket-Accept =
+ *   base64(sha1(key + WEBSOCKET_GUID)), proving we speak WebSocket
+ * - After that the TCP socket carries FRAMES instead of HTTP
+ *
+ * Frames (what this file parses and writes):
+ * - Byte 0: FIN bit + opcode (1 text, 2 binary, 0 continuation,
+ *   8 close, 9 ping, 10 pong)
+ * - Byte 1: MASK bit + 7-bit length; 126 → 16-bit length follows,
+ *   127 → 64-bit length follows
+ * - Client frames are always masked with a 4-byte key (XOR); server frames
+ *   never are
+ *
+ * LEARNING NOTES:
+ * - FOR DEVELOPMENT ONLY: no compression, no subprotocols, text messages
+ *   only; a production server should use a maintained library
+ * - TCP is a stream, not a sequence of messages: one 'data' event can hold
+ *   half a frame or three frames, so bytes are buffered until a whole frame
+ *   is available
+ */
+
+import { createHash } from 'node:crypto'
+import type { IncomingMessage } from 'node:http'
+import type { Duplex } from 'node:stream'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+/** Largest message we accept (frames of one message combined) */
+const MAX_PAYLOAD_BYTES = 1024 * 1024
+
+const OPCODE = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+} as const
+
+/** Close codes used below (RFC 6455 section 7.4.1) */
+const CLOSE_NORMAL = 1000
+const CLOSE_PROTOCOL_ERROR = 1002
+const CLOSE_UNSUPPORTED_DATA = 1003
+const CLOSE_TOO_BIG = 1009
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * WebSocketConnection - One accepted connection
+ * - send: Sends a text message (ignored once closing)
+ * - close: Starts the closing handshake
+ * - onMessage / onClose: Register the (single) listener for each
+ */
+export interface WebSocketConnection {
+  send(text: string): void
+  close(code?: number): void
+  onMessage(listener: (text: string) => void): void
+  onClose(listener: () => void): void
+}
+
+// ============================================================================
+// FRAMES
+// ============================================================================
+
+/**
+ * encodeFrame - Builds one unmasked, final frame
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer
+  if (payload.length < 126) {
+    header = Buffer.alloc(2)
+    header[1] = payload.length
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4)
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  header[0] = 0x80 | opcode
+  return Buffer.concat([header, payload])
+}
+
+interface Frame {
+  fin: boolean
+  opcode: number
+  payload: Buffer
+  /** Bytes of the buffer this frame used */
+  size: number
+}
+
+/**
+ * decodeFrame - Reads one frame from the start of `buffer`
+ *
+ * Returns null when the frame is not complete yet, or a close code when
+ * the frame breaks the rules.
+ */
+function decodeFrame(buffer: Buffer): Frame | number | null {
+  if (buffer.length < 2) return null
+  const fin = (buffer[0] & 0x80) !== 0
+  const opcode = buffer[0] & 0x0f
+  const masked = (buffer[1] & 0x80) !== 0
+  if (!masked || (buffer[0] & 0x70) !== 0) return CLOSE_PROTOCOL_ERROR
+
+  let length = buffer[1] & 0x7f
+  let offset = 2
+  if (length === 126) {
+    if (buffer.length < 4) return null
+    length = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (length === 127) {
+    if (buffer.length < 10) return null
+    const long = buffer.readBigUInt64BE(2)
+    if (long > BigInt(MAX_PAYLOAD_BYTES)) return CLOSE_TOO_BIG
+    length = Number(long)
+    offset = 10
+  }
+  if (length > MAX_PAYLOAD_BYTES) return CLOSE_TOO_BIG
+  if (buffer.length < offset + 4 + length) return null
+
+  const mask = buffer.subarray(offset, offset + 4)
+  const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length))
+  for (let i = 0; i < payload.length; i++) {
+    payload[i] ^= mask[i % 4]
+  }
+  return { fin, opcode, payload, size: offset + 4 + length }
+}
+
+// ============================================================================
+// HANDSHAKE + CONNECTION
+// ============================================================================
+
+/**
+ * acceptWebSocket - Completes the handshake for an HTTP 'upgrade' event
+ *
+ * Returns null (after answering 400) when the request is not a valid
+ * WebSocket handshake. `head` is any data the client sent after the
+ * request headers; it belongs to the first frame.
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex, head: Buffer): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key']
+  if (
+    request.headers.upgrade?.toLowerCase() !== 'websocket' ||
+    request.headers['sec-websocket-version'] !== '13' ||
+    typeof key !== 'string'
+  ) {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n')
+    return null
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+
+  let buffer: Buffer = Buffer.from(head)
+  let fragments: Buffer[] = []
+  let fragmentBytes = 0
+  let closing = false
+  let closed = false
+  let messageListener: (text: string) => void = () => {}
+  let closeListener: () => void = () => {}
+
+  const close = (code = CLOSE_NORMAL) => {
+    if (closing) return
+    closing = true
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code)
+    socket.end(encodeFrame(OPCODE.close, payload))
+  }
+
+  const handleFrame = (frame: Frame) => {
+    switch (frame.opcode) {
+      case OPCODE.ping:
+        socket.write(encodeFrame(OPCODE.pong, frame.payload))
+        return
+      case OPCODE.pong:
+        return
+      case OPCODE.close:
+        close()
+        return
+      case OPCODE.binary:
+        close(CLOSE_UNSUPPORTED_DATA)
+        return
+      case OPCODE.text:
+      case OPCODE.continuation: {
+        // A continuation needs an open message; a new text frame must not
+        // interrupt one
+        if ((frame.opcode === OPCODE.text) !== (fragments.length === 0)) {
+          close(CLOSE_PROTOCOL_ERROR)
+          return
+        }
+        fragments.push(frame.payload)
+        fragmentBytes += frame.payload.length
+        if (fragmentBytes > MAX_PAYLOAD_BYTES) {
+          close(CLOSE_TOO_BIG)
+          return
+        }
+        if (frame.fin) {
+          const text = Buffer.concat(fragments).toString('utf8')
+          fragments = []
+          fragmentBytes = 0
+          messageListener(text)
+        }
+        return
+      }
+      default:
+        close(CLOSE_PROTOCOL_ERROR)
+    }
+  }
+
+  const handleData = (chunk: Buffer) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk
+    while (!closing) {
+      const frame = decodeFrame(buffer)
+      if (frame === null) return
+      if (typeof frame === 'number') {
+        close(frame)
+        return
+      }
+      buffer = buffer.subarray(frame.size)
+      handleFrame(frame)
+    }
+  }
+
+  const handleEnd = () => {
+    if (closed) return
+    closed = true
+    closing = true
+    closeListener()
+  }
+
+  socket.on('data', handleData)
+  socket.on('close', handleEnd)
+  socket.on('error', () => socket.destroy())
+  // Data that arrived together with the handshake
+  if (buffer.length) queueMicrotask(() => handleData(Buffer.alloc(0)))
+
+  return {
+    send(text) {
+      if (!closing) socket.write(encodeFrame(OPCODE.text, Buffer.from(text, 'utf8')))
+    },
+    close,
+    onMessage(listener) {
+      messageListener = listener
+    },
+    onClose(listener) {
+      closeListener = listener
+    },
+  }
+}
@@ -1,45 +1,50 @@
 /**
  * ============================================================================
- * STEP 1.1: Main App Component - Default Vite React Template
+ * STEP 2.1: Main App Component - Routed Application Shell
  * ============================================================================
- * 
+ *
  * CREATED: Project Setup Phase - Step 1.1 (Vite project creation)
- * PURPOSE: Default React component created by Vite template
- * STATUS: Will be replaced with our social media app structure
- * 
- * This file demonstrates fundamental React concepts:
- * 
- * 1. COMPONENT STRUCTURE:
- *    - Function components (modern React approach)
- *    - JSX syntax (HTML-like syntax in JavaScript)
- *    - Component export/import system
- * 
- * 2. REACT HOOKS:
- *    - useState: Manages component state
- *    - State updates trigger re-renders
- *    - Functional state updates (prev => prev + 1)
- * 
- * 3. EVENT HANDLING:
- *    - onClick event handlers
- *    - Arrow functions for inline handlers
- *    - State updates in event handlers
- * 
- * 4. JSX CONCEPTS:
- *    - Fragment syntax (<>...</>) for multiple elements
- *    - className instead of class (JSX difference)
- *    - Self-closing tags (<img />, <br />)
- *    - JavaScript expressions in JSX ({count})
- * 
- * 5. IMPORT SYSTEM:
- *    - ES6 import/export syntax
- *    - Default vs named imports
- *    - Asset imports (images, CSS)
- * 
+ * UPDATED: Feature Phase - Step 2.1 (replaced the Vite counter with routing)
+ * UPDATED: Feature Phase - Step 2.2 (AuthProvider and route guards)
+ * UPDATED: Feature Phase - Step 2.8 (ChatProvider for real-time messaging)
+ * UPDATED: Feature Phase - Step 2.10 (NotificationsProvider for the notification center)
+ * UPDATED: Feature Phase - Step 2.14 (settings page)
+ * UPDATED: Feature Phase - Step 2.15 (moderation page)
+ * UPDATED: Feature Phase - Step 2.16 (OfflineProvider for the offline cache and outbox)
+ * UPDATED: Feature Phase - Step 2.19 (hashtag pages)
+ * UPDATED: Feature Phase - Step 2.21 (LiveUpdatesProvider for live likes, comments and posts)
+ * UPDATED: Feature Phase - Step 2.22 (email verification, password reset, dev mailbox)
+ * UPDATED: Feature Phase - Step 2.24 (I18nProvider for the interface language)
+ * PURPOSE: Declares every route of the social media app
+ *
+ * This file demonstrates fundamental React Router concepts:
+ *
+ * 1. CLIENT-SIDE ROUTING:
+ *    - BrowserRouter: Keeps the UI in sync with the browser URL
+ *    - Routes / Route: Declarative mapping from URL patterns to components
+ *    - Navigation happens without full page reloads
+ *
+ * 2. LAYOUT ROUTES:
+ *    - A parent route renders AppLayout (header + nav)
+ *    - Child routes render inside the layout's <Outlet />
+ *
+ * 3. CODE SPLITTING:
+ *    - React.lazy(): Loads a page module only when its route is visited
+ *    - Dynamic import(): Vite turns each one into a separate chunk
+ *    - Suspense (in AppLayout) shows a loader while a chunk downloads
+ *
+ * 4. 404 HANDLING:
+ *    - path="*": Catch-all route for unknown URLs
+ *
+ * 5. ROUTE GUARDS:
+ *    - ProtectedRoute: Signed-in users only (redirects to /login)
+ *    - GuestRoute: Signed-out users only (login and register forms)
+ *    - Guards are pathless layout routes, so they add no URL segment
+ *
  * LEARNING NOTES:
- * - This is the default Vite template - we'll replace this with our social media app
- * - Notice how React components are just JavaScript functions that return JSX
- * - State changes automatically trigger UI updates (reactive programming)
- * - JSX is syntactic sugar that gets compiled to React.createElement calls
+ * - Route patterns live in routes/paths.ts so links and routes never drift
+ * - Index routes (index) render at the parent's exact path
+ * - Each feature team can build inside its own page module
  */
 
 // ============================================================================
@@ -47,121 +52,189 @@
 // ============================================================================
 
 /**
- * React Hook Import
- * - useState: Most fundamental React hook for state management
- * - Named import from 'react' package
- * - Hooks always start with 'use' (React naming convention)
+ * React lazy Import
+ * - lazy: Wraps a dynamic import() so a component loads on first render
+ * - The imported module must have a default export
  */
-import { useState } from 'react'
+import { lazy } from 'react'
 
 /**
- * Asset Imports
- * - reactLogo: Default import from local assets folder
- * - viteLogo: Default import from public folder (note the '/')
- * - These are handled by Vite's asset pipeline
+ * React Router Imports
+ * - BrowserRouter: Uses the HTML5 history API (clean URLs, no '#')
+ * - Routes / Route: Declarative route configuration
  */
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
+import { BrowserRouter, Route, Routes } from 'react-router-dom'
+
+/**
+ * Layout & Route Constants
+ * - AppLayout is imported eagerly: it is needed on every page
+ * - ROUTES holds the URL patterns shared with <Link> builders
+ */
+import AppLayout from './components/layout/AppLayout'
+import ProtectedRoute from './components/auth/ProtectedRoute'
+import GuestRoute from './components/auth/GuestRoute'
+import { ROUTES } from './routes/paths'
+
+/**
+ * Auth Provider Import
+ * - AuthProvider: Supplies useAuth() to every route below it
+ */
+import AuthProvider from './context/AuthProvider'
+
+/**
+ * I18n Provider Import
+ * - I18nProvider: The reader's language, t() and <html lang dir>; reads
+ *   the account's saved language, so it goes inside AuthProvider
+ */
+import I18nProvider from './context/I18nProvider'
+
+/**
+ * Offline Provider Import
+ * - OfflineProvider: Tells the offline cache who is signed in and supplies
+ *   useOffline() (needs useAuth, so it goes inside AuthProvider)
+ */
+import OfflineProvider from './context/OfflineProvider'
+
+/**
+ * Chat, Live Updates & Notifications Provider Imports
+ * - ChatProvider: Keeps the real-time chat connection open while signed in
+ *   (needs useAuth, so it goes inside AuthProvider)
+ * - LiveUpdatesProvider: Applies live likes, comments, posts and follows to
+ *   the global store; listens on the chat connection, so it goes inside
+ *   ChatProvider
+ * - NotificationsProvider: Unread badge and notification center; gets live
+ *   notifications from LiveUpdatesProvider, so it goes inside that
+ */
+import ChatProvider from './context/ChatProvider'
+import LiveUpdatesProvider from './context/LiveUpdatesProvider'
+import NotificationsProvider from './context/NotificationsProvider'
 
 /**
  * CSS Import
- * - Imports CSS file that will be processed by Vite
- * - CSS is scoped to this component (CSS Modules behavior)
- * - Styles are automatically injected into the page
+ * - App shell styles (layout, navigation, page containers)
  */
 import './App.css'
 
+// ============================================================================
+// LAZY-LOADED ROUTE MODULES
+// ============================================================================
+
+/**
+ * Page Components - Each one is split into its own bundle chunk
+ *
+ * Why This Matters:
+ * - The first page load only downloads the code for the current route
+ * - Rarely visited pages (404, search) never slow down the home feed
+ */
+const HomePage = lazy(() => import('./pages/HomePage'))
+const ProfilePage = lazy(() => import('./pages/ProfilePage'))
+const PostPage = lazy(() => import('./pages/PostPage'))
+const MessagesPage = lazy(() => import('./pages/MessagesPage'))
+const NotificationsPage = lazy(() => import('./pages/NotificationsPage'))
+const SearchPage = lazy(() => import('./pages/SearchPage'))
+const TagPage = lazy(() => import('./pages/TagPage'))
+const SettingsPage = lazy(() => import('./pages/SettingsPage'))
+const ModerationPage = lazy(() => import('./pages/ModerationPage'))
+const NotFoundPage = lazy(() => import('./pages/NotFoundPage'))
+const LoginPage = lazy(() => import('./pages/LoginPage'))
+const RegisterPage = lazy(() => import('./pages/RegisterPage'))
+const ForgotPasswordPage = lazy(() => import('./pages/ForgotPasswordPage'))
+const ResetPasswordPage = lazy(() => import('./pages/ResetPasswordPage'))
+const VerifyEmailPage = lazy(() => import('./pages/VerifyEmailPage'))
+const MailboxPage = lazy(() => import('./pages/MailboxPage'))
+
 // ============================================================================
 // COMPONENT DEFINITION - Understanding React Components
 // ============================================================================
 
 /**
- * App Component - Main application component
- * 
+ * App Component - Root of the routed application
+ *
  * CREATED: Step 1.1 - Vite template creation
- * PURPOSE: Root component of our React application
- * 
- * Key React Concepts Demonstrated:
- * 1. Function Component: Modern React approach (vs class components)
- * 2. Component Naming: PascalCase convention
- * 3. Return Statement: Must return JSX or null
- * 4. State Management: Using useState hook
- * 5. Event Handling: onClick event with state update
- * 6. JSX Syntax: HTML-like syntax with JavaScript expressions
+ * UPDATED: Step 2.1 - Route configuration
+ * UPDATED: Step 2.2 - Auth provider and guarded routes
+ * UPDATED: Step 2.8 - Chat provider
+ * UPDATED: Step 2.10 - Notifications provider
+ * UPDATED: Step 2.14 - Settings page
+ * UPDATED: Step 2.15 - Moderation page
+ * UPDATED: Step 2.16 - Offline provider
+ * UPDATED: Step 2.19 - Hashtag pages
+ * UPDATED: Step 2.21 - Live updates provider
+ *
+ * Route Tree:
+ * - /                            → HomePage           (signed in)
+ * - /u/:username                 → ProfilePage
+ * - /post/:id                    → PostPage
+ * - /messages                    → MessagesPage       (signed in, inbox)
+ * - /messages/:conversationId    → MessagesPage       (signed in, open chat)
+ * - /notifications               → NotificationsPage  (signed in)
+ * - /search                      → SearchPage
+ * - /tag/:name                   → TagPage
+ * - /settings                    → SettingsPage       (signed in)
+ * - /moderation                  → ModerationPage     (signed in, moderators)
+ * - /login, /register            → LoginPage, RegisterPage (signed out)
+ * - *                            → NotFoundPage
  */
 function App() {
-  /**
-   * STATE MANAGEMENT - Understanding React State
-   * 
-   * useState Hook Breakdown:
-   * - count: Current state value (number)
-   * - setCount: Function to update state
-   * - 0: Initial state value
-   * 
-   * Why This Matters:
-   * - State changes trigger component re-renders
-   * - React tracks state changes and updates UI automatically
-   * - State is local to this component (component-scoped)
-   * - setCount can accept a value or a function (prev => prev + 1)
-   */
-  const [count, setCount] = useState(0)
-
-  /**
-   * JSX RETURN - Understanding JSX Syntax
-   * 
-   * Key JSX Concepts:
-   * 1. Fragment (<>...</>): Groups multiple elements without extra DOM node
-   * 2. className: JSX attribute (not 'class' like HTML)
-   * 3. Event Handlers: onClick with arrow function
-   * 4. JavaScript Expressions: {count} inside JSX
-   * 5. Self-closing Tags: <img />, <br /> (must be self-closing in JSX)
-   * 6. Conditional Rendering: {condition && <element>}
-   * 
-   * JSX Compilation:
-   * - JSX gets compiled to React.createElement() calls
-   * - Babel transforms JSX to JavaScript
-   * - Vite handles this compilation automatically
-   */
   return (
-    <>
-      {/* Logo Section - Demonstrates JSX structure */}
-      <div>
-        <a href="https://vite.dev" target="_blank">
-          <img src={viteLogo} className="logo" alt="Vite logo" />
-        </a>
-        <a href="https://react.dev" target="_blank">
-          <img src={reactLogo} className="logo react" alt="React logo" />
-        </a>
-      </div>
-      
-      {/* Main Heading */}
-      <h1>Vite + React</h1>
-      
-      {/* Interactive Section - Demonstrates state and events */}
-      <div className="card">
-        <button onClick={() => setCount((count) => count + 1)}>
-          count is {count}
-        </button>
-        <p>
-          Edit <code>src/App.tsx</code> and save to test HMR
-        </p>
-      </div>
-      
-      {/* Footer Section */}
-      <p className="read-the-docs">
-        Click on the Vite and React logos to learn more
-      </p>
-    </>
+    <BrowserRouter>
+      {/* AuthProvider sits inside the router so auth code may use routing hooks */}
+      <AuthProvider>
+        <I18nProvider>
+          <OfflineProvider>
+            <ChatProvider>
+              <LiveUpdatesProvider>
+                <NotificationsProvider>
+                  <Routes>
+                    {/* Layout route: everything below renders inside AppLayout */}
+                    <Route element={<AppLayout />}>
+                      {/* Public pages */}
+                      <Route path={ROUTES.profile} element={<ProfilePage />} />
+                      <Route path={ROUTES.post} element={<PostPage />} />
+                      <Route path={ROUTES.search} element={<SearchPage />} />
+                      <Route path={ROUTES.tag} element={<TagPage />} />
+                      {/* Opened from emailed links, signed in or not */}
+                      <Route path={ROUTES.verifyEmail} element={<VerifyEmailPage />} />
+                      <Route path={ROUTES.resetPassword} element={<ResetPasswordPage />} />
+                      {import.meta.env.DEV && <Route path={ROUTES.mailbox} element={<MailboxPage />} />}
+
+                      {/* Signed-in pages */}
+                      <Route element={<ProtectedRoute />}>
+                        <Route index element={<HomePage />} />
+                        <Route path={ROUTES.messages} element={<MessagesPage />} />
+                        <Route path={ROUTES.conversation} element={<MessagesPage />} />
+                        <Route path={ROUTES.notifications} element={<NotificationsPage />} />
+                        <Route path={ROUTES.settings} element={<SettingsPage />} />
+                        <Route path={ROUTES.moderation} element={<ModerationPage />} />
+                      </Route>
+
+                      {/* Signed-out pages */}
+                      <Route element={<GuestRoute />}>
+                        <Route path={ROUTES.login} element={<LoginPage />} />
+                        <Route path={ROUTES.register} element={<RegisterPage />} />
+                        <Route path={ROUTES.forgotPassword} element={<ForgotPasswordPage />} />
+                      </Route>
+
+                      {/* Catch-all: React Router ranks routes by specificity, so this
+                          only matches when nothing else does */}
+                      <Route path="*" element={<NotFoundPage />} />
+                    </Route>
+                  </Routes>
+                </NotificationsProvider>
+              </LiveUpdatesProvider>
+            </ChatProvider>
+          </OfflineProvider>
+        </I18nProvider>
+      </AuthProvider>
+    </BrowserRouter>
   )
 }
 
 /**
  * EXPORT STATEMENT - Understanding Module Exports
- * 
+ *
  * Default Export:
  * - This component is the default export of this module
  * - Can be imported as: import App from './App'
- * - Only one default export per module
- * - Used for main component of a file
  */
 export default App
@@ -0,0 +1,39 @@
+/**
+ * ============================================================================
+ * STEP 2.2: GuestRoute - Guard for Signed-Out-Only Routes
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Keep signed-in users away from /login and /register
+ *
+ * The mirror image of ProtectedRoute: once authenticated, the user is sent
+ * to the page they originally asked for (or home).
+ */
+
+import { Navigate, Outlet, useLocation } from 'react-router-dom'
+import PageLoader from '../common/PageLoader'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { redirectTarget } from '../../routes/paths'
+
+/**
+ * GuestRoute Component - Renders child routes only for signed-out users
+ */
+function GuestRoute() {
+  const { isAuthenticated, isLoading } = useAuth()
+  const location = useLocation()
+  const { t } = useI18n()
+
+  if (isLoading) {
+    return <PageLoader label={t('session.restoring')} />
+  }
+
+  if (isAuthenticated) {
+    return <Navigate to={redirectTarget(location.state)} replace />
+  }
+
+  return <Outlet />
+}
+
+export default GuestRoute
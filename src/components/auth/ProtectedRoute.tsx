@@ -0,0 +1,48 @@
+/**
+ * ============================================================================
+ * STEP 2.2: ProtectedRoute - Guard for Signed-In-Only Routes
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Redirect anonymous visitors to /login, then send them back
+ *
+ * React Router Concepts Demonstrated:
+ * - Layout-style guards: <Route element={<ProtectedRoute />}> wraps child
+ *   routes, and <Outlet /> renders whichever child matched
+ * - <Navigate replace />: Redirects without adding a history entry, so the
+ *   back button does not bounce the user into the guard again
+ * - location.state: Carries the page the user wanted to visit to /login
+ *
+ * LEARNING NOTES:
+ * - While the session is still being restored we show a loader, NOT the
+ *   redirect; otherwise a signed-in user would briefly land on /login
+ */
+
+import { Navigate, Outlet, useLocation } from 'react-router-dom'
+import PageLoader from '../common/PageLoader'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { ROUTES, type RedirectState } from '../../routes/paths'
+
+/**
+ * ProtectedRoute Component - Renders child routes only for signed-in users
+ */
+function ProtectedRoute() {
+  const { isAuthenticated, isLoading } = useAuth()
+  const location = useLocation()
+  const { t } = useI18n()
+
+  if (isLoading) {
+    return <PageLoader label={t('session.restoring')} />
+  }
+
+  if (!isAuthenticated) {
+    const state: RedirectState = { from: location }
+    return <Navigate to={ROUTES.login} replace state={state} />
+  }
+
+  return <Outlet />
+}
+
+export default ProtectedRoute
@@ -0,0 +1,143 @@
+/**
+ * ============================================================================
+ * STEP 2.7: CommentForm - Write, Reply To or Edit a Comment
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.7 (Threaded comments)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * UPDATED: Feature Phase - Step 2.25 (focus on request)
+ * PURPOSE: One text box reused for new comments, replies and edits
+ *
+ * React Concepts Demonstrated:
+ * - One component, three uses: the parent decides the label, the initial
+ *   text and what happens on submit
+ * - useId for unique label/description IDs when many forms are on screen
+ *
+ * LEARNING NOTES:
+ * - Validation uses validateCommentForm, the same rule the server applies
+ */
+
+import { useId, useRef, useState, type FormEvent } from 'react'
+import clsx from 'clsx'
+import { useFocusRequest, type FocusTarget } from '../../hooks/useFocusRequest'
+import { useFormValidation } from '../../hooks/useFormValidation'
+import { useI18n } from '../../hooks/useI18n'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import {
+  COMMENT_MAX_LENGTH,
+  ValidationError,
+  validateCommentForm,
+  type CommentForm as CommentFormValues,
+  type FieldErrors,
+} from '../../validation'
+
+/**
+ * CommentForm Props
+ * - label: Visible label ("Add a comment", "Reply to @bob", "Edit comment")
+ * - initialContent: Existing text when editing
+ * - onSubmit: Saves the text; may throw ValidationError
+ * - onCancel: Shows a Cancel button (replies and edits)
+ * - focusTarget: Focus the box when a navigation asks for it (useFocusRequest)
+ */
+interface CommentFormProps {
+  label: string
+  submitLabel: string
+  initialContent?: string
+  autoFocus?: boolean
+  focusTarget?: FocusTarget
+  onSubmit: (content: string) => Promise<void>
+  onCancel?: () => void
+}
+
+/**
+ * CommentForm Component
+ */
+function CommentForm({
+  label,
+  submitLabel,
+  initialContent = '',
+  autoFocus,
+  focusTarget,
+  onSubmit,
+  onCancel,
+}: CommentFormProps) {
+  const { t, formatNumber } = useI18n()
+  const [form, setForm] = useState<CommentFormValues>({ content: initialContent })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const validation = useFormValidation(form, validateCommentForm)
+  const id = useId()
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  useFocusRequest(focusTarget, textareaRef)
+
+  const remaining = COMMENT_MAX_LENGTH - form.content.length
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    try {
+      await onSubmit(form.content)
+      setForm({ content: '' })
+      validation.reset()
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        validation.setServerErrors(err.errors as FieldErrors<CommentFormValues>)
+      } else {
+        setSubmitError(err instanceof Error ? err.message : t('comment.saveError'))
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form className="comment-form" onSubmit={handleSubmit} noValidate>
+      <label className="comment-form__label" htmlFor={`${id}-content`}>
+        {label}
+      </label>
+      <textarea
+        ref={textareaRef}
+        id={`${id}-content`}
+        className="comment-form__input"
+        rows={2}
+        autoFocus={autoFocus}
+        value={form.content}
+        onChange={(e) => {
+          setForm({ content: e.target.value })
+          validation.clearServerError('content')
+        }}
+        onBlur={() => validation.handleBlur('content')}
+        aria-invalid={validation.errors.content ? true : undefined}
+        aria-describedby={`${id}-error`}
+      />
+      <div className="comment-form__toolbar">
+        <span className={clsx('comment-form__counter', remaining < 0 && 'post-composer__counter--over')}>
+          {formatNumber(remaining)}
+        </span>
+        {onCancel && (
+          <button type="button" onClick={onCancel}>
+            {t('comment.cancel')}
+          </button>
+        )}
+        <button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? t('common.saving') : submitLabel}
+        </button>
+      </div>
+      <div id={`${id}-error`}>
+        {validation.errors.content && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.content, t)}</p>
+        )}
+        {submitError && (
+          <p className="auth-form__field-error" role="alert">
+            {submitError}
+          </p>
+        )}
+      </div>
+    </form>
+  )
+}
+
+export default CommentForm
@@ -0,0 +1,275 @@
+/**
+ * ============================================================================
+ * STEP 2.7: CommentItem - One Comment and (Recursively) Its Replies
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.7 (Threaded comments)
+ * UPDATED: Feature Phase - Step 2.15 (reporting, moderated and filtered comments)
+ * UPDATED: Feature Phase - Step 2.16 (label for comments written offline)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps, translated)
+ * PURPOSE: Render a CommentNode: author, text, actions, then its children
+ *
+ * React Concepts Demonstrated:
+ * - Recursive components: CommentItem renders CommentItem for each reply
+ * - Local UI state per comment (collapsed, replying, editing) lives in the
+ *   component; the comment DATA lives in useCommentThread
+ *
+ * Keeping Deep Threads Readable:
+ * - Past MAX_DEPTH levels, replies are replaced by a "Continue this thread"
+ *   link that opens the post focused on that comment
+ * - Only the first VISIBLE_REPLIES replies are shown at first; a button
+ *   reveals the rest of a long branch
+ * - The [–] toggle collapses a comment and everything under it
+ *
+ * Moderation (Step 2.15):
+ * - A comment moderators hid or removed keeps its place with a
+ *   placeholder, so its replies still hang below it; removed comments lose
+ *   their actions like deleted ones
+ * - A comment containing a word the viewer muted (isFiltered) is collapsed
+ *   to one line with a "Show" button
+ *
+ * Offline (Step 2.16):
+ * - A comment written offline (isPending) is labelled "Not sent yet".
+ *   It can be liked and replied to (those queue behind it), but not
+ *   edited, deleted or reported until the server has it
+ *
+ * Accessibility:
+ * - aria-expanded on the collapse toggle announces the branch state
+ * - Replies are a nested <ul>, so screen readers announce list depth
+ */
+
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Heart } from 'lucide-react'
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import { commentThreadPath, profilePath } from '../../routes/paths'
+import type { Comment, User } from '../../types'
+import type { CommentNode } from '../../utils/commentTree'
+import { formatFullDate } from '../../utils/formatDate'
+import { moderatedPlaceholder } from '../../utils/moderation'
+import RelativeTime from '../common/RelativeTime'
+import ReportButton from '../moderation/ReportButton'
+import PostText from '../posts/PostText'
+import CommentForm from './CommentForm'
+
+/**
+ * MAX_DEPTH - Levels shown below the thread's top before "Continue this thread"
+ */
+const MAX_DEPTH = 4
+
+/**
+ * VISIBLE_REPLIES - Replies shown before "Show N more replies"
+ */
+const VISIBLE_REPLIES = 3
+
+/**
+ * EDITED_GRACE_MS - Saves within this window of posting do not count as edits
+ */
+const EDITED_GRACE_MS = 1000
+
+/**
+ * CommentActions - Everything a comment can do, supplied by CommentThread
+ */
+export interface CommentActions {
+  viewerId: string | null
+  onReply: (parentId: string, content: string) => Promise<void>
+  onEdit: (commentId: string, content: string) => Promise<void>
+  onDelete: (commentId: string) => Promise<void>
+  onToggleLike: (comment: Comment) => void
+}
+
+/**
+ * CommentItem Props
+ * - level: Depth relative to where this thread view starts (0 = top)
+ * - authors: Users keyed by ID (from useUsersById)
+ */
+interface CommentItemProps {
+  node: CommentNode
+  level: number
+  authors: Record<string, User>
+  actions: CommentActions
+}
+
+/**
+ * CommentItem Component
+ */
+function CommentItem({ node, level, authors, actions }: CommentItemProps) {
+  const { comment, children, replyCount } = node
+  const { locale, t, formatNumber } = useI18n()
+  const [isCollapsed, setIsCollapsed] = useState(false)
+  const [showAllReplies, setShowAllReplies] = useState(false)
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view')
+  const [showFiltered, setShowFiltered] = useState(false)
+
+  const author = authors[comment.authorId]
+  const isOwn = actions.viewerId === comment.authorId
+  const isLiked = actions.viewerId ? comment.likes.includes(actions.viewerId) : false
+  const isEdited = comment.updatedAt.getTime() - comment.createdAt.getTime() > EDITED_GRACE_MS
+  const visibleChildren = showAllReplies ? children : children.slice(0, VISIBLE_REPLIES)
+  const hiddenCount = children.length - visibleChildren.length
+  // The server blanks moderated text for everyone who may not read it
+  const isRedacted = Boolean(comment.moderation) && !comment.content
+  const hasActions = !comment.isDeleted && !isRedacted && comment.moderation !== 'removed' && mode !== 'edit'
+
+  const handleDelete = async () => {
+    if (window.confirm(t('comment.deleteConfirm'))) await actions.onDelete(comment.id)
+  }
+
+  return (
+    <li className={clsx('comment', comment.isDeleted && 'comment--deleted')}>
+      <div className="comment__header">
+        <button
+          type="button"
+          className="comment__collapse"
+          onClick={() => setIsCollapsed((value) => !value)}
+          aria-expanded={!isCollapsed}
+          aria-label={t(isCollapsed ? 'comment.expand' : 'comment.collapse')}
+        >
+          {isCollapsed ? '+' : '–'}
+        </button>
+        {comment.isDeleted ? (
+          <span className="comment__author">{t('comment.deletedAuthor')}</span>
+        ) : author ? (
+          <Link className="comment__author" to={profilePath(author.username)}>
+            @{author.username}
+          </Link>
+        ) : (
+          <span className="comment__author">…</span>
+        )}
+        <RelativeTime className="comment__time" date={comment.createdAt} />
+        {isEdited && !comment.isDeleted && (
+          <span
+            className="comment__edited"
+            title={t('post.editedAt', { date: formatFullDate(comment.updatedAt, locale) })}
+          >
+            · {t('comment.edited')}
+          </span>
+        )}
+        {comment.isPending && <span className="pending-label">{t('post.pending')}</span>}
+        {isCollapsed && replyCount > 0 && (
+          <span className="comment__collapsed-count">{t('comment.hiddenReplies', { count: replyCount })}</span>
+        )}
+      </div>
+
+      {!isCollapsed && (
+        <>
+          {comment.isDeleted ? (
+            <p className="comment__content comment__content--deleted">{t('comment.deleted')}</p>
+          ) : isRedacted ? (
+            <p className="comment__content comment__content--deleted">
+              {moderatedPlaceholder(comment.moderation!, 'comment', false, t)}
+            </p>
+          ) : comment.isFiltered && !showFiltered ? (
+            <p className="comment__content comment__content--deleted">
+              {t('comment.filtered')}{' '}
+              <button type="button" className="comment__action" onClick={() => setShowFiltered(true)}>
+                {t('common.show')}
+              </button>
+            </p>
+          ) : mode === 'edit' ? (
+            <CommentForm
+              label={t('comment.editLabel')}
+              submitLabel={t('post.save')}
+              initialContent={comment.content}
+              autoFocus
+              onSubmit={async (content) => {
+                await actions.onEdit(comment.id, content)
+                setMode('view')
+              }}
+              onCancel={() => setMode('view')}
+            />
+          ) : (
+            <>
+              {comment.moderation && (
+                <p className="moderation-note">{moderatedPlaceholder(comment.moderation, 'comment', true, t)}</p>
+              )}
+              <PostText className="comment__content" text={comment.content} />
+            </>
+          )}
+
+          {hasActions && (
+            <div className="comment__actions">
+              <button
+                type="button"
+                className={clsx('post-card__action', isLiked && 'post-card__action--active')}
+                onClick={() => actions.onToggleLike(comment)}
+                disabled={!actions.viewerId}
+                aria-pressed={isLiked}
+                aria-label={t('comment.like', { count: comment.likes.length })}
+              >
+                <Heart size={14} aria-hidden="true" fill={isLiked ? 'currentColor' : 'none'} />
+                {formatNumber(comment.likes.length)}
+              </button>
+              {actions.viewerId && (
+                <button type="button" className="comment__action" onClick={() => setMode('reply')}>
+                  {t('comment.reply')}
+                </button>
+              )}
+              {isOwn && !comment.isPending && (
+                <>
+                  <button type="button" className="comment__action" onClick={() => setMode('edit')}>
+                    {t('post.edit')}
+                  </button>
+                  <button type="button" className="comment__action" onClick={handleDelete}>
+                    {t('post.delete')}
+                  </button>
+                </>
+              )}
+              {!comment.isPending && (
+                <ReportButton
+                  targetType="comment"
+                  targetId={comment.id}
+                  authorId={comment.authorId}
+                  className="comment__action"
+                />
+              )}
+            </div>
+          )}
+
+          {mode === 'reply' && (
+            <CommentForm
+              label={author ? t('comment.replyTo', { username: author.username }) : t('comment.reply')}
+              submitLabel={t('comment.reply')}
+              autoFocus
+              onSubmit={async (content) => {
+                await actions.onReply(comment.id, content)
+                setMode('view')
+                setIsCollapsed(false)
+              }}
+              onCancel={() => setMode('view')}
+            />
+          )}
+
+          {children.length > 0 &&
+            (level + 1 >= MAX_DEPTH ? (
+              <Link className="comment__continue" to={commentThreadPath(comment.postId, comment.id)}>
+                {t('comment.continue', { count: replyCount })}
+              </Link>
+            ) : (
+              <ul className="comment__replies">
+                {visibleChildren.map((child) => (
+                  <CommentItem
+                    key={child.comment.id}
+                    node={child}
+                    level={level + 1}
+                    authors={authors}
+                    actions={actions}
+                  />
+                ))}
+                {hiddenCount > 0 && (
+                  <li>
+                    <button type="button" className="comment__more" onClick={() => setShowAllReplies(true)}>
+                      {t('comment.moreReplies', { count: hiddenCount })}
+                    </button>
+                  </li>
+                )}
+              </ul>
+            ))}
+        </>
+      )}
+    </li>
+  )
+}
+
+export default CommentItem
@@ -0,0 +1,146 @@
+/**
+ * ============================================================================
+ * STEP 2.7: CommentThread - Sorted, Nested Comments for One Post
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.7 (Threaded comments)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * UPDATED: Feature Phase - Step 2.25 (the `r` shortcut focuses the comment box)
+ * PURPOSE: Sort control, new-comment box and the reply tree of a post
+ *
+ * How It Fits Together:
+ * - useCommentThread loads comments (flat) and performs every change
+ * - buildCommentTree nests them on each render, sorted by `sort`
+ * - With focusCommentId (from "Continue this thread"), only that comment's
+ *   branch is shown, starting again at level 0
+ *
+ * LEARNING NOTES:
+ * - The actions object is memoized so CommentItems receive the same
+ *   reference between renders unless the viewer or thread changes
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { useCommentThread } from '../../hooks/useCommentThread'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import type { MessageKey } from '../../i18n'
+import { postPath } from '../../routes/paths'
+import type { CommentSort } from '../../types'
+import { buildCommentTree, findCommentNode } from '../../utils/commentTree'
+import PageLoader from '../common/PageLoader'
+import CommentForm from './CommentForm'
+import CommentItem, { type CommentActions } from './CommentItem'
+
+/**
+ * SORT_OPTIONS - Labels for the sort <select>
+ */
+const SORT_OPTIONS: { value: CommentSort; label: MessageKey }[] = [
+  { value: 'oldest', label: 'comments.oldest' },
+  { value: 'newest', label: 'comments.newest' },
+  { value: 'top', label: 'comments.top' },
+]
+
+/**
+ * CommentThread Props
+ * - focusCommentId: Show only this comment's branch
+ */
+interface CommentThreadProps {
+  postId: string
+  focusCommentId?: string | null
+}
+
+/**
+ * CommentThread Component
+ */
+function CommentThread({ postId, focusCommentId }: CommentThreadProps) {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const [sort, setSort] = useState<CommentSort>('oldest')
+  const thread = useCommentThread(postId, sort)
+  const authors = useUsersById(thread.comments.map((comment) => comment.authorId))
+
+  const roots = useMemo(() => buildCommentTree(thread.comments, sort), [thread.comments, sort])
+  const focusNode = focusCommentId ? findCommentNode(roots, focusCommentId) : null
+  const visibleRoots = focusNode ? [focusNode] : roots
+
+  // A focused comment may sit on a later page: keep loading until found
+  const { hasMore, isLoading, loadMore } = thread
+  useEffect(() => {
+    if (focusCommentId && !focusNode && hasMore && !isLoading) loadMore()
+  }, [focusCommentId, focusNode, hasMore, isLoading, loadMore])
+
+  const { addComment, editComment, removeComment, toggleLike } = thread
+  const viewerId = user?.id ?? null
+  const actions = useMemo<CommentActions>(
+    () => ({
+      viewerId,
+      onReply: (parentId, content) => addComment(content, parentId),
+      onEdit: editComment,
+      onDelete: removeComment,
+      onToggleLike: (comment) => {
+        if (viewerId) void toggleLike(comment, viewerId)
+      },
+    }),
+    [viewerId, addComment, editComment, removeComment, toggleLike],
+  )
+
+  return (
+    <section className="comment-thread" aria-labelledby="comments-heading">
+      <div className="comment-thread__header">
+        <h2 id="comments-heading" className="comment-thread__title">
+          {t('comments.title')}
+        </h2>
+        <label className="comment-thread__sort">
+          {t('comments.sortBy')}{' '}
+          <select value={sort} onChange={(e) => setSort(e.target.value as CommentSort)}>
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.label)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {focusCommentId ? (
+        <Link className="comment-thread__back" to={postPath(postId)}>
+          {t('comments.back')}
+        </Link>
+      ) : user ? (
+        <CommentForm
+          label={t('comments.add')}
+          submitLabel={t('comments.submit')}
+          focusTarget="reply"
+          onSubmit={(content) => addComment(content)}
+        />
+      ) : null}
+
+      {thread.error && (
+        <p className="auth-form__error" role="alert">
+          {thread.error}
+        </p>
+      )}
+
+      {!isLoading && visibleRoots.length === 0 && !thread.error && (
+        <p className="page__placeholder">{focusCommentId ? t('notifications.commentGone') : t('comments.empty')}</p>
+      )}
+
+      <ul className="comment-thread__list">
+        {visibleRoots.map((node) => (
+          <CommentItem key={node.comment.id} node={node} level={0} authors={authors} actions={actions} />
+        ))}
+      </ul>
+
+      {isLoading && <PageLoader label={t('comments.loading')} />}
+      {!focusCommentId && hasMore && !isLoading && (
+        <button type="button" className="feed__more" onClick={loadMore}>
+          {t('comments.more')}
+        </button>
+      )}
+    </section>
+  )
+}
+
+export default CommentThread
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * STEP 2.24: LocaleSwitcher - Language Picker
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: Lets the reader pick the interface language, in the settings
+ *          page and (signed out) in the header
+ *
+ * Behaviour:
+ * - The app switches as soon as a language is picked
+ * - Signed in, the choice is saved to the account; if that fails the
+ *   language still applies on this device and a message says so
+ *
+ * Accessibility:
+ * - Each language is listed under its own name with a matching lang
+ *   attribute, so screen readers pronounce "Español" in Spanish
+ * - `compact` hides the label visually but keeps it for screen readers
+ */
+
+import { useId, useState } from 'react'
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import { isLocale, LOCALES } from '../../i18n'
+
+/**
+ * LocaleSwitcher Props
+ * - compact: Visually hidden label, for the header
+ */
+interface LocaleSwitcherProps {
+  compact?: boolean
+}
+
+/**
+ * LocaleSwitcher Component
+ */
+function LocaleSwitcher({ compact = false }: LocaleSwitcherProps) {
+  const { locale, setLocale, t } = useI18n()
+  const [saveFailed, setSaveFailed] = useState(false)
+  const id = useId()
+
+  const handleChange = async (value: string) => {
+    if (!isLocale(value)) return
+    setSaveFailed(false)
+    try {
+      await setLocale(value)
+    } catch {
+      setSaveFailed(true)
+    }
+  }
+
+  return (
+    <div className={clsx('locale-switcher', compact && 'locale-switcher--compact')}>
+      <label htmlFor={id} className={clsx('locale-switcher__label', compact && 'visually-hidden')}>
+        {t('language.label')}
+      </label>
+      <select id={id} value={locale} onChange={(event) => void handleChange(event.target.value)}>
+        {LOCALES.map(({ code, name }) => (
+          <option key={code} value={code} lang={code}>
+            {name}
+          </option>
+        ))}
+      </select>
+      {saveFailed && (
+        <p className="auth-form__error" role="alert">
+          {t('language.saveError')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default LocaleSwitcher
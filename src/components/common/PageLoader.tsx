@@ -0,0 +1,41 @@
+/**
+ * ============================================================================
+ * STEP 2.1: PageLoader - Fallback UI While Route Code Downloads
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Shown by <Suspense> while a lazy-loaded page is being fetched
+ *
+ * React Concepts Demonstrated:
+ * - Suspense fallbacks: any component can be a loading placeholder
+ * - ARIA: role="status" lets screen readers announce the loading state
+ *
+ * LEARNING NOTES:
+ * - Keep fallbacks tiny; they are part of the main bundle
+ */
+
+import { useI18n } from '../../hooks/useI18n'
+
+/**
+ * PageLoader Props
+ * - label: Optional text for screen readers and the visible caption
+ */
+interface PageLoaderProps {
+  label?: string
+}
+
+/**
+ * PageLoader Component - Centered loading indicator
+ */
+function PageLoader({ label }: PageLoaderProps) {
+  const { t } = useI18n()
+  return (
+    <div className="page-loader" role="status" aria-live="polite">
+      <span className="page-loader__spinner" aria-hidden="true" />
+      <span className="page-loader__label">{label ?? t('common.loading')}</span>
+    </div>
+  )
+}
+
+export default PageLoader
@@ -0,0 +1,66 @@
+/**
+ * ============================================================================
+ * STEP 2.24: RelativeTime - "3m ago" That Stays Correct
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: The one way to show a Date: in the reader's language, with the
+ *          exact time for machines and tooltips, updating as time passes
+ *
+ * Behaviour:
+ * - Relative ("now", "5m ago", "yesterday") for a week, then a short date
+ * - The label is re-rendered exactly when it would change: after a minute
+ *   while minutes are shown, after an hour while hours are, and so on
+ * - `absolute` shows the full date and time instead ("January 4, 2025 at
+ *   3:12 PM"), for places where the exact moment matters
+ *
+ * React Concepts Demonstrated:
+ * - One setTimeout per timestamp, rescheduled after every tick and
+ *   cleared on unmount; no global interval waking every timestamp each
+ *   second
+ *
+ * Accessibility:
+ * - <time dateTime> carries the exact timestamp; the title shows it in
+ *   full on hover
+ */
+
+import { useEffect, useState } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import { formatFullDate, formatRelativeTime, nextRelativeUpdate } from '../../utils/formatDate'
+
+/**
+ * RelativeTime Props
+ * - date: The moment to show
+ * - className: Optional class for the <time> element
+ * - absolute: Show the full date and time instead of the relative form
+ */
+interface RelativeTimeProps {
+  date: Date
+  className?: string
+  absolute?: boolean
+}
+
+/**
+ * RelativeTime Component
+ */
+function RelativeTime({ date, className, absolute = false }: RelativeTimeProps) {
+  const { locale } = useI18n()
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    if (absolute) return
+    const delay = nextRelativeUpdate(date, now)
+    if (delay === null) return
+    const timer = setTimeout(() => setNow(new Date()), delay)
+    return () => clearTimeout(timer)
+  }, [date, now, absolute])
+
+  const full = formatFullDate(date, locale)
+  return (
+    <time className={className} dateTime={date.toISOString()} title={absolute ? undefined : full}>
+      {absolute ? full : formatRelativeTime(date, locale, now)}
+    </time>
+  )
+}
+
+export default RelativeTime
@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * STEP 2.3: TextField - Labelled Input with an Accessible Error Message
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * UPDATED: Feature Phase - Step 2.24 (errors in the reader's language)
+ * PURPOSE: One consistent way to render an input and its FieldError
+ *
+ * Accessibility Concepts Demonstrated:
+ * - aria-invalid: Tells screen readers the current value is rejected
+ * - aria-describedby: Links the input to its error text, so the message is
+ *   read out when the input is focused
+ * - useId(): Generates a stable, unique id for that link
+ *
+ * React Concepts Demonstrated:
+ * - Prop spreading: any normal <input> prop (type, autoComplete, onChange)
+ *   passes straight through via ...inputProps
+ */
+
+import { useId, type InputHTMLAttributes } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import type { FieldError } from '../../validation'
+
+/**
+ * TextField Props
+ * - label: Visible label text
+ * - error: FieldError to show under the input, if any
+ * - Everything else is forwarded to <input>
+ */
+interface TextFieldProps extends InputHTMLAttributes<HTMLInputElement> {
+  label: string
+  error?: FieldError
+}
+
+/**
+ * TextField Component
+ */
+function TextField({ label, error, ...inputProps }: TextFieldProps) {
+  const { t } = useI18n()
+  const errorId = useId()
+
+  return (
+    <label className="auth-form__field">
+      <span>{label}</span>
+      <input
+        {...inputProps}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={error ? errorId : undefined}
+      />
+      {error && (
+        <span id={errorId} className="auth-form__field-error">
+          {fieldErrorText(error, t)}
+        </span>
+      )}
+    </label>
+  )
+}
+
+export default TextField
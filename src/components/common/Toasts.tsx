@@ -0,0 +1,75 @@
+/**
+ * ============================================================================
+ * STEP 2.20: Toasts - Messages From the Error Channel
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global store and error channel)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Shows what reportError() raised (a like that did not save, a
+ *          follow the server refused) in the corner of every page
+ *
+ * Behaviour:
+ * - Each toast closes itself after TOAST_DURATION_MS, or at once with ×
+ * - Only the last few are kept (store/appState.ts), so a burst of failures
+ *   does not cover the page
+ *
+ * Accessibility:
+ * - Errors are role="alert" (read out at once), others role="status"
+ * - The close button is labelled; the icon inside is hidden
+ */
+
+import { useEffect } from 'react'
+import { X } from 'lucide-react'
+import clsx from 'clsx'
+import { useAppSelector } from '../../hooks/useAppStore'
+import { useI18n } from '../../hooks/useI18n'
+import { dismissToast, selectToasts } from '../../store'
+import type { Toast } from '../../types'
+
+const TOAST_DURATION_MS = 6000
+
+/**
+ * ToastItem - One toast, with its own timer
+ */
+function ToastItem({ toast }: { toast: Toast }) {
+  const { t } = useI18n()
+  useEffect(() => {
+    const timer = setTimeout(() => dismissToast(toast.id), TOAST_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [toast.id])
+
+  return (
+    <li
+      className={clsx('toasts__item', `toasts__item--${toast.tone}`)}
+      role={toast.tone === 'error' ? 'alert' : 'status'}
+    >
+      <span className="toasts__message">{toast.messageKey ? t(toast.messageKey) : toast.message}</span>
+      <button
+        type="button"
+        className="toasts__close"
+        aria-label={t('toast.dismiss')}
+        onClick={() => dismissToast(toast.id)}
+      >
+        <X size={16} aria-hidden="true" />
+      </button>
+    </li>
+  )
+}
+
+/**
+ * Toasts Component
+ */
+function Toasts() {
+  const toasts = useAppSelector(selectToasts)
+  if (toasts.length === 0) return null
+
+  return (
+    <ol className="toasts">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} />
+      ))}
+    </ol>
+  )
+}
+
+export default Toasts
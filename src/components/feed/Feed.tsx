@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * STEP 2.5: Feed - Infinite List of PostCards
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.18 (shared posts' authors, deleting posts)
+ * UPDATED: Feature Phase - Step 2.21 (watches its posts for live likes and comments)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Render loaded posts and ask for more as the reader scrolls
+ *
+ * How It Works:
+ * - An empty sentinel <div> sits after the last post; useInfiniteScroll
+ *   calls onLoadMore when it approaches the viewport
+ * - A "Load more" button is also rendered while more posts exist, so
+ *   keyboard users (and browsers without IntersectionObserver) can page too
+ * - Authors for every visible post (and of the posts they repost or
+ *   quote) are fetched in one batch
+ * - The same posts are watched (useWatchPosts), so likes and comments
+ *   from other people show up on the cards as they happen
+ *
+ * LEARNING NOTES:
+ * - This component holds no feed state; useFeed owns it and the page passes
+ *   it down. The same list can later show profile or hashtag timelines.
+ */
+
+import type { Post } from '../../types'
+import { useI18n } from '../../hooks/useI18n'
+import { useInfiniteScroll } from '../../hooks/useInfiniteScroll'
+import { useWatchPosts } from '../../hooks/useLiveUpdates'
+import { useUsersById } from '../../hooks/useUsersById'
+import { postAuthorIds, sharedPostOf, shownPostIds } from '../../utils/posts'
+import PageLoader from '../common/PageLoader'
+import PostCard from '../posts/PostCard'
+
+/**
+ * Feed Props
+ * - onPostRemove: Drops a post the viewer deleted (Step 2.18)
+ */
+interface FeedProps {
+  posts: Post[]
+  hasMore: boolean
+  isLoading: boolean
+  error: string | null
+  emptyMessage: string
+  onLoadMore: () => void
+  onRetry: () => void
+  onPostChange: (post: Post) => void
+  onPostRemove?: (postId: string) => void
+}
+
+/**
+ * Feed Component
+ */
+function Feed({
+  posts,
+  hasMore,
+  isLoading,
+  error,
+  emptyMessage,
+  onLoadMore,
+  onRetry,
+  onPostChange,
+  onPostRemove,
+}: FeedProps) {
+  const { t } = useI18n()
+  const authors = useUsersById(postAuthorIds(posts))
+  useWatchPosts(shownPostIds(posts))
+  const sentinelRef = useInfiniteScroll(onLoadMore, hasMore && !isLoading && !error)
+
+  return (
+    <div className="feed" aria-busy={isLoading}>
+      {posts.length === 0 && !isLoading && !error && (
+        <p className="page__placeholder">{emptyMessage}</p>
+      )}
+
+      <ol className="feed__list">
+        {posts.map((post) => (
+          <li key={post.id}>
+            <PostCard
+              post={post}
+              author={authors[post.authorId]}
+              sharedAuthor={authors[sharedPostOf(post)?.authorId ?? '']}
+              onChange={onPostChange}
+              onRemove={onPostRemove}
+            />
+          </li>
+        ))}
+      </ol>
+
+      {isLoading && <PageLoader label={t('feed.loading')} />}
+
+      {error && (
+        <div className="feed__error" role="alert">
+          <p className="auth-form__error">{error}</p>
+          <button type="button" onClick={onRetry}>
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {hasMore && !isLoading && !error && (
+        <button type="button" className="feed__more" onClick={onLoadMore}>
+          {t('common.loadMore')}
+        </button>
+      )}
+      {!hasMore && posts.length > 0 && <p className="feed__end">{t('feed.end')}</p>}
+
+      <div ref={sentinelRef} className="feed__sentinel" aria-hidden="true" />
+    </div>
+  )
+}
+
+export default Feed
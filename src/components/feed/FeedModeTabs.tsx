@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * STEP 2.5: FeedModeTabs - Latest / Top Switch
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Lets the reader choose how the home feed is ordered
+ *
+ * Accessibility:
+ * - A labelled group of toggle buttons: aria-pressed tells screen readers
+ *   which ordering is active
+ */
+
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../i18n'
+import type { FeedMode } from '../../types'
+
+/**
+ * FEED_MODES - Label for each mode, in display order
+ */
+const FEED_MODES: { mode: FeedMode; label: MessageKey }[] = [
+  { mode: 'latest', label: 'feed.latest' },
+  { mode: 'top', label: 'feed.top' },
+]
+
+/**
+ * FeedModeTabs Props
+ */
+interface FeedModeTabsProps {
+  mode: FeedMode
+  onChange: (mode: FeedMode) => void
+}
+
+/**
+ * FeedModeTabs Component
+ */
+function FeedModeTabs({ mode, onChange }: FeedModeTabsProps) {
+  const { t } = useI18n()
+
+  return (
+    <div className="feed-tabs" role="group" aria-label={t('feed.order')}>
+      {FEED_MODES.map((item) => (
+        <button
+          key={item.mode}
+          type="button"
+          className={clsx('feed-tabs__tab', item.mode === mode && 'feed-tabs__tab--active')}
+          aria-pressed={item.mode === mode}
+          onClick={() => onChange(item.mode)}
+        >
+          {t(item.label)}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default FeedModeTabs
@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * STEP 2.5: NewPostsBanner - "3 new posts" Pill
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.24 (translated, pluralized count)
+ * PURPOSE: Tell the reader newer posts exist without moving what they read
+ *
+ * Why a Banner:
+ * - Inserting new posts at the top while someone is reading pushes their
+ *   post down the screen; instead we only SHOW a count and load the new
+ *   posts when they ask for them
+ * - The banner floats (position: sticky) over the list, so showing and
+ *   hiding it does not change the list's layout either
+ *
+ * Accessibility:
+ * - role="status" makes screen readers announce the count politely
+ */
+
+import { useI18n } from '../../hooks/useI18n'
+
+/**
+ * NewPostsBanner Props
+ * - count: Number of posts waiting (the banner hides at 0)
+ * - onShow: Loads them and returns the reader to the top
+ */
+interface NewPostsBannerProps {
+  count: number
+  onShow: () => void
+}
+
+/**
+ * NewPostsBanner Component
+ */
+function NewPostsBanner({ count, onShow }: NewPostsBannerProps) {
+  const { t } = useI18n()
+
+  return (
+    <div className="new-posts-banner" role="status">
+      {count > 0 && (
+        <button type="button" className="new-posts-banner__button" onClick={onShow}>
+          {t('feed.newPosts', { count })}
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default NewPostsBanner
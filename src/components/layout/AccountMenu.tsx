@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * STEP 2.2: AccountMenu - Signed-In / Signed-Out Header Controls
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.14 (settings link)
+ * UPDATED: Feature Phase - Step 2.24 (translated labels, language picker
+ *          when signed out)
+ * PURPOSE: Shows the current user, settings and log-out buttons, or a log-in
+ *          link
+ *
+ * React Concepts Demonstrated:
+ * - Three-way conditional rendering: loading, signed in, signed out
+ *
+ * LEARNING NOTES:
+ * - During session restore we render an empty placeholder of the same size,
+ *   so neither a "Log in" link nor a layout jump flashes on reload
+ * - Signed out, the language picker sits next to "Log in": there is no
+ *   settings page to find it on yet
+ */
+
+import { Link } from 'react-router-dom'
+import { LogOut, Settings } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { ROUTES, profilePath } from '../../routes/paths'
+import LocaleSwitcher from '../common/LocaleSwitcher'
+
+/**
+ * AccountMenu Component - Right-hand side of the app header
+ */
+function AccountMenu() {
+  const { user, isLoading, logout } = useAuth()
+  const { t } = useI18n()
+
+  if (isLoading) {
+    return <div className="account-menu account-menu--pending" aria-hidden="true" />
+  }
+
+  if (!user) {
+    return (
+      <div className="account-menu">
+        <LocaleSwitcher compact />
+        <Link to={ROUTES.login}>{t('account.logIn')}</Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="account-menu">
+      <Link to={profilePath(user.username)} className="account-menu__user">
+        @{user.username}
+      </Link>
+      <Link to={ROUTES.settings} className="account-menu__settings" aria-label={t('account.settings')}>
+        <Settings size={18} aria-hidden="true" />
+      </Link>
+      <button type="button" className="account-menu__logout" onClick={logout} aria-label={t('account.logOut')}>
+        <LogOut size={18} aria-hidden="true" />
+      </button>
+    </div>
+  )
+}
+
+export default AccountMenu
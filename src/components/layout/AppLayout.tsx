@@ -0,0 +1,92 @@
+/**
+ * ============================================================================
+ * STEP 2.1: AppLayout - Shared Frame Around Every Page
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Step 2.2 - AccountMenu in the header
+ * UPDATED: Step 2.16 - OfflineBanner under the header
+ * UPDATED: Step 2.20 - Toasts from the error channel; unread count in the
+ *          tab title
+ * UPDATED: Step 2.22 - EmailVerificationBanner under the header
+ * UPDATED: Step 2.25 - Skip links, keyboard shortcuts, focus on route
+ *          changes, live announcements
+ * PURPOSE: Header, navigation and a content area that swaps per route
+ *
+ * React Router Concepts Demonstrated:
+ * - Layout routes: a parent <Route element={<AppLayout />}> with children
+ * - <Outlet />: The placeholder where the matched child route renders
+ *
+ * React Concepts Demonstrated:
+ * - Suspense: Shows a fallback while a lazy page module loads
+ * - The Suspense boundary sits INSIDE the layout, so the header and nav
+ *   stay on screen while only the content area shows the loader
+ *
+ * LEARNING NOTES:
+ * - Every page automatically gets this frame without importing it
+ * - Semantic elements (<header>, <main>) help screen readers and SEO
+ * - "Skip to content" is the first thing Tab reaches, so keyboard users
+ *   do not tab through the whole header on every page
+ */
+
+import { Suspense, useEffect } from 'react'
+import { Link, Outlet } from 'react-router-dom'
+import NavBar from './NavBar'
+import AccountMenu from './AccountMenu'
+import OfflineBanner from './OfflineBanner'
+import EmailVerificationBanner from './EmailVerificationBanner'
+import KeyboardShortcuts from './KeyboardShortcuts'
+import LiveAnnouncements from './LiveAnnouncements'
+import RouteFocus from './RouteFocus'
+import PageLoader from '../common/PageLoader'
+import Toasts from '../common/Toasts'
+import { useUnreadCounts } from '../../hooks/useAppStore'
+import { useI18n } from '../../hooks/useI18n'
+import { ROUTES } from '../../routes/paths'
+
+const APP_TITLE = 'Hybrid Social'
+const CONTENT_ID = 'main-content'
+
+/**
+ * AppLayout Component - Header + nav + routed content
+ */
+function AppLayout() {
+  const { t } = useI18n()
+  const { messages, notifications } = useUnreadCounts()
+  const unread = messages + notifications
+
+  // "(3) Hybrid Social": the same counts as the nav badges, visible from
+  // other tabs
+  useEffect(() => {
+    document.title = unread > 0 ? `(${unread}) ${APP_TITLE}` : APP_TITLE
+  }, [unread])
+
+  return (
+    <div className="app-layout">
+      <a href={`#${CONTENT_ID}`} className="skip-link">
+        {t('a11y.skipToContent')}
+      </a>
+      <KeyboardShortcuts />
+      <header className="app-layout__header">
+        <Link to={ROUTES.home} className="app-layout__brand">
+          {APP_TITLE}
+        </Link>
+        <NavBar />
+        <AccountMenu />
+      </header>
+      <OfflineBanner />
+      <EmailVerificationBanner />
+
+      <main id={CONTENT_ID} className="app-layout__content" tabIndex={-1}>
+        <Suspense fallback={<PageLoader />}>
+          <Outlet />
+          <RouteFocus />
+        </Suspense>
+      </main>
+      <Toasts />
+      <LiveAnnouncements />
+    </div>
+  )
+}
+
+export default AppLayout
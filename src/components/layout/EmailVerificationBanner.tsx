@@ -0,0 +1,66 @@
+/**
+ * ============================================================================
+ * STEP 2.22: EmailVerificationBanner - "Confirm Your Email" Strip
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Remind a signed-in user whose address is not confirmed yet, and
+ *          let them ask for the link again
+ *
+ * Behaviour:
+ * - Renders nothing when signed out or once User.emailVerifiedAt is set
+ * - "Resend" is disabled while sending; the result is announced politely
+ * - In development the link is in the dev mailbox, so the banner links
+ *   there too
+ */
+
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { MailWarning } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { ROUTES } from '../../routes/paths'
+
+/**
+ * EmailVerificationBanner Component
+ */
+function EmailVerificationBanner() {
+  const { user, resendVerification } = useAuth()
+  const { t } = useI18n()
+  const [isSending, setIsSending] = useState(false)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
+  if (!user || user.emailVerifiedAt) return null
+
+  const handleResend = async () => {
+    setIsSending(true)
+    setStatus(null)
+    try {
+      await resendVerification()
+      setStatus({ text: t('emailBanner.sent', { email: user.email }), isError: false })
+    } catch (error) {
+      setStatus({ text: (error as Error).message, isError: true })
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="verify-banner">
+      <p className="verify-banner__text">
+        <MailWarning size={16} aria-hidden="true" />
+        {t('emailBanner.text', { email: user.email })}
+        <button type="button" className="verify-banner__action" onClick={handleResend} disabled={isSending}>
+          {isSending ? t('emailBanner.sending') : t('emailBanner.resend')}
+        </button>
+        {import.meta.env.DEV && <Link to={ROUTES.mailbox}>{t('emailBanner.mailbox')}</Link>}
+      </p>
+      <p className={status?.isError ? 'auth-form__error' : 'verify-banner__status'} role="status" aria-live="polite">
+        {status?.text}
+      </p>
+    </div>
+  )
+}
+
+export default EmailVerificationBanner
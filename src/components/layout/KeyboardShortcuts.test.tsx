@@ -0,0 +1,179 @@
+// @vitest-environment jsdom
+/**
+ * ============================================================================
+ * STEP 2.25: KeyboardShortcuts Tests
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Check that j/k move between posts, l and r act on the focused
+ *          one, "g …" navigates, "?" and the skip link open the help, and
+ *          that signed-out visitors only get the shortcuts that make sense
+ *
+ * Fixtures Used:
+ * - A layout like AppLayout's (skip links, then <main>) around a page of
+ *   three posts marked up the way PostCard marks them
+ */
+
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, screen } from '@testing-library/react'
+import { createMemoryRouter, Outlet, RouterProvider } from 'react-router-dom'
+import { requestedFocus } from '../../hooks/useFocusRequest'
+import { postPath, ROUTES } from '../../routes/paths'
+import { axeViolations, fixtureAccount, renderWithProviders } from '../../test/render'
+import type { Account } from '../../types'
+import KeyboardShortcuts from './KeyboardShortcuts'
+
+const POST_IDS = ['post-1', 'post-2', 'post-3']
+
+// jsdom has neither modal dialogs nor scrolling
+beforeAll(() => {
+  HTMLDialogElement.prototype.showModal ??= function (this: HTMLDialogElement) {
+    this.open = true
+  }
+  HTMLDialogElement.prototype.close ??= function (this: HTMLDialogElement) {
+    this.open = false
+    this.dispatchEvent(new Event('close'))
+  }
+  Element.prototype.scrollIntoView ??= () => {}
+})
+
+afterEach(cleanup)
+
+function Layout() {
+  return (
+    <>
+      <a href="#content" className="skip-link">
+        Skip to content
+      </a>
+      <KeyboardShortcuts />
+      <main id="content" tabIndex={-1}>
+        <Outlet />
+      </main>
+    </>
+  )
+}
+
+function PostList({ onLike }: { onLike: (postId: string) => void }) {
+  return (
+    <>
+      <h1>Home</h1>
+      {POST_IDS.map((id) => (
+        <article key={id} aria-labelledby={`${id}-author`} tabIndex={-1} data-post-id={id}>
+          <h2 id={`${id}-author`}>Alice</h2>
+          <button type="button" data-shortcut="like" onClick={() => onLike(id)}>
+            Like
+          </button>
+        </article>
+      ))}
+    </>
+  )
+}
+
+/**
+ * renderShortcuts - The layout at `/` as `user`, with the router to inspect
+ */
+function renderShortcuts(user: Account | null) {
+  const onLike = vi.fn()
+  const page = (title: string) => <h1>{title}</h1>
+  const router = createMemoryRouter([
+    {
+      element: <Layout />,
+      children: [
+        { path: ROUTES.home, element: <PostList onLike={onLike} /> },
+        { path: ROUTES.messages, element: page('Messages') },
+        { path: ROUTES.notifications, element: page('Notifications') },
+        { path: ROUTES.post, element: page('Post') },
+      ],
+    },
+  ])
+  renderWithProviders(<RouterProvider router={router} />, { user })
+  return { router, onLike }
+}
+
+const press = (key: string) => act(() => void fireEvent.keyDown(document.body, { key }))
+
+const focusedPostId = () => (document.activeElement as HTMLElement | null)?.dataset.postId
+
+describe('KeyboardShortcuts', () => {
+  it('moves between posts with j and k, stopping at either end', () => {
+    renderShortcuts(fixtureAccount('alice'))
+    press('k')
+    expect(focusedPostId()).toBe('post-3')
+    press('j')
+    expect(focusedPostId()).toBe('post-3')
+    press('k')
+    press('k')
+    press('k')
+    expect(focusedPostId()).toBe('post-1')
+    press('j')
+    expect(focusedPostId()).toBe('post-2')
+  })
+
+  it('likes the focused post with l, also when focus is inside it', () => {
+    const { onLike } = renderShortcuts(fixtureAccount('alice'))
+    press('l')
+    expect(onLike).not.toHaveBeenCalled()
+    press('j')
+    press('j')
+    press('l')
+    expect(onLike).toHaveBeenLastCalledWith('post-2')
+    screen.getAllByRole('button', { name: 'Like' })[0].focus()
+    press('l')
+    expect(onLike).toHaveBeenLastCalledWith('post-1')
+  })
+
+  it('opens the focused post with its reply box requested on r', () => {
+    const { router } = renderShortcuts(fixtureAccount('alice'))
+    press('j')
+    press('r')
+    expect(router.state.location.pathname).toBe(postPath('post-1'))
+    expect(requestedFocus(router.state.location.state)).toBe('reply')
+  })
+
+  it('goes to messages, notifications and home with g sequences', () => {
+    const { router } = renderShortcuts(fixtureAccount('alice'))
+    press('g')
+    press('m')
+    expect(router.state.location.pathname).toBe(ROUTES.messages)
+    press('g')
+    press('n')
+    expect(router.state.location.pathname).toBe(ROUTES.notifications)
+    press('g')
+    press('h')
+    expect(router.state.location.pathname).toBe(ROUTES.home)
+    press('n')
+    expect(requestedFocus(router.state.location.state)).toBe('composer')
+  })
+
+  it('keeps only reading and going home for signed-out visitors', () => {
+    const { router, onLike } = renderShortcuts(null)
+    press('j')
+    expect(focusedPostId()).toBe('post-1')
+    press('l')
+    expect(onLike).not.toHaveBeenCalled()
+    press('g')
+    press('m')
+    expect(router.state.location.pathname).toBe(ROUTES.home)
+    press('?')
+    const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' })
+    expect(dialog.textContent).not.toContain('Like the selected post')
+  })
+
+  it('opens the help with ? or the skip link, and closes it again', () => {
+    renderShortcuts(fixtureAccount('alice'))
+    press('?')
+    expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeTruthy()
+    act(() => screen.getByRole('button', { name: 'Close' }).click())
+    expect(screen.queryByRole('dialog')).toBeNull()
+
+    act(() => screen.getByRole('button', { name: 'Keyboard shortcuts' }).click())
+    expect(screen.getByRole('dialog', { name: 'Keyboard shortcuts' })).toBeTruthy()
+  })
+
+  it('passes axe with and without the help open', async () => {
+    renderShortcuts(fixtureAccount('alice'))
+    expect(await axeViolations(document.body)).toEqual([])
+    press('?')
+    expect(await axeViolations(document.body)).toEqual([])
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * ============================================================================
+ * STEP 2.25: KeyboardShortcuts - Moving Around Without the Mouse
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: The app's keyboard shortcuts, plus the help dialog listing them
+ *
+ * Shortcuts:
+ * - j / k: Focus the next / previous post on the page (any list: the feed,
+ *   a profile, a hashtag, search results)
+ * - l: Like or unlike the focused post
+ * - r: Open the focused post with its comment box focused
+ * - n: Home, with the composer focused
+ * - g h, g m, g n: Go to home, messages, notifications
+ * - ?: The list of shortcuts
+ * - Signed out, only the ones that make sense without an account remain
+ *
+ * How Posts Are Found:
+ * - PostCard marks its <article> with data-post-id and tabIndex -1, and its
+ *   like button with data-shortcut="like"; the shortcuts read the page
+ *   instead of knowing every list that shows posts
+ * - "The focused post" is the article holding focus, or holding the
+ *   element that has it (after tabbing to its like button, say)
+ *
+ * Accessibility:
+ * - Focusing the article makes screen readers read its name (the author)
+ *   and lets Tab continue from there into the post's links and buttons
+ * - The first Tab on a page reaches the skip links: "Skip to content",
+ *   then this "Keyboard shortcuts" button, both hidden until focused
+ */
+
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { focusState } from '../../hooks/useFocusRequest'
+import { useI18n } from '../../hooks/useI18n'
+import { useKeyboardShortcuts, type ShortcutMap } from '../../hooks/useKeyboardShortcuts'
+import { postPath, ROUTES } from '../../routes/paths'
+import ShortcutsDialog, { type ShortcutHelp } from './ShortcutsDialog'
+
+const POST_SELECTOR = 'main article[data-post-id]'
+
+/**
+ * SHORTCUT_HELP - The help dialog's rows, in the order shown
+ * - signedIn: Only offered to a signed-in user
+ */
+const SHORTCUT_HELP: (ShortcutHelp & { signedIn?: boolean })[] = [
+  { keys: 'j', description: 'shortcuts.nextPost' },
+  { keys: 'k', description: 'shortcuts.previousPost' },
+  { keys: 'l', description: 'shortcuts.like', signedIn: true },
+  { keys: 'r', description: 'shortcuts.reply', signedIn: true },
+  { keys: 'n', description: 'shortcuts.newPost', signedIn: true },
+  { keys: 'g h', description: 'shortcuts.goHome' },
+  { keys: 'g m', description: 'shortcuts.goMessages', signedIn: true },
+  { keys: 'g n', description: 'shortcuts.goNotifications', signedIn: true },
+  { keys: '?', description: 'shortcuts.help' },
+]
+
+/**
+ * focusedPost - The post article holding focus, if any
+ */
+function focusedPost(): HTMLElement | null {
+  return document.activeElement?.closest<HTMLElement>(POST_SELECTOR) ?? null
+}
+
+/**
+ * movePostFocus - Focuses the post `delta` places from the focused one
+ *
+ * With no post focused, j starts at the first post and k at the last.
+ */
+function movePostFocus(delta: 1 | -1) {
+  const posts = Array.from(document.querySelectorAll<HTMLElement>(POST_SELECTOR))
+  if (posts.length === 0) return
+  const current = focusedPost()
+  const index = current ? posts.indexOf(current) : -1
+  const next =
+    index === -1
+      ? posts[delta === 1 ? 0 : posts.length - 1]
+      : posts[Math.min(Math.max(index + delta, 0), posts.length - 1)]
+  next.focus({ preventScroll: true })
+  next.scrollIntoView({ block: 'nearest' })
+}
+
+/**
+ * KeyboardShortcuts Component - Renders the skip link to the help dialog
+ */
+function KeyboardShortcuts() {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const navigate = useNavigate()
+  const [isHelpOpen, setIsHelpOpen] = useState(false)
+
+  const shortcuts: ShortcutMap = {
+    j: () => movePostFocus(1),
+    k: () => movePostFocus(-1),
+    'g h': () => navigate(ROUTES.home),
+    '?': () => setIsHelpOpen(true),
+  }
+  if (user) {
+    shortcuts.l = () => focusedPost()?.querySelector<HTMLButtonElement>('[data-shortcut="like"]')?.click()
+    shortcuts.r = () => {
+      const postId = focusedPost()?.dataset.postId
+      if (postId) navigate(postPath(postId), { state: focusState('reply') })
+    }
+    shortcuts.n = () => navigate(ROUTES.home, { state: focusState('composer') })
+    shortcuts['g m'] = () => navigate(ROUTES.messages)
+    shortcuts['g n'] = () => navigate(ROUTES.notifications)
+  }
+  useKeyboardShortcuts(shortcuts)
+
+  return (
+    <>
+      <button type="button" className="skip-link" onClick={() => setIsHelpOpen(true)}>
+        {t('shortcuts.open')}
+      </button>
+      {isHelpOpen && (
+        <ShortcutsDialog
+          shortcuts={SHORTCUT_HELP.filter((shortcut) => user || !shortcut.signedIn)}
+          onClose={() => setIsHelpOpen(false)}
+        />
+      )}
+    </>
+  )
+}
+
+export default KeyboardShortcuts
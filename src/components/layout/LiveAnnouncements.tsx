@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * STEP 2.25: LiveAnnouncements - "2 new notifications" for Screen Readers
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Say out loud what sighted users notice from the nav badges:
+ *          new notifications and new messages arriving
+ *
+ * What Is Announced:
+ * - Only increases of the unread counts (the same store values the badges
+ *   read), as "N new notifications" / "N new messages"
+ * - Nothing while the counts are still loading, or while chat is catching
+ *   up after a reconnect: those counts are old news, not arrivals
+ * - No message count while a conversation is open; ChatView announces
+ *   the messages themselves there
+ *
+ * Accessibility:
+ * - role="status" is a polite live region: the announcement waits until
+ *   the screen reader finishes what it is saying
+ * - The region stays on the page and only its content changes; regions
+ *   added together with their text are often not read at all. Each
+ *   announcement gets a new key, so "1 new message" twice is read twice
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useMatch } from 'react-router-dom'
+import { useUnreadCounts } from '../../hooks/useAppStore'
+import { useChat } from '../../hooks/useChat'
+import { useI18n } from '../../hooks/useI18n'
+import { useNotifications } from '../../hooks/useNotifications'
+import { ROUTES } from '../../routes/paths'
+
+/**
+ * Announcement - One batch of text for the live region
+ */
+interface Announcement {
+  id: number
+  lines: string[]
+}
+
+/**
+ * LiveAnnouncements Component - A visually hidden live region
+ */
+function LiveAnnouncements() {
+  const { t } = useI18n()
+  const { messages, notifications } = useUnreadCounts()
+  const { isLoading: isLoadingNotifications } = useNotifications()
+  const { isSynced } = useChat()
+  const isInConversation = useMatch(ROUTES.conversation) !== null
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null)
+
+  // The counts already accounted for, announced or not
+  const seenRef = useRef({ messages, notifications })
+
+  useEffect(() => {
+    const seen = seenRef.current
+    const lines: string[] = []
+    if (!isLoadingNotifications && notifications > seen.notifications) {
+      lines.push(t('live.notifications', { count: notifications - seen.notifications }))
+    }
+    if (isSynced && !isInConversation && messages > seen.messages) {
+      lines.push(t('live.messages', { count: messages - seen.messages }))
+    }
+    seenRef.current = { messages, notifications }
+    if (lines.length > 0) setAnnouncement((prev) => ({ id: (prev?.id ?? 0) + 1, lines }))
+  }, [messages, notifications, isLoadingNotifications, isSynced, isInConversation, t])
+
+  return (
+    <div className="visually-hidden" role="status">
+      {announcement && (
+        <div key={announcement.id}>
+          {announcement.lines.map((line) => (
+            <p key={line}>{line}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LiveAnnouncements
@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * STEP 2.1: NavBar - Primary Navigation for the App Shell
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.8 (unread messages badge)
+ * UPDATED: Feature Phase - Step 2.10 (unread notifications badge)
+ * UPDATED: Feature Phase - Step 2.15 (moderation link for moderators)
+ * UPDATED: Feature Phase - Step 2.20 (badge counts from the global store)
+ * UPDATED: Feature Phase - Step 2.24 (translated labels and badge text)
+ * PURPOSE: Links to every top-level section of the app
+ *
+ * React Router Concepts Demonstrated:
+ * - NavLink: Like <Link>, but knows when its route is active
+ * - className callback: ({ isActive }) => string for active styling
+ * - 'end' prop: Home ('/') should only be active on exactly '/'
+ *
+ * LEARNING NOTES:
+ * - <a href> would reload the page; NavLink navigates client-side
+ * - Icons come from lucide-react and are hidden from screen readers
+ *   because the text label already describes the link
+ * - Badges show a count next to a link; the number alone would be
+ *   meaningless when read aloud, so screen readers get the whole phrase
+ *   ("3 unread") instead, translated with its plural
+ * - Badge counts come from the global store (store/appState.ts), the same
+ *   numbers the notifications page and the tab title show
+ * - The moderation link only shows for moderators; everyone else would
+ *   just find a "not allowed" page behind it
+ */
+
+import { NavLink } from 'react-router-dom'
+import { Bell, Home, MessageCircle, Search, ShieldAlert } from 'lucide-react'
+import clsx from 'clsx'
+import { useUnreadCounts } from '../../hooks/useAppStore'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { ROUTES } from '../../routes/paths'
+
+// ============================================================================
+// NAVIGATION ITEMS
+// ============================================================================
+
+/**
+ * NAV_ITEMS - Data-driven list of navigation links
+ *
+ * Keeping the links in an array means adding a section is a one-line change
+ * and the JSX below stays the same.
+ */
+const NAV_ITEMS = [
+  { to: ROUTES.home, label: 'nav.home', icon: Home, end: true },
+  { to: ROUTES.search, label: 'nav.search', icon: Search, end: false },
+  { to: ROUTES.notifications, label: 'nav.notifications', icon: Bell, end: false },
+  { to: ROUTES.messages, label: 'nav.messages', icon: MessageCircle, end: false },
+] as const
+
+/** MODERATOR_ITEMS - Extra links for moderators */
+const MODERATOR_ITEMS = [{ to: ROUTES.moderation, label: 'nav.moderation', icon: ShieldAlert, end: false }] as const
+
+// ============================================================================
+// COMPONENT DEFINITION
+// ============================================================================
+
+/**
+ * NavBar Component - Renders the primary navigation links
+ */
+function NavBar() {
+  const { user } = useAuth()
+  const { t, formatNumber } = useI18n()
+  const unread = useUnreadCounts()
+
+  /** Count shown next to each link, keyed by its path */
+  const badges: Partial<Record<string, number>> = {
+    [ROUTES.notifications]: unread.notifications,
+    [ROUTES.messages]: unread.messages,
+  }
+
+  const items = user?.role === 'moderator' ? [...NAV_ITEMS, ...MODERATOR_ITEMS] : NAV_ITEMS
+
+  return (
+    <nav className="nav-bar" aria-label={t('nav.label')}>
+      <ul className="nav-bar__list">
+        {items.map(({ to, label, icon: Icon, end }) => (
+          <li key={to}>
+            <NavLink
+              to={to}
+              end={end}
+              className={({ isActive }) =>
+                clsx('nav-bar__link', isActive && 'nav-bar__link--active')
+              }
+            >
+              <Icon size={20} aria-hidden="true" />
+              <span className="nav-bar__label">{t(label)}</span>
+              {Boolean(badges[to]) && (
+                <span className="nav-bar__badge">
+                  <span aria-hidden="true">{formatNumber(badges[to] ?? 0)}</span>
+                  <span className="visually-hidden"> {t('nav.unread', { count: badges[to] ?? 0 })}</span>
+                </span>
+              )}
+            </NavLink>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
+
+export default NavBar
@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * STEP 2.16: OfflineBanner - Connection and Outbox Strip Under the Header
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Say when the app is offline, how many actions are waiting, and
+ *          which queued actions the server refused
+ *
+ * What It Shows:
+ * - Offline: "You are offline" plus the number of waiting actions
+ * - Online with waiting actions: "Sending…" while the outbox replays, or a
+ *   "Send now" button when it stopped (e.g. the session expired)
+ * - One line per conflict, with a Dismiss button
+ * - Nothing at all when online with an empty outbox
+ *
+ * Accessibility:
+ * - The status line is role="status" (announced politely); conflicts are
+ *   role="alert", because something the user did was undone
+ */
+
+import { WifiOff } from 'lucide-react'
+import { useI18n } from '../../hooks/useI18n'
+import { useOffline } from '../../hooks/useOffline'
+import type { MessageKey } from '../../i18n'
+import type { OutboxAction } from '../../services/offline'
+
+/**
+ * ACTION_LABELS - How a refused action is described
+ */
+const ACTION_LABELS: Record<OutboxAction, MessageKey> = {
+  'create-post': 'offline.createPost',
+  'like-post': 'offline.likePost',
+  'unlike-post': 'offline.unlikePost',
+  'add-comment': 'offline.addComment',
+  'like-comment': 'offline.likeComment',
+  'unlike-comment': 'offline.unlikeComment',
+}
+
+/**
+ * OfflineBanner Component - Renders nothing while all is well
+ */
+function OfflineBanner() {
+  const { isOnline, pendingCount, isSyncing, conflicts, syncNow, dismissConflict } = useOffline()
+  const { t } = useI18n()
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) return null
+
+  return (
+    <div className="offline-banner">
+      {!isOnline ? (
+        <p className="offline-banner__status" role="status">
+          <WifiOff size={16} aria-hidden="true" />
+          {t('offline.status', { count: pendingCount })}
+        </p>
+      ) : (
+        pendingCount > 0 && (
+          <p className="offline-banner__status" role="status">
+            {t(isSyncing ? 'offline.sending' : 'offline.waiting', { count: pendingCount })}
+            {!isSyncing && (
+              <button type="button" className="offline-banner__action" onClick={syncNow}>
+                {t('offline.sendNow')}
+              </button>
+            )}
+          </p>
+        )
+      )}
+
+      {conflicts.length > 0 && (
+        <ul className="offline-banner__conflicts" role="alert">
+          {conflicts.map((conflict) => (
+            <li key={conflict.key} className="offline-banner__conflict">
+              <span>{t('offline.conflict', { action: t(ACTION_LABELS[conflict.action]), error: conflict.error })}</span>
+              <button type="button" className="offline-banner__action" onClick={() => dismissConflict(conflict.key)}>
+                {t('offline.dismiss')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default OfflineBanner
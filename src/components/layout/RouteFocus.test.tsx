@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+/**
+ * ============================================================================
+ * STEP 2.25: RouteFocus Tests
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Check that a route change focuses the new page's <h1> (or
+ *          <main>), and that focus is left alone on the first render, on
+ *          query-only changes and when a field asked for it
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+import { act, cleanup, render } from '@testing-library/react'
+import { createMemoryRouter, Outlet, RouterProvider } from 'react-router-dom'
+import { focusState } from '../../hooks/useFocusRequest'
+import { ROUTES } from '../../routes/paths'
+import { axeViolations } from '../../test/render'
+import RouteFocus from './RouteFocus'
+
+afterEach(cleanup)
+
+function Layout() {
+  return (
+    <main>
+      <Outlet />
+      <RouteFocus />
+    </main>
+  )
+}
+
+/**
+ * renderRoutes - Home, a search page and a messages page without a heading
+ */
+function renderRoutes() {
+  const router = createMemoryRouter([
+    {
+      element: <Layout />,
+      children: [
+        { path: ROUTES.home, element: <h1>Home</h1> },
+        { path: ROUTES.search, element: <h1>Search</h1> },
+        { path: ROUTES.messages, element: <p>No conversations yet.</p> },
+      ],
+    },
+  ])
+  render(<RouterProvider router={router} />)
+  const navigate = (...args: Parameters<typeof router.navigate>) => act(() => router.navigate(...args))
+  return { navigate }
+}
+
+describe('RouteFocus', () => {
+  it('leaves focus alone on the first render', () => {
+    renderRoutes()
+    expect(document.activeElement).toBe(document.body)
+  })
+
+  it('focuses the heading of the new page, without adding it to the Tab order', async () => {
+    const { navigate } = renderRoutes()
+    await navigate(ROUTES.search)
+    const heading = document.querySelector('h1')
+    expect(heading?.textContent).toBe('Search')
+    expect(document.activeElement).toBe(heading)
+    expect(heading?.tabIndex).toBe(-1)
+    expect(await axeViolations(document.body)).toEqual([])
+  })
+
+  it('falls back to <main> on a page without a heading', async () => {
+    const { navigate } = renderRoutes()
+    await navigate(ROUTES.messages)
+    expect(document.activeElement).toBe(document.querySelector('main'))
+  })
+
+  it('leaves focus alone when only the query string changes', async () => {
+    const { navigate } = renderRoutes()
+    await navigate(ROUTES.search)
+    document.querySelector('h1')?.blur()
+    await navigate(`${ROUTES.search}?q=react`)
+    expect(document.activeElement).toBe(document.body)
+  })
+
+  it('leaves focus to the page when the navigation asked for a field', async () => {
+    const { navigate } = renderRoutes()
+    await navigate(ROUTES.search, { state: focusState('reply') })
+    expect(document.activeElement).toBe(document.body)
+  })
+})
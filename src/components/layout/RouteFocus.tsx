@@ -0,0 +1,54 @@
+/**
+ * ============================================================================
+ * STEP 2.25: RouteFocus - Focus the New Page After Navigating
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Move focus to the page heading whenever the route changes
+ *
+ * Why:
+ * - A full page load starts screen readers at the top of the new page. A
+ *   client-side route change only swaps the content: focus stays on the
+ *   link that was clicked (or is lost when that link disappears), and
+ *   nothing says a new page opened
+ * - Focusing the <h1> reads the new page's title and puts keyboard users
+ *   at the start of its content; pages without one fall back to <main>
+ *
+ * When Focus Is Left Alone:
+ * - On the first render: the browser's own page-load behaviour applies
+ * - When only the query string or hash changes (search filters, tabs)
+ * - When the navigation asked for a specific field (useFocusRequest)
+ *
+ * LEARNING NOTES:
+ * - It renders inside the layout's Suspense boundary, after <Outlet />, so
+ *   its effect runs once the lazily loaded page has actually rendered
+ * - tabIndex -1 makes the heading focusable from script without adding it
+ *   to the Tab order
+ */
+
+import { useEffect, useRef } from 'react'
+import { useLocation } from 'react-router-dom'
+import { requestedFocus } from '../../hooks/useFocusRequest'
+
+/**
+ * RouteFocus Component - Renders nothing
+ */
+function RouteFocus() {
+  const { pathname, state } = useLocation()
+  const previousPathRef = useRef(pathname)
+
+  useEffect(() => {
+    if (previousPathRef.current === pathname) return
+    previousPathRef.current = pathname
+    if (requestedFocus(state)) return
+
+    const target = document.querySelector<HTMLElement>('main h1') ?? document.querySelector<HTMLElement>('main')
+    if (!target) return
+    if (!target.hasAttribute('tabindex')) target.tabIndex = -1
+    target.focus({ preventScroll: true })
+  }, [pathname, state])
+
+  return null
+}
+
+export default RouteFocus
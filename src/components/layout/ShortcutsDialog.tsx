@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * STEP 2.25: ShortcutsDialog - The List of Keyboard Shortcuts
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Show every shortcut KeyboardShortcuts handles, opened with "?"
+ *          or the "Keyboard shortcuts" skip link
+ *
+ * Accessibility:
+ * - A native <dialog> opened with showModal(), like the Lightbox: focus is
+ *   trapped inside, the page behind is inert, Esc closes it and focus goes
+ *   back to where it was
+ * - Keys are <kbd> elements; a sequence reads "g then m"
+ */
+
+import { useEffect, useRef, type MouseEvent } from 'react'
+import { X } from 'lucide-react'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../i18n'
+
+/**
+ * ShortcutHelp - One row of the list
+ * - keys: The shortcut as KeyboardShortcuts spells it ('j', 'g m')
+ */
+export interface ShortcutHelp {
+  keys: string
+  description: MessageKey
+}
+
+/**
+ * ShortcutsDialog Props
+ */
+interface ShortcutsDialogProps {
+  shortcuts: ShortcutHelp[]
+  onClose: () => void
+}
+
+/**
+ * ShortcutsDialog Component
+ */
+function ShortcutsDialog({ shortcuts, onClose }: ShortcutsDialogProps) {
+  const { t, tRich } = useI18n()
+  const dialogRef = useRef<HTMLDialogElement>(null)
+
+  useEffect(() => {
+    const dialog = dialogRef.current
+    if (dialog && !dialog.open) dialog.showModal()
+  }, [])
+
+  const handleBackdropClick = (event: MouseEvent<HTMLDialogElement>) => {
+    if (event.target === event.currentTarget) dialogRef.current?.close()
+  }
+
+  const renderKeys = (keys: string) => {
+    const [first, second] = keys.split(' ')
+    if (!second) return <kbd>{first}</kbd>
+    return tRich('shortcuts.then', { first: <kbd>{first}</kbd>, second: <kbd>{second}</kbd> })
+  }
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="shortcuts-dialog"
+      aria-labelledby="shortcuts-dialog-title"
+      onClose={onClose}
+      onClick={handleBackdropClick}
+    >
+      <div className="shortcuts-dialog__header">
+        <h2 id="shortcuts-dialog-title" className="shortcuts-dialog__title">
+          {t('shortcuts.title')}
+        </h2>
+        <button
+          type="button"
+          className="shortcuts-dialog__close"
+          onClick={() => dialogRef.current?.close()}
+          aria-label={t('shortcuts.close')}
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+      </div>
+      <dl className="shortcuts-dialog__list">
+        {shortcuts.map(({ keys, description }) => (
+          <div key={keys} className="shortcuts-dialog__row">
+            <dt className="shortcuts-dialog__keys">{renderKeys(keys)}</dt>
+            <dd className="shortcuts-dialog__description">{t(description)}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="shortcuts-dialog__hint">{t('shortcuts.hint')}</p>
+    </dialog>
+  )
+}
+
+export default ShortcutsDialog
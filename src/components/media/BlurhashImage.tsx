@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * STEP 2.17: BlurhashImage - An Image With a Blurry Placeholder
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Show the blurhash of an uploaded image until the image itself
+ *          has loaded, so galleries never flash empty boxes
+ *
+ * How It Works:
+ * - The hash is decoded into a 32 × 32 canvas behind the <img>; CSS
+ *   stretches it to the frame (it is smooth, so stretching looks fine)
+ * - The <img> fades in over it once `load` fires
+ * - width / height (when known) set the aspect ratio, so the frame has its
+ *   final size before any byte of the image arrives (no layout shift)
+ *
+ * LEARNING NOTES:
+ * - useEffect draws into the canvas: the canvas element must exist before
+ *   its 2D context can be used
+ * - Images without a blurhash (older posts, pasted URLs) just render the
+ *   <img> on the neutral background
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { decodeBlurhash, isBlurhash } from '../../utils/blurhash'
+
+const PLACEHOLDER_SIZE = 32
+
+/**
+ * BlurhashImage Props
+ * - blurhash / width / height: From the MediaAsset, when there is one
+ */
+interface BlurhashImageProps {
+  src: string
+  alt: string
+  blurhash?: string
+  width?: number
+  height?: number
+  className?: string
+}
+
+/**
+ * BlurhashImage Component
+ */
+function BlurhashImage({ src, alt, blurhash, width, height, className }: BlurhashImageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null)
+  const hasPlaceholder = Boolean(blurhash && isBlurhash(blurhash))
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context || !blurhash || !isBlurhash(blurhash)) return
+    const pixels = decodeBlurhash(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE)
+    context.putImageData(new ImageData(pixels, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE), 0, 0)
+  }, [blurhash])
+
+  return (
+    <span
+      className={clsx('blurhash-image', className)}
+      style={width && height ? { aspectRatio: `${width} / ${height}` } : undefined}
+    >
+      {hasPlaceholder && (
+        <canvas
+          ref={canvasRef}
+          className="blurhash-image__placeholder"
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          aria-hidden="true"
+        />
+      )}
+      <img
+        className={clsx('blurhash-image__img', loadedSrc === src && 'blurhash-image__img--loaded')}
+        src={src}
+        alt={alt}
+        loading="lazy"
+        onLoad={() => setLoadedSrc(src)}
+      />
+    </span>
+  )
+}
+
+export default BlurhashImage
@@ -0,0 +1,102 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Gallery - The Images of a Post
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions)
+ * PURPOSE: Lay out 1-4 images as a grid of thumbnails that open a Lightbox
+ *
+ * Layout:
+ * - One image keeps its own aspect ratio; two or more share a 2-column
+ *   grid of squares (the third of three spans both columns)
+ *
+ * Thumbnails:
+ * - `media` holds the uploaded assets behind the first images (same order);
+ *   for those the grid shows the small thumbnail over its blurhash and the
+ *   lightbox the full file. Other images use their URL for both
+ *
+ * Accessibility:
+ * - Every thumbnail is a button named "Open image 2 of 3", so it can be
+ *   reached and opened with the keyboard
+ * - `alts` are the author's descriptions (Post.imageAlts); a described
+ *   image is named "Open image 2 of 3: A dog on a beach" and the lightbox
+ *   uses the description as its alt
+ */
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import type { MediaAsset } from '../../types'
+import BlurhashImage from './BlurhashImage'
+import Lightbox from './Lightbox'
+
+/**
+ * Gallery Props
+ * - label: What the images belong to, used to name the lightbox
+ * - alts: Descriptions of the images, same order ('' or missing for none)
+ */
+interface GalleryProps {
+  images: string[]
+  media?: MediaAsset[]
+  alts?: string[]
+  label: string
+}
+
+/**
+ * Gallery Component
+ */
+function Gallery({ images, media = [], alts = [], label }: GalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null)
+  if (images.length === 0) return null
+
+  const items = images.map((src, index) => {
+    const asset = media[index]?.url === src ? media[index] : undefined
+    const position = `${index + 1} of ${images.length}`
+    const description = alts[index]?.trim()
+    return {
+      src,
+      thumbnail: asset?.thumbnailUrl ?? src,
+      alt: description || `Image ${position}`,
+      name: description ? `Open image ${position}: ${description}` : `Open image ${position}`,
+      asset,
+    }
+  })
+
+  return (
+    <>
+      <ul className={clsx('gallery', `gallery--count-${Math.min(images.length, 4)}`)} aria-label={label}>
+        {items.map((item, index) => (
+          <li key={item.src} className="gallery__item">
+            <button
+              type="button"
+              className="gallery__button"
+              onClick={() => setOpenIndex(index)}
+              aria-label={item.name}
+            >
+              <BlurhashImage
+                className="gallery__image"
+                src={item.thumbnail}
+                alt=""
+                blurhash={item.asset?.blurhash}
+                width={images.length === 1 ? item.asset?.width : undefined}
+                height={images.length === 1 ? item.asset?.height : undefined}
+              />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {openIndex !== null && (
+        <Lightbox
+          images={items}
+          index={openIndex}
+          label={label}
+          onIndexChange={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      )}
+    </>
+  )
+}
+
+export default Gallery
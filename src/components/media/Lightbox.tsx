@@ -0,0 +1,136 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Lightbox - Full-Size Image Viewer
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * UPDATED: Feature Phase - Step 2.24 (arrow keys follow the reading direction)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Show one image of a gallery at full size, with previous / next
+ *
+ * Keyboard:
+ * - ← / → move between images (wrapping around), Esc closes
+ * - In right-to-left languages ← is "next", matching the mirrored
+ *   buttons (App.css flips them)
+ *
+ * Accessibility:
+ * - A native <dialog> opened with showModal(): the browser traps focus
+ *   inside it, makes the page behind inert and returns focus to the
+ *   thumbnail that opened it when it closes
+ * - "Image 2 of 5" is announced whenever the image changes
+ *
+ * LEARNING NOTES:
+ * - Esc fires the dialog's `cancel` event and closes it; we listen to
+ *   `close` so every way of closing ends up in onClose
+ * - Clicking the backdrop hits the <dialog> element itself (its content is
+ *   a child), which is how the click-outside check works
+ */
+
+import { useEffect, useRef, type KeyboardEvent, type MouseEvent } from 'react'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { useI18n } from '../../hooks/useI18n'
+
+/**
+ * LightboxImage - One image the lightbox can show
+ */
+export interface LightboxImage {
+  src: string
+  alt: string
+}
+
+/**
+ * Lightbox Props
+ * - index: The image shown; onIndexChange moves it
+ * - label: What the images belong to, e.g. "Images in Alice's post"
+ */
+interface LightboxProps {
+  images: LightboxImage[]
+  index: number
+  label: string
+  onIndexChange: (index: number) => void
+  onClose: () => void
+}
+
+/**
+ * Lightbox Component
+ */
+function Lightbox({ images, index, label, onIndexChange, onClose }: LightboxProps) {
+  const { dir, t } = useI18n()
+  const dialogRef = useRef<HTMLDialogElement>(null)
+  const image = images[index]
+  const hasMany = images.length > 1
+
+  // Removing an open dialog from the page also ends its modal state, so
+  // there is nothing to clean up
+  useEffect(() => {
+    const dialog = dialogRef.current
+    if (dialog && !dialog.open) dialog.showModal()
+  }, [])
+
+  const step = (delta: number) => onIndexChange((index + delta + images.length) % images.length)
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDialogElement>) => {
+    if (!hasMany || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return
+    event.preventDefault()
+    const forward = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight'
+    step(event.key === forward ? 1 : -1)
+  }
+
+  const handleBackdropClick = (event: MouseEvent<HTMLDialogElement>) => {
+    if (event.target === event.currentTarget) dialogRef.current?.close()
+  }
+
+  if (!image) return null
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="lightbox"
+      aria-label={label}
+      onClose={onClose}
+      onKeyDown={handleKeyDown}
+      onClick={handleBackdropClick}
+    >
+      <figure className="lightbox__figure">
+        <img className="lightbox__image" src={image.src} alt={image.alt} />
+        {hasMany && (
+          <figcaption className="lightbox__counter" aria-live="polite">
+            {t('lightbox.counter', { number: index + 1, count: images.length })}
+          </figcaption>
+        )}
+      </figure>
+
+      {hasMany && (
+        <>
+          <button
+            type="button"
+            className="lightbox__nav lightbox__nav--prev"
+            onClick={() => step(-1)}
+            aria-label={t('lightbox.previous')}
+          >
+            <ChevronLeft size={28} aria-hidden="true" />
+          </button>
+          <button
+            type="button"
+            className="lightbox__nav lightbox__nav--next"
+            onClick={() => step(1)}
+            aria-label={t('lightbox.next')}
+          >
+            <ChevronRight size={28} aria-hidden="true" />
+          </button>
+        </>
+      )}
+
+      <button
+        type="button"
+        className="lightbox__close"
+        onClick={() => dialogRef.current?.close()}
+        aria-label={t('lightbox.close')}
+      >
+        <X size={24} aria-hidden="true" />
+      </button>
+    </dialog>
+  )
+}
+
+export default Lightbox
@@ -0,0 +1,463 @@
+/**
+ * ============================================================================
+ * STEP 2.8: ChatView - One Open Conversation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (group photo, settings panel, system
+ *          messages)
+ * UPDATED: Feature Phase - Step 2.15 (reporting, removed messages)
+ * UPDATED: Feature Phase - Step 2.17 (file and image attachments)
+ * UPDATED: Feature Phase - Step 2.22 (senders whose account was deleted)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps, translated
+ *          moderation placeholder)
+ * UPDATED: Feature Phase - Step 2.24 (everything else translated)
+ * UPDATED: Feature Phase - Step 2.25 (incoming messages announced on their own)
+ * PURPOSE: Message history, delivery/read status, typing indicator and the
+ *          box to write a new message
+ *
+ * Delivery Status (own messages):
+ * - Sending… → the server has not acknowledged it yet
+ * - Failed → rejected; a Retry button sends it again
+ * - Sent / Seen → shown under the latest own message only, like most chat
+ *   apps, so every bubble does not repeat it
+ *
+ * System Messages (Step 2.9):
+ * - Membership and settings changes appear as centered notes in the
+ *   thread, worded for the reader ("You added Carol")
+ *
+ * Moderation (Step 2.15):
+ * - Other people's messages can be reported
+ * - A message moderators removed keeps its bubble with a placeholder, so
+ *   the replies after it still make sense in order
+ *
+ * Attachments (Step 2.17):
+ * - Picked files are checked (validateMediaFile) and uploaded right away,
+ *   with progress; the message only carries the finished files' URLs
+ * - Image messages show a Gallery; other files are download links
+ *
+ * Scrolling:
+ * - A new message at the bottom scrolls the log to the bottom
+ * - Loading earlier messages adds them ABOVE; the scroll position is
+ *   shifted by the added height so what the user was reading stays put
+ *
+ * React Concepts Demonstrated:
+ * - useLayoutEffect for scroll adjustments (before paint, so no flicker)
+ * - The 'visibilitychange' event: messages only count as read while the
+ *   tab is actually visible
+ *
+ * Accessibility:
+ * - The message list is role="log" with aria-live="off": left live, it
+ *   would also read a whole page of history when "Load earlier messages"
+ *   adds it, and echo every message the reader sends
+ * - Instead a separate polite live region reads messages from others that
+ *   arrive while the conversation is open ("Bob: See you at 6")
+ * - Enter sends, Shift+Enter adds a new line
+ */
+
+import { useEffect, useId, useLayoutEffect, useRef, useState, type FormEvent, type KeyboardEvent } from 'react'
+import { FileText, Paperclip, X } from 'lucide-react'
+import clsx from 'clsx'
+import { useAuth } from '../../hooks/useAuth'
+import { useChat } from '../../hooks/useChat'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import type { ChatMessage } from '../../context/chatState'
+import { uploader } from '../../services'
+import type { Conversation, MediaAsset } from '../../types'
+import {
+  MEDIA_RULES,
+  MESSAGE_MAX_ATTACHMENTS,
+  MESSAGE_MAX_LENGTH,
+  validateMediaFile,
+  validateMessageContent,
+} from '../../validation'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { conversationTitle, describeSystemMessage, participantName, typingLabel } from '../../utils/conversations'
+import { moderatedPlaceholder } from '../../utils/moderation'
+import RelativeTime from '../common/RelativeTime'
+import Gallery from '../media/Gallery'
+import ReportButton from '../moderation/ReportButton'
+import GroupSettings from './GroupSettings'
+
+const NO_MESSAGES: ChatMessage[] = []
+
+/**
+ * ChatView Props
+ * - conversation: The conversation to show
+ */
+interface ChatViewProps {
+  conversation: Conversation
+}
+
+/**
+ * ChatView Component
+ */
+function ChatView({ conversation }: ChatViewProps) {
+  const { user } = useAuth()
+  const { locale, t } = useI18n()
+  const {
+    connection,
+    messages: messagesByConversation,
+    hasMoreHistory,
+    loadingHistory,
+    typing,
+    sendMessage,
+    retryMessage,
+    markRead,
+    notifyTyping,
+    stopTyping,
+    loadHistory,
+  } = useChat()
+  const users = useUsersById(conversation.participants)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+  const [attachments, setAttachments] = useState<MediaAsset[]>([])
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null)
+  const [fileInputKey, setFileInputKey] = useState(0)
+  const id = useId()
+
+  const conversationId = conversation.id
+  const messages = messagesByConversation[conversationId] ?? NO_MESSAGES
+  const typingText = typingLabel(typing[conversationId] ?? [], users, t)
+  const canLoadMore = hasMoreHistory[conversationId] !== false && messages.length > 0
+  const lastOwn = messages.filter((m) => m.senderId === user?.id && m.type !== 'system').at(-1)
+  const remaining = MESSAGE_MAX_LENGTH - draft.length
+
+  // ==========================================================================
+  // SCROLLING
+  // ==========================================================================
+
+  const logRef = useRef<HTMLOListElement>(null)
+  const firstId = messages[0]?.id
+  const lastId = messages.at(-1)?.id
+  const previousRef = useRef({ firstId, lastId, scrollHeight: 0 })
+
+  useLayoutEffect(() => {
+    const log = logRef.current
+    if (!log) return
+    const previous = previousRef.current
+    if (lastId !== previous.lastId) {
+      log.scrollTop = log.scrollHeight
+    } else if (firstId !== previous.firstId) {
+      log.scrollTop += log.scrollHeight - previous.scrollHeight
+    }
+    previousRef.current = { firstId, lastId, scrollHeight: log.scrollHeight }
+  }, [firstId, lastId])
+
+  // ==========================================================================
+  // ANNOUNCEMENTS
+  // ==========================================================================
+
+  // Messages from others created after `since` have not been read out yet;
+  // history is older than the moment the conversation was opened
+  const announcedRef = useRef({ conversationId, since: Date.now() })
+  const [announcement, setAnnouncement] = useState<{ id: string; lines: string[] } | null>(null)
+
+  useEffect(() => {
+    if (announcedRef.current.conversationId !== conversationId) {
+      announcedRef.current = { conversationId, since: Date.now() }
+      setAnnouncement(null)
+    }
+    const { since } = announcedRef.current
+    const incoming = messages.filter(
+      (m) => m.type !== 'system' && m.senderId !== user?.id && !m.moderation && m.createdAt.getTime() > since,
+    )
+    if (incoming.length === 0) return
+    announcedRef.current.since = Math.max(...incoming.map((m) => m.createdAt.getTime()))
+    setAnnouncement({
+      id: incoming[incoming.length - 1].id,
+      lines: incoming.map((m) =>
+        t('chat.announcement', {
+          name: participantName(m.senderId, users, t),
+          text: m.content || t('chat.attachment'),
+        }),
+      ),
+    })
+  }, [conversationId, messages, user?.id, users, t])
+
+  // ==========================================================================
+  // READ RECEIPTS
+  // ==========================================================================
+
+  useEffect(() => {
+    const markIfVisible = () => {
+      if (document.visibilityState === 'visible') markRead(conversationId)
+    }
+    markIfVisible()
+    document.addEventListener('visibilitychange', markIfVisible)
+    return () => document.removeEventListener('visibilitychange', markIfVisible)
+  }, [conversationId, markRead])
+
+  // Leaving the conversation ends any typing state
+  useEffect(() => () => stopTyping(conversationId), [conversationId, stopTyping])
+
+  // ==========================================================================
+  // SENDING
+  // ==========================================================================
+
+  const handleFilesSelected = async (files: File[]) => {
+    setFileInputKey((key) => key + 1)
+    if (files.length === 0) return
+    if (attachments.length + files.length > MESSAGE_MAX_ATTACHMENTS) {
+      setError(t('validation.tooMany', { field: 'attachments', max: MESSAGE_MAX_ATTACHMENTS }))
+      return
+    }
+    const invalid = files.map((file) => validateMediaFile(file, 'message')).find(Boolean)
+    if (invalid) {
+      setError(fieldErrorText(invalid, t))
+      return
+    }
+
+    setError(null)
+    for (const file of files) {
+      setUploadPercent(0)
+      try {
+        const asset = await uploader.upload(file, {
+          purpose: 'message',
+          onProgress: ({ loaded, total }) => setUploadPercent(Math.round((loaded / total) * 100)),
+        })
+        setAttachments((prev) => [...prev, asset])
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? t('chat.uploadError', { name: file.name, error: err.message })
+            : t('chat.notUploaded', { name: file.name }),
+        )
+        break
+      } finally {
+        setUploadPercent(null)
+      }
+    }
+  }
+
+  const handleSubmit = (event?: FormEvent<HTMLFormElement>) => {
+    event?.preventDefault()
+    if (uploadPercent !== null) return
+    const validationError = validateMessageContent(draft, attachments.length > 0)
+    if (validationError) {
+      setError(fieldErrorText(validationError, t))
+      return
+    }
+    sendMessage(conversationId, draft, attachments)
+    setDraft('')
+    setAttachments([])
+    setError(null)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault()
+      handleSubmit()
+    }
+  }
+
+  return (
+    <section className="chat-view" aria-labelledby={`${id}-title`}>
+      <header className="chat-view__header">
+        {conversation.isGroup &&
+          (conversation.groupImage ? (
+            <img className="group-avatar" src={conversation.groupImage} alt="" />
+          ) : (
+            <span className="group-avatar" aria-hidden="true" />
+          ))}
+        <h2 id={`${id}-title`} className="chat-view__title">
+          {conversationTitle(conversation, user?.id, users, t, locale)}
+        </h2>
+        {connection !== 'online' && (
+          <span className="chat-view__connection" role="status">
+            {connection === 'connecting' ? t('chat.reconnecting') : t('chat.offline')}
+          </span>
+        )}
+        {conversation.isGroup && (
+          <button
+            type="button"
+            className="chat-view__settings-toggle"
+            aria-expanded={showSettings}
+            aria-controls={`${id}-settings`}
+            onClick={() => setShowSettings((open) => !open)}
+          >
+            {t('chat.groupInfo')}
+          </button>
+        )}
+      </header>
+
+      {conversation.isGroup && showSettings && (
+        <div id={`${id}-settings`}>
+          <GroupSettings conversation={conversation} />
+        </div>
+      )}
+
+      <ol ref={logRef} className="chat-view__messages" role="log" aria-live="off" aria-label={t('chat.log')}>
+        {canLoadMore && (
+          <li className="chat-view__history">
+            <button
+              type="button"
+              onClick={() => loadHistory(conversationId)}
+              disabled={loadingHistory[conversationId] || connection !== 'online'}
+            >
+              {loadingHistory[conversationId] ? t('common.loading') : t('chat.loadEarlier')}
+            </button>
+          </li>
+        )}
+        {messages.length === 0 && <li className="chat-view__empty">{t('chat.empty')}</li>}
+        {messages.map((message) => {
+          if (message.type === 'system') {
+            return (
+              <li key={message.id} className="chat-view__system">
+                {describeSystemMessage(message, user?.id, users, t, locale)}
+              </li>
+            )
+          }
+          const isOwn = message.senderId === user?.id
+          return (
+            <li
+              key={message.clientId ?? message.id}
+              className={clsx(
+                'chat-bubble',
+                isOwn && 'chat-bubble--own',
+                message.deliveryStatus === 'pending' && 'chat-bubble--pending',
+                message.deliveryStatus === 'failed' && 'chat-bubble--failed',
+              )}
+            >
+              {conversation.isGroup && !isOwn && (
+                <span className="chat-bubble__sender">{participantName(message.senderId, users, t)}</span>
+              )}
+              {message.moderation && !message.content ? (
+                <p className="chat-bubble__text chat-bubble__text--moderated">
+                  {moderatedPlaceholder(message.moderation, 'message', false, t)}
+                </p>
+              ) : (
+                message.content && <p className="chat-bubble__text">{message.content}</p>
+              )}
+              {message.attachments &&
+                (message.type === 'image' ? (
+                  <Gallery images={message.attachments} label={t('chat.images')} />
+                ) : (
+                  <ul className="chat-bubble__files">
+                    {message.attachments.map((url, index) => (
+                      <li key={url}>
+                        <a href={url} target="_blank" rel="noreferrer">
+                          <FileText size={14} aria-hidden="true" /> {t('chat.attachmentNumber', { number: index + 1 })}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+              <span className="chat-bubble__meta">
+                <RelativeTime date={message.createdAt} />
+                {isOwn && message.deliveryStatus === 'pending' && <> · {t('chat.sending')}</>}
+                {isOwn && message.deliveryStatus === 'sent' && message === lastOwn && (
+                  <> · {message.isRead ? t('chat.seen') : t('chat.sent')}</>
+                )}
+              </span>
+              {message.deliveryStatus === 'failed' && (
+                <span className="chat-bubble__error">
+                  {message.error || t('chat.notSent')}{' '}
+                  <button
+                    type="button"
+                    className="chat-bubble__retry"
+                    onClick={() => retryMessage(message.clientId ?? '')}
+                  >
+                    {t('chat.retry')}
+                  </button>
+                </span>
+              )}
+              {!isOwn && !message.moderation && (
+                <ReportButton
+                  targetType="message"
+                  targetId={message.id}
+                  authorId={message.senderId}
+                  className="chat-bubble__report"
+                />
+              )}
+            </li>
+          )
+        })}
+      </ol>
+
+      <p className="chat-view__typing" aria-live="polite">
+        {typingText}
+      </p>
+      <div className="visually-hidden" role="status">
+        {announcement && (
+          <div key={announcement.id}>
+            {announcement.lines.map((line, index) => (
+              <p key={index}>{line}</p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(attachments.length > 0 || uploadPercent !== null) && (
+        <ul className="chat-view__attachments" aria-label={t('chat.attached')}>
+          {attachments.map((asset) => (
+            <li key={asset.id} className="chat-view__attachment">
+              {asset.fileName}
+              <button
+                type="button"
+                onClick={() => setAttachments((prev) => prev.filter((a) => a.id !== asset.id))}
+                aria-label={t('chat.removeFile', { name: asset.fileName })}
+              >
+                <X size={12} aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+          {uploadPercent !== null && (
+            <li className="chat-view__attachment">
+              <progress className="upload-progress" max={100} value={uploadPercent} aria-label={t('chat.uploading')}>
+                {uploadPercent}%
+              </progress>
+            </li>
+          )}
+        </ul>
+      )}
+
+      <form className="chat-view__composer" onSubmit={handleSubmit} noValidate>
+        <label className="chat-view__attach" title={t('chat.attach')}>
+          <Paperclip size={18} aria-hidden="true" />
+          <span className="visually-hidden">{t('chat.attach')}</span>
+          <input
+            key={fileInputKey}
+            type="file"
+            className="visually-hidden"
+            accept={MEDIA_RULES.message.mimeTypes.join(',')}
+            multiple
+            disabled={uploadPercent !== null || connection !== 'online'}
+            onChange={(e) => void handleFilesSelected(Array.from(e.target.files ?? []))}
+          />
+        </label>
+        <label className="visually-hidden" htmlFor={`${id}-input`}>
+          {t('chat.label')}
+        </label>
+        <textarea
+          id={`${id}-input`}
+          className="chat-view__input"
+          rows={1}
+          placeholder={t('chat.placeholder')}
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value)
+            setError(null)
+            if (e.target.value) notifyTyping(conversationId)
+            else stopTyping(conversationId)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => stopTyping(conversationId)}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={`${id}-error`}
+        />
+        <span className={clsx('chat-view__counter', remaining < 0 && 'post-composer__counter--over')}>
+          {remaining < 100 ? remaining : null}
+        </span>
+        <button type="submit" disabled={uploadPercent !== null}>
+          {t('chat.send')}
+        </button>
+      </form>
+      <div id={`${id}-error`}>{error && <p className="auth-form__field-error">{error}</p>}</div>
+    </section>
+  )
+}
+
+export default ChatView
@@ -0,0 +1,96 @@
+/**
+ * ============================================================================
+ * STEP 2.8: ConversationList - Inbox of Conversations
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (group photos, system message previews)
+ * UPDATED: Feature Phase - Step 2.24 (translated, live timestamps)
+ * PURPOSE: Every conversation with a preview, time and unread count,
+ *          latest activity first
+ *
+ * React Concepts Demonstrated:
+ * - NavLink marks the open conversation (aria-current="page" for free)
+ * - Everything comes from useChat(), so new messages move a conversation
+ *   to the top without any refetching
+ *
+ * LEARNING NOTES:
+ * - While someone is typing, the preview shows that instead of the last
+ *   message, like most chat apps
+ */
+
+import { NavLink } from 'react-router-dom'
+import clsx from 'clsx'
+import { useAuth } from '../../hooks/useAuth'
+import { useChat } from '../../hooks/useChat'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import { countUnread } from '../../context/chatState'
+import { conversationPath } from '../../routes/paths'
+import { conversationTitle, describeSystemMessage, typingLabel } from '../../utils/conversations'
+import RelativeTime from '../common/RelativeTime'
+
+/**
+ * ConversationList Component
+ */
+function ConversationList() {
+  const { user } = useAuth()
+  const { conversations, messages, typing, isSynced } = useChat()
+  const { locale, t, formatNumber } = useI18n()
+  const users = useUsersById(conversations.flatMap((c) => c.participants))
+
+  if (!isSynced) {
+    return <p className="conversation-list__status">{t('conversations.loading')}</p>
+  }
+  if (conversations.length === 0) {
+    return <p className="conversation-list__status">{t('conversations.empty')}</p>
+  }
+
+  return (
+    <ul className="conversation-list">
+      {conversations.map((conversation) => {
+        const unread = countUnread(messages[conversation.id], user?.id)
+        const typingText = typingLabel(typing[conversation.id] ?? [], users, t)
+        const last = conversation.lastMessage
+        const activity = last?.createdAt ?? conversation.updatedAt
+        const preview = !last
+          ? t('conversations.noMessages')
+          : last.type === 'system'
+            ? describeSystemMessage(last, user?.id, users, t, locale)
+            : last.senderId === user?.id
+              ? t('conversations.ownPreview', { text: last.content })
+              : last.content
+
+        return (
+          <li key={conversation.id}>
+            <NavLink
+              to={conversationPath(conversation.id)}
+              className={({ isActive }) =>
+                clsx(
+                  'conversation-list__item',
+                  isActive && 'conversation-list__item--active',
+                  unread > 0 && 'conversation-list__item--unread',
+                )
+              }
+            >
+              <span className="conversation-list__title">
+                {conversation.groupImage && <img className="group-avatar group-avatar--small" src={conversation.groupImage} alt="" />}
+                {conversationTitle(conversation, user?.id, users, t, locale)}
+              </span>
+              <RelativeTime className="conversation-list__time" date={activity} />
+              <span className="conversation-list__preview">{typingText || preview}</span>
+              {unread > 0 && (
+                <span className="conversation-list__badge">
+                  <span aria-hidden="true">{formatNumber(unread)}</span>
+                  <span className="visually-hidden"> {t('conversations.newMessages', { count: unread })}</span>
+                </span>
+              )}
+            </NavLink>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default ConversationList
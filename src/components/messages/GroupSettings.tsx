@@ -0,0 +1,246 @@
+/**
+ * ============================================================================
+ * STEP 2.9: GroupSettings - Name, Photo, Members and Admins of a Group
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.9 (Group conversations)
+ * UPDATED: Feature Phase - Step 2.17 (the photo is uploaded)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Everything about a group that can change, in one panel
+ *
+ * Who Sees What:
+ * - Everyone: the member list with roles, and "Leave group"
+ * - Admins: rename, photo, add/remove members, make/remove admins
+ * Controls come from groupChangeError, the same rules the server enforces,
+ * so a button is only shown when pressing it would be allowed.
+ *
+ * Leaving:
+ * - The confirmation says what happens next: who becomes admin if you are
+ *   the last one, or that the group is deleted if you are the last member
+ *
+ * LEARNING NOTES:
+ * - Photos are shrunk to a small square-ish size before upload; a group
+ *   avatar never needs more than a couple of hundred pixels
+ * - The photo is uploaded first (services/media, purpose 'group') and the
+ *   change carries only its URL; the server accepts nothing but the
+ *   admin's own upload
+ */
+
+import { useState, type FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { useChat } from '../../hooks/useChat'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import { ROUTES } from '../../routes/paths'
+import { uploader } from '../../services'
+import type { Conversation, GroupChange } from '../../types'
+import { displayName } from '../../utils/conversations'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { groupChangeError, isGroupAdmin, successorAdmin } from '../../utils/groups'
+import { resizeImage } from '../../utils/images'
+import { IMAGE_MIME_TYPES, validateGroupName, validateMediaFile } from '../../validation'
+import UserPicker from './UserPicker'
+
+const AVATAR_MAX_DIMENSION = 256
+
+/**
+ * GroupSettings Props
+ * - conversation: A group conversation the viewer belongs to
+ */
+interface GroupSettingsProps {
+  conversation: Conversation
+}
+
+/**
+ * GroupSettings Component
+ */
+function GroupSettings({ conversation }: GroupSettingsProps) {
+  const { user } = useAuth()
+  const { changeGroup } = useChat()
+  const { t } = useI18n()
+  const navigate = useNavigate()
+  const users = useUsersById(conversation.participants)
+  const [name, setName] = useState(conversation.groupName ?? '')
+  const [newMembers, setNewMembers] = useState<string[]>([])
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const viewerId = user?.id ?? ''
+  const isAdmin = isGroupAdmin(conversation, viewerId)
+  const allowed = (change: GroupChange) => groupChangeError(conversation, viewerId, change) === null
+
+  /**
+   * apply - Sends one change, showing progress and the server's reason
+   * when it is refused; resolves to whether it succeeded
+   */
+  const apply = async (change: GroupChange): Promise<boolean> => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await changeGroup(conversation.id, change)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('group.updateError'))
+      return false
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRename = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const nameError = validateGroupName(name)
+    if (nameError) {
+      setError(fieldErrorText(nameError, t))
+      return
+    }
+    if (name.trim() !== conversation.groupName) await apply({ type: 'rename', groupName: name })
+  }
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return
+    const fileError = validateMediaFile(file, 'group')
+    if (fileError) {
+      setError(fieldErrorText(fileError, t))
+      return
+    }
+    setIsBusy(true)
+    setError(null)
+    try {
+      const resized = await resizeImage(file, { maxDimension: AVATAR_MAX_DIMENSION })
+      const asset = await uploader.upload(resized, { purpose: 'group' })
+      await apply({ type: 'set-image', groupImage: asset.url })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('group.photoError'))
+      setIsBusy(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (newMembers.length === 0) return
+    if (await apply({ type: 'add', userIds: newMembers })) setNewMembers([])
+  }
+
+  const handleLeave = async () => {
+    const successor = successorAdmin(conversation, viewerId)
+    const question =
+      conversation.participants.length === 1
+        ? t('group.leaveLast')
+        : successor
+          ? t('group.leaveSuccessor', { name: displayName(users[successor]) ?? t('group.longestMember') })
+          : t('group.leave')
+    if (!window.confirm(question)) return
+    if (await apply({ type: 'leave' })) navigate(ROUTES.messages)
+  }
+
+  return (
+    <aside className="group-settings" aria-label={t('group.settings')}>
+      <div className="group-settings__photo">
+        {conversation.groupImage ? (
+          <img className="group-avatar group-avatar--large" src={conversation.groupImage} alt={t('group.photo')} />
+        ) : (
+          <span className="group-avatar group-avatar--large" aria-hidden="true" />
+        )}
+        {isAdmin && (
+          <div className="group-settings__photo-actions">
+            <label className="group-settings__upload">
+              {t('group.changePhoto')}
+              <input
+                type="file"
+                accept={IMAGE_MIME_TYPES.join(',')}
+                disabled={isBusy}
+                onChange={(e) => {
+                  void handlePhoto(e.target.files?.[0])
+                  e.target.value = ''
+                }}
+              />
+            </label>
+            {conversation.groupImage && (
+              <button type="button" disabled={isBusy} onClick={() => void apply({ type: 'set-image', groupImage: null })}>
+                {t('group.removePhoto')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isAdmin && (
+        <form className="group-settings__rename" onSubmit={handleRename} noValidate>
+          <label htmlFor={`group-name-${conversation.id}`}>{t('group.name')}</label>
+          <input
+            id={`group-name-${conversation.id}`}
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button type="submit" disabled={isBusy}>
+            {t('group.rename')}
+          </button>
+        </form>
+      )}
+
+      <h3 className="group-settings__heading">{t('group.members', { count: conversation.participants.length })}</h3>
+      <ul className="group-settings__members">
+        {conversation.participants.map((memberId) => {
+          const memberName = displayName(users[memberId]) ?? '…'
+          const memberIsAdmin = isGroupAdmin(conversation, memberId)
+          return (
+            <li key={memberId} className="group-settings__member">
+              <span>{memberId === viewerId ? t('group.memberYou', { name: memberName }) : memberName}</span>
+              {memberIsAdmin && <span className="group-settings__role">{t('group.admin')}</span>}
+              <span className="group-settings__member-actions">
+                {allowed({ type: 'promote', userId: memberId }) && (
+                  <button type="button" disabled={isBusy} onClick={() => void apply({ type: 'promote', userId: memberId })}>
+                    {t('group.makeAdmin')}
+                  </button>
+                )}
+                {allowed({ type: 'demote', userId: memberId }) && (
+                  <button type="button" disabled={isBusy} onClick={() => void apply({ type: 'demote', userId: memberId })}>
+                    {t('group.removeAdmin')}
+                  </button>
+                )}
+                {allowed({ type: 'remove', userId: memberId }) && (
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => void apply({ type: 'remove', userId: memberId })}
+                    aria-label={t('group.removeMember', { name: memberName })}
+                  >
+                    {t('group.remove')}
+                  </button>
+                )}
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+
+      {isAdmin && (
+        <div className="group-settings__add">
+          <UserPicker
+            label={t('group.addMembers')}
+            value={newMembers}
+            onChange={setNewMembers}
+            excludeIds={conversation.participants}
+          />
+          <button type="button" disabled={isBusy || newMembers.length === 0} onClick={() => void handleAdd()}>
+            {t('group.add')}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="auth-form__field-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <button type="button" className="group-settings__leave" disabled={isBusy} onClick={() => void handleLeave()}>
+        {t('group.leaveButton')}
+      </button>
+    </aside>
+  )
+}
+
+export default GroupSettings
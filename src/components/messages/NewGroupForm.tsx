@@ -0,0 +1,119 @@
+/**
+ * ============================================================================
+ * STEP 2.9: NewGroupForm - Create a Group Conversation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.9 (Group conversations)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Pick members and an optional name, then open the new group
+ *
+ * LEARNING NOTES:
+ * - validateGroupForm is the client half of the rules; the server checks
+ *   the same size and name limits again
+ * - The creator becomes the group's first admin (server side)
+ */
+
+import { useId, useState, type FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { useChat } from '../../hooks/useChat'
+import { useFormValidation } from '../../hooks/useFormValidation'
+import { useI18n } from '../../hooks/useI18n'
+import { conversationPath } from '../../routes/paths'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { validateGroupForm, type GroupForm } from '../../validation'
+import TextField from '../common/TextField'
+import UserPicker from './UserPicker'
+
+const EMPTY_GROUP: GroupForm = { groupName: '', participantIds: [] }
+
+/**
+ * NewGroupForm Props
+ * - onCancel: Closes the form without creating anything
+ */
+interface NewGroupFormProps {
+  onCancel: () => void
+}
+
+/**
+ * NewGroupForm Component
+ */
+function NewGroupForm({ onCancel }: NewGroupFormProps) {
+  const { user } = useAuth()
+  const { startConversation } = useChat()
+  const { t } = useI18n()
+  const navigate = useNavigate()
+  const [form, setForm] = useState<GroupForm>(EMPTY_GROUP)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const validation = useFormValidation(form, validateGroupForm)
+  const id = useId()
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    setIsSubmitting(true)
+    setSubmitError(null)
+    try {
+      const conversation = await startConversation(form.participantIds, {
+        groupName: form.groupName.trim() || undefined,
+      })
+      navigate(conversationPath(conversation.id))
+      onCancel()
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : t('newGroup.error'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form className="new-group-form" onSubmit={handleSubmit} noValidate aria-labelledby={`${id}-title`}>
+      <h2 id={`${id}-title`} className="new-group-form__title">
+        {t('newGroup.title')}
+      </h2>
+
+      <TextField
+        label={t('newGroup.name')}
+        value={form.groupName}
+        onChange={(e) => setForm((prev) => ({ ...prev, groupName: e.target.value }))}
+        onBlur={() => validation.handleBlur('groupName')}
+        error={validation.errors.groupName}
+      />
+
+      <UserPicker
+        label={t('newGroup.members')}
+        value={form.participantIds}
+        onChange={(participantIds) => {
+          setForm((prev) => ({ ...prev, participantIds }))
+          validation.handleBlur('participantIds')
+        }}
+        excludeIds={user ? [user.id] : []}
+        invalid={Boolean(validation.errors.participantIds)}
+        describedBy={`${id}-members-error`}
+      />
+      <div id={`${id}-members-error`}>
+        {validation.errors.participantIds && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.participantIds, t)}</p>
+        )}
+      </div>
+
+      {submitError && (
+        <p className="auth-form__field-error" role="alert">
+          {submitError}
+        </p>
+      )}
+
+      <div className="new-group-form__actions">
+        <button type="button" onClick={onCancel}>
+          {t('newGroup.cancel')}
+        </button>
+        <button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? t('newGroup.creating') : t('newGroup.create')}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default NewGroupForm
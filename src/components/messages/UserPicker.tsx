@@ -0,0 +1,146 @@
+/**
+ * ============================================================================
+ * STEP 2.9: UserPicker - Choose Several Users by Name
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.9 (Group conversations)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Pick group members: type to search, pick from the list, and
+ *          see the picks as removable chips
+ *
+ * React Concepts Demonstrated:
+ * - Controlled component: the parent owns the selected IDs (value +
+ *   onChange), the picker only owns the search text
+ * - Reuses the composer's user search (useEntitySuggestions) and listbox
+ *   (EntitySuggestions) instead of a second implementation
+ *
+ * Keyboard:
+ * - ↑/↓ move through matches, Enter picks, Backspace in an empty box
+ *   removes the last pick
+ */
+
+import { useId, useState, type KeyboardEvent } from 'react'
+import { suggestionOptionId, useEntitySuggestions, type EntitySuggestion } from '../../hooks/useEntitySuggestions'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import { displayName } from '../../utils/conversations'
+import EntitySuggestions from '../posts/EntitySuggestions'
+
+/**
+ * UserPicker Props
+ * - value / onChange: Selected user IDs
+ * - excludeIds: Users who cannot be picked (yourself, current members)
+ * - label: Visible label of the search box
+ */
+interface UserPickerProps {
+  value: string[]
+  onChange: (userIds: string[]) => void
+  excludeIds?: string[]
+  label: string
+  invalid?: boolean
+  describedBy?: string
+}
+
+/**
+ * UserPicker Component
+ */
+function UserPicker({ value, onChange, excludeIds = [], label, invalid, describedBy }: UserPickerProps) {
+  const { t } = useI18n()
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const users = useUsersById(value)
+  const id = useId()
+  const listId = `${id}-suggestions`
+
+  const search = query.trim().replace(/^@/, '')
+  const matches = useEntitySuggestions(
+    search ? { trigger: '@', query: search, start: 0, end: search.length } : null,
+  ).filter((suggestion) => suggestion.userId && !value.includes(suggestion.userId) && !excludeIds.includes(suggestion.userId))
+  const highlighted = Math.min(activeIndex, matches.length - 1)
+
+  const pick = (suggestion: EntitySuggestion) => {
+    if (!suggestion.userId) return
+    onChange([...value, suggestion.userId])
+    setQuery('')
+    setActiveIndex(0)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1))
+      return
+    }
+    if (matches.length === 0) return
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setActiveIndex((highlighted + 1) % matches.length)
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setActiveIndex((highlighted - 1 + matches.length) % matches.length)
+        break
+      case 'Enter':
+        event.preventDefault()
+        pick(matches[highlighted])
+        break
+    }
+  }
+
+  return (
+    <div className="user-picker">
+      <label className="user-picker__label" htmlFor={`${id}-input`}>
+        {label}
+      </label>
+
+      {value.length > 0 && (
+        <ul className="user-picker__chips" aria-label={t('userPicker.picked')}>
+          {value.map((userId) => {
+            const name = displayName(users[userId]) ?? '…'
+            return (
+              <li key={userId} className="user-picker__chip">
+                {name}{' '}
+                <button
+                  type="button"
+                  className="user-picker__remove"
+                  onClick={() => onChange(value.filter((picked) => picked !== userId))}
+                  aria-label={t('userPicker.remove', { name })}
+                >
+                  ×
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="user-picker__field">
+        <input
+          id={`${id}-input`}
+          className="user-picker__input"
+          type="text"
+          autoComplete="off"
+          placeholder={t('userPicker.placeholder')}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={matches.length > 0}
+          aria-controls={listId}
+          aria-activedescendant={matches.length > 0 ? suggestionOptionId(listId, highlighted) : undefined}
+          aria-invalid={invalid || undefined}
+          aria-describedby={describedBy}
+        />
+        {matches.length > 0 && (
+          <EntitySuggestions id={listId} suggestions={matches} activeIndex={highlighted} onSelect={pick} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default UserPicker
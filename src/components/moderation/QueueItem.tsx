@@ -0,0 +1,217 @@
+/**
+ * ============================================================================
+ * STEP 2.15: QueueItem - One Reported Thing and What to Do About It
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Show moderators what was reported, why and how often, with one
+ *          button per action that makes sense for it
+ *
+ * Behaviour:
+ * - The snapshot is shown as it was when reported, so later edits or
+ *   deletions cannot hide what people complained about
+ * - Only sensible actions appear: no "Hide" on an account, no "Restore" on
+ *   content nobody touched, "Lift suspension" only while one is running
+ * - Warnings and suspensions need a note (the author reads it); suspensions
+ *   also need a number of days
+ * - Any action closes the open reports, so the item leaves the queue
+ *
+ * LEARNING NOTES:
+ * - The form is checked with validateModerationActionForm before sending,
+ *   the same function the mock server runs
+ */
+
+import { useId, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useI18n } from '../../hooks/useI18n'
+import { conversationPath, postPath, profilePath } from '../../routes/paths'
+import { api } from '../../services'
+import type { ModerationActionType, ModerationQueueItem, User } from '../../types'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import {
+  MODERATION_ACTION_LABELS,
+  REPORT_REASON_LABELS,
+  REPORT_TARGET_LABELS,
+  formatSuspensionEnd,
+} from '../../utils/moderation'
+import { MODERATION_NOTE_MAX_LENGTH, SUSPENSION_MAX_DAYS, validateModerationActionForm } from '../../validation'
+import RelativeTime from '../common/RelativeTime'
+
+/** Default suspension length offered in the days field */
+const DEFAULT_SUSPENSION_DAYS = 7
+
+/**
+ * QueueItem Props
+ * - author: The reported content's author (or the reported user), if loaded
+ * - onResolved: Called with the target ID after a successful action
+ */
+interface QueueItemProps {
+  item: ModerationQueueItem
+  author?: User
+  onResolved: (targetId: string) => void
+}
+
+/**
+ * availableActions - The buttons to offer for one queue item
+ */
+function availableActions(item: ModerationQueueItem): ModerationActionType[] {
+  const actions: ModerationActionType[] = []
+  if (item.targetType !== 'user') {
+    if (item.moderation !== 'hidden' && item.moderation !== 'removed') actions.push('hide')
+    if (item.moderation !== 'removed') actions.push('remove')
+    if (item.moderation) actions.push('restore')
+  }
+  actions.push('warn')
+  actions.push(item.authorSuspendedUntil ? 'unsuspend' : 'suspend')
+  actions.push('dismiss')
+  return actions
+}
+
+/**
+ * targetLink - Where the reported thing lives, when it has a page
+ */
+function targetLink(item: ModerationQueueItem, author?: User): string | null {
+  const { snapshot } = item
+  if (item.targetType === 'post') return postPath(item.targetId)
+  if (item.targetType === 'comment' && snapshot.postId) return postPath(snapshot.postId)
+  if (item.targetType === 'message' && snapshot.conversationId) return conversationPath(snapshot.conversationId)
+  if (item.targetType === 'user' && author) return profilePath(author.username)
+  return null
+}
+
+/**
+ * QueueItem Component
+ */
+function QueueItem({ item, author, onResolved }: QueueItemProps) {
+  const { locale, t, tRich } = useI18n()
+  const noteId = useId()
+  const daysId = useId()
+  const [note, setNote] = useState('')
+  const [days, setDays] = useState(String(DEFAULT_SUSPENSION_DAYS))
+  const [error, setError] = useState<string | null>(null)
+  const [busyAction, setBusyAction] = useState<ModerationActionType | null>(null)
+
+  const target = item.targetType
+  const link = targetLink(item, author)
+  const authorName = author ? `@${author.username}` : t('queue.unknownAuthor')
+
+  const handleAction = async (type: ModerationActionType) => {
+    const form = {
+      type,
+      targetType: item.targetType,
+      targetId: item.targetId,
+      note: note.trim() || undefined,
+      days: type === 'suspend' ? Number(days) : undefined,
+    }
+    const validation = validateModerationActionForm(form)
+    if (!validation.valid) {
+      const fieldError = validation.errors.note ?? validation.errors.days
+      setError(fieldError ? fieldErrorText(fieldError, t) : t('queue.chooseAction'))
+      return
+    }
+    if (type === 'remove' && !window.confirm(t('queue.removeConfirm', { target }))) return
+    setBusyAction(type)
+    setError(null)
+    const response = await api.moderation.applyAction(form)
+    setBusyAction(null)
+    if (response.success) {
+      onResolved(item.targetId)
+    } else {
+      setError(response.error ?? t('queue.failed'))
+    }
+  }
+
+  const count = item.reportIds.length
+
+  return (
+    <article className="queue-item" aria-label={t('queue.label', { target, author: authorName })}>
+      <header className="queue-item__header">
+        <span className="queue-item__type">{t(REPORT_TARGET_LABELS[target])}</span>
+        <span>{t('queue.by', { author: authorName })}</span>
+        <span className="queue-item__count">
+          {tRich('queue.reports', { count, time: <RelativeTime date={item.firstReportedAt} /> })}
+        </span>
+      </header>
+
+      <blockquote className="queue-item__snapshot">
+        {item.snapshot.content || <em>{t('queue.noText')}</em>}
+        {Boolean(item.snapshot.images?.length) && (
+          <span className="queue-item__images"> {t('queue.images', { count: item.snapshot.images?.length ?? 0 })}</span>
+        )}
+      </blockquote>
+      {link && (
+        <Link to={link} className="queue-item__link">
+          {t('queue.open', { target })}
+        </Link>
+      )}
+
+      <ul className="queue-item__reasons" aria-label={t('queue.reasons')}>
+        {item.reasons.map((reason) => (
+          <li key={reason}>{t(REPORT_REASON_LABELS[reason])}</li>
+        ))}
+      </ul>
+      {item.details.length > 0 && (
+        <ul className="queue-item__details" aria-label={t('queue.details')}>
+          {item.details.map((detail, index) => (
+            <li key={index}>“{detail}”</li>
+          ))}
+        </ul>
+      )}
+
+      {(item.moderation || item.authorSuspendedUntil) && (
+        <p className="moderation-note">
+          {item.moderation && `${t('queue.already', { state: item.moderation })} `}
+          {item.authorSuspendedUntil &&
+            t('queue.suspendedUntil', {
+              author: authorName,
+              date: formatSuspensionEnd(item.authorSuspendedUntil, locale),
+            })}
+        </p>
+      )}
+
+      <div className="queue-item__fields">
+        <label htmlFor={noteId}>{t('queue.note')}</label>
+        <textarea
+          id={noteId}
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          maxLength={MODERATION_NOTE_MAX_LENGTH}
+          rows={2}
+        />
+        <label htmlFor={daysId}>{t('queue.days')}</label>
+        <input
+          id={daysId}
+          type="number"
+          min={1}
+          max={SUSPENSION_MAX_DAYS}
+          value={days}
+          onChange={(event) => setDays(event.target.value)}
+        />
+      </div>
+
+      {error && (
+        <p className="auth-form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="queue-item__actions">
+        {availableActions(item).map((type) => (
+          <button
+            key={type}
+            type="button"
+            className={type === 'remove' || type === 'suspend' ? 'queue-item__action--danger' : undefined}
+            disabled={busyAction !== null}
+            onClick={() => void handleAction(type)}
+          >
+            {busyAction === type ? t('queue.working') : t(MODERATION_ACTION_LABELS[type])}
+          </button>
+        ))}
+      </div>
+    </article>
+  )
+}
+
+export default QueueItem
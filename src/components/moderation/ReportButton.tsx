@@ -0,0 +1,156 @@
+/**
+ * ============================================================================
+ * STEP 2.15: ReportButton - "Report" With an Inline Reason Form
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Let anyone signed in report a post, comment, message or account
+ *
+ * Behaviour:
+ * - The button opens a small form right below it: one reason (radio
+ *   buttons) and optional details, required for "Something else"
+ * - Validated with validateReportForm, the same rules the server uses
+ * - After sending, the form is replaced by a thank-you line; reporting the
+ *   same thing again is harmless (the server keeps the first report)
+ * - Hidden for signed-out visitors and on the viewer's own content
+ *
+ * Accessibility:
+ * - aria-expanded on the button announces whether the form is open
+ * - The reasons are a <fieldset> with a <legend>, so the question is read
+ *   before the choices
+ */
+
+import { useId, useState, type FormEvent } from 'react'
+import { Flag } from 'lucide-react'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { api } from '../../services'
+import type { ReportReason, ReportTargetType } from '../../types'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { REPORT_REASON_LABELS } from '../../utils/moderation'
+import { REPORT_DETAILS_MAX_LENGTH, REPORT_REASONS, validateReportForm } from '../../validation'
+
+/**
+ * ReportButton Props
+ * - authorId: Who wrote it (the button hides itself for them)
+ * - className: Extra class for the toggle button, to match its row
+ */
+interface ReportButtonProps {
+  targetType: ReportTargetType
+  targetId: string
+  authorId: string
+  className?: string
+}
+
+/**
+ * ReportButton Component
+ */
+function ReportButton({ targetType, targetId, authorId, className }: ReportButtonProps) {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const formId = useId()
+  const [isOpen, setIsOpen] = useState(false)
+  const [reason, setReason] = useState<ReportReason | ''>('')
+  const [details, setDetails] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+
+  if (!user || user.id === authorId) return null
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const form = { targetType, targetId, reason: reason as ReportReason, details }
+    const validation = validateReportForm(form)
+    if (!validation.valid) {
+      const fieldError = validation.errors.reason ?? validation.errors.details
+      setError(fieldError ? fieldErrorText(fieldError, t) : null)
+      return
+    }
+    setIsSending(true)
+    setError(null)
+    const response = await api.moderation.report(form)
+    setIsSending(false)
+    if (response.success) {
+      setIsSent(true)
+    } else {
+      setError(response.error ?? t('report.sendError'))
+    }
+  }
+
+  const close = () => {
+    setIsOpen(false)
+    setError(null)
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className={className ?? 'report-button'}
+        aria-expanded={isOpen}
+        aria-controls={formId}
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+      >
+        <Flag size={14} aria-hidden="true" /> {t('report.button')}
+      </button>
+
+      {isOpen && (
+        <div id={formId} className="report-form">
+          {isSent ? (
+            <p className="report-form__done" role="status">
+              {t('report.thanks', { target: targetType })}{' '}
+              <button type="button" onClick={close}>
+                {t('report.close')}
+              </button>
+            </p>
+          ) : (
+            <form onSubmit={(event) => void handleSubmit(event)} noValidate>
+              <fieldset className="report-form__reasons" disabled={isSending}>
+                <legend>{t('report.question', { target: targetType })}</legend>
+                {REPORT_REASONS.map((value) => (
+                  <label key={value} className="report-form__reason">
+                    <input
+                      type="radio"
+                      name={`${formId}-reason`}
+                      value={value}
+                      checked={reason === value}
+                      onChange={() => setReason(value)}
+                    />
+                    {t(REPORT_REASON_LABELS[value])}
+                  </label>
+                ))}
+              </fieldset>
+              <label className="report-form__details">
+                {t('report.details', { required: reason === 'other' ? 'yes' : 'no' })}
+                <textarea
+                  value={details}
+                  onChange={(event) => setDetails(event.target.value)}
+                  maxLength={REPORT_DETAILS_MAX_LENGTH}
+                  rows={2}
+                  disabled={isSending}
+                />
+              </label>
+              {error && (
+                <p className="auth-form__error" role="alert">
+                  {error}
+                </p>
+              )}
+              <div className="report-form__actions">
+                <button type="submit" disabled={isSending}>
+                  {isSending ? t('report.sending') : t('report.send')}
+                </button>
+                <button type="button" onClick={close} disabled={isSending}>
+                  {t('report.cancel')}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
+
+export default ReportButton
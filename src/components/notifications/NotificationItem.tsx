@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * STEP 2.10: NotificationItem - One Row in the Notification Center
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests)
+ * UPDATED: Feature Phase - Step 2.15 (moderation notices with their note)
+ * UPDATED: Feature Phase - Step 2.18 (repost and quote icons)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps, translated)
+ * PURPOSE: Shows a group of notifications ("Alice and 12 others liked your
+ *          post") with its time, unread state and link
+ *
+ * Behaviour:
+ * - Following the link marks the whole group as read
+ * - Unread rows also get a "Mark as read" button, so a row can be cleared
+ *   without leaving the page
+ * - When the post, comment or message is gone the row stays (the event
+ *   still happened) but shows why there is no link
+ * - Moderation notices also show the moderator's note, if there is one
+ *
+ * Accessibility:
+ * - The type icon is decorative; the sentence says what happened
+ * - Unread rows carry visually hidden "Unread:" text, since the dot and
+ *   bold text are visual only
+ */
+
+import { memo } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  AtSign,
+  Heart,
+  MessageCircle,
+  MessageSquare,
+  Quote,
+  Repeat2,
+  ShieldAlert,
+  UserLock,
+  UserPlus,
+  type LucideIcon,
+} from 'lucide-react'
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import type { NotificationType, User } from '../../types'
+import {
+  describeNotificationGroup,
+  notificationPath,
+  unavailableTargetLabel,
+  type NotificationGroup,
+} from '../../utils/notifications'
+import RelativeTime from '../common/RelativeTime'
+
+const ICONS: Record<NotificationType, LucideIcon> = {
+  like: Heart,
+  comment: MessageSquare,
+  follow: UserPlus,
+  follow_request: UserLock,
+  mention: AtSign,
+  message: MessageCircle,
+  moderation: ShieldAlert,
+  repost: Repeat2,
+  quote: Quote,
+}
+
+/**
+ * NotificationItem Props
+ * - group: The notifications shown in this row
+ * - users: Known users by ID (actors may still be loading)
+ * - onMarkRead: Marks the given notifications as read
+ */
+interface NotificationItemProps {
+  group: NotificationGroup
+  users: Record<string, User>
+  onMarkRead: (notificationIds: string[]) => void
+}
+
+/**
+ * NotificationItem Component
+ */
+function NotificationItem({ group, users, onMarkRead }: NotificationItemProps) {
+  const { locale, t } = useI18n()
+  const Icon = ICONS[group.type]
+  const { latest } = group
+  const text = describeNotificationGroup(group, users, t, locale)
+  const path = notificationPath(group, users)
+  const unreadIds = group.notifications.filter((n) => !n.isRead).map((n) => n.id)
+  const markGroupRead = () => onMarkRead(unreadIds)
+
+  return (
+    <li className={clsx('notification-item', !group.isRead && 'notification-item--unread')}>
+      <Icon className={`notification-item__icon notification-item__icon--${group.type}`} size={20} aria-hidden="true" />
+      <div className="notification-item__body">
+        {!group.isRead && <span className="visually-hidden">{t('notifications.unread')} </span>}
+        {path ? (
+          <Link className="notification-item__text" to={path} onClick={markGroupRead}>
+            {text}
+          </Link>
+        ) : (
+          <span className="notification-item__text">{text}</span>
+        )}
+        {latest.moderation?.note && <p className="notification-item__note">“{latest.moderation.note}”</p>}
+        {latest.targetDeleted && <p className="notification-item__unavailable">{unavailableTargetLabel(latest, t)}</p>}
+        <RelativeTime className="notification-item__time" date={latest.createdAt} />
+      </div>
+      {!group.isRead && (
+        <button type="button" className="notification-item__mark" onClick={markGroupRead}>
+          {t('notifications.markRead')}
+        </button>
+      )}
+    </li>
+  )
+}
+
+export default memo(NotificationItem)
@@ -0,0 +1,79 @@
+/**
+ * ============================================================================
+ * STEP 2.10: NotificationPreferencesForm - Choose Which Types to Receive
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: One checkbox per notification type; unchecked types are muted
+ *
+ * Behaviour:
+ * - Each change is saved immediately (no Save button to forget)
+ * - While saving, the checkboxes are disabled so two changes cannot race
+ * - A failed save shows the reason and leaves the checkboxes as the server
+ *   last confirmed them
+ *
+ * Accessibility:
+ * - <fieldset>/<legend> groups the checkboxes under one question
+ * - The status line is a polite live region, so "Saved" is announced
+ */
+
+import { useState } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import { useNotifications } from '../../hooks/useNotifications'
+import type { NotificationType } from '../../types'
+import { NOTIFICATION_TYPE_LABELS } from '../../utils/notifications'
+
+const TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as (keyof typeof NOTIFICATION_TYPE_LABELS)[]
+
+/**
+ * NotificationPreferencesForm Component
+ */
+function NotificationPreferencesForm() {
+  const { t } = useI18n()
+  const { muted, setMuted } = useNotifications()
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
+  if (!muted) return <p className="notification-preferences__status">{t('notificationPrefs.loading')}</p>
+
+  const handleToggle = async (type: NotificationType, enabled: boolean) => {
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      await setMuted(enabled ? muted.filter((mutedType) => mutedType !== type) : [...muted, type])
+      setStatus({ text: t('common.saved'), isError: false })
+    } catch (error) {
+      setStatus({ text: (error as Error).message, isError: true })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form className="notification-preferences" onSubmit={(event) => event.preventDefault()}>
+      <fieldset className="notification-preferences__fieldset" disabled={isSaving}>
+        <legend>{t('notificationPrefs.legend')}</legend>
+        {TYPES.map((type) => (
+          <label key={type} className="notification-preferences__option">
+            <input
+              type="checkbox"
+              checked={!muted.includes(type)}
+              onChange={(event) => void handleToggle(type, event.target.checked)}
+            />
+            {t(NOTIFICATION_TYPE_LABELS[type])}
+          </label>
+        ))}
+      </fieldset>
+      <p
+        className={status?.isError ? 'auth-form__error' : 'notification-preferences__status'}
+        role="status"
+        aria-live="polite"
+      >
+        {status?.text}
+      </p>
+    </form>
+  )
+}
+
+export default NotificationPreferencesForm
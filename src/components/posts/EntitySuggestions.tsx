@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * STEP 2.6: EntitySuggestions - Autocomplete List for the Composer
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Show matching #tags / @users under the composer textarea
+ *
+ * Accessibility (ARIA combobox pattern):
+ * - The list is role="listbox" and each item role="option"
+ * - Focus STAYS in the textarea; the highlighted option is announced via
+ *   aria-activedescendant on the textarea (set by PostComposer)
+ * - onMouseDown preventDefault keeps the textarea focused when an option
+ *   is clicked, so the caret position is not lost
+ */
+
+import clsx from 'clsx'
+import { suggestionOptionId, type EntitySuggestion } from '../../hooks/useEntitySuggestions'
+import { useI18n } from '../../hooks/useI18n'
+
+/**
+ * EntitySuggestions Props
+ * - id: Referenced by the textarea's aria-controls
+ * - activeIndex: Highlighted option (arrow keys move it)
+ */
+interface EntitySuggestionsProps {
+  id: string
+  suggestions: EntitySuggestion[]
+  activeIndex: number
+  onSelect: (suggestion: EntitySuggestion) => void
+}
+
+/**
+ * EntitySuggestions Component
+ */
+function EntitySuggestions({ id, suggestions, activeIndex, onSelect }: EntitySuggestionsProps) {
+  const { t } = useI18n()
+  return (
+    <ul id={id} className="entity-suggestions" role="listbox" aria-label={t('composer.suggestions')}>
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.value}
+          id={suggestionOptionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={clsx(
+            'entity-suggestions__option',
+            index === activeIndex && 'entity-suggestions__option--active',
+          )}
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+        >
+          <span className="entity-suggestions__label">{suggestion.label}</span>
+          <span className="entity-suggestions__detail">{suggestion.detail}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default EntitySuggestions
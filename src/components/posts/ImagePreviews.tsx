@@ -0,0 +1,104 @@
+/**
+ * ============================================================================
+ * STEP 2.6: ImagePreviews - Thumbnails of Images Attached to a Post
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.25 (a description field per image)
+ * PURPOSE: Show what will be uploaded, with a remove button and a
+ *          description (alt text) field per image
+ *
+ * LEARNING NOTES:
+ * - Previews read the local File through blob: URLs (useObjectUrls); nothing
+ *   is uploaded until the post is submitted
+ * - The file size shown is AFTER resizing, so users see the saving
+ * - Once written, the description also becomes the preview's alt, so a
+ *   screen reader user can check what they wrote against the image list
+ */
+
+import { X } from 'lucide-react'
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import { useObjectUrls } from '../../hooks/useObjectUrls'
+import { IMAGE_ALT_MAX_LENGTH } from '../../validation'
+
+/**
+ * formatBytes - 1536 → "1.5 KB"
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * ImagePreviews Props
+ * - alts: One description per image, same order
+ * - altIdPrefix: Description fields get the ids `${altIdPrefix}-${index}`,
+ *   so the composer can move focus to one
+ * - highlightMissing: Mark the images that still have no description
+ */
+interface ImagePreviewsProps {
+  images: File[]
+  alts: string[]
+  altIdPrefix: string
+  highlightMissing?: boolean
+  onRemove: (index: number) => void
+  onAltChange: (index: number, alt: string) => void
+}
+
+/**
+ * ImagePreviews Component
+ */
+function ImagePreviews({
+  images,
+  alts,
+  altIdPrefix,
+  highlightMissing = false,
+  onRemove,
+  onAltChange,
+}: ImagePreviewsProps) {
+  const { t } = useI18n()
+  const urls = useObjectUrls(images)
+  if (images.length === 0) return null
+
+  return (
+    <ul className="image-previews" aria-label={t('composer.attached')}>
+      {images.map((image, index) => {
+        const alt = alts[index] ?? ''
+        const isMissing = highlightMissing && !alt.trim()
+        return (
+          <li
+            key={`${image.name}-${index}`}
+            className={clsx('image-previews__item', isMissing && 'image-previews__item--missing-alt')}
+          >
+            {urls[index] && <img src={urls[index]} alt={alt.trim() || t('composer.preview', { name: image.name })} />}
+            <span className="image-previews__size">{formatBytes(image.size)}</span>
+            <button
+              type="button"
+              className="image-previews__remove"
+              onClick={() => onRemove(index)}
+              aria-label={t('composer.remove', { name: image.name })}
+            >
+              <X size={14} aria-hidden="true" />
+            </button>
+            <label className="image-previews__alt-label" htmlFor={`${altIdPrefix}-${index}`}>
+              {t('composer.altLabel', { number: index + 1 })}
+            </label>
+            <textarea
+              id={`${altIdPrefix}-${index}`}
+              className="image-previews__alt"
+              rows={2}
+              value={alt}
+              maxLength={IMAGE_ALT_MAX_LENGTH}
+              placeholder={t('composer.altPlaceholder')}
+              onChange={(e) => onAltChange(index, e.target.value)}
+            />
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default ImagePreviews
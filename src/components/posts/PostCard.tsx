@@ -0,0 +1,409 @@
+/**
+ * ============================================================================
+ * STEP 2.5: PostCard - One Post in a List
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.6 (linked #hashtags and @mentions)
+ * UPDATED: Feature Phase - Step 2.14 (audience badge)
+ * UPDATED: Feature Phase - Step 2.15 (report button, moderated posts)
+ * UPDATED: Feature Phase - Step 2.16 (label for posts written offline)
+ * UPDATED: Feature Phase - Step 2.17 (image gallery with lightbox)
+ * UPDATED: Feature Phase - Step 2.18 (reposts, quotes, editing with history,
+ *          deleting)
+ * UPDATED: Feature Phase - Step 2.19 (why a followed hashtag's post is here)
+ * UPDATED: Feature Phase - Step 2.20 (post read from the global store,
+ *          optimistic likes)
+ * UPDATED: Feature Phase - Step 2.24 (translated, live timestamps, counts
+ *          read out with their plural)
+ * UPDATED: Feature Phase - Step 2.25 (keyboard shortcuts, image descriptions)
+ * PURPOSE: Author, time, text, images and the like/comment/share counts
+ *
+ * React Concepts Demonstrated:
+ * - memo(): feeds re-render often (new pages, new-post counts); a memoized
+ *   card only re-renders when ITS post or author changes
+ * - Lifting state up: the card does not keep its own copy of the post; after
+ *   a like it hands the server's updated post to onChange
+ *
+ * Accessibility:
+ * - <article> per post, labelled by the author name
+ * - aria-pressed on the like and repost buttons announces their state
+ * - <time dateTime> carries the exact timestamp for machines and tooltips
+ * - The like, comment and repost buttons show a bare number; their labels
+ *   say what it counts ("Like, 12 likes")
+ * - The article can take focus (tabIndex -1) so j/k move between posts;
+ *   data-post-id and data-shortcut tell KeyboardShortcuts which post and
+ *   which button `l` and `r` act on
+ *
+ * LEARNING NOTES:
+ * - A post moderators hid or removed arrives with its text blanked for
+ *   everyone who may not read it; the card shows a placeholder instead
+ * - A post written offline (isPending) is labelled "Not sent yet" and
+ *   cannot be reported until the server has it
+ * - `author` may be undefined for a moment while useUsersById fetches it;
+ *   the card renders a neutral placeholder instead of waiting
+ *
+ * Reposts & Quotes (Step 2.18):
+ * - A repost is shown as its original under a "Bob reposted" line; every
+ *   action on it (like, comment, repost, edit) goes to the original
+ * - A quote shows its own text with the quoted post embedded (QuotedPost)
+ * - Undoing your own repost from its card removes the card (onRemove)
+ *
+ * Editing & Deleting (Step 2.18):
+ * - Edit is offered within POST_EDIT_WINDOW_MS of posting; "Edited" opens
+ *   the earlier versions (PostHistory)
+ * - Delete asks first; the list then drops the post and its reposts
+ *
+ * Followed Hashtags (Step 2.19):
+ * - A post in the home feed only because of a hashtag the viewer follows
+ *   says so ("Because you follow #design"); the label survives likes and
+ *   edits, since the server's updated copy does not know why it is listed
+ *
+ * Global Store (Step 2.20):
+ * - The card shows the store's copy of its post when there is one, so the
+ *   same post in the feed, on a profile and inside a repost always agrees
+ * - A like shows at once and is rolled back (with a toast) if the server
+ *   refuses; every other change is stored when the server confirms it
+ */
+
+import { memo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Hash, Heart, MessageSquare, Quote, Repeat2 } from 'lucide-react'
+import clsx from 'clsx'
+import { usePostEntity } from '../../hooks/useAppStore'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { postPath, profilePath, tagPath } from '../../routes/paths'
+import { api } from '../../services'
+import { unwrap } from '../../services/api'
+import { receivePosts, removePost, togglePostLike } from '../../store'
+import type { Post, User } from '../../types'
+import { formatFullDate } from '../../utils/formatDate'
+import { moderatedPlaceholder } from '../../utils/moderation'
+import { canEditPost, canSharePost, sharedPostOf } from '../../utils/posts'
+import { POST_AUDIENCE_HINTS, POST_AUDIENCE_LABELS } from '../../utils/privacy'
+import RelativeTime from '../common/RelativeTime'
+import Gallery from '../media/Gallery'
+import ReportButton from '../moderation/ReportButton'
+import PostHistory from './PostHistory'
+import PostText from './PostText'
+import PostTextForm from './PostTextForm'
+import QuotedPost from './QuotedPost'
+
+/**
+ * PostCard Props
+ * - post: The post to show
+ * - author: Its author, once loaded
+ * - sharedAuthor: Author of the reposted or quoted post (Step 2.18)
+ * - onChange: Receives the updated post after a like, repost or edit
+ * - onRemove: Called with the post's ID once it was deleted (Step 2.18)
+ */
+interface PostCardProps {
+  post: Post
+  author?: User
+  sharedAuthor?: User
+  onChange?: (post: Post) => void
+  onRemove?: (postId: string) => void
+}
+
+/**
+ * PostArticle Props - PostCardProps for one post that has content of its
+ * own, plus who reposted it when it is shown inside a repost
+ */
+interface PostArticleProps extends PostCardProps {
+  repostedBy?: User
+}
+
+/**
+ * fullName - "Alice Nguyen"
+ */
+const fullName = (user: User) => `${user.firstName} ${user.lastName}`
+
+/**
+ * PostArticle - The card itself: header, text, images, quote and actions
+ */
+function PostArticle({ post: listedPost, author, sharedAuthor, repostedBy, onChange, onRemove }: PostArticleProps) {
+  const { user } = useAuth()
+  const { locale, t, tRich, formatNumber } = useI18n()
+  const post = usePostEntity(listedPost)
+  const [isBusy, setIsBusy] = useState(false)
+  const [mode, setMode] = useState<'view' | 'edit' | 'quote'>('view')
+  const [showHistory, setShowHistory] = useState(false)
+  const [notice, setNotice] = useState<{ text: string; postId?: string } | null>(null)
+
+  const isLiked = user ? post.likes.includes(user.id) : false
+  const isOwn = user?.id === post.authorId
+  const headingId = `post-${post.id}-author`
+  const isRedacted = Boolean(post.moderation) && !post.content && !post.images?.length
+  const canShare = Boolean(user) && canSharePost(post, author)
+
+  /** Stores the server's updated copy, then tells the list */
+  const handleChange = (updated: Post) => {
+    receivePosts([updated])
+    onChange?.(updated)
+  }
+
+  const handleToggleLike = async () => {
+    if (!user || isBusy) return
+    setIsBusy(true)
+    const response = await togglePostLike(post, user.id)
+    setIsBusy(false)
+    if (response.success && response.data) onChange?.(response.data)
+  }
+
+  const handleToggleRepost = async () => {
+    if (!canShare || isBusy) return
+    setIsBusy(true)
+    const response = post.viewerReposted ? await api.posts.undoRepost(post.id) : await api.posts.repostPost(post.id)
+    setIsBusy(false)
+    if (response.success && response.data) handleChange(response.data)
+    else setNotice({ text: response.error ?? t('post.repostError') })
+  }
+
+  const handleDelete = async () => {
+    if (isBusy || !window.confirm(t('post.deleteConfirm'))) return
+    setIsBusy(true)
+    const response = await api.posts.deletePost(post.id)
+    setIsBusy(false)
+    if (response.success) {
+      removePost(post.id)
+      onRemove?.(post.id)
+    } else setNotice({ text: response.error ?? t('post.deleteError') })
+  }
+
+  const handleEdit = async (content: string) => {
+    handleChange(unwrap(await api.posts.updatePost(post.id, { content })))
+    setMode('view')
+  }
+
+  const handleQuote = async (content: string) => {
+    const quote = unwrap(await api.posts.createPost({ content, audience: 'public', quoteOf: post.id }))
+    const original = sharedPostOf(quote)
+    if (original) handleChange(original)
+    setMode('view')
+    setNotice(quote.isPending ? { text: t('post.quoteQueued') } : { text: t('post.quotePosted'), postId: quote.id })
+  }
+
+  return (
+    <article
+      className={clsx('post-card', repostedBy && 'post-card--repost')}
+      aria-labelledby={headingId}
+      tabIndex={-1}
+      data-post-id={post.id}
+    >
+      {repostedBy && (
+        <p className="post-card__repost-label">
+          <Repeat2 size={14} aria-hidden="true" />
+          {repostedBy.id === user?.id ? (
+            <Link to={profilePath(repostedBy.username)}>{t('post.youReposted')}</Link>
+          ) : (
+            tRich('post.reposted', {
+              name: <Link to={profilePath(repostedBy.username)}>{fullName(repostedBy)}</Link>,
+            })
+          )}
+        </p>
+      )}
+      {post.followedTag && (
+        <p className="post-card__reason">
+          <Hash size={14} aria-hidden="true" />
+          {tRich('post.followedTag', {
+            tag: <Link to={tagPath(post.followedTag)}>#{post.followedTag}</Link>,
+          })}
+        </p>
+      )}
+      <header className="post-card__header">
+        {author ? (
+          <Link id={headingId} className="post-card__author" to={profilePath(author.username)}>
+            <strong>{fullName(author)}</strong> <span className="post-card__handle">@{author.username}</span>
+          </Link>
+        ) : (
+          <span id={headingId} className="post-card__author post-card__author--pending">
+            {t('common.loading')}
+          </span>
+        )}
+        <Link className="post-card__time" to={postPath(post.id)}>
+          <RelativeTime date={post.createdAt} />
+        </Link>
+        {post.editedAt && (
+          <button
+            type="button"
+            className="post-card__edited"
+            onClick={() => setShowHistory((value) => !value)}
+            aria-expanded={showHistory}
+            title={t('post.editedAt', { date: formatFullDate(post.editedAt, locale) })}
+          >
+            {t('post.edited')}
+          </button>
+        )}
+        {post.audience !== 'public' && (
+          <span className="post-card__badge" title={t(POST_AUDIENCE_HINTS[post.audience])}>
+            {t(POST_AUDIENCE_LABELS[post.audience])}
+          </span>
+        )}
+        {post.isPending && <span className="pending-label">{t('post.pending')}</span>}
+      </header>
+
+      {post.moderation && (
+        <p className={isRedacted ? 'post-card__content page__placeholder' : 'moderation-note'}>
+          {moderatedPlaceholder(post.moderation, 'post', !isRedacted, t)}
+        </p>
+      )}
+      {mode === 'edit' ? (
+        <PostTextForm
+          label={t('post.editLabel')}
+          submitLabel={t('post.save')}
+          initialContent={post.content}
+          allowEmpty={Boolean(post.images?.length)}
+          onSubmit={handleEdit}
+          onCancel={() => setMode('view')}
+        />
+      ) : (
+        !isRedacted && <PostText className="post-card__content" text={post.content} />
+      )}
+      {showHistory && <PostHistory postId={post.id} current={post.audience} />}
+
+      {post.images && (
+        <Gallery
+          images={post.images}
+          media={post.media}
+          alts={post.imageAlts}
+          label={author ? t('post.imagesOf', { name: fullName(author) }) : t('post.images')}
+        />
+      )}
+
+      {post.quoteOf && <QuotedPost quoteOf={post.quoteOf} shared={post.shared} author={sharedAuthor} />}
+
+      <footer className="post-card__actions">
+        <button
+          type="button"
+          className={clsx('post-card__action', isLiked && 'post-card__action--active')}
+          onClick={handleToggleLike}
+          disabled={!user || isBusy}
+          aria-pressed={isLiked}
+          aria-label={t('post.like', { count: post.likes.length })}
+          data-shortcut="like"
+        >
+          <Heart size={16} aria-hidden="true" fill={isLiked ? 'currentColor' : 'none'} />
+          {formatNumber(post.likes.length)}
+        </button>
+        <Link
+          className="post-card__action"
+          to={postPath(post.id)}
+          aria-label={t('post.comments', { count: post.comments.length })}
+        >
+          <MessageSquare size={16} aria-hidden="true" />
+          {formatNumber(post.comments.length)}
+        </Link>
+        <button
+          type="button"
+          className={clsx('post-card__action', post.viewerReposted && 'post-card__action--active')}
+          onClick={handleToggleRepost}
+          disabled={!canShare || isBusy}
+          aria-pressed={Boolean(post.viewerReposted)}
+          aria-label={t('post.repost', { count: post.shares })}
+          title={canShare || !user ? undefined : t('post.repostPublicOnly')}
+        >
+          <Repeat2 size={16} aria-hidden="true" />
+          {formatNumber(post.shares)}
+        </button>
+        {canShare && (
+          <button
+            type="button"
+            className="post-card__action"
+            onClick={() => setMode(mode === 'quote' ? 'view' : 'quote')}
+            aria-expanded={mode === 'quote'}
+          >
+            <Quote size={16} aria-hidden="true" />
+            {t('post.quote')}
+          </button>
+        )}
+        {canEditPost(post, user?.id) && mode !== 'edit' && (
+          <button type="button" className="post-card__action" onClick={() => setMode('edit')}>
+            {t('post.edit')}
+          </button>
+        )}
+        {isOwn && !post.isPending && onRemove && (
+          <button type="button" className="post-card__action" onClick={handleDelete} disabled={isBusy}>
+            {t('post.delete')}
+          </button>
+        )}
+        {!post.moderation && !post.isPending && (
+          <ReportButton targetType="post" targetId={post.id} authorId={post.authorId} className="post-card__action" />
+        )}
+      </footer>
+
+      {mode === 'quote' && (
+        <PostTextForm
+          label={author ? t('post.quoteLabelOf', { name: fullName(author) }) : t('post.quoteLabel')}
+          submitLabel={t('post.quoteSubmit')}
+          onSubmit={handleQuote}
+          onCancel={() => setMode('view')}
+        />
+      )}
+      {notice && (
+        <p className="post-card__notice" role="status">
+          {notice.text} {notice.postId && <Link to={postPath(notice.postId)}>{t('post.viewQuote')}</Link>}
+        </p>
+      )}
+    </article>
+  )
+}
+
+/**
+ * PostCard Component
+ *
+ * UPDATED: Step 2.18 - A repost renders its original (or why it cannot)
+ * UPDATED: Step 2.19 - Keeps followedTag across updates
+ */
+function PostCard({ post, author, sharedAuthor, onChange, onRemove }: PostCardProps) {
+  const { user } = useAuth()
+  const { t } = useI18n()
+
+  if (!post.repostOf) {
+    const { followedTag } = post
+    const handleChange = followedTag && onChange ? (updated: Post) => onChange({ ...updated, followedTag }) : onChange
+    return (
+      <PostArticle
+        post={post}
+        author={author}
+        sharedAuthor={sharedAuthor}
+        onChange={handleChange}
+        onRemove={onRemove}
+      />
+    )
+  }
+
+  const original = sharedPostOf(post)
+  if (!original) {
+    return (
+      <article className="post-card post-card--repost" aria-label={t('post.repostLabel')}>
+        <p className="post-card__repost-label">
+          <Repeat2 size={14} aria-hidden="true" />
+          {t('post.reposted', { name: author ? fullName(author) : t('post.someone') })}
+        </p>
+        <p className="page__placeholder">
+          {post.shared?.status === 'deleted' ? t('post.originalRemoved') : t('post.unavailable')}
+        </p>
+      </article>
+    )
+  }
+
+  // Actions inside a repost change the original; undoing your own repost
+  // deletes this one
+  const handleOriginalChange = (updated: Post) => {
+    if (!updated.viewerReposted && user?.id === post.authorId) onRemove?.(post.id)
+    else onChange?.({ ...post, shared: { status: 'available', post: updated } })
+  }
+
+  return (
+    <PostArticle
+      post={original}
+      author={sharedAuthor}
+      repostedBy={author}
+      onChange={handleOriginalChange}
+      onRemove={onRemove}
+    />
+  )
+}
+
+export default memo(PostCard)
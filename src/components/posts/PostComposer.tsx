@@ -0,0 +1,552 @@
+/**
+ * ============================================================================
+ * STEP 2.3: PostComposer - Create a Post from a PostForm
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * UPDATED: Feature Phase - Step 2.6 (image previews & resizing, #tag/@mention
+ *          autocomplete, drafts saved across reloads)
+ * UPDATED: Feature Phase - Step 2.14 (audience menu replaces the Public box)
+ * UPDATED: Feature Phase - Step 2.17 (images sent through the upload service)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions, focus on request)
+ * PURPOSE: Text, images and audience for a new post, validated before send
+ *
+ * React Concepts Demonstrated:
+ * - Controlled <textarea> and <select> inputs
+ * - File inputs: files are read from event.target.files (a FileList) and
+ *   copied into a normal array with Array.from
+ * - Resetting a file input by changing its `key`, since its value cannot be
+ *   set from React
+ * - useLayoutEffect to put the caret back after inserting a suggestion,
+ *   before the browser paints (no visible jump)
+ *
+ * Hashtags & Mentions:
+ * - `tags` is DERIVED from the text with extractHashtags on every render,
+ *   never typed separately, so it cannot drift from what the post says
+ * - Typing # or @ opens suggestions; ↑/↓ move, Enter/Tab insert, Esc closes
+ *
+ * Images:
+ * - Each selected image is resized/compressed in the browser (resizeImage)
+ *   before it is added, so validation checks the size actually uploaded
+ * - On Post, the images are uploaded first (services/media/uploader.ts)
+ *   with a progress bar, and the post is created with their mediaIds
+ * - Images only ever reach a post through the upload service, which
+ *   strips their metadata: when the connection drops, the post fails with
+ *   an error on the images instead of sending the raw files
+ * - Finished uploads are remembered per file, so posting again only
+ *   uploads the images that did not make it (and none is left orphaned)
+ *
+ * Image Descriptions:
+ * - Every image has a description field; `imageAlts` always has exactly
+ *   one entry per image, so adding or removing an image keeps the rest
+ *   matched to their descriptions
+ * - Posting with undescribed images first shows a prompt: "Add
+ *   descriptions" moves focus to the first empty field, "Post anyway"
+ *   posts. Descriptions are encouraged, never required
+ *
+ * Focus:
+ * - The `n` shortcut and other links can ask for the composer with
+ *   navigation state { focus: 'composer' } (useFocusRequest)
+ *
+ * Validation:
+ * - validatePostForm checks content length, image count/type/size, tags,
+ *   and that a "Mentioned only" post mentions someone
+ * - The character counter uses POST_MAX_LENGTH, the same constant the
+ *   validator uses, so the two can never disagree
+ *
+ * LEARNING NOTES:
+ * - The composer does not know how posts are saved; the parent passes an
+ *   onSubmit callback (keeps the component reusable and easy to test)
+ * - Drafts are saved a moment after typing stops (usePostDraft) and cleared
+ *   once the post is published
+ */
+
+import {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type FormEvent,
+  type KeyboardEvent,
+  type SyntheticEvent,
+} from 'react'
+import clsx from 'clsx'
+import { useAuth } from '../../hooks/useAuth'
+import { suggestionOptionId, useEntitySuggestions, type EntitySuggestion } from '../../hooks/useEntitySuggestions'
+import { useFocusRequest } from '../../hooks/useFocusRequest'
+import { useFormValidation } from '../../hooks/useFormValidation'
+import { useI18n } from '../../hooks/useI18n'
+import { usePostDraft } from '../../hooks/usePostDraft'
+import {
+  POST_AUDIENCES,
+  POST_MAX_LENGTH,
+  ValidationError,
+  validatePostForm,
+  type FieldErrors,
+} from '../../validation'
+import { uploader } from '../../services'
+import { UploadError } from '../../services/media'
+import type { PostAudience, PostForm } from '../../types'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { resizeImage } from '../../utils/images'
+import { POST_AUDIENCE_HINTS, POST_AUDIENCE_LABELS } from '../../utils/privacy'
+import { applyCompletion, extractHashtags, extractMentions, findActiveEntity } from '../../utils/textEntities'
+import EntitySuggestions from './EntitySuggestions'
+import ImagePreviews from './ImagePreviews'
+
+/**
+ * EMPTY_POST - Initial PostForm values
+ */
+const EMPTY_POST: PostForm = { content: '', images: [], imageAlts: [], audience: 'public' }
+
+/**
+ * DRAFT_SAVE_DELAY_MS - Pause in editing before the draft is written
+ */
+const DRAFT_SAVE_DELAY_MS = 500
+
+const SUGGESTIONS_ID = 'post-composer-suggestions'
+const ALT_ID_PREFIX = 'post-composer-alt'
+
+/**
+ * PostComposer Props
+ * - onSubmit: Saves the post; may throw ValidationError from the service
+ */
+interface PostComposerProps {
+  onSubmit: (form: PostForm) => Promise<void>
+}
+
+/**
+ * PostComposer Component
+ */
+function PostComposer({ onSubmit }: PostComposerProps) {
+  const { user } = useAuth()
+  const { t, formatNumber } = useI18n()
+  const { initialDraft, saveDraft, clearDraft } = usePostDraft(user?.id)
+
+  const [form, setForm] = useState<PostForm>(() => ({
+    ...EMPTY_POST,
+    content: initialDraft.content,
+    audience: initialDraft.audience,
+  }))
+  const [isRestoringImages, setIsRestoringImages] = useState(initialDraft.hasImages)
+  const [isProcessingImages, setIsProcessingImages] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null)
+  const [fileInputKey, setFileInputKey] = useState(0)
+  const [isAltPromptOpen, setIsAltPromptOpen] = useState(false)
+
+  // Autocomplete state: caret position, highlighted option, and the entity
+  // the user dismissed with Escape (so it stays closed until they move on)
+  const [caret, setCaret] = useState<number | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [dismissedEntity, setDismissedEntity] = useState<string | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const pendingCaretRef = useRef<number | null>(null)
+  const uploadAbortRef = useRef<AbortController | null>(null)
+  // Media id of every image already uploaded, kept across attempts
+  const uploadedRef = useRef(new Map<File, string>())
+
+  useFocusRequest('composer', textareaRef)
+
+  const tags = useMemo(() => extractHashtags(form.content), [form.content])
+  const mentions = useMemo(() => extractMentions(form.content), [form.content])
+  const formWithTags = useMemo(() => ({ ...form, tags }), [form, tags])
+  const validation = useFormValidation(formWithTags, validatePostForm)
+
+  const entity = caret === null ? null : findActiveEntity(form.content, caret)
+  const entityKey = entity ? `${entity.start}:${entity.trigger}${entity.query}` : null
+  const suggestions = useEntitySuggestions(entity)
+  const showSuggestions = suggestions.length > 0 && entityKey !== dismissedEntity
+  const highlighted = Math.min(activeIndex, suggestions.length - 1)
+
+  const remaining = POST_MAX_LENGTH - form.content.length
+  const images = form.images ?? []
+  const alts = images.map((_, index) => form.imageAlts?.[index] ?? '')
+  const firstMissingAlt = alts.findIndex((alt) => !alt.trim())
+  const showAltPrompt = isAltPromptOpen && firstMissingAlt !== -1
+
+  // ==========================================================================
+  // DRAFTS
+  // ==========================================================================
+
+  // Images from a saved draft are decoded once, after the first render
+  useEffect(() => {
+    if (!initialDraft.hasImages) return
+    let cancelled = false
+    initialDraft
+      .restoreImages()
+      .then((restored) => {
+        if (cancelled) return
+        setForm((prev) => ({
+          ...prev,
+          images: [...restored, ...(prev.images ?? [])],
+          imageAlts: [...restored.map((_, index) => initialDraft.imageAlts[index] ?? ''), ...(prev.imageAlts ?? [])],
+        }))
+      })
+      .catch(() => {
+        // A corrupt draft image is simply dropped
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoringImages(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [initialDraft])
+
+  // Save shortly after each change; wait for restored images so an early
+  // save cannot overwrite the draft with an image-less copy
+  useEffect(() => {
+    if (isRestoringImages) return
+    const timer = setTimeout(() => void saveDraft(form), DRAFT_SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [form, isRestoringImages, saveDraft])
+
+  // ==========================================================================
+  // AUTOCOMPLETE
+  // ==========================================================================
+
+  // After a suggestion is inserted, move the caret to just after it
+  useLayoutEffect(() => {
+    const position = pendingCaretRef.current
+    if (position === null || !textareaRef.current) return
+    textareaRef.current.setSelectionRange(position, position)
+    pendingCaretRef.current = null
+  }, [form.content])
+
+  const trackCaret = (event: SyntheticEvent<HTMLTextAreaElement>) => {
+    setCaret(event.currentTarget.selectionStart)
+  }
+
+  const handleSelectSuggestion = (suggestion: EntitySuggestion) => {
+    if (!entity) return
+    const next = applyCompletion(form.content, entity, suggestion.value)
+    pendingCaretRef.current = next.caret
+    setForm((prev) => ({ ...prev, content: next.text }))
+    setCaret(next.caret)
+    setActiveIndex(0)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showSuggestions) return
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setActiveIndex((highlighted + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setActiveIndex((highlighted - 1 + suggestions.length) % suggestions.length)
+        break
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault()
+        handleSelectSuggestion(suggestions[highlighted])
+        break
+      case 'Escape':
+        event.preventDefault()
+        setDismissedEntity(entityKey)
+        break
+    }
+  }
+
+  // ==========================================================================
+  // IMAGES
+  // ==========================================================================
+
+  const handleFilesSelected = async (files: File[]) => {
+    if (files.length === 0) return
+    setIsProcessingImages(true)
+    const resized = await Promise.all(files.map((file) => resizeImage(file)))
+    setIsProcessingImages(false)
+    setForm((prev) => ({
+      ...prev,
+      images: [...(prev.images ?? []), ...resized],
+      imageAlts: [...(prev.imageAlts ?? []), ...resized.map(() => '')],
+    }))
+    setFileInputKey((key) => key + 1)
+    validation.handleBlur('images')
+    validation.clearServerError('images')
+  }
+
+  const handleRemoveImage = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      images: (prev.images ?? []).filter((_, i) => i !== index),
+      imageAlts: (prev.imageAlts ?? []).filter((_, i) => i !== index),
+    }))
+    validation.clearServerError('images')
+    validation.clearServerError('imageAlts')
+  }
+
+  const handleAltChange = (index: number, alt: string) => {
+    setForm((prev) => ({
+      ...prev,
+      imageAlts: (prev.images ?? []).map((_, i) => (i === index ? alt : (prev.imageAlts?.[i] ?? ''))),
+    }))
+    validation.clearServerError('imageAlts')
+  }
+
+  const focusMissingAlt = () => {
+    setIsAltPromptOpen(false)
+    document.getElementById(`${ALT_ID_PREFIX}-${firstMissingAlt}`)?.focus()
+  }
+
+  // Leaving the page cancels an upload in progress
+  useEffect(() => () => uploadAbortRef.current?.abort(), [])
+
+  /**
+   * uploadImages - Uploads the attached images, in order
+   *
+   * Resolves to the post to send, with mediaIds instead of files. Any
+   * failure rejects with a ValidationError on `images`.
+   */
+  const uploadImages = async (post: PostForm): Promise<PostForm> => {
+    const files = post.images ?? []
+    if (files.length === 0) return post
+
+    const controller = new AbortController()
+    uploadAbortRef.current = controller
+    const total = files.reduce((sum, file) => sum + file.size, 0)
+    const loaded = files.map(() => 0)
+    setUploadPercent(0)
+    try {
+      const mediaIds: string[] = []
+      for (const [index, file] of files.entries()) {
+        const uploaded = uploadedRef.current.get(file)
+        if (uploaded) {
+          loaded[index] = file.size
+          mediaIds.push(uploaded)
+          continue
+        }
+        const asset = await uploader.upload(file, {
+          purpose: 'post',
+          signal: controller.signal,
+          onProgress: (progress) => {
+            loaded[index] = progress.loaded
+            setUploadPercent(Math.round((loaded.reduce((sum, bytes) => sum + bytes, 0) / total) * 100))
+          },
+        })
+        uploadedRef.current.set(file, asset.id)
+        mediaIds.push(asset.id)
+      }
+      return { ...post, images: [], mediaIds }
+    } catch (err) {
+      if (err instanceof UploadError) {
+        const message = err.code === 'NETWORK' ? t('composer.uploadOffline') : err.message
+        throw new ValidationError({ images: { code: 'invalid_type', message } })
+      }
+      throw err
+    } finally {
+      uploadAbortRef.current = null
+      setUploadPercent(null)
+    }
+  }
+
+  // ==========================================================================
+  // SUBMIT
+  // ==========================================================================
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (isProcessingImages || !validation.validateAll()) return
+    // Ask once about undescribed images; submitting again posts anyway
+    if (firstMissingAlt !== -1 && !isAltPromptOpen) {
+      setIsAltPromptOpen(true)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit(await uploadImages(formWithTags))
+      uploadedRef.current.clear()
+      setForm(EMPTY_POST)
+      setFileInputKey((key) => key + 1)
+      setIsAltPromptOpen(false)
+      clearDraft()
+      validation.reset()
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        validation.setServerErrors(err.errors as FieldErrors<PostForm>)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form className="post-composer" onSubmit={handleSubmit} noValidate>
+      <label className="post-composer__label" htmlFor="post-composer-content">
+        {t('composer.label')}
+      </label>
+      <div className="post-composer__field">
+        <textarea
+          ref={textareaRef}
+          id="post-composer-content"
+          className="post-composer__input"
+          rows={3}
+          value={form.content}
+          onChange={(e) => {
+            setForm((prev) => ({ ...prev, content: e.target.value }))
+            setCaret(e.target.selectionStart)
+            setActiveIndex(0)
+            validation.clearServerError('content')
+            validation.clearServerError('tags')
+            validation.clearServerError('audience')
+          }}
+          onSelect={trackCaret}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            setCaret(null)
+            validation.handleBlur('content')
+            validation.handleBlur('tags')
+          }}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={SUGGESTIONS_ID}
+          aria-activedescendant={showSuggestions ? suggestionOptionId(SUGGESTIONS_ID, highlighted) : undefined}
+          aria-invalid={validation.errors.content || validation.errors.tags ? true : undefined}
+          aria-describedby="post-composer-counter post-composer-errors"
+        />
+        {showSuggestions && (
+          <EntitySuggestions
+            id={SUGGESTIONS_ID}
+            suggestions={suggestions}
+            activeIndex={highlighted}
+            onSelect={handleSelectSuggestion}
+          />
+        )}
+      </div>
+
+      {(tags.length > 0 || mentions.length > 0) && (
+        <p className="post-composer__entities">
+          {tags.map((tag) => (
+            <span key={`#${tag}`} className="post-composer__chip">
+              #{tag}
+            </span>
+          ))}
+          {mentions.map((username) => (
+            <span key={`@${username}`} className="post-composer__chip">
+              @{username}
+            </span>
+          ))}
+        </p>
+      )}
+
+      <ImagePreviews
+        images={images}
+        alts={alts}
+        altIdPrefix={ALT_ID_PREFIX}
+        highlightMissing={showAltPrompt}
+        onRemove={handleRemoveImage}
+        onAltChange={handleAltChange}
+      />
+
+      {showAltPrompt && (
+        <div className="alt-prompt" role="alert">
+          <p className="alt-prompt__text">
+            {t('composer.missingAlts', {
+              count: alts.length,
+              missing: alts.filter((alt) => !alt.trim()).length,
+            })}
+          </p>
+          <div className="alt-prompt__actions">
+            <button type="button" onClick={focusMissingAlt}>
+              {t('composer.addAlts')}
+            </button>
+            <button type="submit" className="alt-prompt__skip" disabled={isSubmitting}>
+              {t('composer.postAnyway')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="post-composer__toolbar">
+        <input
+          key={fileInputKey}
+          type="file"
+          accept="image/*"
+          multiple
+          aria-label={t('composer.attach')}
+          onChange={(e) => void handleFilesSelected(Array.from(e.target.files ?? []))}
+        />
+
+        <label className="post-composer__toggle">
+          {t('composer.audience')}
+          <select
+            value={form.audience}
+            onChange={(e) => {
+              setForm((prev) => ({ ...prev, audience: e.target.value as PostAudience }))
+              validation.handleBlur('audience')
+              validation.clearServerError('audience')
+            }}
+            aria-describedby="post-composer-audience-hint"
+            aria-invalid={validation.errors.audience ? true : undefined}
+          >
+            {POST_AUDIENCES.map((audience) => (
+              <option key={audience} value={audience}>
+                {t(POST_AUDIENCE_LABELS[audience])}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <span
+          id="post-composer-counter"
+          className={clsx('post-composer__counter', remaining < 0 && 'post-composer__counter--over')}
+          aria-label={t('composer.remaining', { count: remaining })}
+        >
+          {formatNumber(remaining)}
+        </span>
+
+        <button type="submit" disabled={isSubmitting || isProcessingImages}>
+          {uploadPercent !== null
+            ? t('composer.uploading')
+            : isSubmitting
+              ? t('composer.posting')
+              : isProcessingImages
+                ? t('composer.optimizing')
+                : t('composer.submit')}
+        </button>
+      </div>
+
+      {uploadPercent !== null && (
+        <progress
+          className="upload-progress"
+          max={100}
+          value={uploadPercent}
+          aria-label={t('composer.uploadingImages')}
+        >
+          {uploadPercent}%
+        </progress>
+      )}
+
+      <p id="post-composer-audience-hint" className="post-composer__hint">
+        {t(POST_AUDIENCE_HINTS[form.audience])}
+      </p>
+
+      <div id="post-composer-errors">
+        {validation.errors.content && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.content, t)}</p>
+        )}
+        {validation.errors.images && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.images, t)}</p>
+        )}
+        {validation.errors.imageAlts && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.imageAlts, t)}</p>
+        )}
+        {validation.errors.tags && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.tags, t)}</p>
+        )}
+        {validation.errors.audience && (
+          <p className="auth-form__field-error">{fieldErrorText(validation.errors.audience, t)}</p>
+        )}
+      </div>
+    </form>
+  )
+}
+
+export default PostComposer
@@ -0,0 +1,87 @@
+/**
+ * ============================================================================
+ * STEP 2.18: PostHistory - Earlier Versions of an Edited Post
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.18 (Edit history)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps, translated)
+ * PURPOSE: List what an edited post said before, newest version first,
+ *          so an edit can never quietly change what people reacted to
+ *
+ * How It Works:
+ * - Revisions are fetched when the list opens (most readers never open
+ *   it, so they are not part of every post)
+ * - The current version is the post itself; the list only holds the
+ *   versions it replaced, each with the time it was written
+ *
+ * Accessibility:
+ * - The list is labelled "Edit history"; a polite status announces
+ *   loading and errors
+ */
+
+import { useEffect, useState } from 'react'
+import { useI18n } from '../../hooks/useI18n'
+import { api } from '../../services'
+import type { PostRevision } from '../../types'
+import { POST_AUDIENCE_LABELS } from '../../utils/privacy'
+import RelativeTime from '../common/RelativeTime'
+import PostText from './PostText'
+
+/**
+ * PostHistory Props
+ * - postId: The edited post
+ * - current: The post's current audience, to flag versions that differ
+ */
+interface PostHistoryProps {
+  postId: string
+  current: PostRevision['audience']
+}
+
+/**
+ * PostHistory Component
+ */
+function PostHistory({ postId, current }: PostHistoryProps) {
+  const { t } = useI18n()
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    api.posts.getRevisions(postId).then((response) => {
+      if (cancelled) return
+      if (response.success && response.data) setRevisions(response.data)
+      else setError(response.error ?? t('history.loadError'))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [postId, t])
+
+  return (
+    <section className="post-history" aria-label={t('history.label')}>
+      <p className="post-history__status" role="status">
+        {error ?? (revisions ? '' : t('history.loading'))}
+      </p>
+      {revisions && revisions.length === 0 && <p className="page__placeholder">{t('history.empty')}</p>}
+      {revisions && revisions.length > 0 && (
+        <ol className="post-history__list">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="post-history__item">
+              <div className="post-history__meta">
+                <RelativeTime date={revision.createdAt} />
+                {revision.audience !== current && <span>· {t(POST_AUDIENCE_LABELS[revision.audience])}</span>}
+              </div>
+              {revision.content ? (
+                <PostText className="post-history__content" text={revision.content} />
+              ) : (
+                <p className="post-history__content page__placeholder">{t('history.noText')}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
+
+export default PostHistory
@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * STEP 2.18: PostShares - Who Reposted and Quoted a Post
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.18 (Reposts and quote posts)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Under a post on its own page: the people who reposted it, and
+ *          the quotes written about it
+ *
+ * How It Works:
+ * - One request for the newest SHARES_LIMIT shares (reposts and quotes
+ *   together); the server leaves out those the viewer may not see
+ * - Reposts are listed as names (they add nothing but the person); quotes
+ *   are full PostCards, since each is a post of its own
+ *
+ * LEARNING NOTES:
+ * - PostPage re-mounts this list (via `key`) whenever the share count
+ *   changes, so reposting from the card above shows up here at once
+ */
+
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import { profilePath } from '../../routes/paths'
+import { api } from '../../services'
+import type { Post } from '../../types'
+import { postAuthorIds, sharedPostOf } from '../../utils/posts'
+import PostCard from './PostCard'
+
+const SHARES_LIMIT = 50
+
+/**
+ * PostShares Props
+ * - postId: The original post
+ */
+interface PostSharesProps {
+  postId: string
+}
+
+/**
+ * PostShares Component
+ */
+function PostShares({ postId }: PostSharesProps) {
+  const { t, tRich } = useI18n()
+  const [shares, setShares] = useState<Post[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    api.posts.listShares(postId, { limit: SHARES_LIMIT }).then((response) => {
+      if (cancelled) return
+      if (response.success && response.data) setShares(response.data.data)
+      else setError(response.error ?? t('shares.loadError'))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [postId, t])
+
+  const users = useUsersById(postAuthorIds(shares ?? []))
+  const reposts = shares?.filter((share) => share.repostOf) ?? []
+  const quotes = shares?.filter((share) => share.quoteOf) ?? []
+
+  if (error) {
+    return (
+      <p className="auth-form__error" role="alert">
+        {error}
+      </p>
+    )
+  }
+  if (!shares || shares.length === 0) return null
+
+  return (
+    <section className="post-shares" aria-labelledby={`post-shares-${postId}`}>
+      <h2 id={`post-shares-${postId}`} className="post-shares__title">
+        {t('shares.title')}
+      </h2>
+      {reposts.length > 0 && (
+        <p className="post-shares__reposters">
+          {tRich('shares.repostedBy', {
+            names: reposts.map((share, index) => {
+              const user = users[share.authorId]
+              return (
+                <span key={share.id}>
+                  {index > 0 && t('shares.separator')}
+                  {user ? <Link to={profilePath(user.username)}>@{user.username}</Link> : '…'}
+                </span>
+              )
+            }),
+          })}
+        </p>
+      )}
+      {quotes.length > 0 && (
+        <ol className="feed__list">
+          {quotes.map((quote) => (
+            <li key={quote.id}>
+              <PostCard
+                post={quote}
+                author={users[quote.authorId]}
+                sharedAuthor={users[sharedPostOf(quote)?.authorId ?? '']}
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
+
+export default PostShares
@@ -0,0 +1,57 @@
+/**
+ * ============================================================================
+ * STEP 2.6: PostText - Post Content with Linked #tags and @mentions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.19 (hashtags open their tag page)
+ * PURPOSE: Render user text safely, turning entities into links
+ *
+ * Security Note:
+ * - Text is split into segments and rendered as React children, which
+ *   React escapes. We never build an HTML string, so a post containing
+ *   "<script>" is shown as text, not executed.
+ */
+
+import { Fragment } from 'react'
+import { Link } from 'react-router-dom'
+import { profilePath, tagPath } from '../../routes/paths'
+import { segmentText } from '../../utils/textEntities'
+
+/**
+ * PostText Props
+ */
+interface PostTextProps {
+  text: string
+  className?: string
+}
+
+/**
+ * PostText Component
+ */
+function PostText({ text, className }: PostTextProps) {
+  return (
+    <p className={className}>
+      {segmentText(text).map((segment, index) => {
+        switch (segment.type) {
+          case 'hashtag':
+            return (
+              <Link key={index} className="entity-link" to={tagPath(segment.tag)}>
+                {segment.text}
+              </Link>
+            )
+          case 'mention':
+            return (
+              <Link key={index} className="entity-link" to={profilePath(segment.username)}>
+                {segment.text}
+              </Link>
+            )
+          default:
+            return <Fragment key={index}>{segment.text}</Fragment>
+        }
+      })}
+    </p>
+  )
+}
+
+export default PostText
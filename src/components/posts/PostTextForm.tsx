@@ -0,0 +1,125 @@
+/**
+ * ============================================================================
+ * STEP 2.18: PostTextForm - Edit a Post or Write a Quote
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.18 (Reposts, quote posts, edit history)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: A small text box shown inside a PostCard, for the two things
+ *          that only need text: editing the post and quoting it
+ *
+ * Why Not the Composer:
+ * - PostComposer also handles images, audience and drafts; an edit keeps
+ *   the images and audience it has, and a quote is always public-facing
+ *   text about the post it embeds
+ *
+ * LEARNING NOTES:
+ * - Same pattern as CommentForm: the parent decides the label and what
+ *   submitting does; onSubmit may throw ValidationError (e.g. the edit
+ *   window closed while the box was open)
+ */
+
+import { useId, useState, type FormEvent } from 'react'
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { POST_MAX_LENGTH, ValidationError, validatePostContent } from '../../validation'
+
+/**
+ * PostTextForm Props
+ * - label: Visible label ("Edit post", "Quote Alice's post")
+ * - allowEmpty: An edit of a post with images may clear the text
+ */
+interface PostTextFormProps {
+  label: string
+  submitLabel: string
+  initialContent?: string
+  allowEmpty?: boolean
+  onSubmit: (content: string) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * PostTextForm Component
+ */
+function PostTextForm({
+  label,
+  submitLabel,
+  initialContent = '',
+  allowEmpty = false,
+  onSubmit,
+  onCancel,
+}: PostTextFormProps) {
+  const { t, formatNumber } = useI18n()
+  const [content, setContent] = useState(initialContent)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const id = useId()
+
+  const remaining = POST_MAX_LENGTH - content.length
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const fieldError = validatePostContent(content, allowEmpty)
+    if (fieldError) {
+      setError(fieldErrorText(fieldError, t))
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit(content)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        const [firstError] = Object.values(err.errors)
+        setError(firstError ? fieldErrorText(firstError, t) : t('postForm.checkText'))
+      } else {
+        setError(err instanceof Error ? err.message : t('postForm.saveError'))
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form className="comment-form post-text-form" onSubmit={handleSubmit} noValidate>
+      <label className="comment-form__label" htmlFor={`${id}-content`}>
+        {label}
+      </label>
+      <textarea
+        id={`${id}-content`}
+        className="comment-form__input"
+        rows={3}
+        autoFocus
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value)
+          setError(null)
+        }}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={`${id}-error`}
+      />
+      <div className="comment-form__toolbar">
+        <span className={clsx('comment-form__counter', remaining < 0 && 'post-composer__counter--over')}>
+          {formatNumber(remaining)}
+        </span>
+        <button type="button" onClick={onCancel}>
+          {t('postForm.cancel')}
+        </button>
+        <button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? t('common.saving') : submitLabel}
+        </button>
+      </div>
+      <div id={`${id}-error`}>
+        {error && (
+          <p className="auth-form__field-error" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </form>
+  )
+}
+
+export default PostTextForm
@@ -0,0 +1,91 @@
+/**
+ * ============================================================================
+ * STEP 2.18: QuotedPost - The Post a Quote Is About
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.18 (Quote posts)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions)
+ * PURPOSE: A compact, linked copy of the quoted post inside the quote
+ *
+ * What It Shows:
+ * - available: author, time, text and images, linking to the original
+ * - deleted: "The original post was removed." (the quote stays; its author
+ *   wrote something of their own)
+ * - unavailable: The viewer may not see the original (private, blocked,
+ *   moderated)
+ * - Not embedded: the server embeds one level only, so a quote shown inside
+ *   a repost or a quote just links to what it quotes
+ *
+ * Accessibility:
+ * - A <blockquote> with a `cite` pointing at the original; the "Open"
+ *   link is named after the author so screen readers hear whose post it is
+ */
+
+import { Link } from 'react-router-dom'
+import { useI18n } from '../../hooks/useI18n'
+import { postPath } from '../../routes/paths'
+import type { SharedPost, User } from '../../types'
+import RelativeTime from '../common/RelativeTime'
+import Gallery from '../media/Gallery'
+import PostText from './PostText'
+
+/**
+ * QuotedPost Props
+ * - quoteOf: The quoted post's ID (always known, even when not embedded)
+ * - shared: What the server sent about it, if anything
+ * - author: The quoted post's author, once loaded
+ */
+interface QuotedPostProps {
+  quoteOf: string
+  shared?: SharedPost
+  author?: User
+}
+
+/**
+ * QuotedPost Component
+ */
+function QuotedPost({ quoteOf, shared, author }: QuotedPostProps) {
+  const { t } = useI18n()
+  if (!shared) {
+    return (
+      <Link className="quoted-post quoted-post--link" to={postPath(quoteOf)}>
+        {t('quoted.show')}
+      </Link>
+    )
+  }
+  if (shared.status !== 'available') {
+    return (
+      <p className="quoted-post quoted-post--missing">
+        {shared.status === 'deleted' ? t('post.originalRemoved') : t('post.unavailable')}
+      </p>
+    )
+  }
+
+  const { post } = shared
+  const name = author ? `${author.firstName} ${author.lastName}` : null
+  return (
+    <blockquote className="quoted-post" cite={postPath(post.id)}>
+      <div className="quoted-post__header">
+        <strong>{name ?? t('common.loading')}</strong>
+        {author && <span className="post-card__handle">@{author.username}</span>}
+        <RelativeTime date={post.createdAt} />
+      </div>
+      {post.content && <PostText className="quoted-post__content" text={post.content} />}
+      {post.images && (
+        <Gallery
+          images={post.images}
+          media={post.media}
+          alts={post.imageAlts}
+          label={name ? t('post.imagesOf', { name }) : t('post.images')}
+        />
+      )}
+      <Link className="quoted-post__open" to={postPath(post.id)}>
+        {name ? t('quoted.openOf', { name }) : t('quoted.open')}
+      </Link>
+    </blockquote>
+  )
+}
+
+export default QuotedPost
@@ -0,0 +1,266 @@
+/**
+ * ============================================================================
+ * STEP 2.13: ProfileEditForm - Edit Your Own Profile
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.13 (Profile pages)
+ * UPDATED: Feature Phase - Step 2.17 (photos are uploaded)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Names, username, bio, location, website, avatar and cover photo
+ *
+ * Flow:
+ * 1. Fields start from the current profile (toProfileForm)
+ * 2. Choosing a photo opens ImageCropper in place of that field; the crop
+ *    is uploaded (services/media, purpose 'avatar' or 'cover') and its URL
+ *    goes in the form. Saving waits until the upload finishes
+ * 3. Submit validates on the client, then sends ONLY the changed fields
+ *    (profileChanges) through useAuth().updateProfile
+ * 4. The backend validates again (uniqueness of the username, protected
+ *    fields, photos that are not the user's uploads); its ValidationError
+ *    lands on the same inputs
+ *
+ * LEARNING NOTES:
+ * - validateForm is declared at module level so its identity is stable,
+ *   as useFormValidation expects
+ * - Username uniqueness can only be checked by the backend, which is why
+ *   server errors are merged into the client ones
+ */
+
+import { useId, useState, type ChangeEvent, type FormEvent } from 'react'
+import TextField from '../common/TextField'
+import { useAuth } from '../../hooks/useAuth'
+import { useFormValidation } from '../../hooks/useFormValidation'
+import { useI18n } from '../../hooks/useI18n'
+import { uploader } from '../../services'
+import type { ProfileForm, User } from '../../types'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { PROFILE_PHOTOS, profileChanges, toProfileForm } from '../../utils/profile'
+import {
+  BIO_MAX_LENGTH,
+  IMAGE_MIME_TYPES,
+  ValidationError,
+  validateMediaFile,
+  validateProfileForm,
+  type FieldErrors,
+} from '../../validation'
+import ImageCropper from './ImageCropper'
+
+const validateForm = (form: ProfileForm) => validateProfileForm(form)
+
+/**
+ * IMAGE_FIELDS - Shape and size of each croppable image
+ */
+const IMAGE_FIELDS = {
+  avatar: { label: 'profileEdit.avatar', aspect: 1, outputWidth: 400 },
+  coverImage: { label: 'profileEdit.cover', aspect: 3, outputWidth: 1500 },
+} as const
+
+type ImageField = keyof typeof IMAGE_FIELDS
+
+/**
+ * ProfileEditForm Props
+ * - user: The signed-in user (whose profile is being edited)
+ * - onDone: Called after saving (with the saved username) or cancelling
+ */
+interface ProfileEditFormProps {
+  user: User
+  onDone: (username?: string) => void
+}
+
+/**
+ * ProfileEditForm Component
+ */
+function ProfileEditForm({ user, onDone }: ProfileEditFormProps) {
+  const { updateProfile } = useAuth()
+  const { t, formatNumber } = useI18n()
+  const [form, setForm] = useState<ProfileForm>(() => toProfileForm(user))
+  const [cropping, setCropping] = useState<{ field: ImageField; file: File } | null>(null)
+  const [uploading, setUploading] = useState<ImageField | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const validation = useFormValidation(form, validateForm)
+  const bioErrorId = useId()
+
+  const setField = (field: keyof ProfileForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+    validation.clearServerError(field)
+  }
+
+  /**
+   * fieldProps - Wires one text field to its input
+   */
+  const fieldProps = (field: keyof ProfileForm) => ({
+    value: form[field],
+    onChange: (event: ChangeEvent<HTMLInputElement>) => setField(field, event.target.value),
+    onBlur: () => validation.handleBlur(field),
+    error: validation.errors[field],
+  })
+
+  /**
+   * uploadPhoto - Uploads a cropped photo and puts its URL in the form
+   */
+  const uploadPhoto = async (field: ImageField, image: File) => {
+    const purpose = PROFILE_PHOTOS[field]
+    const fileError = validateMediaFile(image, purpose)
+    if (fileError) {
+      validation.setServerErrors({ [field]: fileError })
+      return
+    }
+    setUploading(field)
+    try {
+      const asset = await uploader.upload(image, { purpose })
+      setField(field, asset.url)
+    } catch (err) {
+      validation.setServerErrors({ [field]: { code: 'invalid_type', message: (err as Error).message } })
+    } finally {
+      setUploading(null)
+    }
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    const changes = profileChanges(user, form)
+    if (Object.keys(changes).length === 0) {
+      onDone()
+      return
+    }
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      await updateProfile(changes)
+      onDone(changes.username)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        validation.setServerErrors(err.errors as FieldErrors<ProfileForm>)
+      } else {
+        setSaveError((err as Error).message)
+      }
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * renderImageField - Preview, "Change" (file picker) and "Remove"
+   */
+  const renderImageField = (field: ImageField) => {
+    const { aspect, outputWidth } = IMAGE_FIELDS[field]
+    const label = t(IMAGE_FIELDS[field].label)
+    if (cropping?.field === field) {
+      return (
+        <ImageCropper
+          file={cropping.file}
+          aspect={aspect}
+          outputWidth={outputWidth}
+          label={label}
+          onCancel={() => setCropping(null)}
+          onCrop={(image) => {
+            setCropping(null)
+            void uploadPhoto(field, image)
+          }}
+        />
+      )
+    }
+    const error = validation.errors[field]
+    return (
+      <div className={`profile-edit__image profile-edit__image--${field}`}>
+        {uploading === field ? (
+          <span className="profile-edit__image-preview profile-edit__image-preview--empty" role="status">
+            {t('profileEdit.uploading', { label })}
+          </span>
+        ) : form[field] ? (
+          <img className="profile-edit__image-preview" src={form[field]} alt={t('profileEdit.current', { label })} />
+        ) : (
+          <span className="profile-edit__image-preview profile-edit__image-preview--empty">
+            {t('profileEdit.none', { label })}
+          </span>
+        )}
+        <label className="profile-edit__image-pick">
+          {t('profileEdit.change', { label })}
+          <input
+            type="file"
+            disabled={uploading !== null}
+            accept={IMAGE_MIME_TYPES.join(',')}
+            className="visually-hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              event.target.value = ''
+              if (file) setCropping({ field, file })
+            }}
+          />
+        </label>
+        {form[field] && (
+          <button type="button" onClick={() => setField(field, '')} disabled={uploading === field}>
+            {t('profileEdit.remove')}
+          </button>
+        )}
+        {error && <span className="auth-form__field-error">{fieldErrorText(error, t)}</span>}
+      </div>
+    )
+  }
+
+  return (
+    <form className="auth-form profile-edit" onSubmit={handleSubmit} noValidate aria-labelledby="profile-edit-heading">
+      <h2 id="profile-edit-heading" className="profile-edit__title">
+        {t('profile.edit')}
+      </h2>
+
+      {renderImageField('coverImage')}
+      {renderImageField('avatar')}
+
+      <div className="auth-form__row">
+        <TextField label={t('fields.firstName')} autoComplete="given-name" {...fieldProps('firstName')} />
+        <TextField label={t('fields.lastName')} autoComplete="family-name" {...fieldProps('lastName')} />
+      </div>
+      <TextField label={t('fields.username')} autoComplete="username" {...fieldProps('username')} />
+
+      <label className="auth-form__field">
+        <span>{t('profileEdit.bio')}</span>
+        <textarea
+          rows={3}
+          value={form.bio}
+          maxLength={BIO_MAX_LENGTH * 2}
+          aria-invalid={validation.errors.bio ? true : undefined}
+          aria-describedby={validation.errors.bio ? bioErrorId : undefined}
+          onChange={(event) => setField('bio', event.target.value)}
+          onBlur={() => validation.handleBlur('bio')}
+        />
+        <span className="profile-edit__counter">
+          {formatNumber(form.bio.trim().length)}/{formatNumber(BIO_MAX_LENGTH)}
+        </span>
+        {validation.errors.bio && (
+          <span id={bioErrorId} className="auth-form__field-error">
+            {fieldErrorText(validation.errors.bio, t)}
+          </span>
+        )}
+      </label>
+
+      <TextField label={t('profileEdit.location')} autoComplete="address-level2" {...fieldProps('location')} />
+      <TextField
+        label={t('profileEdit.website')}
+        type="url"
+        inputMode="url"
+        placeholder="https://"
+        {...fieldProps('website')}
+      />
+
+      {saveError && (
+        <p className="auth-form__error" role="alert">
+          {saveError}
+        </p>
+      )}
+
+      <div className="profile-edit__actions">
+        <button type="button" onClick={() => onDone()} disabled={isSaving}>
+          {t('profileEdit.cancel')}
+        </button>
+        <button type="submit" disabled={isSaving || cropping !== null || uploading !== null}>
+          {isSaving ? t('common.saving') : t('profileEdit.save')}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default ProfileEditForm
@@ -0,0 +1,222 @@
+/**
+ * ============================================================================
+ * STEP 2.13: ProfileHeader - Cover, Avatar, Bio and Stats
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.13 (Profile pages)
+ * UPDATED: Feature Phase - Step 2.14 (private badge, follow requests, block/mute)
+ * UPDATED: Feature Phase - Step 2.15 (report the account)
+ * UPDATED: Feature Phase - Step 2.12 (counts from the server, not follow lists)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: The top of a profile page
+ *
+ * Layout:
+ * - Cover photo (or a plain band), with the avatar overlapping its edge
+ * - Name with verified / private badges, @username and a "Follows you" tag
+ * - Bio, location, website and join date
+ * - Posts / followers / following counts
+ * - Follow button, or "Edit profile" on the viewer's own profile
+ * - Mute, Block (asking first) and Report; a blocked user only offers Unblock
+ * - "Followed by …" (people the viewer follows who follow this user)
+ *
+ * LEARNING NOTES:
+ * - Counts come from FollowStatus when it has loaded (falling back to the
+ *   User's own counts), so they update from the FollowButton's response
+ *   straight away
+ * - External links get rel="noopener noreferrer nofollow": the opened page
+ *   cannot reach back into this tab, learns nothing about where the visitor
+ *   came from, and search engines do not treat the link as an endorsement
+ */
+
+import { useEffect, useState } from 'react'
+import { BadgeCheck, CalendarDays, Link as LinkIcon, Lock, MapPin } from 'lucide-react'
+import ReportButton from '../moderation/ReportButton'
+import FollowButton from '../users/FollowButton'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import { api } from '../../services'
+import type { ApiResponse, FollowStatus, User } from '../../types'
+import { mutualsLabel } from '../../utils/follows'
+
+const MUTUALS_SHOWN = 2
+
+/**
+ * ProfileHeader Props
+ * - user: Whose profile this is
+ * - status: Follow counts and relationship to the viewer (null if unknown)
+ * - postCount: Number of posts they have written
+ * - isOwnProfile: Show "Edit profile" instead of the follow button
+ */
+interface ProfileHeaderProps {
+  user: User
+  status: FollowStatus | null
+  postCount: number
+  isOwnProfile: boolean
+  onEdit: () => void
+  onStatusChange: (status: FollowStatus) => void
+}
+
+/**
+ * websiteLabel - A website without its scheme or trailing slash
+ */
+function websiteLabel(url: string): string {
+  return url.replace(/^https?:\/\//, '').replace(/\/$/, '')
+}
+
+/**
+ * ProfileHeader Component
+ */
+function ProfileHeader({ user, status, postCount, isOwnProfile, onEdit, onStatusChange }: ProfileHeaderProps) {
+  const { locale, t, formatNumber } = useI18n()
+  const [mutuals, setMutuals] = useState<{ ids: string[]; total: number }>({ ids: [], total: 0 })
+  const mutualUsers = useUsersById(mutuals.ids)
+  const followersCount = status?.followersCount ?? user.followersCount
+  const followingCount = status?.followingCount ?? user.followingCount
+
+  const [isChanging, setIsChanging] = useState(false)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOwnProfile) return
+    let cancelled = false
+    api.users.listMutuals(user.id, { limit: MUTUALS_SHOWN }).then((response) => {
+      if (cancelled || !response.success || !response.data) return
+      setMutuals({ ids: response.data.data.map((mutual) => mutual.id), total: response.data.pagination.total })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [user.id, isOwnProfile])
+
+  /** Runs a block/mute change and hands the new status to the page */
+  const changeRelationship = async (change: (userId: string) => Promise<ApiResponse<FollowStatus>>) => {
+    setIsChanging(true)
+    setActionError(null)
+    const response = await change(user.id)
+    setIsChanging(false)
+    if (response.success && response.data) onStatusChange(response.data)
+    else setActionError(response.error ?? t('profile.actionError'))
+  }
+
+  const handleBlock = () => {
+    const question = t('profile.blockConfirm', { username: user.username })
+    if (window.confirm(question)) void changeRelationship(api.users.blockUser)
+  }
+
+  const joined = user.createdAt.toLocaleDateString(locale, { month: 'long', year: 'numeric' })
+  const mutualsText = isOwnProfile ? '' : mutualsLabel(mutuals.ids, mutuals.total, mutualUsers, t)
+
+  return (
+    <header className="profile-header">
+      <div className="profile-header__cover">
+        {user.coverImage && <img src={user.coverImage} alt="" />}
+      </div>
+
+      <div className="profile-header__top">
+        {user.avatar ? (
+          <img className="profile-header__avatar" src={user.avatar} alt="" />
+        ) : (
+          <span className="profile-header__avatar" aria-hidden="true">
+            {user.firstName.charAt(0).toUpperCase()}
+          </span>
+        )}
+        <div className="profile-header__actions">
+          {isOwnProfile ? (
+            <button type="button" onClick={onEdit}>
+              {t('profile.edit')}
+            </button>
+          ) : status?.isBlocking ? (
+            <button type="button" disabled={isChanging} onClick={() => void changeRelationship(api.users.unblockUser)}>
+              {t('profile.unblock')}
+            </button>
+          ) : (
+            status && (
+              <>
+                <FollowButton
+                  key={`${status.userId}:${status.isFollowing}:${status.isRequested}`}
+                  userId={user.id}
+                  isFollowing={status.isFollowing}
+                  isRequested={status.isRequested}
+                  name={user.firstName}
+                  onChange={onStatusChange}
+                />
+                <button
+                  type="button"
+                  disabled={isChanging}
+                  aria-pressed={status.isMuting}
+                  onClick={() => void changeRelationship(status.isMuting ? api.users.unmuteUser : api.users.muteUser)}
+                >
+                  {status.isMuting ? t('profile.unmute') : t('profile.mute')}
+                </button>
+                <button type="button" disabled={isChanging} onClick={handleBlock}>
+                  {t('profile.block')}
+                </button>
+                <ReportButton targetType="user" targetId={user.id} authorId={user.id} />
+              </>
+            )
+          )}
+        </div>
+      </div>
+
+      <h1 id="profile-heading" className="profile-header__name">
+        {user.firstName} {user.lastName}
+        {user.isVerified && (
+          <BadgeCheck size={20} aria-label={t('profile.verified')} className="profile-header__verified" />
+        )}
+        {user.isPrivate && (
+          <Lock size={18} aria-label={t('profile.privateAccount')} className="profile-header__private" />
+        )}
+      </h1>
+      <p className="profile-header__handle">
+        @{user.username}
+        {status?.followsYou && <span className="profile-header__follows-you">{t('profile.followsYou')}</span>}
+      </p>
+
+      {actionError && (
+        <p className="feed__error" role="alert">
+          {actionError}
+        </p>
+      )}
+
+      {user.bio && <p className="profile-header__bio">{user.bio}</p>}
+
+      <ul className="profile-header__meta">
+        {user.location && (
+          <li>
+            <MapPin size={16} aria-hidden="true" /> {user.location}
+          </li>
+        )}
+        {user.website && (
+          <li>
+            <LinkIcon size={16} aria-hidden="true" />{' '}
+            <a href={user.website} target="_blank" rel="noopener noreferrer nofollow">
+              {websiteLabel(user.website)}
+            </a>
+          </li>
+        )}
+        <li>
+          <CalendarDays size={16} aria-hidden="true" /> {t('profile.joined', { date: joined })}
+        </li>
+      </ul>
+
+      <dl className="profile-header__stats">
+        <div>
+          <dt>{t('profile.postCount', { count: postCount })}</dt>
+          <dd>{formatNumber(postCount)}</dd>
+        </div>
+        <div>
+          <dt>{t('profile.followerCount', { count: followersCount })}</dt>
+          <dd>{formatNumber(followersCount)}</dd>
+        </div>
+        <div>
+          <dt>{t('profile.following')}</dt>
+          <dd>{formatNumber(followingCount)}</dd>
+        </div>
+      </dl>
+
+      {mutualsText && <p className="profile-header__mutuals">{mutualsText}</p>}
+    </header>
+  )
+}
+
+export default ProfileHeader
@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * STEP 2.11: UserResult - A Person in the Search Results
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.11 (Search)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Avatar, name, @username, follower count and bio, with the words
+ *          that matched the search marked
+ *
+ * Accessibility:
+ * - <mark> is announced as highlighted text by most screen readers, and
+ *   stays visible in forced-colors (high contrast) mode
+ * - The whole name is one link to the profile, so the row has a single
+ *   tab stop
+ */
+
+import { Link } from 'react-router-dom'
+import { BadgeCheck } from 'lucide-react'
+import { useI18n } from '../../hooks/useI18n'
+import { profilePath } from '../../routes/paths'
+import type { User } from '../../types'
+import { highlightMatches } from '../../utils/search'
+
+/**
+ * Highlighted - Text with matched words wrapped in <mark>
+ */
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightMatches(text, terms).map((segment, index) =>
+        segment.isMatch ? <mark key={index}>{segment.text}</mark> : segment.text,
+      )}
+    </>
+  )
+}
+
+/**
+ * UserResult Props
+ * - user: The matching user
+ * - matches: Index terms that matched (SearchResult.matches)
+ */
+interface UserResultProps {
+  user: User
+  matches: string[]
+}
+
+/**
+ * UserResult Component
+ */
+function UserResult({ user, matches }: UserResultProps) {
+  const { t } = useI18n()
+
+  return (
+    <article className="user-result">
+      {user.avatar ? (
+        <img className="user-result__avatar" src={user.avatar} alt="" />
+      ) : (
+        <span className="user-result__avatar" aria-hidden="true">
+          {user.firstName.charAt(0).toUpperCase()}
+        </span>
+      )}
+      <div className="user-result__body">
+        <Link className="user-result__name" to={profilePath(user.username)}>
+          <strong>
+            <Highlighted text={`${user.firstName} ${user.lastName}`} terms={matches} />
+          </strong>
+          {user.isVerified && (
+            <BadgeCheck size={16} aria-label={t('profile.verified')} className="user-result__verified" />
+          )}{' '}
+          <span className="user-result__handle">
+            <Highlighted text={`@${user.username}`} terms={matches} />
+          </span>
+        </Link>
+        <p className="user-result__meta">{t('tag.followers', { count: user.followersCount })}</p>
+        {user.bio && (
+          <p className="user-result__bio">
+            <Highlighted text={user.bio} terms={matches} />
+          </p>
+        )}
+      </div>
+    </article>
+  )
+}
+
+export default UserResult
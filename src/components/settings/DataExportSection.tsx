@@ -0,0 +1,202 @@
+/**
+ * ============================================================================
+ * STEP 2.23: DataExportSection - Download or Import an Account Archive
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.23 (Data export and import)
+ * UPDATED: Feature Phase - Step 2.17 (profile photos are not restored)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Let the user take their data with them, and bring an archive
+ *          into a new account
+ *
+ * Behaviour:
+ * - "Download archive" saves the JSON archive (everything, files
+ *   included); "Download readable copy" saves the same data as one HTML
+ *   page; the schema link saves the archive's JSON Schema
+ * - Importing reads a chosen .json file, checks its format and version
+ *   before sending it, and shows what was restored and what was not
+ * - The archived profile (names, bio, privacy) is applied through
+ *   updateProfile afterwards; username and email stay. The photos do
+ *   not: a profile photo must be an upload of the new account, so the
+ *   user chooses them again
+ *
+ * LEARNING NOTES:
+ * - Files are saved with a temporary object URL on an <a download>
+ *   link, the usual way to start a download of data made in the page
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import type { Locale, Translate } from '../../i18n'
+import { api } from '../../services'
+import type { AccountArchive, ArchiveImportSummary, User } from '../../types'
+import { ARCHIVE_SCHEMA, ARCHIVE_VERSION, archiveFileName, archiveHeaderError } from '../../utils/archive'
+import { renderArchiveHtml } from '../../utils/archiveHtml'
+import { parseJson } from '../../utils/serialization'
+
+/** Profile fields an import restores (not username or email) */
+const RESTORED_PROFILE_FIELDS = ['firstName', 'lastName', 'bio', 'location', 'website', 'isPrivate'] as const
+
+/**
+ * saveFile - Starts a download of `content` named `fileName`
+ */
+function saveFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoked on the next tick: the click has started the download by then
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+/**
+ * describeCounts - "3 posts and 1 conversation" (kinds at zero left out)
+ */
+function describeCounts(counts: ArchiveImportSummary['imported'], t: Translate, locale: Locale): string {
+  const parts = [
+    [counts.posts, 'dataExport.posts'],
+    [counts.comments, 'dataExport.comments'],
+    [counts.conversations, 'dataExport.conversations'],
+    [counts.messages, 'dataExport.messages'],
+    [counts.following, 'dataExport.follows'],
+    [counts.files, 'dataExport.files'],
+  ] as const
+  const shown = parts.filter(([count]) => count > 0).map(([count, key]) => t(key, { count }))
+  return shown.length > 0 ? new Intl.ListFormat(locale).format(shown) : t('dataExport.nothing')
+}
+
+/**
+ * DataExportSection Component
+ */
+function DataExportSection() {
+  const { updateProfile } = useAuth()
+  const { locale, t } = useI18n()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState<'json' | 'html' | 'import' | null>(null)
+  const [summary, setSummary] = useState<ArchiveImportSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * download - Fetches a fresh archive and saves it in one of the two forms
+   */
+  const download = async (kind: 'json' | 'html') => {
+    setBusy(kind)
+    setError(null)
+    const response = await api.archive.exportArchive()
+    setBusy(null)
+    if (!response.success || !response.data) {
+      setError(response.error ?? t('dataExport.exportError'))
+      return
+    }
+    const archive = response.data
+    if (kind === 'json') {
+      saveFile(archiveFileName(archive, 'json'), JSON.stringify(archive, null, 2), 'application/json')
+    } else {
+      saveFile(archiveFileName(archive, 'html'), renderArchiveHtml(archive), 'text/html')
+    }
+  }
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setError(null)
+    setSummary(null)
+    let archive: AccountArchive
+    try {
+      archive = parseJson<AccountArchive>(await file.text())
+    } catch {
+      setError(t('dataExport.notArchive'))
+      return
+    }
+    const headerError = archiveHeaderError(archive)
+    if (headerError) {
+      setError(headerError)
+      return
+    }
+
+    setBusy('import')
+    const response = await api.archive.importArchive(archive)
+    if (!response.success || !response.data) {
+      setBusy(null)
+      setError(response.error ?? t('dataExport.importError'))
+      return
+    }
+    const profile: Partial<User> = Object.fromEntries(
+      RESTORED_PROFILE_FIELDS.filter((field) => archive.profile[field] !== undefined).map((field) => [
+        field,
+        archive.profile[field],
+      ]),
+    )
+    try {
+      await updateProfile(profile)
+    } catch {
+      setError(t('dataExport.profileError'))
+    }
+    setBusy(null)
+    setSummary(response.data)
+  }
+
+  const downloadSchema = () => {
+    saveFile(
+      `hybrid-social-archive-schema-v${ARCHIVE_VERSION}.json`,
+      JSON.stringify(ARCHIVE_SCHEMA, null, 2),
+      'application/schema+json',
+    )
+  }
+
+  return (
+    <section className="account-section data-export" aria-labelledby="data-export-heading">
+      <h2 id="data-export-heading" className="account-section__title">
+        {t('dataExport.title')}
+      </h2>
+      <p className="account-section__hint">{t('dataExport.hint')}</p>
+      <div className="data-export__actions">
+        <button type="button" disabled={busy !== null} onClick={() => void download('json')}>
+          {busy === 'json' ? t('dataExport.preparing') : t('dataExport.downloadJson')}
+        </button>
+        <button type="button" disabled={busy !== null} onClick={() => void download('html')}>
+          {busy === 'html' ? t('dataExport.preparing') : t('dataExport.downloadHtml')}
+        </button>
+        <button type="button" className="data-export__link" onClick={downloadSchema}>
+          {t('dataExport.schema', { version: ARCHIVE_VERSION })}
+        </button>
+      </div>
+
+      <h3 className="data-export__subtitle">{t('dataExport.importTitle')}</h3>
+      <p className="account-section__hint">{t('dataExport.importHint')}</p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="data-export__file"
+        aria-label={t('dataExport.file')}
+        onChange={(event) => void handleImport(event)}
+      />
+      <button type="button" disabled={busy !== null} onClick={() => fileInputRef.current?.click()}>
+        {busy === 'import' ? t('dataExport.importing') : t('dataExport.choose')}
+      </button>
+
+      <div role="status" aria-live="polite">
+        {summary && (
+          <p className="account-section__hint">
+            {t('dataExport.imported', { counts: describeCounts(summary.imported, t, locale) })}
+            {Object.values(summary.skipped).some((count) => count > 0) &&
+              ` ${t('dataExport.skipped', { counts: describeCounts(summary.skipped, t, locale) })}`}
+            {summary.renamedIds > 0 && ` ${t('dataExport.renamed', { count: summary.renamedIds })}`}
+          </p>
+        )}
+      </div>
+      {error && (
+        <p className="auth-form__error" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  )
+}
+
+export default DataExportSection
@@ -0,0 +1,96 @@
+/**
+ * ============================================================================
+ * STEP 2.22: DeleteAccountSection - Delete the Account for Good
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Let the signed-in user delete their account
+ *
+ * What Is Deleted (services/mock/accounts.ts):
+ * - Posts, messages, follows, likes, uploads and settings; comments
+ *   other people replied to stay as "[deleted]" so the threads hold
+ *   together
+ *
+ * Behaviour:
+ * - Asks for the password and a final confirmation; there is no undo
+ * - Afterwards this browser is signed out; ProtectedRoute sends it to
+ *   the login page
+ */
+
+import { useState, type FormEvent } from 'react'
+import TextField from '../common/TextField'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { ValidationError, type FieldError } from '../../validation'
+
+/**
+ * DeleteAccountSection Component
+ */
+function DeleteAccountSection() {
+  const { user, deleteAccount } = useAuth()
+  const { t } = useI18n()
+  const [password, setPassword] = useState('')
+  const [passwordError, setPasswordError] = useState<FieldError | undefined>()
+  const [error, setError] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  if (!user) return null
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!password) {
+      setPasswordError({ code: 'required', message: t('deleteAccount.passwordRequired') })
+      return
+    }
+    if (!window.confirm(t('deleteAccount.confirm', { username: user.username }))) return
+
+    setIsDeleting(true)
+    setError(null)
+    try {
+      await deleteAccount(password)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setPasswordError((err.errors as { password?: FieldError }).password)
+      } else {
+        setError((err as Error).message)
+      }
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <form
+      className="account-section account-section--danger auth-form"
+      onSubmit={handleSubmit}
+      aria-labelledby="delete-account-heading"
+      noValidate
+    >
+      <h2 id="delete-account-heading" className="account-section__title">
+        {t('deleteAccount.title')}
+      </h2>
+      <p className="account-section__hint">{t('deleteAccount.hint', { deleted: t('comment.deletedAuthor') })}</p>
+      <TextField
+        label={t('fields.password')}
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(event) => {
+          setPassword(event.target.value)
+          setPasswordError(undefined)
+        }}
+        error={passwordError}
+      />
+      {error && (
+        <p className="auth-form__error" role="alert">
+          {error}
+        </p>
+      )}
+      <button type="submit" className="account-section__delete" disabled={isDeleting}>
+        {isDeleting ? t('deleteAccount.deleting') : t('deleteAccount.submit')}
+      </button>
+    </form>
+  )
+}
+
+export default DeleteAccountSection
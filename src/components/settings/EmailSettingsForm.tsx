@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * STEP 2.22: EmailSettingsForm - Change the Email Address
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Show the current address and whether it is confirmed, and move
+ *          the account to a new one
+ *
+ * Behaviour:
+ * - The password is asked for, so an unlocked browser is not enough to
+ *   take over the account
+ * - Nothing changes yet on submit: a link goes to the NEW address, and a
+ *   notice to the current one. The address changes when the link is opened
+ */
+
+import { useCallback, useState, type ChangeEvent, type FormEvent } from 'react'
+import TextField from '../common/TextField'
+import { useAuth } from '../../hooks/useAuth'
+import { useFormValidation } from '../../hooks/useFormValidation'
+import { useI18n } from '../../hooks/useI18n'
+import type { ChangeEmailForm } from '../../types'
+import { ValidationError, validateChangeEmailForm, type FieldErrors } from '../../validation'
+
+const EMPTY_FORM: ChangeEmailForm = { email: '', password: '' }
+
+/**
+ * EmailSettingsForm Component
+ */
+function EmailSettingsForm() {
+  const { user, changeEmail } = useAuth()
+  const { t } = useI18n()
+  const [form, setForm] = useState<ChangeEmailForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+  const currentEmail = user?.email
+  const validate = useCallback(
+    (values: ChangeEmailForm) => validateChangeEmailForm(values, { currentEmail }),
+    [currentEmail],
+  )
+  const validation = useFormValidation(form, validate)
+
+  if (!user) return null
+
+  const fieldProps = (field: keyof ChangeEmailForm) => ({
+    value: form[field],
+    onChange: (event: ChangeEvent<HTMLInputElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }))
+      validation.clearServerError(field)
+    },
+    onBlur: () => validation.handleBlur(field),
+    error: validation.errors[field],
+  })
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      await changeEmail(form)
+      setForm(EMPTY_FORM)
+      validation.reset()
+      setStatus({ text: t('emailSettings.sent', { email: form.email.trim() }), isError: false })
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        validation.setServerErrors(error.errors as FieldErrors<ChangeEmailForm>)
+      } else {
+        setStatus({ text: (error as Error).message, isError: true })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form className="account-section auth-form" onSubmit={handleSubmit} aria-labelledby="email-heading" noValidate>
+      <h2 id="email-heading" className="account-section__title">
+        {t('emailSettings.title')}
+      </h2>
+      <p className="account-section__hint">
+        {user.email} ·{' '}
+        {user.emailVerifiedAt ? (
+          t('emailSettings.confirmed')
+        ) : (
+          <span className="account-section__warning">{t('emailSettings.unconfirmed')}</span>
+        )}
+      </p>
+      <TextField label={t('emailSettings.newEmail')} type="email" autoComplete="email" {...fieldProps('email')} />
+      <TextField
+        label={t('fields.password')}
+        type="password"
+        autoComplete="current-password"
+        {...fieldProps('password')}
+      />
+      <button type="submit" disabled={isSaving}>
+        {isSaving ? t('emailSettings.sending') : t('emailSettings.submit')}
+      </button>
+      <p className={status?.isError ? 'auth-form__error' : 'account-section__status'} role="status" aria-live="polite">
+        {status?.text}
+      </p>
+    </form>
+  )
+}
+
+export default EmailSettingsForm
@@ -0,0 +1,93 @@
+/**
+ * ============================================================================
+ * STEP 2.19: FollowedTagsSection - Hashtags the User Follows
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.19 (Following hashtags)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: One settings section listing followed hashtags, each with an
+ *          Unfollow button, so the feed's "Because you follow #tag" posts
+ *          can be switched off in one place
+ *
+ * Behaviour:
+ * - Same shape as UserListSection (and the same styles): a successful
+ *   Unfollow removes the row, a failed one keeps it and shows why
+ * - Following happens on the tag pages; this list only unfollows
+ */
+
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useI18n } from '../../hooks/useI18n'
+import { tagPath } from '../../routes/paths'
+import { api } from '../../services'
+
+/**
+ * FollowedTagsSection Component
+ */
+function FollowedTagsSection() {
+  const { t } = useI18n()
+  const [tags, setTags] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyTag, setBusyTag] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    api.tags.getFollowedTags().then((response) => {
+      if (cancelled) return
+      setIsLoading(false)
+      if (response.success && response.data) setTags(response.data.tags)
+      else setError(response.error ?? t('userList.loadError'))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [t])
+
+  const handleUnfollow = async (tag: string) => {
+    setBusyTag(tag)
+    setError(null)
+    const response = await api.tags.unfollowTag(tag)
+    setBusyTag(null)
+    if (response.success) setTags((prev) => prev.filter((other) => other !== tag))
+    else setError(response.error ?? t('userList.actionError'))
+  }
+
+  return (
+    <section className="user-list-section" aria-labelledby="followed-tags-heading">
+      <h2 id="followed-tags-heading" className="user-list-section__title">
+        {t('followedTags.title')}
+      </h2>
+
+      {tags.length === 0 && !isLoading && !error && (
+        <p className="user-list-section__empty">{t('followedTags.empty')}</p>
+      )}
+
+      <ul className="user-list-section__list" aria-busy={isLoading}>
+        {tags.map((tag) => (
+          <li key={tag} className="user-list-section__item">
+            <Link className="user-list-section__user" to={tagPath(tag)}>
+              <strong>#{tag}</strong>
+            </Link>
+            <button
+              type="button"
+              disabled={busyTag === tag}
+              aria-label={t('followedTags.unfollowTag', { tag })}
+              onClick={() => void handleUnfollow(tag)}
+            >
+              {t('followedTags.unfollow')}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <p className="feed__error" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  )
+}
+
+export default FollowedTagsSection
@@ -0,0 +1,34 @@
+/**
+ * ============================================================================
+ * STEP 2.24: LanguageSection - Interface Language
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: The language setting, saved to the account (LocaleSwitcher)
+ *
+ * LEARNING NOTES:
+ * - It comes first on the settings page: someone who switched to a
+ *   language they cannot read must find the way back without reading
+ */
+
+import { useI18n } from '../../hooks/useI18n'
+import LocaleSwitcher from '../common/LocaleSwitcher'
+
+/**
+ * LanguageSection Component
+ */
+function LanguageSection() {
+  const { t } = useI18n()
+
+  return (
+    <section className="account-section" aria-labelledby="language-heading">
+      <h2 id="language-heading" className="account-section__title">
+        {t('language.label')}
+      </h2>
+      <p className="account-section__hint">{t('language.hint')}</p>
+      <LocaleSwitcher compact />
+    </section>
+  )
+}
+
+export default LanguageSection
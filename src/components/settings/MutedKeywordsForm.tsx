@@ -0,0 +1,147 @@
+/**
+ * ============================================================================
+ * STEP 2.15: MutedKeywordsForm - Words and Phrases to Keep Out of View
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Edit the signed-in user's muted keywords
+ *
+ * Behaviour:
+ * - Posts containing a muted word leave the viewer's lists; comments stay
+ *   in their thread but collapse behind a "Show" button
+ * - Each add or remove saves the whole list at once; the server answers
+ *   with the normalized list, which replaces the local one
+ * - Keywords are normalized here first (utils/keywords.ts), so typing
+ *   " Spoiler " when "spoiler" is already muted does nothing
+ *
+ * LEARNING NOTES:
+ * - The list is a plain <ul> of chips, each with a remove button labelled
+ *   with its word, so screen reader users know which one they remove
+ */
+
+import { useEffect, useState, type FormEvent } from 'react'
+import { X } from 'lucide-react'
+import { useI18n } from '../../hooks/useI18n'
+import { api } from '../../services'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import { normalizeKeyword, normalizeKeywords } from '../../utils/keywords'
+import { MUTED_KEYWORD_MAX_LENGTH, validateMutedKeywords } from '../../validation'
+
+/**
+ * MutedKeywordsForm Component
+ */
+function MutedKeywordsForm() {
+  const { t } = useI18n()
+  const [keywords, setKeywords] = useState<string[]>([])
+  const [draft, setDraft] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
+  useEffect(() => {
+    let isCurrent = true
+    void api.users.getMutedKeywords().then((response) => {
+      if (!isCurrent) return
+      setIsLoading(false)
+      if (response.success && response.data) {
+        setKeywords(response.data.keywords)
+      } else {
+        setStatus({ text: response.error ?? t('mutedWords.loadError'), isError: true })
+      }
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [t])
+
+  const save = async (next: string[], message: string) => {
+    const error = validateMutedKeywords(next)
+    if (error) {
+      setStatus({ text: fieldErrorText(error, t), isError: true })
+      return false
+    }
+    setIsSaving(true)
+    setStatus(null)
+    const response = await api.users.setMutedKeywords(next)
+    setIsSaving(false)
+    if (!response.success || !response.data) {
+      setStatus({ text: response.error ?? t('mutedWords.saveError'), isError: true })
+      return false
+    }
+    setKeywords(response.data.keywords)
+    setStatus({ text: message, isError: false })
+    return true
+  }
+
+  const handleAdd = async (event: FormEvent) => {
+    event.preventDefault()
+    const keyword = normalizeKeyword(draft)
+    if (!keyword) return
+    if (keywords.includes(keyword)) {
+      setStatus({ text: t('mutedWords.already', { keyword }), isError: false })
+      setDraft('')
+      return
+    }
+    if (await save(normalizeKeywords([...keywords, keyword]), t('mutedWords.muted', { keyword }))) setDraft('')
+  }
+
+  const handleRemove = (keyword: string) => {
+    void save(
+      keywords.filter((k) => k !== keyword),
+      t('mutedWords.unmuted', { keyword }),
+    )
+  }
+
+  return (
+    <section className="muted-keywords" aria-labelledby="muted-keywords-heading">
+      <h2 id="muted-keywords-heading" className="user-list-section__title">
+        {t('mutedWords.title')}
+      </h2>
+      <p className="muted-keywords__hint">{t('mutedWords.hint')}</p>
+
+      <form className="muted-keywords__form" onSubmit={(event) => void handleAdd(event)}>
+        <label htmlFor="muted-keywords-input" className="visually-hidden">
+          {t('mutedWords.label')}
+        </label>
+        <input
+          id="muted-keywords-input"
+          type="text"
+          value={draft}
+          placeholder={t('mutedWords.placeholder')}
+          maxLength={MUTED_KEYWORD_MAX_LENGTH}
+          onChange={(event) => setDraft(event.target.value)}
+          disabled={isLoading || isSaving}
+        />
+        <button type="submit" disabled={isLoading || isSaving || !draft.trim()}>
+          {t('mutedWords.mute')}
+        </button>
+      </form>
+
+      {keywords.length === 0 && !isLoading && <p className="user-list-section__empty">{t('mutedWords.empty')}</p>}
+
+      <ul className="muted-keywords__list" aria-busy={isLoading}>
+        {keywords.map((keyword) => (
+          <li key={keyword} className="muted-keywords__chip">
+            {keyword}
+            <button
+              type="button"
+              className="muted-keywords__remove"
+              aria-label={t('mutedWords.unmute', { keyword })}
+              disabled={isSaving}
+              onClick={() => handleRemove(keyword)}
+            >
+              <X size={14} aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <p className={status?.isError ? 'auth-form__error' : 'privacy-settings__status'} role="status" aria-live="polite">
+        {status?.text}
+      </p>
+    </section>
+  )
+}
+
+export default MutedKeywordsForm
@@ -0,0 +1,104 @@
+/**
+ * ============================================================================
+ * STEP 2.22: PasswordSettingsForm - Change the Password
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Replace the password of the signed-in user
+ *
+ * Behaviour:
+ * - The current password is required; the backend says whether it is
+ *   right, as an error on that field
+ * - Every other session is signed out, this one stays; a notice is mailed
+ *   to the account's address
+ * - The form empties itself after a successful change
+ */
+
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import TextField from '../common/TextField'
+import { useAuth } from '../../hooks/useAuth'
+import { useFormValidation } from '../../hooks/useFormValidation'
+import { useI18n } from '../../hooks/useI18n'
+import type { ChangePasswordForm } from '../../types'
+import { ValidationError, validateChangePasswordForm, type FieldErrors } from '../../validation'
+
+const EMPTY_FORM: ChangePasswordForm = { currentPassword: '', newPassword: '', confirmPassword: '' }
+
+/**
+ * PasswordSettingsForm Component
+ */
+function PasswordSettingsForm() {
+  const { changePassword } = useAuth()
+  const { t } = useI18n()
+  const [form, setForm] = useState<ChangePasswordForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+  const validation = useFormValidation(form, validateChangePasswordForm)
+
+  const fieldProps = (field: keyof ChangePasswordForm) => ({
+    value: form[field],
+    onChange: (event: ChangeEvent<HTMLInputElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }))
+      validation.clearServerError(field)
+    },
+    onBlur: () => validation.handleBlur(field),
+    error: validation.errors[field],
+  })
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      await changePassword(form)
+      setForm(EMPTY_FORM)
+      validation.reset()
+      setStatus({ text: t('passwordSettings.changed'), isError: false })
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        validation.setServerErrors(error.errors as FieldErrors<ChangePasswordForm>)
+      } else {
+        setStatus({ text: (error as Error).message, isError: true })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form className="account-section auth-form" onSubmit={handleSubmit} aria-labelledby="password-heading" noValidate>
+      <h2 id="password-heading" className="account-section__title">
+        {t('fields.password')}
+      </h2>
+      <TextField
+        label={t('passwordSettings.current')}
+        type="password"
+        autoComplete="current-password"
+        {...fieldProps('currentPassword')}
+      />
+      <TextField
+        label={t('passwordSettings.new')}
+        type="password"
+        autoComplete="new-password"
+        {...fieldProps('newPassword')}
+      />
+      <TextField
+        label={t('passwordSettings.confirm')}
+        type="password"
+        autoComplete="new-password"
+        {...fieldProps('confirmPassword')}
+      />
+      <button type="submit" disabled={isSaving}>
+        {isSaving ? t('common.saving') : t('passwordSettings.submit')}
+      </button>
+      <p className={status?.isError ? 'auth-form__error' : 'account-section__status'} role="status" aria-live="polite">
+        {status?.text}
+      </p>
+    </form>
+  )
+}
+
+export default PasswordSettingsForm
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * STEP 2.14: PrivacySettingsForm - Private Account Switch
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.14 (Privacy model)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Turn User.isPrivate on or off for the signed-in user
+ *
+ * Behaviour:
+ * - Saved immediately through useAuth().updateProfile, so the header and
+ *   profile pick up the change without a reload
+ * - Going public asks first: every pending follow request is approved
+ * - Like NotificationPreferencesForm, the checkbox is disabled while
+ *   saving and the result is announced in a polite live region
+ */
+
+import { useState } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+
+/**
+ * PrivacySettingsForm Props
+ * - onChange: Called after a successful save (pending requests may have
+ *   been approved)
+ */
+interface PrivacySettingsFormProps {
+  onChange?: () => void
+}
+
+/**
+ * PrivacySettingsForm Component
+ */
+function PrivacySettingsForm({ onChange }: PrivacySettingsFormProps) {
+  const { user, updateProfile } = useAuth()
+  const { t } = useI18n()
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
+  if (!user) return null
+
+  const handleToggle = async (isPrivate: boolean) => {
+    if (!isPrivate && !window.confirm(t('privacy.publicConfirm'))) {
+      return
+    }
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      await updateProfile({ isPrivate })
+      setStatus({ text: t('common.saved'), isError: false })
+      onChange?.()
+    } catch (error) {
+      setStatus({ text: (error as Error).message, isError: true })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form className="privacy-settings" onSubmit={(event) => event.preventDefault()}>
+      <fieldset className="privacy-settings__fieldset" disabled={isSaving}>
+        <legend>{t('privacy.legend')}</legend>
+        <label className="privacy-settings__option">
+          <input
+            type="checkbox"
+            checked={Boolean(user.isPrivate)}
+            onChange={(event) => void handleToggle(event.target.checked)}
+            aria-describedby="privacy-settings-hint"
+          />
+          {t('privacy.private')}
+        </label>
+        <p id="privacy-settings-hint" className="privacy-settings__hint">
+          {t('privacy.hint')}
+        </p>
+      </fieldset>
+      <p className={status?.isError ? 'auth-form__error' : 'privacy-settings__status'} role="status" aria-live="polite">
+        {status?.text}
+      </p>
+    </form>
+  )
+}
+
+export default PrivacySettingsForm
@@ -0,0 +1,123 @@
+/**
+ * ============================================================================
+ * STEP 2.22: SessionsSection - Where the Account Is Signed In
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps, translated)
+ * PURPOSE: List the signed-in browsers and devices and sign them out
+ *
+ * Behaviour:
+ * - Most recently used first; this browser is marked "This device"
+ * - Signing out this device is a normal logout; any other session stops
+ *   working on its next request (AuthProvider re-checks on focus)
+ * - "Sign out everywhere else" keeps only this session
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import type { SessionInfo } from '../../types'
+import RelativeTime from '../common/RelativeTime'
+
+/**
+ * SessionsSection Component
+ */
+function SessionsSection() {
+  const { listSessions, revokeSession, revokeOtherSessions, logout } = useAuth()
+  const { t, tRich } = useI18n()
+  const [sessions, setSessions] = useState<SessionInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setSessions(await listSessions())
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [listSessions])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  /**
+   * run - Performs one sign-out, then reloads the list
+   */
+  const run = async (busyKey: string, action: () => Promise<void>) => {
+    setBusyId(busyKey)
+    setError(null)
+    try {
+      await action()
+      await load()
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const others = sessions.filter((session) => !session.isCurrent)
+
+  return (
+    <section className="account-section" aria-labelledby="sessions-heading">
+      <h2 id="sessions-heading" className="account-section__title">
+        {t('sessions.title')}
+      </h2>
+
+      <ul className="sessions__list" aria-busy={isLoading}>
+        {sessions.map((session) => (
+          <li key={session.id} className="sessions__item">
+            <div className="sessions__details">
+              <strong>{session.device}</strong>
+              {session.isCurrent && <span className="sessions__current">{t('sessions.current')}</span>}
+              <span className="sessions__meta">
+                {tRich('sessions.meta', {
+                  active: <RelativeTime date={session.lastSeenAt} />,
+                  signedIn: <RelativeTime date={session.createdAt} absolute />,
+                })}
+              </span>
+            </div>
+            <button
+              type="button"
+              disabled={busyId !== null}
+              aria-label={
+                session.isCurrent
+                  ? t('sessions.signOutCurrent')
+                  : t('sessions.signOutDevice', { device: session.device })
+              }
+              onClick={() => (session.isCurrent ? logout() : void run(session.id, () => revokeSession(session.id)))}
+            >
+              {t('sessions.signOut')}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {others.length > 0 && (
+        <button
+          type="button"
+          className="sessions__revoke-all"
+          disabled={busyId !== null}
+          onClick={() => void run('others', revokeOtherSessions)}
+        >
+          {busyId === 'others' ? t('sessions.signingOut') : t('sessions.signOutOthers')}
+        </button>
+      )}
+
+      {error && (
+        <p className="auth-form__error" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  )
+}
+
+export default SessionsSection
@@ -0,0 +1,152 @@
+/**
+ * ============================================================================
+ * STEP 2.14: UserListSection - A Paged List of Accounts with Actions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.14 (Privacy model)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: One settings section: follow requests, blocked or muted
+ *          accounts, each row with buttons (Approve, Unblock, ...)
+ *
+ * Behaviour:
+ * - The first page loads on mount; "Load more" fetches the next
+ * - A successful action removes the row: an approved request, an
+ *   unblocked account, ... no longer belongs in the list
+ * - A failed action keeps the row and shows why
+ *
+ * LEARNING NOTES:
+ * - The section is told HOW to load and act (functions as props), so the
+ *   three lists share one component without knowing which one they are
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../i18n'
+import { profilePath } from '../../routes/paths'
+import type { PageParams } from '../../services/data/types'
+import type { ApiResponse, FollowStatus, PaginatedResponse, User } from '../../types'
+
+const PAGE_SIZE = 20
+
+/**
+ * UserListAction - One button on every row
+ * - run: Calls the API for that user
+ */
+export interface UserListAction {
+  label: MessageKey
+  run: (userId: string) => Promise<ApiResponse<FollowStatus>>
+}
+
+/**
+ * UserListSection Props
+ * - id: Prefix for the heading's id
+ * - load: Fetches one page of accounts
+ * - onChange: Called after any successful action (e.g. to refresh counts)
+ */
+interface UserListSectionProps {
+  id: string
+  title: string
+  emptyMessage: string
+  load: (params: PageParams) => Promise<ApiResponse<PaginatedResponse<User>>>
+  actions: UserListAction[]
+  onChange?: () => void
+}
+
+/**
+ * UserListSection Component
+ */
+function UserListSection({ id, title, emptyMessage, load, actions, onChange }: UserListSectionProps) {
+  const { t } = useI18n()
+  const [users, setUsers] = useState<User[]>([])
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchPage = useCallback(
+    async (next: number) => {
+      setIsLoading(true)
+      setError(null)
+      const response = await load({ page: next, limit: PAGE_SIZE })
+      setIsLoading(false)
+      if (!response.success || !response.data) {
+        setError(response.error ?? t('userList.loadError'))
+        return
+      }
+      const { data, pagination } = response.data
+      setUsers((prev) => (next === 1 ? data : [...prev, ...data.filter((u) => !prev.some((p) => p.id === u.id))]))
+      setPage(pagination.page)
+      setHasMore(pagination.page < pagination.totalPages)
+    },
+    [load, t],
+  )
+
+  useEffect(() => {
+    void fetchPage(1)
+  }, [fetchPage])
+
+  const handleAction = async (action: UserListAction, userId: string) => {
+    setBusyId(userId)
+    setError(null)
+    const response = await action.run(userId)
+    setBusyId(null)
+    if (response.success) {
+      setUsers((prev) => prev.filter((u) => u.id !== userId))
+      onChange?.()
+    } else {
+      setError(response.error ?? t('userList.actionError'))
+    }
+  }
+
+  const headingId = `${id}-heading`
+
+  return (
+    <section className="user-list-section" aria-labelledby={headingId}>
+      <h2 id={headingId} className="user-list-section__title">
+        {title}
+      </h2>
+
+      {users.length === 0 && !isLoading && !error && <p className="user-list-section__empty">{emptyMessage}</p>}
+
+      <ul className="user-list-section__list" aria-busy={isLoading}>
+        {users.map((user) => (
+          <li key={user.id} className="user-list-section__item">
+            <Link className="user-list-section__user" to={profilePath(user.username)}>
+              <strong>
+                {user.firstName} {user.lastName}
+              </strong>{' '}
+              <span className="user-list-section__handle">@{user.username}</span>
+            </Link>
+            {actions.map((action) => (
+              <button
+                key={action.label}
+                type="button"
+                disabled={busyId === user.id}
+                aria-label={t('userList.actionLabel', { action: t(action.label), username: user.username })}
+                onClick={() => void handleAction(action, user.id)}
+              >
+                {t(action.label)}
+              </button>
+            ))}
+          </li>
+        ))}
+      </ul>
+
+      {error && (
+        <p className="feed__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {hasMore && !isLoading && (
+        <button type="button" className="feed__more" onClick={() => void fetchPage(page + 1)}>
+          {t('common.loadMore')}
+        </button>
+      )}
+    </section>
+  )
+}
+
+export default UserListSection
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * STEP 2.19: TagFollowButton - Follow / Unfollow a Hashtag
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.19 (Following hashtags)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: One button that follows or unfollows a hashtag, so posts with
+ *          it reach (or leave) the viewer's home feed
+ *
+ * Behaviour:
+ * - Optimistic like FollowButton: the label flips at once and flips back
+ *   if the server refuses (the reason is shown as the tooltip)
+ * - Hidden for signed-out visitors
+ * - onChange receives the server's HashtagDetails (new follower count)
+ *
+ * Accessibility:
+ * - aria-pressed announces following / not following; the accessible name
+ *   says what a click does ("Unfollow #react")
+ */
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { api } from '../../services'
+import type { HashtagDetails } from '../../types'
+
+/**
+ * TagFollowButton Props
+ * - tag: Normalized tag, without the #
+ * - isFollowing: Whether the viewer follows it right now
+ */
+interface TagFollowButtonProps {
+  tag: string
+  isFollowing: boolean
+  onChange?: (details: HashtagDetails) => void
+}
+
+/**
+ * TagFollowButton Component
+ */
+function TagFollowButton({ tag, isFollowing, onChange }: TagFollowButtonProps) {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const [following, setFollowing] = useState(isFollowing)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!user) return null
+
+  const handleClick = async () => {
+    const previous = following
+    setFollowing(!previous)
+    setIsSaving(true)
+    setError(null)
+    const response = previous ? await api.tags.unfollowTag(tag) : await api.tags.followTag(tag)
+    setIsSaving(false)
+    if (response.success && response.data) {
+      setFollowing(response.data.isFollowing)
+      onChange?.(response.data)
+    } else {
+      setFollowing(previous)
+      setError(response.error ?? t('follow.error'))
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      className={clsx('follow-button', following && 'follow-button--following')}
+      aria-pressed={following}
+      aria-label={t('follow.tagLabel', { following: following ? 'yes' : 'no', tag: `#${tag}` })}
+      title={error ?? undefined}
+      disabled={isSaving}
+      onClick={() => void handleClick()}
+    >
+      {following ? t('follow.following') : t('follow.follow')}
+    </button>
+  )
+}
+
+export default TagFollowButton
@@ -0,0 +1,99 @@
+/**
+ * ============================================================================
+ * STEP 2.19: TrendingTags - Hashtags Growing Right Now
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.19 (Trending hashtags)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: A short list of hashtags used more than usual, over the last
+ *          hour, day or week, each linking to its tag page
+ *
+ * Behaviour:
+ * - The server ranks by growth against earlier windows, not by size, so a
+ *   small new topic can outrank a big everyday one
+ * - Each row says why it is there ("New · 2 people", "5 people, usually 1")
+ * - Switching the window refetches; an answer for a window no longer
+ *   selected is ignored
+ * - An empty window says so instead of hiding the panel, so the tabs stay
+ *   reachable
+ *
+ * Accessibility:
+ * - The window buttons are a labelled group with aria-pressed; the list
+ *   is aria-busy while loading
+ */
+
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import clsx from 'clsx'
+import { useI18n } from '../../hooks/useI18n'
+import { tagPath } from '../../routes/paths'
+import { api } from '../../services'
+import type { TrendWindow, TrendingTag } from '../../types'
+import { TREND_WINDOWS, TREND_WINDOW_LABELS, describeTrend } from '../../utils/hashtags'
+
+const TREND_COUNT = 5
+
+/**
+ * TrendingTags Component
+ */
+function TrendingTags() {
+  const { t } = useI18n()
+  const [trendWindow, setTrendWindow] = useState<TrendWindow>('day')
+  const [trends, setTrends] = useState<TrendingTag[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setTrends(null)
+    setError(null)
+    api.tags.getTrending(trendWindow, TREND_COUNT).then((response) => {
+      if (cancelled) return
+      if (response.success && response.data) setTrends(response.data)
+      else setError(response.error ?? t('trends.loadError'))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [trendWindow, t])
+
+  return (
+    <aside className="trending-tags" aria-labelledby="trending-tags-heading">
+      <h2 id="trending-tags-heading" className="trending-tags__title">
+        {t('trends.title')}
+      </h2>
+      <div className="trending-tags__windows" role="group" aria-label={t('trends.windows')}>
+        {TREND_WINDOWS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={clsx('trending-tags__window', option === trendWindow && 'trending-tags__window--active')}
+            aria-pressed={option === trendWindow}
+            onClick={() => setTrendWindow(option)}
+          >
+            {t(TREND_WINDOW_LABELS[option])}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="feed__error" role="alert">
+          {error}
+        </p>
+      )}
+      {trends?.length === 0 && <p className="trending-tags__empty">{t('trends.empty')}</p>}
+
+      <ol className="trending-tags__list" aria-busy={!trends && !error}>
+        {trends?.map((trend) => (
+          <li key={trend.tag} className="trending-tags__item">
+            <Link className="trending-tags__tag" to={tagPath(trend.tag)}>
+              #{trend.tag}
+            </Link>
+            <span className="trending-tags__reason">{describeTrend(trend, t)}</span>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  )
+}
+
+export default TrendingTags
@@ -0,0 +1,105 @@
+/**
+ * ============================================================================
+ * STEP 2.12: FollowButton - Follow / Unfollow Toggle
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.12 (Follow graph)
+ * UPDATED: Feature Phase - Step 2.14 (requests to private accounts)
+ * UPDATED: Feature Phase - Step 2.20 (follows go through the global store)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: One button that follows or unfollows a user
+ *
+ * Behaviour:
+ * - Optimistic: the label flips at once, and flips back if the server
+ *   refuses; the reason is shown as a toast (store/mutations.ts setFollowing,
+ *   which also updates the follower lists of both users in the store)
+ * - Following a private account only sends a request: the server's answer
+ *   turns the label into "Requested", and clicking again withdraws it
+ * - Hidden for signed-out visitors and on the viewer's own account
+ * - onChange receives the server's FollowStatus (new follower count)
+ *
+ * Accessibility:
+ * - aria-pressed announces following (or requested) / not following, while
+ *   the visible label says what a click will do next
+ */
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import type { MessageKey } from '../../i18n'
+import { setFollowing } from '../../store'
+import type { FollowStatus } from '../../types'
+
+/**
+ * FollowState - What the button shows
+ */
+type FollowState = 'none' | 'following' | 'requested'
+
+function toFollowState(status: Pick<FollowStatus, 'isFollowing' | 'isRequested'>): FollowState {
+  if (status.isFollowing) return 'following'
+  return status.isRequested ? 'requested' : 'none'
+}
+
+const LABELS: Record<FollowState, MessageKey> = {
+  none: 'follow.follow',
+  following: 'follow.following',
+  requested: 'follow.requested',
+}
+
+/**
+ * FollowButton Props
+ * - userId: Who to follow
+ * - isFollowing: Whether the viewer follows them right now
+ * - isRequested: Whether the viewer's follow request is pending
+ * - name: Used in the accessible name ("Follow Alice")
+ */
+interface FollowButtonProps {
+  userId: string
+  isFollowing: boolean
+  isRequested?: boolean
+  name?: string
+  onChange?: (status: FollowStatus) => void
+}
+
+/**
+ * FollowButton Component
+ */
+function FollowButton({ userId, isFollowing, isRequested = false, name, onChange }: FollowButtonProps) {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const [state, setState] = useState<FollowState>(() => toFollowState({ isFollowing, isRequested }))
+  const [isSaving, setIsSaving] = useState(false)
+
+  if (!user || user.id === userId) return null
+
+  const handleClick = async () => {
+    const previous = state
+    const follow = previous === 'none'
+    setState(follow ? 'following' : 'none')
+    setIsSaving(true)
+    const response = await setFollowing(user.id, userId, follow)
+    setIsSaving(false)
+    if (response.success && response.data) {
+      setState(toFollowState(response.data))
+      onChange?.(response.data)
+    } else {
+      setState(previous)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      className={clsx('follow-button', state !== 'none' && 'follow-button--following')}
+      aria-pressed={state !== 'none'}
+      aria-label={name ? t('follow.label', { state, name }) : undefined}
+      disabled={isSaving}
+      onClick={() => void handleClick()}
+    >
+      {t(LABELS[state])}
+    </button>
+  )
+}
+
+export default FollowButton
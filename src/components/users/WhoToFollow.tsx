@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * STEP 2.12: WhoToFollow - Account Suggestions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.12 (Follow graph)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: A short list of accounts the viewer may know (friends of
+ *          friends) or share interests with (hashtags), each with a reason
+ *
+ * Behaviour:
+ * - Loaded once per signed-in user; renders nothing when there is nothing
+ *   to suggest, so a new account's home page stays clean
+ * - Following someone keeps them in the list (as "Following") until the
+ *   next visit, so the row does not vanish from under the pointer
+ */
+
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { useI18n } from '../../hooks/useI18n'
+import { useUsersById } from '../../hooks/useUsersById'
+import { profilePath } from '../../routes/paths'
+import { api } from '../../services'
+import type { FollowSuggestion } from '../../types'
+import { suggestionReason } from '../../utils/follows'
+import FollowButton from './FollowButton'
+
+const SUGGESTION_COUNT = 3
+
+/**
+ * WhoToFollow Component
+ */
+function WhoToFollow() {
+  const { user } = useAuth()
+  const { t, locale } = useI18n()
+  const userId = user?.id
+  const [suggestions, setSuggestions] = useState<FollowSuggestion[]>([])
+  const mutuals = useUsersById(suggestions.flatMap((suggestion) => suggestion.mutualIds))
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    api.users.getSuggestions(SUGGESTION_COUNT).then((response) => {
+      if (!cancelled && response.success && response.data) setSuggestions(response.data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  if (suggestions.length === 0) return null
+
+  return (
+    <aside className="who-to-follow" aria-labelledby="who-to-follow-heading">
+      <h2 id="who-to-follow-heading" className="who-to-follow__title">
+        {t('follows.whoToFollow')}
+      </h2>
+      <ul className="who-to-follow__list">
+        {suggestions.map((suggestion) => {
+          const { user: suggested } = suggestion
+          return (
+            <li key={suggested.id} className="who-to-follow__item">
+              <div className="who-to-follow__body">
+                <Link to={profilePath(suggested.username)}>
+                  <strong>
+                    {suggested.firstName} {suggested.lastName}
+                  </strong>{' '}
+                  <span className="who-to-follow__handle">@{suggested.username}</span>
+                </Link>
+                <p className="who-to-follow__reason">{suggestionReason(suggestion, mutuals, t, locale)}</p>
+              </div>
+              <FollowButton userId={suggested.id} isFollowing={false} name={suggested.firstName} />
+            </li>
+          )
+        })}
+      </ul>
+    </aside>
+  )
+}
+
+export default WhoToFollow
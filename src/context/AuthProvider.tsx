@@ -0,0 +1,397 @@
+/**
+ * ============================================================================
+ * STEP 2.2: AuthProvider - Implements AuthContextType
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.20 (session mirrored into the global store)
+ * UPDATED: Feature Phase - Step 2.22 (account lifecycle: verification,
+ *          passwords, email, sessions, deletion)
+ * PURPOSE: Owns the signed-in user and exposes login/register/logout/update
+ *
+ * This file demonstrates React concepts:
+ *
+ * 1. CONTEXT PROVIDERS:
+ *    - Wrap part of the tree so every descendant can read auth state
+ *    - The value is memoized so consumers only re-render on real changes
+ *
+ * 2. SIDE EFFECTS:
+ *    - useEffect restores a saved session once on mount
+ *    - A 'cancelled' flag ignores results that arrive after unmount
+ *    - The session is checked again whenever the tab becomes visible, so
+ *      a session revoked from another device signs this one out
+ *
+ * 3. DEPENDENCY INJECTION:
+ *    - The `backend` prop accepts any AuthBackend implementation
+ *    - Defaults to the shared local backend (services/index.ts)
+ *
+ * 4. LOADING STATE:
+ *    - isLoading starts TRUE whenever a token is saved, so the first render
+ *      never shows a logged-out UI for a session that is about to be restored
+ *
+ * LEARNING NOTES:
+ * - Only the session token is persisted (services/auth/tokenStorage.ts); the backend is the source of
+ *   truth for the user record
+ * - Actions re-throw errors after recording them, so forms can still react
+ *   (e.g. stay on the page) while other components read `error`
+ * - The user and loading flag are copied into the global store's AppState
+ *   (store/appState.ts) for code outside this tree of providers; this
+ *   provider stays the one that changes them
+ */
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { AuthContext } from './authContext'
+import { authBackend } from '../services'
+import {
+  clearSessionToken,
+  readSessionToken,
+  saveSessionToken,
+  type AuthBackend,
+  type AuthSession,
+} from '../services/auth'
+import { setSession } from '../store'
+import type {
+  Account,
+  AppState,
+  AuthContextType,
+  ChangeEmailForm,
+  ChangePasswordForm,
+  PasswordResetForm,
+  RegisterForm,
+} from '../types'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * errorMessage - Turns anything thrown into a user-facing string
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Something went wrong. Please try again.'
+}
+
+// ============================================================================
+// COMPONENT DEFINITION
+// ============================================================================
+
+/**
+ * AuthProvider Props
+ * - children: The part of the app that can use useAuth()
+ * - backend: Optional AuthBackend (defaults to the local backend)
+ */
+interface AuthProviderProps {
+  children: ReactNode
+  backend?: AuthBackend
+}
+
+/**
+ * AuthState - The slice of AppState this provider owns, plus the token
+ */
+type AuthState = Omit<AppState, 'isAuthenticated'> & { token: string | null }
+
+/**
+ * AuthProvider Component - Makes authentication available to the tree
+ */
+function AuthProvider({ children, backend = authBackend }: AuthProviderProps) {
+  /**
+   * One state object instead of four useState calls: user, token and
+   * isLoading always change together, and a single setState keeps them
+   * from ever being out of sync for a render
+   */
+  const [state, setState] = useState<AuthState>(() => {
+    const token = readSessionToken()
+    return { user: null, token, isLoading: token !== null, error: null }
+  })
+
+  /**
+   * Session Restore - Runs once per backend
+   *
+   * The initial token is read from storage directly (not from state) so
+   * this effect does not re-run every time the token changes.
+   */
+  useEffect(() => {
+    let cancelled = false
+    const savedToken = readSessionToken()
+
+    if (!savedToken) {
+      return
+    }
+
+    backend
+      .restoreSession(savedToken)
+      .then((session) => {
+        if (cancelled) return
+        if (!session) {
+          clearSessionToken()
+        }
+        setState({
+          user: session?.user ?? null,
+          token: session?.token ?? null,
+          isLoading: false,
+          error: null,
+        })
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return
+        setState({ user: null, token: null, isLoading: false, error: errorMessage(error) })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [backend])
+
+  /**
+   * Session Re-check - Signs out when the session was revoked elsewhere
+   * (another device, a password change or reset) while this tab was away
+   */
+  useEffect(() => {
+    if (!state.token) return
+    const token = state.token
+
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return
+      backend
+        .restoreSession(token)
+        .then((session) => {
+          if (session) return
+          clearSessionToken()
+          setState((prev) => (prev.token === token ? { user: null, token: null, isLoading: false, error: null } : prev))
+        })
+        .catch(() => {
+          // Unreachable backend: keep the session until the next check
+        })
+    }
+
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [backend, state.token])
+
+  useEffect(() => setSession(state.user, state.isLoading), [state.user, state.isLoading])
+
+  /**
+   * applySession - Persists a fresh session and stores its user
+   */
+  const applySession = useCallback((session: AuthSession) => {
+    saveSessionToken(session.token)
+    setState({ user: session.user, token: session.token, isLoading: false, error: null })
+  }, [])
+
+  /**
+   * recordError - Saves the message for consumers, then re-throws
+   */
+  const recordError = useCallback((error: unknown): never => {
+    setState((prev) => ({ ...prev, error: errorMessage(error) }))
+    throw error
+  }, [])
+
+  const login = useCallback(
+    async (email: string, password: string) => {
+      setState((prev) => ({ ...prev, error: null }))
+      try {
+        applySession(await backend.login(email, password))
+      } catch (error) {
+        recordError(error)
+      }
+    },
+    [backend, applySession, recordError],
+  )
+
+  const register = useCallback(
+    async (formData: RegisterForm) => {
+      setState((prev) => ({ ...prev, error: null }))
+      try {
+        applySession(await backend.register(formData))
+      } catch (error) {
+        recordError(error)
+      }
+    },
+    [backend, applySession, recordError],
+  )
+
+  /**
+   * logout - Clears local state immediately
+   *
+   * The backend call runs in the background: the user should be signed out
+   * of this browser even if the server is unreachable.
+   */
+  const logout = useCallback(() => {
+    const token = state.token
+    clearSessionToken()
+    setState({ user: null, token: null, isLoading: false, error: null })
+    if (token) {
+      backend.logout(token).catch(() => {
+        // Session will expire on its own
+      })
+    }
+  }, [backend, state.token])
+
+  const updateProfile = useCallback(
+    async (userData: Partial<Account>) => {
+      if (!state.token) {
+        recordError(new Error('You need to be logged in to update your profile.'))
+        return
+      }
+      try {
+        const user = await backend.updateProfile(state.token, userData)
+        setState((prev) => ({ ...prev, user, error: null }))
+      } catch (error) {
+        recordError(error)
+      }
+    },
+    [backend, state.token, recordError],
+  )
+
+  /**
+   * withToken - Runs a backend call that needs the session, recording its
+   * error like every other action
+   */
+  const withToken = useCallback(
+    async <T,>(action: (token: string) => Promise<T>): Promise<T> => {
+      if (!state.token) {
+        return recordError(new Error('You need to be logged in to do that.'))
+      }
+      try {
+        return await action(state.token)
+      } catch (error) {
+        return recordError(error)
+      }
+    },
+    [state.token, recordError],
+  )
+
+  /**
+   * signOutLocally - Forgets the session without asking the backend (it is
+   * already gone there)
+   */
+  const signOutLocally = useCallback(() => {
+    clearSessionToken()
+    setState({ user: null, token: null, isLoading: false, error: null })
+  }, [])
+
+  const resendVerification = useCallback(
+    () => withToken((token) => backend.sendVerificationEmail(token)),
+    [backend, withToken],
+  )
+
+  /**
+   * verifyEmail - Works signed in or out; the link itself is the proof
+   */
+  const verifyEmail = useCallback(
+    async (verificationToken: string) => {
+      try {
+        const user = await backend.verifyEmail(verificationToken)
+        setState((prev) => (prev.user?.id === user.id ? { ...prev, user, error: null } : prev))
+      } catch (error) {
+        recordError(error)
+      }
+    },
+    [backend, recordError],
+  )
+
+  const requestPasswordReset = useCallback(
+    async (email: string) => {
+      try {
+        await backend.requestPasswordReset(email)
+      } catch (error) {
+        recordError(error)
+      }
+    },
+    [backend, recordError],
+  )
+
+  /**
+   * resetPassword - Every session ends, this browser's included
+   */
+  const resetPassword = useCallback(
+    async (resetToken: string, form: PasswordResetForm) => {
+      try {
+        await backend.resetPassword(resetToken, form)
+        signOutLocally()
+      } catch (error) {
+        recordError(error)
+      }
+    },
+    [backend, recordError, signOutLocally],
+  )
+
+  const changePassword = useCallback(
+    (form: ChangePasswordForm) => withToken((token) => backend.changePassword(token, form)),
+    [backend, withToken],
+  )
+
+  const changeEmail = useCallback(
+    (form: ChangeEmailForm) => withToken((token) => backend.changeEmail(token, form)),
+    [backend, withToken],
+  )
+
+  const listSessions = useCallback(() => withToken((token) => backend.listSessions(token)), [backend, withToken])
+
+  const revokeSession = useCallback(
+    (sessionId: string) => withToken((token) => backend.revokeSession(token, sessionId)),
+    [backend, withToken],
+  )
+
+  const revokeOtherSessions = useCallback(
+    () => withToken((token) => backend.revokeOtherSessions(token)),
+    [backend, withToken],
+  )
+
+  const deleteAccount = useCallback(
+    async (password: string) => {
+      await withToken((token) => backend.deleteAccount(token, password))
+      signOutLocally()
+    },
+    [backend, withToken, signOutLocally],
+  )
+
+  /**
+   * Context Value - Memoized so consumers re-render only when it changes
+   */
+  const value = useMemo<AuthContextType>(
+    () => ({
+      user: state.user,
+      isAuthenticated: state.user !== null,
+      isLoading: state.isLoading,
+      error: state.error,
+      login,
+      register,
+      logout,
+      updateProfile,
+      resendVerification,
+      verifyEmail,
+      requestPasswordReset,
+      resetPassword,
+      changePassword,
+      changeEmail,
+      listSessions,
+      revokeSession,
+      revokeOtherSessions,
+      deleteAccount,
+    }),
+    [
+      state.user,
+      state.isLoading,
+      state.error,
+      login,
+      register,
+      logout,
+      updateProfile,
+      resendVerification,
+      verifyEmail,
+      requestPasswordReset,
+      resetPassword,
+      changePassword,
+      changeEmail,
+      listSessions,
+      revokeSession,
+      revokeOtherSessions,
+      deleteAccount,
+    ],
+  )
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export default AuthProvider
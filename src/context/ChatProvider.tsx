@@ -0,0 +1,492 @@
+/**
+ * ============================================================================
+ * STEP 2.8: ChatProvider - Real-Time Messaging State for the Whole App
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (group requests with promise replies)
+ * UPDATED: Feature Phase - Step 2.16 (chats and unsent messages kept offline)
+ * UPDATED: Feature Phase - Step 2.17 (attachments on sent messages)
+ * UPDATED: Feature Phase - Step 2.20 (unread total published to the global store)
+ * UPDATED: Feature Phase - Step 2.24 (translated errors)
+ * PURPOSE: Owns the chat connection while a user is signed in and turns
+ *          server events into state (chatState.ts) for useChat()
+ *
+ * Connection Flow:
+ * 1. A user signs in → transport.connect()
+ * 2. Transport 'open' → send 'hello' with the session token
+ * 3. 'ready' → send 'sync' with the cursor (null the first time), and
+ *    re-send every message still in the outbox
+ * 4. 'synced' → state is complete; the cursor moves to its serverTime
+ * 5. Connection drops → the transport reconnects by itself and steps 2-4
+ *    repeat; the sync after a reconnect is the BACKFILL of what was missed
+ *
+ * Optimistic Sending:
+ * - sendMessage adds a 'pending' bubble at once and puts the 'send' event
+ *   in the OUTBOX (a Map keyed by clientId)
+ * - The ack or 'send-failed' removes it from the outbox; anything still
+ *   there after a reconnect is sent again. The server ignores clientIds it
+ *   has already stored, so a resend never creates a duplicate.
+ *
+ * Typing Indicators:
+ * - Outgoing: at most one 'typing: true' per TYPING_THROTTLE_MS while
+ *   typing, and 'typing: false' after TYPING_IDLE_MS without a keystroke
+ * - Incoming: each 'typing: true' expires after TYPING_EXPIRY_MS, in case
+ *   the matching 'false' never arrives (e.g. the other tab crashed)
+ *
+ * Requests (Step 2.9):
+ * - startConversation/changeGroup return Promises; the requestId in the
+ *   reply finds the pending Promise to settle (the REQUESTS map)
+ * - A dropped connection rejects every pending request, since its reply
+ *   can no longer arrive
+ *
+ * Offline (Step 2.16):
+ * - On sign-in the cached chats are restored at once ('restored'), before
+ *   the connection is even open
+ * - What the server sends is written back to the cache as it arrives
+ * - The outbox is also kept in the cache, so messages written offline
+ *   survive a reload and are sent after the next 'ready'
+ *
+ * React Concepts Demonstrated:
+ * - useReducer for state with many related transitions
+ * - Refs for values transport callbacks need without re-subscribing
+ *   (cursor, outbox, timers)
+ *
+ * LEARNING NOTES:
+ * - The unread total is also published to the global store
+ *   (setUnreadCount), where the nav badge and tab title read it
+ * - The transport is a prop (defaulting to the shared chatTransport), so a
+ *   test or story can pass a fake one
+ */
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, type ReactNode } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import { useI18n } from '../hooks/useI18n'
+import { chatCache, chatTransport } from '../services'
+import { readSessionToken } from '../services/auth'
+import type { ChatTransport, ClientEvent } from '../services/chat'
+import type { ChatCache } from '../services/offline'
+import { setUnreadCount } from '../store'
+import type { Conversation, GroupChange, MediaAsset } from '../types'
+import { createId } from '../utils/ids'
+import { validateMessageContent } from '../validation'
+import { ChatContext, type ChatContextType } from './chatContext'
+import { chatReducer, countUnread, initialChatState, sortConversations, type ChatMessage } from './chatState'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TYPING_THROTTLE_MS = 2000
+const TYPING_IDLE_MS = 3000
+const TYPING_EXPIRY_MS = 6000
+const HISTORY_PAGE_SIZE = 30
+
+type SendEvent = Extract<ClientEvent, { type: 'send' }>
+type RequestEvent = Extract<ClientEvent, { type: 'start-conversation' | 'change-group' }>
+
+/**
+ * PendingRequest - Settles the Promise of one start/change request
+ */
+interface PendingRequest {
+  resolve: (conversation: Conversation | null) => void
+  reject: (error: Error) => void
+}
+
+// ============================================================================
+// COMPONENT DEFINITION
+// ============================================================================
+
+/**
+ * ChatProvider Props
+ * - children: The part of the app that can use useChat()
+ * - transport: Optional ChatTransport (defaults to the shared one)
+ * - cache: Optional ChatCache (defaults to the shared one)
+ */
+interface ChatProviderProps {
+  children: ReactNode
+  transport?: ChatTransport
+  cache?: ChatCache
+}
+
+/**
+ * ChatProvider Component - Must be rendered inside AuthProvider
+ */
+function ChatProvider({ children, transport = chatTransport, cache = chatCache }: ChatProviderProps) {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const userId = user?.id
+  const [state, dispatch] = useReducer(chatReducer, initialChatState)
+
+  const cursorRef = useRef<string | null>(null)
+  const outboxRef = useRef(new Map<string, SendEvent>())
+  const typingSentAtRef = useRef(new Map<string, number>())
+  const typingIdleTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+  const requestsRef = useRef(new Map<string, PendingRequest>())
+  const isReadyRef = useRef(false)
+
+  useEffect(() => {
+    cursorRef.current = state.cursor
+  }, [state.cursor])
+
+  // ==========================================================================
+  // CONNECTION
+  // ==========================================================================
+
+  useEffect(() => {
+    if (!userId) return
+
+    const outbox = outboxRef.current
+    const typingSentAt = typingSentAtRef.current
+    const idleTimers = typingIdleTimersRef.current
+    const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+    const requests = requestsRef.current
+
+    const settle = (requestId: string | undefined, conversation: Conversation | null) => {
+      if (!requestId) return
+      requests.get(requestId)?.resolve(conversation)
+      requests.delete(requestId)
+    }
+    const rejectAll = (message: string) => {
+      for (const request of requests.values()) request.reject(new Error(message))
+      requests.clear()
+    }
+
+    // Show the cached chats while the connection opens; unsent messages go
+    // back into the outbox
+    let isActive = true
+    void cache.load(userId).then(({ conversations, messages, queued }) => {
+      if (!isActive) return
+      const pending: ChatMessage[] = queued.map((m) => ({ ...m, clientId: m.id, deliveryStatus: 'pending' }))
+      for (const message of pending) {
+        const send: SendEvent = {
+          type: 'send',
+          clientId: message.id,
+          conversationId: message.conversationId,
+          content: message.content,
+          messageType: message.type,
+          attachments: message.attachments,
+        }
+        if (outbox.has(send.clientId)) continue
+        outbox.set(send.clientId, send)
+        if (isReadyRef.current) transport.send(send)
+      }
+      dispatch({ type: 'restored', conversations, messages, queued: pending })
+    })
+
+    const unsubscribeStatus = transport.onStatus((status) => {
+      isReadyRef.current = false
+      if (status === 'open') {
+        typingSentAt.clear()
+        transport.send({ type: 'hello', token: readSessionToken() ?? '', userId })
+      } else {
+        rejectAll('The connection was lost. Please try again.')
+      }
+      dispatch({ type: 'connection', connection: status === 'idle' ? 'offline' : 'connecting' })
+    })
+
+    const unsubscribeEvents = transport.onEvent((event) => {
+      switch (event.type) {
+        case 'ready':
+          isReadyRef.current = true
+          transport.send({ type: 'sync', since: cursorRef.current })
+          for (const send of outbox.values()) transport.send(send)
+          break
+        case 'synced':
+          dispatch(event)
+          void cache.saveConversations(userId, event.conversations, event.full)
+          void cache.saveMessages(event.messages)
+          break
+        case 'message':
+          if (event.clientId) {
+            outbox.delete(event.clientId)
+            void cache.dequeue(event.clientId)
+          }
+          void cache.saveMessages([event.message])
+          clearTimeout(expiryTimers.get(`${event.message.conversationId}:${event.message.senderId}`))
+          dispatch({ type: 'received', message: event.message, clientId: event.clientId })
+          break
+        case 'send-failed':
+          outbox.delete(event.clientId)
+          void cache.dequeue(event.clientId)
+          dispatch(event)
+          break
+        case 'typing': {
+          const key = `${event.conversationId}:${event.userId}`
+          clearTimeout(expiryTimers.get(key))
+          if (event.isTyping) {
+            expiryTimers.set(
+              key,
+              setTimeout(() => dispatch({ ...event, isTyping: false }), TYPING_EXPIRY_MS),
+            )
+          }
+          dispatch(event)
+          break
+        }
+        case 'read':
+          dispatch({ type: 'read', conversationId: event.conversationId, messageIds: event.messageIds })
+          break
+        case 'history':
+          dispatch({
+            type: 'history',
+            conversationId: event.conversationId,
+            messages: event.messages,
+            hasMore: event.hasMore,
+          })
+          void cache.saveMessages(event.messages)
+          break
+        case 'conversation':
+          dispatch({ type: 'conversation', conversation: event.conversation })
+          void cache.saveConversations(userId, [event.conversation])
+          settle(event.requestId, event.conversation)
+          break
+        case 'conversation-removed':
+          dispatch({ type: 'conversation-removed', conversationId: event.conversationId })
+          void cache.removeConversation(event.conversationId)
+          settle(event.requestId, null)
+          break
+        case 'request-failed':
+          requests.get(event.requestId)?.reject(new Error(event.error))
+          requests.delete(event.requestId)
+          break
+        case 'error':
+          dispatch({ type: 'error', message: event.message })
+          break
+      }
+    })
+
+    transport.connect()
+
+    return () => {
+      isActive = false
+      isReadyRef.current = false
+      unsubscribeStatus()
+      unsubscribeEvents()
+      transport.disconnect()
+      for (const timer of [...idleTimers.values(), ...expiryTimers.values()]) clearTimeout(timer)
+      idleTimers.clear()
+      typingSentAt.clear()
+      outbox.clear()
+      rejectAll('Signed out.')
+      dispatch({ type: 'reset' })
+    }
+  }, [transport, cache, userId])
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  const stopTyping = useCallback(
+    (conversationId: string) => {
+      clearTimeout(typingIdleTimersRef.current.get(conversationId))
+      typingIdleTimersRef.current.delete(conversationId)
+      if (typingSentAtRef.current.delete(conversationId)) {
+        transport.send({ type: 'typing', conversationId, isTyping: false })
+      }
+    },
+    [transport],
+  )
+
+  const notifyTyping = useCallback(
+    (conversationId: string) => {
+      const now = Date.now()
+      const lastSent = typingSentAtRef.current.get(conversationId) ?? 0
+      if (now - lastSent > TYPING_THROTTLE_MS && transport.send({ type: 'typing', conversationId, isTyping: true })) {
+        typingSentAtRef.current.set(conversationId, now)
+      }
+      clearTimeout(typingIdleTimersRef.current.get(conversationId))
+      typingIdleTimersRef.current.set(
+        conversationId,
+        setTimeout(() => stopTyping(conversationId), TYPING_IDLE_MS),
+      )
+    },
+    [transport, stopTyping],
+  )
+
+  const sendMessage = useCallback(
+    (conversationId: string, content: string, attachments: MediaAsset[] = []) => {
+      const text = content.trim()
+      if (!userId || validateMessageContent(text, attachments.length > 0)) return
+
+      const conversation = state.conversations[conversationId]
+      const clientId = createId('client')
+      const urls = attachments.map((attachment) => attachment.url)
+      const messageType: ChatMessage['type'] =
+        attachments.length === 0
+          ? 'text'
+          : attachments.every((asset) => asset.mimeType.startsWith('image/'))
+            ? 'image'
+            : 'file'
+      const event: SendEvent = {
+        type: 'send',
+        clientId,
+        conversationId,
+        content: text,
+        messageType,
+        attachments: urls.length ? urls : undefined,
+      }
+      const message: ChatMessage = {
+        id: clientId,
+        clientId,
+        conversationId,
+        senderId: userId,
+        receiverId: conversation?.isGroup
+          ? conversationId
+          : (conversation?.participants.find((id) => id !== userId) ?? userId),
+        content: text,
+        type: messageType,
+        isRead: false,
+        createdAt: new Date(),
+        attachments: event.attachments,
+        deliveryStatus: 'pending',
+      }
+      outboxRef.current.set(clientId, event)
+      void cache.queue(userId, message)
+      dispatch({ type: 'queued', message })
+
+      // The server ends our typing state when the message arrives
+      clearTimeout(typingIdleTimersRef.current.get(conversationId))
+      typingSentAtRef.current.delete(conversationId)
+      // If the connection is down, the outbox sends it after 'ready'
+      transport.send(event)
+    },
+    [transport, cache, userId, state.conversations],
+  )
+
+  const retryMessage = useCallback(
+    (clientId: string) => {
+      const message = Object.values(state.messages)
+        .flat()
+        .find((m) => m.clientId === clientId && m.deliveryStatus === 'failed')
+      if (!message || !userId) return
+      // Rejected sends are not remembered by the server, so the same
+      // clientId can be used again
+      const event: SendEvent = {
+        type: 'send',
+        clientId,
+        conversationId: message.conversationId,
+        content: message.content,
+        messageType: message.type,
+        attachments: message.attachments,
+      }
+      dispatch({ type: 'retry', clientId })
+      outboxRef.current.set(clientId, event)
+      void cache.queue(userId, message)
+      transport.send(event)
+    },
+    [transport, cache, userId, state.messages],
+  )
+
+  const markRead = useCallback(
+    (conversationId: string) => {
+      if (countUnread(state.messages[conversationId], userId) > 0) {
+        transport.send({ type: 'read', conversationId })
+      }
+    },
+    [transport, userId, state.messages],
+  )
+
+  const loadHistory = useCallback(
+    (conversationId: string) => {
+      if (state.loadingHistory[conversationId]) return
+      const oldest = state.messages[conversationId]?.[0]
+      const sent = transport.send({
+        type: 'history',
+        requestId: createId('history'),
+        conversationId,
+        before: (oldest?.createdAt ?? new Date()).toISOString(),
+        limit: HISTORY_PAGE_SIZE,
+      })
+      if (sent) dispatch({ type: 'history-requested', conversationId })
+    },
+    [transport, state.messages, state.loadingHistory],
+  )
+
+  /**
+   * request - Sends a request event and waits for its reply
+   */
+  const request = useCallback(
+    (event: RequestEvent) =>
+      new Promise<Conversation | null>((resolve, reject) => {
+        requestsRef.current.set(event.requestId, { resolve, reject })
+        if (!transport.send(event)) {
+          requestsRef.current.delete(event.requestId)
+          reject(new Error('You are offline. Try again once reconnected.'))
+        }
+      }),
+    [transport],
+  )
+
+  const startConversation = useCallback(
+    async (participantIds: string[], group: { groupName?: string; groupImage?: string } = {}) => {
+      const conversation = await request({
+        type: 'start-conversation',
+        requestId: createId('request'),
+        participantIds,
+        ...group,
+      })
+      if (!conversation) throw new Error(t('chat.startError'))
+      return conversation
+    },
+    [request, t],
+  )
+
+  const changeGroup = useCallback(
+    async (conversationId: string, change: GroupChange) => {
+      await request({ type: 'change-group', requestId: createId('request'), conversationId, change })
+    },
+    [request],
+  )
+
+  // ==========================================================================
+  // CONTEXT VALUE
+  // ==========================================================================
+
+  const conversations = useMemo(() => sortConversations(state.conversations), [state.conversations])
+
+  const unreadCount = useMemo(
+    () => conversations.reduce((total, c) => total + countUnread(state.messages[c.id], userId), 0),
+    [conversations, state.messages, userId],
+  )
+
+  useEffect(() => setUnreadCount('messages', unreadCount), [unreadCount])
+
+  const value = useMemo<ChatContextType>(
+    () => ({
+      connection: state.connection,
+      isSynced: state.isSynced,
+      error: state.error,
+      conversations,
+      messages: state.messages,
+      hasMoreHistory: state.hasMoreHistory,
+      loadingHistory: state.loadingHistory,
+      typing: state.typing,
+      unreadCount,
+      sendMessage,
+      retryMessage,
+      markRead,
+      notifyTyping,
+      stopTyping,
+      loadHistory,
+      startConversation,
+      changeGroup,
+    }),
+    [
+      state,
+      conversations,
+      unreadCount,
+      sendMessage,
+      retryMessage,
+      markRead,
+      notifyTyping,
+      stopTyping,
+      loadHistory,
+      startConversation,
+      changeGroup,
+    ],
+  )
+
+  return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>
+}
+
+export default ChatProvider
@@ -0,0 +1,113 @@
+/**
+ * ============================================================================
+ * STEP 2.24: I18nProvider - The Reader's Language for the Whole App
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * UPDATED: Feature Phase - Step 2.24 (catalogs checked by a test, not at runtime)
+ * PURPOSE: Chooses the language, remembers it, and gives components t()
+ *          and the locale their dates and numbers are formatted in
+ *
+ * Choosing the Language:
+ * 1. Saved on the account (User.locale) when signed in
+ * 2. Otherwise the last choice on this device (localStorage)
+ * 3. Otherwise the first supported language the browser asks for
+ * 4. Otherwise English
+ *
+ * Data Flow:
+ * - setLocale switches at once and stores the choice on the device; when
+ *   signed in it is also saved to the account, so it follows the reader
+ *   to other devices
+ * - Signing in with a saved language switches to it
+ * - <html lang dir> follow the locale: screen readers pick their voice
+ *   from lang, and dir="rtl" mirrors the layout (see App.css)
+ *
+ * LEARNING NOTES:
+ * - Must be rendered inside AuthProvider (it reads and saves the user)
+ * - t() changes identity with the locale, so memoized components that
+ *   use useI18n() re-render when the language changes
+ * - The catalogs are checked by a test (i18n/messages/index.test.ts), so
+ *   a broken translation fails CI instead of logging in someone's console
+ */
+
+import { Fragment, useCallback, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import {
+  isLocale,
+  localeInfo,
+  matchLocale,
+  translate,
+  translateParts,
+  type Locale,
+  type MessageKey,
+  type MessageValues,
+} from '../i18n'
+import { readJson, writeJson } from '../utils/storage'
+import { I18nContext, type I18nContextType } from './i18nContext'
+
+/** localStorage key (without prefix) of the language chosen on this device */
+const LOCALE_KEY = 'locale'
+
+/**
+ * initialLocale - The device's saved choice, else the browser's languages
+ */
+function initialLocale(): Locale {
+  const saved = readJson<unknown>(LOCALE_KEY, null)
+  return isLocale(saved) ? saved : matchLocale(navigator.languages ?? [navigator.language])
+}
+
+/**
+ * I18nProvider Props
+ * - children: The part of the app that can use useI18n()
+ */
+interface I18nProviderProps {
+  children: ReactNode
+}
+
+/**
+ * I18nProvider Component - Must be rendered inside AuthProvider
+ */
+function I18nProvider({ children }: I18nProviderProps) {
+  const { user, updateProfile } = useAuth()
+  const [locale, setLocaleState] = useState<Locale>(initialLocale)
+  const accountLocale = isLocale(user?.locale) ? user.locale : undefined
+
+  // Signing in (or the account changing elsewhere) brings its language
+  useEffect(() => {
+    if (!accountLocale) return
+    setLocaleState(accountLocale)
+    writeJson(LOCALE_KEY, accountLocale)
+  }, [accountLocale])
+
+  const { dir } = localeInfo(locale)
+  useEffect(() => {
+    document.documentElement.lang = locale
+    document.documentElement.dir = dir
+  }, [locale, dir])
+
+  const setLocale = useCallback(
+    async (next: Locale) => {
+      setLocaleState(next)
+      writeJson(LOCALE_KEY, next)
+      if (user && user.locale !== next) await updateProfile({ locale: next })
+    },
+    [user, updateProfile],
+  )
+
+  const value = useMemo<I18nContextType>(() => {
+    const numbers = new Intl.NumberFormat(locale)
+    return {
+      locale,
+      dir,
+      setLocale,
+      t: (key: MessageKey, values?: MessageValues) => translate(locale, key, values),
+      tRich: (key: MessageKey, values: Record<string, ReactNode>) =>
+        translateParts(locale, key, values).map((part, index) => <Fragment key={index}>{part}</Fragment>),
+      formatNumber: (number: number) => numbers.format(number),
+    }
+  }, [locale, dir, setLocale])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export default I18nProvider
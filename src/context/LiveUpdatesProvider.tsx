@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * STEP 2.21: LiveUpdatesProvider - Live Events Into the Global Store
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: Applies every live like, comment, new post and follow to the
+ *          global store, so each card showing it updates on its own
+ *
+ * Data Flow:
+ * 1. Screens watch the posts they show (useWatchPosts)
+ * 2. The live client delivers each event once (services/live)
+ * 3. This provider turns it into a store action (applyLiveEvent); the
+ *    cards read the result through usePostEntity
+ * 4. Screens with their own lists (a comment thread, the feed's "new
+ *    posts" bar) also listen with useLiveEvent
+ *
+ * LEARNING NOTES:
+ * - Notifications are live events too, but NotificationsProvider owns
+ *   that state, so it listens for them itself
+ * - ChatProvider owns the connection; this provider only listens to it,
+ *   so it must sit inside ChatProvider
+ */
+
+import { useEffect, type ReactNode } from 'react'
+import { liveClient } from '../services'
+import type { LiveClient } from '../services/live'
+import { applyLiveEvent } from '../store'
+import { LiveUpdatesContext } from './liveUpdatesContext'
+
+/**
+ * LiveUpdatesProvider Props
+ * - children: The part of the app that can use the live update hooks
+ * - client: Optional LiveClient (defaults to the shared one)
+ */
+interface LiveUpdatesProviderProps {
+  children: ReactNode
+  client?: LiveClient
+}
+
+/**
+ * LiveUpdatesProvider Component - Must be rendered inside ChatProvider
+ */
+function LiveUpdatesProvider({ children, client = liveClient }: LiveUpdatesProviderProps) {
+  useEffect(() => client.onEvent(applyLiveEvent), [client])
+
+  return <LiveUpdatesContext.Provider value={client}>{children}</LiveUpdatesContext.Provider>
+}
+
+export default LiveUpdatesProvider
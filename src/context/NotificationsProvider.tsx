@@ -0,0 +1,192 @@
+/**
+ * ============================================================================
+ * STEP 2.10: NotificationsProvider - Notification State for the Whole App
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * UPDATED: Feature Phase - Step 2.20 (unread count published to the global store)
+ * UPDATED: Feature Phase - Step 2.21 (notifications as numbered live events)
+ * UPDATED: Feature Phase - Step 2.24 (error texts are catalog keys)
+ * PURPOSE: Keeps the unread badge and the notification center up to date
+ *          while a user is signed in
+ *
+ * Data Flow:
+ * 1. A user signs in → fetch the first page, the unread count and the
+ *    muted types
+ * 2. New notifications arrive as live events ('notification'), together
+ *    with the new unread total
+ * 3. Reads from any tab (or from opening a chat) arrive as
+ *    'notifications-read'
+ * 4. After a reconnect the server replays what was pushed meanwhile; only
+ *    when it cannot (onResumed(false)) are the first page and the count
+ *    fetched again
+ *
+ * Marking as Read:
+ * - Optimistic: the list and badge update at once, then the API call runs;
+ *   if it fails the first page is fetched again to undo the guess
+ *
+ * LEARNING NOTES:
+ * - The count is also published to the global store (setUnreadCount); the
+ *   badge, the notifications page and the tab title all read it from there
+ * - ChatProvider owns the connection (hello, reconnects); this provider
+ *   only listens to live events on it (services/live), so it must sit
+ *   inside LiveUpdatesProvider, which sits inside ChatProvider
+ * - loadSeq ignores responses that arrive after a newer request started
+ *   (e.g. a refresh that overtakes a slow "load more")
+ */
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, type ReactNode } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import { useI18n } from '../hooks/useI18n'
+import { useLiveUpdates } from '../hooks/useLiveUpdates'
+import { messageText } from '../i18n'
+import { api } from '../services'
+import { setUnreadCount } from '../store'
+import type { NotificationType } from '../types'
+import { NotificationsContext, type NotificationsContextType } from './notificationsContext'
+import { initialNotificationsState, notificationsReducer } from './notificationsState'
+
+const PAGE_SIZE = 20
+
+/**
+ * NotificationsProvider Props
+ * - children: The part of the app that can use useNotifications()
+ */
+interface NotificationsProviderProps {
+  children: ReactNode
+}
+
+/**
+ * NotificationsProvider Component - Must be rendered inside LiveUpdatesProvider
+ */
+function NotificationsProvider({ children }: NotificationsProviderProps) {
+  const live = useLiveUpdates()
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const userId = user?.id
+  const [state, dispatch] = useReducer(notificationsReducer, initialNotificationsState)
+  const loadSeqRef = useRef(0)
+
+  // ==========================================================================
+  // LOADING
+  // ==========================================================================
+
+  const loadPage = useCallback(async (page: number) => {
+    const seq = ++loadSeqRef.current
+    dispatch({ type: 'loading' })
+    const response = await api.notifications.listNotifications({ page, limit: PAGE_SIZE })
+    if (seq !== loadSeqRef.current) return
+    if (!response.success || !response.data) {
+      dispatch({ type: 'failed', error: response.error ?? { key: 'notifications.loadError' } })
+      return
+    }
+    const { data, pagination } = response.data
+    dispatch({ type: 'page-loaded', page, notifications: data, hasMore: pagination.page < pagination.totalPages })
+  }, [])
+
+  const refresh = useCallback(async () => {
+    void loadPage(1)
+    const count = await api.notifications.getUnreadCount()
+    if (count.success && count.data) dispatch({ type: 'unread-count', count: count.data.count })
+  }, [loadPage])
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    const loadSeq = loadSeqRef
+    void refresh()
+    api.notifications.getPreferences().then((response) => {
+      if (!cancelled && response.success && response.data) dispatch({ type: 'muted', muted: response.data.muted })
+    })
+
+    const unsubscribeResumed = live.onResumed((complete) => {
+      if (!complete) void refresh()
+    })
+    const unsubscribe = live.onEvent((event) => {
+      switch (event.type) {
+        case 'notification':
+          dispatch({ type: 'received', notification: event.notification, unreadCount: event.unreadCount })
+          break
+        case 'notifications-read':
+          dispatch({ type: 'read', notificationIds: event.notificationIds, unreadCount: event.unreadCount })
+          break
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribeResumed()
+      unsubscribe()
+      // Pages still on their way belong to the old user
+      loadSeq.current++
+      dispatch({ type: 'reset' })
+    }
+  }, [live, userId, refresh])
+
+  useEffect(() => setUnreadCount('notifications', state.unreadCount), [state.unreadCount])
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  const loadMore = useCallback(() => {
+    if (state.isLoading || !state.hasMore) return
+    void loadPage(state.page + 1)
+  }, [loadPage, state.isLoading, state.hasMore, state.page])
+
+  const markRead = useCallback(
+    async (notificationIds: string[]) => {
+      if (notificationIds.length === 0) return
+      dispatch({ type: 'read', notificationIds })
+      const response =
+        notificationIds.length === 1
+          ? await api.notifications.markRead(notificationIds[0])
+          : await api.notifications.markManyRead(notificationIds)
+      if (!response.success) void refresh()
+    },
+    [refresh],
+  )
+
+  const markAllRead = useCallback(async () => {
+    dispatch({ type: 'read-all' })
+    const response = await api.notifications.markAllRead()
+    if (!response.success) void refresh()
+  }, [refresh])
+
+  const setMuted = useCallback(
+    async (muted: NotificationType[]) => {
+      const response = await api.notifications.updatePreferences(muted)
+      if (!response.success || !response.data) {
+        throw new Error(response.error ?? t('notificationPrefs.saveError'))
+      }
+      dispatch({ type: 'muted', muted: response.data.muted })
+    },
+    [t],
+  )
+
+  // ==========================================================================
+  // CONTEXT VALUE
+  // ==========================================================================
+
+  const value = useMemo<NotificationsContextType>(
+    () => ({
+      notifications: state.notifications,
+      unreadCount: state.unreadCount,
+      hasMore: state.hasMore,
+      isLoading: state.isLoading,
+      error: state.error && messageText(state.error, t),
+      muted: state.muted,
+      loadMore,
+      refresh: () => void refresh(),
+      markRead: (ids) => void markRead(ids),
+      markAllRead: () => void markAllRead(),
+      setMuted,
+    }),
+    [state, t, loadMore, refresh, markRead, markAllRead, setMuted],
+  )
+
+  return <NotificationsContext.Provider value={value}>{children}</NotificationsContext.Provider>
+}
+
+export default NotificationsProvider
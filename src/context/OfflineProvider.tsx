@@ -0,0 +1,63 @@
+/**
+ * ============================================================================
+ * STEP 2.16: OfflineProvider - Connection and Outbox State for the Whole App
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Tells the offline transport who is signed in, and shows its
+ *          status (online, queued actions, conflicts) to components
+ *
+ * Data Flow:
+ * 1. Auth finishes loading → transport.setViewer(user). A different user
+ *    than last time clears the cache and outbox; the same user replays
+ *    whatever is still queued
+ * 2. The transport notifies on every change; useSyncExternalStore reads
+ *    the new status
+ *
+ * LEARNING NOTES:
+ * - useSyncExternalStore is React's hook for state that lives outside
+ *   React. getStatus() must return the same object until something
+ *   changes, or React would re-render forever
+ * - The viewer is only set once auth has settled: during the first load
+ *   `user` is null, and treating that as a sign-out would wipe the cache
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore, type ReactNode } from 'react'
+import { useAuth } from '../hooks/useAuth'
+import { offlineTransport } from '../services'
+import type { OfflineTransport } from '../services/offline'
+import { OfflineContext, type OfflineContextType } from './offlineContext'
+
+/**
+ * OfflineProvider Props
+ * - children: The part of the app that can use useOffline()
+ * - transport: Optional OfflineTransport (defaults to the shared one)
+ */
+interface OfflineProviderProps {
+  children: ReactNode
+  transport?: OfflineTransport
+}
+
+/**
+ * OfflineProvider Component - Must be rendered inside AuthProvider
+ */
+function OfflineProvider({ children, transport = offlineTransport }: OfflineProviderProps) {
+  const { user, isLoading } = useAuth()
+  const status = useSyncExternalStore(transport.subscribe, transport.getStatus)
+
+  useEffect(() => {
+    if (!isLoading) void transport.setViewer(user)
+  }, [transport, user, isLoading])
+
+  const syncNow = useCallback(() => void transport.sync(), [transport])
+  const dismissConflict = useCallback((key: string) => transport.dismissConflict(key), [transport])
+
+  const value = useMemo<OfflineContextType>(
+    () => ({ ...status, syncNow, dismissConflict }),
+    [status, syncNow, dismissConflict],
+  )
+
+  return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>
+}
+
+export default OfflineProvider
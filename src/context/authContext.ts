@@ -0,0 +1,24 @@
+/**
+ * ============================================================================
+ * STEP 2.2: Auth Context Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * PURPOSE: The React context that AuthProvider fills and useAuth reads
+ *
+ * React Concepts Demonstrated:
+ * - createContext<T | undefined>(undefined): No default value on purpose,
+ *   so using the context outside a provider is detected (see useAuth)
+ *
+ * LEARNING NOTES:
+ * - The context lives in its own .ts file because React Fast Refresh
+ *   expects .tsx component files to export only components
+ */
+
+import { createContext } from 'react'
+import type { AuthContextType } from '../types'
+
+/**
+ * AuthContext - Holds the current AuthContextType value
+ */
+export const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat Context Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (startConversation, changeGroup)
+ * UPDATED: Feature Phase - Step 2.17 (attachments for sendMessage)
+ * PURPOSE: The React context that ChatProvider fills and useChat reads
+ *
+ * LEARNING NOTES:
+ * - Same layout as authContext.ts: context in a .ts file, provider in a
+ *   .tsx file, hook in src/hooks
+ */
+
+import { createContext } from 'react'
+import type { Conversation, GroupChange, MediaAsset } from '../types'
+import type { ChatConnection, ChatMessage } from './chatState'
+
+/**
+ * ChatContextType - Chat state and actions available to components
+ *
+ * State:
+ * - connection / isSynced: Connection status for the UI
+ * - conversations: Most recent activity first
+ * - messages: conversationId → messages, oldest first
+ * - typing: conversationId → IDs of other users typing there
+ * - unreadCount: Unread messages across every conversation
+ *
+ * Actions:
+ * - sendMessage: Shows the message immediately, then delivers it (with
+ *   attachments that were already uploaded)
+ * - retryMessage: Sends a failed message again
+ * - markRead: Marks everything from others in a conversation as read
+ * - notifyTyping / stopTyping: Call on every keystroke / on send or blur
+ *   (throttled inside the provider)
+ * - loadHistory: Fetches older messages for a conversation
+ * - startConversation: Opens a direct chat or creates a group; resolves
+ *   with the conversation
+ * - changeGroup: Applies one GroupChange; rejects with the server's reason
+ */
+export interface ChatContextType {
+  connection: ChatConnection
+  isSynced: boolean
+  error: string | null
+  conversations: Conversation[]
+  messages: Record<string, ChatMessage[]>
+  hasMoreHistory: Record<string, boolean>
+  loadingHistory: Record<string, boolean>
+  typing: Record<string, string[]>
+  unreadCount: number
+  sendMessage: (conversationId: string, content: string, attachments?: MediaAsset[]) => void
+  retryMessage: (clientId: string) => void
+  markRead: (conversationId: string) => void
+  notifyTyping: (conversationId: string) => void
+  stopTyping: (conversationId: string) => void
+  loadHistory: (conversationId: string) => void
+  startConversation: (participantIds: string[], group?: { groupName?: string; groupImage?: string }) => Promise<Conversation>
+  changeGroup: (conversationId: string, change: GroupChange) => Promise<void>
+}
+
+/**
+ * ChatContext - Holds the current ChatContextType value
+ */
+export const ChatContext = createContext<ChatContextType | undefined>(undefined)
@@ -0,0 +1,373 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat State - Reducer for Conversations, Messages and Presence
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (conversations added, changed, removed)
+ * UPDATED: Feature Phase - Step 2.16 (state restored from the offline cache)
+ * PURPOSE: Every change ChatProvider makes to chat state, as pure functions
+ *
+ * Message Lifecycle (deliveryStatus):
+ *   pending ──ack ('message' with our clientId)──► sent
+ *      │  ▲
+ *      │  └────────────── retry
+ *      └──'send-failed'──► failed
+ * - A pending message uses its clientId as a temporary id; the ack swaps in
+ *   the server's copy at the same position
+ * - "Seen" is simply isRead on a sent message, flipped by 'read' events
+ *
+ * Merging:
+ * - Every list is kept sorted oldest → newest and free of duplicates
+ *   (mergeMessages), because the same message can arrive twice: live, and
+ *   again in the backfill after a reconnect
+ *
+ * Restoring (Step 2.16):
+ * - 'restored' fills the state from the offline cache before the first
+ *   sync, so the inbox shows at once, even without a connection
+ * - If the sync won the race, the cached copy is older than what we have
+ *   and only the unsent messages are taken from it
+ *
+ * LEARNING NOTES:
+ * - Reducers must not mutate: each case copies only what it changes
+ * - Kept out of ChatProvider.tsx so the component file exports only
+ *   components (React Fast Refresh)
+ */
+
+import type { Conversation, Message } from '../types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * DeliveryStatus - Where our own message is on its way to the server
+ */
+export type DeliveryStatus = 'pending' | 'sent' | 'failed'
+
+/**
+ * ChatMessage - A message plus client-side delivery information
+ * - clientId: Set on messages sent from this tab
+ * - error: Why a failed message was rejected
+ */
+export type ChatMessage = Message & {
+  deliveryStatus: DeliveryStatus
+  clientId?: string
+  error?: string
+}
+
+/**
+ * ChatConnection - What the user sees about the connection
+ * - offline: Not connected (logged out, or waiting to reconnect)
+ * - connecting: Socket opening, or authenticating/syncing
+ * - online: Synced; events flow live
+ */
+export type ChatConnection = 'offline' | 'connecting' | 'online'
+
+/**
+ * ChatState
+ * - cursor: serverTime of the last sync, sent as `since` after a reconnect
+ * - typing: conversationId → IDs of OTHER users typing there
+ */
+export interface ChatState {
+  connection: ChatConnection
+  isSynced: boolean
+  cursor: string | null
+  conversations: Record<string, Conversation>
+  messages: Record<string, ChatMessage[]>
+  hasMoreHistory: Record<string, boolean>
+  loadingHistory: Record<string, boolean>
+  typing: Record<string, string[]>
+  error: string | null
+}
+
+export type ChatAction =
+  | { type: 'connection'; connection: ChatConnection }
+  | { type: 'synced'; conversations: Conversation[]; messages: Message[]; serverTime: string; full: boolean }
+  | { type: 'received'; message: Message; clientId?: string }
+  | { type: 'queued'; message: ChatMessage }
+  | { type: 'restored'; conversations: Conversation[]; messages: Message[]; queued: ChatMessage[] }
+  | { type: 'send-failed'; clientId: string; error: string }
+  | { type: 'retry'; clientId: string }
+  | { type: 'read'; conversationId: string; messageIds: string[] }
+  | { type: 'typing'; conversationId: string; userId: string; isTyping: boolean }
+  | { type: 'history-requested'; conversationId: string }
+  | { type: 'history'; conversationId: string; messages: Message[]; hasMore: boolean }
+  | { type: 'conversation'; conversation: Conversation }
+  | { type: 'conversation-removed'; conversationId: string }
+  | { type: 'error'; message: string }
+  | { type: 'reset' }
+
+export const initialChatState: ChatState = {
+  connection: 'offline',
+  isSynced: false,
+  cursor: null,
+  conversations: {},
+  messages: {},
+  hasMoreHistory: {},
+  loadingHistory: {},
+  typing: {},
+  error: null,
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const sent = (message: Message): ChatMessage => ({ ...message, deliveryStatus: 'sent' })
+
+const byCreatedAt = (a: ChatMessage, b: ChatMessage) => a.createdAt.getTime() - b.createdAt.getTime()
+
+/**
+ * mergeMessages - Adds/replaces messages by id, keeping the list sorted
+ */
+function mergeMessages(list: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  if (incoming.length === 0) return list
+  const byId = new Map(list.map((message) => [message.id, message]))
+  for (const message of incoming) byId.set(message.id, message)
+  return [...byId.values()].sort(byCreatedAt)
+}
+
+/**
+ * groupByConversation - Splits messages into one list per conversation
+ */
+function groupByConversation(messages: Message[]): Record<string, ChatMessage[]> {
+  const groups: Record<string, ChatMessage[]> = {}
+  for (const message of messages) {
+    ;(groups[message.conversationId] ??= []).push(sent(message))
+  }
+  return groups
+}
+
+/**
+ * groupQueued - Like groupByConversation, for messages not yet delivered
+ */
+function groupQueued(messages: ChatMessage[]): Record<string, ChatMessage[]> {
+  const groups: Record<string, ChatMessage[]> = {}
+  for (const message of messages) {
+    ;(groups[message.conversationId] ??= []).push(message)
+  }
+  return groups
+}
+
+/**
+ * withLastMessage - Moves a conversation's preview forward if `message` is newer
+ */
+function withLastMessage(conversation: Conversation | undefined, message: Message): Conversation | undefined {
+  if (!conversation) return conversation
+  const last = conversation.lastMessage
+  if (last && last.id !== message.id && last.createdAt > message.createdAt) return conversation
+  return {
+    ...conversation,
+    lastMessage: message,
+    updatedAt: message.createdAt > conversation.updatedAt ? message.createdAt : conversation.updatedAt,
+  }
+}
+
+/**
+ * updateByClientId - Applies `change` to the message with this clientId
+ */
+function updateByClientId(
+  state: ChatState,
+  clientId: string,
+  change: (message: ChatMessage) => ChatMessage,
+): ChatState {
+  for (const [conversationId, list] of Object.entries(state.messages)) {
+    const index = list.findIndex((message) => message.clientId === clientId)
+    if (index === -1) continue
+    const next = [...list]
+    next[index] = change(list[index])
+    return { ...state, messages: { ...state.messages, [conversationId]: next } }
+  }
+  return state
+}
+
+// ============================================================================
+// REDUCER
+// ============================================================================
+
+/**
+ * chatReducer - Applies one ChatAction
+ */
+export function chatReducer(state: ChatState, action: ChatAction): ChatState {
+  switch (action.type) {
+    case 'connection':
+      return {
+        ...state,
+        connection: action.connection,
+        // Nobody is "typing" across a disconnect; fresh events will follow
+        typing: action.connection === 'online' ? state.typing : {},
+      }
+
+    case 'synced': {
+      const conversations: Record<string, Conversation> = {}
+      for (const conversation of action.conversations) conversations[conversation.id] = conversation
+
+      const incoming = groupByConversation(action.messages)
+      const messages: Record<string, ChatMessage[]> = {}
+      for (const id of Object.keys(conversations)) {
+        const current = state.messages[id] ?? []
+        // A full sync replaces what the server knows about, but never drops
+        // messages still waiting to be delivered
+        const base = action.full ? current.filter((m) => m.deliveryStatus !== 'sent') : current
+        messages[id] = mergeMessages(base, incoming[id] ?? [])
+      }
+
+      return {
+        ...state,
+        connection: 'online',
+        isSynced: true,
+        cursor: action.serverTime,
+        conversations,
+        messages,
+        hasMoreHistory: action.full ? {} : state.hasMoreHistory,
+        loadingHistory: {},
+        error: null,
+      }
+    }
+
+    case 'received': {
+      const { message, clientId } = action
+      const conversationId = message.conversationId
+      const list = (state.messages[conversationId] ?? []).filter((m) => !clientId || m.clientId !== clientId)
+      const typing = (state.typing[conversationId] ?? []).filter((id) => id !== message.senderId)
+      const conversation = withLastMessage(state.conversations[conversationId], message)
+      return {
+        ...state,
+        messages: { ...state.messages, [conversationId]: mergeMessages(list, [{ ...sent(message), clientId }]) },
+        conversations: conversation ? { ...state.conversations, [conversationId]: conversation } : state.conversations,
+        typing: { ...state.typing, [conversationId]: typing },
+      }
+    }
+
+    case 'queued': {
+      const conversationId = action.message.conversationId
+      const list = state.messages[conversationId] ?? []
+      return { ...state, messages: { ...state.messages, [conversationId]: [...list, action.message] } }
+    }
+
+    case 'restored': {
+      const queued = groupQueued(action.queued)
+      if (state.isSynced) {
+        const messages = { ...state.messages }
+        for (const [id, list] of Object.entries(queued)) {
+          if (messages[id]) messages[id] = mergeMessages(messages[id], list)
+        }
+        return { ...state, messages }
+      }
+
+      const conversations: Record<string, Conversation> = {}
+      for (const conversation of action.conversations) conversations[conversation.id] = conversation
+      const incoming = groupByConversation(action.messages)
+      const messages: Record<string, ChatMessage[]> = {}
+      for (const id of Object.keys(conversations)) {
+        messages[id] = mergeMessages(incoming[id] ?? [], queued[id] ?? [])
+      }
+      return { ...state, conversations, messages }
+    }
+
+    case 'send-failed':
+      return updateByClientId(state, action.clientId, (message) => ({
+        ...message,
+        deliveryStatus: 'failed',
+        error: action.error,
+      }))
+
+    case 'retry':
+      return updateByClientId(state, action.clientId, (message) => ({
+        ...message,
+        deliveryStatus: 'pending',
+        error: undefined,
+      }))
+
+    case 'read': {
+      const list = state.messages[action.conversationId]
+      if (!list) return state
+      const ids = new Set(action.messageIds)
+      const conversation = state.conversations[action.conversationId]
+      const last = conversation?.lastMessage
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [action.conversationId]: list.map((m) => (ids.has(m.id) ? { ...m, isRead: true } : m)),
+        },
+        conversations:
+          conversation && last && ids.has(last.id)
+            ? { ...state.conversations, [conversation.id]: { ...conversation, lastMessage: { ...last, isRead: true } } }
+            : state.conversations,
+      }
+    }
+
+    case 'typing': {
+      const current = (state.typing[action.conversationId] ?? []).filter((id) => id !== action.userId)
+      return {
+        ...state,
+        typing: {
+          ...state.typing,
+          [action.conversationId]: action.isTyping ? [...current, action.userId] : current,
+        },
+      }
+    }
+
+    case 'history-requested':
+      return { ...state, loadingHistory: { ...state.loadingHistory, [action.conversationId]: true } }
+
+    case 'history': {
+      const list = state.messages[action.conversationId] ?? []
+      return {
+        ...state,
+        messages: {
+          ...state.messages,
+          [action.conversationId]: mergeMessages(list, action.messages.map(sent)),
+        },
+        hasMoreHistory: { ...state.hasMoreHistory, [action.conversationId]: action.hasMore },
+        loadingHistory: { ...state.loadingHistory, [action.conversationId]: false },
+      }
+    }
+
+    case 'conversation': {
+      const { conversation } = action
+      return {
+        ...state,
+        conversations: { ...state.conversations, [conversation.id]: conversation },
+        messages: state.messages[conversation.id] ? state.messages : { ...state.messages, [conversation.id]: [] },
+      }
+    }
+
+    case 'conversation-removed': {
+      const conversations = { ...state.conversations }
+      const messages = { ...state.messages }
+      const typing = { ...state.typing }
+      delete conversations[action.conversationId]
+      delete messages[action.conversationId]
+      delete typing[action.conversationId]
+      return { ...state, conversations, messages, typing }
+    }
+
+    case 'error':
+      return { ...state, error: action.message }
+
+    case 'reset':
+      return initialChatState
+  }
+}
+
+// ============================================================================
+// SELECTORS
+// ============================================================================
+
+/**
+ * countUnread - Messages from others in a conversation not yet read
+ */
+export function countUnread(messages: ChatMessage[] | undefined, viewerId: string | undefined): number {
+  if (!messages || !viewerId) return 0
+  return messages.filter((m) => m.senderId !== viewerId && !m.isRead && m.type !== 'system').length
+}
+
+/**
+ * sortConversations - Most recent activity first
+ */
+export function sortConversations(conversations: Record<string, Conversation>): Conversation[] {
+  return Object.values(conversations).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
@@ -0,0 +1,43 @@
+/**
+ * ============================================================================
+ * STEP 2.24: I18n Context Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: The React context that I18nProvider fills and useI18n reads
+ *
+ * LEARNING NOTES:
+ * - Same layout as offlineContext.ts: context in a .ts file, provider in a
+ *   .tsx file, hook in src/hooks
+ */
+
+import { createContext, type ReactNode } from 'react'
+import type { Locale, MessageKey, Translate } from '../i18n'
+
+/**
+ * I18nContextType - The reader's language and how to write in it
+ *
+ * State:
+ * - locale: The language in use
+ * - dir: Its writing direction ('rtl' for Arabic), also set on <html>
+ *
+ * Actions:
+ * - setLocale: Switches language; signed in, it is saved to the account
+ *   (rejects when that fails, after switching on this device anyway)
+ * - t: A catalog message as text, e.g. t('feed.newPosts', { count: 3 })
+ * - tRich: A message with React nodes (links) among its values
+ * - formatNumber: 1234 → "1,234" / "1.234" / "١٬٢٣٤"
+ */
+export interface I18nContextType {
+  locale: Locale
+  dir: 'ltr' | 'rtl'
+  setLocale: (locale: Locale) => Promise<void>
+  t: Translate
+  tRich: (key: MessageKey, values: Record<string, ReactNode>) => ReactNode
+  formatNumber: (value: number) => string
+}
+
+/**
+ * I18nContext - Holds the current I18nContextType value
+ */
+export const I18nContext = createContext<I18nContextType | undefined>(undefined)
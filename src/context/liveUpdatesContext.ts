@@ -0,0 +1,23 @@
+/**
+ * ============================================================================
+ * STEP 2.21: Live Updates Context Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: The React context that LiveUpdatesProvider fills and the hooks
+ *          in hooks/useLiveUpdates.ts read
+ *
+ * LEARNING NOTES:
+ * - Same layout as chatContext.ts: context in a .ts file, provider in a
+ *   .tsx file, hook in src/hooks
+ * - The value is the LiveClient itself; it never changes while the app
+ *   runs, so nothing re-renders through this context
+ */
+
+import { createContext } from 'react'
+import type { LiveClient } from '../services/live'
+
+/**
+ * LiveUpdatesContext - Holds the app's LiveClient
+ */
+export const LiveUpdatesContext = createContext<LiveClient | undefined>(undefined)
@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * STEP 2.10: Notifications Context Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * PURPOSE: The React context that NotificationsProvider fills and
+ *          useNotifications reads
+ *
+ * LEARNING NOTES:
+ * - Same layout as chatContext.ts: context in a .ts file, provider in a
+ *   .tsx file, hook in src/hooks
+ */
+
+import { createContext } from 'react'
+import type { Notification, NotificationType } from '../types'
+
+/**
+ * NotificationsContextType - Notification state and actions
+ *
+ * State:
+ * - notifications: Loaded and live notifications, newest first
+ * - unreadCount: Unread notifications on the server (for the badge)
+ * - muted: Muted types, null until loaded
+ *
+ * Actions:
+ * - loadMore: Fetches the next page
+ * - refresh: Starts over from the first page (e.g. after an error)
+ * - markRead: Marks the given notifications (e.g. one group) as read
+ * - markAllRead: Marks every notification as read
+ * - setMuted: Saves the muted types; rejects with the server's reason
+ */
+export interface NotificationsContextType {
+  notifications: Notification[]
+  unreadCount: number
+  hasMore: boolean
+  isLoading: boolean
+  error: string | null
+  muted: NotificationType[] | null
+  loadMore: () => void
+  refresh: () => void
+  markRead: (notificationIds: string[]) => void
+  markAllRead: () => void
+  setMuted: (muted: NotificationType[]) => Promise<void>
+}
+
+/**
+ * NotificationsContext - Holds the current NotificationsContextType value
+ */
+export const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined)
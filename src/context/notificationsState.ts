@@ -0,0 +1,139 @@
+/**
+ * ============================================================================
+ * STEP 2.10: Notifications State - Reducer for the Notification Center
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * UPDATED: Feature Phase - Step 2.24 (load errors follow the reader's language)
+ * PURPOSE: Every change NotificationsProvider makes to notification state,
+ *          as pure functions
+ *
+ * Where Notifications Come From:
+ * - Pages fetched over the API ('page-loaded'), newest first
+ * - Live pushes over the chat connection ('received')
+ * The same notification can arrive both ways, so lists are merged by id.
+ *
+ * The Unread Count:
+ * - Comes from the server (unread-count endpoint, and the total carried
+ *   by every live event), because unread notifications may sit on pages
+ *   that were never loaded
+ * - Marking read locally subtracts only what this tab knows was unread;
+ *   the next server total corrects any difference
+ *
+ * LEARNING NOTES:
+ * - Kept out of NotificationsProvider.tsx so the component file exports
+ *   only components (React Fast Refresh)
+ */
+
+import type { AppMessage } from '../i18n'
+import type { Notification, NotificationType } from '../types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * NotificationsState
+ * - page: Pages loaded so far (0 before the first load)
+ * - muted: Muted types, or null until the preferences are loaded
+ */
+export interface NotificationsState {
+  notifications: Notification[]
+  unreadCount: number
+  page: number
+  hasMore: boolean
+  isLoading: boolean
+  error: AppMessage | null
+  muted: NotificationType[] | null
+}
+
+export type NotificationsAction =
+  | { type: 'loading' }
+  | { type: 'page-loaded'; page: number; notifications: Notification[]; hasMore: boolean }
+  | { type: 'failed'; error: AppMessage }
+  | { type: 'unread-count'; count: number }
+  | { type: 'received'; notification: Notification; unreadCount: number }
+  | { type: 'read'; notificationIds: string[]; unreadCount?: number }
+  | { type: 'read-all' }
+  | { type: 'muted'; muted: NotificationType[] }
+  | { type: 'reset' }
+
+export const initialNotificationsState: NotificationsState = {
+  notifications: [],
+  unreadCount: 0,
+  page: 0,
+  hasMore: false,
+  isLoading: false,
+  error: null,
+  muted: null,
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * mergeNotifications - Adds/replaces by id, newest first
+ */
+function mergeNotifications(list: Notification[], incoming: Notification[]): Notification[] {
+  const byId = new Map(list.map((notification) => [notification.id, notification]))
+  for (const notification of incoming) byId.set(notification.id, notification)
+  return [...byId.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+// ============================================================================
+// REDUCER
+// ============================================================================
+
+export function notificationsReducer(state: NotificationsState, action: NotificationsAction): NotificationsState {
+  switch (action.type) {
+    case 'loading':
+      return { ...state, isLoading: true, error: null }
+
+    case 'page-loaded':
+      return {
+        ...state,
+        // Page 1 is a refresh: start over so removed notifications disappear
+        notifications: mergeNotifications(action.page === 1 ? [] : state.notifications, action.notifications),
+        page: action.page,
+        hasMore: action.hasMore,
+        isLoading: false,
+      }
+
+    case 'failed':
+      return { ...state, isLoading: false, error: action.error }
+
+    case 'unread-count':
+      return { ...state, unreadCount: action.count }
+
+    case 'received':
+      return {
+        ...state,
+        notifications: mergeNotifications(state.notifications, [action.notification]),
+        unreadCount: action.unreadCount,
+      }
+
+    case 'read': {
+      const ids = new Set(action.notificationIds)
+      const knownUnread = state.notifications.filter((n) => ids.has(n.id) && !n.isRead).length
+      return {
+        ...state,
+        notifications: state.notifications.map((n) => (ids.has(n.id) && !n.isRead ? { ...n, isRead: true } : n)),
+        unreadCount: action.unreadCount ?? Math.max(0, state.unreadCount - knownUnread),
+      }
+    }
+
+    case 'read-all':
+      return {
+        ...state,
+        notifications: state.notifications.map((n) => (n.isRead ? n : { ...n, isRead: true })),
+        unreadCount: 0,
+      }
+
+    case 'muted':
+      return { ...state, muted: action.muted }
+
+    case 'reset':
+      return initialNotificationsState
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Offline Context Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: The React context that OfflineProvider fills and useOffline reads
+ *
+ * LEARNING NOTES:
+ * - Same layout as chatContext.ts: context in a .ts file, provider in a
+ *   .tsx file, hook in src/hooks
+ */
+
+import { createContext } from 'react'
+import type { OfflineStatus } from '../services/offline'
+
+/**
+ * OfflineContextType - Connection state and the outbox
+ *
+ * State (OfflineStatus):
+ * - isOnline: Whether requests currently reach the server
+ * - pendingCount: Actions waiting in the outbox
+ * - isSyncing: The outbox is being replayed
+ * - conflicts: Queued actions the server refused
+ *
+ * Actions:
+ * - syncNow: Replays the outbox at once (e.g. a "Retry" button)
+ * - dismissConflict: Hides one refused action
+ */
+export interface OfflineContextType extends OfflineStatus {
+  syncNow: () => void
+  dismissConflict: (key: string) => void
+}
+
+/**
+ * OfflineContext - Holds the current OfflineContextType value
+ */
+export const OfflineContext = createContext<OfflineContextType | undefined>(undefined)
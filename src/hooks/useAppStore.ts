@@ -0,0 +1,51 @@
+/**
+ * ============================================================================
+ * STEP 2.20: useAppStore - Selector Hooks for the Global Store
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * PURPOSE: Read the part of the store a component shows, and re-render
+ *          only when that part changes
+ *
+ * @example
+ * const { notifications } = useUnreadCounts()
+ * const post = usePostEntity(listedPost)
+ */
+
+import { useMemo, useSyncExternalStore } from 'react'
+import { appStore, selectPost, selectUnreadCounts, type RootState, type UnreadCounts } from '../store'
+import type { Post } from '../types'
+
+/**
+ * useAppSelector - The selected value, kept current
+ *
+ * `selector` must return something already in the state (see
+ * store/selectors.ts); a component re-renders when it returns something
+ * different from last time.
+ */
+export function useAppSelector<T>(selector: (state: RootState) => T): T {
+  return useSyncExternalStore(appStore.subscribe, () => selector(appStore.getState()))
+}
+
+/**
+ * useUnreadCounts - Unread messages and notifications, the same everywhere
+ */
+export function useUnreadCounts(): UnreadCounts {
+  return useAppSelector(selectUnreadCounts)
+}
+
+/**
+ * usePostEntity - The store's copy of `post`, or `post` itself until the
+ * store has one
+ *
+ * followedTag is kept from the listed copy: it says why THIS list shows
+ * the post, which the shared copy cannot know.
+ */
+export function usePostEntity(post: Post): Post {
+  const stored = useAppSelector(selectPost(post.id))
+  const { followedTag } = post
+  return useMemo(() => {
+    if (!stored) return post
+    return followedTag ? { ...stored, followedTag } : stored
+  }, [stored, post, followedTag])
+}
@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * STEP 2.2: useAuth - Hook for Reading Authentication State
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * PURPOSE: The one way components access the current user and auth actions
+ *
+ * React Concepts Demonstrated:
+ * - Custom hooks: Functions starting with 'use' that call other hooks
+ * - useContext: Reads the nearest provider's value
+ * - Fail fast: Throwing when no provider exists turns a silent bug
+ *   (undefined user everywhere) into a clear error message
+ *
+ * @example
+ * const { user, login, logout } = useAuth()
+ */
+
+import { useContext } from 'react'
+import { AuthContext } from '../context/authContext'
+import type { AuthContextType } from '../types'
+
+/**
+ * useAuth - Returns the AuthContextType from the nearest AuthProvider
+ */
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext)
+  if (context === undefined) {
+    throw new Error('useAuth must be used inside an <AuthProvider>')
+  }
+  return context
+}
@@ -0,0 +1,25 @@
+/**
+ * ============================================================================
+ * STEP 2.8: useChat - Hook for Real-Time Messaging
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: Access conversations, messages and chat actions from ChatProvider
+ *
+ * @example
+ * const { conversations, sendMessage } = useChat()
+ */
+
+import { useContext } from 'react'
+import { ChatContext, type ChatContextType } from '../context/chatContext'
+
+/**
+ * useChat - Returns the ChatContextType from the nearest ChatProvider
+ */
+export function useChat(): ChatContextType {
+  const context = useContext(ChatContext)
+  if (context === undefined) {
+    throw new Error('useChat must be used inside a <ChatProvider>')
+  }
+  return context
+}
@@ -0,0 +1,226 @@
+/**
+ * ============================================================================
+ * STEP 2.7: useCommentThread - Load and Change a Post's Comments
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.7 (Threaded comments)
+ * UPDATED: Feature Phase - Step 2.20 (optimistic comments and comment likes)
+ * UPDATED: Feature Phase - Step 2.21 (live comments)
+ * UPDATED: Feature Phase - Step 2.24 (error texts are catalog keys)
+ * PURPOSE: Keep a post's comments as a flat list and expose every action the
+ *          thread UI needs (reply, edit, delete, like, load more)
+ *
+ * Why a Flat List:
+ * - The server sends comments flat and the tree is DERIVED with
+ *   buildCommentTree at render time; updating one comment is then a simple
+ *   map() over an array instead of a search through nested children
+ *
+ * How Paging Works:
+ * - Pages come from listThreads: N top-level comments with all their
+ *   replies, in the chosen sort order
+ * - Changing the sort reloads from page 1
+ *
+ * Optimistic Changes (Step 2.20):
+ * - A new comment shows at once as a pending copy (and counts on the post's
+ *   card through the global store); the server's copy replaces it, or it
+ *   is taken out again if the server refuses
+ * - A like flips at once and flips back, with a toast, if it fails
+ *
+ * Live Comments (Step 2.21):
+ * - Comments other people add while the thread is open are merged in as
+ *   they arrive (useLiveEvent); the viewer's own may arrive live before
+ *   the server's answer, so the pending copy is dropped rather than
+ *   swapped in place
+ *
+ * LEARNING NOTES:
+ * - Write actions call unwrap(), so a failure throws; CommentForm catches a
+ *   ValidationError and shows it under the textarea (a refused comment is
+ *   therefore not also raised as a toast)
+ * - Deleting reuses deleteComment from utils/commentTree, the same function
+ *   the mock server runs, so the UI result always matches the server
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { messageText, type AppMessage } from '../i18n'
+import { api } from '../services'
+import { unwrap } from '../services/api'
+import { optimisticUpdate, removePostComment, reportError } from '../store'
+import type { Comment, CommentSort } from '../types'
+import { deleteComment } from '../utils/commentTree'
+import { createId } from '../utils/ids'
+import { useAuth } from './useAuth'
+import { useI18n } from './useI18n'
+import { useLiveEvent } from './useLiveUpdates'
+
+const THREADS_PER_PAGE = 10
+
+/**
+ * ThreadState - Loaded comments plus paging/loading flags
+ */
+interface ThreadState {
+  comments: Comment[]
+  page: number
+  hasMore: boolean
+  isLoading: boolean
+  error: AppMessage | null
+}
+
+const INITIAL_STATE: ThreadState = { comments: [], page: 0, hasMore: true, isLoading: true, error: null }
+
+/**
+ * mergeComments - Adds comments, replacing any already present by ID
+ */
+function mergeComments(existing: Comment[], incoming: Comment[]): Comment[] {
+  const byId = new Map(existing.map((c) => [c.id, c]))
+  for (const comment of incoming) byId.set(comment.id, comment)
+  return [...byId.values()]
+}
+
+/**
+ * provisionalComment - The pending copy shown until the server answers
+ */
+function provisionalComment(postId: string, authorId: string, content: string, parentId?: string): Comment {
+  const now = new Date()
+  return {
+    id: createId('comment'),
+    postId,
+    authorId,
+    content,
+    likes: [],
+    createdAt: now,
+    updatedAt: now,
+    parentId,
+    isPending: true,
+  }
+}
+
+/**
+ * useCommentThread - Comments of `postId`, paged in `sort` order
+ */
+export function useCommentThread(postId: string, sort: CommentSort) {
+  const [state, setState] = useState<ThreadState>(INITIAL_STATE)
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const currentUserId = user?.id
+
+  const fetchPage = useCallback(
+    async (page: number, signal: { cancelled: boolean }) => {
+      setState((prev) => ({ ...prev, isLoading: true, error: null }))
+      const response = await api.comments.listThreads(postId, { sort, page, limit: THREADS_PER_PAGE })
+      if (signal.cancelled) return
+
+      if (response.success && response.data) {
+        const { data, pagination } = response.data
+        setState((prev) => ({
+          comments: page === 1 ? data : mergeComments(prev.comments, data),
+          page,
+          hasMore: page < pagination.totalPages,
+          isLoading: false,
+          error: null,
+        }))
+      } else {
+        setState((prev) => ({ ...prev, isLoading: false, error: response.error ?? { key: 'comments.loadError' } }))
+      }
+    },
+    [postId, sort],
+  )
+
+  useEffect(() => {
+    const signal = { cancelled: false }
+    setState(INITIAL_STATE)
+    void fetchPage(1, signal)
+    return () => {
+      signal.cancelled = true
+    }
+  }, [fetchPage])
+
+  const loadMore = useCallback(() => {
+    if (state.isLoading || !state.hasMore) return
+    void fetchPage(state.page + 1, { cancelled: false })
+  }, [fetchPage, state.isLoading, state.hasMore, state.page])
+
+  useLiveEvent((event) => {
+    if (event.type !== 'comment-added' || event.comment.postId !== postId) return
+    setState((prev) => ({ ...prev, comments: mergeComments(prev.comments, [event.comment]) }))
+  })
+
+  /** Swaps in the server's copy of a comment */
+  const replace = useCallback((comment: Comment) => {
+    setState((prev) => ({ ...prev, comments: mergeComments(prev.comments, [comment]) }))
+  }, [])
+
+  /** Swaps a provisional comment for another (or drops it when null) */
+  const swap = useCallback((commentId: string, comment: Comment | null) => {
+    setState((prev) => {
+      const comments = prev.comments.filter((c) => c.id !== commentId)
+      return { ...prev, comments: comment ? mergeComments(comments, [comment]) : comments }
+    })
+  }, [])
+
+  const addComment = useCallback(
+    async (content: string, parentId?: string) => {
+      const request = () => api.comments.addComment(postId, { content, parentId })
+      if (!currentUserId) {
+        replace(unwrap(await request()))
+        return
+      }
+
+      const provisional = provisionalComment(postId, currentUserId, content, parentId)
+      replace(provisional)
+      const response = await optimisticUpdate({
+        apply: { type: 'posts/comment-added', postId, comment: provisional },
+        rollback: { type: 'posts/comment-removed', postId, commentId: provisional.id },
+        request,
+        settle: (comment) => ({ type: 'posts/comment-replaced', postId, commentId: provisional.id, comment }),
+        failureMessage: false,
+      })
+      swap(provisional.id, response.success ? (response.data ?? null) : null)
+      unwrap(response)
+    },
+    [postId, currentUserId, replace, swap],
+  )
+
+  const editComment = useCallback(
+    async (commentId: string, content: string) => {
+      replace(unwrap(await api.comments.updateComment(commentId, content)))
+    },
+    [replace],
+  )
+
+  const removeComment = useCallback(
+    async (commentId: string) => {
+      unwrap(await api.comments.deleteComment(commentId))
+      setState((prev) => ({ ...prev, comments: deleteComment(prev.comments, commentId) }))
+      removePostComment(postId, commentId)
+    },
+    [postId],
+  )
+
+  const toggleLike = useCallback(
+    async (comment: Comment, viewerId: string) => {
+      const liked = comment.likes.includes(viewerId)
+      const likes = liked ? comment.likes.filter((id) => id !== viewerId) : [...comment.likes, viewerId]
+      replace({ ...comment, likes })
+      const response = liked ? await api.comments.unlikeComment(comment.id) : await api.comments.likeComment(comment.id)
+      if (response.success && response.data) {
+        replace(response.data)
+      } else {
+        replace(comment)
+        reportError(response.error ?? { key: 'toast.commentLikeFailed' })
+      }
+    },
+    [replace],
+  )
+
+  return {
+    comments: state.comments,
+    hasMore: state.hasMore,
+    isLoading: state.isLoading,
+    error: state.error && messageText(state.error, t),
+    loadMore,
+    addComment,
+    editComment,
+    removeComment,
+    toggleLike,
+  }
+}
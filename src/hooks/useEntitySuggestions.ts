@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * STEP 2.6: useEntitySuggestions - Autocomplete for #tags and @mentions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.9 (user IDs for the group member picker)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Fetch matching hashtags or users for what is being typed
+ *
+ * How It Works:
+ * - The composer passes the ActiveEntity under the caret (or null)
+ * - After a short pause in typing (DEBOUNCE_MS) we ask the server for
+ *   matches: tags for '#', users for '@'
+ * - Responses for an older query are ignored, so fast typing never shows
+ *   suggestions for text that is no longer there
+ *
+ * LEARNING NOTES:
+ * - Debouncing with setTimeout + clearTimeout in the effect cleanup: every
+ *   keystroke cancels the previous timer, so only the last one fires
+ */
+
+import { useEffect, useState } from 'react'
+import type { Translate } from '../i18n'
+import { api } from '../services'
+import type { ActiveEntity } from '../utils/textEntities'
+import { useI18n } from './useI18n'
+import { rememberUsers } from './useUsersById'
+
+const DEBOUNCE_MS = 150
+
+/**
+ * EntitySuggestion - One autocomplete option
+ * - value: Inserted after the trigger (username or tag)
+ * - label: Main text shown in the list
+ * - detail: Secondary text (full name, post count)
+ * - userId: The user's ID, for '@' suggestions
+ */
+export interface EntitySuggestion {
+  value: string
+  label: string
+  detail: string
+  userId?: string
+}
+
+/**
+ * suggestionOptionId - DOM id of a suggestion option
+ *
+ * Used by the list to label its options and by the textarea for
+ * aria-activedescendant, so both sides agree on the id.
+ */
+export function suggestionOptionId(listId: string, index: number): string {
+  return `${listId}-option-${index}`
+}
+
+/**
+ * fetchSuggestions - Tags or users matching the query
+ */
+async function fetchSuggestions(
+  trigger: ActiveEntity['trigger'],
+  query: string,
+  t: Translate,
+): Promise<EntitySuggestion[]> {
+  if (trigger === '#') {
+    const response = await api.tags.suggestTags(query)
+    return (response.data ?? []).map((item) => ({
+      value: item.tag,
+      label: `#${item.tag}`,
+      detail: t('tag.posts', { count: item.postCount }),
+    }))
+  }
+  const response = await api.users.suggestUsers(query)
+  const users = response.data ?? []
+  // Cached so a picked user's name shows without another request
+  rememberUsers(users)
+  return users.map((user) => ({
+    value: user.username,
+    label: `@${user.username}`,
+    detail: `${user.firstName} ${user.lastName}`,
+    userId: user.id,
+  }))
+}
+
+/**
+ * useEntitySuggestions - Suggestions for the active entity ([] when none)
+ *
+ * Only the trigger, query and language are effect dependencies; the entity's
+ * start/end positions change with every keystroke and would refetch needlessly.
+ */
+export function useEntitySuggestions(entity: ActiveEntity | null): EntitySuggestion[] {
+  const { t } = useI18n()
+  const [result, setResult] = useState<{ key: string; items: EntitySuggestion[] }>({ key: '', items: [] })
+  const trigger = entity?.trigger
+  const query = entity?.query ?? ''
+  const key = trigger && query ? trigger + query : ''
+
+  useEffect(() => {
+    if (!trigger || !query) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const items = await fetchSuggestions(trigger, query, t)
+      if (!cancelled) setResult({ key: trigger + query, items })
+    }, DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [trigger, query, t])
+
+  // Results are only valid for the query they were fetched for
+  return result.key === key ? result.items : []
+}
@@ -0,0 +1,232 @@
+/**
+ * ============================================================================
+ * STEP 2.5: useFeed - Paged Home Timeline with a "New Posts" Check
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.18 (removePost after a delete)
+ * UPDATED: Feature Phase - Step 2.20 (pages stored in the global store)
+ * UPDATED: Feature Phase - Step 2.21 (recount when a followed user posts)
+ * UPDATED: Feature Phase - Step 2.24 (load errors follow the reader's language)
+ * PURPOSE: Own everything the home feed needs: loaded posts, the cursor for
+ *          the next page, loading/error state and the new-post counter
+ *
+ * How It Works:
+ * - The first page is fetched whenever `mode` changes
+ * - loadMore() fetches the page after `nextCursor` and APPENDS it
+ * - Every POLL_INTERVAL_MS we ask the server how many posts arrived since the
+ *   first page was loaded; the count drives the "new posts" banner
+ * - A live 'post-created' (a followed user just posted) asks at once, so
+ *   the banner does not wait for the next poll
+ * - showNewPosts() reloads from the top instead of inserting posts above
+ *   the reader, so what they are reading never jumps down the page
+ *
+ * React Concepts Demonstrated:
+ * - useReducer: several pieces of state that change together (posts, cursor,
+ *   status) are updated in one dispatch, so they can never disagree
+ * - Request IDs: a mode switch while a page is loading bumps the ID, and the
+ *   stale response is ignored when it finally arrives
+ *
+ * LEARNING NOTES:
+ * - Every page (and a prepended post) also goes to the global store; the
+ *   feed keeps the order, cards read each post from the store
+ * - Posts are de-duplicated by ID when appending; with cursors this should
+ *   not happen, but it keeps React keys unique if a server ever misbehaves
+ */
+
+import { useCallback, useEffect, useReducer, useRef } from 'react'
+import { messageText, type AppMessage } from '../i18n'
+import { api } from '../services'
+import { receivePosts } from '../store'
+import type { FeedMode, PaginatedResponse, Post } from '../types'
+import { withoutPost } from '../utils/posts'
+import { useI18n } from './useI18n'
+import { useLiveEvent } from './useLiveUpdates'
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const POLL_INTERVAL_MS = 30 * 1000
+
+type FeedStatus = 'idle' | 'loading' | 'error'
+
+interface FeedState {
+  posts: Post[]
+  nextCursor: string | null
+  hasMore: boolean
+  status: FeedStatus
+  error: AppMessage | null
+  /** When the first page was requested; "new" posts are newer than this */
+  loadedAt: Date | null
+  newPostsCount: number
+}
+
+type FeedAction =
+  | { type: 'reset' }
+  | { type: 'request' }
+  | { type: 'page'; page: PaginatedResponse<Post>; isFirst: boolean; loadedAt?: Date }
+  | { type: 'failure'; error: AppMessage }
+  | { type: 'newCount'; count: number }
+  | { type: 'prepend'; post: Post }
+  | { type: 'replace'; post: Post }
+  | { type: 'remove'; postId: string }
+
+const INITIAL_STATE: FeedState = {
+  posts: [],
+  nextCursor: null,
+  hasMore: true,
+  status: 'idle',
+  error: null,
+  loadedAt: null,
+  newPostsCount: 0,
+}
+
+function feedReducer(state: FeedState, action: FeedAction): FeedState {
+  switch (action.type) {
+    case 'reset':
+      return INITIAL_STATE
+    case 'request':
+      return { ...state, status: 'loading', error: null }
+    case 'page': {
+      const seen = new Set(action.isFirst ? [] : state.posts.map((p) => p.id))
+      const incoming = action.page.data.filter((p) => !seen.has(p.id))
+      const nextCursor = action.page.pagination.nextCursor ?? null
+      return {
+        ...state,
+        posts: action.isFirst ? incoming : [...state.posts, ...incoming],
+        nextCursor,
+        hasMore: nextCursor !== null,
+        status: 'idle',
+        loadedAt: action.loadedAt ?? state.loadedAt,
+        newPostsCount: action.isFirst ? 0 : state.newPostsCount,
+      }
+    }
+    case 'failure':
+      return { ...state, status: 'error', error: action.error }
+    case 'newCount':
+      return { ...state, newPostsCount: action.count }
+    case 'prepend':
+      return { ...state, posts: [action.post, ...state.posts.filter((p) => p.id !== action.post.id)] }
+    case 'replace':
+      return {
+        ...state,
+        posts: state.posts.map((p) => (p.id === action.post.id ? action.post : p)),
+      }
+    case 'remove':
+      return { ...state, posts: withoutPost(state.posts, action.postId) }
+  }
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * useFeed - Home timeline state for the given ranking mode
+ *
+ * @example
+ * const feed = useFeed('latest')
+ * feed.posts.map(...)
+ * <button onClick={feed.loadMore} disabled={!feed.hasMore} />
+ */
+export function useFeed(mode: FeedMode) {
+  const [state, dispatch] = useReducer(feedReducer, INITIAL_STATE)
+  const { t } = useI18n()
+  const requestIdRef = useRef(0)
+
+  /**
+   * fetchPage - Loads the first page (cursor null) or the one after `cursor`
+   */
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const requestId = ++requestIdRef.current
+      const requestedAt = new Date()
+      dispatch({ type: 'request' })
+
+      const response = await api.feed.getFeed({ mode, cursor })
+      if (requestId !== requestIdRef.current) return
+
+      if (response.success && response.data) {
+        receivePosts(response.data.data)
+        dispatch({
+          type: 'page',
+          page: response.data,
+          isFirst: cursor === null,
+          loadedAt: cursor === null ? requestedAt : undefined,
+        })
+      } else {
+        dispatch({ type: 'failure', error: response.error ?? { key: 'feed.loadError' } })
+      }
+    },
+    [mode],
+  )
+
+  // First page whenever the mode changes (and on mount). Starting a new
+  // request bumps the request ID, so a page still in flight for the previous
+  // mode is discarded when it lands.
+  useEffect(() => {
+    dispatch({ type: 'reset' })
+    void fetchPage(null)
+  }, [fetchPage])
+
+  // Poll for posts newer than the first page
+  const { loadedAt } = state
+  const countNewPosts = useCallback(async () => {
+    if (!loadedAt) return
+    const response = await api.feed.countNewPosts(loadedAt)
+    if (response.success && response.data) {
+      dispatch({ type: 'newCount', count: response.data.count })
+    }
+  }, [loadedAt])
+
+  useEffect(() => {
+    if (!loadedAt) return
+    const timer = setInterval(() => void countNewPosts(), POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [loadedAt, countNewPosts])
+
+  useLiveEvent((event) => {
+    if (event.type === 'post-created') void countNewPosts()
+  })
+
+  const { status, hasMore, nextCursor } = state
+  const loadMore = useCallback(() => {
+    if (status === 'loading' || !hasMore || nextCursor === null) return
+    void fetchPage(nextCursor)
+  }, [fetchPage, status, hasMore, nextCursor])
+
+  const retry = useCallback(() => {
+    void fetchPage(state.posts.length === 0 ? null : nextCursor)
+  }, [fetchPage, state.posts.length, nextCursor])
+
+  const showNewPosts = useCallback(() => {
+    void fetchPage(null)
+  }, [fetchPage])
+
+  /** Puts the viewer's own new post at the top */
+  const prependPost = useCallback((post: Post) => {
+    receivePosts([post])
+    dispatch({ type: 'prepend', post })
+  }, [])
+
+  /** Swaps in an updated copy of a post (e.g. after a like) */
+  const replacePost = useCallback((post: Post) => dispatch({ type: 'replace', post }), [])
+
+  /** Drops a deleted post (and its reposts) from the feed */
+  const removePost = useCallback((postId: string) => dispatch({ type: 'remove', postId }), [])
+
+  return {
+    posts: state.posts,
+    hasMore: state.hasMore,
+    isLoading: state.status === 'loading',
+    error: state.error && messageText(state.error, t),
+    newPostsCount: state.newPostsCount,
+    loadMore,
+    retry,
+    showNewPosts,
+    prependPost,
+    replacePost,
+    removePost,
+  }
+}
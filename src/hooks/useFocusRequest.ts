@@ -0,0 +1,72 @@
+/**
+ * ============================================================================
+ * STEP 2.25: useFocusRequest - Focus a Field When a Link Asks For It
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Let one page send the reader straight to a field on another:
+ *          "new post" to the composer, "reply" to the comment box
+ *
+ * How It Works:
+ * - The link or navigate() call carries state { focus: 'composer' }
+ * - The component owning that field calls useFocusRequest('composer', ref)
+ *   and focuses it once for that navigation
+ * - Each navigation (location.key) is answered once: typing, re-renders
+ *   and later state changes do not steal focus back. A field that mounts
+ *   late (after the post loads) still gets it.
+ *
+ * @example
+ * navigate(ROUTES.home, { state: focusState('composer') })
+ * useFocusRequest('composer', textareaRef)
+ */
+
+import { useEffect, useRef, type RefObject } from 'react'
+import { useLocation } from 'react-router-dom'
+
+/**
+ * FocusTarget - Fields that can be asked for
+ * - composer: The new-post box on the home page
+ * - reply: The new-comment box on a post page
+ */
+export type FocusTarget = 'composer' | 'reply'
+
+/**
+ * FocusState - Navigation state carrying a focus request
+ */
+export interface FocusState {
+  focus?: FocusTarget
+}
+
+/**
+ * focusState - Navigation state asking for `target`
+ */
+export function focusState(target: FocusTarget): FocusState {
+  return { focus: target }
+}
+
+/**
+ * requestedFocus - The target asked for by a location's state, if any
+ */
+export function requestedFocus(state: unknown): FocusTarget | undefined {
+  return (state as FocusState | null)?.focus
+}
+
+/**
+ * useFocusRequest - Focuses `ref` when the current navigation asks for `target`
+ *
+ * @param target - Which request this field answers; undefined answers none
+ */
+export function useFocusRequest(target: FocusTarget | undefined, ref: RefObject<HTMLElement | null>) {
+  const location = useLocation()
+  const isRequested = target !== undefined && requestedFocus(location.state) === target
+
+  // The key of the navigation already answered: only a new one asks again
+  const handledKeyRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!isRequested || handledKeyRef.current === location.key) return
+    handledKeyRef.current = location.key
+    ref.current?.focus()
+    ref.current?.scrollIntoView({ block: 'center' })
+  }, [isRequested, location.key, ref])
+}
@@ -0,0 +1,98 @@
+/**
+ * ============================================================================
+ * STEP 2.3: useFormValidation - Field-Level Errors for Any Form
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * UPDATED: Feature Phase - Step 2.6 (reset() for forms that stay mounted)
+ * PURPOSE: Decide WHEN to show the errors a validator produces
+ *
+ * UX Rules Implemented:
+ * - A field's error appears after the user leaves it (blur), not while
+ *   they are still typing the first characters
+ * - After a submit attempt, every field's error is shown
+ * - Errors from the server (e.g. "username taken") are shown until the
+ *   user edits that field again
+ *
+ * React Concepts Demonstrated:
+ * - Generic custom hooks: useFormValidation<T> works for any form type
+ * - Derived state: client errors are computed from values with useMemo,
+ *   never stored, so they can never go stale
+ *
+ * @example
+ * const { errors, handleBlur, validateAll } = useFormValidation(form, validateLoginForm)
+ */
+
+import { useCallback, useMemo, useState } from 'react'
+import type { FieldErrors, ValidationResult } from '../validation'
+
+/**
+ * FormValidation<T> - What the hook returns
+ */
+export interface FormValidation<T> {
+  /** Errors that should be visible right now */
+  errors: FieldErrors<T>
+  /** Marks a field as visited; use as onBlur */
+  handleBlur: (field: keyof T) => void
+  /** Forgets a server error for a field; call when that field changes */
+  clearServerError: (field: keyof T) => void
+  /** Shows all errors and returns true when the form is valid */
+  validateAll: () => boolean
+  /** Stores errors reported by a service (e.g. from a ValidationError) */
+  setServerErrors: (errors: FieldErrors<T>) => void
+  /** Back to the pristine state, e.g. after a successful submit */
+  reset: () => void
+}
+
+/**
+ * useFormValidation - Tracks touched fields and merges client/server errors
+ */
+export function useFormValidation<T>(
+  values: T,
+  validate: (values: T) => ValidationResult<T>,
+): FormValidation<T> {
+  const [touched, setTouched] = useState<Partial<Record<keyof T, boolean>>>({})
+  const [submitted, setSubmitted] = useState(false)
+  const [serverErrors, setServerErrors] = useState<FieldErrors<T>>({})
+
+  const result = useMemo(() => validate(values), [validate, values])
+
+  /**
+   * errors - Client errors for visible fields, overlaid with server errors
+   */
+  const errors = useMemo(() => {
+    const visible: FieldErrors<T> = {}
+    for (const field of Object.keys(result.errors) as (keyof T)[]) {
+      if (submitted || touched[field]) {
+        visible[field] = result.errors[field]
+      }
+    }
+    return { ...visible, ...serverErrors }
+  }, [result.errors, submitted, touched, serverErrors])
+
+  const handleBlur = useCallback((field: keyof T) => {
+    setTouched((prev) => (prev[field] ? prev : { ...prev, [field]: true }))
+  }, [])
+
+  const clearServerError = useCallback((field: keyof T) => {
+    setServerErrors((prev) => {
+      if (!(field in prev)) return prev
+      const next = { ...prev }
+      delete next[field]
+      return next
+    })
+  }, [])
+
+  const validateAll = useCallback(() => {
+    setSubmitted(true)
+    return result.valid
+  }, [result.valid])
+
+  const reset = useCallback(() => {
+    setTouched({})
+    setSubmitted(false)
+    setServerErrors({})
+  }, [])
+
+  return { errors, handleBlur, clearServerError, validateAll, setServerErrors, reset }
+}
@@ -0,0 +1,26 @@
+/**
+ * ============================================================================
+ * STEP 2.24: useI18n - Hook for Translations and Locale Formatting
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: Access the reader's locale, t() and setLocale from I18nProvider
+ *
+ * @example
+ * const { t } = useI18n()
+ * return <button>{t('feed.newPosts', { count })}</button>
+ */
+
+import { useContext } from 'react'
+import { I18nContext, type I18nContextType } from '../context/i18nContext'
+
+/**
+ * useI18n - Returns the context value of the nearest I18nProvider
+ */
+export function useI18n(): I18nContextType {
+  const context = useContext(I18nContext)
+  if (context === undefined) {
+    throw new Error('useI18n must be used inside an <I18nProvider>')
+  }
+  return context
+}
@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * STEP 2.5: useInfiniteScroll - Load More When the End Comes Into View
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * PURPOSE: Call `onLoadMore` when a sentinel element nears the viewport
+ *
+ * Browser API Demonstrated:
+ * - IntersectionObserver: The browser tells us when an element becomes
+ *   visible, instead of us checking scroll positions on every scroll event
+ * - rootMargin '600px': Fire a bit BEFORE the sentinel is on screen, so the
+ *   next page is usually ready by the time the user gets there
+ *
+ * React Concepts Demonstrated:
+ * - Callback refs: returning a function to use as `ref={...}`; React calls it
+ *   with the element on mount and with null on unmount
+ * - A ref holds the latest onLoadMore so the observer never calls a stale
+ *   closure and does not need to be recreated on every render
+ *
+ * @example
+ * const sentinelRef = useInfiniteScroll(loadMore, hasMore && !isLoading)
+ * return <div ref={sentinelRef} />
+ */
+
+import { useCallback, useEffect, useRef } from 'react'
+
+/**
+ * useInfiniteScroll - Returns a ref callback for the sentinel element
+ *
+ * @param onLoadMore - Called when the sentinel approaches the viewport
+ * @param enabled - Pass false while loading or when there is nothing more
+ */
+export function useInfiniteScroll(onLoadMore: () => void, enabled: boolean) {
+  const onLoadMoreRef = useRef(onLoadMore)
+  const enabledRef = useRef(enabled)
+  const observerRef = useRef<IntersectionObserver | null>(null)
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore
+    enabledRef.current = enabled
+  })
+
+  return useCallback((element: HTMLElement | null) => {
+    observerRef.current?.disconnect()
+    observerRef.current = null
+    if (!element) return
+
+    observerRef.current = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting) && enabledRef.current) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin: '600px 0px' },
+    )
+    observerRef.current.observe(element)
+  }, [])
+}
@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+/**
+ * ============================================================================
+ * STEP 2.25: useKeyboardShortcuts Tests
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Check single keys and "g m" sequences, and every case where the
+ *          shortcuts must stay quiet (typing, modifiers, an open dialog)
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, fireEvent, renderHook } from '@testing-library/react'
+import { isTypingTarget, useKeyboardShortcuts } from './useKeyboardShortcuts'
+
+afterEach(() => {
+  cleanup()
+  document.body.replaceChildren()
+  vi.useRealTimers()
+})
+
+const press = (key: string, init: KeyboardEventInit = {}, target: Element = document.body) =>
+  fireEvent.keyDown(target, { key, ...init })
+
+describe('useKeyboardShortcuts', () => {
+  it('runs the handler of a single key and claims the event', () => {
+    const next = vi.fn()
+    renderHook(() => useKeyboardShortcuts({ j: next }))
+    expect(press('j')).toBe(false)
+    expect(next).toHaveBeenCalledOnce()
+    expect(press('x')).toBe(true)
+  })
+
+  it('runs a sequence when its second key follows the first', () => {
+    const messages = vi.fn()
+    const home = vi.fn()
+    renderHook(() => useKeyboardShortcuts({ 'g m': messages, 'g h': home }))
+    press('g')
+    press('m')
+    expect(messages).toHaveBeenCalledOnce()
+    press('m')
+    expect(messages).toHaveBeenCalledOnce()
+    expect(home).not.toHaveBeenCalled()
+  })
+
+  it('forgets the first key of a sequence after a pause', () => {
+    vi.useFakeTimers()
+    const messages = vi.fn()
+    renderHook(() => useKeyboardShortcuts({ 'g m': messages }))
+    press('g')
+    vi.advanceTimersByTime(1500)
+    press('m')
+    expect(messages).not.toHaveBeenCalled()
+  })
+
+  it('stays quiet while typing, with Ctrl, Alt or Meta, and under an open dialog', () => {
+    const next = vi.fn()
+    renderHook(() => useKeyboardShortcuts({ j: next }))
+    const input = document.body.appendChild(document.createElement('textarea'))
+    press('j', {}, input)
+    press('j', { ctrlKey: true })
+    press('j', { altKey: true })
+    press('j', { metaKey: true })
+    const dialog = document.body.appendChild(document.createElement('dialog'))
+    dialog.open = true
+    press('j')
+    expect(next).not.toHaveBeenCalled()
+  })
+
+  it('allows Shift, which is how "?" is typed', () => {
+    const help = vi.fn()
+    renderHook(() => useKeyboardShortcuts({ '?': help }))
+    press('?', { shiftKey: true })
+    expect(help).toHaveBeenCalledOnce()
+  })
+
+  it('uses the handlers of the latest render and stops listening when unmounted', () => {
+    const first = vi.fn()
+    const second = vi.fn()
+    const { rerender, unmount } = renderHook(({ handler }) => useKeyboardShortcuts({ j: handler }), {
+      initialProps: { handler: first },
+    })
+    rerender({ handler: second })
+    press('j')
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledOnce()
+    unmount()
+    press('j')
+    expect(second).toHaveBeenCalledOnce()
+  })
+})
+
+describe('isTypingTarget', () => {
+  // jsdom has no isContentEditable, so contenteditable is left to the browser
+  it('is true for text fields, false for buttons', () => {
+    expect(isTypingTarget(document.createElement('input'))).toBe(true)
+    expect(isTypingTarget(document.createElement('select'))).toBe(true)
+    expect(isTypingTarget(document.createElement('button'))).toBe(false)
+    expect(isTypingTarget(null)).toBe(false)
+  })
+})
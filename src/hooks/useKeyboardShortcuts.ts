@@ -0,0 +1,96 @@
+/**
+ * ============================================================================
+ * STEP 2.25: useKeyboardShortcuts - Single Keys and "g m" Sequences
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Run a handler when a shortcut is typed anywhere on the page
+ *
+ * Shortcuts:
+ * - A shortcut is the `key` of a KeyboardEvent ('j', '?', 'Escape'), or two
+ *   of them separated by a space for a sequence ('g m': g, then m)
+ * - The second key of a sequence must follow within SEQUENCE_TIMEOUT_MS;
+ *   after that the first key is forgotten
+ *
+ * When Shortcuts Stay Quiet:
+ * - While typing in an input, textarea, select or contenteditable, so
+ *   writing "jk" in a post never moves the feed
+ * - With Ctrl, Alt or Meta held: those belong to the browser and the
+ *   screen reader (Shift is allowed, it is how "?" is typed)
+ * - While a modal <dialog> is open; the dialog owns the keyboard then
+ * - When a handler further down already called preventDefault()
+ *
+ * LEARNING NOTES:
+ * - One keydown listener on document, added once; a ref holds the latest
+ *   shortcut map so handlers always see the current render's values
+ * - Single-key shortcuts are a WCAG concern (2.1.4 Character Key
+ *   Shortcuts): speech-input users can trigger them by accident. Keeping
+ *   them off inside text fields and listing them in one help dialog is the
+ *   usual answer
+ *
+ * @example
+ * useKeyboardShortcuts({ j: focusNext, k: focusPrevious, 'g m': openMessages })
+ */
+
+import { useEffect, useRef } from 'react'
+
+/**
+ * ShortcutMap - Shortcut ('j', 'g m') → what it does
+ */
+export type ShortcutMap = Record<string, () => void>
+
+/**
+ * SEQUENCE_TIMEOUT_MS - How long the first key of a sequence is remembered
+ */
+const SEQUENCE_TIMEOUT_MS = 1000
+
+/**
+ * isTypingTarget - True for elements where keys are text, not shortcuts
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * useKeyboardShortcuts - Listens for `shortcuts` while mounted
+ */
+export function useKeyboardShortcuts(shortcuts: ShortcutMap) {
+  const shortcutsRef = useRef(shortcuts)
+
+  useEffect(() => {
+    shortcutsRef.current = shortcuts
+  })
+
+  useEffect(() => {
+    // The first key of a sequence in progress ('g' of 'g m')
+    let pending: string | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.altKey || event.metaKey) return
+      if (isTypingTarget(event.target) || document.querySelector('dialog[open]')) return
+
+      const sequence = pending ? `${pending} ${event.key}` : event.key
+      pending = null
+      clearTimeout(timer)
+
+      const handler = shortcutsRef.current[sequence]
+      if (handler) {
+        event.preventDefault()
+        handler()
+        return
+      }
+      if (Object.keys(shortcutsRef.current).some((shortcut) => shortcut.startsWith(`${event.key} `))) {
+        pending = event.key
+        timer = setTimeout(() => (pending = null), SEQUENCE_TIMEOUT_MS)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      clearTimeout(timer)
+    }
+  }, [])
+}
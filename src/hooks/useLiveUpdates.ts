@@ -0,0 +1,63 @@
+/**
+ * ============================================================================
+ * STEP 2.21: useLiveUpdates - Hooks for Live Events
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: Watch the posts a screen shows, and react to live events
+ *          beyond what the global store already applies
+ *
+ * @example
+ * useWatchPosts(posts.map((post) => post.id))
+ * useLiveEvent((event) => {
+ *   if (event.type === 'comment-added') addToThread(event.comment)
+ * })
+ */
+
+import { useContext, useEffect, useRef } from 'react'
+import { LiveUpdatesContext } from '../context/liveUpdatesContext'
+import type { LiveEvent } from '../services/chat'
+import type { LiveClient } from '../services/live'
+
+/**
+ * useLiveUpdates - Returns the LiveClient of the nearest LiveUpdatesProvider
+ */
+export function useLiveUpdates(): LiveClient {
+  const context = useContext(LiveUpdatesContext)
+  if (context === undefined) {
+    throw new Error('useLiveUpdates must be used inside a <LiveUpdatesProvider>')
+  }
+  return context
+}
+
+/**
+ * useWatchPosts - Receives likes and comments of these posts while mounted
+ *
+ * The IDs are compared by value, so a new array with the same posts does
+ * not re-send anything.
+ */
+export function useWatchPosts(postIds: string[]): void {
+  const client = useLiveUpdates()
+  const key = postIds.join(',')
+
+  useEffect(() => {
+    if (!key) return
+    return client.watch(key.split(','))
+  }, [client, key])
+}
+
+/**
+ * useLiveEvent - Calls `listener` with every live event while mounted
+ *
+ * The latest listener is always used, so it may be an inline function.
+ */
+export function useLiveEvent(listener: (event: LiveEvent) => void): void {
+  const client = useLiveUpdates()
+  const listenerRef = useRef(listener)
+
+  useEffect(() => {
+    listenerRef.current = listener
+  })
+
+  useEffect(() => client.onEvent((event) => listenerRef.current(event)), [client])
+}
@@ -0,0 +1,26 @@
+/**
+ * ============================================================================
+ * STEP 2.10: useNotifications - Hook for the Notification Center
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * PURPOSE: Access notifications, the unread count and their actions from
+ *          NotificationsProvider
+ *
+ * @example
+ * const { unreadCount, markAllRead } = useNotifications()
+ */
+
+import { useContext } from 'react'
+import { NotificationsContext, type NotificationsContextType } from '../context/notificationsContext'
+
+/**
+ * useNotifications - Returns the context value of the nearest NotificationsProvider
+ */
+export function useNotifications(): NotificationsContextType {
+  const context = useContext(NotificationsContext)
+  if (context === undefined) {
+    throw new Error('useNotifications must be used inside a <NotificationsProvider>')
+  }
+  return context
+}
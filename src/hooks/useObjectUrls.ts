@@ -0,0 +1,35 @@
+/**
+ * ============================================================================
+ * STEP 2.6: useObjectUrls - Preview URLs for Local Files
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * PURPOSE: Turn File objects into URLs an <img> can display
+ *
+ * Browser API Demonstrated:
+ * - URL.createObjectURL(file) gives a "blob:" URL pointing at the file in
+ *   memory - no upload, no base64 copy
+ * - URL.revokeObjectURL releases that memory; the effect cleanup does it
+ *   whenever the file list changes or the component unmounts
+ *
+ * LEARNING NOTES:
+ * - URLs are created inside the effect (not useMemo) so StrictMode's
+ *   mount → unmount → mount cycle never leaves us holding a revoked URL
+ */
+
+import { useEffect, useState } from 'react'
+
+/**
+ * useObjectUrls - One blob: URL per file, in the same order
+ */
+export function useObjectUrls(files: File[]): string[] {
+  const [urls, setUrls] = useState<string[]>([])
+
+  useEffect(() => {
+    const created = files.map((file) => URL.createObjectURL(file))
+    setUrls(created)
+    return () => created.forEach((url) => URL.revokeObjectURL(url))
+  }, [files])
+
+  return urls
+}
@@ -0,0 +1,25 @@
+/**
+ * ============================================================================
+ * STEP 2.16: useOffline - Hook for Connection and Outbox State
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Access the offline status and outbox actions from OfflineProvider
+ *
+ * @example
+ * const { isOnline, pendingCount } = useOffline()
+ */
+
+import { useContext } from 'react'
+import { OfflineContext, type OfflineContextType } from '../context/offlineContext'
+
+/**
+ * useOffline - Returns the context value of the nearest OfflineProvider
+ */
+export function useOffline(): OfflineContextType {
+  const context = useContext(OfflineContext)
+  if (context === undefined) {
+    throw new Error('useOffline must be used inside an <OfflineProvider>')
+  }
+  return context
+}
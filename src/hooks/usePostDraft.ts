@@ -0,0 +1,119 @@
+/**
+ * ============================================================================
+ * STEP 2.6: usePostDraft - Composer Drafts That Survive a Reload
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.14 (audience; older drafts saved isPublic)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions)
+ * PURPOSE: Save the half-written post to localStorage and restore it
+ *
+ * What Is Saved:
+ * - Text and audience, always
+ * - Images as data URLs, but only while they fit in DRAFT_IMAGE_BUDGET:
+ *   localStorage holds ~5 MB per origin and the mock database lives there
+ *   too, so a draft must never crowd it out. Over budget, the text is still
+ *   saved and the images are dropped from the draft.
+ * - Each image's description is saved with the image, and dropped with it
+ *
+ * Concepts Demonstrated:
+ * - Lazy initial state: the text draft is read synchronously on the first
+ *   render, so a reload shows it immediately with no flash of empty input
+ * - Images are restored asynchronously (decoding data URLs takes a moment)
+ * - Drafts are keyed by user ID: two accounts on one browser keep their own
+ *
+ * @example
+ * const { initialDraft, saveDraft, clearDraft } = usePostDraft(user?.id)
+ */
+
+import { useCallback, useMemo } from 'react'
+import type { PostAudience, PostForm } from '../types'
+import { dataUrlToFile, fileToDataUrl } from '../utils/images'
+import { readJson, removeKey, writeJson } from '../utils/storage'
+
+/**
+ * DRAFT_IMAGE_BUDGET - Max characters of image data URLs kept in a draft
+ */
+const DRAFT_IMAGE_BUDGET = 1_500_000
+
+/**
+ * StoredDraft - Draft shape in localStorage
+ * - isPublic: Written by drafts saved before audiences existed (Step 2.14)
+ */
+interface StoredDraft {
+  content: string
+  audience?: PostAudience
+  isPublic?: boolean
+  images: { name: string; dataUrl: string; alt?: string }[]
+}
+
+const EMPTY_DRAFT: StoredDraft = { content: '', audience: 'public', images: [] }
+
+function draftKey(userId: string): string {
+  return `draft.post.${userId}`
+}
+
+/**
+ * PostDraft - What the composer starts from
+ * - restoreImages(): Decodes the saved images back into Files
+ * - imageAlts: Their descriptions, same order ('' where none was written)
+ */
+export interface PostDraft {
+  content: string
+  audience: PostAudience
+  hasImages: boolean
+  imageAlts: string[]
+  restoreImages(): Promise<File[]>
+}
+
+/**
+ * usePostDraft - Load, save and clear the signed-in user's draft
+ *
+ * @param userId - Draft owner; with no user, nothing is read or written
+ */
+export function usePostDraft(userId: string | undefined) {
+  const initialDraft = useMemo<PostDraft>(() => {
+    const stored = userId ? readJson<StoredDraft>(draftKey(userId), EMPTY_DRAFT) : EMPTY_DRAFT
+    return {
+      content: stored.content,
+      audience: stored.audience ?? (stored.isPublic === false ? 'followers' : 'public'),
+      hasImages: stored.images.length > 0,
+      imageAlts: stored.images.map((image) => image.alt ?? ''),
+      restoreImages: () =>
+        Promise.all(stored.images.map((image) => dataUrlToFile(image.dataUrl, image.name))),
+    }
+  }, [userId])
+
+  const saveDraft = useCallback(
+    async (form: PostForm) => {
+      if (!userId) return
+      const images = form.images ?? []
+      if (!form.content && images.length === 0) {
+        removeKey(draftKey(userId))
+        return
+      }
+
+      const encoded = await Promise.all(
+        images.map(async (file, index) => ({
+          name: file.name,
+          dataUrl: await fileToDataUrl(file),
+          alt: form.imageAlts?.[index] || undefined,
+        })),
+      )
+      const size = encoded.reduce((total, image) => total + image.dataUrl.length, 0)
+      const draft: StoredDraft = {
+        content: form.content,
+        audience: form.audience,
+        images: size <= DRAFT_IMAGE_BUDGET ? encoded : [],
+      }
+      writeJson(draftKey(userId), draft)
+    },
+    [userId],
+  )
+
+  const clearDraft = useCallback(() => {
+    if (userId) removeKey(draftKey(userId))
+  }, [userId])
+
+  return { initialDraft, saveDraft, clearDraft }
+}
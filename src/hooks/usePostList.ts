@@ -0,0 +1,176 @@
+/**
+ * ============================================================================
+ * STEP 2.13: usePostList - Paged Posts for One Filter
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.13 (Profile pages)
+ * UPDATED: Feature Phase - Step 2.18 (removePost after a delete)
+ * UPDATED: Feature Phase - Step 2.19 (posts with a hashtag)
+ * UPDATED: Feature Phase - Step 2.20 (pages stored in the global store)
+ * UPDATED: Feature Phase - Step 2.24 (load errors follow the reader's language)
+ * PURPOSE: A user's posts or likes, or a hashtag's posts, page by page, in
+ *          the shape <Feed> expects
+ *
+ * How It Works:
+ * - The first page is fetched whenever the filter changes
+ * - loadMore() fetches the next page number and APPENDS it
+ * - `enabled: false` (e.g. before the profile has loaded) fetches nothing
+ *
+ * LEARNING NOTES:
+ * - Page numbers (not cursors, as in useFeed) are fine here: a profile's
+ *   posts rarely change while someone is reading them, and a duplicate
+ *   from a shifted page is filtered out by ID
+ * - The filter is passed as plain strings so a new object with the same
+ *   values does not trigger a refetch
+ */
+
+import { useCallback, useEffect, useReducer, useRef } from 'react'
+import { messageText, type AppMessage } from '../i18n'
+import { api } from '../services'
+import { receivePosts } from '../store'
+import type { PaginatedResponse, Post } from '../types'
+import { withoutPost } from '../utils/posts'
+import { useI18n } from './useI18n'
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const PAGE_SIZE = 10
+
+interface PostListState {
+  posts: Post[]
+  page: number
+  total: number
+  hasMore: boolean
+  isLoading: boolean
+  error: AppMessage | null
+}
+
+type PostListAction =
+  | { type: 'reset' }
+  | { type: 'request' }
+  | { type: 'page'; page: PaginatedResponse<Post> }
+  | { type: 'failure'; error: AppMessage }
+  | { type: 'replace'; post: Post }
+  | { type: 'remove'; postId: string }
+
+const INITIAL_STATE: PostListState = {
+  posts: [],
+  page: 0,
+  total: 0,
+  hasMore: false,
+  isLoading: false,
+  error: null,
+}
+
+function postListReducer(state: PostListState, action: PostListAction): PostListState {
+  switch (action.type) {
+    case 'reset':
+      return INITIAL_STATE
+    case 'request':
+      return { ...state, isLoading: true, error: null }
+    case 'page': {
+      const { data, pagination } = action.page
+      const isFirst = pagination.page === 1
+      const seen = new Set(isFirst ? [] : state.posts.map((post) => post.id))
+      const incoming = data.filter((post) => !seen.has(post.id))
+      return {
+        posts: isFirst ? incoming : [...state.posts, ...incoming],
+        page: pagination.page,
+        total: pagination.total,
+        hasMore: pagination.page < pagination.totalPages,
+        isLoading: false,
+        error: null,
+      }
+    }
+    case 'failure':
+      return { ...state, isLoading: false, error: action.error }
+    case 'replace':
+      return { ...state, posts: state.posts.map((post) => (post.id === action.post.id ? action.post : post)) }
+    case 'remove': {
+      const posts = withoutPost(state.posts, action.postId)
+      return { ...state, posts, total: state.total - (state.posts.length - posts.length) }
+    }
+  }
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * PostListFilter - Which posts to list (one of the three)
+ */
+export type PostListFilter = { authorId: string } | { likedBy: string } | { tag: string }
+
+/**
+ * usePostList - Posts matching the filter, newest first
+ *
+ * @example
+ * const likes = usePostList({ likedBy: user.id }, Boolean(user))
+ * <Feed posts={likes.posts} onLoadMore={likes.loadMore} ... />
+ */
+export function usePostList(filter: PostListFilter, enabled = true) {
+  const [state, dispatch] = useReducer(postListReducer, INITIAL_STATE)
+  const { t } = useI18n()
+  const requestIdRef = useRef(0)
+  const authorId = 'authorId' in filter ? filter.authorId : undefined
+  const likedBy = 'likedBy' in filter ? filter.likedBy : undefined
+  const tag = 'tag' in filter ? filter.tag : undefined
+
+  const fetchPage = useCallback(
+    async (page: number) => {
+      const requestId = ++requestIdRef.current
+      dispatch({ type: 'request' })
+
+      const response = await api.posts.listPosts({ authorId, likedBy, tag, page, limit: PAGE_SIZE })
+      if (requestId !== requestIdRef.current) return
+
+      if (response.success && response.data) {
+        receivePosts(response.data.data)
+        dispatch({ type: 'page', page: response.data })
+      } else {
+        dispatch({ type: 'failure', error: response.error ?? { key: 'feed.postsError' } })
+      }
+    },
+    [authorId, likedBy, tag],
+  )
+
+  useEffect(() => {
+    dispatch({ type: 'reset' })
+    if (!enabled) {
+      requestIdRef.current++
+      return
+    }
+    void fetchPage(1)
+  }, [enabled, fetchPage])
+
+  const { isLoading, hasMore, page } = state
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return
+    void fetchPage(page + 1)
+  }, [fetchPage, isLoading, hasMore, page])
+
+  const retry = useCallback(() => {
+    void fetchPage(page + 1)
+  }, [fetchPage, page])
+
+  /** Swaps in an updated copy of a post (e.g. after a like) */
+  const replacePost = useCallback((post: Post) => dispatch({ type: 'replace', post }), [])
+
+  /** Drops a deleted post (and its reposts) from the list */
+  const removePost = useCallback((postId: string) => dispatch({ type: 'remove', postId }), [])
+
+  return {
+    posts: state.posts,
+    total: state.total,
+    hasMore: state.hasMore,
+    isLoading: state.isLoading,
+    error: state.error && messageText(state.error, t),
+    loadMore,
+    retry,
+    replacePost,
+    removePost,
+  }
+}
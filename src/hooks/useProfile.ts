@@ -0,0 +1,114 @@
+/**
+ * ============================================================================
+ * STEP 2.13: useProfile - One User's Profile by Username
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.13 (Profile pages)
+ * UPDATED: Feature Phase - Step 2.24 (load errors follow the reader's language)
+ * PURPOSE: Everything the profile header needs: the user, follow counts and
+ *          whether the viewer follows them, and how many posts they wrote
+ *
+ * How It Works:
+ * - The user is looked up by username; the follow status and post count
+ *   are then fetched side by side (Promise.all)
+ * - notFound is set for an unknown username, so the page can say so
+ *   instead of showing a generic error
+ * - On the viewer's OWN profile the signed-in user from useAuth() wins, so
+ *   a saved edit shows at once without refetching
+ *
+ * LEARNING NOTES:
+ * - The post count comes from the total of a one-item page: the API has
+ *   no separate count endpoint, and this is just as cheap
+ * - setStatus lets a FollowButton push the server's new counts into the
+ *   header without reloading the whole profile
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { messageText, type AppMessage } from '../i18n'
+import { api } from '../services'
+import type { FollowStatus, User } from '../types'
+import { useAuth } from './useAuth'
+import { useI18n } from './useI18n'
+import { rememberUsers } from './useUsersById'
+
+interface ProfileState {
+  user: User | null
+  status: FollowStatus | null
+  postCount: number
+  isLoading: boolean
+  error: AppMessage | null
+  notFound: boolean
+}
+
+const LOADING_STATE: ProfileState = {
+  user: null,
+  status: null,
+  postCount: 0,
+  isLoading: true,
+  error: null,
+  notFound: false,
+}
+
+/**
+ * useProfile - Loads the profile for a username
+ *
+ * @example
+ * const { user, status, postCount, notFound } = useProfile(username)
+ */
+export function useProfile(username: string | undefined) {
+  const { user: viewer } = useAuth()
+  const { t } = useI18n()
+  const [state, setState] = useState<ProfileState>(LOADING_STATE)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    if (!username) return
+    let cancelled = false
+    setState(LOADING_STATE)
+
+    const load = async () => {
+      const userResponse = await api.users.getUserByUsername(username)
+      if (cancelled) return
+      if (!userResponse.success || !userResponse.data) {
+        const notFound = userResponse.errorCode === 'NOT_FOUND'
+        setState({ ...LOADING_STATE, isLoading: false, notFound, error: userResponse.error ?? { key: 'profile.loadError' } })
+        return
+      }
+
+      const user = userResponse.data
+      rememberUsers([user])
+      const [statusResponse, postsResponse] = await Promise.all([
+        api.users.getFollowStatus(user.id),
+        api.posts.listPosts({ authorId: user.id, limit: 1 }),
+      ])
+      if (cancelled) return
+      setState({
+        user,
+        status: statusResponse.data ?? null,
+        postCount: postsResponse.data?.pagination.total ?? 0,
+        isLoading: false,
+        error: null,
+        notFound: false,
+      })
+    }
+    void load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [username, reloadKey])
+
+  const setStatus = useCallback((status: FollowStatus) => setState((prev) => ({ ...prev, status })), [])
+  const retry = useCallback(() => setReloadKey((key) => key + 1), [])
+
+  const isOwnProfile = Boolean(viewer && state.user && viewer.id === state.user.id)
+
+  return {
+    ...state,
+    error: state.error && messageText(state.error, t),
+    user: isOwnProfile ? viewer : state.user,
+    isOwnProfile,
+    setStatus,
+    retry,
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * ============================================================================
+ * STEP 2.11: useSearch - Paged Results for One Set of Search Filters
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.11 (Search)
+ * UPDATED: Feature Phase - Step 2.18 (removePost after a delete)
+ * UPDATED: Feature Phase - Step 2.20 (found posts stored in the global store)
+ * UPDATED: Feature Phase - Step 2.24 (load errors follow the reader's language)
+ * PURPOSE: Fetch, append and reset search results as the filters change
+ *
+ * How It Works:
+ * - The first page is fetched whenever query, type or sort changes
+ * - loadMore() fetches the next page number and APPENDS it
+ * - An empty query clears the results without asking the server
+ *
+ * LEARNING NOTES:
+ * - Same request-ID trick as useFeed: typing quickly starts many searches,
+ *   and only the newest one may update the state
+ * - The filters are passed as three strings, not one object, so a fresh
+ *   object with the same values does not trigger another search
+ */
+
+import { useCallback, useEffect, useReducer, useRef } from 'react'
+import { messageText, type AppMessage } from '../i18n'
+import { api } from '../services'
+import { receivePosts } from '../store'
+import type { PaginatedResponse, Post, SearchFilters, SearchResult } from '../types'
+import { afterPostRemoved } from '../utils/posts'
+import { resultKey } from '../utils/search'
+import { useI18n } from './useI18n'
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+const PAGE_SIZE = 20
+
+interface SearchState {
+  results: SearchResult[]
+  page: number
+  total: number
+  hasMore: boolean
+  isLoading: boolean
+  error: AppMessage | null
+}
+
+type SearchAction =
+  | { type: 'reset' }
+  | { type: 'request' }
+  | { type: 'page'; page: PaginatedResponse<SearchResult> }
+  | { type: 'failure'; error: AppMessage }
+  | { type: 'replace'; post: Post }
+  | { type: 'remove'; postId: string }
+
+const INITIAL_STATE: SearchState = {
+  results: [],
+  page: 0,
+  total: 0,
+  hasMore: false,
+  isLoading: false,
+  error: null,
+}
+
+function searchReducer(state: SearchState, action: SearchAction): SearchState {
+  switch (action.type) {
+    case 'reset':
+      return INITIAL_STATE
+    case 'request':
+      return { ...state, isLoading: true, error: null }
+    case 'page': {
+      const { data, pagination } = action.page
+      const isFirst = pagination.page === 1
+      const seen = new Set(isFirst ? [] : state.results.map(resultKey))
+      const incoming = data.filter((result) => !seen.has(resultKey(result)))
+      return {
+        results: isFirst ? incoming : [...state.results, ...incoming],
+        page: pagination.page,
+        total: pagination.total,
+        hasMore: pagination.page < pagination.totalPages,
+        isLoading: false,
+        error: null,
+      }
+    }
+    case 'failure':
+      return { ...state, isLoading: false, error: action.error }
+    case 'replace':
+      return {
+        ...state,
+        results: state.results.map((result) =>
+          result.kind === 'post' && result.post.id === action.post.id ? { ...result, post: action.post } : result,
+        ),
+      }
+    case 'remove': {
+      const results = state.results.flatMap((result): SearchResult[] => {
+        if (result.kind !== 'post') return [result]
+        const post = afterPostRemoved(result.post, action.postId)
+        return post ? [{ ...result, post }] : []
+      })
+      return { ...state, results, total: state.total - (state.results.length - results.length) }
+    }
+  }
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * useSearch - Results for the given filters
+ *
+ * @example
+ * const search = useSearch(parseSearchFilters(searchParams))
+ * search.results.map(...)
+ */
+export function useSearch({ query, type, sortBy }: SearchFilters) {
+  const [state, dispatch] = useReducer(searchReducer, INITIAL_STATE)
+  const { t } = useI18n()
+  const requestIdRef = useRef(0)
+  const trimmed = query.trim()
+
+  const fetchPage = useCallback(
+    async (page: number) => {
+      const requestId = ++requestIdRef.current
+      dispatch({ type: 'request' })
+
+      const response = await api.search.search({ query: trimmed, type, sortBy, page, limit: PAGE_SIZE })
+      if (requestId !== requestIdRef.current) return
+
+      if (response.success && response.data) {
+        receivePosts(response.data.data.flatMap((result) => (result.kind === 'post' ? [result.post] : [])))
+        dispatch({ type: 'page', page: response.data })
+      } else {
+        dispatch({ type: 'failure', error: response.error ?? { key: 'search.error' } })
+      }
+    },
+    [trimmed, type, sortBy],
+  )
+
+  useEffect(() => {
+    dispatch({ type: 'reset' })
+    if (!trimmed) {
+      // Forget any search still in flight
+      requestIdRef.current++
+      return
+    }
+    void fetchPage(1)
+  }, [trimmed, fetchPage])
+
+  const { isLoading, hasMore, page } = state
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return
+    void fetchPage(page + 1)
+  }, [fetchPage, isLoading, hasMore, page])
+
+  const retry = useCallback(() => {
+    void fetchPage(page + 1)
+  }, [fetchPage, page])
+
+  /** Swaps in an updated copy of a post (e.g. after a like) */
+  const replacePost = useCallback((post: Post) => dispatch({ type: 'replace', post }), [])
+
+  /** Drops a deleted post from the results */
+  const removePost = useCallback((postId: string) => dispatch({ type: 'remove', postId }), [])
+
+  return {
+    results: state.results,
+    total: state.total,
+    hasMore: state.hasMore,
+    isLoading: state.isLoading,
+    error: state.error && messageText(state.error, t),
+    loadMore,
+    retry,
+    replacePost,
+    removePost,
+  }
+}
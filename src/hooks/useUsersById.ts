@@ -0,0 +1,71 @@
+/**
+ * ============================================================================
+ * STEP 2.5: useUsersById - Look Up Authors for a List of IDs
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.20 (users kept in the global store)
+ * PURPOSE: Posts, comments and messages only carry user IDs; this hook
+ *          fetches the matching User records for display
+ *
+ * How It Works:
+ * - The global store's users slice remembers every user fetched this
+ *   session, so scrolling the feed does not re-request authors already seen
+ *   (Step 2.20: it replaced a module-level Map, so a follow's optimistic
+ *   change reaches every component showing that user)
+ * - Missing IDs are fetched in ONE batch request (api.users.getUsers)
+ *
+ * React Concepts Demonstrated:
+ * - Derived keys: the ID list is joined into a string so the effect only
+ *   re-runs when the SET of IDs changes, not on every new array instance
+ *
+ * @example
+ * const users = useUsersById(posts.map((p) => p.authorId))
+ * const author = users[post.authorId]
+ */
+
+import { useEffect, useMemo } from 'react'
+import { api } from '../services'
+import { appStore, receiveUsers, selectUsers } from '../store'
+import type { User } from '../types'
+import { useAppSelector } from './useAppStore'
+
+/**
+ * rememberUsers - Adds users to the store (e.g. after a profile fetch)
+ */
+export function rememberUsers(users: User[]): void {
+  receiveUsers(users)
+}
+
+/**
+ * pickCached - Known users for the given IDs, as an id → User record
+ */
+function pickCached(users: Record<string, User>, ids: string[]): Record<string, User> {
+  const found: Record<string, User> = {}
+  for (const id of ids) {
+    const user = users[id]
+    if (user) found[id] = user
+  }
+  return found
+}
+
+/**
+ * useUsersById - Returns known users keyed by ID; fills in as fetches finish
+ */
+export function useUsersById(userIds: string[]): Record<string, User> {
+  const key = useMemo(() => [...new Set(userIds)].sort().join(','), [userIds])
+  const users = useAppSelector(selectUsers)
+
+  useEffect(() => {
+    const known = selectUsers(appStore.getState())
+    const missing = key.split(',').filter((id) => id && !known[id])
+    if (missing.length === 0) return
+
+    // Storing the users re-renders every component that asked for them
+    api.users.getUsers(missing).then((response) => {
+      if (response.success && response.data) rememberUsers(response.data)
+    })
+  }, [key])
+
+  return useMemo(() => pickCached(users, key.split(',')), [users, key])
+}
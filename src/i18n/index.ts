@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * STEP 2.24: i18n - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * UPDATED: Feature Phase - Step 2.24 (Translate type for helpers that write text)
+ * UPDATED: Feature Phase - Step 2.24 (AppMessage for errors kept until shown)
+ * PURPOSE: Locales, catalogs and message formatting in one import path
+ *
+ * Components do not call translate() themselves: useI18n().t() already
+ * knows the reader's locale and re-renders them when it changes.
+ *
+ * @example
+ * import { translate } from '../i18n'
+ * translate('es', 'feed.newPosts', { count: 3 }) // '3 publicaciones nuevas'
+ */
+
+import { formatMessage, formatMessageParts, MessageSyntaxError, type MessageValues } from './format'
+import { DEFAULT_LOCALE, type Locale } from './locales'
+import { CATALOGS, type MessageKey } from './messages'
+
+export { formatMessage, formatMessageParts, messageArguments, MessageSyntaxError } from './format'
+export type { MessageValues } from './format'
+export { DEFAULT_LOCALE, isLocale, localeInfo, LOCALES, matchLocale } from './locales'
+export type { Locale, LocaleInfo } from './locales'
+export { CATALOGS, checkCatalogs } from './messages'
+export type { Catalog, MessageKey } from './messages'
+
+/**
+ * withFallback - Runs `format` on the locale's message, or on the English
+ * one when the translation is broken
+ *
+ * A broken translation must not take a screen down; checkCatalogs()
+ * reports it during development instead.
+ */
+function withFallback<T>(locale: Locale, key: MessageKey, format: (pattern: string, locale: string) => T): T {
+  try {
+    return format(CATALOGS[locale][key], locale)
+  } catch (error) {
+    if (!(error instanceof MessageSyntaxError) || locale === DEFAULT_LOCALE) throw error
+    return format(CATALOGS[DEFAULT_LOCALE][key], DEFAULT_LOCALE)
+  }
+}
+
+/**
+ * Translate - useI18n().t, as taken by helpers that put words together
+ * (utils/notifications.ts, utils/hashtags.ts, ...)
+ */
+export type Translate = (key: MessageKey, values?: MessageValues) => string
+
+/**
+ * AppMessage - A sentence from a server, shown as it came, or one of the
+ * app's own, kept as its key so it follows the reader's language
+ */
+export type AppMessage = string | { key: MessageKey }
+
+/**
+ * messageText - What to show for `message`
+ */
+export function messageText(message: AppMessage, t: Translate): string {
+  return typeof message === 'string' ? message : t(message.key)
+}
+
+/**
+ * translate - The message `key` in `locale`, with `values` filled in
+ */
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues): string {
+  return withFallback(locale, key, (pattern, tag) => formatMessage(pattern, tag, values))
+}
+
+/**
+ * translateParts - translate() for messages that place non-text values
+ * (links, emphasis) inside the sentence
+ */
+export function translateParts<T>(
+  locale: Locale,
+  key: MessageKey,
+  values: Record<string, string | number | T>,
+): (string | T)[] {
+  return withFallback(locale, key, (pattern, tag) => formatMessageParts(pattern, tag, values))
+}
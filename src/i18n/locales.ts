@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * STEP 2.24: Locales - The Languages the App Speaks
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: One list of supported locales, their names and writing
+ *          direction, and how a visitor's browser languages map onto it
+ *
+ * Adding a Language:
+ * 1. Add it to LOCALES (name in its own language, so people find it)
+ * 2. Add a catalog in ./messages and register it in ./messages/index.ts;
+ *    the type-check fails until every message is translated
+ *
+ * LEARNING NOTES:
+ * - Codes are BCP 47 language tags, the same ones Intl and <html lang>
+ *   take, so no mapping is needed when formatting
+ * - 'dir' is per language, not per message: Arabic text is laid out
+ *   right-to-left as a whole page
+ */
+
+/**
+ * Locale - A supported language
+ */
+export type Locale = 'en' | 'es' | 'ar'
+
+/**
+ * LocaleInfo - How a locale is offered and laid out
+ */
+export interface LocaleInfo {
+  code: Locale
+  name: string
+  dir: 'ltr' | 'rtl'
+}
+
+/** Every supported locale, in the order the switcher lists them */
+export const LOCALES: readonly LocaleInfo[] = [
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'es', name: 'Español', dir: 'ltr' },
+  { code: 'ar', name: 'العربية', dir: 'rtl' },
+]
+
+/** The source language: catalogs are translated from it, and it fills any gap */
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/**
+ * isLocale - Type guard for supported locale codes
+ */
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.code === value)
+}
+
+/**
+ * localeInfo - The LocaleInfo of a supported locale
+ */
+export function localeInfo(locale: Locale): LocaleInfo {
+  return LOCALES.find((info) => info.code === locale) ?? LOCALES[0]
+}
+
+/**
+ * matchLocale - The first supported locale among the browser's languages
+ *
+ * 'es-MX' matches 'es': regional variants share one catalog.
+ *
+ * @example matchLocale(['fr-FR', 'es-MX', 'en']) // 'es'
+ */
+export function matchLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split('-')[0]
+    if (isLocale(language)) return language
+  }
+  return DEFAULT_LOCALE
+}
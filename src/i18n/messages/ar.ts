@@ -0,0 +1,731 @@
+/**
+ * ============================================================================
+ * STEP 2.24: Arabic Messages
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * UPDATED: Feature Phase - Step 2.25 (skip link, shortcuts, live announcements)
+ * PURPOSE: The English catalog (./en.ts) in Arabic, laid out right-to-left
+ *
+ * LEARNING NOTES:
+ * - Typed as Catalog: a key missing here, or one English no longer has,
+ *   fails the type-check
+ * - Arabic uses all six plural categories; "two" is a separate dual form
+ *   and 3-10 ("few") take a plural noun while 11-99 ("many") take a
+ *   singular one
+ */
+
+import type { Catalog } from './en'
+
+export const ar: Catalog = {
+  // Shared
+  'common.loading': 'جارٍ التحميل…',
+  'common.retry': 'حاول مرة أخرى',
+  'common.loadMore': 'تحميل المزيد',
+  'common.show': 'عرض',
+  'common.saving': 'جارٍ الحفظ…',
+  'common.saved': 'تم الحفظ.',
+  'fields.firstName': 'الاسم الأول',
+  'fields.lastName': 'اسم العائلة',
+  'fields.username': 'اسم المستخدم',
+  'fields.email': 'البريد الإلكتروني',
+  'fields.password': 'كلمة المرور',
+  'fields.confirmPassword': 'تأكيد كلمة المرور',
+
+  // Field errors
+  'validation.required':
+    '{field, select, email {البريد الإلكتروني مطلوب.} password {كلمة المرور مطلوبة.} currentPassword {كلمة المرور الحالية مطلوبة.} confirmPassword {يرجى تأكيد كلمة المرور.} username {اسم المستخدم مطلوب.} firstName {الاسم الأول مطلوب.} lastName {اسم العائلة مطلوب.} post {اكتب شيئًا أو أضف صورة.} image {الملف فارغ.} attachment {الملف فارغ.} audience {اذكر شخصًا واحدًا على الأقل، أو اختر جمهورًا آخر.} comment {لا يمكن أن يكون التعليق فارغًا.} message {لا يمكن أن تكون الرسالة فارغة.} groupName {لا يمكن أن يكون اسم المجموعة فارغًا.} reportReason {اختر سبب الإبلاغ.} reportDetails {أخبرنا بما هو الخطأ.} moderationNote {اشرح السبب للمستخدم.} other {هذا الحقل مطلوب.}}',
+  'validation.invalidFormat':
+    '{field, select, email {أدخل عنوان بريد إلكتروني صالحًا.} username {يمكن أن يحتوي اسم المستخدم على أحرف وأرقام وشرطات سفلية فقط.} imageAlts {يجب أن تكون الأوصاف نصًا.} attachments {يجب أن تكون المرفقات ملفات مرفوعة.} audience {اختر من يمكنه رؤية هذا المنشور.} messageType {يمكن أن تكون الرسائل نصًا أو صورًا أو ملفات فقط.} website {أدخل عنوان ويب كاملًا، مثل https://example.com.} suspensionDays {يكون الإيقاف من {min, number} إلى {max, plural, one {يوم واحد} two {يومين} few {# أيام} many {# يومًا} other {# يوم}}.} moderationAction {اختر إجراءً.} other {تحقق من هذا الحقل.}}',
+  'validation.tooShort':
+    '{field, select, groupMembers {اختر {min, plural, one {شخصًا واحدًا} two {شخصين} few {# أشخاص} many {# شخصًا} other {# شخص}} على الأقل لإنشاء مجموعة.} password {يجب أن تتكون كلمة المرور من {min, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}} على الأقل.} username {يجب أن يتكون اسم المستخدم من {min, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}} على الأقل.} other {يجب أن يتكون من {min, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}} على الأقل.}}',
+  'validation.tooLong':
+    'الحد الأقصى {field, select, password {لكلمة المرور} username {لاسم المستخدم} firstName {للاسم الأول} lastName {لاسم العائلة} post {للمنشور} imageAlts {لوصف الصورة} tags {للوسم} comment {للتعليق} message {للرسالة} groupName {لاسم المجموعة} bio {للنبذة} location {للموقع} website {لعنوان الموقع} reportDetails {للتفاصيل} moderationNote {للملاحظة} mutedKeywords {للكلمة المكتومة} other {لهذا الحقل}} هو {max, plural, one {حرف واحد} two {حرفان} few {# أحرف} many {# حرفًا} other {# حرف}}.',
+  'validation.tooWeak': 'يجب أن تحتوي كلمة المرور على حرف واحد ورقم واحد على الأقل.',
+  'validation.mismatch':
+    '{field, select, confirmPassword {كلمتا المرور غير متطابقتين.} newPassword {اختر كلمة مرور غير التي تستخدمها الآن.} other {القيمتان غير متطابقتين.}}',
+  'validation.taken':
+    '{field, select, username {اسم المستخدم هذا مستخدم بالفعل.} email {يوجد حساب بهذا البريد الإلكتروني بالفعل.} currentEmail {هذا هو بريدك الإلكتروني الحالي بالفعل.} other {هذه القيمة مستخدمة بالفعل.}}',
+  'validation.tooMany':
+    '{field, select, images {يمكنك إرفاق {max, plural, one {صورة واحدة} two {صورتين} few {# صور} many {# صورة} other {# صورة}} كحد أقصى.} imageAlts {عدد الأوصاف أكبر من عدد الصور.} attachments {يمكنك إرفاق {max, plural, one {ملف واحد} two {ملفين} few {# ملفات} many {# ملفًا} other {# ملف}} كحد أقصى.} tags {يمكن أن يحتوي المنشور على {max, plural, one {وسم واحد} two {وسمين} few {# وسوم} many {# وسمًا} other {# وسم}} كحد أقصى.} groupMembers {يمكن أن تضم المجموعة {max, plural, one {عضوًا واحدًا} two {عضوين} few {# أعضاء} many {# عضوًا} other {# عضو}} كحد أقصى.} mutedKeywords {يمكنك كتم {max, plural, one {كلمة واحدة} two {كلمتين} few {# كلمات} many {# كلمة} other {# كلمة}} كحد أقصى.} other {العدد كبير جدًا.}}',
+  'validation.invalidType':
+    '{field, select, attachment {يمكن إرفاق الصور وملفات PDF فقط.} other {الصور المدعومة هي JPEG وPNG وGIF وWebP فقط.}}',
+  'validation.tooLarge':
+    '{field, select, images {يجب ألا يتجاوز حجم كل صورة {max, number} ميغابايت.} other {يجب ألا يتجاوز حجم الملفات {max, number} ميغابايت.}}',
+  'validation.readOnly':
+    '{field, select, postEdit {لا يمكن تعديل المنشورات إلا خلال ساعة من نشرها.} other {لا يمكن تغيير هذا.}}',
+
+  // Navigation and header (NavBar, AccountMenu)
+  'nav.label': 'التنقل الرئيسي',
+  'nav.home': 'الرئيسية',
+  'nav.search': 'بحث',
+  'nav.notifications': 'الإشعارات',
+  'nav.messages': 'الرسائل',
+  'nav.moderation': 'الإشراف',
+  'nav.unread': '{count, plural, other {# غير مقروء}}',
+  'account.logIn': 'تسجيل الدخول',
+  'account.settings': 'الإعدادات',
+  'account.logOut': 'تسجيل الخروج',
+
+  // Language switcher and settings section
+  'language.label': 'اللغة',
+  'language.hint': 'تُستخدم للقوائم والتواريخ والأرقام. تبقى المنشورات والرسائل باللغة التي كُتبت بها.',
+  'language.saveError': 'تعذّر حفظ اللغة في حسابك، لذا تُطبَّق على هذا الجهاز فقط.',
+  'settings.title': 'الإعدادات',
+
+  // Feed
+  'feed.newPosts':
+    '{count, plural, one {منشور جديد واحد} two {منشوران جديدان} few {# منشورات جديدة} many {# منشورًا جديدًا} other {# منشور جديد}}',
+  'feed.order': 'ترتيب الصفحة حسب',
+  'feed.latest': 'الأحدث',
+  'feed.top': 'الأبرز',
+  'feed.loading': 'جارٍ تحميل المنشورات…',
+  'feed.end': 'لا جديد لديك.',
+  'feed.loadError': 'تعذّر تحميل موجزك.',
+  'feed.postsError': 'تعذّر تحميل المنشورات.',
+
+  // Post card
+  'post.reposted': 'أعاد {name} النشر',
+  'post.youReposted': 'أعدت النشر',
+  'post.followedTag': 'لأنك تتابع {tag}',
+  'post.edited': 'معدَّل',
+  'post.editedAt': 'عُدّل في {date}',
+  'post.pending': 'لم يُرسل بعد',
+  'post.editLabel': 'تعديل المنشور',
+  'post.save': 'حفظ',
+  'post.imagesOf': 'صور في منشور {name}',
+  'post.images': 'صور في هذا المنشور',
+  'post.like':
+    '{count, plural, =0 {إعجاب، لا إعجابات بعد} one {إعجاب، إعجاب واحد} two {إعجاب، إعجابان} few {إعجاب، # إعجابات} many {إعجاب، # إعجابًا} other {إعجاب، # إعجاب}}',
+  'post.comments':
+    '{count, plural, =0 {لا تعليقات بعد} one {تعليق واحد} two {تعليقان} few {# تعليقات} many {# تعليقًا} other {# تعليق}}',
+  'post.repost':
+    '{count, plural, =0 {إعادة نشر، لم يُعد نشره بعد} one {إعادة نشر، مرة واحدة} two {إعادة نشر، مرتان} few {إعادة نشر، # مرات} many {إعادة نشر، # مرة} other {إعادة نشر، # مرة}}',
+  'post.repostPublicOnly': 'يمكن مشاركة المنشورات العامة فقط',
+  'post.repostError': 'تعذّرت إعادة نشر هذا المنشور.',
+  'post.quote': 'اقتباس',
+  'post.quoteLabelOf': 'اقتباس منشور {name}',
+  'post.quoteLabel': 'اقتباس هذا المنشور',
+  'post.quoteSubmit': 'نشر الاقتباس',
+  'post.quoteQueued': 'سيُنشر اقتباسك عند عودة الاتصال.',
+  'post.quotePosted': 'نُشر اقتباسك.',
+  'post.viewQuote': 'عرضه',
+  'post.edit': 'تعديل',
+  'post.delete': 'حذف',
+  'post.deleteConfirm': 'حذف هذا المنشور؟ ستُحذف تعليقاته وإعادات نشره أيضًا.',
+  'post.deleteError': 'تعذّر حذف هذا المنشور.',
+  'post.repostLabel': 'إعادة نشر',
+  'post.someone': 'شخص ما',
+  'post.originalRemoved': 'أُزيل المنشور الأصلي.',
+  'post.unavailable': 'هذا المنشور غير متاح.',
+  'postForm.cancel': 'إلغاء',
+  'postForm.checkText': 'يُرجى التحقق من النص.',
+  'postForm.saveError': 'تعذّر حفظ المنشور.',
+  'quoted.show': 'عرض المنشور المقتبس',
+  'quoted.open': 'فتح المنشور',
+  'quoted.openOf': 'فتح منشور {name}',
+  'shares.title': 'إعادات النشر والاقتباسات',
+  'shares.repostedBy': 'أعاد نشره {names}',
+  'shares.separator': '، ',
+  'shares.loadError': 'تعذّر تحميل إعادات النشر.',
+  'lightbox.counter': 'الصورة {number} من {count}',
+  'lightbox.previous': 'الصورة السابقة',
+  'lightbox.next': 'الصورة التالية',
+  'lightbox.close': 'إغلاق',
+
+  // Conversation list
+  'conversations.loading': 'جارٍ تحميل المحادثات…',
+  'conversations.empty': 'لا محادثات بعد.',
+  'conversations.noMessages': 'لا رسائل بعد',
+  'conversations.ownPreview': 'أنت: {text}',
+  'conversations.newMessages':
+    '{count, plural, one {رسالة جديدة واحدة} two {رسالتان جديدتان} few {# رسائل جديدة} many {# رسالة جديدة} other {# رسالة جديدة}}',
+  'messages.title': 'الرسائل',
+  'messages.conversations': 'المحادثات',
+  'messages.newGroup': 'مجموعة جديدة',
+  'messages.notFound': 'لم يتم العثور على المحادثة. {link}',
+  'messages.back': 'العودة إلى الرسائل',
+  'messages.loading': 'جارٍ تحميل المحادثة…',
+  'messages.pick': 'اختر محادثة لبدء الدردشة.',
+
+  // Chat view; {by} and {who} are you or other, so verbs can agree with the viewer
+  'chat.deletedAccount': 'حساب محذوف',
+  'chat.justYou': 'أنت فقط',
+  'chat.someone': 'شخص ما',
+  'chat.typingOne': '{name} يكتب…',
+  'chat.typingTwo': '{first} و{second} يكتبان…',
+  'chat.typingMany': '{count, plural, few {# أشخاص يكتبون…} many {# شخصًا يكتبون…} other {# شخص يكتبون…}}',
+  'chat.reconnecting': 'جارٍ إعادة الاتصال…',
+  'chat.offline': 'غير متصل',
+  'chat.groupInfo': 'معلومات المجموعة',
+  'chat.log': 'الرسائل',
+  'chat.loadEarlier': 'تحميل الرسائل الأقدم',
+  'chat.empty': 'لا توجد رسائل بعد. قل مرحبًا!',
+  'chat.announcement': '{name}: {text}',
+  'chat.startError': 'تعذّر بدء المحادثة.',
+  'chat.attachment': 'مرفق',
+  'chat.attachmentNumber': 'المرفق {number}',
+  'chat.images': 'الصور في هذه الرسالة',
+  'chat.sending': 'جارٍ الإرسال…',
+  'chat.seen': 'تمت القراءة',
+  'chat.sent': 'تم الإرسال',
+  'chat.notSent': 'لم تُرسل.',
+  'chat.retry': 'إعادة المحاولة',
+  'chat.attached': 'الملفات المرفقة',
+  'chat.removeFile': 'إزالة {name}',
+  'chat.uploading': 'جارٍ رفع الملف',
+  'chat.uploadError': '{name}: {error}',
+  'chat.notUploaded': 'لم يُرفع {name}.',
+  'chat.attach': 'إرفاق ملفات',
+  'chat.label': 'الرسالة',
+  'chat.placeholder': 'اكتب رسالة…',
+  'chat.send': 'إرسال',
+  'groupEvent.you': 'أنت',
+  'groupEvent.created': '{by, select, you {أنشأتَ المجموعة} other {أنشأ {actor} المجموعة}}',
+  'groupEvent.createdNamed': '{by, select, you {أنشأتَ المجموعة «{name}»} other {أنشأ {actor} المجموعة «{name}»}}',
+  'groupEvent.renamed':
+    '{by, select, you {غيّرتَ اسم المجموعة إلى «{name}»} other {غيّر {actor} اسم المجموعة إلى «{name}»}}',
+  'groupEvent.imageChanged': '{by, select, you {غيّرتَ صورة المجموعة} other {غيّر {actor} صورة المجموعة}}',
+  'groupEvent.added':
+    '{by, select, you {أضفتَ {names}} other {{who, select, you {أضافك {actor}} other {أضاف {actor} {names}}}}}',
+  'groupEvent.removed':
+    '{by, select, you {أزلتَ {names}} other {{who, select, you {أزالك {actor}} other {أزال {actor} {names}}}}}',
+  'groupEvent.left': '{by, select, you {غادرتَ المجموعة} other {غادر {actor} المجموعة}}',
+  'groupEvent.promoted':
+    '{who, select, you {أصبحتَ مشرفًا} other {{count, plural, one {أصبح {subject} مشرفًا} two {أصبح {subject} مشرفَين} other {أصبح {subject} مشرفين}}}}',
+  'groupEvent.demoted':
+    '{who, select, you {لم تعد مشرفًا} other {{count, plural, one {لم يعد {subject} مشرفًا} two {لم يعد {subject} مشرفَين} other {لم يعد {subject} مشرفين}}}}',
+
+  // Groups: settings panel, new group form, member picker
+  'group.settings': 'إعدادات المجموعة',
+  'group.photo': 'صورة المجموعة',
+  'group.changePhoto': 'تغيير الصورة',
+  'group.removePhoto': 'إزالة الصورة',
+  'group.name': 'اسم المجموعة',
+  'group.rename': 'إعادة التسمية',
+  'group.members': '{count, plural, one {عضو واحد} two {عضوان} few {# أعضاء} many {# عضوًا} other {# عضو}}',
+  'group.memberYou': '{name} (أنت)',
+  'group.admin': 'مشرف',
+  'group.makeAdmin': 'تعيين كمشرف',
+  'group.removeAdmin': 'إلغاء الإشراف',
+  'group.remove': 'إزالة',
+  'group.removeMember': 'إزالة {name} من المجموعة',
+  'group.addMembers': 'إضافة أعضاء',
+  'group.add': 'إضافة',
+  'group.leaveButton': 'مغادرة المجموعة',
+  'group.leave': 'هل تريد مغادرة هذه المجموعة؟',
+  'group.leaveLast': 'هل تريد مغادرة هذه المجموعة؟ أنت آخر عضو، لذا ستُحذف المجموعة ورسائلها.',
+  'group.leaveSuccessor': 'هل تريد مغادرة هذه المجموعة؟ سيصبح {name} مشرفًا.',
+  'group.longestMember': 'أقدم عضو',
+  'group.updateError': 'تعذّر تحديث المجموعة.',
+  'group.photoError': 'تعذّر رفع الصورة.',
+  'newGroup.title': 'مجموعة جديدة',
+  'newGroup.name': 'اسم المجموعة (اختياري)',
+  'newGroup.members': 'الأعضاء',
+  'newGroup.cancel': 'إلغاء',
+  'newGroup.create': 'إنشاء المجموعة',
+  'newGroup.creating': 'جارٍ الإنشاء…',
+  'newGroup.error': 'تعذّر إنشاء المجموعة.',
+  'userPicker.picked': 'المختارون',
+  'userPicker.remove': 'إزالة {name}',
+  'userPicker.placeholder': 'ابحث باسم المستخدم',
+
+  // Accessibility: skip link, keyboard shortcuts, live announcements
+  'a11y.skipToContent': 'انتقل إلى المحتوى',
+  'shortcuts.open': 'اختصارات لوحة المفاتيح',
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.hint': 'لا تعمل الاختصارات أثناء الكتابة في حقل.',
+  'shortcuts.close': 'إغلاق',
+  'shortcuts.then': '{first} ثم {second}',
+  'shortcuts.nextPost': 'المنشور التالي',
+  'shortcuts.previousPost': 'المنشور السابق',
+  'shortcuts.like': 'الإعجاب بالمنشور المحدد',
+  'shortcuts.reply': 'الرد على المنشور المحدد',
+  'shortcuts.newPost': 'كتابة منشور جديد',
+  'shortcuts.goHome': 'الانتقال إلى الصفحة الرئيسية',
+  'shortcuts.goMessages': 'الانتقال إلى الرسائل',
+  'shortcuts.goNotifications': 'الانتقال إلى الإشعارات',
+  'shortcuts.help': 'عرض هذه القائمة',
+  'live.notifications':
+    '{count, plural, one {إشعار جديد واحد} two {إشعاران جديدان} few {# إشعارات جديدة} many {# إشعارًا جديدًا} other {# إشعار جديد}}',
+  'live.messages':
+    '{count, plural, one {رسالة جديدة واحدة} two {رسالتان جديدتان} few {# رسائل جديدة} many {# رسالة جديدة} other {# رسالة جديدة}}',
+
+  // Hashtags: trending panel and tag pages
+  'trends.title': 'الرائج',
+  'trends.windows': 'الرائج خلال',
+  'trends.hour': 'الساعة الأخيرة',
+  'trends.day': 'اليوم',
+  'trends.week': 'هذا الأسبوع',
+  'trends.new': 'جديد · {count, plural, one {شخص واحد} two {شخصان} few {# أشخاص} many {# شخصًا} other {# شخص}}',
+  'trends.rare':
+    '{count, plural, one {شخص واحد} two {شخصان} few {# أشخاص} many {# شخصًا} other {# شخص}}، ونادرًا ما استُخدم من قبل',
+  'trends.usual':
+    '{count, plural, one {شخص واحد} two {شخصان} few {# أشخاص} many {# شخصًا} other {# شخص}}، والمعتاد {usual}',
+  'trends.loadError': 'تعذّر تحميل الرائج.',
+  'trends.empty': 'لا شيء رائج بعد.',
+  'tag.posts': '{count, plural, one {منشور واحد} two {منشوران} few {# منشورات} many {# منشورًا} other {# منشور}}',
+  'tag.followers': '{count, plural, one {متابع واحد} two {متابعان} few {# متابعين} many {# متابعًا} other {# متابع}}',
+  'tag.empty': 'لا منشورات بالوسم #{tag} بعد. تابعه لترى أول منشور في صفحتك الرئيسية.',
+  'tag.invalid': 'الوسوم حروف وأرقام وشرطات سفلية، مثل #typescript. جرّب البحث بدلًا من ذلك.',
+
+  // Notification rows; {count} is how many people, which verbs agree with
+  'notifications.unread': 'غير مقروء:',
+  'notifications.markRead': 'تعليم كمقروء',
+  'notifications.someone': 'شخص ما',
+  'notifications.someoneElse': 'شخص آخر',
+  'notifications.twoActors': '{first} و{second}',
+  'notifications.manyActors':
+    '{first} و{count, plural, one {شخص آخر} two {شخصان آخران} few {# أشخاص آخرين} many {# شخصًا آخر} other {# شخص آخر}}',
+  'notifications.like':
+    '{count, plural, one {أُعجب {actors} {target, select, comment {بتعليقك} other {بمنشورك}}} other {أُعجب {actors} {target, select, comment {بتعليقك} other {بمنشورك}}}}',
+  'notifications.comment': '{count, plural, one {علّق {actors} على منشورك} other {علّق {actors} على منشورك}}',
+  'notifications.follow': '{count, plural, one {بدأ {actors} متابعتك} other {بدأ {actors} متابعتك}}',
+  'notifications.followRequest': '{count, plural, one {طلب {actors} متابعتك} other {طلب {actors} متابعتك}}',
+  'notifications.mention':
+    '{count, plural, one {أشار إليك {actors} في {target, select, comment {تعليق} other {منشور}}} other {أشار إليك {actors} في {target, select, comment {تعليق} other {منشور}}}}',
+  'notifications.repost': '{count, plural, one {أعاد {actors} نشر منشورك} other {أعاد {actors} نشر منشورك}}',
+  'notifications.quote': '{count, plural, one {اقتبس {actors} منشورك} other {اقتبس {actors} منشورك}}',
+  'notifications.message':
+    '{count, plural, other {أرسل إليك {actors} {messages, plural, one {رسالة} two {رسالتين} few {# رسائل} many {# رسالة} other {# رسالة}}}}',
+  'notifications.moderation': 'راجع المشرفون محتواك',
+  'notifications.requestAnswered': 'تم الرد على هذا الطلب من قبل.',
+  'notifications.messageGone': 'لم تعد هذه الرسالة متاحة.',
+  'notifications.commentGone': 'لم يعد هذا التعليق متاحًا.',
+  'notifications.postGone': 'لم يعد هذا المنشور متاحًا.',
+  'notifications.loadError': 'تعذّر تحميل الإشعارات.',
+  'notificationTypes.like': 'الإعجابات',
+  'notificationTypes.comment': 'التعليقات على منشوراتك',
+  'notificationTypes.follow': 'المتابعون الجدد',
+  'notificationTypes.followRequest': 'طلبات المتابعة',
+  'notificationTypes.mention': 'الإشارات',
+  'notificationTypes.message': 'الرسائل',
+  'notificationTypes.repost': 'إعادة نشر منشوراتك',
+  'notificationTypes.quote': 'اقتباسات منشوراتك',
+  'notificationPrefs.loading': 'جارٍ تحميل التفضيلات…',
+  'notificationPrefs.legend': 'أرسل لي إشعارًا عند',
+  'notificationPrefs.saveError': 'تعذّر حفظ تفضيلاتك.',
+
+  // Reports; {target} is post, comment, message or user
+  'report.button': 'إبلاغ',
+  'report.question':
+    'ما المشكلة في {target, select, comment {هذا التعليق} message {هذه الرسالة} user {هذا الحساب} other {هذا المنشور}}؟',
+  'report.spam': 'رسائل مزعجة أو احتيال',
+  'report.harassment': 'مضايقة أو تنمّر',
+  'report.hate': 'خطاب كراهية',
+  'report.violence': 'عنف أو تهديد',
+  'report.sexual': 'محتوى جنسي',
+  'report.misinformation': 'معلومات كاذبة',
+  'report.other': 'شيء آخر',
+  'report.details': '{required, select, yes {التفاصيل (مطلوبة)} other {التفاصيل (اختيارية)}}',
+  'report.send': 'إرسال البلاغ',
+  'report.sending': 'جارٍ الإرسال…',
+  'report.cancel': 'إلغاء',
+  'report.sendError': 'لم يُرسل بلاغك. حاول مرة أخرى.',
+  'report.thanks':
+    'شكرًا. سيراجع المشرفون {target, select, comment {هذا التعليق} message {هذه الرسالة} user {هذا الحساب} other {هذا المنشور}}.',
+  'report.close': 'إغلاق',
+
+  // Moderation: actions, notices, audit log and placeholders
+  'moderation.hide': 'إخفاء',
+  'moderation.remove': 'إزالة',
+  'moderation.restore': 'استعادة',
+  'moderation.warn': 'تحذير الكاتب',
+  'moderation.suspend': 'إيقاف الكاتب',
+  'moderation.unsuspend': 'رفع الإيقاف',
+  'moderation.dismiss': 'رفض البلاغات',
+  'moderation.targetPost': 'منشور',
+  'moderation.targetComment': 'تعليق',
+  'moderation.targetMessage': 'رسالة',
+  'moderation.targetUser': 'حساب',
+  'moderation.noticeHide':
+    'أخفى المشرفون {target, select, comment {تعليقك} message {رسالتك} user {حسابك} other {منشورك}}',
+  'moderation.noticeRemove':
+    'أزال المشرفون {target, select, comment {تعليقك} message {رسالتك} user {حسابك} other {منشورك}}',
+  'moderation.noticeRestore':
+    'استعاد المشرفون {target, select, comment {تعليقك} message {رسالتك} user {حسابك} other {منشورك}}',
+  'moderation.noticeWarn':
+    '{target, select, user {أرسل إليك المشرفون تحذيرًا} comment {حذّرك المشرفون بشأن تعليقك} message {حذّرك المشرفون بشأن رسالتك} other {حذّرك المشرفون بشأن منشورك}}',
+  'moderation.noticeSuspendedUntil': 'حسابك موقوف حتى {date}',
+  'moderation.noticeSuspended': 'أُوقف حسابك',
+  'moderation.noticeUnsuspend': 'رُفع الإيقاف عن حسابك',
+  'moderation.noticeDismiss':
+    'رُفضت البلاغات عن {target, select, comment {تعليقك} message {رسالتك} user {حسابك} other {منشورك}}',
+  'moderation.someModerator': 'أحد المشرفين',
+  'moderation.someUser': 'مستخدم',
+  'moderation.logHide':
+    'أخفى {moderator} {target, select, user {{name}} comment {تعليقًا لـ{name}} message {رسالة لـ{name}} other {منشورًا لـ{name}}}',
+  'moderation.logRemove':
+    'أزال {moderator} {target, select, user {{name}} comment {تعليقًا لـ{name}} message {رسالة لـ{name}} other {منشورًا لـ{name}}}',
+  'moderation.logRestore':
+    'استعاد {moderator} {target, select, user {{name}} comment {تعليقًا لـ{name}} message {رسالة لـ{name}} other {منشورًا لـ{name}}}',
+  'moderation.logWarn':
+    'حذّر {moderator} {name}{target, select, user {} comment { بشأن تعليقه} message { بشأن رسالته} other { بشأن منشوره}}',
+  'moderation.logSuspendedUntil': 'أوقف {moderator} {name} حتى {date}',
+  'moderation.logSuspended': 'أوقف {moderator} {name}',
+  'moderation.logUnsuspend': 'رفع {moderator} الإيقاف عن {name}',
+  'moderation.logDismiss':
+    'رفض {moderator} البلاغات عن {target, select, user {{name}} comment {تعليق لـ{name}} message {رسالة لـ{name}} other {منشور لـ{name}}}',
+  'moderation.removed':
+    'أزال المشرفون {target, select, comment {هذا التعليق} message {هذه الرسالة} user {هذا الحساب} other {هذا المنشور}}.',
+  'moderation.removedForReader':
+    'أزال المشرفون {target, select, comment {تعليقك هذا} message {رسالتك هذه} user {حسابك هذا} other {منشورك هذا}}.',
+  'moderation.hidden':
+    'أخفى المشرفون {target, select, comment {هذا التعليق} message {هذه الرسالة} user {هذا الحساب} other {هذا المنشور}}.',
+  'moderation.hiddenForReader':
+    'أخفى المشرفون {target, select, comment {هذا التعليق} message {هذه الرسالة} user {هذا الحساب} other {هذا المنشور}}. لا يراه غيرك وغير المشرفين.',
+
+  // Moderation queue and page
+  'queue.label':
+    '{target, select, comment {تعليق مُبلَّغ عنه} message {رسالة مُبلَّغ عنها} user {حساب مُبلَّغ عنه} other {منشور مُبلَّغ عنه}} لـ{author}',
+  'queue.by': 'بواسطة {author}',
+  'queue.unknownAuthor': 'مستخدم غير معروف',
+  'queue.reports':
+    '{count, plural, one {بلاغ واحد} two {بلاغان} few {# بلاغات} many {# بلاغًا} other {# بلاغ}}، أولها {time}',
+  'queue.noText': 'بلا نص',
+  'queue.images': '({count, plural, one {صورة واحدة} two {صورتان} few {# صور} many {# صورة} other {# صورة}})',
+  'queue.open': 'فتح {target, select, comment {التعليق} message {الرسالة} user {الحساب} other {المنشور}}',
+  'queue.reasons': 'الأسباب',
+  'queue.details': 'تفاصيل المُبلِّغين',
+  'queue.already': '{state, select, hidden {مخفي بالفعل.} other {مُزال بالفعل.}}',
+  'queue.suspendedUntil': '{author} موقوف حتى {date}.',
+  'queue.note': 'ملاحظة للكاتب (مطلوبة للتحذير أو الإيقاف)',
+  'queue.days': 'مدة الإيقاف (بالأيام)',
+  'queue.chooseAction': 'اختر إجراءً.',
+  'queue.removeConfirm':
+    'إزالة {target, select, comment {هذا التعليق} message {هذه الرسالة} user {هذا الحساب} other {هذا المنشور}} للجميع؟',
+  'queue.failed': 'فشل الإجراء. حاول مرة أخرى.',
+  'queue.working': 'جارٍ التنفيذ…',
+  'moderationPage.title': 'الإشراف',
+  'moderationPage.moderatorsOnly': 'يمكن للمشرفين فقط فتح هذه الصفحة.',
+  'moderationPage.queue': 'قائمة المراجعة',
+  'moderationPage.audit': 'سجل التدقيق',
+  'moderationPage.noReports': 'لا توجد بلاغات مفتوحة.',
+  'moderationPage.loadingReports': 'جارٍ تحميل البلاغات…',
+  'moderationPage.queueError': 'تعذّر تحميل قائمة المراجعة.',
+  'moderationPage.noActions': 'لا توجد إجراءات بعد.',
+  'moderationPage.loadingAudit': 'جارٍ تحميل سجل التدقيق…',
+  'moderationPage.auditError': 'تعذّر تحميل سجل التدقيق.',
+
+  // Signing in, creating an account, password resets and email confirmation
+  'login.title': 'تسجيل الدخول',
+  'login.forgot': 'نسيت كلمة المرور؟',
+  'login.submit': 'تسجيل الدخول',
+  'login.submitting': 'جارٍ تسجيل الدخول…',
+  'login.switch': 'جديد هنا؟ {link}',
+  'login.switchLink': 'أنشئ حسابًا',
+  'register.title': 'أنشئ حسابك',
+  'register.submit': 'إنشاء الحساب',
+  'register.submitting': 'جارٍ إنشاء الحساب…',
+  'register.switch': 'لديك حساب بالفعل؟ {link}',
+  'register.switchLink': 'سجّل الدخول',
+  'session.restoring': 'جارٍ استعادة جلستك…',
+  'forgotPassword.title': 'إعادة تعيين كلمة المرور',
+  'forgotPassword.sent':
+    'إذا كان هناك حساب يستخدم {email}، فقد أرسلنا إليه رابطًا لاختيار كلمة مرور جديدة. يعمل الرابط لمدة ساعة واحدة.',
+  'forgotPassword.submit': 'إرسال رابط إعادة التعيين',
+  'forgotPassword.sending': 'جارٍ الإرسال…',
+  'forgotPassword.remembered': 'تذكّرتها؟ {link}',
+  'forgotPassword.logIn': 'سجّل الدخول',
+  'resetPassword.title': 'اختر كلمة مرور جديدة',
+  'resetPassword.noToken': 'تُفتح هذه الصفحة من الرابط الموجود في رسالة إعادة تعيين كلمة المرور.',
+  'resetPassword.askForLink': 'اطلب رابطًا',
+  'resetPassword.askForNewLink': 'اطلب رابطًا جديدًا',
+  'resetPassword.done': 'تم تغيير كلمة المرور وتسجيل الخروج من كل الجلسات.',
+  'resetPassword.logIn': 'سجّل الدخول',
+  'resetPassword.password': 'كلمة المرور الجديدة',
+  'resetPassword.confirmPassword': 'تأكيد كلمة المرور الجديدة',
+  'resetPassword.submit': 'تعيين كلمة المرور',
+  'verifyEmail.title': 'تأكيد بريدك الإلكتروني',
+  'verifyEmail.noToken': 'تُفتح هذه الصفحة من الرابط الموجود في رسالة التحقق.',
+  'verifyEmail.done': 'شكرًا، تم تأكيد عنوان بريدك الإلكتروني.',
+  'verifyEmail.toFeed': 'الانتقال إلى موجزك',
+  'verifyEmail.logIn': 'سجّل الدخول',
+  'verifyEmail.submit': 'تأكيد عنوان بريدي الإلكتروني',
+  'verifyEmail.confirming': 'جارٍ التأكيد…',
+  'emailBanner.text': 'يُرجى تأكيد عنوان بريدك الإلكتروني باستخدام الرابط الذي أرسلناه إلى {email}.',
+  'emailBanner.resend': 'إعادة الإرسال',
+  'emailBanner.sending': 'جارٍ الإرسال…',
+  'emailBanner.sent': 'أُرسل إلى {email}.',
+  'emailBanner.mailbox': 'فتح صندوق بريد التطوير',
+
+  // Pages: home, notifications, post, search, profile
+  'home.title': 'الرئيسية',
+  'home.empty': 'ستظهر هنا منشورات الأشخاص والوسوم التي تتابعها.',
+  'notifications.title': 'الإشعارات',
+  'notifications.summary':
+    '{count, plural, zero {لا إشعارات غير مقروءة} one {إشعار واحد غير مقروء} two {إشعاران غير مقروءين} few {# إشعارات غير مقروءة} many {# إشعارًا غير مقروء} other {# إشعار غير مقروء}}',
+  'notifications.markAllRead': 'تعليم الكل كمقروء',
+  'notifications.caughtUp': 'لا جديد لديك.',
+  'notifications.loading': 'جارٍ تحميل الإشعارات…',
+  'notifications.settings': 'إعدادات الإشعارات',
+  'postPage.title': 'منشور',
+  'postPage.loading': 'جارٍ تحميل المنشور…',
+  'postPage.notFound': 'لم يُعثر على المنشور.',
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.path': 'لا يوجد شيء في {path}.',
+  'notFound.home': 'العودة إلى الرئيسية',
+  'search.title': 'بحث',
+  'search.label': 'ابحث عن أشخاص ومنشورات ووسوم',
+  'search.placeholder': 'ابحث عن أشخاص ومنشورات و#وسوم',
+  'search.submit': 'بحث',
+  'search.all': 'الكل',
+  'search.people': 'الأشخاص',
+  'search.posts': 'المنشورات',
+  'search.sortBy': 'الترتيب حسب',
+  'search.relevance': 'الأكثر صلة',
+  'search.recent': 'الأحدث',
+  'search.popular': 'الأكثر رواجًا',
+  'search.prompt': 'ابحث عن أشخاص ومنشورات ووسوم.',
+  'search.hashtags': 'الوسوم',
+  'search.searching': 'جارٍ البحث…',
+  'search.summary':
+    '{count, plural, zero {لا نتائج} one {نتيجة واحدة} two {نتيجتان} few {# نتائج} many {# نتيجة} other {# نتيجة}} عن «{query}»',
+  'search.error': 'فشل البحث.',
+  'profile.posts': 'المنشورات',
+  'profile.likes': 'الإعجابات',
+  'profile.notFound': 'هذا الحساب غير موجود. جرّب البحث عن حساب آخر.',
+  'profile.private': 'هذا الحساب خاص. تابع @{username} لترى منشوراته وإعجاباته.',
+  'profile.blocked': 'لقد حظرت @{username}. ألغِ الحظر لترى منشوراته.',
+  'profile.noPosts': 'لم ينشر @{username} شيئًا بعد.',
+  'profile.noLikes': 'لم يُعجب @{username} بأي منشور بعد.',
+  'profile.edit': 'تعديل الملف الشخصي',
+  'profile.mute': 'كتم',
+  'profile.unmute': 'إلغاء الكتم',
+  'profile.block': 'حظر',
+  'profile.unblock': 'إلغاء الحظر',
+  'profile.blockConfirm':
+    'حظر @{username}؟ لن يتمكن من رؤية ملفك الشخصي أو متابعتك أو مراسلتك، ولن يتابع أحدكما الآخر بعد الآن.',
+  'profile.actionError': 'حدث خطأ ما.',
+  'profile.loadError': 'تعذّر تحميل الملف الشخصي.',
+  'profile.verified': 'موثّق',
+  'profile.privateAccount': 'حساب خاص',
+  'profile.followsYou': 'يتابعك',
+  'profile.joined': 'انضم في {date}',
+  'profile.postCount': '{count, plural, one {منشور} two {منشوران} other {المنشورات}}',
+  'profile.followerCount': '{count, plural, one {متابِع} two {متابِعان} other {المتابِعون}}',
+  'profile.following': 'يتابع',
+  'profileEdit.avatar': 'صورة الملف الشخصي',
+  'profileEdit.cover': 'صورة الغلاف',
+  'profileEdit.uploading': 'جارٍ رفع {label}…',
+  'profileEdit.current': '{label} الحالية',
+  'profileEdit.none': 'لا توجد {label}',
+  'profileEdit.change': 'تغيير {label}',
+  'profileEdit.remove': 'إزالة',
+  'profileEdit.bio': 'النبذة',
+  'profileEdit.location': 'الموقع',
+  'profileEdit.website': 'الموقع الإلكتروني',
+  'profileEdit.cancel': 'إلغاء',
+  'profileEdit.save': 'حفظ',
+  'cropper.title': 'قص {label}',
+  'cropper.preview': 'معاينة {label} بعد القص. اسحب أو استخدم مفاتيح الأسهم للتحريك، وزائد وناقص للتكبير والتصغير.',
+  'cropper.zoom': 'التكبير',
+  'cropper.cancel': 'إلغاء',
+  'cropper.apply': 'تطبيق',
+  'cropper.cropping': 'جارٍ القص…',
+  'cropper.readError': 'تعذّرت قراءة هذا الملف كصورة.',
+  'cropper.cropError': 'تعذّر قص الصورة.',
+
+  // Post composer, audiences and edit history
+  'composer.label': 'ماذا يحدث؟',
+  'composer.attach': 'إرفاق صور',
+  'composer.attached': 'الصور المرفقة',
+  'composer.preview': 'معاينة {name}',
+  'composer.remove': 'إزالة {name}',
+  'composer.altLabel': 'وصف الصورة {number, number}',
+  'composer.altPlaceholder': 'ماذا في هذه الصورة؟',
+  'composer.missingAlts':
+    '{count, plural, one {صورتك بلا وصف.} other {{missing, number} من # صور بلا وصف.}} يخبر الوصف مستخدمي قارئات الشاشة بما تُظهره الصورة.',
+  'composer.addAlts': 'إضافة أوصاف',
+  'composer.postAnyway': 'النشر على أي حال',
+  'composer.audience': 'الجمهور',
+  'composer.remaining':
+    '{count, plural, zero {لم يبقَ أي حرف} one {بقي حرف واحد} two {بقي حرفان} few {بقيت # أحرف} many {بقي # حرفًا} other {بقي # حرف}}',
+  'composer.submit': 'نشر',
+  'composer.posting': 'جارٍ النشر…',
+  'composer.optimizing': 'جارٍ التحسين…',
+  'composer.uploading': 'جارٍ الرفع…',
+  'composer.uploadingImages': 'جارٍ رفع الصور',
+  'composer.uploadOffline': 'تعذّر رفع الصور. تحقق من اتصالك وحاول مرة أخرى.',
+  'composer.suggestions': 'اقتراحات',
+  'audience.public': 'الجميع',
+  'audience.followers': 'المتابعون',
+  'audience.mentioned': 'المُشار إليهم فقط',
+  'audience.publicHint': 'يمكن لأي شخص رؤية هذا المنشور، ما لم يكن حسابك خاصًا.',
+  'audience.followersHint': 'لا يرى هذا المنشور إلا متابعوك.',
+  'audience.mentionedHint': 'لا يرى هذا المنشور إلا من تشير إليهم بـ@.',
+  'history.label': 'سجل التعديلات',
+  'history.loading': 'جارٍ تحميل سجل التعديلات…',
+  'history.loadError': 'تعذّر تحميل سجل التعديلات.',
+  'history.empty': 'لا توجد نسخ سابقة.',
+  'history.noText': 'بلا نص',
+
+  // Comment threads
+  'comments.title': 'التعليقات',
+  'comments.sortBy': 'الترتيب حسب',
+  'comments.oldest': 'الأقدم',
+  'comments.newest': 'الأحدث',
+  'comments.top': 'الأكثر إعجابًا',
+  'comments.add': 'أضف تعليقًا',
+  'comments.submit': 'تعليق',
+  'comments.back': '→ العودة إلى كل التعليقات',
+  'comments.empty': 'لا تعليقات بعد.',
+  'comments.loading': 'جارٍ تحميل التعليقات…',
+  'comments.loadError': 'تعذّر تحميل التعليقات.',
+  'comments.more': 'مزيد من التعليقات',
+  'comment.expand': 'توسيع التعليق',
+  'comment.collapse': 'طي التعليق',
+  'comment.deletedAuthor': '[محذوف]',
+  'comment.deleted': 'حُذف هذا التعليق.',
+  'comment.edited': 'معدَّل',
+  'comment.hiddenReplies':
+    '({count, plural, one {رد واحد مخفي} two {ردان مخفيان} few {# ردود مخفية} many {# ردًا مخفيًا} other {# رد مخفي}})',
+  'comment.filtered': 'مخفي لأنه يحتوي على كلمة كتمتها.',
+  'comment.like':
+    '{count, plural, zero {إعجاب بالتعليق، لا إعجابات بعد} one {إعجاب بالتعليق، إعجاب واحد} two {إعجاب بالتعليق، إعجابان} few {إعجاب بالتعليق، # إعجابات} many {إعجاب بالتعليق، # إعجابًا} other {إعجاب بالتعليق، # إعجاب}}',
+  'comment.reply': 'رد',
+  'comment.replyTo': 'الرد على @{username}',
+  'comment.editLabel': 'تعديل التعليق',
+  'comment.deleteConfirm': 'حذف هذا التعليق؟',
+  'comment.continue':
+    'متابعة هذا النقاش ({count, plural, one {رد واحد} two {ردان} few {# ردود} many {# ردًا} other {# رد}}) ←',
+  'comment.moreReplies':
+    '{count, plural, one {عرض رد آخر} two {عرض ردين آخرين} few {عرض # ردود أخرى} many {عرض # ردًا آخر} other {عرض # رد آخر}}',
+  'comment.cancel': 'إلغاء',
+  'comment.saveError': 'تعذّر حفظ تعليقك.',
+
+  // Settings: account, privacy, lists, muted words, data
+  'emailSettings.title': 'البريد الإلكتروني',
+  'emailSettings.confirmed': 'مؤكَّد',
+  'emailSettings.unconfirmed': 'لم يُؤكَّد بعد',
+  'emailSettings.newEmail': 'البريد الإلكتروني الجديد',
+  'emailSettings.submit': 'تغيير البريد',
+  'emailSettings.sending': 'جارٍ الإرسال…',
+  'emailSettings.sent': 'أرسلنا رابطًا إلى {email}. افتحه لإتمام التغيير.',
+  'passwordSettings.current': 'كلمة المرور الحالية',
+  'passwordSettings.new': 'كلمة المرور الجديدة',
+  'passwordSettings.confirm': 'تأكيد كلمة المرور الجديدة',
+  'passwordSettings.submit': 'تغيير كلمة المرور',
+  'passwordSettings.changed': 'تم تغيير كلمة المرور. سُجّل خروجك من جلساتك الأخرى.',
+  'sessions.title': 'أين سجّلت دخولك',
+  'sessions.current': 'هذا الجهاز',
+  'sessions.meta': 'نشط {active} · سجّل الدخول {signedIn}',
+  'sessions.signOut': 'تسجيل الخروج',
+  'sessions.signOutCurrent': 'تسجيل الخروج من هذا الجهاز',
+  'sessions.signOutDevice': 'تسجيل الخروج من {device}',
+  'sessions.signOutOthers': 'تسجيل الخروج من كل مكان آخر',
+  'sessions.signingOut': 'جارٍ تسجيل الخروج…',
+  'privacy.legend': 'خصوصية الحساب',
+  'privacy.private': 'حساب خاص',
+  'privacy.hint': 'لا يرى منشوراتك وإعجاباتك ومن تتابعه إلا من توافق عليهم.',
+  'privacy.publicConfirm': 'جعل حسابك عامًا؟ سيتابعك كل من ينتظر موافقتك.',
+  'userList.requests': 'طلبات المتابعة',
+  'userList.requestsEmpty': 'لا أحد ينتظر موافقتك.',
+  'userList.blocked': 'الحسابات المحظورة',
+  'userList.blockedEmpty': 'لم تحظر أحدًا.',
+  'userList.muted': 'الحسابات المكتومة',
+  'userList.mutedEmpty': 'لم تكتم أحدًا.',
+  'userList.approve': 'قبول',
+  'userList.decline': 'رفض',
+  'userList.unblock': 'إلغاء الحظر',
+  'userList.unmute': 'إلغاء الكتم',
+  'userList.actionLabel': '{action} @{username}',
+  'userList.loadError': 'تعذّر تحميل هذه القائمة.',
+  'userList.actionError': 'حدث خطأ ما.',
+  'mutedWords.title': 'الكلمات المكتومة',
+  'mutedWords.hint': 'تُخفى عنك المنشورات التي تحتوي هذه الكلمات أو العبارات، وتُطوى التعليقات التي تحتويها.',
+  'mutedWords.label': 'كلمة أو عبارة لكتمها',
+  'mutedWords.placeholder': 'كلمة أو عبارة',
+  'mutedWords.mute': 'كتم',
+  'mutedWords.unmute': 'إلغاء كتم «{keyword}»',
+  'mutedWords.empty': 'لم تكتم أي كلمة.',
+  'mutedWords.already': '«{keyword}» مكتومة بالفعل.',
+  'mutedWords.muted': 'تم كتم «{keyword}».',
+  'mutedWords.unmuted': 'أُلغي كتم «{keyword}».',
+  'mutedWords.loadError': 'تعذّر تحميل كلماتك المكتومة.',
+  'mutedWords.saveError': 'لم تُحفظ كلماتك المكتومة.',
+  'followedTags.title': 'الوسوم المتابَعة',
+  'followedTags.empty': 'لا تتابع أي وسم. افتح وسمًا واختر متابعة لترى منشوراته في صفحتك الرئيسية.',
+  'followedTags.unfollow': 'إلغاء المتابعة',
+  'followedTags.unfollowTag': 'إلغاء متابعة #{tag}',
+  'dataExport.title': 'بياناتك',
+  'dataExport.hint': 'نزّل ملفك الشخصي ومنشوراتك بصورها وتعليقاتك ورسائلك ومتابعيك ومن تتابعهم.',
+  'dataExport.downloadJson': 'تنزيل الأرشيف',
+  'dataExport.downloadHtml': 'تنزيل نسخة مقروءة',
+  'dataExport.preparing': 'جارٍ التحضير…',
+  'dataExport.schema': 'مخطط الأرشيف (الإصدار {version})',
+  'dataExport.exportError': 'تعذّر إنشاء أرشيفك.',
+  'dataExport.importTitle': 'استيراد أرشيف',
+  'dataExport.importHint':
+    'يستعيد أرشيفًا إلى هذا الحساب، ما دام لا يحتوي بعد على منشورات أو تعليقات أو رسائل أو متابعات. لا يُستعاد متابعوك: يمكنهم متابعتك من جديد.',
+  'dataExport.file': 'ملف الأرشيف',
+  'dataExport.choose': 'اختيار أرشيف…',
+  'dataExport.importing': 'جارٍ الاستيراد…',
+  'dataExport.notArchive': 'هذا الملف ليس أرشيف حساب.',
+  'dataExport.importError': 'تعذّر استيراد هذا الأرشيف.',
+  'dataExport.profileError': 'استُوردت بياناتك، لكن تعذّر تطبيق الملف الشخصي المؤرشف. يمكنك تعديله بنفسك.',
+  'dataExport.imported': 'تم استيراد {counts}.',
+  'dataExport.skipped': 'تم تخطي {counts} لم تعد موجودة أو لا يمكن استعادتها.',
+  'dataExport.renamed':
+    '{count, plural, one {حصل سجل واحد على معرّف جديد لأن معرّفه كان مستخدمًا.} two {حصل سجلان على معرّفين جديدين لأن معرّفيهما كانا مستخدمين.} few {حصلت # سجلات على معرّفات جديدة لأن معرّفاتها كانت مستخدمة.} many {حصل # سجلًا على معرّفات جديدة لأن معرّفاتها كانت مستخدمة.} other {حصل # سجل على معرّفات جديدة لأن معرّفاتها كانت مستخدمة.}}',
+  'dataExport.nothing': 'لا شيء',
+  'dataExport.posts':
+    '{count, plural, one {منشور واحد} two {منشوران} few {# منشورات} many {# منشورًا} other {# منشور}}',
+  'dataExport.comments':
+    '{count, plural, one {تعليق واحد} two {تعليقان} few {# تعليقات} many {# تعليقًا} other {# تعليق}}',
+  'dataExport.conversations':
+    '{count, plural, one {محادثة واحدة} two {محادثتان} few {# محادثات} many {# محادثة} other {# محادثة}}',
+  'dataExport.messages':
+    '{count, plural, one {رسالة واحدة} two {رسالتان} few {# رسائل} many {# رسالة} other {# رسالة}}',
+  'dataExport.follows':
+    '{count, plural, one {متابعة واحدة} two {متابعتان} few {# متابعات} many {# متابعة} other {# متابعة}}',
+  'dataExport.files': '{count, plural, one {ملف واحد} two {ملفان} few {# ملفات} many {# ملفًا} other {# ملف}}',
+  'deleteAccount.title': 'حذف الحساب',
+  'deleteAccount.hint':
+    'تُحذف منشوراتك ورسائلك ومتابعاتك وملفاتك المرفوعة. تبقى التعليقات التي ردّ عليها آخرون بعنوان «{deleted}».',
+  'deleteAccount.passwordRequired': 'كلمة المرور مطلوبة.',
+  'deleteAccount.confirm': 'حذف @{username} وكل ما فيه؟ لا يمكن التراجع عن ذلك.',
+  'deleteAccount.submit': 'حذف حسابي',
+  'deleteAccount.deleting': 'جارٍ الحذف…',
+
+  // Follow buttons, mutuals and follow suggestions; {count} is how many other mutuals
+  'follows.whoToFollow': 'اقتراحات للمتابعة',
+  'follows.someone': 'شخص ما',
+  'follows.mutualOne': 'يتابعه {name}',
+  'follows.mutualTwo': 'يتابعه {first} و{second}',
+  'follows.mutualMany':
+    '{count, plural, one {يتابعه {name} وشخص آخر تتابعه} two {يتابعه {name} وشخصان آخران تتابعهما} few {يتابعه {name} و# أشخاص آخرين تتابعهم} many {يتابعه {name} و# شخصًا آخر تتابعهم} other {يتابعه {name} و# شخص آخر تتابعهم}}',
+  'follows.alsoPostsAbout': 'ينشر أيضًا عن {tags}',
+  'follow.follow': 'متابعة',
+  'follow.following': 'تتابعه',
+  'follow.requested': 'تم الطلب',
+  'follow.label':
+    '{state, select, none {متابعة {name}} requested {إلغاء طلب متابعة {name}} other {إلغاء متابعة {name}}}',
+  'follow.tagLabel': '{following, select, yes {إلغاء متابعة {tag}} other {متابعة {tag}}}',
+  'follow.error': 'حدث خطأ ما.',
+
+  // Offline banner; {count} is how many changes wait in the outbox
+  'offline.status':
+    '{count, plural, =0 {أنت غير متصل. ستُرسل التغييرات عند عودة الاتصال.} one {أنت غير متصل. هناك تغيير واحد بالانتظار وسيُرسل عند عودة الاتصال.} two {أنت غير متصل. هناك تغييران بالانتظار وسيُرسلان عند عودة الاتصال.} few {أنت غير متصل. هناك # تغييرات بالانتظار وستُرسل عند عودة الاتصال.} many {أنت غير متصل. هناك # تغييرًا بالانتظار وسيُرسل عند عودة الاتصال.} other {أنت غير متصل. هناك # تغيير بالانتظار وسيُرسل عند عودة الاتصال.}}',
+  'offline.waiting':
+    '{count, plural, one {تغيير واحد بالانتظار} two {تغييران بالانتظار} few {# تغييرات بالانتظار} many {# تغييرًا بالانتظار} other {# تغيير بالانتظار}}',
+  'offline.sending':
+    '{count, plural, one {جارٍ إرسال تغيير واحد…} two {جارٍ إرسال تغييرين…} few {جارٍ إرسال # تغييرات…} many {جارٍ إرسال # تغييرًا…} other {جارٍ إرسال # تغيير…}}',
+  'offline.sendNow': 'إرسال الآن',
+  'offline.conflict': 'تعذّر حفظ {action}: {error}',
+  'offline.dismiss': 'تجاهل',
+  'offline.createPost': 'منشورك',
+  'offline.likePost': 'إعجابك',
+  'offline.unlikePost': 'إلغاء إعجابك',
+  'offline.addComment': 'تعليقك',
+  'offline.likeComment': 'إعجابك بتعليق',
+  'offline.unlikeComment': 'إلغاء إعجابك بتعليق',
+
+  // Toasts: failures raised through the error channel (store/mutations.ts)
+  'toast.dismiss': 'إغلاق',
+  'toast.likeFailed': 'تعذّر الإعجاب بهذا المنشور.',
+  'toast.unlikeFailed': 'تعذّر إلغاء إعجابك.',
+  'toast.followFailed': 'تعذّرت متابعة هذا الحساب.',
+  'toast.unfollowFailed': 'تعذّر إلغاء متابعة هذا الحساب.',
+  'toast.commentLikeFailed': 'تعذّر الإعجاب بهذا التعليق.',
+}
@@ -0,0 +1,727 @@
+/**
+ * ============================================================================
+ * STEP 2.24: English Messages - The Source Catalog
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * UPDATED: Feature Phase - Step 2.25 (skip link, shortcuts, live announcements)
+ * PURPOSE: Every translated string of the app, in English; other catalogs
+ *          translate exactly these keys
+ *
+ * Conventions:
+ * - Keys are 'area.meaning', grouped by the screen that shows them
+ * - Counts are ICU plurals, never `count === 1 ? … : …` in a component
+ * - Names, dates and links are {placeholders}: the translation decides
+ *   where they go in the sentence
+ * - What a sentence is about (post, comment, message, account) is a
+ *   {target, select, …}, so a translation can make the words around it
+ *   agree with the noun's gender
+ *
+ * LEARNING NOTES:
+ * - MessageKey is derived from this object, so t('nav.hom') is a type
+ *   error, and so is a catalog that forgets or invents a key
+ * - Server errors are not in the catalogs: the mock API answers in
+ *   English, like many real APIs. Field errors from the validation rules
+ *   are the exception: they carry a code and params, which validation.*
+ *   turns into a sentence (client-side checks and server replies alike)
+ */
+
+export const en = {
+  // Shared
+  'common.loading': 'Loading…',
+  'common.retry': 'Try again',
+  'common.loadMore': 'Load more',
+  'common.show': 'Show',
+  'common.saving': 'Saving…',
+  'common.saved': 'Saved.',
+  'fields.firstName': 'First name',
+  'fields.lastName': 'Last name',
+  'fields.username': 'Username',
+  'fields.email': 'Email',
+  'fields.password': 'Password',
+  'fields.confirmPassword': 'Confirm password',
+
+  // Field errors (utils/fieldErrors.ts); {field} is the ValidationSubject, {min} and {max} the limit
+  'validation.required':
+    '{field, select, email {Email is required.} password {Password is required.} currentPassword {Current password is required.} confirmPassword {Please confirm your password.} username {Username is required.} firstName {First name is required.} lastName {Last name is required.} post {Write something or add an image.} image {The file is empty.} attachment {The file is empty.} audience {Mention at least one person, or choose another audience.} comment {Comment cannot be empty.} message {Message cannot be empty.} groupName {Group name cannot be empty.} reportReason {Choose why you are reporting this.} reportDetails {Tell us what is wrong.} moderationNote {Explain the reason to the user.} other {This field is required.}}',
+  'validation.invalidFormat':
+    '{field, select, email {Enter a valid email address.} username {Username can only contain letters, numbers and underscores.} imageAlts {Descriptions must be text.} attachments {Attachments must be uploaded files.} audience {Choose who can see this post.} messageType {Messages can only be text, images or files.} website {Enter a full web address, like https://example.com.} suspensionDays {Suspend for {min, number} to {max, plural, one {# day} other {# days}}.} moderationAction {Choose an action.} other {Check this field.}}',
+  'validation.tooShort':
+    '{field, select, groupMembers {Pick at least {min, plural, one {# person} other {# people}} for a group.} password {Password must be at least {min, plural, one {# character} other {# characters}}.} username {Username must be at least {min, plural, one {# character} other {# characters}}.} other {Must be at least {min, plural, one {# character} other {# characters}}.}}',
+  'validation.tooLong':
+    '{field, select, password {Password must be} username {Username must be} firstName {First name must be} lastName {Last name must be} post {Posts can be} imageAlts {Image descriptions can be} tags {Hashtags can be} comment {Comments can be} message {Messages can be} groupName {Group names can be} bio {Bio can be} location {Location can be} website {Website can be} reportDetails {Details can be} moderationNote {Notes can be} mutedKeywords {Muted words can be} other {This can be}} at most {max, plural, one {# character} other {# characters}}.',
+  'validation.tooWeak': 'Password must contain at least one letter and one number.',
+  'validation.mismatch':
+    '{field, select, confirmPassword {Passwords do not match.} newPassword {Choose a password you are not using now.} other {This does not match.}}',
+  'validation.taken':
+    '{field, select, username {That username is already taken.} email {An account with this email already exists.} currentEmail {This is already your email address.} other {This is already taken.}}',
+  'validation.tooMany':
+    '{field, select, images {You can attach up to {max, plural, one {# image} other {# images}}.} imageAlts {There are more descriptions than images.} attachments {You can attach up to {max, plural, one {# file} other {# files}}.} tags {Posts can have at most {max, plural, one {# hashtag} other {# hashtags}}.} groupMembers {Groups can have at most {max, plural, one {# member} other {# members}}.} mutedKeywords {You can mute at most {max, plural, one {# word} other {# words}}.} other {There are too many.}}',
+  'validation.invalidType':
+    '{field, select, attachment {Only images and PDF files can be attached.} other {Only JPEG, PNG, GIF and WebP images are supported.}}',
+  'validation.tooLarge':
+    '{field, select, images {Each image must be {max, number} MB or smaller.} other {Files must be {max, number} MB or smaller.}}',
+  'validation.readOnly':
+    '{field, select, postEdit {Posts can only be edited within an hour of posting.} other {This cannot be changed.}}',
+
+  // Navigation and header (NavBar, AccountMenu)
+  'nav.label': 'Primary',
+  'nav.home': 'Home',
+  'nav.search': 'Search',
+  'nav.notifications': 'Notifications',
+  'nav.messages': 'Messages',
+  'nav.moderation': 'Moderation',
+  'nav.unread': '{count, plural, other {# unread}}',
+  'account.logIn': 'Log in',
+  'account.settings': 'Settings',
+  'account.logOut': 'Log out',
+
+  // Language switcher and settings section
+  'language.label': 'Language',
+  'language.hint': 'Used for menus, dates and numbers. Posts and messages stay in the language they were written in.',
+  'language.saveError': 'Your language could not be saved to your account, so it only applies on this device.',
+  'settings.title': 'Settings',
+
+  // Feed
+  'feed.newPosts': '{count, plural, one {# new post} other {# new posts}}',
+  'feed.order': 'Order feed by',
+  'feed.latest': 'Latest',
+  'feed.top': 'Top',
+  'feed.loading': 'Loading posts…',
+  'feed.end': 'You’re all caught up.',
+  'feed.loadError': 'Could not load your feed.',
+  'feed.postsError': 'Could not load posts.',
+
+  // Post card
+  'post.reposted': '{name} reposted',
+  'post.youReposted': 'You reposted',
+  'post.followedTag': 'Because you follow {tag}',
+  'post.edited': 'Edited',
+  'post.editedAt': 'Edited {date}',
+  'post.pending': 'Not sent yet',
+  'post.editLabel': 'Edit post',
+  'post.save': 'Save',
+  'post.imagesOf': 'Images in {name}’s post',
+  'post.images': 'Images in this post',
+  'post.like': '{count, plural, =0 {Like, no likes yet} one {Like, # like} other {Like, # likes}}',
+  'post.comments': '{count, plural, =0 {No comments yet} one {# comment} other {# comments}}',
+  'post.repost': '{count, plural, =0 {Repost, no reposts yet} one {Repost, # repost} other {Repost, # reposts}}',
+  'post.repostPublicOnly': 'Only public posts can be shared',
+  'post.repostError': 'Could not repost this post.',
+  'post.quote': 'Quote',
+  'post.quoteLabelOf': 'Quote {name}’s post',
+  'post.quoteLabel': 'Quote this post',
+  'post.quoteSubmit': 'Post quote',
+  'post.quoteQueued': 'Your quote will be posted when you are back online.',
+  'post.quotePosted': 'Your quote was posted.',
+  'post.viewQuote': 'View it',
+  'post.edit': 'Edit',
+  'post.delete': 'Delete',
+  'post.deleteConfirm': 'Delete this post? Its comments and reposts are deleted too.',
+  'post.deleteError': 'Could not delete this post.',
+  'post.repostLabel': 'Repost',
+  'post.someone': 'Someone',
+  'post.originalRemoved': 'The original post was removed.',
+  'post.unavailable': 'This post is unavailable.',
+  'postForm.cancel': 'Cancel',
+  'postForm.checkText': 'Please check the text.',
+  'postForm.saveError': 'Could not save the post.',
+  'quoted.show': 'Show the quoted post',
+  'quoted.open': 'Open the post',
+  'quoted.openOf': 'Open {name}’s post',
+  'shares.title': 'Reposts and quotes',
+  'shares.repostedBy': 'Reposted by {names}',
+  'shares.separator': ', ',
+  'shares.loadError': 'Could not load the reposts.',
+  'lightbox.counter': 'Image {number} of {count}',
+  'lightbox.previous': 'Previous image',
+  'lightbox.next': 'Next image',
+  'lightbox.close': 'Close',
+
+  // Conversation list
+  'conversations.loading': 'Loading conversations…',
+  'conversations.empty': 'No conversations yet.',
+  'conversations.noMessages': 'No messages yet',
+  'conversations.ownPreview': 'You: {text}',
+  'conversations.newMessages': '{count, plural, one {# new message} other {# new messages}}',
+  'messages.title': 'Messages',
+  'messages.conversations': 'Conversations',
+  'messages.newGroup': 'New group',
+  'messages.notFound': 'Conversation not found. {link}',
+  'messages.back': 'Back to messages',
+  'messages.loading': 'Loading conversation…',
+  'messages.pick': 'Select a conversation to start chatting.',
+
+  // Chat view; {by} and {who} are you or other, so verbs can agree with the viewer
+  'chat.deletedAccount': 'Deleted account',
+  'chat.justYou': 'Just you',
+  'chat.someone': 'Someone',
+  'chat.typingOne': '{name} is typing…',
+  'chat.typingTwo': '{first} and {second} are typing…',
+  'chat.typingMany': '{count, plural, other {# people are typing…}}',
+  'chat.reconnecting': 'Reconnecting…',
+  'chat.offline': 'Offline',
+  'chat.groupInfo': 'Group info',
+  'chat.log': 'Messages',
+  'chat.loadEarlier': 'Load earlier messages',
+  'chat.empty': 'No messages yet. Say hello!',
+  'chat.announcement': '{name}: {text}',
+  'chat.startError': 'Could not start the conversation.',
+  'chat.attachment': 'Attachment',
+  'chat.attachmentNumber': 'Attachment {number}',
+  'chat.images': 'Images in this message',
+  'chat.sending': 'Sending…',
+  'chat.seen': 'Seen',
+  'chat.sent': 'Sent',
+  'chat.notSent': 'Not sent.',
+  'chat.retry': 'Retry',
+  'chat.attached': 'Attached files',
+  'chat.removeFile': 'Remove {name}',
+  'chat.uploading': 'Uploading file',
+  'chat.uploadError': '{name}: {error}',
+  'chat.notUploaded': '{name} was not uploaded.',
+  'chat.attach': 'Attach files',
+  'chat.label': 'Message',
+  'chat.placeholder': 'Write a message…',
+  'chat.send': 'Send',
+  'groupEvent.you': 'you',
+  'groupEvent.created': '{by, select, you {You created the group} other {{actor} created the group}}',
+  'groupEvent.createdNamed':
+    '{by, select, you {You created the group “{name}”} other {{actor} created the group “{name}”}}',
+  'groupEvent.renamed':
+    '{by, select, you {You renamed the group to “{name}”} other {{actor} renamed the group to “{name}”}}',
+  'groupEvent.imageChanged': '{by, select, you {You changed the group photo} other {{actor} changed the group photo}}',
+  'groupEvent.added':
+    '{by, select, you {You added {names}} other {{who, select, you {{actor} added you} other {{actor} added {names}}}}}',
+  'groupEvent.removed':
+    '{by, select, you {You removed {names}} other {{who, select, you {{actor} removed you} other {{actor} removed {names}}}}}',
+  'groupEvent.left': '{by, select, you {You left the group} other {{actor} left the group}}',
+  'groupEvent.promoted':
+    '{who, select, you {You are now an admin} other {{count, plural, one {{subject} is now an admin} other {{subject} are now admins}}}}',
+  'groupEvent.demoted':
+    '{who, select, you {You are no longer an admin} other {{count, plural, one {{subject} is no longer an admin} other {{subject} are no longer admins}}}}',
+
+  // Groups: settings panel, new group form, member picker
+  'group.settings': 'Group settings',
+  'group.photo': 'Group photo',
+  'group.changePhoto': 'Change photo',
+  'group.removePhoto': 'Remove photo',
+  'group.name': 'Group name',
+  'group.rename': 'Rename',
+  'group.members': '{count, plural, one {# member} other {# members}}',
+  'group.memberYou': '{name} (you)',
+  'group.admin': 'Admin',
+  'group.makeAdmin': 'Make admin',
+  'group.removeAdmin': 'Remove as admin',
+  'group.remove': 'Remove',
+  'group.removeMember': 'Remove {name} from the group',
+  'group.addMembers': 'Add members',
+  'group.add': 'Add',
+  'group.leaveButton': 'Leave group',
+  'group.leave': 'Leave this group?',
+  'group.leaveLast': 'Leave this group? You are the last member, so the group and its messages will be deleted.',
+  'group.leaveSuccessor': 'Leave this group? {name} will become admin.',
+  'group.longestMember': 'The longest-standing member',
+  'group.updateError': 'Could not update the group.',
+  'group.photoError': 'Could not upload the photo.',
+  'newGroup.title': 'New group',
+  'newGroup.name': 'Group name (optional)',
+  'newGroup.members': 'Members',
+  'newGroup.cancel': 'Cancel',
+  'newGroup.create': 'Create group',
+  'newGroup.creating': 'Creating…',
+  'newGroup.error': 'Could not create the group.',
+  'userPicker.picked': 'Picked',
+  'userPicker.remove': 'Remove {name}',
+  'userPicker.placeholder': 'Search by username',
+
+  // Accessibility: skip link, keyboard shortcuts, live announcements
+  'a11y.skipToContent': 'Skip to content',
+  'shortcuts.open': 'Keyboard shortcuts',
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.hint': 'Shortcuts do nothing while you are typing in a field.',
+  'shortcuts.close': 'Close',
+  'shortcuts.then': '{first} then {second}',
+  'shortcuts.nextPost': 'Next post',
+  'shortcuts.previousPost': 'Previous post',
+  'shortcuts.like': 'Like the selected post',
+  'shortcuts.reply': 'Reply to the selected post',
+  'shortcuts.newPost': 'Write a new post',
+  'shortcuts.goHome': 'Go to the home feed',
+  'shortcuts.goMessages': 'Go to messages',
+  'shortcuts.goNotifications': 'Go to notifications',
+  'shortcuts.help': 'Show this list',
+  'live.notifications': '{count, plural, one {# new notification} other {# new notifications}}',
+  'live.messages': '{count, plural, one {# new message} other {# new messages}}',
+
+  // Hashtags: trending panel and tag pages
+  'trends.title': 'Trending',
+  'trends.windows': 'Trending over',
+  'trends.hour': 'Last hour',
+  'trends.day': 'Today',
+  'trends.week': 'This week',
+  'trends.new': 'New · {count, plural, one {# person} other {# people}}',
+  'trends.rare': '{count, plural, one {# person} other {# people}}, rarely used before',
+  'trends.usual': '{count, plural, one {# person} other {# people}}, usually {usual}',
+  'trends.loadError': 'Could not load trends.',
+  'trends.empty': 'Nothing is trending yet.',
+  'tag.posts': '{count, plural, one {# post} other {# posts}}',
+  'tag.followers': '{count, plural, one {# follower} other {# followers}}',
+  'tag.empty': 'No posts with #{tag} yet. Follow it to see the first one in your feed.',
+  'tag.invalid': 'Hashtags are letters, numbers and underscores, like #typescript. Try searching instead.',
+
+  // Notification rows; {count} is how many people, which verbs agree with
+  'notifications.unread': 'Unread:',
+  'notifications.markRead': 'Mark as read',
+  'notifications.someone': 'Someone',
+  'notifications.someoneElse': 'someone else',
+  'notifications.twoActors': '{first} and {second}',
+  'notifications.manyActors': '{first} and {count, plural, one {# other} other {# others}}',
+  'notifications.like': '{count, plural, other {{actors} liked your {target, select, comment {comment} other {post}}}}',
+  'notifications.comment': '{count, plural, other {{actors} commented on your post}}',
+  'notifications.follow': '{count, plural, other {{actors} followed you}}',
+  'notifications.followRequest': '{count, plural, other {{actors} asked to follow you}}',
+  'notifications.mention':
+    '{count, plural, other {{actors} mentioned you in a {target, select, comment {comment} other {post}}}}',
+  'notifications.repost': '{count, plural, other {{actors} reposted your post}}',
+  'notifications.quote': '{count, plural, other {{actors} quoted your post}}',
+  'notifications.message':
+    '{count, plural, other {{actors} sent you {messages, plural, one {a message} other {# messages}}}}',
+  'notifications.moderation': 'Moderators reviewed your content',
+  'notifications.requestAnswered': 'This request was already answered.',
+  'notifications.messageGone': 'This message is no longer available.',
+  'notifications.commentGone': 'This comment is no longer available.',
+  'notifications.postGone': 'This post is no longer available.',
+  'notifications.loadError': 'Could not load notifications.',
+  'notificationTypes.like': 'Likes',
+  'notificationTypes.comment': 'Comments on your posts',
+  'notificationTypes.follow': 'New followers',
+  'notificationTypes.followRequest': 'Follow requests',
+  'notificationTypes.mention': 'Mentions',
+  'notificationTypes.message': 'Messages',
+  'notificationTypes.repost': 'Reposts of your posts',
+  'notificationTypes.quote': 'Quotes of your posts',
+  'notificationPrefs.loading': 'Loading preferences…',
+  'notificationPrefs.legend': 'Notify me about',
+  'notificationPrefs.saveError': 'Could not save your preferences.',
+
+  // Reports; {target} is post, comment, message or user
+  'report.button': 'Report',
+  'report.question':
+    'What’s wrong with this {target, select, comment {comment} message {message} user {account} other {post}}?',
+  'report.spam': 'Spam or scam',
+  'report.harassment': 'Harassment or bullying',
+  'report.hate': 'Hate speech',
+  'report.violence': 'Violence or threats',
+  'report.sexual': 'Sexual content',
+  'report.misinformation': 'False information',
+  'report.other': 'Something else',
+  'report.details': '{required, select, yes {Details (required)} other {Details (optional)}}',
+  'report.send': 'Send report',
+  'report.sending': 'Sending…',
+  'report.cancel': 'Cancel',
+  'report.sendError': 'Your report was not sent. Try again.',
+  'report.thanks':
+    'Thanks. Moderators will review this {target, select, comment {comment} message {message} user {account} other {post}}.',
+  'report.close': 'Close',
+
+  // Moderation: actions, notices, audit log and placeholders
+  'moderation.hide': 'Hide',
+  'moderation.remove': 'Remove',
+  'moderation.restore': 'Restore',
+  'moderation.warn': 'Warn author',
+  'moderation.suspend': 'Suspend author',
+  'moderation.unsuspend': 'Lift suspension',
+  'moderation.dismiss': 'Dismiss reports',
+  'moderation.targetPost': 'post',
+  'moderation.targetComment': 'comment',
+  'moderation.targetMessage': 'message',
+  'moderation.targetUser': 'account',
+  'moderation.noticeHide':
+    'Moderators hid your {target, select, comment {comment} message {message} user {account} other {post}}',
+  'moderation.noticeRemove':
+    'Moderators removed your {target, select, comment {comment} message {message} user {account} other {post}}',
+  'moderation.noticeRestore':
+    'Moderators restored your {target, select, comment {comment} message {message} user {account} other {post}}',
+  'moderation.noticeWarn':
+    '{target, select, user {Moderators sent you a warning} comment {Moderators warned you about your comment} message {Moderators warned you about your message} other {Moderators warned you about your post}}',
+  'moderation.noticeSuspendedUntil': 'Your account is suspended until {date}',
+  'moderation.noticeSuspended': 'Your account was suspended',
+  'moderation.noticeUnsuspend': 'Your suspension was lifted',
+  'moderation.noticeDismiss':
+    'Reports about your {target, select, comment {comment} message {message} user {account} other {post}} were dismissed',
+  'moderation.someModerator': 'A moderator',
+  'moderation.someUser': 'a user',
+  'moderation.logHide':
+    '{moderator} hid {target, select, user {{name}} comment {a comment by {name}} message {a message by {name}} other {a post by {name}}}',
+  'moderation.logRemove':
+    '{moderator} removed {target, select, user {{name}} comment {a comment by {name}} message {a message by {name}} other {a post by {name}}}',
+  'moderation.logRestore':
+    '{moderator} restored {target, select, user {{name}} comment {a comment by {name}} message {a message by {name}} other {a post by {name}}}',
+  'moderation.logWarn':
+    '{moderator} warned {name}{target, select, user {} comment { about their comment} message { about their message} other { about their post}}',
+  'moderation.logSuspendedUntil': '{moderator} suspended {name} until {date}',
+  'moderation.logSuspended': '{moderator} suspended {name}',
+  'moderation.logUnsuspend': '{moderator} lifted the suspension of {name}',
+  'moderation.logDismiss':
+    '{moderator} dismissed the reports about {target, select, user {{name}} comment {a comment by {name}} message {a message by {name}} other {a post by {name}}}',
+  'moderation.removed':
+    'This {target, select, comment {comment} message {message} user {account} other {post}} was removed by moderators.',
+  'moderation.removedForReader':
+    'Moderators removed this {target, select, comment {comment} message {message} user {account} other {post}}.',
+  'moderation.hidden':
+    'This {target, select, comment {comment} message {message} user {account} other {post}} was hidden by moderators.',
+  'moderation.hiddenForReader':
+    'Moderators hid this {target, select, comment {comment} message {message} user {account} other {post}}. Only you and moderators can see it.',
+
+  // Moderation queue and page
+  'queue.label':
+    'Reported {target, select, comment {comment} message {message} user {account} other {post}} by {author}',
+  'queue.by': 'by {author}',
+  'queue.unknownAuthor': 'Unknown user',
+  'queue.reports': '{count, plural, one {# report} other {# reports}}, first {time}',
+  'queue.noText': 'No text',
+  'queue.images': '({count, plural, one {# image} other {# images}})',
+  'queue.open': 'Open {target, select, comment {comment} message {message} user {account} other {post}}',
+  'queue.reasons': 'Reasons',
+  'queue.details': 'Reporters’ details',
+  'queue.already': '{state, select, hidden {Already hidden.} other {Already removed.}}',
+  'queue.suspendedUntil': '{author} is suspended until {date}.',
+  'queue.note': 'Note to the author (required to warn or suspend)',
+  'queue.days': 'Suspension length (days)',
+  'queue.chooseAction': 'Choose an action.',
+  'queue.removeConfirm':
+    'Remove this {target, select, comment {comment} message {message} user {account} other {post}} for everyone?',
+  'queue.failed': 'The action failed. Try again.',
+  'queue.working': 'Working…',
+  'moderationPage.title': 'Moderation',
+  'moderationPage.moderatorsOnly': 'Only moderators can open this page.',
+  'moderationPage.queue': 'Queue',
+  'moderationPage.audit': 'Audit log',
+  'moderationPage.noReports': 'No open reports.',
+  'moderationPage.loadingReports': 'Loading reports…',
+  'moderationPage.queueError': 'Could not load the queue.',
+  'moderationPage.noActions': 'No actions yet.',
+  'moderationPage.loadingAudit': 'Loading the audit log…',
+  'moderationPage.auditError': 'Could not load the audit log.',
+
+  // Signing in, creating an account, password resets and email confirmation
+  'login.title': 'Log in',
+  'login.forgot': 'Forgot password?',
+  'login.submit': 'Log in',
+  'login.submitting': 'Logging in…',
+  'login.switch': 'New here? {link}',
+  'login.switchLink': 'Create an account',
+  'register.title': 'Create your account',
+  'register.submit': 'Create account',
+  'register.submitting': 'Creating account…',
+  'register.switch': 'Already have an account? {link}',
+  'register.switchLink': 'Log in',
+  'session.restoring': 'Restoring your session…',
+  'forgotPassword.title': 'Reset your password',
+  'forgotPassword.sent':
+    'If an account uses {email}, we sent it a link to choose a new password. The link works for one hour.',
+  'forgotPassword.submit': 'Send reset link',
+  'forgotPassword.sending': 'Sending…',
+  'forgotPassword.remembered': 'Remembered it? {link}',
+  'forgotPassword.logIn': 'Log in',
+  'resetPassword.title': 'Choose a new password',
+  'resetPassword.noToken': 'This page is opened from the link in a password reset email.',
+  'resetPassword.askForLink': 'Ask for a link',
+  'resetPassword.askForNewLink': 'Ask for a new link',
+  'resetPassword.done': 'Your password was changed and every session was signed out.',
+  'resetPassword.logIn': 'Log in',
+  'resetPassword.password': 'New password',
+  'resetPassword.confirmPassword': 'Confirm new password',
+  'resetPassword.submit': 'Set password',
+  'verifyEmail.title': 'Confirm your email',
+  'verifyEmail.noToken': 'This page is opened from the link in a verification email.',
+  'verifyEmail.done': 'Thanks, your email address is confirmed.',
+  'verifyEmail.toFeed': 'Go to your feed',
+  'verifyEmail.logIn': 'Log in',
+  'verifyEmail.submit': 'Confirm my email address',
+  'verifyEmail.confirming': 'Confirming…',
+  'emailBanner.text': 'Please confirm your email address using the link we sent to {email}.',
+  'emailBanner.resend': 'Resend',
+  'emailBanner.sending': 'Sending…',
+  'emailBanner.sent': 'Sent to {email}.',
+  'emailBanner.mailbox': 'Open dev mailbox',
+
+  // Pages: home, notifications, post, search, profile
+  'home.title': 'Home',
+  'home.empty': 'Posts from people and hashtags you follow will appear here.',
+  'notifications.title': 'Notifications',
+  'notifications.summary': '{count, plural, =0 {No unread notifications} other {# unread}}',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.caughtUp': 'You’re all caught up.',
+  'notifications.loading': 'Loading notifications…',
+  'notifications.settings': 'Notification settings',
+  'postPage.title': 'Post',
+  'postPage.loading': 'Loading post…',
+  'postPage.notFound': 'Post not found.',
+  'notFound.title': 'Page not found',
+  'notFound.path': 'Nothing lives at {path}.',
+  'notFound.home': 'Back to home',
+  'search.title': 'Search',
+  'search.label': 'Search people, posts and hashtags',
+  'search.placeholder': 'Search people, posts and #hashtags',
+  'search.submit': 'Search',
+  'search.all': 'All',
+  'search.people': 'People',
+  'search.posts': 'Posts',
+  'search.sortBy': 'Sort by',
+  'search.relevance': 'Best match',
+  'search.recent': 'Newest',
+  'search.popular': 'Most popular',
+  'search.prompt': 'Search for people, posts and hashtags.',
+  'search.hashtags': 'Hashtags',
+  'search.searching': 'Searching…',
+  'search.summary': '{count, plural, one {# result} other {# results}} for “{query}”',
+  'search.error': 'Search failed.',
+  'profile.posts': 'Posts',
+  'profile.likes': 'Likes',
+  'profile.notFound': 'This account doesn’t exist. Try searching for another.',
+  'profile.private': 'This account is private. Follow @{username} to see their posts and likes.',
+  'profile.blocked': 'You blocked @{username}. Unblock them to see their posts.',
+  'profile.noPosts': '@{username} hasn’t posted yet.',
+  'profile.noLikes': '@{username} hasn’t liked any posts yet.',
+  'profile.edit': 'Edit profile',
+  'profile.mute': 'Mute',
+  'profile.unmute': 'Unmute',
+  'profile.block': 'Block',
+  'profile.unblock': 'Unblock',
+  'profile.blockConfirm':
+    'Block @{username}? They will not be able to see your profile, follow you or message you, and you will no longer follow each other.',
+  'profile.actionError': 'Something went wrong.',
+  'profile.loadError': 'Could not load profile.',
+  'profile.verified': 'Verified',
+  'profile.privateAccount': 'Private account',
+  'profile.followsYou': 'Follows you',
+  'profile.joined': 'Joined {date}',
+  'profile.postCount': '{count, plural, one {Post} other {Posts}}',
+  'profile.followerCount': '{count, plural, one {Follower} other {Followers}}',
+  'profile.following': 'Following',
+  'profileEdit.avatar': 'profile picture',
+  'profileEdit.cover': 'cover photo',
+  'profileEdit.uploading': 'Uploading {label}…',
+  'profileEdit.current': 'Current {label}',
+  'profileEdit.none': 'No {label}',
+  'profileEdit.change': 'Change {label}',
+  'profileEdit.remove': 'Remove',
+  'profileEdit.bio': 'Bio',
+  'profileEdit.location': 'Location',
+  'profileEdit.website': 'Website',
+  'profileEdit.cancel': 'Cancel',
+  'profileEdit.save': 'Save',
+  'cropper.title': 'Crop {label}',
+  'cropper.preview': 'Preview of the cropped {label}. Drag or use the arrow keys to move, plus and minus to zoom.',
+  'cropper.zoom': 'Zoom',
+  'cropper.cancel': 'Cancel',
+  'cropper.apply': 'Apply',
+  'cropper.cropping': 'Cropping…',
+  'cropper.readError': 'That file could not be read as an image.',
+  'cropper.cropError': 'Could not crop the image.',
+
+  // Post composer, audiences and edit history
+  'composer.label': 'What’s happening?',
+  'composer.attach': 'Attach images',
+  'composer.attached': 'Attached images',
+  'composer.preview': 'Preview of {name}',
+  'composer.remove': 'Remove {name}',
+  'composer.altLabel': 'Description of image {number, number}',
+  'composer.altPlaceholder': 'What’s in this image?',
+  'composer.missingAlts':
+    '{count, plural, one {Your image has no description.} other {{missing, number} of # images have no description.}} Descriptions let people who use screen readers know what the image shows.',
+  'composer.addAlts': 'Add descriptions',
+  'composer.postAnyway': 'Post anyway',
+  'composer.audience': 'Audience',
+  'composer.remaining': '{count, plural, one {# character left} other {# characters left}}',
+  'composer.submit': 'Post',
+  'composer.posting': 'Posting…',
+  'composer.optimizing': 'Optimizing…',
+  'composer.uploading': 'Uploading…',
+  'composer.uploadingImages': 'Uploading images',
+  'composer.uploadOffline': 'The images could not be uploaded. Check your connection and try again.',
+  'composer.suggestions': 'Suggestions',
+  'audience.public': 'Everyone',
+  'audience.followers': 'Followers',
+  'audience.mentioned': 'Mentioned only',
+  'audience.publicHint': 'Anyone can see this post, unless your account is private.',
+  'audience.followersHint': 'Only your followers can see this post.',
+  'audience.mentionedHint': 'Only the people you @mention can see this post.',
+  'history.label': 'Edit history',
+  'history.loading': 'Loading edit history…',
+  'history.loadError': 'Could not load the edit history.',
+  'history.empty': 'No earlier versions.',
+  'history.noText': 'No text',
+
+  // Comment threads
+  'comments.title': 'Comments',
+  'comments.sortBy': 'Sort by',
+  'comments.oldest': 'Oldest',
+  'comments.newest': 'Newest',
+  'comments.top': 'Most liked',
+  'comments.add': 'Add a comment',
+  'comments.submit': 'Comment',
+  'comments.back': '← Back to all comments',
+  'comments.empty': 'No comments yet.',
+  'comments.loading': 'Loading comments…',
+  'comments.loadError': 'Could not load comments.',
+  'comments.more': 'More comments',
+  'comment.expand': 'Expand comment',
+  'comment.collapse': 'Collapse comment',
+  'comment.deletedAuthor': '[deleted]',
+  'comment.deleted': 'This comment was deleted.',
+  'comment.edited': 'edited',
+  'comment.hiddenReplies': '({count, plural, one {# reply} other {# replies}} hidden)',
+  'comment.filtered': 'Hidden because it contains a word you muted.',
+  'comment.like':
+    '{count, plural, =0 {Like comment, no likes yet} one {Like comment, # like} other {Like comment, # likes}}',
+  'comment.reply': 'Reply',
+  'comment.replyTo': 'Reply to @{username}',
+  'comment.editLabel': 'Edit comment',
+  'comment.deleteConfirm': 'Delete this comment?',
+  'comment.continue': 'Continue this thread ({count, plural, one {# reply} other {# replies}}) →',
+  'comment.moreReplies': 'Show {count, plural, one {# more reply} other {# more replies}}',
+  'comment.cancel': 'Cancel',
+  'comment.saveError': 'Could not save your comment.',
+
+  // Settings: account, privacy, lists, muted words, data
+  'emailSettings.title': 'Email address',
+  'emailSettings.confirmed': 'Confirmed',
+  'emailSettings.unconfirmed': 'Not confirmed yet',
+  'emailSettings.newEmail': 'New email',
+  'emailSettings.submit': 'Change email',
+  'emailSettings.sending': 'Sending…',
+  'emailSettings.sent': 'We sent a link to {email}. Open it to finish the change.',
+  'passwordSettings.current': 'Current password',
+  'passwordSettings.new': 'New password',
+  'passwordSettings.confirm': 'Confirm new password',
+  'passwordSettings.submit': 'Change password',
+  'passwordSettings.changed': 'Password changed. Your other sessions were signed out.',
+  'sessions.title': 'Where you’re signed in',
+  'sessions.current': 'This device',
+  'sessions.meta': 'Active {active} · signed in {signedIn}',
+  'sessions.signOut': 'Sign out',
+  'sessions.signOutCurrent': 'Sign out this device',
+  'sessions.signOutDevice': 'Sign out {device}',
+  'sessions.signOutOthers': 'Sign out everywhere else',
+  'sessions.signingOut': 'Signing out…',
+  'privacy.legend': 'Account privacy',
+  'privacy.private': 'Private account',
+  'privacy.hint': 'Only people you approve can see your posts, likes and who you follow.',
+  'privacy.publicConfirm': 'Make your account public? Everyone waiting for approval will follow you.',
+  'userList.requests': 'Follow requests',
+  'userList.requestsEmpty': 'No one is waiting for your approval.',
+  'userList.blocked': 'Blocked accounts',
+  'userList.blockedEmpty': 'You haven’t blocked anyone.',
+  'userList.muted': 'Muted accounts',
+  'userList.mutedEmpty': 'You haven’t muted anyone.',
+  'userList.approve': 'Approve',
+  'userList.decline': 'Decline',
+  'userList.unblock': 'Unblock',
+  'userList.unmute': 'Unmute',
+  'userList.actionLabel': '{action} @{username}',
+  'userList.loadError': 'Could not load this list.',
+  'userList.actionError': 'Something went wrong.',
+  'mutedWords.title': 'Muted words',
+  'mutedWords.hint': 'Posts with these words or phrases are hidden from you; comments with them are collapsed.',
+  'mutedWords.label': 'Word or phrase to mute',
+  'mutedWords.placeholder': 'Word or phrase',
+  'mutedWords.mute': 'Mute',
+  'mutedWords.unmute': 'Unmute “{keyword}”',
+  'mutedWords.empty': 'You haven’t muted any words.',
+  'mutedWords.already': '“{keyword}” is already muted.',
+  'mutedWords.muted': 'Muted “{keyword}”.',
+  'mutedWords.unmuted': 'Unmuted “{keyword}”.',
+  'mutedWords.loadError': 'Could not load your muted words.',
+  'mutedWords.saveError': 'Your muted words were not saved.',
+  'followedTags.title': 'Followed hashtags',
+  'followedTags.empty': 'You don’t follow any hashtags. Open one and choose Follow to see its posts in your feed.',
+  'followedTags.unfollow': 'Unfollow',
+  'followedTags.unfollowTag': 'Unfollow #{tag}',
+  'dataExport.title': 'Your data',
+  'dataExport.hint': 'Download your profile, posts with their images, comments, messages, followers and following.',
+  'dataExport.downloadJson': 'Download archive',
+  'dataExport.downloadHtml': 'Download readable copy',
+  'dataExport.preparing': 'Preparing…',
+  'dataExport.schema': 'Archive schema (v{version})',
+  'dataExport.exportError': 'Could not build your archive.',
+  'dataExport.importTitle': 'Import an archive',
+  'dataExport.importHint':
+    'Restores an archive into this account, as long as it has no posts, comments, messages or follows yet. Your followers are not restored: they can follow you again.',
+  'dataExport.file': 'Archive file',
+  'dataExport.choose': 'Choose archive…',
+  'dataExport.importing': 'Importing…',
+  'dataExport.notArchive': 'This file is not an account archive.',
+  'dataExport.importError': 'Could not import this archive.',
+  'dataExport.profileError':
+    'Your data was imported, but the archived profile could not be applied. You can edit it yourself.',
+  'dataExport.imported': 'Imported {counts}.',
+  'dataExport.skipped': 'Skipped {counts} that no longer exist or can’t be restored.',
+  'dataExport.renamed':
+    '{count, plural, one {# record got a new ID because its own was taken.} other {# records got a new ID because theirs was taken.}}',
+  'dataExport.nothing': 'nothing',
+  'dataExport.posts': '{count, plural, one {# post} other {# posts}}',
+  'dataExport.comments': '{count, plural, one {# comment} other {# comments}}',
+  'dataExport.conversations': '{count, plural, one {# conversation} other {# conversations}}',
+  'dataExport.messages': '{count, plural, one {# message} other {# messages}}',
+  'dataExport.follows': '{count, plural, one {# follow} other {# follows}}',
+  'dataExport.files': '{count, plural, one {# file} other {# files}}',
+  'deleteAccount.title': 'Delete account',
+  'deleteAccount.hint':
+    'Your posts, messages, follows and uploads are deleted. Comments others replied to stay as “{deleted}”.',
+  'deleteAccount.passwordRequired': 'Password is required.',
+  'deleteAccount.confirm': 'Delete @{username} and everything in it? This cannot be undone.',
+  'deleteAccount.submit': 'Delete my account',
+  'deleteAccount.deleting': 'Deleting…',
+
+  // Follow buttons, mutuals and follow suggestions; {count} is how many other mutuals
+  'follows.whoToFollow': 'Who to follow',
+  'follows.someone': 'someone',
+  'follows.mutualOne': 'Followed by {name}',
+  'follows.mutualTwo': 'Followed by {first} and {second}',
+  'follows.mutualMany':
+    '{count, plural, one {Followed by {name} and # other you follow} other {Followed by {name} and # others you follow}}',
+  'follows.alsoPostsAbout': 'Also posts about {tags}',
+  'follow.follow': 'Follow',
+  'follow.following': 'Following',
+  'follow.requested': 'Requested',
+  'follow.label':
+    '{state, select, none {Follow {name}} requested {Cancel follow request to {name}} other {Unfollow {name}}}',
+  'follow.tagLabel': '{following, select, yes {Unfollow {tag}} other {Follow {tag}}}',
+  'follow.error': 'Something went wrong.',
+
+  // Offline banner; {count} is how many changes wait in the outbox
+  'offline.status':
+    '{count, plural, =0 {You are offline. Changes will be sent when you reconnect.} one {You are offline. # change is waiting and will be sent when you reconnect.} other {You are offline. # changes are waiting and will be sent when you reconnect.}}',
+  'offline.waiting': '{count, plural, one {# change waiting} other {# changes waiting}}',
+  'offline.sending': '{count, plural, one {Sending # change…} other {Sending # changes…}}',
+  'offline.sendNow': 'Send now',
+  'offline.conflict': '{action} could not be saved: {error}',
+  'offline.dismiss': 'Dismiss',
+  'offline.createPost': 'Your post',
+  'offline.likePost': 'Your like',
+  'offline.unlikePost': 'Removing your like',
+  'offline.addComment': 'Your comment',
+  'offline.likeComment': 'Your like on a comment',
+  'offline.unlikeComment': 'Removing your like on a comment',
+
+  // Toasts: failures raised through the error channel (store/mutations.ts)
+  'toast.dismiss': 'Dismiss',
+  'toast.likeFailed': 'Could not like this post.',
+  'toast.unlikeFailed': 'Could not remove your like.',
+  'toast.followFailed': 'Could not follow this account.',
+  'toast.unfollowFailed': 'Could not unfollow this account.',
+  'toast.commentLikeFailed': 'Could not like this comment.',
+} satisfies Record<string, string>
+
+/**
+ * MessageKey - Any key of the source catalog
+ */
+export type MessageKey = keyof typeof en
+
+/**
+ * Catalog - A complete translation: every key, nothing else
+ */
+export type Catalog = Record<MessageKey, string>
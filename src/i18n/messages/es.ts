@@ -0,0 +1,715 @@
+/**
+ * ============================================================================
+ * STEP 2.24: Spanish Messages
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * UPDATED: Feature Phase - Step 2.25 (skip link, shortcuts, live announcements)
+ * PURPOSE: The English catalog (./en.ts) in Spanish
+ *
+ * LEARNING NOTES:
+ * - Typed as Catalog: a key missing here, or one English no longer has,
+ *   fails the type-check
+ */
+
+import type { Catalog } from './en'
+
+export const es: Catalog = {
+  // Shared
+  'common.loading': 'Cargando…',
+  'common.retry': 'Reintentar',
+  'common.loadMore': 'Cargar más',
+  'common.show': 'Mostrar',
+  'common.saving': 'Guardando…',
+  'common.saved': 'Guardado.',
+  'fields.firstName': 'Nombre',
+  'fields.lastName': 'Apellidos',
+  'fields.username': 'Nombre de usuario',
+  'fields.email': 'Correo electrónico',
+  'fields.password': 'Contraseña',
+  'fields.confirmPassword': 'Confirmar contraseña',
+
+  // Field errors
+  'validation.required':
+    '{field, select, email {El correo electrónico es obligatorio.} password {La contraseña es obligatoria.} currentPassword {La contraseña actual es obligatoria.} confirmPassword {Confirma tu contraseña.} username {El nombre de usuario es obligatorio.} firstName {El nombre es obligatorio.} lastName {Los apellidos son obligatorios.} post {Escribe algo o añade una imagen.} image {El archivo está vacío.} attachment {El archivo está vacío.} audience {Menciona al menos a una persona o elige otro público.} comment {El comentario no puede estar vacío.} message {El mensaje no puede estar vacío.} groupName {El nombre del grupo no puede estar vacío.} reportReason {Elige por qué lo denuncias.} reportDetails {Cuéntanos qué ocurre.} moderationNote {Explica el motivo al usuario.} other {Este campo es obligatorio.}}',
+  'validation.invalidFormat':
+    '{field, select, email {Introduce una dirección de correo válida.} username {El nombre de usuario solo puede contener letras, números y guiones bajos.} imageAlts {Las descripciones deben ser texto.} attachments {Los adjuntos deben ser archivos subidos.} audience {Elige quién puede ver esta publicación.} messageType {Los mensajes solo pueden ser texto, imágenes o archivos.} website {Introduce una dirección web completa, como https://example.com.} suspensionDays {Suspende entre {min, number} y {max, plural, one {# día} other {# días}}.} moderationAction {Elige una acción.} other {Revisa este campo.}}',
+  'validation.tooShort':
+    '{field, select, groupMembers {Elige al menos {min, plural, one {# persona} other {# personas}} para un grupo.} password {La contraseña debe tener al menos {min, plural, one {# carácter} other {# caracteres}}.} username {El nombre de usuario debe tener al menos {min, plural, one {# carácter} other {# caracteres}}.} other {Debe tener al menos {min, plural, one {# carácter} other {# caracteres}}.}}',
+  'validation.tooLong':
+    '{field, select, password {La contraseña puede} username {El nombre de usuario puede} firstName {El nombre puede} lastName {Los apellidos pueden} post {Las publicaciones pueden} imageAlts {Las descripciones de imagen pueden} tags {Los hashtags pueden} comment {Los comentarios pueden} message {Los mensajes pueden} groupName {Los nombres de grupo pueden} bio {La biografía puede} location {La ubicación puede} website {El sitio web puede} reportDetails {Los detalles pueden} moderationNote {Las notas pueden} mutedKeywords {Las palabras silenciadas pueden} other {Puede}} tener como máximo {max, plural, one {# carácter} other {# caracteres}}.',
+  'validation.tooWeak': 'La contraseña debe contener al menos una letra y un número.',
+  'validation.mismatch':
+    '{field, select, confirmPassword {Las contraseñas no coinciden.} newPassword {Elige una contraseña distinta de la actual.} other {No coincide.}}',
+  'validation.taken':
+    '{field, select, username {Ese nombre de usuario ya está en uso.} email {Ya existe una cuenta con este correo electrónico.} currentEmail {Ese ya es tu correo electrónico.} other {Ya está en uso.}}',
+  'validation.tooMany':
+    '{field, select, images {Puedes adjuntar hasta {max, plural, one {# imagen} other {# imágenes}}.} imageAlts {Hay más descripciones que imágenes.} attachments {Puedes adjuntar hasta {max, plural, one {# archivo} other {# archivos}}.} tags {Las publicaciones pueden tener como máximo {max, plural, one {# hashtag} other {# hashtags}}.} groupMembers {Los grupos pueden tener como máximo {max, plural, one {# miembro} other {# miembros}}.} mutedKeywords {Puedes silenciar como máximo {max, plural, one {# palabra} other {# palabras}}.} other {Hay demasiados.}}',
+  'validation.invalidType':
+    '{field, select, attachment {Solo se pueden adjuntar imágenes y archivos PDF.} other {Solo se admiten imágenes JPEG, PNG, GIF y WebP.}}',
+  'validation.tooLarge':
+    '{field, select, images {Cada imagen debe ocupar {max, number} MB o menos.} other {Los archivos deben ocupar {max, number} MB o menos.}}',
+  'validation.readOnly':
+    '{field, select, postEdit {Las publicaciones solo se pueden editar durante la primera hora.} other {No se puede cambiar.}}',
+
+  // Navigation and header (NavBar, AccountMenu)
+  'nav.label': 'Principal',
+  'nav.home': 'Inicio',
+  'nav.search': 'Buscar',
+  'nav.notifications': 'Notificaciones',
+  'nav.messages': 'Mensajes',
+  'nav.moderation': 'Moderación',
+  'nav.unread': '{count, plural, one {# sin leer} other {# sin leer}}',
+  'account.logIn': 'Iniciar sesión',
+  'account.settings': 'Configuración',
+  'account.logOut': 'Cerrar sesión',
+
+  // Language switcher and settings section
+  'language.label': 'Idioma',
+  'language.hint':
+    'Se usa en menús, fechas y números. Las publicaciones y los mensajes se muestran en el idioma en que se escribieron.',
+  'language.saveError': 'No se pudo guardar el idioma en tu cuenta, así que solo se aplica en este dispositivo.',
+  'settings.title': 'Configuración',
+
+  // Feed
+  'feed.newPosts': '{count, plural, one {# publicación nueva} other {# publicaciones nuevas}}',
+  'feed.order': 'Ordenar el inicio por',
+  'feed.latest': 'Recientes',
+  'feed.top': 'Destacadas',
+  'feed.loading': 'Cargando publicaciones…',
+  'feed.end': 'Estás al día.',
+  'feed.loadError': 'No se pudo cargar tu feed.',
+  'feed.postsError': 'No se pudieron cargar las publicaciones.',
+
+  // Post card
+  'post.reposted': '{name} compartió',
+  'post.youReposted': 'Compartiste',
+  'post.followedTag': 'Porque sigues {tag}',
+  'post.edited': 'Editado',
+  'post.editedAt': 'Editado el {date}',
+  'post.pending': 'Aún sin enviar',
+  'post.editLabel': 'Editar publicación',
+  'post.save': 'Guardar',
+  'post.imagesOf': 'Imágenes de la publicación de {name}',
+  'post.images': 'Imágenes de esta publicación',
+  'post.like':
+    '{count, plural, =0 {Me gusta, ninguno todavía} one {Me gusta, # me gusta} other {Me gusta, # me gusta}}',
+  'post.comments': '{count, plural, =0 {Sin comentarios} one {# comentario} other {# comentarios}}',
+  'post.repost':
+    '{count, plural, =0 {Compartir, nadie lo compartió} one {Compartir, compartido # vez} other {Compartir, compartido # veces}}',
+  'post.repostPublicOnly': 'Solo se pueden compartir las publicaciones públicas',
+  'post.repostError': 'No se pudo compartir esta publicación.',
+  'post.quote': 'Citar',
+  'post.quoteLabelOf': 'Citar la publicación de {name}',
+  'post.quoteLabel': 'Citar esta publicación',
+  'post.quoteSubmit': 'Publicar cita',
+  'post.quoteQueued': 'Tu cita se publicará cuando vuelvas a tener conexión.',
+  'post.quotePosted': 'Se publicó tu cita.',
+  'post.viewQuote': 'Verla',
+  'post.edit': 'Editar',
+  'post.delete': 'Eliminar',
+  'post.deleteConfirm': '¿Eliminar esta publicación? También se eliminan sus comentarios y las veces que se compartió.',
+  'post.deleteError': 'No se pudo eliminar esta publicación.',
+  'post.repostLabel': 'Republicación',
+  'post.someone': 'Alguien',
+  'post.originalRemoved': 'La publicación original se eliminó.',
+  'post.unavailable': 'Esta publicación no está disponible.',
+  'postForm.cancel': 'Cancelar',
+  'postForm.checkText': 'Revisa el texto.',
+  'postForm.saveError': 'No se pudo guardar la publicación.',
+  'quoted.show': 'Mostrar la publicación citada',
+  'quoted.open': 'Abrir la publicación',
+  'quoted.openOf': 'Abrir la publicación de {name}',
+  'shares.title': 'Republicaciones y citas',
+  'shares.repostedBy': 'Republicado por {names}',
+  'shares.separator': ', ',
+  'shares.loadError': 'No se pudieron cargar las republicaciones.',
+  'lightbox.counter': 'Imagen {number} de {count}',
+  'lightbox.previous': 'Imagen anterior',
+  'lightbox.next': 'Imagen siguiente',
+  'lightbox.close': 'Cerrar',
+
+  // Conversation list
+  'conversations.loading': 'Cargando conversaciones…',
+  'conversations.empty': 'Todavía no hay conversaciones.',
+  'conversations.noMessages': 'Todavía no hay mensajes',
+  'conversations.ownPreview': 'Tú: {text}',
+  'conversations.newMessages': '{count, plural, one {# mensaje nuevo} other {# mensajes nuevos}}',
+  'messages.title': 'Mensajes',
+  'messages.conversations': 'Conversaciones',
+  'messages.newGroup': 'Nuevo grupo',
+  'messages.notFound': 'No se encontró la conversación. {link}',
+  'messages.back': 'Volver a mensajes',
+  'messages.loading': 'Cargando conversación…',
+  'messages.pick': 'Elige una conversación para empezar a chatear.',
+
+  // Chat view; {by} and {who} are you or other, so verbs can agree with the viewer
+  'chat.deletedAccount': 'Cuenta eliminada',
+  'chat.justYou': 'Solo tú',
+  'chat.someone': 'Alguien',
+  'chat.typingOne': '{name} está escribiendo…',
+  'chat.typingTwo': '{first} y {second} están escribiendo…',
+  'chat.typingMany': '{count, plural, other {# personas están escribiendo…}}',
+  'chat.reconnecting': 'Reconectando…',
+  'chat.offline': 'Sin conexión',
+  'chat.groupInfo': 'Información del grupo',
+  'chat.log': 'Mensajes',
+  'chat.loadEarlier': 'Cargar mensajes anteriores',
+  'chat.empty': 'Aún no hay mensajes. ¡Saluda!',
+  'chat.announcement': '{name}: {text}',
+  'chat.startError': 'No se pudo iniciar la conversación.',
+  'chat.attachment': 'Archivo adjunto',
+  'chat.attachmentNumber': 'Archivo adjunto {number}',
+  'chat.images': 'Imágenes de este mensaje',
+  'chat.sending': 'Enviando…',
+  'chat.seen': 'Visto',
+  'chat.sent': 'Enviado',
+  'chat.notSent': 'No enviado.',
+  'chat.retry': 'Reintentar',
+  'chat.attached': 'Archivos adjuntos',
+  'chat.removeFile': 'Quitar {name}',
+  'chat.uploading': 'Subiendo archivo',
+  'chat.uploadError': '{name}: {error}',
+  'chat.notUploaded': 'No se subió {name}.',
+  'chat.attach': 'Adjuntar archivos',
+  'chat.label': 'Mensaje',
+  'chat.placeholder': 'Escribe un mensaje…',
+  'chat.send': 'Enviar',
+  'groupEvent.you': 'ti',
+  'groupEvent.created': '{by, select, you {Creaste el grupo} other {{actor} creó el grupo}}',
+  'groupEvent.createdNamed': '{by, select, you {Creaste el grupo “{name}”} other {{actor} creó el grupo “{name}”}}',
+  'groupEvent.renamed':
+    '{by, select, you {Cambiaste el nombre del grupo a “{name}”} other {{actor} cambió el nombre del grupo a “{name}”}}',
+  'groupEvent.imageChanged': '{by, select, you {Cambiaste la foto del grupo} other {{actor} cambió la foto del grupo}}',
+  'groupEvent.added':
+    '{by, select, you {Añadiste a {names}} other {{who, select, you {{actor} te añadió} other {{actor} añadió a {names}}}}}',
+  'groupEvent.removed':
+    '{by, select, you {Quitaste a {names}} other {{who, select, you {{actor} te quitó} other {{actor} quitó a {names}}}}}',
+  'groupEvent.left': '{by, select, you {Saliste del grupo} other {{actor} salió del grupo}}',
+  'groupEvent.promoted':
+    '{who, select, you {Ahora eres admin} other {{count, plural, one {{subject} ahora es admin} other {{subject} ahora son admins}}}}',
+  'groupEvent.demoted':
+    '{who, select, you {Ya no eres admin} other {{count, plural, one {{subject} ya no es admin} other {{subject} ya no son admins}}}}',
+
+  // Groups: settings panel, new group form, member picker
+  'group.settings': 'Ajustes del grupo',
+  'group.photo': 'Foto del grupo',
+  'group.changePhoto': 'Cambiar foto',
+  'group.removePhoto': 'Quitar foto',
+  'group.name': 'Nombre del grupo',
+  'group.rename': 'Cambiar nombre',
+  'group.members': '{count, plural, one {# miembro} other {# miembros}}',
+  'group.memberYou': '{name} (tú)',
+  'group.admin': 'Admin',
+  'group.makeAdmin': 'Hacer admin',
+  'group.removeAdmin': 'Quitar como admin',
+  'group.remove': 'Quitar',
+  'group.removeMember': 'Quitar a {name} del grupo',
+  'group.addMembers': 'Añadir miembros',
+  'group.add': 'Añadir',
+  'group.leaveButton': 'Salir del grupo',
+  'group.leave': '¿Salir de este grupo?',
+  'group.leaveLast': '¿Salir de este grupo? Eres el último miembro, así que el grupo y sus mensajes se eliminarán.',
+  'group.leaveSuccessor': '¿Salir de este grupo? {name} pasará a ser admin.',
+  'group.longestMember': 'El miembro más antiguo',
+  'group.updateError': 'No se pudo actualizar el grupo.',
+  'group.photoError': 'No se pudo subir la foto.',
+  'newGroup.title': 'Nuevo grupo',
+  'newGroup.name': 'Nombre del grupo (opcional)',
+  'newGroup.members': 'Miembros',
+  'newGroup.cancel': 'Cancelar',
+  'newGroup.create': 'Crear grupo',
+  'newGroup.creating': 'Creando…',
+  'newGroup.error': 'No se pudo crear el grupo.',
+  'userPicker.picked': 'Elegidos',
+  'userPicker.remove': 'Quitar a {name}',
+  'userPicker.placeholder': 'Buscar por nombre de usuario',
+
+  // Accessibility: skip link, keyboard shortcuts, live announcements
+  'a11y.skipToContent': 'Saltar al contenido',
+  'shortcuts.open': 'Atajos de teclado',
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.hint': 'Los atajos no hacen nada mientras escribes en un campo.',
+  'shortcuts.close': 'Cerrar',
+  'shortcuts.then': '{first} y luego {second}',
+  'shortcuts.nextPost': 'Publicación siguiente',
+  'shortcuts.previousPost': 'Publicación anterior',
+  'shortcuts.like': 'Dar me gusta a la publicación seleccionada',
+  'shortcuts.reply': 'Responder a la publicación seleccionada',
+  'shortcuts.newPost': 'Escribir una publicación',
+  'shortcuts.goHome': 'Ir al inicio',
+  'shortcuts.goMessages': 'Ir a los mensajes',
+  'shortcuts.goNotifications': 'Ir a las notificaciones',
+  'shortcuts.help': 'Mostrar esta lista',
+  'live.notifications': '{count, plural, one {# notificación nueva} other {# notificaciones nuevas}}',
+  'live.messages': '{count, plural, one {# mensaje nuevo} other {# mensajes nuevos}}',
+
+  // Hashtags: trending panel and tag pages
+  'trends.title': 'Tendencias',
+  'trends.windows': 'Tendencias de',
+  'trends.hour': 'La última hora',
+  'trends.day': 'Hoy',
+  'trends.week': 'Esta semana',
+  'trends.new': 'Nuevo · {count, plural, one {# persona} other {# personas}}',
+  'trends.rare': '{count, plural, one {# persona} other {# personas}}, casi sin uso antes',
+  'trends.usual': '{count, plural, one {# persona} other {# personas}}, normalmente {usual}',
+  'trends.loadError': 'No se pudieron cargar las tendencias.',
+  'trends.empty': 'Todavía no hay tendencias.',
+  'tag.posts': '{count, plural, one {# publicación} other {# publicaciones}}',
+  'tag.followers': '{count, plural, one {# seguidor} other {# seguidores}}',
+  'tag.empty': 'Todavía no hay publicaciones con #{tag}. Síguelo para ver la primera en tu inicio.',
+  'tag.invalid': 'Los hashtags son letras, números y guiones bajos, como #typescript. Prueba a buscar.',
+
+  // Notification rows; {count} is how many people, which verbs agree with
+  'notifications.unread': 'Sin leer:',
+  'notifications.markRead': 'Marcar como leída',
+  'notifications.someone': 'Alguien',
+  'notifications.someoneElse': 'otra persona',
+  'notifications.twoActors': '{first} y {second}',
+  'notifications.manyActors': '{first} y {count, plural, one {# persona más} other {# personas más}}',
+  'notifications.like':
+    '{count, plural, one {A {actors} le gustó tu {target, select, comment {comentario} other {publicación}}} other {A {actors} les gustó tu {target, select, comment {comentario} other {publicación}}}}',
+  'notifications.comment':
+    '{count, plural, one {{actors} comentó tu publicación} other {{actors} comentaron tu publicación}}',
+  'notifications.follow': '{count, plural, one {{actors} empezó a seguirte} other {{actors} empezaron a seguirte}}',
+  'notifications.followRequest': '{count, plural, one {{actors} pidió seguirte} other {{actors} pidieron seguirte}}',
+  'notifications.mention':
+    '{count, plural, one {{actors} te mencionó en {target, select, comment {un comentario} other {una publicación}}} other {{actors} te mencionaron en {target, select, comment {un comentario} other {una publicación}}}}',
+  'notifications.repost':
+    '{count, plural, one {{actors} compartió tu publicación} other {{actors} compartieron tu publicación}}',
+  'notifications.quote': '{count, plural, one {{actors} citó tu publicación} other {{actors} citaron tu publicación}}',
+  'notifications.message':
+    '{count, plural, one {{actors} te envió {messages, plural, one {un mensaje} other {# mensajes}}} other {{actors} te enviaron {messages, plural, one {un mensaje} other {# mensajes}}}}',
+  'notifications.moderation': 'Los moderadores revisaron tu contenido',
+  'notifications.requestAnswered': 'Esta solicitud ya se respondió.',
+  'notifications.messageGone': 'Este mensaje ya no está disponible.',
+  'notifications.commentGone': 'Este comentario ya no está disponible.',
+  'notifications.postGone': 'Esta publicación ya no está disponible.',
+  'notifications.loadError': 'No se pudieron cargar las notificaciones.',
+  'notificationTypes.like': 'Me gusta',
+  'notificationTypes.comment': 'Comentarios en tus publicaciones',
+  'notificationTypes.follow': 'Nuevos seguidores',
+  'notificationTypes.followRequest': 'Solicitudes de seguimiento',
+  'notificationTypes.mention': 'Menciones',
+  'notificationTypes.message': 'Mensajes',
+  'notificationTypes.repost': 'Veces que compartieron tus publicaciones',
+  'notificationTypes.quote': 'Citas de tus publicaciones',
+  'notificationPrefs.loading': 'Cargando preferencias…',
+  'notificationPrefs.legend': 'Avisarme de',
+  'notificationPrefs.saveError': 'No se pudieron guardar tus preferencias.',
+
+  // Reports; {target} is post, comment, message or user
+  'report.button': 'Denunciar',
+  'report.question':
+    '¿Qué problema tiene {target, select, comment {este comentario} message {este mensaje} user {esta cuenta} other {esta publicación}}?',
+  'report.spam': 'Spam o estafa',
+  'report.harassment': 'Acoso o intimidación',
+  'report.hate': 'Discurso de odio',
+  'report.violence': 'Violencia o amenazas',
+  'report.sexual': 'Contenido sexual',
+  'report.misinformation': 'Información falsa',
+  'report.other': 'Otra cosa',
+  'report.details': '{required, select, yes {Detalles (obligatorio)} other {Detalles (opcional)}}',
+  'report.send': 'Enviar denuncia',
+  'report.sending': 'Enviando…',
+  'report.cancel': 'Cancelar',
+  'report.sendError': 'No se envió tu denuncia. Inténtalo de nuevo.',
+  'report.thanks':
+    'Gracias. Los moderadores revisarán {target, select, comment {este comentario} message {este mensaje} user {esta cuenta} other {esta publicación}}.',
+  'report.close': 'Cerrar',
+
+  // Moderation: actions, notices, audit log and placeholders
+  'moderation.hide': 'Ocultar',
+  'moderation.remove': 'Eliminar',
+  'moderation.restore': 'Restaurar',
+  'moderation.warn': 'Advertir al autor',
+  'moderation.suspend': 'Suspender al autor',
+  'moderation.unsuspend': 'Levantar la suspensión',
+  'moderation.dismiss': 'Descartar denuncias',
+  'moderation.targetPost': 'publicación',
+  'moderation.targetComment': 'comentario',
+  'moderation.targetMessage': 'mensaje',
+  'moderation.targetUser': 'cuenta',
+  'moderation.noticeHide':
+    'Los moderadores ocultaron tu {target, select, comment {comentario} message {mensaje} user {cuenta} other {publicación}}',
+  'moderation.noticeRemove':
+    'Los moderadores eliminaron tu {target, select, comment {comentario} message {mensaje} user {cuenta} other {publicación}}',
+  'moderation.noticeRestore':
+    'Los moderadores restauraron tu {target, select, comment {comentario} message {mensaje} user {cuenta} other {publicación}}',
+  'moderation.noticeWarn':
+    '{target, select, user {Los moderadores te enviaron una advertencia} comment {Los moderadores te advirtieron por tu comentario} message {Los moderadores te advirtieron por tu mensaje} other {Los moderadores te advirtieron por tu publicación}}',
+  'moderation.noticeSuspendedUntil': 'Tu cuenta está suspendida hasta el {date}',
+  'moderation.noticeSuspended': 'Tu cuenta fue suspendida',
+  'moderation.noticeUnsuspend': 'Se levantó tu suspensión',
+  'moderation.noticeDismiss':
+    'Se descartaron las denuncias sobre tu {target, select, comment {comentario} message {mensaje} user {cuenta} other {publicación}}',
+  'moderation.someModerator': 'Un moderador',
+  'moderation.someUser': 'un usuario',
+  'moderation.logHide':
+    '{moderator} ocultó {target, select, user {a {name}} comment {un comentario de {name}} message {un mensaje de {name}} other {una publicación de {name}}}',
+  'moderation.logRemove':
+    '{moderator} eliminó {target, select, user {a {name}} comment {un comentario de {name}} message {un mensaje de {name}} other {una publicación de {name}}}',
+  'moderation.logRestore':
+    '{moderator} restauró {target, select, user {a {name}} comment {un comentario de {name}} message {un mensaje de {name}} other {una publicación de {name}}}',
+  'moderation.logWarn':
+    '{moderator} advirtió a {name}{target, select, user {} comment { por su comentario} message { por su mensaje} other { por su publicación}}',
+  'moderation.logSuspendedUntil': '{moderator} suspendió a {name} hasta el {date}',
+  'moderation.logSuspended': '{moderator} suspendió a {name}',
+  'moderation.logUnsuspend': '{moderator} levantó la suspensión de {name}',
+  'moderation.logDismiss':
+    '{moderator} descartó las denuncias sobre {target, select, user {{name}} comment {un comentario de {name}} message {un mensaje de {name}} other {una publicación de {name}}}',
+  'moderation.removed':
+    '{target, select, comment {Los moderadores eliminaron este comentario.} message {Los moderadores eliminaron este mensaje.} user {Los moderadores eliminaron esta cuenta.} other {Los moderadores eliminaron esta publicación.}}',
+  'moderation.removedForReader':
+    '{target, select, comment {Los moderadores eliminaron tu comentario.} message {Los moderadores eliminaron tu mensaje.} user {Los moderadores eliminaron tu cuenta.} other {Los moderadores eliminaron tu publicación.}}',
+  'moderation.hidden':
+    '{target, select, comment {Los moderadores ocultaron este comentario.} message {Los moderadores ocultaron este mensaje.} user {Los moderadores ocultaron esta cuenta.} other {Los moderadores ocultaron esta publicación.}}',
+  'moderation.hiddenForReader':
+    'Los moderadores ocultaron {target, select, comment {este comentario} message {este mensaje} user {esta cuenta} other {esta publicación}}. Solo tú y los moderadores pueden verlo.',
+
+  // Moderation queue and page
+  'queue.label':
+    '{target, select, comment {Comentario denunciado} message {Mensaje denunciado} user {Cuenta denunciada} other {Publicación denunciada}} de {author}',
+  'queue.by': 'de {author}',
+  'queue.unknownAuthor': 'Usuario desconocido',
+  'queue.reports': '{count, plural, one {# denuncia} other {# denuncias}}, la primera {time}',
+  'queue.noText': 'Sin texto',
+  'queue.images': '({count, plural, one {# imagen} other {# imágenes}})',
+  'queue.open':
+    'Abrir {target, select, comment {el comentario} message {el mensaje} user {la cuenta} other {la publicación}}',
+  'queue.reasons': 'Motivos',
+  'queue.details': 'Detalles de quienes denunciaron',
+  'queue.already': '{state, select, hidden {Ya está oculto.} other {Ya está eliminado.}}',
+  'queue.suspendedUntil': '{author} está suspendido hasta el {date}.',
+  'queue.note': 'Nota para el autor (obligatoria para advertir o suspender)',
+  'queue.days': 'Duración de la suspensión (días)',
+  'queue.chooseAction': 'Elige una acción.',
+  'queue.removeConfirm':
+    '¿Eliminar {target, select, comment {este comentario} message {este mensaje} user {esta cuenta} other {esta publicación}} para todos?',
+  'queue.failed': 'La acción falló. Inténtalo de nuevo.',
+  'queue.working': 'Aplicando…',
+  'moderationPage.title': 'Moderación',
+  'moderationPage.moderatorsOnly': 'Solo los moderadores pueden abrir esta página.',
+  'moderationPage.queue': 'Cola',
+  'moderationPage.audit': 'Registro de auditoría',
+  'moderationPage.noReports': 'No hay denuncias abiertas.',
+  'moderationPage.loadingReports': 'Cargando denuncias…',
+  'moderationPage.queueError': 'No se pudo cargar la cola.',
+  'moderationPage.noActions': 'Aún no hay acciones.',
+  'moderationPage.loadingAudit': 'Cargando el registro de auditoría…',
+  'moderationPage.auditError': 'No se pudo cargar el registro de auditoría.',
+
+  // Signing in, creating an account, password resets and email confirmation
+  'login.title': 'Iniciar sesión',
+  'login.forgot': '¿Olvidaste tu contraseña?',
+  'login.submit': 'Iniciar sesión',
+  'login.submitting': 'Iniciando sesión…',
+  'login.switch': '¿Eres nuevo? {link}',
+  'login.switchLink': 'Crea una cuenta',
+  'register.title': 'Crea tu cuenta',
+  'register.submit': 'Crear cuenta',
+  'register.submitting': 'Creando la cuenta…',
+  'register.switch': '¿Ya tienes una cuenta? {link}',
+  'register.switchLink': 'Inicia sesión',
+  'session.restoring': 'Restaurando tu sesión…',
+  'forgotPassword.title': 'Restablece tu contraseña',
+  'forgotPassword.sent':
+    'Si alguna cuenta usa {email}, le enviamos un enlace para elegir una contraseña nueva. El enlace funciona durante una hora.',
+  'forgotPassword.submit': 'Enviar enlace',
+  'forgotPassword.sending': 'Enviando…',
+  'forgotPassword.remembered': '¿La recordaste? {link}',
+  'forgotPassword.logIn': 'Inicia sesión',
+  'resetPassword.title': 'Elige una contraseña nueva',
+  'resetPassword.noToken': 'Esta página se abre desde el enlace de un correo para restablecer la contraseña.',
+  'resetPassword.askForLink': 'Pide un enlace',
+  'resetPassword.askForNewLink': 'Pide un enlace nuevo',
+  'resetPassword.done': 'Se cambió tu contraseña y se cerraron todas las sesiones.',
+  'resetPassword.logIn': 'Inicia sesión',
+  'resetPassword.password': 'Contraseña nueva',
+  'resetPassword.confirmPassword': 'Confirma la contraseña nueva',
+  'resetPassword.submit': 'Guardar contraseña',
+  'verifyEmail.title': 'Confirma tu correo',
+  'verifyEmail.noToken': 'Esta página se abre desde el enlace de un correo de verificación.',
+  'verifyEmail.done': 'Gracias, tu dirección de correo está confirmada.',
+  'verifyEmail.toFeed': 'Ir a tu feed',
+  'verifyEmail.logIn': 'Inicia sesión',
+  'verifyEmail.submit': 'Confirmar mi dirección de correo',
+  'verifyEmail.confirming': 'Confirmando…',
+  'emailBanner.text': 'Confirma tu dirección de correo con el enlace que enviamos a {email}.',
+  'emailBanner.resend': 'Reenviar',
+  'emailBanner.sending': 'Enviando…',
+  'emailBanner.sent': 'Enviado a {email}.',
+  'emailBanner.mailbox': 'Abrir el buzón de desarrollo',
+
+  // Pages: home, notifications, post, search, profile
+  'home.title': 'Inicio',
+  'home.empty': 'Aquí aparecerán las publicaciones de las personas y los hashtags que sigues.',
+  'notifications.title': 'Notificaciones',
+  'notifications.summary': '{count, plural, =0 {No hay notificaciones sin leer} one {# sin leer} other {# sin leer}}',
+  'notifications.markAllRead': 'Marcar todas como leídas',
+  'notifications.caughtUp': 'Estás al día.',
+  'notifications.loading': 'Cargando notificaciones…',
+  'notifications.settings': 'Ajustes de notificaciones',
+  'postPage.title': 'Publicación',
+  'postPage.loading': 'Cargando la publicación…',
+  'postPage.notFound': 'No se encontró la publicación.',
+  'notFound.title': 'Página no encontrada',
+  'notFound.path': 'No hay nada en {path}.',
+  'notFound.home': 'Volver al inicio',
+  'search.title': 'Buscar',
+  'search.label': 'Buscar personas, publicaciones y hashtags',
+  'search.placeholder': 'Buscar personas, publicaciones y #hashtags',
+  'search.submit': 'Buscar',
+  'search.all': 'Todo',
+  'search.people': 'Personas',
+  'search.posts': 'Publicaciones',
+  'search.sortBy': 'Ordenar por',
+  'search.relevance': 'Más relevantes',
+  'search.recent': 'Más recientes',
+  'search.popular': 'Más populares',
+  'search.prompt': 'Busca personas, publicaciones y hashtags.',
+  'search.hashtags': 'Hashtags',
+  'search.searching': 'Buscando…',
+  'search.summary': '{count, plural, one {# resultado} other {# resultados}} para «{query}»',
+  'search.error': 'La búsqueda falló.',
+  'profile.posts': 'Publicaciones',
+  'profile.likes': 'Me gusta',
+  'profile.notFound': 'Esta cuenta no existe. Prueba a buscar otra.',
+  'profile.private': 'Esta cuenta es privada. Sigue a @{username} para ver sus publicaciones y sus me gusta.',
+  'profile.blocked': 'Bloqueaste a @{username}. Desbloquéalo para ver sus publicaciones.',
+  'profile.noPosts': '@{username} todavía no ha publicado nada.',
+  'profile.noLikes': 'A @{username} todavía no le ha gustado ninguna publicación.',
+  'profile.edit': 'Editar perfil',
+  'profile.mute': 'Silenciar',
+  'profile.unmute': 'Dejar de silenciar',
+  'profile.block': 'Bloquear',
+  'profile.unblock': 'Desbloquear',
+  'profile.blockConfirm':
+    '¿Bloquear a @{username}? No podrá ver tu perfil, seguirte ni enviarte mensajes, y dejarán de seguirse mutuamente.',
+  'profile.actionError': 'Algo salió mal.',
+  'profile.loadError': 'No se pudo cargar el perfil.',
+  'profile.verified': 'Verificado',
+  'profile.privateAccount': 'Cuenta privada',
+  'profile.followsYou': 'Te sigue',
+  'profile.joined': 'Se unió en {date}',
+  'profile.postCount': '{count, plural, one {Publicación} other {Publicaciones}}',
+  'profile.followerCount': '{count, plural, one {Seguidor} other {Seguidores}}',
+  'profile.following': 'Siguiendo',
+  'profileEdit.avatar': 'foto de perfil',
+  'profileEdit.cover': 'foto de portada',
+  'profileEdit.uploading': 'Subiendo la {label}…',
+  'profileEdit.current': '{label} actual',
+  'profileEdit.none': 'Sin {label}',
+  'profileEdit.change': 'Cambiar la {label}',
+  'profileEdit.remove': 'Quitar',
+  'profileEdit.bio': 'Biografía',
+  'profileEdit.location': 'Ubicación',
+  'profileEdit.website': 'Sitio web',
+  'profileEdit.cancel': 'Cancelar',
+  'profileEdit.save': 'Guardar',
+  'cropper.title': 'Recortar la {label}',
+  'cropper.preview':
+    'Vista previa de la {label} recortada. Arrastra o usa las flechas para moverla, y más y menos para hacer zoom.',
+  'cropper.zoom': 'Zoom',
+  'cropper.cancel': 'Cancelar',
+  'cropper.apply': 'Aplicar',
+  'cropper.cropping': 'Recortando…',
+  'cropper.readError': 'Ese archivo no se pudo leer como imagen.',
+  'cropper.cropError': 'No se pudo recortar la imagen.',
+
+  // Post composer, audiences and edit history
+  'composer.label': '¿Qué está pasando?',
+  'composer.attach': 'Adjuntar imágenes',
+  'composer.attached': 'Imágenes adjuntas',
+  'composer.preview': 'Vista previa de {name}',
+  'composer.remove': 'Quitar {name}',
+  'composer.altLabel': 'Descripción de la imagen {number, number}',
+  'composer.altPlaceholder': '¿Qué hay en esta imagen?',
+  'composer.missingAlts':
+    '{count, plural, one {Tu imagen no tiene descripción.} other {{missing, number} de # imágenes no tienen descripción.}} Las descripciones cuentan a quienes usan lectores de pantalla lo que muestra la imagen.',
+  'composer.addAlts': 'Añadir descripciones',
+  'composer.postAnyway': 'Publicar de todos modos',
+  'composer.audience': 'Público',
+  'composer.remaining': '{count, plural, one {Queda # carácter} other {Quedan # caracteres}}',
+  'composer.submit': 'Publicar',
+  'composer.posting': 'Publicando…',
+  'composer.optimizing': 'Optimizando…',
+  'composer.uploading': 'Subiendo…',
+  'composer.uploadingImages': 'Subiendo imágenes',
+  'composer.uploadOffline': 'No se pudieron subir las imágenes. Comprueba tu conexión e inténtalo de nuevo.',
+  'composer.suggestions': 'Sugerencias',
+  'audience.public': 'Todos',
+  'audience.followers': 'Seguidores',
+  'audience.mentioned': 'Solo mencionados',
+  'audience.publicHint': 'Cualquiera puede ver esta publicación, salvo que tu cuenta sea privada.',
+  'audience.followersHint': 'Solo tus seguidores pueden ver esta publicación.',
+  'audience.mentionedHint': 'Solo las personas que @menciones pueden ver esta publicación.',
+  'history.label': 'Historial de ediciones',
+  'history.loading': 'Cargando el historial de ediciones…',
+  'history.loadError': 'No se pudo cargar el historial de ediciones.',
+  'history.empty': 'No hay versiones anteriores.',
+  'history.noText': 'Sin texto',
+
+  // Comment threads
+  'comments.title': 'Comentarios',
+  'comments.sortBy': 'Ordenar por',
+  'comments.oldest': 'Más antiguos',
+  'comments.newest': 'Más recientes',
+  'comments.top': 'Con más me gusta',
+  'comments.add': 'Añade un comentario',
+  'comments.submit': 'Comentar',
+  'comments.back': '← Volver a todos los comentarios',
+  'comments.empty': 'Todavía no hay comentarios.',
+  'comments.loading': 'Cargando comentarios…',
+  'comments.loadError': 'No se pudieron cargar los comentarios.',
+  'comments.more': 'Más comentarios',
+  'comment.expand': 'Desplegar comentario',
+  'comment.collapse': 'Plegar comentario',
+  'comment.deletedAuthor': '[eliminado]',
+  'comment.deleted': 'Este comentario se eliminó.',
+  'comment.edited': 'editado',
+  'comment.hiddenReplies': '({count, plural, one {# respuesta oculta} other {# respuestas ocultas}})',
+  'comment.filtered': 'Oculto porque contiene una palabra que silenciaste.',
+  'comment.like':
+    '{count, plural, =0 {Me gusta el comentario, sin me gusta todavía} one {Me gusta el comentario, # me gusta} other {Me gusta el comentario, # me gusta}}',
+  'comment.reply': 'Responder',
+  'comment.replyTo': 'Responder a @{username}',
+  'comment.editLabel': 'Editar comentario',
+  'comment.deleteConfirm': '¿Eliminar este comentario?',
+  'comment.continue': 'Seguir este hilo ({count, plural, one {# respuesta} other {# respuestas}}) →',
+  'comment.moreReplies': '{count, plural, one {Ver # respuesta más} other {Ver # respuestas más}}',
+  'comment.cancel': 'Cancelar',
+  'comment.saveError': 'No se pudo guardar tu comentario.',
+
+  // Settings: account, privacy, lists, muted words, data
+  'emailSettings.title': 'Correo electrónico',
+  'emailSettings.confirmed': 'Confirmado',
+  'emailSettings.unconfirmed': 'Sin confirmar',
+  'emailSettings.newEmail': 'Nuevo correo electrónico',
+  'emailSettings.submit': 'Cambiar correo',
+  'emailSettings.sending': 'Enviando…',
+  'emailSettings.sent': 'Enviamos un enlace a {email}. Ábrelo para terminar el cambio.',
+  'passwordSettings.current': 'Contraseña actual',
+  'passwordSettings.new': 'Nueva contraseña',
+  'passwordSettings.confirm': 'Confirmar la nueva contraseña',
+  'passwordSettings.submit': 'Cambiar contraseña',
+  'passwordSettings.changed': 'Contraseña cambiada. Se cerraron tus otras sesiones.',
+  'sessions.title': 'Dónde has iniciado sesión',
+  'sessions.current': 'Este dispositivo',
+  'sessions.meta': 'Activo {active} · sesión iniciada el {signedIn}',
+  'sessions.signOut': 'Cerrar sesión',
+  'sessions.signOutCurrent': 'Cerrar sesión en este dispositivo',
+  'sessions.signOutDevice': 'Cerrar sesión en {device}',
+  'sessions.signOutOthers': 'Cerrar sesión en los demás dispositivos',
+  'sessions.signingOut': 'Cerrando sesión…',
+  'privacy.legend': 'Privacidad de la cuenta',
+  'privacy.private': 'Cuenta privada',
+  'privacy.hint': 'Solo las personas que apruebes pueden ver tus publicaciones, tus me gusta y a quién sigues.',
+  'privacy.publicConfirm':
+    '¿Hacer pública tu cuenta? Todas las personas pendientes de aprobación empezarán a seguirte.',
+  'userList.requests': 'Solicitudes de seguimiento',
+  'userList.requestsEmpty': 'Nadie espera tu aprobación.',
+  'userList.blocked': 'Cuentas bloqueadas',
+  'userList.blockedEmpty': 'No has bloqueado a nadie.',
+  'userList.muted': 'Cuentas silenciadas',
+  'userList.mutedEmpty': 'No has silenciado a nadie.',
+  'userList.approve': 'Aprobar',
+  'userList.decline': 'Rechazar',
+  'userList.unblock': 'Desbloquear',
+  'userList.unmute': 'Dejar de silenciar',
+  'userList.actionLabel': '{action} a @{username}',
+  'userList.loadError': 'No se pudo cargar esta lista.',
+  'userList.actionError': 'Algo salió mal.',
+  'mutedWords.title': 'Palabras silenciadas',
+  'mutedWords.hint':
+    'Las publicaciones con estas palabras o frases se te ocultan; los comentarios con ellas se pliegan.',
+  'mutedWords.label': 'Palabra o frase para silenciar',
+  'mutedWords.placeholder': 'Palabra o frase',
+  'mutedWords.mute': 'Silenciar',
+  'mutedWords.unmute': 'Dejar de silenciar «{keyword}»',
+  'mutedWords.empty': 'No has silenciado ninguna palabra.',
+  'mutedWords.already': '«{keyword}» ya está silenciada.',
+  'mutedWords.muted': 'Se silenció «{keyword}».',
+  'mutedWords.unmuted': 'Se dejó de silenciar «{keyword}».',
+  'mutedWords.loadError': 'No se pudieron cargar tus palabras silenciadas.',
+  'mutedWords.saveError': 'No se guardaron tus palabras silenciadas.',
+  'followedTags.title': 'Hashtags que sigues',
+  'followedTags.empty': 'No sigues ningún hashtag. Abre uno y elige Seguir para ver sus publicaciones en tu inicio.',
+  'followedTags.unfollow': 'Dejar de seguir',
+  'followedTags.unfollowTag': 'Dejar de seguir #{tag}',
+  'dataExport.title': 'Tus datos',
+  'dataExport.hint':
+    'Descarga tu perfil, tus publicaciones con sus imágenes, comentarios, mensajes, seguidores y seguidos.',
+  'dataExport.downloadJson': 'Descargar archivo',
+  'dataExport.downloadHtml': 'Descargar copia legible',
+  'dataExport.preparing': 'Preparando…',
+  'dataExport.schema': 'Esquema del archivo (v{version})',
+  'dataExport.exportError': 'No se pudo generar tu archivo.',
+  'dataExport.importTitle': 'Importar un archivo',
+  'dataExport.importHint':
+    'Restaura un archivo en esta cuenta, siempre que aún no tenga publicaciones, comentarios, mensajes ni seguimientos. Tus seguidores no se restauran: pueden volver a seguirte.',
+  'dataExport.file': 'Archivo',
+  'dataExport.choose': 'Elegir archivo…',
+  'dataExport.importing': 'Importando…',
+  'dataExport.notArchive': 'Este fichero no es un archivo de cuenta.',
+  'dataExport.importError': 'No se pudo importar este archivo.',
+  'dataExport.profileError':
+    'Tus datos se importaron, pero no se pudo aplicar el perfil archivado. Puedes editarlo tú mismo.',
+  'dataExport.imported': 'Se importaron {counts}.',
+  'dataExport.skipped': 'Se omitieron {counts} que ya no existen o no se pueden restaurar.',
+  'dataExport.renamed':
+    '{count, plural, one {# registro recibió un ID nuevo porque el suyo estaba ocupado.} other {# registros recibieron un ID nuevo porque el suyo estaba ocupado.}}',
+  'dataExport.nothing': 'nada',
+  'dataExport.posts': '{count, plural, one {# publicación} other {# publicaciones}}',
+  'dataExport.comments': '{count, plural, one {# comentario} other {# comentarios}}',
+  'dataExport.conversations': '{count, plural, one {# conversación} other {# conversaciones}}',
+  'dataExport.messages': '{count, plural, one {# mensaje} other {# mensajes}}',
+  'dataExport.follows': '{count, plural, one {# seguimiento} other {# seguimientos}}',
+  'dataExport.files': '{count, plural, one {# fichero} other {# ficheros}}',
+  'deleteAccount.title': 'Eliminar cuenta',
+  'deleteAccount.hint':
+    'Se eliminan tus publicaciones, mensajes, seguimientos y archivos subidos. Los comentarios que otros respondieron quedan como «{deleted}».',
+  'deleteAccount.passwordRequired': 'La contraseña es obligatoria.',
+  'deleteAccount.confirm': '¿Eliminar @{username} y todo su contenido? No se puede deshacer.',
+  'deleteAccount.submit': 'Eliminar mi cuenta',
+  'deleteAccount.deleting': 'Eliminando…',
+
+  // Follow buttons, mutuals and follow suggestions; {count} is how many other mutuals
+  'follows.whoToFollow': 'A quién seguir',
+  'follows.someone': 'alguien',
+  'follows.mutualOne': 'Lo sigue {name}',
+  'follows.mutualTwo': 'Lo siguen {first} y {second}',
+  'follows.mutualMany':
+    '{count, plural, one {Lo siguen {name} y # persona más a la que sigues} other {Lo siguen {name} y # personas más a las que sigues}}',
+  'follows.alsoPostsAbout': 'También publica sobre {tags}',
+  'follow.follow': 'Seguir',
+  'follow.following': 'Siguiendo',
+  'follow.requested': 'Solicitado',
+  'follow.label':
+    '{state, select, none {Seguir a {name}} requested {Cancelar la solicitud para seguir a {name}} other {Dejar de seguir a {name}}}',
+  'follow.tagLabel': '{following, select, yes {Dejar de seguir {tag}} other {Seguir {tag}}}',
+  'follow.error': 'Algo salió mal.',
+
+  // Offline banner; {count} is how many changes wait in the outbox
+  'offline.status':
+    '{count, plural, =0 {No tienes conexión. Los cambios se enviarán cuando vuelvas a conectarte.} one {No tienes conexión. # cambio está pendiente y se enviará cuando vuelvas a conectarte.} other {No tienes conexión. # cambios están pendientes y se enviarán cuando vuelvas a conectarte.}}',
+  'offline.waiting': '{count, plural, one {# cambio pendiente} other {# cambios pendientes}}',
+  'offline.sending': '{count, plural, one {Enviando # cambio…} other {Enviando # cambios…}}',
+  'offline.sendNow': 'Enviar ahora',
+  'offline.conflict': '{action} no se pudo guardar: {error}',
+  'offline.dismiss': 'Descartar',
+  'offline.createPost': 'Tu publicación',
+  'offline.likePost': 'Tu me gusta',
+  'offline.unlikePost': 'Quitar tu me gusta',
+  'offline.addComment': 'Tu comentario',
+  'offline.likeComment': 'Tu me gusta en un comentario',
+  'offline.unlikeComment': 'Quitar tu me gusta de un comentario',
+
+  // Toasts: failures raised through the error channel (store/mutations.ts)
+  'toast.dismiss': 'Cerrar',
+  'toast.likeFailed': 'No se pudo dar me gusta a esta publicación.',
+  'toast.unlikeFailed': 'No se pudo quitar tu me gusta.',
+  'toast.followFailed': 'No se pudo seguir a esta cuenta.',
+  'toast.unfollowFailed': 'No se pudo dejar de seguir a esta cuenta.',
+  'toast.commentLikeFailed': 'No se pudo dar me gusta a este comentario.',
+}
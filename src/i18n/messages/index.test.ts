@@ -0,0 +1,239 @@
+/**
+ * ============================================================================
+ * STEP 2.24: Message Catalog Tests
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: Fail the build on a translation that does not parse or uses
+ *          other {placeholders} than English, and check that plurals pick
+ *          each language's own forms
+ * UPDATED: Feature Phase - Step 2.24 (field errors read the same in English
+ *          from the catalog as from the rules)
+ * UPDATED: Feature Phase - Step 2.24 (no copy written into components)
+ *
+ * LEARNING NOTES:
+ * - checkCatalogs only compares the catalogs with each other; a sentence
+ *   typed straight into a component is in none of them, so the last test
+ *   reads the sources (TypeScript's parser) and looks for one
+ */
+
+import ts from 'typescript'
+import { describe, expect, it } from 'vitest'
+import { translate, type MessageKey, type MessageValues } from '..'
+import { fieldErrorText } from '../../utils/fieldErrors'
+import {
+  validateBio,
+  validateChangePasswordForm,
+  validateCommentContent,
+  validateEmail,
+  validateGroupName,
+  validateGroupSize,
+  validateImageAlts,
+  validateLocation,
+  validateMediaFile,
+  validateMessageAttachments,
+  validateMessageContent,
+  validateMessageType,
+  validateModerationNote,
+  validateMutedKeywords,
+  validateName,
+  validatePassword,
+  validatePostAudience,
+  validatePostContent,
+  validatePostEditWindow,
+  validatePostImages,
+  validatePostTags,
+  validateRegisterForm,
+  validateReportDetails,
+  validateReportReason,
+  validateSuspensionDays,
+  validateUsername,
+  validateWebsite,
+  type FieldError,
+} from '../../validation'
+import { checkCatalogs } from '.'
+
+describe('message catalogs', () => {
+  it('translate every key, with the same placeholders as English', () => {
+    expect(checkCatalogs()).toEqual([])
+  })
+
+  it('pluralize counts with the rules of each language', () => {
+    expect(translate('en', 'tag.posts', { count: 1 })).toBe('1 post')
+    expect(translate('en', 'tag.posts', { count: 1200 })).toBe('1,200 posts')
+    expect(translate('es', 'tag.posts', { count: 2 })).toBe('2 publicaciones')
+    expect(translate('ar', 'tag.posts', { count: 2 })).toBe('منشوران')
+    expect(translate('ar', 'tag.posts', { count: 11 })).toBe(`${new Intl.NumberFormat('ar').format(11)} منشورًا`)
+  })
+})
+
+describe('field errors', () => {
+  const file = (type: string, megabytes: number) => ({ type, size: megabytes * 1024 * 1024 })
+  const errors = [
+    validateEmail(''),
+    validateEmail('alice@'),
+    validatePassword('short'),
+    validatePassword('longenough'),
+    validateUsername('al'),
+    validateUsername('alice smith'),
+    validateName('', 'firstName'),
+    validateName('x'.repeat(60), 'lastName'),
+    validatePostContent('', false),
+    validatePostContent('x'.repeat(600), false),
+    validatePostImages([file('image/png', 1), file('image/png', 1)], 3),
+    validatePostImages([file('image/bmp', 1)]),
+    validatePostImages([file('image/png', 6)]),
+    validateImageAlts(['x'.repeat(1100)], 1),
+    validateMediaFile(file('application/zip', 1), 'message'),
+    validateMediaFile(file('image/png', 11), 'message'),
+    validateMediaFile(file('image/png', 6), 'avatar'),
+    validateMessageAttachments(['a', 'b', 'c', 'd', 'e']),
+    validatePostTags(Array.from({ length: 11 }, (_, i) => `tag${i}`)),
+    validatePostAudience('friends', 0),
+    validatePostAudience('mentioned', 0),
+    validatePostEditWindow(new Date(0)),
+    validateCommentContent(' '),
+    validateMessageContent('', false),
+    validateMessageType('video'),
+    validateGroupName('x'.repeat(60)),
+    validateGroupSize(2),
+    validateGroupSize(60),
+    validateBio('x'.repeat(200)),
+    validateLocation('x'.repeat(60)),
+    validateWebsite('not a site'),
+    validateReportReason('boredom'),
+    validateReportDetails('', 'other'),
+    validateModerationNote('', true),
+    validateSuspensionDays(0),
+    validateMutedKeywords(['x'.repeat(60)]),
+    ...Object.values(
+      validateChangePasswordForm({ currentPassword: '', newPassword: 'longenough1', confirmPassword: 'other' }).errors,
+    ),
+    ...Object.values(
+      validateRegisterForm(
+        {
+          email: 'bob@example.com',
+          username: 'bob',
+          password: '',
+          confirmPassword: 'x',
+          firstName: 'Bob',
+          lastName: '',
+        },
+        { isUsernameTaken: () => true, isEmailTaken: () => true },
+      ).errors,
+    ),
+  ].filter((error): error is FieldError => error !== null && error !== undefined)
+
+  it('read in English from the catalog exactly as the rules wrote them', () => {
+    const t = (key: MessageKey, values?: MessageValues) => translate('en', key, values)
+    // The catalog formats limits as numbers, so 1000 reads 1,000 there
+    const ungrouped = (text: string) => text.replace(/(\d),(\d{3})/g, '$1$2')
+    for (const error of errors) expect(ungrouped(fieldErrorText(error, t))).toBe(error.message)
+  })
+
+  it('carry the params every locale needs', () => {
+    for (const error of errors) expect(error.params?.field).toBeDefined()
+  })
+})
+
+describe('hardcoded copy', () => {
+  /** Every source file of the app, keyed by its path from src/ */
+  const SOURCES = Object.entries(
+    import.meta.glob<string>(['../../**/*.{ts,tsx}', '!../../**/*.test.{ts,tsx}', '!../../test/**'], {
+      query: '?raw',
+      import: 'default',
+      eager: true,
+    }),
+  ).map(([path, text]) => ({ file: path.replace('../../', ''), text }))
+
+  /** Attributes people read or hear */
+  const TEXT_ATTRIBUTES = new Set(['aria-label', 'aria-description', 'alt', 'label', 'placeholder', 'title'])
+  /** Calls whose argument ends up on screen */
+  const TEXT_CALLS = /^(set\w*(Error|Status|Notice)|reportError|announce)$/
+  /** A word is two letters in a row, in any script */
+  const hasWords = (text: string) => /\p{L}{2,}/u.test(text)
+  /** A value such as 'idle' or 'read-all', passed where a sentence could be */
+  const isCode = (text: string) => /^[a-z][\w-]*$/.test(text)
+
+  /**
+   * ALLOWED - Text that is meant to stay as written, with why
+   */
+  const ALLOWED: { file: string; text?: string }[] = [
+    // Development only: App.tsx declares the route when import.meta.env.DEV is true
+    { file: 'pages/MailboxPage.tsx' },
+    // The start of every address, the same in every language
+    { file: 'components/profile/ProfileEditForm.tsx', text: 'https://' },
+  ]
+  const isAllowed = (file: string, copy: string) =>
+    ALLOWED.some((entry) => entry.file === file && (entry.text ?? copy) === copy)
+
+  /**
+   * hardcodedCopy - The literal text in `source` that reaches the screen
+   * without going through the catalogs, as "file:line: text"
+   */
+  function hardcodedCopy(file: string, text: string): string[] {
+    const source = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true)
+    const found: string[] = []
+    const report = (node: ts.Node, copy: string, codesAllowed = false) => {
+      copy = copy.trim()
+      if (!hasWords(copy) || (codesAllowed && isCode(copy)) || isAllowed(file, copy)) return
+      const { line } = source.getLineAndCharacterOfPosition(node.getStart())
+      found.push(`${file}:${line + 1}: ${copy}`)
+    }
+    // Literals an expression can evaluate to: 'x', `x ${y}`, a ? 'x' : 'y', a ?? 'x'
+    const literals = (node: ts.Expression, codesAllowed = false): void => {
+      const next = (expression: ts.Expression) => literals(expression, codesAllowed)
+      if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) report(node, node.text, codesAllowed)
+      else if (ts.isTemplateExpression(node))
+        report(node, [node.head.text, ...node.templateSpans.map((span) => span.literal.text)].join(' '))
+      else if (ts.isConditionalExpression(node)) [node.whenTrue, node.whenFalse].forEach(next)
+      else if (ts.isParenthesizedExpression(node)) next(node.expression)
+      else if (ts.isBinaryExpression(node)) {
+        const operator = node.operatorToken.kind
+        if (operator === ts.SyntaxKind.QuestionQuestionToken || operator === ts.SyntaxKind.BarBarToken) {
+          next(node.left)
+          next(node.right)
+        } else if (operator === ts.SyntaxKind.AmpersandAmpersandToken) next(node.right)
+      }
+    }
+    const visit = (node: ts.Node) => {
+      if (ts.isJsxText(node)) report(node, node.text)
+      else if (ts.isJsxExpression(node) && node.expression && !ts.isJsxAttribute(node.parent)) literals(node.expression)
+      else if (ts.isJsxAttribute(node) && TEXT_ATTRIBUTES.has(node.name.getText(source)) && node.initializer) {
+        if (ts.isStringLiteral(node.initializer)) report(node, node.initializer.text)
+        else if (ts.isJsxExpression(node.initializer) && node.initializer.expression)
+          literals(node.initializer.expression)
+      } else if (ts.isCallExpression(node) && TEXT_CALLS.test(node.expression.getText(source))) {
+        node.arguments.forEach((argument) => literals(argument, true))
+      } else if (
+        // `error: response.error ?? 'Could not load…'` in a hook's state
+        ts.isPropertyAssignment(node) &&
+        node.name.getText(source) === 'error' &&
+        !file.startsWith('services/')
+      ) {
+        literals(node.initializer, true)
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(source)
+    return found
+  }
+
+  it('finds none: words on screen come from the catalogs', () => {
+    expect(SOURCES.length).toBeGreaterThan(100)
+    expect(SOURCES.flatMap(({ file, text }) => hardcodedCopy(file, text))).toEqual([])
+  })
+
+  it('would find a sentence written into a component', () => {
+    const component = [
+      `const Empty = ({ busy }) => <p title="Nothing here">{busy ? t('feed.loading') : 'No posts yet.'}</p>`,
+      `setStatus('idle')`,
+      `setError(response.error ?? 'Could not load.')`,
+    ].join('\n')
+    expect(hardcodedCopy('components/Empty.tsx', component)).toEqual([
+      'components/Empty.tsx:1: Nothing here',
+      'components/Empty.tsx:1: No posts yet.',
+      'components/Empty.tsx:3: Could not load.',
+    ])
+  })
+})
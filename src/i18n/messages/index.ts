@@ -0,0 +1,64 @@
+/**
+ * ============================================================================
+ * STEP 2.24: Message Catalogs - Registry and Checks
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * UPDATED: Feature Phase - Step 2.24 (checkCatalogs runs as a test)
+ * PURPOSE: The catalog of every locale, and a check that each translation
+ *          matches the English source
+ *
+ * Two Layers of Checking:
+ * - The type-check: every catalog is a Catalog, so a missing or unknown
+ *   key fails `tsc -b` (and so the build and CI)
+ * - checkCatalogs(): what types cannot see - a message that does not
+ *   parse, or uses other {placeholders} than its English original.
+ *   ./index.test.ts fails on anything it finds, so `npm test` (and CI)
+ *   catches it
+ *
+ * LEARNING NOTES:
+ * - Catalogs are bundled, not fetched: three small objects cost less
+ *   than the request and the loading state a lazy catalog would need
+ */
+
+import type { Locale } from '../locales'
+import { MessageSyntaxError, messageArguments } from '../format'
+import { ar } from './ar'
+import { en, type Catalog, type MessageKey } from './en'
+import { es } from './es'
+
+export type { Catalog, MessageKey } from './en'
+
+/** Every catalog, by locale */
+export const CATALOGS: Record<Locale, Catalog> = { en, es, ar }
+
+/**
+ * checkCatalogs - Problems found in the translations, as readable lines
+ *
+ * @example checkCatalogs() // ["es 'feed.newPosts': uses {n}, English uses {count}"]
+ */
+export function checkCatalogs(): string[] {
+  const problems: string[] = []
+  const keys = Object.keys(en) as MessageKey[]
+
+  for (const [locale, catalog] of Object.entries(CATALOGS)) {
+    for (const key of keys) {
+      const message = catalog[key]
+      if (typeof message !== 'string' || !message.trim()) {
+        problems.push(`${locale} '${key}': missing translation`)
+        continue
+      }
+      try {
+        const used = messageArguments(message).join(', ')
+        const expected = messageArguments(en[key]).join(', ')
+        if (used !== expected) {
+          problems.push(`${locale} '${key}': uses {${used}}, English uses {${expected}}`)
+        }
+      } catch (error) {
+        if (!(error instanceof MessageSyntaxError)) throw error
+        problems.push(`${locale} '${key}': ${error.message}`)
+      }
+    }
+  }
+  return problems
+}
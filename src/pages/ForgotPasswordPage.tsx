@@ -0,0 +1,105 @@
+/**
+ * ============================================================================
+ * STEP 2.22: ForgotPasswordPage - Route Module for '/forgot-password'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Ask for a password reset link by email
+ *
+ * Behaviour:
+ * - The answer is the same whether or not an account uses the address,
+ *   so the form cannot be used to find out who has an account
+ * - The link works for one hour; asking again makes older links stop
+ *   working
+ */
+
+import { useState, type FormEvent } from 'react'
+import { Link } from 'react-router-dom'
+import TextField from '../components/common/TextField'
+import { useAuth } from '../hooks/useAuth'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+import { ValidationError, validateEmail, type FieldError } from '../validation'
+
+/**
+ * ForgotPasswordPage Component
+ */
+function ForgotPasswordPage() {
+  const { requestPasswordReset } = useAuth()
+  const { t, tRich } = useI18n()
+  const [email, setEmail] = useState('')
+  const [emailError, setEmailError] = useState<FieldError | undefined>()
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const invalid = validateEmail(email)
+    if (invalid) {
+      setEmailError(invalid)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await requestPasswordReset(email)
+      setSentTo(email.trim())
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setEmailError((err.errors as { email?: FieldError }).email)
+      } else {
+        setError((err as Error).message)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <section className="page auth-page" aria-labelledby="forgot-heading">
+      <h1 id="forgot-heading" className="page__title">
+        {t('forgotPassword.title')}
+      </h1>
+
+      {sentTo ? (
+        <p className="auth-page__notice" role="status">
+          {t('forgotPassword.sent', { email: sentTo })}
+        </p>
+      ) : (
+        <form className="auth-form" onSubmit={handleSubmit} noValidate>
+          <TextField
+            label={t('fields.email')}
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(event) => {
+              setEmail(event.target.value)
+              setEmailError(undefined)
+            }}
+            onBlur={() => setEmailError(validateEmail(email) ?? undefined)}
+            error={emailError}
+          />
+
+          {error && (
+            <p className="auth-form__error" role="alert">
+              {error}
+            </p>
+          )}
+
+          <button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? t('forgotPassword.sending') : t('forgotPassword.submit')}
+          </button>
+        </form>
+      )}
+
+      <p className="auth-page__switch">
+        {tRich('forgotPassword.remembered', { link: <Link to={ROUTES.login}>{t('forgotPassword.logIn')}</Link> })}
+      </p>
+    </section>
+  )
+}
+
+export default ForgotPasswordPage
@@ -0,0 +1,97 @@
+/**
+ * ============================================================================
+ * STEP 2.1: HomePage - Route Module for '/'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.3 (post composer)
+ * UPDATED: Feature Phase - Step 2.4 (posts come from the data services)
+ * UPDATED: Feature Phase - Step 2.5 (paged feed, Latest/Top, new-posts banner)
+ * UPDATED: Feature Phase - Step 2.12 (who-to-follow suggestions)
+ * UPDATED: Feature Phase - Step 2.18 (deleting posts from the feed)
+ * UPDATED: Feature Phase - Step 2.19 (trending hashtags, followed hashtags)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Home timeline: posts from followed accounts and hashtags, plus
+ *          your own
+ *
+ * React Router Concepts Demonstrated:
+ * - useSearchParams: the feed ordering lives in the URL (?feed=top), so it
+ *   survives reloads and the back button restores it
+ *
+ * LEARNING NOTES:
+ * - Pages are default exports so App.tsx can load them with React.lazy()
+ * - unwrap() turns a failed ApiResponse into a thrown error; a
+ *   ValidationError reaches PostComposer, which maps it onto its fields
+ * - A freshly created post is prepended locally; it is the viewer's own, so
+ *   it never counts toward the "new posts" banner
+ */
+
+import { useSearchParams } from 'react-router-dom'
+import Feed from '../components/feed/Feed'
+import FeedModeTabs from '../components/feed/FeedModeTabs'
+import NewPostsBanner from '../components/feed/NewPostsBanner'
+import PostComposer from '../components/posts/PostComposer'
+import TrendingTags from '../components/tags/TrendingTags'
+import WhoToFollow from '../components/users/WhoToFollow'
+import { useFeed } from '../hooks/useFeed'
+import { useI18n } from '../hooks/useI18n'
+import { api } from '../services'
+import { unwrap } from '../services/api'
+import type { FeedMode, PostForm } from '../types'
+
+/**
+ * parseFeedMode - Reads ?feed=, falling back to 'latest' for anything else
+ */
+function parseFeedMode(value: string | null): FeedMode {
+  return value === 'top' ? 'top' : 'latest'
+}
+
+/**
+ * HomePage Component - The home feed
+ */
+function HomePage() {
+  const { t } = useI18n()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const mode = parseFeedMode(searchParams.get('feed'))
+  const feed = useFeed(mode)
+
+  const handleModeChange = (next: FeedMode) => {
+    setSearchParams(next === 'latest' ? {} : { feed: next })
+  }
+
+  const handleShowNewPosts = () => {
+    feed.showNewPosts()
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const handleCreatePost = async (form: PostForm) => {
+    const post = unwrap(await api.posts.createPost(form))
+    feed.prependPost(post)
+  }
+
+  return (
+    <section className="page" aria-labelledby="home-heading">
+      <h1 id="home-heading" className="page__title">
+        {t('home.title')}
+      </h1>
+      <PostComposer onSubmit={handleCreatePost} />
+      <WhoToFollow />
+      <TrendingTags />
+      <FeedModeTabs mode={mode} onChange={handleModeChange} />
+      <NewPostsBanner count={feed.newPostsCount} onShow={handleShowNewPosts} />
+      <Feed
+        posts={feed.posts}
+        hasMore={feed.hasMore}
+        isLoading={feed.isLoading}
+        error={feed.error}
+        emptyMessage={t('home.empty')}
+        onLoadMore={feed.loadMore}
+        onRetry={feed.retry}
+        onPostChange={feed.replacePost}
+        onPostRemove={feed.removePost}
+      />
+    </section>
+  )
+}
+
+export default HomePage
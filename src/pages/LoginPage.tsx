@@ -0,0 +1,129 @@
+/**
+ * ============================================================================
+ * STEP 2.2: LoginPage - Route Module for '/login'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.3 (field-level validation)
+ * UPDATED: Feature Phase - Step 2.22 (forgot password link)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Email + password sign-in form
+ *
+ * React Concepts Demonstrated:
+ * - Controlled inputs: value + onChange keep React state as the source of truth
+ * - Form submission: onSubmit with event.preventDefault() (no page reload)
+ * - Async handlers: awaiting login() and showing a pending state
+ * - Validation: validateLoginForm runs on blur and before submitting
+ *
+ * LEARNING NOTES:
+ * - There is no navigate() call after a successful login: this page sits
+ *   behind GuestRoute, which redirects as soon as isAuthenticated flips
+ * - Link state is forwarded to /register so the original destination
+ *   survives switching between the two forms
+ */
+
+import { useState, type FormEvent } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import TextField from '../components/common/TextField'
+import { useAuth } from '../hooks/useAuth'
+import { useFormValidation } from '../hooks/useFormValidation'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+import { ValidationError, validateLoginForm, type FieldErrors } from '../validation'
+import type { LoginForm } from '../types'
+
+/**
+ * LoginPage Component - Sign-in form
+ */
+function LoginPage() {
+  const { login, error } = useAuth()
+  const { t, tRich } = useI18n()
+  const location = useLocation()
+  const [form, setForm] = useState<LoginForm>({ email: '', password: '' })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const validation = useFormValidation(form, validateLoginForm)
+
+  /**
+   * updateField - Stores the new value and drops any stale server error
+   */
+  const updateField = (field: keyof LoginForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+    validation.clearServerError(field)
+  }
+
+  /**
+   * handleSubmit - Validates, then calls login()
+   *
+   * General failures (wrong password) are shown through useAuth().error;
+   * a ValidationError is mapped onto the matching fields.
+   */
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    setIsSubmitting(true)
+    try {
+      await login(form.email, form.password)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        validation.setServerErrors(err.errors as FieldErrors<LoginForm>)
+      }
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <section className="page auth-page" aria-labelledby="login-heading">
+      <h1 id="login-heading" className="page__title">
+        {t('login.title')}
+      </h1>
+
+      <form className="auth-form" onSubmit={handleSubmit} noValidate>
+        <TextField
+          label={t('fields.email')}
+          type="email"
+          autoComplete="email"
+          value={form.email}
+          onChange={(e) => updateField('email', e.target.value)}
+          onBlur={() => validation.handleBlur('email')}
+          error={validation.errors.email}
+        />
+
+        <TextField
+          label={t('fields.password')}
+          type="password"
+          autoComplete="current-password"
+          value={form.password}
+          onChange={(e) => updateField('password', e.target.value)}
+          onBlur={() => validation.handleBlur('password')}
+          error={validation.errors.password}
+        />
+        <Link className="auth-form__aside" to={ROUTES.forgotPassword}>
+          {t('login.forgot')}
+        </Link>
+
+        {error && (
+          <p className="auth-form__error" role="alert">
+            {error}
+          </p>
+        )}
+
+        <button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? t('login.submitting') : t('login.submit')}
+        </button>
+      </form>
+
+      <p className="auth-page__switch">
+        {tRich('login.switch', {
+          link: (
+            <Link to={ROUTES.register} state={location.state}>
+              {t('login.switchLink')}
+            </Link>
+          ),
+        })}
+      </p>
+    </section>
+  )
+}
+
+export default LoginPage
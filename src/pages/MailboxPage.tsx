@@ -0,0 +1,97 @@
+/**
+ * ============================================================================
+ * STEP 2.22: MailboxPage - Route Module for '/dev/mail' (Development Only)
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps)
+ * PURPOSE: Read the mail the app "sent" through the capture transport, so
+ *          verification and reset links can be followed without a real
+ *          inbox
+ *
+ * Behaviour:
+ * - Newest first; updates as mail arrives, from this tab or another one
+ * - Links to this app open in place; others are plain text
+ *
+ * LEARNING NOTES:
+ * - App.tsx only declares this route when import.meta.env.DEV is true, so
+ *   production builds never show it
+ */
+
+import { Fragment, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { mailTransport } from '../services'
+import RelativeTime from '../components/common/RelativeTime'
+
+/** Splits mail text around URLs (the capturing group keeps them) */
+const URL_PATTERN = /(https?:\/\/\S+)/
+
+/**
+ * MailText - Mail body with links to this app made clickable
+ */
+function MailText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(URL_PATTERN).map((part, index) => {
+        if (index % 2 === 0) return <Fragment key={index}>{part}</Fragment>
+        const url = new URL(part)
+        return url.origin === window.location.origin ? (
+          <Link key={index} to={`${url.pathname}${url.search}`}>
+            {part}
+          </Link>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      })}
+    </>
+  )
+}
+
+/**
+ * MailboxPage Component
+ */
+function MailboxPage() {
+  const [messages, setMessages] = useState(() => mailTransport.list())
+
+  useEffect(() => mailTransport.subscribe(() => setMessages(mailTransport.list())), [])
+
+  return (
+    <section className="page mailbox-page" aria-labelledby="mailbox-heading">
+      <h1 id="mailbox-heading" className="page__title">
+        Dev mailbox
+      </h1>
+      <p className="mailbox-page__hint">
+        Mail is not delivered in development; everything the app sends is kept here.{' '}
+        {messages.length > 0 && (
+          <button type="button" onClick={mailTransport.clear}>
+            Clear
+          </button>
+        )}
+      </p>
+
+      {messages.length === 0 ? (
+        <p className="mailbox-page__empty">No mail yet.</p>
+      ) : (
+        <ul className="mailbox-page__list">
+          {messages.map((message) => (
+            <li key={message.id} className="mailbox-page__item">
+              <article aria-labelledby={`${message.id}-subject`}>
+                <h2 id={`${message.id}-subject`} className="mailbox-page__subject">
+                  {message.subject}
+                </h2>
+                <p className="mailbox-page__meta">
+                  To {message.to} · <RelativeTime date={message.createdAt} absolute />
+                </p>
+                <p className="mailbox-page__body">
+                  <MailText text={message.text} />
+                </p>
+              </article>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default MailboxPage
@@ -0,0 +1,92 @@
+/**
+ * ============================================================================
+ * STEP 2.1: MessagesPage - Route Module for '/messages' and
+ *           '/messages/:conversationId'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.8 (real-time inbox and chat view)
+ * UPDATED: Feature Phase - Step 2.9 (New group form)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Conversation list plus the currently open chat
+ *
+ * React Router Concepts Demonstrated:
+ * - One component serving two routes: with and without a conversation ID
+ * - Optional params: conversationId is undefined on plain '/messages'
+ *
+ * Layout:
+ * - Two panes side by side; on small screens only one is shown (the list
+ *   on '/messages', the chat when a conversation is open)
+ *
+ * LEARNING NOTES:
+ * - ChatView gets key={conversationId} so its draft and scroll state start
+ *   fresh for each conversation
+ */
+
+import { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import clsx from 'clsx'
+import ChatView from '../components/messages/ChatView'
+import ConversationList from '../components/messages/ConversationList'
+import NewGroupForm from '../components/messages/NewGroupForm'
+import { useChat } from '../hooks/useChat'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+
+/**
+ * MessagesPage Component - Inbox with an optional open conversation
+ */
+function MessagesPage() {
+  const { conversationId } = useParams<{ conversationId?: string }>()
+  const { conversations, isSynced, error } = useChat()
+  const { t, tRich } = useI18n()
+  const conversation = conversations.find((c) => c.id === conversationId)
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false)
+
+  return (
+    <section
+      className={clsx('page', 'messages-page', conversationId && 'messages-page--open')}
+      aria-labelledby="messages-heading"
+    >
+      <h1 id="messages-heading" className="page__title">
+        {t('messages.title')}
+      </h1>
+      {error && (
+        <p className="auth-form__field-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="messages-page__panes">
+        <nav className="messages-page__list" aria-label={t('messages.conversations')}>
+          {isCreatingGroup ? (
+            <NewGroupForm onCancel={() => setIsCreatingGroup(false)} />
+          ) : (
+            <>
+              <button type="button" className="messages-page__new-group" onClick={() => setIsCreatingGroup(true)}>
+                {t('messages.newGroup')}
+              </button>
+              <ConversationList />
+            </>
+          )}
+        </nav>
+
+        <div className="messages-page__chat">
+          {conversation ? (
+            <ChatView key={conversation.id} conversation={conversation} />
+          ) : conversationId && isSynced ? (
+            <p className="page__placeholder">
+              {tRich('messages.notFound', { link: <Link to={ROUTES.messages}>{t('messages.back')}</Link> })}
+            </p>
+          ) : conversationId ? (
+            <p className="page__placeholder">{t('messages.loading')}</p>
+          ) : (
+            <p className="page__placeholder">{t('messages.pick')}</p>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default MessagesPage
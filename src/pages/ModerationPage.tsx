@@ -0,0 +1,215 @@
+/**
+ * ============================================================================
+ * STEP 2.15: ModerationPage - Route Module for '/moderation'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * UPDATED: Feature Phase - Step 2.24 (live, localized timestamps, translated
+ *          audit log lines)
+ * UPDATED: Feature Phase - Step 2.24 (everything else translated)
+ * PURPOSE: The moderators' desk: open reports and the audit trail
+ *
+ * Layout:
+ * - "Queue": one QueueItem per reported thing, most reported first
+ * - "Audit log": every action taken, newest first, paged
+ *
+ * LEARNING NOTES:
+ * - Hiding the page from non-moderators is a courtesy; the server refuses
+ *   every /moderation request from them anyway
+ * - A resolved item is dropped locally instead of reloading the queue, so
+ *   the moderator keeps their scroll position
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import clsx from 'clsx'
+import PageLoader from '../components/common/PageLoader'
+import RelativeTime from '../components/common/RelativeTime'
+import QueueItem from '../components/moderation/QueueItem'
+import { useAuth } from '../hooks/useAuth'
+import { useI18n } from '../hooks/useI18n'
+import { useUsersById } from '../hooks/useUsersById'
+import type { MessageKey } from '../i18n'
+import { api } from '../services'
+import type { ModerationAction, ModerationQueueItem } from '../types'
+import { describeModerationAction } from '../utils/moderation'
+
+const AUDIT_PAGE_SIZE = 20
+
+type Tab = 'queue' | 'audit'
+
+const TAB_LABELS: Record<Tab, MessageKey> = { queue: 'moderationPage.queue', audit: 'moderationPage.audit' }
+const TABS = Object.keys(TAB_LABELS) as Tab[]
+
+/**
+ * ReviewQueue - The open reports
+ */
+function ReviewQueue() {
+  const { t } = useI18n()
+  const [items, setItems] = useState<ModerationQueueItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const users = useUsersById(items.map((item) => item.snapshot.authorId))
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    const response = await api.moderation.getQueue()
+    setIsLoading(false)
+    if (response.success && response.data) {
+      setItems(response.data)
+    } else {
+      setError(response.error ?? t('moderationPage.queueError'))
+    }
+  }, [t])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const handleResolved = (targetId: string) => {
+    setItems((prev) => prev.filter((item) => item.targetId !== targetId))
+  }
+
+  return (
+    <>
+      {items.length === 0 && !isLoading && !error && (
+        <p className="page__placeholder">{t('moderationPage.noReports')}</p>
+      )}
+
+      <ol className="moderation-page__queue" aria-busy={isLoading}>
+        {items.map((item) => (
+          <li key={`${item.targetType}:${item.targetId}`}>
+            <QueueItem item={item} author={users[item.snapshot.authorId]} onResolved={handleResolved} />
+          </li>
+        ))}
+      </ol>
+
+      {isLoading && <PageLoader label={t('moderationPage.loadingReports')} />}
+
+      {error && (
+        <div className="feed__error" role="alert">
+          <p className="auth-form__error">{error}</p>
+          <button type="button" onClick={() => void load()}>
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+    </>
+  )
+}
+
+/**
+ * AuditLog - Every moderation action, newest first
+ */
+function AuditLog() {
+  const { locale, t } = useI18n()
+  const [actions, setActions] = useState<ModerationAction[]>([])
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const users = useUsersById(actions.flatMap((action) => [action.moderatorId, action.subjectUserId]))
+
+  const fetchPage = useCallback(
+    async (next: number) => {
+      setIsLoading(true)
+      setError(null)
+      const response = await api.moderation.listActions({ page: next, limit: AUDIT_PAGE_SIZE })
+      setIsLoading(false)
+      if (!response.success || !response.data) {
+        setError(response.error ?? t('moderationPage.auditError'))
+        return
+      }
+      const { data, pagination } = response.data
+      setActions((prev) => (next === 1 ? data : [...prev, ...data]))
+      setPage(pagination.page)
+      setHasMore(pagination.page < pagination.totalPages)
+    },
+    [t],
+  )
+
+  useEffect(() => {
+    void fetchPage(1)
+  }, [fetchPage])
+
+  return (
+    <>
+      {actions.length === 0 && !isLoading && !error && (
+        <p className="page__placeholder">{t('moderationPage.noActions')}</p>
+      )}
+
+      <ol className="moderation-page__audit" aria-busy={isLoading}>
+        {actions.map((action) => (
+          <li key={action.id} className="audit-entry">
+            <span className="audit-entry__text">{describeModerationAction(action, users, t, locale)}</span>
+            <RelativeTime className="audit-entry__time" date={action.createdAt} />
+            {action.note && <p className="audit-entry__note">{action.note}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {isLoading && <PageLoader label={t('moderationPage.loadingAudit')} />}
+
+      {error && (
+        <div className="feed__error" role="alert">
+          <p className="auth-form__error">{error}</p>
+          <button type="button" onClick={() => void fetchPage(page + 1)}>
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {hasMore && !isLoading && !error && (
+        <button type="button" className="feed__more" onClick={() => void fetchPage(page + 1)}>
+          {t('common.loadMore')}
+        </button>
+      )}
+    </>
+  )
+}
+
+/**
+ * ModerationPage Component
+ */
+function ModerationPage() {
+  const { user } = useAuth()
+  const { t } = useI18n()
+  const [tab, setTab] = useState<Tab>('queue')
+
+  if (user?.role !== 'moderator') {
+    return (
+      <section className="page moderation-page" aria-labelledby="moderation-heading">
+        <h1 id="moderation-heading" className="page__title">
+          {t('moderationPage.title')}
+        </h1>
+        <p className="page__placeholder">{t('moderationPage.moderatorsOnly')}</p>
+      </section>
+    )
+  }
+
+  return (
+    <section className="page moderation-page" aria-labelledby="moderation-heading">
+      <h1 id="moderation-heading" className="page__title">
+        {t('moderationPage.title')}
+      </h1>
+
+      <div className="feed-tabs" role="group" aria-label={t('common.show')}>
+        {TABS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            className={clsx('feed-tabs__tab', option === tab && 'feed-tabs__tab--active')}
+            aria-pressed={option === tab}
+            onClick={() => setTab(option)}
+          >
+            {t(TAB_LABELS[option])}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'queue' ? <ReviewQueue /> : <AuditLog />}
+    </section>
+  )
+}
+
+export default ModerationPage
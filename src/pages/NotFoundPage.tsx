@@ -0,0 +1,37 @@
+/**
+ * ============================================================================
+ * STEP 2.1: NotFoundPage - Catch-All 404 Route
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Rendered for any URL that no other route matches
+ *
+ * React Router Concepts Demonstrated:
+ * - path="*": The splat route matches anything left over
+ * - useLocation(): Shows the user which URL could not be found
+ */
+
+import { Link, useLocation } from 'react-router-dom'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+
+/**
+ * NotFoundPage Component - Friendly 404 with a way back home
+ */
+function NotFoundPage() {
+  const location = useLocation()
+  const { t, tRich } = useI18n()
+
+  return (
+    <section className="page page--centered" aria-labelledby="not-found-heading">
+      <h1 id="not-found-heading" className="page__title">
+        {t('notFound.title')}
+      </h1>
+      <p className="page__placeholder">{tRich('notFound.path', { path: <code>{location.pathname}</code> })}</p>
+      <Link to={ROUTES.home}>{t('notFound.home')}</Link>
+    </section>
+  )
+}
+
+export default NotFoundPage
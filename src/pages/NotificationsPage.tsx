@@ -0,0 +1,96 @@
+/**
+ * ============================================================================
+ * STEP 2.1: NotificationsPage - Route Module for '/notifications'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.10 (notification center)
+ * UPDATED: Feature Phase - Step 2.20 (unread count from the global store)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Likes, comments, follows, mentions and messages aimed at the user
+ *
+ * Layout:
+ * - Header with the unread count and "Mark all as read"
+ * - Grouped rows (utils/notifications.ts), newest first, paged like the feed
+ * - "Notification settings" (collapsed): which types to receive
+ *
+ * LEARNING NOTES:
+ * - State lives in NotificationsProvider, not here: the nav badge needs the
+ *   same data on every page, and live notifications keep arriving while
+ *   this page is closed
+ */
+
+import { useMemo } from 'react'
+import NotificationItem from '../components/notifications/NotificationItem'
+import NotificationPreferencesForm from '../components/notifications/NotificationPreferencesForm'
+import PageLoader from '../components/common/PageLoader'
+import { useUnreadCounts } from '../hooks/useAppStore'
+import { useI18n } from '../hooks/useI18n'
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll'
+import { useNotifications } from '../hooks/useNotifications'
+import { useUsersById } from '../hooks/useUsersById'
+import { groupNotifications } from '../utils/notifications'
+
+/**
+ * NotificationsPage Component - The notification center
+ */
+function NotificationsPage() {
+  const { t } = useI18n()
+  const { notifications, hasMore, isLoading, error, loadMore, refresh, markRead, markAllRead } = useNotifications()
+  const unreadCount = useUnreadCounts().notifications
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications])
+  const users = useUsersById(groups.flatMap((group) => group.actorIds))
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !isLoading && !error)
+
+  return (
+    <section className="page notifications-page" aria-labelledby="notifications-heading">
+      <header className="notifications-page__header">
+        <h1 id="notifications-heading" className="page__title">
+          {t('notifications.title')}
+        </h1>
+        <p className="notifications-page__summary" role="status">
+          {t('notifications.summary', { count: unreadCount })}
+        </p>
+        <button type="button" onClick={markAllRead} disabled={unreadCount === 0}>
+          {t('notifications.markAllRead')}
+        </button>
+      </header>
+
+      {groups.length === 0 && !isLoading && !error && (
+        <p className="page__placeholder">{t('notifications.caughtUp')}</p>
+      )}
+
+      <ol className="notifications-page__list" aria-busy={isLoading}>
+        {groups.map((group) => (
+          <NotificationItem key={group.key} group={group} users={users} onMarkRead={markRead} />
+        ))}
+      </ol>
+
+      {isLoading && <PageLoader label={t('notifications.loading')} />}
+
+      {error && (
+        <div className="feed__error" role="alert">
+          <p className="auth-form__error">{error}</p>
+          <button type="button" onClick={refresh}>
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {hasMore && !isLoading && !error && (
+        <button type="button" className="feed__more" onClick={loadMore}>
+          {t('common.loadMore')}
+        </button>
+      )}
+      <div ref={sentinelRef} className="feed__sentinel" aria-hidden="true" />
+
+      <details className="notifications-page__settings">
+        <summary>{t('notifications.settings')}</summary>
+        <NotificationPreferencesForm />
+      </details>
+    </section>
+  )
+}
+
+export default NotificationsPage
@@ -0,0 +1,109 @@
+/**
+ * ============================================================================
+ * STEP 2.1: PostPage - Route Module for '/post/:id'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.7 (post + threaded comments)
+ * UPDATED: Feature Phase - Step 2.18 (reposts and quotes, deleting)
+ * UPDATED: Feature Phase - Step 2.20 (the post is stored in the global store)
+ * UPDATED: Feature Phase - Step 2.21 (live likes and comments)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: A single post with its comment thread
+ *
+ * React Router Concepts Demonstrated:
+ * - useParams(): The ':id' segment identifies which post to show
+ * - useSearchParams(): '?thread=<commentId>' focuses one reply branch
+ *   ("Continue this thread" links)
+ *
+ * LEARNING NOTES:
+ * - `key={id}` on the thread resets its state when navigating from one post
+ *   straight to another
+ * - A repost's page is about its original: the comments and shares shown
+ *   are the original's (a repost has none of its own)
+ * - Deleting the post from its own page goes back to the home feed
+ * - The post (and the one it shares) is watched while the page is open,
+ *   so new likes and comments arrive live
+ */
+
+import { useEffect, useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import CommentThread from '../components/comments/CommentThread'
+import PageLoader from '../components/common/PageLoader'
+import PostCard from '../components/posts/PostCard'
+import PostShares from '../components/posts/PostShares'
+import { useI18n } from '../hooks/useI18n'
+import { useWatchPosts } from '../hooks/useLiveUpdates'
+import { useUsersById } from '../hooks/useUsersById'
+import { ROUTES } from '../routes/paths'
+import { api } from '../services'
+import { receivePosts } from '../store'
+import type { Post } from '../types'
+import { postAuthorIds, sharedPostOf, shownPostIds } from '../utils/posts'
+
+/**
+ * PostPage Component - Shows one post by ID
+ */
+function PostPage() {
+  const { t } = useI18n()
+  const { id = '' } = useParams<{ id: string }>()
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const [result, setResult] = useState<{ id: string; post: Post | null; error: string | null } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    api.posts.getPost(id).then((response) => {
+      if (cancelled) return
+      if (response.data) receivePosts([response.data])
+      setResult({
+        id,
+        post: response.data ?? null,
+        error: response.success ? null : (response.error ?? t('postPage.notFound')),
+      })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [id, t])
+
+  // Ignore a result that belongs to the previous :id while the next loads
+  const current = result?.id === id ? result : null
+  const post = current?.post ?? null
+  const authors = useUsersById(post ? postAuthorIds([post]) : [])
+  useWatchPosts(post ? shownPostIds([post]) : [])
+  const shared = post ? sharedPostOf(post) : undefined
+  // What the thread and share list are about: a repost's original
+  const subject = post?.repostOf ? shared : (post ?? undefined)
+
+  return (
+    <section className="page" aria-labelledby="post-heading">
+      <h1 id="post-heading" className="page__title">
+        {t('postPage.title')}
+      </h1>
+      {!current && <PageLoader label={t('postPage.loading')} />}
+      {current?.error && (
+        <p className="auth-form__error" role="alert">
+          {current.error}
+        </p>
+      )}
+      {post && (
+        <>
+          <PostCard
+            post={post}
+            author={authors[post.authorId]}
+            sharedAuthor={shared && authors[shared.authorId]}
+            onChange={(updated) => setResult({ id, post: updated, error: null })}
+            onRemove={() => navigate(ROUTES.home, { replace: true })}
+          />
+          {subject && subject.shares > 0 && <PostShares key={`${subject.id}:${subject.shares}`} postId={subject.id} />}
+          {subject && (
+            <CommentThread key={subject.id} postId={subject.id} focusCommentId={searchParams.get('thread')} />
+          )}
+        </>
+      )}
+    </section>
+  )
+}
+
+export default PostPage
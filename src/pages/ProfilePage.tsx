@@ -0,0 +1,162 @@
+/**
+ * ============================================================================
+ * STEP 2.1: ProfilePage - Route Module for '/u/:username'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.13 (profile header, posts/likes tabs, editing)
+ * UPDATED: Feature Phase - Step 2.14 (private and blocked profiles)
+ * UPDATED: Feature Phase - Step 2.18 (reposts in the Posts tab, deleting posts)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: A user's public profile page
+ *
+ * Layout:
+ * - ProfileHeader (cover, avatar, bio, stats, follow / edit button)
+ * - Posts / Likes tabs, each an infinite-scrolling <Feed>
+ * - On the viewer's own profile, "Edit profile" swaps the header for
+ *   ProfileEditForm
+ * - A private account the viewer does not follow, or a user the viewer
+ *   blocked, shows the header and a short explanation instead of the tabs
+ *
+ * React Router Concepts Demonstrated:
+ * - useParams(): Reads dynamic URL segments (':username' here)
+ * - Params are typed as string | undefined because the hook cannot know
+ *   which route rendered the component
+ * - The active tab lives in the URL (?tab=likes), so it survives a reload
+ * - Changing your username REPLACES the URL with the new one: the old
+ *   address no longer exists, so going "back" to it would be a dead end
+ */
+
+import { useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import clsx from 'clsx'
+import PageLoader from '../components/common/PageLoader'
+import Feed from '../components/feed/Feed'
+import ProfileEditForm from '../components/profile/ProfileEditForm'
+import ProfileHeader from '../components/profile/ProfileHeader'
+import { useI18n } from '../hooks/useI18n'
+import { usePostList } from '../hooks/usePostList'
+import { useProfile } from '../hooks/useProfile'
+import type { MessageKey } from '../i18n'
+import { profilePath } from '../routes/paths'
+import { profileVisibility } from '../utils/privacy'
+
+type ProfileTab = 'posts' | 'likes'
+
+const PROFILE_TABS: { tab: ProfileTab; label: MessageKey }[] = [
+  { tab: 'posts', label: 'profile.posts' },
+  { tab: 'likes', label: 'profile.likes' },
+]
+
+/**
+ * parseProfileTab - Reads ?tab=, falling back to 'posts' for anything else
+ */
+function parseProfileTab(value: string | null): ProfileTab {
+  return value === 'likes' ? 'likes' : 'posts'
+}
+
+/**
+ * ProfilePage Component - Shows the profile for the username in the URL
+ */
+function ProfilePage() {
+  const { t } = useI18n()
+  const { username } = useParams<{ username: string }>()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const tab = parseProfileTab(searchParams.get('tab'))
+  const [isEditing, setIsEditing] = useState(false)
+  const profile = useProfile(username)
+  const userId = profile.user?.id ?? ''
+  const visibility = profile.user ? profileVisibility(profile.user, profile.status, profile.isOwnProfile) : 'visible'
+  const list = usePostList(
+    tab === 'likes' ? { likedBy: userId } : { authorId: userId },
+    Boolean(userId) && visibility === 'visible',
+  )
+
+  if (profile.isLoading) return <PageLoader />
+
+  if (!profile.user) {
+    return (
+      <section className="page" aria-labelledby="profile-heading">
+        <h1 id="profile-heading" className="page__title">
+          @{username}
+        </h1>
+        {profile.notFound ? (
+          <p className="page__placeholder">{t('profile.notFound')}</p>
+        ) : (
+          <p className="feed__error" role="alert">
+            {profile.error}{' '}
+            <button type="button" onClick={profile.retry}>
+              {t('common.retry')}
+            </button>
+          </p>
+        )}
+      </section>
+    )
+  }
+
+  const { user } = profile
+
+  const handleEditDone = (newUsername?: string) => {
+    setIsEditing(false)
+    if (newUsername && newUsername !== username) {
+      navigate(profilePath(newUsername), { replace: true })
+    }
+  }
+
+  return (
+    <section className="page" aria-labelledby={isEditing ? 'profile-edit-heading' : 'profile-heading'}>
+      {isEditing && profile.isOwnProfile ? (
+        <ProfileEditForm user={user} onDone={handleEditDone} />
+      ) : (
+        <ProfileHeader
+          user={user}
+          status={profile.status}
+          postCount={profile.postCount}
+          isOwnProfile={profile.isOwnProfile}
+          onEdit={() => setIsEditing(true)}
+          onStatusChange={profile.setStatus}
+        />
+      )}
+
+      {visibility === 'private' && (
+        <p className="page__placeholder">{t('profile.private', { username: user.username })}</p>
+      )}
+      {visibility === 'blocked' && (
+        <p className="page__placeholder">{t('profile.blocked', { username: user.username })}</p>
+      )}
+
+      {visibility === 'visible' && (
+        <>
+          <div className="feed-tabs" role="group" aria-label={t('common.show')}>
+            {PROFILE_TABS.map((item) => (
+              <button
+                key={item.tab}
+                type="button"
+                className={clsx('feed-tabs__tab', item.tab === tab && 'feed-tabs__tab--active')}
+                aria-pressed={item.tab === tab}
+                onClick={() => setSearchParams(item.tab === 'posts' ? {} : { tab: item.tab })}
+              >
+                {t(item.label)}
+              </button>
+            ))}
+          </div>
+
+          <Feed
+            posts={list.posts}
+            hasMore={list.hasMore}
+            isLoading={list.isLoading}
+            error={list.error}
+            emptyMessage={t(tab === 'likes' ? 'profile.noLikes' : 'profile.noPosts', { username: user.username })}
+            onLoadMore={list.loadMore}
+            onRetry={list.retry}
+            onPostChange={list.replacePost}
+            onPostRemove={list.removePost}
+          />
+        </>
+      )}
+    </section>
+  )
+}
+
+export default ProfilePage
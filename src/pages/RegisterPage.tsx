@@ -0,0 +1,145 @@
+/**
+ * ============================================================================
+ * STEP 2.2: RegisterPage - Route Module for '/register'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.3 (field-level validation)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Account creation form backed by RegisterForm
+ *
+ * React Concepts Demonstrated:
+ * - One state object for the whole form, typed by the RegisterForm interface
+ * - A field helper: fieldProps('email') returns value/onChange/onBlur/error
+ *   for that field, so six inputs share one function
+ *
+ * Validation Flow:
+ * - Format rules (username characters, password strength, matching
+ *   confirmPassword) run in the browser as the user fills the form
+ * - Uniqueness (username/email taken) can only be checked by the backend;
+ *   it answers with a ValidationError whose errors land on the same fields
+ *
+ * LEARNING NOTES:
+ * - keyof RegisterForm means TypeScript rejects typos like fieldProps('emial')
+ */
+
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import TextField from '../components/common/TextField'
+import { useAuth } from '../hooks/useAuth'
+import { useFormValidation } from '../hooks/useFormValidation'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+import { ValidationError, validateRegisterForm, type FieldErrors } from '../validation'
+import type { RegisterForm } from '../types'
+
+/**
+ * EMPTY_FORM - Initial RegisterForm values
+ */
+const EMPTY_FORM: RegisterForm = {
+  username: '',
+  email: '',
+  password: '',
+  confirmPassword: '',
+  firstName: '',
+  lastName: '',
+}
+
+/**
+ * validateForm - Client-side check (no uniqueness lookups in the browser)
+ *
+ * Declared at module level so its identity is stable between renders.
+ */
+const validateForm = (form: RegisterForm) => validateRegisterForm(form)
+
+/**
+ * RegisterPage Component - Sign-up form
+ */
+function RegisterPage() {
+  const { register, error } = useAuth()
+  const { t, tRich } = useI18n()
+  const location = useLocation()
+  const [form, setForm] = useState<RegisterForm>(EMPTY_FORM)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const validation = useFormValidation(form, validateForm)
+
+  /**
+   * fieldProps - Wires one RegisterForm field to its input
+   */
+  const fieldProps = (field: keyof RegisterForm) => ({
+    value: form[field],
+    onChange: (event: ChangeEvent<HTMLInputElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }))
+      validation.clearServerError(field)
+    },
+    onBlur: () => validation.handleBlur(field),
+    error: validation.errors[field],
+  })
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!validation.validateAll()) return
+
+    setIsSubmitting(true)
+    try {
+      await register(form)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        validation.setServerErrors(err.errors as FieldErrors<RegisterForm>)
+      }
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <section className="page auth-page" aria-labelledby="register-heading">
+      <h1 id="register-heading" className="page__title">
+        {t('register.title')}
+      </h1>
+
+      <form className="auth-form" onSubmit={handleSubmit} noValidate>
+        <div className="auth-form__row">
+          <TextField label={t('fields.firstName')} autoComplete="given-name" {...fieldProps('firstName')} />
+          <TextField label={t('fields.lastName')} autoComplete="family-name" {...fieldProps('lastName')} />
+        </div>
+
+        <TextField label={t('fields.username')} autoComplete="username" {...fieldProps('username')} />
+        <TextField label={t('fields.email')} type="email" autoComplete="email" {...fieldProps('email')} />
+        <TextField
+          label={t('fields.password')}
+          type="password"
+          autoComplete="new-password"
+          {...fieldProps('password')}
+        />
+        <TextField
+          label={t('fields.confirmPassword')}
+          type="password"
+          autoComplete="new-password"
+          {...fieldProps('confirmPassword')}
+        />
+
+        {error && (
+          <p className="auth-form__error" role="alert">
+            {error}
+          </p>
+        )}
+
+        <button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? t('register.submitting') : t('register.submit')}
+        </button>
+      </form>
+
+      <p className="auth-page__switch">
+        {tRich('register.switch', {
+          link: (
+            <Link to={ROUTES.login} state={location.state}>
+              {t('register.switchLink')}
+            </Link>
+          ),
+        })}
+      </p>
+    </section>
+  )
+}
+
+export default RegisterPage
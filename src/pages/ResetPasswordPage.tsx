@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * STEP 2.22: ResetPasswordPage - Route Module for '/reset-password'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Choose a new password from the link in a reset email
+ *
+ * Behaviour:
+ * - The token comes from ?token=; without one the page only explains
+ * - Success signs out every session, this browser's too, and then offers
+ *   the login page
+ * - An unknown, used or expired link shows the backend's message and a
+ *   way to ask for a new one
+ *
+ * LEARNING NOTES:
+ * - Not behind GuestRoute: the link may be opened in a browser that is
+ *   still signed in
+ */
+
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import TextField from '../components/common/TextField'
+import { useAuth } from '../hooks/useAuth'
+import { useFormValidation } from '../hooks/useFormValidation'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+import type { PasswordResetForm } from '../types'
+import { ValidationError, validatePasswordResetForm, type FieldErrors } from '../validation'
+
+/**
+ * ResetPasswordPage Component
+ */
+function ResetPasswordPage() {
+  const { resetPassword } = useAuth()
+  const { t } = useI18n()
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [form, setForm] = useState<PasswordResetForm>({ password: '', confirmPassword: '' })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const validation = useFormValidation(form, validatePasswordResetForm)
+
+  const fieldProps = (field: keyof PasswordResetForm) => ({
+    value: form[field],
+    onChange: (event: ChangeEvent<HTMLInputElement>) => {
+      setForm((prev) => ({ ...prev, [field]: event.target.value }))
+      validation.clearServerError(field)
+    },
+    onBlur: () => validation.handleBlur(field),
+    error: validation.errors[field],
+  })
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!token || !validation.validateAll()) return
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await resetPassword(token, form)
+      setIsDone(true)
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        validation.setServerErrors(err.errors as FieldErrors<PasswordResetForm>)
+      } else {
+        setError((err as Error).message)
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <section className="page auth-page" aria-labelledby="reset-heading">
+      <h1 id="reset-heading" className="page__title">
+        {t('resetPassword.title')}
+      </h1>
+
+      {!token ? (
+        <p className="auth-page__notice">
+          {t('resetPassword.noToken')} <Link to={ROUTES.forgotPassword}>{t('resetPassword.askForLink')}</Link>
+        </p>
+      ) : isDone ? (
+        <p className="auth-page__notice" role="status">
+          {t('resetPassword.done')} <Link to={ROUTES.login}>{t('resetPassword.logIn')}</Link>
+        </p>
+      ) : (
+        <form className="auth-form" onSubmit={handleSubmit} noValidate>
+          <TextField
+            label={t('resetPassword.password')}
+            type="password"
+            autoComplete="new-password"
+            {...fieldProps('password')}
+          />
+          <TextField
+            label={t('resetPassword.confirmPassword')}
+            type="password"
+            autoComplete="new-password"
+            {...fieldProps('confirmPassword')}
+          />
+
+          {error && (
+            <p className="auth-form__error" role="alert">
+              {error} <Link to={ROUTES.forgotPassword}>{t('resetPassword.askForNewLink')}</Link>
+            </p>
+          )}
+
+          <button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? t('common.saving') : t('resetPassword.submit')}
+          </button>
+        </form>
+      )}
+    </section>
+  )
+}
+
+export default ResetPasswordPage
@@ -0,0 +1,231 @@
+/**
+ * ============================================================================
+ * STEP 2.1: SearchPage - Route Module for '/search'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * UPDATED: Feature Phase - Step 2.11 (search with filters, sorting and paging)
+ * UPDATED: Feature Phase - Step 2.18 (quoted posts' authors, deleting posts)
+ * UPDATED: Feature Phase - Step 2.19 (hashtags open their tag page)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Search users, posts and hashtags
+ *
+ * Layout:
+ * - Search box (searches as you type, after a short pause)
+ * - People / Posts / All tabs and a sort order
+ * - Matching hashtags, then the results, loaded page by page on scroll
+ *
+ * React Router Concepts Demonstrated:
+ * - useSearchParams(): query, type and sort live in the URL
+ *   (utils/search.ts), so a search can be shared, bookmarked or restored
+ *   with the back button
+ * - Typing REPLACES the history entry (no entry per keystroke); pressing
+ *   Enter or changing a filter PUSHES one
+ *
+ * LEARNING NOTES:
+ * - The input keeps its own draft so typing stays instant; the URL (and so
+ *   the search) follows SEARCH_DELAY_MS after the last keystroke
+ * - When the URL changes from outside (back button, a search link), the
+ *   draft is reset to it during render, React's recommended alternative to
+ *   syncing state in an effect
+ */
+
+import { useEffect, useState, type FormEvent } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import clsx from 'clsx'
+import PageLoader from '../components/common/PageLoader'
+import PostCard from '../components/posts/PostCard'
+import UserResult from '../components/search/UserResult'
+import { useI18n } from '../hooks/useI18n'
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll'
+import { useSearch } from '../hooks/useSearch'
+import { useUsersById } from '../hooks/useUsersById'
+import { tagPath } from '../routes/paths'
+import { api } from '../services'
+import type { HashtagSummary, SearchFilters } from '../types'
+import { postAuthorIds, sharedPostOf } from '../utils/posts'
+import {
+  SEARCH_SORT_LABELS,
+  SEARCH_TYPE_LABELS,
+  parseSearchFilters,
+  resultKey,
+  searchParamsFor,
+  tokenize,
+} from '../utils/search'
+
+const SEARCH_DELAY_MS = 300
+const TAG_SUGGESTIONS = 5
+
+const TYPES = Object.keys(SEARCH_TYPE_LABELS) as SearchFilters['type'][]
+const SORTS = Object.keys(SEARCH_SORT_LABELS) as SearchFilters['sortBy'][]
+
+/**
+ * SearchPage Component - Search box and results
+ */
+function SearchPage() {
+  const { t, formatNumber } = useI18n()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = parseSearchFilters(searchParams)
+  const { query, type, sortBy } = filters
+  const search = useSearch(filters)
+
+  // Draft follows the URL when the URL changes from elsewhere
+  const [draft, setDraft] = useState(query)
+  const [urlQuery, setUrlQuery] = useState(query)
+  if (query !== urlQuery) {
+    setUrlQuery(query)
+    setDraft(query)
+  }
+
+  // Debounced: the URL catches up with the draft once typing pauses
+  useEffect(() => {
+    if (draft === query) return
+    const timer = setTimeout(() => {
+      setSearchParams(searchParamsFor({ query: draft, type, sortBy }), { replace: true })
+    }, SEARCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [draft, query, type, sortBy, setSearchParams])
+
+  // Hashtags starting with a one-word query ("#rea" or "rea")
+  const [tags, setTags] = useState<HashtagSummary[]>([])
+  const words = tokenize(query)
+  const tagPrefix = words.length === 1 && type !== 'users' ? words[0].replace(/^#/, '') : ''
+  useEffect(() => {
+    if (!tagPrefix) return
+    let cancelled = false
+    api.tags.suggestTags(tagPrefix, TAG_SUGGESTIONS).then((response) => {
+      if (!cancelled) setTags(response.success && response.data ? response.data : [])
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [tagPrefix])
+
+  const authors = useUsersById(
+    postAuthorIds(search.results.flatMap((result) => (result.kind === 'post' ? [result.post] : []))),
+  )
+  const canLoadMore = search.hasMore && !search.isLoading && !search.error
+  const sentinelRef = useInfiniteScroll(search.loadMore, canLoadMore)
+
+  const update = (changes: Partial<SearchFilters>) => {
+    setSearchParams(searchParamsFor({ ...filters, query: draft, ...changes }))
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    update({})
+  }
+
+  const hasQuery = query.trim() !== ''
+  const shownTags = tagPrefix ? tags : []
+
+  return (
+    <section className="page search-page" aria-labelledby="search-heading">
+      <h1 id="search-heading" className="page__title">
+        {t('search.title')}
+      </h1>
+
+      <form className="search-page__form" role="search" onSubmit={handleSubmit}>
+        <label htmlFor="search-input" className="visually-hidden">
+          {t('search.label')}
+        </label>
+        <input
+          id="search-input"
+          className="search-page__input"
+          type="search"
+          value={draft}
+          placeholder={t('search.placeholder')}
+          autoComplete="off"
+          onChange={(event) => setDraft(event.target.value)}
+        />
+        <button type="submit">{t('search.submit')}</button>
+      </form>
+
+      <div className="search-page__filters">
+        <div className="feed-tabs" role="group" aria-label={t('common.show')}>
+          {TYPES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={clsx('feed-tabs__tab', option === type && 'feed-tabs__tab--active')}
+              aria-pressed={option === type}
+              onClick={() => update({ type: option })}
+            >
+              {t(SEARCH_TYPE_LABELS[option])}
+            </button>
+          ))}
+        </div>
+        <label className="search-page__sort">
+          {t('search.sortBy')}{' '}
+          <select value={sortBy} onChange={(event) => update({ sortBy: event.target.value as SearchFilters['sortBy'] })}>
+            {SORTS.map((option) => (
+              <option key={option} value={option}>
+                {t(SEARCH_SORT_LABELS[option])}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!hasQuery && <p className="page__placeholder">{t('search.prompt')}</p>}
+
+      {shownTags.length > 0 && (
+        <ul className="search-page__tags" aria-label={t('search.hashtags')}>
+          {shownTags.map(({ tag, postCount }) => (
+            <li key={tag}>
+              <Link className="search-page__tag" to={tagPath(tag)}>
+                #{tag} <span className="search-page__tag-count">{formatNumber(postCount)}</span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasQuery && (
+        <p className="search-page__summary" role="status">
+          {search.isLoading && search.results.length === 0
+            ? t('search.searching')
+            : t('search.summary', { count: search.total, query: query.trim() })}
+        </p>
+      )}
+
+      <ol className="search-page__results" aria-busy={search.isLoading}>
+        {search.results.map((result) => (
+          <li key={resultKey(result)}>
+            {result.kind === 'user' ? (
+              <UserResult user={result.user} matches={result.matches} />
+            ) : (
+              <PostCard
+                post={result.post}
+                author={authors[result.post.authorId]}
+                sharedAuthor={authors[sharedPostOf(result.post)?.authorId ?? '']}
+                onChange={search.replacePost}
+                onRemove={search.removePost}
+              />
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {search.isLoading && <PageLoader label={t('search.searching')} />}
+
+      {search.error && (
+        <div className="feed__error" role="alert">
+          <p className="auth-form__error">{search.error}</p>
+          <button type="button" onClick={search.retry}>
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {canLoadMore && (
+        <button type="button" className="feed__more" onClick={search.loadMore}>
+          {t('common.loadMore')}
+        </button>
+      )}
+      <div ref={sentinelRef} className="feed__sentinel" aria-hidden="true" />
+    </section>
+  )
+}
+
+export default SearchPage
@@ -0,0 +1,103 @@
+/**
+ * ============================================================================
+ * STEP 2.14: SettingsPage - Route Module for '/settings'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.14 (Privacy model)
+ * UPDATED: Feature Phase - Step 2.15 (muted words)
+ * UPDATED: Feature Phase - Step 2.19 (followed hashtags)
+ * UPDATED: Feature Phase - Step 2.22 (email, password, sessions, account deletion)
+ * UPDATED: Feature Phase - Step 2.23 (data export and import)
+ * UPDATED: Feature Phase - Step 2.24 (language, translated)
+ * PURPOSE: Account, privacy and feed controls for the signed-in user
+ *
+ * Layout:
+ * - Interface language, first (LanguageSection)
+ * - Email address and password (EmailSettingsForm, PasswordSettingsForm)
+ * - Signed-in browsers and devices (SessionsSection)
+ * - Private account switch (PrivacySettingsForm)
+ * - Follow requests: Approve / Decline
+ * - Blocked accounts: Unblock
+ * - Muted accounts: Unmute
+ * - Muted words: add and remove (MutedKeywordsForm)
+ * - Followed hashtags: Unfollow (FollowedTagsSection)
+ * - Download or import an account archive (DataExportSection)
+ * - Delete account, last (DeleteAccountSection)
+ *
+ * LEARNING NOTES:
+ * - Making the account public approves every pending request on the
+ *   server, so the requests list is remounted (a new `key`) to reload it
+ * - The service methods are passed as they are: they do not use `this`
+ */
+
+import { useState } from 'react'
+import DataExportSection from '../components/settings/DataExportSection'
+import DeleteAccountSection from '../components/settings/DeleteAccountSection'
+import EmailSettingsForm from '../components/settings/EmailSettingsForm'
+import FollowedTagsSection from '../components/settings/FollowedTagsSection'
+import LanguageSection from '../components/settings/LanguageSection'
+import MutedKeywordsForm from '../components/settings/MutedKeywordsForm'
+import PasswordSettingsForm from '../components/settings/PasswordSettingsForm'
+import PrivacySettingsForm from '../components/settings/PrivacySettingsForm'
+import SessionsSection from '../components/settings/SessionsSection'
+import UserListSection, { type UserListAction } from '../components/settings/UserListSection'
+import { useI18n } from '../hooks/useI18n'
+import { api } from '../services'
+
+const REQUEST_ACTIONS: UserListAction[] = [
+  { label: 'userList.approve', run: api.users.approveFollowRequest },
+  { label: 'userList.decline', run: api.users.declineFollowRequest },
+]
+const BLOCKED_ACTIONS: UserListAction[] = [{ label: 'userList.unblock', run: api.users.unblockUser }]
+const MUTED_ACTIONS: UserListAction[] = [{ label: 'userList.unmute', run: api.users.unmuteUser }]
+
+/**
+ * SettingsPage Component
+ */
+function SettingsPage() {
+  const { t } = useI18n()
+  const [requestsKey, setRequestsKey] = useState(0)
+
+  return (
+    <section className="page settings-page" aria-labelledby="settings-heading">
+      <h1 id="settings-heading" className="page__title">
+        {t('settings.title')}
+      </h1>
+
+      <LanguageSection />
+      <EmailSettingsForm />
+      <PasswordSettingsForm />
+      <SessionsSection />
+      <PrivacySettingsForm onChange={() => setRequestsKey((key) => key + 1)} />
+
+      <UserListSection
+        key={requestsKey}
+        id="follow-requests"
+        title={t('userList.requests')}
+        emptyMessage={t('userList.requestsEmpty')}
+        load={api.users.listFollowRequests}
+        actions={REQUEST_ACTIONS}
+      />
+      <UserListSection
+        id="blocked-accounts"
+        title={t('userList.blocked')}
+        emptyMessage={t('userList.blockedEmpty')}
+        load={api.users.listBlockedUsers}
+        actions={BLOCKED_ACTIONS}
+      />
+      <UserListSection
+        id="muted-accounts"
+        title={t('userList.muted')}
+        emptyMessage={t('userList.mutedEmpty')}
+        load={api.users.listMutedUsers}
+        actions={MUTED_ACTIONS}
+      />
+      <MutedKeywordsForm />
+      <FollowedTagsSection />
+      <DataExportSection />
+      <DeleteAccountSection />
+    </section>
+  )
+}
+
+export default SettingsPage
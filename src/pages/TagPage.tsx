@@ -0,0 +1,102 @@
+/**
+ * ============================================================================
+ * STEP 2.19: TagPage - Route Module for '/tag/:name'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.19 (Hashtag pages)
+ * UPDATED: Feature Phase - Step 2.24 (translated, pluralized counts)
+ * PURPOSE: Every post with one hashtag, newest first, and a button to
+ *          follow the tag
+ *
+ * Layout:
+ * - Header: #tag, how many posts and followers, Follow / Following
+ * - An infinite-scrolling <Feed> of the tag's posts
+ *
+ * One Address per Tag:
+ * - /tag/React and /tag/react are the same tag; any spelling other than
+ *   the normalized one REPLACES itself with it, so history, bookmarks and
+ *   shared links all end up at one URL
+ * - Something that can never be a hashtag ("/tag/!!") gets a short
+ *   explanation instead of an empty page
+ *
+ * LEARNING NOTES:
+ * - The posts are GET /posts?tag=..., the same paged list profiles use
+ *   (usePostList); the header is GET /tags/:tag
+ * - Counts in the header only include posts the viewer may see, so they
+ *   match the list below
+ */
+
+import { useEffect, useState } from 'react'
+import { Navigate, useParams } from 'react-router-dom'
+import Feed from '../components/feed/Feed'
+import TagFollowButton from '../components/tags/TagFollowButton'
+import { useI18n } from '../hooks/useI18n'
+import { usePostList } from '../hooks/usePostList'
+import { tagPath } from '../routes/paths'
+import { api } from '../services'
+import type { HashtagDetails } from '../types'
+import { isValidTag, normalizeTag } from '../utils/textEntities'
+
+/**
+ * TagPage Component - Posts for the hashtag in the URL
+ */
+function TagPage() {
+  const { t } = useI18n()
+  const { name = '' } = useParams<{ name: string }>()
+  const tag = normalizeTag(name)
+  const isValid = isValidTag(tag)
+  const isCanonical = name === tag
+  const list = usePostList({ tag }, isValid && isCanonical)
+  const [details, setDetails] = useState<HashtagDetails | null>(null)
+
+  useEffect(() => {
+    if (!isValid || !isCanonical) return
+    let cancelled = false
+    api.tags.getTag(tag).then((response) => {
+      if (!cancelled && response.success && response.data) setDetails(response.data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [tag, isValid, isCanonical])
+
+  if (isValid && !isCanonical) return <Navigate to={tagPath(tag)} replace />
+
+  const shown = details?.tag === tag ? details : null
+
+  return (
+    <section className="page" aria-labelledby="tag-heading">
+      <header className="tag-header">
+        <div className="tag-header__body">
+          <h1 id="tag-heading" className="page__title">
+            #{isValid ? tag : name}
+          </h1>
+          {shown && (
+            <p className="tag-header__stats">
+              {t('tag.posts', { count: shown.postCount })} · {t('tag.followers', { count: shown.followerCount })}
+            </p>
+          )}
+        </div>
+        {shown && <TagFollowButton key={tag} tag={tag} isFollowing={shown.isFollowing} onChange={setDetails} />}
+      </header>
+
+      {isValid ? (
+        <Feed
+          posts={list.posts}
+          hasMore={list.hasMore}
+          isLoading={list.isLoading}
+          error={list.error}
+          emptyMessage={t('tag.empty', { tag })}
+          onLoadMore={list.loadMore}
+          onRetry={list.retry}
+          onPostChange={list.replacePost}
+          onPostRemove={list.removePost}
+        />
+      ) : (
+        <p className="page__placeholder">{t('tag.invalid')}</p>
+      )}
+    </section>
+  )
+}
+
+export default TagPage
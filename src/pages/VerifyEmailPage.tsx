@@ -0,0 +1,87 @@
+/**
+ * ============================================================================
+ * STEP 2.22: VerifyEmailPage - Route Module for '/verify-email'
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * UPDATED: Feature Phase - Step 2.24 (translated)
+ * PURPOSE: Confirm an email address from the link in a verification email
+ *
+ * Behaviour:
+ * - The token comes from ?token=; the address is confirmed when the
+ *   button is pressed, not when the page opens
+ * - The same page finishes an email change: the account moves to the
+ *   address the link was sent to
+ *
+ * LEARNING NOTES:
+ * - Why a button: some mail scanners open every link in a message to
+ *   check it. A link that acts on its own would be "used" before the
+ *   person ever saw it
+ * - Not behind any guard: the link works signed in, signed out, or in a
+ *   different browser
+ */
+
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
+import { useI18n } from '../hooks/useI18n'
+import { ROUTES } from '../routes/paths'
+
+/**
+ * VerifyEmailPage Component
+ */
+function VerifyEmailPage() {
+  const { isAuthenticated, verifyEmail } = useAuth()
+  const { t } = useI18n()
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [status, setStatus] = useState<'idle' | 'verifying' | 'done'>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleVerify = async () => {
+    if (!token) return
+    setStatus('verifying')
+    setError(null)
+    try {
+      await verifyEmail(token)
+      setStatus('done')
+    } catch (err) {
+      setError((err as Error).message)
+      setStatus('idle')
+    }
+  }
+
+  return (
+    <section className="page auth-page" aria-labelledby="verify-heading">
+      <h1 id="verify-heading" className="page__title">
+        {t('verifyEmail.title')}
+      </h1>
+
+      {!token ? (
+        <p className="auth-page__notice">{t('verifyEmail.noToken')}</p>
+      ) : status === 'done' ? (
+        <p className="auth-page__notice" role="status">
+          {t('verifyEmail.done')}{' '}
+          {isAuthenticated ? (
+            <Link to={ROUTES.home}>{t('verifyEmail.toFeed')}</Link>
+          ) : (
+            <Link to={ROUTES.login}>{t('verifyEmail.logIn')}</Link>
+          )}
+        </p>
+      ) : (
+        <div className="auth-form">
+          <button type="button" onClick={handleVerify} disabled={status === 'verifying'}>
+            {status === 'verifying' ? t('verifyEmail.confirming') : t('verifyEmail.submit')}
+          </button>
+          {error && (
+            <p className="auth-form__error" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default VerifyEmailPage
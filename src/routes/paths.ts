@@ -0,0 +1,177 @@
+/**
+ * ============================================================================
+ * STEP 2.1: Route Paths - Single Source of Truth for URLs
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.1 (App shell & routing)
+ * PURPOSE: Keep every route pattern and link builder in one place
+ *
+ * This file demonstrates:
+ *
+ * 1. ROUTE PATTERNS:
+ *    - Dynamic segments (':username', ':id') matched by React Router
+ *    - Patterns are used when declaring <Route path="..." />
+ *
+ * 2. PATH BUILDERS:
+ *    - Small functions that turn IDs into real URLs
+ *    - encodeURIComponent keeps odd characters from breaking the URL
+ *
+ * 3. 'as const':
+ *    - Makes the object deeply readonly with literal types
+ *    - ROUTES.home has the type '/' instead of just string
+ *
+ * LEARNING NOTES:
+ * - Components should link with the builders, never with hand-written strings
+ * - Renaming a URL then only needs a change in this file
+ * - Redirect helpers (Step 2.2) remember where a guarded visit started
+ * - This is a .ts file (not .tsx) so React Fast Refresh stays happy: component
+ *   files should only export components
+ */
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+import type { Location } from 'react-router-dom'
+
+// ============================================================================
+// ROUTE PATTERNS
+// ============================================================================
+
+/**
+ * ROUTES - Route patterns used by the router in App.tsx
+ *
+ * Dynamic segments start with ':' and are read in pages with useParams().
+ */
+export const ROUTES = {
+  home: '/',
+  profile: '/u/:username',
+  post: '/post/:id',
+  messages: '/messages',
+  conversation: '/messages/:conversationId',
+  notifications: '/notifications',
+  search: '/search',
+  tag: '/tag/:name',
+  settings: '/settings',
+  moderation: '/moderation',
+  login: '/login',
+  register: '/register',
+  verifyEmail: '/verify-email',
+  forgotPassword: '/forgot-password',
+  resetPassword: '/reset-password',
+  mailbox: '/dev/mail',
+} as const
+
+// ============================================================================
+// PATH BUILDERS
+// ============================================================================
+
+/**
+ * profilePath - Builds the URL of a user's profile page
+ *
+ * @example profilePath('jane') // '/u/jane'
+ */
+export function profilePath(username: string): string {
+  return `/u/${encodeURIComponent(username)}`
+}
+
+/**
+ * postPath - Builds the URL of a single post page
+ *
+ * @example postPath('post-1') // '/post/post-1'
+ */
+export function postPath(postId: string): string {
+  return `/post/${encodeURIComponent(postId)}`
+}
+
+/**
+ * commentThreadPath - A post page focused on one comment's replies
+ *
+ * CREATED: Step 2.7 - Target of "Continue this thread" links
+ *
+ * @example commentThreadPath('post-1', 'comment-9') // '/post/post-1?thread=comment-9'
+ */
+export function commentThreadPath(postId: string, commentId: string): string {
+  return `${postPath(postId)}?${new URLSearchParams({ thread: commentId })}`
+}
+
+/**
+ * conversationPath - Builds the URL of a chat conversation
+ *
+ * @example conversationPath('conv-1') // '/messages/conv-1'
+ */
+export function conversationPath(conversationId: string): string {
+  return `/messages/${encodeURIComponent(conversationId)}`
+}
+
+/**
+ * searchPath - Builds a search URL for a query
+ *
+ * CREATED: Step 2.6 - Hashtags in posts link to a search for the tag
+ *
+ * @example searchPath('#react') // '/search?q=%23react'
+ */
+export function searchPath(query: string): string {
+  return `/search?${new URLSearchParams({ q: query })}`
+}
+
+/**
+ * tagPath - Builds the URL of a hashtag page
+ *
+ * CREATED: Step 2.19 - Hashtags in posts link here instead of to a search
+ *
+ * @example tagPath('#react') // '/tag/react'
+ */
+export function tagPath(tag: string): string {
+  return `/tag/${encodeURIComponent(tag.replace(/^#/, ''))}`
+}
+
+/**
+ * verifyEmailPath - The link in a verification email
+ *
+ * CREATED: Step 2.22 - Account lifecycle
+ *
+ * @example verifyEmailPath('abc') // '/verify-email?token=abc'
+ */
+export function verifyEmailPath(token: string): string {
+  return `${ROUTES.verifyEmail}?${new URLSearchParams({ token })}`
+}
+
+/**
+ * resetPasswordPath - The link in a password reset email
+ *
+ * CREATED: Step 2.22 - Account lifecycle
+ *
+ * @example resetPasswordPath('abc') // '/reset-password?token=abc'
+ */
+export function resetPasswordPath(token: string): string {
+  return `${ROUTES.resetPassword}?${new URLSearchParams({ token })}`
+}
+
+// ============================================================================
+// AUTH REDIRECTS
+// ============================================================================
+
+/**
+ * RedirectState - location.state passed to /login by ProtectedRoute
+ *
+ * CREATED: Step 2.2 - Authentication
+ * - from: The location the visitor tried to open before being redirected
+ */
+export interface RedirectState {
+  from: Location
+}
+
+/**
+ * redirectTarget - Where to go after a successful login or registration
+ *
+ * location.state is typed as unknown (anything can be pushed into history),
+ * so we check its shape before trusting it.
+ */
+export function redirectTarget(state: unknown): string {
+  const from = (state as Partial<RedirectState> | null)?.from
+  if (from && typeof from.pathname === 'string') {
+    return `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`
+  }
+  return ROUTES.home
+}
@@ -0,0 +1,70 @@
+/**
+ * ============================================================================
+ * STEP 2.4: ApiClient - Small Helper Over a Transport
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.17 (put, for upload chunks)
+ * PURPOSE: Attach the session token and never let a request throw
+ *
+ * Guarantees Given to Services:
+ * - Every call resolves with an ApiResponse<T>; a transport that rejects
+ *   (offline, DNS failure, server down) becomes errorCode 'NETWORK'
+ * - The current token is read per request, so logging in or out takes
+ *   effect immediately without rebuilding the client
+ *
+ * @example
+ * const client = createApiClient(transport, { getToken: readSessionToken })
+ * const res = await client.get<Post>('/posts/post-1')
+ */
+
+import type { ApiResponse } from '../../types'
+import type { ApiRequest, HttpMethod, QueryParams, Transport } from './transport'
+
+/**
+ * ApiClientOptions
+ * - getToken: Returns the session token to send (or null when signed out)
+ */
+export interface ApiClientOptions {
+  getToken?: () => string | null
+}
+
+/**
+ * ApiClient - Verb helpers used by every service
+ */
+export interface ApiClient {
+  get<T>(path: string, query?: QueryParams): Promise<ApiResponse<T>>
+  post<T>(path: string, body?: unknown): Promise<ApiResponse<T>>
+  patch<T>(path: string, body?: unknown): Promise<ApiResponse<T>>
+  put<T>(path: string, body: unknown, query?: QueryParams): Promise<ApiResponse<T>>
+  delete<T>(path: string): Promise<ApiResponse<T>>
+}
+
+/**
+ * createApiClient - Builds an ApiClient on top of a Transport
+ */
+export function createApiClient(transport: Transport, options: ApiClientOptions = {}): ApiClient {
+  const send = async <T>(
+    method: HttpMethod,
+    path: string,
+    extra: Pick<ApiRequest, 'query' | 'body'> = {},
+  ): Promise<ApiResponse<T>> => {
+    try {
+      return await transport.request<T>({ method, path, ...extra, token: options.getToken?.() ?? null })
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Network request failed.',
+        errorCode: 'NETWORK',
+      }
+    }
+  }
+
+  return {
+    get: (path, query) => send('GET', path, { query }),
+    post: (path, body) => send('POST', path, { body }),
+    patch: (path, body) => send('PATCH', path, { body }),
+    put: (path, body, query) => send('PUT', path, { body, query }),
+    delete: (path) => send('DELETE', path),
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * ============================================================================
+ * STEP 2.4: ApiError - One Error Taxonomy for Every Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * PURPOSE: Convert between thrown errors and ApiResponse failure envelopes
+ *
+ * Two Ways to Report Failure:
+ * - Backends (mock or real) THROW ApiError while handling a request
+ * - Services RETURN ApiResponse { success: false, error, errorCode }
+ * - toErrorResponse() turns the first into the second, and unwrap() does
+ *   the reverse for callers that prefer try/catch
+ *
+ * LEARNING NOTES:
+ * - Components branch on `errorCode` (e.g. NOT_FOUND → show a 404 view),
+ *   never on the human-readable `error` text
+ */
+
+import type { ApiErrorCode, ApiResponse } from '../../types'
+import { ValidationError, type FieldErrors } from '../../validation'
+
+// ============================================================================
+// ERROR CLASS
+// ============================================================================
+
+/**
+ * ApiError - A failure with a category and optional per-field details
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode
+  readonly fieldErrors?: ApiResponse<never>['fieldErrors']
+
+  constructor(code: ApiErrorCode, message: string, fieldErrors?: ApiResponse<never>['fieldErrors']) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.fieldErrors = fieldErrors
+  }
+}
+
+// ============================================================================
+// CONVERSIONS
+// ============================================================================
+
+/**
+ * toErrorResponse - Converts anything thrown into a failure envelope
+ *
+ * - ApiError keeps its code
+ * - ValidationError (from the validation layer) becomes VALIDATION
+ * - Anything else is an unexpected bug → INTERNAL
+ */
+export function toErrorResponse<T>(error: unknown): ApiResponse<T> {
+  if (error instanceof ApiError) {
+    return { success: false, error: error.message, errorCode: error.code, fieldErrors: error.fieldErrors }
+  }
+  if (error instanceof ValidationError) {
+    return {
+      success: false,
+      error: error.message,
+      errorCode: 'VALIDATION',
+      fieldErrors: error.errors as ApiResponse<T>['fieldErrors'],
+    }
+  }
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Unexpected error.',
+    errorCode: 'INTERNAL',
+  }
+}
+
+/**
+ * unwrap - Returns `data` from a successful response or throws
+ *
+ * A VALIDATION failure is re-thrown as ValidationError so forms built on
+ * useFormValidation can map it straight onto their fields.
+ *
+ * @example const post = unwrap(await api.posts.getPost(id))
+ */
+export function unwrap<T>(response: ApiResponse<T>): T {
+  if (response.success) {
+    return response.data as T
+  }
+  if (response.errorCode === 'VALIDATION' && response.fieldErrors) {
+    throw new ValidationError(response.fieldErrors as FieldErrors<Record<string, unknown>>, response.error)
+  }
+  throw new ApiError(response.errorCode ?? 'INTERNAL', response.error ?? 'Request failed.', response.fieldErrors)
+}
@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * STEP 2.4: HTTP Transport - Real Server Implementation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.17 (binary bodies for upload chunks)
+ * PURPOSE: Send ApiRequests to a REST server with fetch()
+ *
+ * Conventions Expected from the Server:
+ * - JSON bodies in, ApiResponse<T> JSON out (for errors as well)
+ * - A Blob body (an upload chunk) is sent as raw application/octet-stream
+ * - 'Authorization: Bearer <token>' identifies the user
+ *
+ * LEARNING NOTES:
+ * - response.json() would leave dates as strings; we read the text and
+ *   parse it with parseJson, which revives createdAt/updatedAt
+ * - File uploads are not JSON; they go through the media pipeline instead
+ */
+
+import type { ApiResponse } from '../../types'
+import { parseJson } from '../../utils/serialization'
+import { toQueryString, type Transport } from './transport'
+
+/**
+ * HttpTransportOptions
+ * - baseUrl: Server origin plus prefix, e.g. 'https://api.example.com/v1'
+ */
+export interface HttpTransportOptions {
+  baseUrl: string
+}
+
+/**
+ * createHttpTransport - Transport backed by fetch()
+ */
+export function createHttpTransport({ baseUrl }: HttpTransportOptions): Transport {
+  return {
+    async request<T>({ method, path, query, body, token }: Parameters<Transport['request']>[0]) {
+      const isBinary = body instanceof Blob
+      const headers: Record<string, string> = { Accept: 'application/json' }
+      if (body !== undefined) headers['Content-Type'] = isBinary ? 'application/octet-stream' : 'application/json'
+      if (token) headers.Authorization = `Bearer ${token}`
+
+      const response = await fetch(`${baseUrl}${path}${toQueryString(query)}`, {
+        method,
+        headers,
+        body: body === undefined || isBinary ? body : JSON.stringify(body),
+      })
+
+      const text = await response.text()
+      if (!text) {
+        return response.ok
+          ? { success: true }
+          : { success: false, error: response.statusText, errorCode: 'INTERNAL' }
+      }
+      return parseJson<ApiResponse<T>>(text)
+    },
+  }
+}
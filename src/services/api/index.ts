@@ -0,0 +1,16 @@
+/**
+ * ============================================================================
+ * STEP 2.4: API Plumbing - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * PURPOSE: Client, transports and the error taxonomy in one import path
+ */
+
+export { ApiError, toErrorResponse, unwrap } from './errors'
+export { createApiClient } from './client'
+export type { ApiClient, ApiClientOptions } from './client'
+export { createHttpTransport } from './httpTransport'
+export type { HttpTransportOptions } from './httpTransport'
+export { toQueryString } from './transport'
+export type { ApiRequest, HttpMethod, QueryParams, Transport } from './transport'
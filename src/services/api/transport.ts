@@ -0,0 +1,68 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Transport - How Requests Travel to a Backend
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.17 (PUT for upload chunks)
+ * PURPOSE: The seam between services and whatever answers their requests
+ *
+ * Implementations:
+ * - createMockTransport (services/mock): answers in-browser from fixture data
+ * - createHttpTransport (./httpTransport): talks to a real REST server
+ *
+ * LEARNING NOTES:
+ * - Services never call fetch() directly; they only know this interface.
+ *   Swapping the mock for a real server changes one line in services/index.ts
+ * - Transports must hand back Date objects for date fields (see
+ *   utils/serialization.ts); services and components can rely on that
+ */
+
+import type { ApiResponse } from '../../types'
+
+/**
+ * HttpMethod - The verbs our services use
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/**
+ * QueryParams - Values that end up in the URL query string
+ *
+ * undefined values are skipped, so optional filters can be passed as-is.
+ */
+export type QueryParams = Record<string, string | number | boolean | undefined>
+
+/**
+ * ApiRequest - One request, independent of the wire format
+ * - path: Resource path such as '/posts/post-1' (no host, no query)
+ * - token: Session token of the signed-in user, if any
+ */
+export interface ApiRequest {
+  method: HttpMethod
+  path: string
+  query?: QueryParams
+  body?: unknown
+  token?: string | null
+}
+
+/**
+ * Transport - Sends an ApiRequest and resolves with an ApiResponse
+ *
+ * May reject when the backend cannot be reached; ApiClient converts that
+ * into a NETWORK failure envelope.
+ */
+export interface Transport {
+  request<T>(request: ApiRequest): Promise<ApiResponse<T>>
+}
+
+/**
+ * toQueryString - Builds '?a=1&b=2' from QueryParams ('' when empty)
+ */
+export function toQueryString(query: QueryParams = {}): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value))
+  }
+  const text = params.toString()
+  return text ? `?${text}` : ''
+}
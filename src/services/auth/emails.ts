@@ -0,0 +1,111 @@
+/**
+ * ============================================================================
+ * STEP 2.22: Auth Emails - What the Auth Backend Sends
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * PURPOSE: The text of every account email, kept out of the backend so
+ *          the wording can change without touching the flows
+ *
+ * LEARNING NOTES:
+ * - Links are built with the route builders (routes/paths.ts) and made
+ *   absolute with the app's URL, since mail clients have no "current page"
+ * - Notices to the OLD address (email or password changed) let the real
+ *   owner notice a takeover even after the attacker changed both
+ */
+
+import type { Account } from '../../types'
+import { resetPasswordPath, verifyEmailPath } from '../../routes/paths'
+import type { OutgoingMail } from '../mail'
+
+/**
+ * Recipient - What the emails read from an account (the stored record or
+ * the Account sent to its owner)
+ */
+type Recipient = Pick<Account, 'email' | 'firstName' | 'username'>
+
+/**
+ * verificationEmail - "Confirm your email address", sent to `email`
+ */
+export function verificationEmail(user: Recipient, email: string, token: string, appUrl: string): OutgoingMail {
+  return {
+    to: email,
+    subject: 'Confirm your email address',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `Please confirm that ${email} is your email address by opening this link:`,
+      new URL(verifyEmailPath(token), appUrl).href,
+      '',
+      'The link works once and expires in 24 hours.',
+      'If you did not ask for this, you can ignore this email.',
+    ].join('\n'),
+  }
+}
+
+/**
+ * passwordResetEmail - "Reset your password"
+ */
+export function passwordResetEmail(user: Recipient, token: string, appUrl: string): OutgoingMail {
+  return {
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Someone asked to reset the password of your account. To choose a new one, open this link:',
+      new URL(resetPasswordPath(token), appUrl).href,
+      '',
+      'The link works once and expires in 1 hour. Resetting signs you out everywhere.',
+      'If you did not ask for this, you can ignore this email; your password stays the same.',
+    ].join('\n'),
+  }
+}
+
+/**
+ * passwordChangedEmail - Notice after a change or reset
+ */
+export function passwordChangedEmail(user: Recipient): OutgoingMail {
+  return {
+    to: user.email,
+    subject: 'Your password was changed',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'The password of your account was just changed.',
+      'If this was not you, reset your password right away.',
+    ].join('\n'),
+  }
+}
+
+/**
+ * emailChangeNotice - Sent to the current address when a new one is requested
+ */
+export function emailChangeNotice(user: Recipient, newEmail: string): OutgoingMail {
+  return {
+    to: user.email,
+    subject: 'Your email address is being changed',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `Someone asked to change the email address of your account to ${newEmail}.`,
+      'It changes once the new address is confirmed.',
+      'If this was not you, change your password right away.',
+    ].join('\n'),
+  }
+}
+
+/**
+ * accountDeletedEmail - Goodbye, sent after the account is gone
+ */
+export function accountDeletedEmail(user: Recipient): OutgoingMail {
+  return {
+    to: user.email,
+    subject: 'Your account was deleted',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `The account @${user.username} and everything in it were deleted. This cannot be undone.`,
+    ].join('\n'),
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * ============================================================================
+ * STEP 2.2: Auth Services - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * PURPOSE: One import path for the auth contract and its implementations
+ *
+ * LEARNING NOTES:
+ * - "Barrel" files re-export from sibling modules so callers write
+ *   `from '../services/auth'` instead of reaching into individual files
+ * - `export type` re-exports are erased at compile time
+ */
+
+export { AuthError } from './types'
+export type { AuthBackend, AuthErrorCode, AuthSession } from './types'
+export { createLocalAuthBackend } from './localAuthBackend'
+export type { LocalAuthBackendOptions } from './localAuthBackend'
+export { clearSessionToken, readSessionToken, saveSessionToken } from './tokenStorage'
@@ -0,0 +1,597 @@
+/**
+ * ============================================================================
+ * STEP 2.2: Local Auth Backend - Offline Development Implementation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.4 (stores accounts in the mock database)
+ * UPDATED: Feature Phase - Step 2.13 (profile edits: allow-list and validation)
+ * UPDATED: Feature Phase - Step 2.14 (private account setting)
+ * UPDATED: Feature Phase - Step 2.22 (emailed tokens, password and email
+ *          changes, session list, account deletion)
+ * UPDATED: Feature Phase - Step 2.24 (preferred language)
+ * UPDATED: Feature Phase - Step 2.17 (profile photos must be the user's uploads)
+ * PURPOSE: An AuthBackend that lives entirely in the browser
+ *
+ * How It Works:
+ * - Users, password hashes and sessions are tables in the mock database
+ *   (services/mock), which persists itself to localStorage
+ * - Every login creates a random session token in the sessions table
+ * - restoreSession() looks the token up and checks it has not expired
+ * - The mock API server reads the same sessions table, so API calls made
+ *   with the token are authenticated as the same user
+ *
+ * Emailed Tokens (Step 2.22):
+ * - Verification and reset links carry a random token stored in the
+ *   authTokens table with its purpose, the address it was sent to and an
+ *   expiry (24 hours to verify, 1 hour to reset)
+ * - A token works once; asking again replaces the older token of the
+ *   same purpose, so only the newest link works
+ * - Mail goes through a MailTransport (services/mail); in development it
+ *   is captured and shown at /dev/mail
+ *
+ * Sessions (Step 2.22):
+ * - Changing the password signs out every other session, resetting it
+ *   signs out all of them: whoever knew the old password is locked out
+ * - A revoked session fails its next restoreSession or API call
+ *
+ * Concepts Demonstrated:
+ * - Factory functions: createLocalAuthBackend() returns an object that
+ *   satisfies the AuthBackend interface
+ * - Web Crypto API: crypto.subtle.digest for hashing, randomUUID for IDs
+ * - Simulated latency so loading states are visible during development
+ * - Server-side validation (Step 2.3): forms are re-validated here and a
+ *   ValidationError is thrown, even if the UI was bypassed
+ *
+ * LEARNING NOTES:
+ * - This is for DEVELOPMENT ONLY: anything in localStorage can be read by
+ *   any script on the page, so a real app must authenticate on a server
+ * - Passwords are still hashed so we never get used to storing them in plain
+ *   text, even locally
+ */
+
+import { isLocale } from '../../i18n'
+import type { RegisterForm, SessionInfo } from '../../types'
+import { createId } from '../../utils/ids'
+import {
+  PROFILE_FIELDS,
+  PROFILE_PHOTOS,
+  SETTING_FIELDS,
+  isOptionalProfileField,
+  isProfileField,
+  isSettingField,
+  toProfileForm,
+} from '../../utils/profile'
+import {
+  ValidationError,
+  validateLoginForm,
+  validateChangeEmailForm,
+  validateChangePasswordForm,
+  validateEmail,
+  validatePasswordResetForm,
+  validateProfileForm,
+  validateRegisterForm,
+  type FieldErrors,
+} from '../../validation'
+import { createCaptureMailTransport, type MailTransport } from '../mail'
+import { createMemoryMediaStorage, type MediaStorage } from '../media'
+import {
+  approveAllRequests,
+  deleteAccount,
+  getMockDatabase,
+  imageError,
+  photoTarget,
+  presentAccount,
+  replaceImage,
+  type MockDatabase,
+} from '../mock'
+import type { AuthTokenRecord, UserRecord } from '../mock/database'
+import {
+  accountDeletedEmail,
+  emailChangeNotice,
+  passwordChangedEmail,
+  passwordResetEmail,
+  verificationEmail,
+} from './emails'
+import { hashPassword } from './passwords'
+import { AuthError, type AuthBackend, type AuthSession } from './types'
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+/**
+ * LocalAuthBackendOptions
+ * - db: Mock database to use (defaults to the shared app-wide instance)
+ * - sessionTtlMs: How long a session stays valid (default 7 days)
+ * - latencyMs: Artificial delay per call, to mimic a network round-trip
+ * - mail: Where account emails go (defaults to a capture transport)
+ * - media: Storage of the mock server's files, emptied of a deleted
+ *   account's uploads and of replaced profile photos (defaults to an
+ *   in-memory one)
+ * - appUrl: Origin the links in emails point at (defaults to this page's)
+ */
+export interface LocalAuthBackendOptions {
+  db?: MockDatabase
+  sessionTtlMs?: number
+  latencyMs?: number
+  mail?: MailTransport
+  media?: MediaStorage
+  appUrl?: string
+}
+
+const DEFAULT_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/** How long emailed links work, per purpose */
+const TOKEN_TTL_MS: Record<AuthTokenRecord['purpose'], number> = {
+  verify_email: 24 * 60 * 60 * 1000,
+  reset_password: 60 * 60 * 1000,
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * delay - Promise that resolves after `ms` milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/** Browser and system names, tested in order against the user agent */
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+/**
+ * describeDevice - "Firefox on Linux" from a user agent string
+ *
+ * Only a hint for recognizing a session in the list; user agents are easy
+ * to fake.
+ */
+function describeDevice(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown browser'
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  return system ? `${browser} on ${system}` : browser
+}
+
+/**
+ * sessionExpired - The error for a session token that no longer works
+ */
+function sessionExpired(): AuthError {
+  return new AuthError('SESSION_EXPIRED', 'Your session has expired. Please log in again.')
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * createLocalAuthBackend - Builds a localStorage-backed AuthBackend
+ *
+ * @example
+ * <AuthProvider backend={createLocalAuthBackend({ latencyMs: 0 })}>
+ */
+export function createLocalAuthBackend(options: LocalAuthBackendOptions = {}): AuthBackend {
+  const sessionTtlMs = options.sessionTtlMs ?? DEFAULT_SESSION_TTL_MS
+  const latencyMs = options.latencyMs ?? 300
+  const getDb = () => options.db ?? getMockDatabase()
+  const mail = options.mail ?? createCaptureMailTransport()
+  const media = options.media ?? createMemoryMediaStorage()
+  const appUrl = options.appUrl ?? globalThis.location?.origin ?? 'http://localhost'
+
+  /**
+   * openSession - Issues a new token for a user and persists it
+   *
+   * Expired sessions are pruned at the same time so storage does not grow
+   * forever.
+   */
+  const openSession = (user: UserRecord): AuthSession => {
+    const db = getDb()
+    const now = Date.now()
+    const session = {
+      id: createId('session'),
+      token: crypto.randomUUID(),
+      userId: user.id,
+      device: describeDevice(globalThis.navigator?.userAgent ?? ''),
+      createdAt: new Date(now),
+      lastSeenAt: new Date(now),
+      expiresAt: new Date(now + sessionTtlMs),
+    }
+    db.tables.sessions = [...db.tables.sessions.filter((s) => s.expiresAt.getTime() > now), session]
+    db.commit()
+    return { token: session.token, user: presentAccount(user), expiresAt: session.expiresAt }
+  }
+
+  /**
+   * findSession - Looks up a live session and its user
+   */
+  const findSession = (token: string) => {
+    const { tables } = getDb()
+    const session = tables.sessions.find((s) => s.token === token)
+    if (!session || session.expiresAt.getTime() <= Date.now()) {
+      return null
+    }
+    const user = tables.users.find((u) => u.id === session.userId)
+    return user ? { session, user } : null
+  }
+
+  /**
+   * requireSession - findSession for calls that need a signed-in user
+   *
+   * @throws AuthError SESSION_EXPIRED
+   */
+  const requireSession = (token: string) => {
+    const found = findSession(token)
+    if (!found) throw sessionExpired()
+    return found
+  }
+
+  /**
+   * isPasswordCorrect - Compares against the stored hash
+   */
+  const isPasswordCorrect = async (user: UserRecord, password: string) => {
+    const credential = getDb().tables.credentials.find((c) => c.userId === user.id)
+    return Boolean(credential && (await hashPassword(password, credential.salt)) === credential.passwordHash)
+  }
+
+  /**
+   * setPassword - Stores a new hash with a new salt (not committed)
+   */
+  const setPassword = async (user: UserRecord, password: string) => {
+    const { tables } = getDb()
+    const salt = crypto.randomUUID()
+    const credential = { userId: user.id, salt, passwordHash: await hashPassword(password, salt) }
+    tables.credentials = [...tables.credentials.filter((c) => c.userId !== user.id), credential]
+  }
+
+  /**
+   * issueToken - Creates the token for an emailed link and persists it
+   *
+   * Older tokens of the same user and purpose stop working, and expired
+   * ones are pruned.
+   */
+  const issueToken = (user: UserRecord, purpose: AuthTokenRecord['purpose'], email: string): string => {
+    const db = getDb()
+    const now = Date.now()
+    const record: AuthTokenRecord = {
+      token: crypto.randomUUID(),
+      userId: user.id,
+      purpose,
+      email,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + TOKEN_TTL_MS[purpose]),
+    }
+    db.tables.authTokens = [
+      ...db.tables.authTokens.filter(
+        (t) => t.expiresAt.getTime() > now && !(t.userId === user.id && t.purpose === purpose),
+      ),
+      record,
+    ]
+    db.commit()
+    return record.token
+  }
+
+  /**
+   * findToken - Looks up a live emailed token and its user
+   *
+   * @throws AuthError INVALID_TOKEN when it is unknown, used or expired
+   */
+  const findToken = (token: string, purpose: AuthTokenRecord['purpose']) => {
+    const { tables } = getDb()
+    const record = tables.authTokens.find((t) => t.token === token && t.purpose === purpose)
+    const user = record && tables.users.find((u) => u.id === record.userId)
+    if (!record || !user || record.expiresAt.getTime() <= Date.now()) {
+      throw new AuthError('INVALID_TOKEN', 'This link is invalid or has expired. Please ask for a new one.')
+    }
+    return { record, user }
+  }
+
+  /**
+   * spendToken - Makes a token unusable (not committed)
+   */
+  const spendToken = (record: AuthTokenRecord) => {
+    const { tables } = getDb()
+    tables.authTokens = tables.authTokens.filter((t) => t.token !== record.token)
+  }
+
+  return {
+    async login(email, password) {
+      await delay(latencyMs)
+      const validation = validateLoginForm({ email, password })
+      if (!validation.valid) {
+        throw new ValidationError(validation.errors)
+      }
+      const { tables } = getDb()
+      const normalizedEmail = email.trim().toLowerCase()
+      const user = tables.users.find((u) => u.email === normalizedEmail)
+      const credential = user && tables.credentials.find((c) => c.userId === user.id)
+      // Same message for unknown email and wrong password, so the form
+      // does not reveal which emails have accounts
+      if (
+        !user ||
+        !credential ||
+        (await hashPassword(password, credential.salt)) !== credential.passwordHash
+      ) {
+        throw new AuthError('INVALID_CREDENTIALS', 'Incorrect email or password.')
+      }
+      return openSession(user)
+    },
+
+    async register(form: RegisterForm) {
+      await delay(latencyMs)
+      const db = getDb()
+      const { users } = db.tables
+      const validation = validateRegisterForm(form, {
+        isUsernameTaken: (username) =>
+          users.some((u) => u.username.toLowerCase() === username.toLowerCase()),
+        isEmailTaken: (email) => users.some((u) => u.email === email),
+      })
+      if (!validation.valid) {
+        throw new ValidationError(validation.errors)
+      }
+
+      const now = new Date()
+      const user: UserRecord = {
+        id: createId('user'),
+        username: form.username.trim(),
+        email: form.email.trim().toLowerCase(),
+        firstName: form.firstName.trim(),
+        lastName: form.lastName.trim(),
+        followers: [],
+        following: [],
+        createdAt: now,
+        updatedAt: now,
+        isVerified: false,
+      }
+      const salt = crypto.randomUUID()
+      const passwordHash = await hashPassword(form.password, salt)
+
+      db.tables.users.push(user)
+      db.tables.credentials.push({ userId: user.id, salt, passwordHash })
+      db.commit()
+      await mail.send(verificationEmail(user, user.email, issueToken(user, 'verify_email', user.email), appUrl))
+      return openSession(user)
+    },
+
+    async logout(token) {
+      await delay(latencyMs)
+      const db = getDb()
+      db.tables.sessions = db.tables.sessions.filter((s) => s.token !== token)
+      db.commit()
+    },
+
+    async restoreSession(token) {
+      await delay(latencyMs)
+      const found = findSession(token)
+      if (!found) {
+        return null
+      }
+      found.session.lastSeenAt = new Date()
+      getDb().commit()
+      return { token, user: presentAccount(found.user), expiresAt: found.session.expiresAt }
+    },
+
+    async updateProfile(token, changes) {
+      await delay(latencyMs)
+      const found = requireSession(token)
+      const { user } = found
+
+      // Only ProfileForm fields, settings and the language are editable
+      // (utils/profile.ts); anything else (id, isVerified, followers,
+      // createdAt, ...) is refused
+      const protectedErrors: FieldErrors<UserRecord> = {}
+      for (const key of Object.keys(changes) as (keyof UserRecord)[]) {
+        if (key === 'locale') {
+          if (!isLocale(changes.locale)) {
+            protectedErrors.locale = { code: 'invalid_format', message: 'This language is not available.' }
+          }
+        } else if (isSettingField(key)) {
+          if (typeof changes[key] !== 'boolean') {
+            protectedErrors[key] = { code: 'invalid_format', message: `${key} must be true or false.` }
+          }
+        } else if (!isProfileField(key)) {
+          protectedErrors[key] = { code: 'read_only', message: `${key} cannot be changed.` }
+        }
+      }
+      if (Object.keys(protectedErrors).length > 0) {
+        throw new ValidationError(protectedErrors)
+      }
+
+      const form = { ...toProfileForm(user) }
+      for (const field of PROFILE_FIELDS) {
+        const value = changes[field]
+        if (value !== undefined) form[field] = String(value)
+      }
+      const { tables } = getDb()
+      const validation = validateProfileForm(form, {
+        isUsernameTaken: (username) =>
+          tables.users.some((u) => u.id !== user.id && u.username.toLowerCase() === username.toLowerCase()),
+      })
+      // A new photo must be one of the user's own uploads for that purpose
+      const photos = (Object.keys(PROFILE_PHOTOS) as (keyof typeof PROFILE_PHOTOS)[]).filter(
+        (field) => changes[field] !== undefined && form[field].trim() !== (user[field] ?? ''),
+      )
+      for (const field of photos) {
+        const url = form[field].trim()
+        const purpose = PROFILE_PHOTOS[field]
+        const error = url ? imageError(tables, user.id, url, purpose, photoTarget(user.id, purpose)) : null
+        if (error) validation.errors[field] ??= error
+      }
+      if (Object.keys(validation.errors).length > 0) {
+        throw new ValidationError(validation.errors)
+      }
+
+      const discardedFiles = photos.flatMap((field) => {
+        const purpose = PROFILE_PHOTOS[field]
+        return replaceImage(tables, form[field].trim() || undefined, photoTarget(user.id, purpose))
+      })
+      for (const field of PROFILE_FIELDS) {
+        const value = form[field].trim()
+        if (!value && isOptionalProfileField(field)) delete user[field]
+        else user[field] = value
+      }
+      for (const field of SETTING_FIELDS) {
+        const value = changes[field]
+        if (value !== undefined) user[field] = value
+      }
+      if (changes.locale !== undefined) user.locale = changes.locale
+      // Nobody is left waiting on an account that no longer asks
+      if (changes.isPrivate === false) approveAllRequests(getDb().tables, user.id)
+      user.updatedAt = new Date()
+
+      getDb().commit()
+      await media.delete(discardedFiles)
+      return presentAccount(found.user)
+    },
+
+    async sendVerificationEmail(token) {
+      await delay(latencyMs)
+      const { user } = requireSession(token)
+      if (user.emailVerifiedAt) return
+      await mail.send(verificationEmail(user, user.email, issueToken(user, 'verify_email', user.email), appUrl))
+    },
+
+    async verifyEmail(verificationToken) {
+      await delay(latencyMs)
+      const { record, user } = findToken(verificationToken, 'verify_email')
+      const db = getDb()
+      // Checked again: the address may have been taken since the link was sent
+      if (db.tables.users.some((u) => u.id !== user.id && u.email === record.email)) {
+        spendToken(record)
+        db.commit()
+        throw new AuthError('INVALID_TOKEN', 'Another account uses this email address now.')
+      }
+      spendToken(record)
+      const now = new Date()
+      user.email = record.email
+      user.emailVerifiedAt = now
+      user.updatedAt = now
+      db.commit()
+      return presentAccount(user)
+    },
+
+    async requestPasswordReset(email) {
+      await delay(latencyMs)
+      const error = validateEmail(email)
+      if (error) {
+        throw new ValidationError({ email: error })
+      }
+      const normalizedEmail = email.trim().toLowerCase()
+      const user = getDb().tables.users.find((u) => u.email === normalizedEmail)
+      if (!user) return
+      await mail.send(passwordResetEmail(user, issueToken(user, 'reset_password', user.email), appUrl))
+    },
+
+    async resetPassword(resetToken, form) {
+      await delay(latencyMs)
+      const { record, user } = findToken(resetToken, 'reset_password')
+      const validation = validatePasswordResetForm(form)
+      if (!validation.valid) {
+        throw new ValidationError(validation.errors)
+      }
+      const db = getDb()
+      spendToken(record)
+      await setPassword(user, form.password)
+      db.tables.sessions = db.tables.sessions.filter((s) => s.userId !== user.id)
+      // Opening the link proved the address works
+      if (record.email === user.email) user.emailVerifiedAt ??= new Date()
+      db.commit()
+      await mail.send(passwordChangedEmail(user))
+    },
+
+    async changePassword(token, form) {
+      await delay(latencyMs)
+      const { session, user } = requireSession(token)
+      const validation = validateChangePasswordForm(form)
+      if (!validation.valid) {
+        throw new ValidationError(validation.errors)
+      }
+      if (!(await isPasswordCorrect(user, form.currentPassword))) {
+        throw new ValidationError({ currentPassword: { code: 'mismatch', message: 'Current password is incorrect.' } })
+      }
+      const db = getDb()
+      await setPassword(user, form.newPassword)
+      db.tables.sessions = db.tables.sessions.filter((s) => s.userId !== user.id || s.id === session.id)
+      db.commit()
+      await mail.send(passwordChangedEmail(user))
+    },
+
+    async changeEmail(token, form) {
+      await delay(latencyMs)
+      const { user } = requireSession(token)
+      const { users } = getDb().tables
+      const validation = validateChangeEmailForm(form, {
+        currentEmail: user.email,
+        isEmailTaken: (email) => users.some((u) => u.id !== user.id && u.email === email),
+      })
+      if (!validation.valid) {
+        throw new ValidationError(validation.errors)
+      }
+      if (!(await isPasswordCorrect(user, form.password))) {
+        throw new ValidationError({ password: { code: 'mismatch', message: 'Password is incorrect.' } })
+      }
+      const newEmail = form.email.trim().toLowerCase()
+      await mail.send(verificationEmail(user, newEmail, issueToken(user, 'verify_email', newEmail), appUrl))
+      await mail.send(emailChangeNotice(user, newEmail))
+    },
+
+    async listSessions(token) {
+      await delay(latencyMs)
+      const { session: current, user } = requireSession(token)
+      const now = Date.now()
+      return getDb()
+        .tables.sessions.filter((s) => s.userId === user.id && s.expiresAt.getTime() > now)
+        .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+        .map(
+          (s): SessionInfo => ({
+            id: s.id,
+            device: s.device,
+            createdAt: s.createdAt,
+            lastSeenAt: s.lastSeenAt,
+            expiresAt: s.expiresAt,
+            isCurrent: s.id === current.id,
+          }),
+        )
+    },
+
+    async revokeSession(token, sessionId) {
+      await delay(latencyMs)
+      const { user } = requireSession(token)
+      const db = getDb()
+      db.tables.sessions = db.tables.sessions.filter((s) => s.userId !== user.id || s.id !== sessionId)
+      db.commit()
+    },
+
+    async revokeOtherSessions(token) {
+      await delay(latencyMs)
+      const { session, user } = requireSession(token)
+      const db = getDb()
+      db.tables.sessions = db.tables.sessions.filter((s) => s.userId !== user.id || s.id === session.id)
+      db.commit()
+    },
+
+    async deleteAccount(token, password) {
+      await delay(latencyMs)
+      const { user } = requireSession(token)
+      if (!(await isPasswordCorrect(user, password))) {
+        throw new ValidationError({ password: { code: 'mismatch', message: 'Password is incorrect.' } })
+      }
+      const db = getDb()
+      await deleteAccount(db.tables, media, user.id)
+      db.commit()
+      await mail.send(accountDeletedEmail(user))
+    },
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Password Hashing - Shared by Local Backends
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (moved out of localAuthBackend.ts)
+ * PURPOSE: Salted SHA-256 hashing with the Web Crypto API
+ *
+ * LEARNING NOTES:
+ * - Real servers use slow, purpose-built algorithms (bcrypt, argon2) to make
+ *   brute-forcing expensive; SHA-256 is fine for an offline mock only
+ */
+
+/**
+ * hashPassword - SHA-256 of `${salt}:${password}`, as a hex string
+ */
+export async function hashPassword(password: string, salt: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${salt}:${password}`)
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,31 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Session Token Storage
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (moved out of AuthProvider.tsx)
+ * PURPOSE: One place that knows where the session token is saved
+ *
+ * Who Uses It:
+ * - AuthProvider writes the token on login and clears it on logout
+ * - The API client reads it on every request to authenticate the call
+ */
+
+import { readJson, removeKey, writeJson } from '../../utils/storage'
+
+/**
+ * TOKEN_KEY - Storage key for the current session token
+ */
+const TOKEN_KEY = 'auth.token'
+
+export function readSessionToken(): string | null {
+  return readJson<string | null>(TOKEN_KEY, null)
+}
+
+export function saveSessionToken(token: string): void {
+  writeJson(TOKEN_KEY, token)
+}
+
+export function clearSessionToken(): void {
+  removeKey(TOKEN_KEY)
+}
@@ -0,0 +1,135 @@
+/**
+ * ============================================================================
+ * STEP 2.2: Auth Backend Contract - Pluggable Authentication
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.22 (email verification, password reset and
+ *          change, email change, sessions, account deletion)
+ * PURPOSE: Describe what ANY auth backend must do, without saying how
+ *
+ * TypeScript Concepts Demonstrated:
+ * - interface as a contract: AuthProvider only talks to AuthBackend, so a
+ *   localStorage backend today can become a REST backend tomorrow
+ * - Union string literal types for error codes
+ * - Classes extending Error with extra fields
+ *
+ * LEARNING NOTES:
+ * - This is the "Dependency Inversion" idea: high-level code (React context)
+ *   depends on an abstraction, and low-level details plug into it
+ * - Swapping backends is a one-line change where AuthProvider is rendered
+ */
+
+import type {
+  Account,
+  ChangeEmailForm,
+  ChangePasswordForm,
+  PasswordResetForm,
+  RegisterForm,
+  SessionInfo,
+} from '../../types'
+
+// ============================================================================
+// SESSION TYPES
+// ============================================================================
+
+/**
+ * AuthSession - What a backend hands back after a successful sign-in
+ *
+ * - token: Opaque string the client stores to restore the session later
+ * - user: The signed-in user's profile
+ * - expiresAt: When the token stops being accepted
+ */
+export interface AuthSession {
+  token: string
+  user: Account
+  expiresAt: Date
+}
+
+// ============================================================================
+// ERROR TYPES
+// ============================================================================
+
+/**
+ * AuthErrorCode - Every failure an auth backend may report
+ *
+ * Bad input (malformed email, taken username, ...) is not an AuthError:
+ * backends throw a ValidationError with per-field errors instead.
+ *
+ * UPDATED: Step 2.22 - INVALID_TOKEN for an emailed link that is unknown,
+ * used or expired
+ */
+export type AuthErrorCode = 'INVALID_CREDENTIALS' | 'SESSION_EXPIRED' | 'INVALID_TOKEN'
+
+/**
+ * AuthError - Error thrown by auth backends
+ *
+ * Why a custom class:
+ * - `instanceof AuthError` separates expected auth failures from bugs
+ * - `code` lets the UI react to a specific failure without parsing text
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message)
+    this.name = 'AuthError'
+    this.code = code
+  }
+}
+
+// ============================================================================
+// BACKEND CONTRACT
+// ============================================================================
+
+/**
+ * AuthBackend - The operations AuthProvider needs from any backend
+ *
+ * All methods are async so that network-backed implementations fit the same
+ * shape as the local one. Failures are reported by throwing AuthError, or
+ * ValidationError when login/register input is rejected.
+ *
+ * UPDATED: Step 2.22 - Account lifecycle. Tokens named verificationToken
+ * or resetToken come from an emailed link; every other `token` is the
+ * session token. A wrong current password is a ValidationError on the
+ * password field, so forms can show it next to the input.
+ */
+export interface AuthBackend {
+  /** Verifies credentials and opens a new session */
+  login(email: string, password: string): Promise<AuthSession>
+  /** Creates an account and signs it in */
+  register(form: RegisterForm): Promise<AuthSession>
+  /** Ends the session belonging to the token */
+  logout(token: string): Promise<void>
+  /** Resolves a saved token back into a session, or null if it is no longer valid */
+  restoreSession(token: string): Promise<AuthSession | null>
+  /**
+   * Applies profile changes for the session's user and returns the updated
+   * user. Only ProfileForm fields may change (Step 2.13); a protected field
+   * or an invalid value rejects with a ValidationError.
+   */
+  updateProfile(token: string, changes: Partial<Account>): Promise<Account>
+  /** Emails a new verification link for the user's address */
+  sendVerificationEmail(token: string): Promise<void>
+  /** Confirms the address in a verification link and returns the updated user */
+  verifyEmail(verificationToken: string): Promise<Account>
+  /**
+   * Emails a reset link if an account uses this address. Resolves either
+   * way, so the form does not reveal which emails have accounts.
+   */
+  requestPasswordReset(email: string): Promise<void>
+  /** Sets a new password from a reset link and signs out every session */
+  resetPassword(resetToken: string, form: PasswordResetForm): Promise<void>
+  /** Replaces the password and signs out every OTHER session */
+  changePassword(token: string, form: ChangePasswordForm): Promise<void>
+  /** Emails a link to the new address; the email changes once it is opened */
+  changeEmail(token: string, form: ChangeEmailForm): Promise<void>
+  /** The user's live sessions, most recently used first */
+  listSessions(token: string): Promise<SessionInfo[]>
+  /** Ends one of the user's sessions (by SessionInfo.id) */
+  revokeSession(token: string, sessionId: string): Promise<void>
+  /** Ends every session of the user except this one */
+  revokeOtherSessions(token: string): Promise<void>
+  /** Deletes the account after checking the password */
+  deleteAccount(token: string, password: string): Promise<void>
+}
@@ -0,0 +1,38 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Emitter - Minimal Publish/Subscribe
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: Listener bookkeeping shared by the chat transports
+ *
+ * LEARNING NOTES:
+ * - Listeners are copied before emitting, so a listener that unsubscribes
+ *   itself while being called does not make the loop skip the next one
+ */
+
+/**
+ * Emitter<T> - emit() calls every subscribed listener with the value
+ */
+export interface Emitter<T> {
+  emit(value: T): void
+  subscribe(listener: (value: T) => void): () => void
+}
+
+/**
+ * createEmitter - A new, empty Emitter
+ */
+export function createEmitter<T>(): Emitter<T> {
+  const listeners = new Set<(value: T) => void>()
+  return {
+    emit(value) {
+      for (const listener of [...listeners]) listener(value)
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
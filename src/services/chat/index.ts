@@ -0,0 +1,18 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat Services - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.21 (exports LiveEvent)
+ * PURPOSE: Re-exports the chat protocol, transport interface and both
+ *          transport implementations
+ */
+
+export type { ChatErrorCode, ClientEvent, LiveEvent, ServerEvent } from './protocol'
+export { decodeEvent, encodeEvent } from './protocol'
+export type { ChatTransport, ConnectionStatus } from './types'
+export { createWebSocketTransport } from './webSocketTransport'
+export type { WebSocketTransportOptions } from './webSocketTransport'
+export { createLocalChatTransport } from './localTransport'
+export type { LocalChatTransportOptions } from './localTransport'
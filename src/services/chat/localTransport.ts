@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Local Chat Transport - In-Page Loopback to a ChatHub
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: Real-time chat without any server, for offline development
+ *
+ * How It Works:
+ * - connect() opens a ChatHub session after a short simulated delay
+ * - Every event is encoded to a JSON frame and decoded on the other side,
+ *   so Dates become strings and back exactly as over a real socket
+ * - Frames are delivered asynchronously (setTimeout), never inside the
+ *   caller's stack, which is also what a network does
+ *
+ * LEARNING NOTES:
+ * - Two browser tabs each have their own hub, so messages only reach
+ *   other users "live" inside one tab; use the Node stand-in server
+ *   (npm run dev with VITE_CHAT_URL) to chat between tabs
+ */
+
+import type { ChatHub, ChatHubSession } from '../mock/chatHub'
+import { createEmitter } from './emitter'
+import { decodeEvent, encodeEvent, type ClientEvent, type ServerEvent } from './protocol'
+import type { ChatTransport, ConnectionStatus } from './types'
+
+/**
+ * LocalChatTransportOptions
+ * - hub: The hub that plays the server
+ * - latencyMs: Delay for connecting and for each frame (default 50)
+ */
+export interface LocalChatTransportOptions {
+  hub: ChatHub
+  latencyMs?: number
+}
+
+/**
+ * createLocalChatTransport - Builds a ChatTransport wired to a hub
+ */
+export function createLocalChatTransport(options: LocalChatTransportOptions): ChatTransport {
+  const latencyMs = options.latencyMs ?? 50
+  const events = createEmitter<ServerEvent>()
+  const statuses = createEmitter<ConnectionStatus>()
+
+  let session: ChatHubSession | null = null
+  let status: ConnectionStatus = 'idle'
+  let connectTimer: ReturnType<typeof setTimeout> | undefined
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (status === next) return
+    status = next
+    statuses.emit(next)
+  }
+
+  return {
+    get status() {
+      return status
+    },
+
+    connect() {
+      if (status !== 'idle') return
+      setStatus('connecting')
+      connectTimer = setTimeout(() => {
+        const opened = options.hub.connect((event) => {
+          const frame = encodeEvent(event)
+          setTimeout(() => {
+            if (session === opened) events.emit(decodeEvent<ServerEvent>(frame))
+          }, latencyMs)
+        })
+        session = opened
+        setStatus('open')
+      }, latencyMs)
+    },
+
+    disconnect() {
+      clearTimeout(connectTimer)
+      session?.close()
+      session = null
+      setStatus('idle')
+    },
+
+    send(event) {
+      const target = session
+      if (!target) return false
+      const frame = encodeEvent(event)
+      setTimeout(() => {
+        if (session === target) target.receive(decodeEvent<ClientEvent>(frame))
+      }, latencyMs)
+      return true
+    },
+
+    onEvent: events.subscribe,
+    onStatus: statuses.subscribe,
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat Protocol - Events Exchanged Over the Chat Connection
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (starting conversations, group changes)
+ * UPDATED: Feature Phase - Step 2.10 (live notifications)
+ * UPDATED: Feature Phase - Step 2.21 (live events with sequence numbers)
+ * PURPOSE: The exact shape of every frame the chat client and server send
+ *
+ * Connection Lifecycle:
+ * 1. Transport opens → client sends 'hello' with its session
+ * 2. Server answers 'ready' (or 'error' and closes)
+ * 3. Client sends 'sync' with the last server time it saw (null the first
+ *    time) → server answers 'synced' with conversations and every message
+ *    created or read since then. After a reconnect this is the BACKFILL.
+ * 4. From then on both sides push events as they happen
+ *
+ * Optimistic Sending:
+ * - 'send' carries a clientId made up by the client
+ * - The server echoes it on the resulting 'message' event (the ack), or on
+ *   'send-failed'; the client matches them to its pending bubble
+ * - The server remembers clientIds, so a send retried after a reconnect is
+ *   never stored twice
+ *
+ * Requests (Step 2.9):
+ * - 'start-conversation' and 'change-group' carry a requestId; the reply
+ *   to the requesting connection repeats it ('conversation',
+ *   'conversation-removed' or 'request-failed')
+ * - Every other member gets the same 'conversation' event without it,
+ *   followed by the system messages, so their screens update live
+ *
+ * Notifications (Step 2.10):
+ * - The same connection carries new and read notifications for the
+ *   signed-in user; both include the new unread total, so the badge never
+ *   has to count notifications it has not loaded. Since Step 2.21 they
+ *   travel as live events (below).
+ *
+ * Live Events (Step 2.21):
+ * - After 'ready' the client sends 'watch' (the posts on its screen) and
+ *   'resume' (the last sequence number it saw, null the first time)
+ * - The server replays every logged event after that number the client
+ *   should get, then answers 'resumed'. `complete: false` means some were
+ *   too old to replay (or the server restarted): reload instead.
+ * - From then on each event arrives as 'live' with the next `seq`:
+ *   likes and comments on watched posts, new posts from followed users,
+ *   follows of or by the user, and notifications
+ * - A frame with a `seq` the client has already seen is a duplicate (a
+ *   replay overlapping a live push) and is dropped; likes are also sent
+ *   as "user X now does / does not like", never "+1", so applying one
+ *   twice changes nothing
+ *
+ * TypeScript Concepts Demonstrated:
+ * - Discriminated unions: `type` tells TypeScript which fields exist, so a
+ *   switch (event.type) narrows each branch automatically
+ *
+ * LEARNING NOTES:
+ * - Frames are JSON; Dates travel as ISO strings and are revived on receipt
+ *   (parseJson), exactly like API responses
+ */
+
+import type { Comment, Conversation, GroupChange, Message, Notification, Post } from '../../types'
+import { parseJson } from '../../utils/serialization'
+
+// ============================================================================
+// CLIENT → SERVER
+// ============================================================================
+
+/**
+ * ClientEvent - Frames the browser sends
+ * - hello: Authenticate this connection (first frame, and after reconnects)
+ * - sync: Ask for everything since `since` (an ISO time from the server)
+ * - send: A new message; `clientId` identifies the optimistic copy. Never
+ *   'system': those are the server's group notices, and the hub refuses them
+ * - typing: Started/stopped typing in a conversation
+ * - read: Everything from others in the conversation has been seen
+ * - history: Older messages, `before` an ISO time, for scrolling up
+ * - start-conversation: Open a direct chat or create a group
+ * - change-group: Rename, change image, manage members/admins, or leave
+ * - watch: The posts now on screen (replaces the previous list)
+ * - resume: Replay live events after `after` from the server run `epoch`
+ */
+export type ClientEvent =
+  | { type: 'hello'; token: string; userId: string }
+  | { type: 'sync'; since: string | null }
+  | {
+      type: 'send'
+      clientId: string
+      conversationId: string
+      content: string
+      messageType: Message['type']
+      attachments?: string[]
+    }
+  | { type: 'typing'; conversationId: string; isTyping: boolean }
+  | { type: 'read'; conversationId: string }
+  | { type: 'history'; requestId: string; conversationId: string; before: string; limit: number }
+  | {
+      type: 'start-conversation'
+      requestId: string
+      participantIds: string[]
+      groupName?: string
+      groupImage?: string
+    }
+  | { type: 'change-group'; requestId: string; conversationId: string; change: GroupChange }
+  | { type: 'watch'; postIds: string[] }
+  | { type: 'resume'; epoch: string | null; after: number }
+
+// ============================================================================
+// LIVE EVENTS
+// ============================================================================
+
+/**
+ * LiveEvent - Something changed that the client is looking at
+ * - post-liked: `userId` now likes (or no longer likes) a watched post
+ * - comment-added: A new comment on a watched post
+ * - post-created: A followed user posted (or reposted)
+ * - follow-changed: The user followed someone, or someone followed them;
+ *   followersCount is the target's and followingCount the follower's,
+ *   after the change
+ * - notification: A new notification for the user
+ * - notifications-read: These notifications were read (in any tab)
+ */
+export type LiveEvent =
+  | { type: 'post-liked'; postId: string; userId: string; liked: boolean }
+  | { type: 'comment-added'; comment: Comment }
+  | { type: 'post-created'; post: Post }
+  | {
+      type: 'follow-changed'
+      followerId: string
+      targetId: string
+      following: boolean
+      followersCount: number
+      followingCount: number
+    }
+  | { type: 'notification'; notification: Notification; unreadCount: number }
+  | { type: 'notifications-read'; notificationIds: string[]; unreadCount: number }
+
+// ============================================================================
+// SERVER → CLIENT
+// ============================================================================
+
+/**
+ * ChatErrorCode - Why the server rejected something
+ */
+export type ChatErrorCode = 'UNAUTHORIZED' | 'NOT_FOUND' | 'VALIDATION' | 'BAD_REQUEST'
+
+/**
+ * ServerEvent - Frames the server pushes
+ * - ready: hello accepted
+ * - synced: Reply to sync; `serverTime` is the `since` for the next sync
+ * - message: A new message (for the sender, `clientId` makes it the ack)
+ * - send-failed: A send was rejected; the optimistic copy should show it
+ * - typing: Someone else started/stopped typing
+ * - read: `readerId` has seen these messages (they are now isRead)
+ * - history: Reply to a history request
+ * - conversation: A conversation was created or changed
+ * - conversation-removed: You are no longer in this conversation
+ * - request-failed: A start-conversation/change-group was rejected
+ * - live: One live event, numbered (Step 2.21)
+ * - resumed: Reply to resume; `seq` is the newest number so far
+ * - error: Protocol-level problem (bad frame, not authenticated, ...)
+ */
+export type ServerEvent =
+  | { type: 'ready'; userId: string }
+  | { type: 'synced'; conversations: Conversation[]; messages: Message[]; serverTime: string; full: boolean }
+  | { type: 'message'; message: Message; clientId?: string }
+  | { type: 'send-failed'; clientId: string; error: string }
+  | { type: 'typing'; conversationId: string; userId: string; isTyping: boolean }
+  | { type: 'read'; conversationId: string; readerId: string; messageIds: string[]; at: string }
+  | { type: 'history'; requestId: string; conversationId: string; messages: Message[]; hasMore: boolean }
+  | { type: 'conversation'; conversation: Conversation; requestId?: string }
+  | { type: 'conversation-removed'; conversationId: string; requestId?: string }
+  | { type: 'request-failed'; requestId: string; error: string }
+  | { type: 'live'; seq: number; event: LiveEvent }
+  | { type: 'resumed'; epoch: string; seq: number; complete: boolean }
+  | { type: 'error'; code: ChatErrorCode; message: string }
+
+// ============================================================================
+// WIRE FORMAT
+// ============================================================================
+
+/**
+ * encodeEvent - Event → text frame
+ */
+export function encodeEvent(event: ClientEvent | ServerEvent): string {
+  return JSON.stringify(event)
+}
+
+/**
+ * decodeEvent - Text frame → event, with Date fields revived
+ *
+ * The caller states which direction it expects; the shape is not checked
+ * at runtime, so servers must validate decoded client events themselves
+ * (the mock chat hub runs them through ../../validation, like the API).
+ */
+export function decodeEvent<T extends ClientEvent | ServerEvent>(frame: string): T {
+  return parseJson<T>(frame)
+}
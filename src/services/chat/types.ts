@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat Transport - The Interface Every Connection Implements
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: Let the chat UI work the same over a real WebSocket or an
+ *          in-page loopback
+ *
+ * Implementations:
+ * - createWebSocketTransport: Browser WebSocket with automatic reconnect
+ * - createLocalChatTransport: No network; talks to a ChatHub in the page
+ *
+ * Responsibilities:
+ * - A transport only MOVES events and reports its connection status
+ * - It knows nothing about sessions, messages or retries; ChatProvider
+ *   sends 'hello' whenever the status becomes 'open'
+ *
+ * LEARNING NOTES:
+ * - Listener registration returns an "unsubscribe" function, the same
+ *   pattern React effects use for cleanup
+ */
+
+import type { ClientEvent, ServerEvent } from './protocol'
+
+/**
+ * ConnectionStatus - Where the transport is in its lifecycle
+ * - idle: connect() has not been called (or disconnect() was)
+ * - connecting: Opening, or waiting to retry after a drop
+ * - open: Frames can flow
+ */
+export type ConnectionStatus = 'idle' | 'connecting' | 'open'
+
+/**
+ * ChatTransport - Bidirectional event pipe
+ */
+export interface ChatTransport {
+  /** Current status; also reported through onStatus */
+  readonly status: ConnectionStatus
+  /** Opens the connection and keeps it open (reconnecting) until disconnect() */
+  connect(): void
+  /** Closes the connection and stops reconnecting */
+  disconnect(): void
+  /** Sends an event; returns false when not open (the event is dropped) */
+  send(event: ClientEvent): boolean
+  /** Subscribes to server events */
+  onEvent(listener: (event: ServerEvent) => void): () => void
+  /** Subscribes to status changes */
+  onStatus(listener: (status: ConnectionStatus) => void): () => void
+}
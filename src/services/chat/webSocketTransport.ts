@@ -0,0 +1,128 @@
+/**
+ * ============================================================================
+ * STEP 2.8: WebSocket Transport - Chat Over a Real Network Connection
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * PURPOSE: A ChatTransport backed by the browser's WebSocket API
+ *
+ * Reconnecting:
+ * - When the socket closes unexpectedly we retry with EXPONENTIAL BACKOFF:
+ *   1s, 2s, 4s ... capped at maxRetryMs, so a down server is not hammered
+ * - Each delay is randomized ("jitter") so thousands of clients dropped at
+ *   once do not all reconnect in the same instant
+ * - Going back online (the window 'online' event) retries immediately
+ *
+ * LEARNING NOTES:
+ * - 'error' is always followed by 'close', so all retry logic lives in
+ *   onclose
+ * - Every handler checks `socket === ws`: events from an old socket that
+ *   was replaced must not affect the current one
+ */
+
+import { createEmitter } from './emitter'
+import { decodeEvent, encodeEvent, type ServerEvent } from './protocol'
+import type { ChatTransport, ConnectionStatus } from './types'
+
+/**
+ * WebSocketTransportOptions
+ * - url: ws:// or wss:// endpoint (e.g. ws://localhost:5173/chat)
+ * - minRetryMs / maxRetryMs: Backoff bounds (defaults 1s / 30s)
+ */
+export interface WebSocketTransportOptions {
+  url: string
+  minRetryMs?: number
+  maxRetryMs?: number
+}
+
+/**
+ * createWebSocketTransport - Builds a reconnecting WebSocket ChatTransport
+ *
+ * @example
+ * const transport = createWebSocketTransport({ url: 'ws://localhost:5173/chat' })
+ */
+export function createWebSocketTransport(options: WebSocketTransportOptions): ChatTransport {
+  const minRetryMs = options.minRetryMs ?? 1000
+  const maxRetryMs = options.maxRetryMs ?? 30_000
+  const events = createEmitter<ServerEvent>()
+  const statuses = createEmitter<ConnectionStatus>()
+
+  let socket: WebSocket | null = null
+  let status: ConnectionStatus = 'idle'
+  let wanted = false
+  let attempt = 0
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (status === next) return
+    status = next
+    statuses.emit(next)
+  }
+
+  const open = () => {
+    clearTimeout(retryTimer)
+    setStatus('connecting')
+    const ws = new WebSocket(options.url)
+    socket = ws
+
+    ws.onopen = () => {
+      if (socket !== ws) return
+      attempt = 0
+      setStatus('open')
+    }
+    ws.onmessage = (message) => {
+      if (socket === ws && typeof message.data === 'string') {
+        events.emit(decodeEvent<ServerEvent>(message.data))
+      }
+    }
+    ws.onclose = () => {
+      if (socket !== ws) return
+      socket = null
+      if (wanted) scheduleRetry()
+      else setStatus('idle')
+    }
+  }
+
+  const scheduleRetry = () => {
+    setStatus('connecting')
+    const backoff = Math.min(maxRetryMs, minRetryMs * 2 ** attempt)
+    attempt++
+    retryTimer = setTimeout(open, backoff * (0.5 + Math.random() / 2))
+  }
+
+  const handleOnline = () => {
+    if (wanted && !socket) open()
+  }
+
+  return {
+    get status() {
+      return status
+    },
+
+    connect() {
+      if (wanted) return
+      wanted = true
+      window.addEventListener('online', handleOnline)
+      open()
+    },
+
+    disconnect() {
+      wanted = false
+      clearTimeout(retryTimer)
+      window.removeEventListener('online', handleOnline)
+      const ws = socket
+      socket = null
+      ws?.close()
+      setStatus('idle')
+    },
+
+    send(event) {
+      if (!socket || socket.readyState !== WebSocket.OPEN) return false
+      socket.send(encodeEvent(event))
+      return true
+    },
+
+    onEvent: events.subscribe,
+    onStatus: statuses.subscribe,
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * ============================================================================
+ * STEP 2.23: Archive Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.23 (Data export and import)
+ * PURPOSE: Download the signed-in user's account archive, and import one
+ *          into a fresh account
+ *
+ * LEARNING NOTES:
+ * - The archive travels as plain JSON; utils/archive.ts describes its
+ *   format, and utils/archiveHtml.ts renders the readable copy
+ */
+
+import type { AccountArchive, ApiResponse, ArchiveImportSummary } from '../../types'
+import type { ApiClient } from '../api/client'
+
+/**
+ * createArchiveService - Archive endpoints bound to an ApiClient
+ */
+export function createArchiveService(client: ApiClient) {
+  return {
+    exportArchive(): Promise<ApiResponse<AccountArchive>> {
+      return client.get('/archive')
+    },
+
+    /** `archive` is checked by the server: format, version, then every record */
+    importArchive(archive: unknown): Promise<ApiResponse<ArchiveImportSummary>> {
+      return client.post('/archive/import', archive)
+    },
+  }
+}
+
+export type ArchiveService = ReturnType<typeof createArchiveService>
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Comments Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.7 (sorting and paged reply threads)
+ * PURPOSE: Read and write comments (including replies via parentId)
+ */
+
+import type { ApiResponse, Comment, CommentSort, PaginatedResponse } from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * NewComment - Body for addComment
+ * - parentId: Set when replying to another comment on the same post
+ */
+export interface NewComment {
+  content: string
+  parentId?: string
+}
+
+/**
+ * ListCommentsParams
+ * - sort: Order within each level (default 'oldest')
+ */
+export interface ListCommentsParams extends PageParams {
+  sort?: CommentSort
+}
+
+/**
+ * createCommentsService - Comment endpoints bound to an ApiClient
+ */
+export function createCommentsService(client: ApiClient) {
+  return {
+    /** Comments of one post as a flat list, oldest first by default */
+    listComments(postId: string, params: ListCommentsParams = {}): Promise<ApiResponse<PaginatedResponse<Comment>>> {
+      return client.get(`/posts/${encodeURIComponent(postId)}/comments`, { ...params })
+    },
+
+    /**
+     * A page of top-level comments plus all of their replies; pagination
+     * counts top-level comments only. Feed the result to buildCommentTree.
+     */
+    listThreads(postId: string, params: ListCommentsParams = {}): Promise<ApiResponse<PaginatedResponse<Comment>>> {
+      return client.get(`/posts/${encodeURIComponent(postId)}/comments/threads`, { ...params })
+    },
+
+    addComment(postId: string, comment: NewComment): Promise<ApiResponse<Comment>> {
+      return client.post(`/posts/${encodeURIComponent(postId)}/comments`, comment)
+    },
+
+    updateComment(commentId: string, content: string): Promise<ApiResponse<Comment>> {
+      return client.patch(`/comments/${encodeURIComponent(commentId)}`, { content })
+    },
+
+    /** Resolves with the tombstone when the comment had replies, else null */
+    deleteComment(commentId: string): Promise<ApiResponse<Comment | null>> {
+      return client.delete(`/comments/${encodeURIComponent(commentId)}`)
+    },
+
+    likeComment(commentId: string): Promise<ApiResponse<Comment>> {
+      return client.post(`/comments/${encodeURIComponent(commentId)}/like`)
+    },
+
+    unlikeComment(commentId: string): Promise<ApiResponse<Comment>> {
+      return client.delete(`/comments/${encodeURIComponent(commentId)}/like`)
+    },
+  }
+}
+
+export type CommentsService = ReturnType<typeof createCommentsService>
@@ -0,0 +1,87 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Conversations Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.9 (group settings, members and admins)
+ * PURPOSE: List, open and start direct or group conversations, and manage
+ *          groups
+ *
+ * LEARNING NOTES:
+ * - The chat UI makes these same changes over the chat connection (so
+ *   other members see them live); these endpoints are for everything else
+ */
+
+import type { ApiResponse, Conversation, PaginatedResponse } from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * NewConversation - Body for createConversation
+ * - participantIds: Everyone to include besides the signed-in user; more
+ *   than one makes it a group
+ * - groupName / groupImage: Optional name and image for groups
+ */
+export interface NewConversation {
+  participantIds: string[]
+  groupName?: string
+  groupImage?: string
+}
+
+/**
+ * GroupSettings - Body for updateGroup; null removes the image
+ */
+export interface GroupSettings {
+  groupName?: string
+  groupImage?: string | null
+}
+
+/**
+ * createConversationsService - Conversation endpoints bound to an ApiClient
+ */
+export function createConversationsService(client: ApiClient) {
+  return {
+    /** The signed-in user's conversations, most recent activity first */
+    listConversations(params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<Conversation>>> {
+      return client.get('/conversations', { ...params })
+    },
+
+    getConversation(conversationId: string): Promise<ApiResponse<Conversation>> {
+      return client.get(`/conversations/${encodeURIComponent(conversationId)}`)
+    },
+
+    /** Returns the existing direct conversation when there already is one */
+    createConversation(input: NewConversation): Promise<ApiResponse<Conversation>> {
+      return client.post('/conversations', input)
+    },
+
+    /** Rename and/or change the image (admins only) */
+    updateGroup(conversationId: string, settings: GroupSettings): Promise<ApiResponse<Conversation>> {
+      return client.patch(`/conversations/${encodeURIComponent(conversationId)}`, settings)
+    },
+
+    addParticipants(conversationId: string, userIds: string[]): Promise<ApiResponse<Conversation>> {
+      return client.post(`/conversations/${encodeURIComponent(conversationId)}/participants`, { userIds })
+    },
+
+    removeParticipant(conversationId: string, userId: string): Promise<ApiResponse<Conversation>> {
+      return client.delete(
+        `/conversations/${encodeURIComponent(conversationId)}/participants/${encodeURIComponent(userId)}`,
+      )
+    },
+
+    /** Make a member an admin (or, with isAdmin false, take it away) */
+    setAdmin(conversationId: string, userId: string, isAdmin: boolean): Promise<ApiResponse<Conversation>> {
+      const path = `/conversations/${encodeURIComponent(conversationId)}/admins/${encodeURIComponent(userId)}`
+      return isAdmin ? client.post(path) : client.delete(path)
+    },
+
+    /** The last admin leaving hands the role on; the last member deletes the group */
+    leaveConversation(conversationId: string): Promise<ApiResponse<null>> {
+      return client.post(`/conversations/${encodeURIComponent(conversationId)}/leave`)
+    },
+  }
+}
+
+export type ConversationsService = ReturnType<typeof createConversationsService>
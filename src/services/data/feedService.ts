@@ -0,0 +1,45 @@
+/**
+ * ============================================================================
+ * STEP 2.5: Feed Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * PURPOSE: Page through the home timeline and check for newer posts
+ *
+ * LEARNING NOTES:
+ * - Pass back `pagination.nextCursor` from the previous page to get the
+ *   next one; a null nextCursor means the end of the feed
+ */
+
+import type { ApiResponse, FeedMode, PaginatedResponse, Post } from '../../types'
+import type { ApiClient } from '../api/client'
+
+/**
+ * GetFeedParams
+ * - mode: 'latest' (default) or 'top'
+ * - cursor: nextCursor from the previous page; omit for the first page
+ * - limit: Posts per page
+ */
+export interface GetFeedParams {
+  mode?: FeedMode
+  cursor?: string | null
+  limit?: number
+}
+
+/**
+ * createFeedService - Feed endpoints bound to an ApiClient
+ */
+export function createFeedService(client: ApiClient) {
+  return {
+    getFeed({ mode = 'latest', cursor, limit }: GetFeedParams = {}): Promise<ApiResponse<PaginatedResponse<Post>>> {
+      return client.get('/feed', { mode, cursor: cursor ?? undefined, limit })
+    },
+
+    /** How many posts from other people arrived after `since` */
+    countNewPosts(since: Date): Promise<ApiResponse<{ count: number }>> {
+      return client.get('/feed/new-count', { since: since.toISOString() })
+    },
+  }
+}
+
+export type FeedService = ReturnType<typeof createFeedService>
@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Data Services - Grouped Under One Object
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.15 (moderation service)
+ * UPDATED: Feature Phase - Step 2.17 (media service)
+ * UPDATED: Feature Phase - Step 2.23 (archive service)
+ * PURPOSE: Build every service from a single ApiClient
+ *
+ * @example
+ * const api = createDataServices(client)
+ * const res = await api.posts.listPosts({ page: 2 })
+ */
+
+import type { ApiClient } from '../api/client'
+import { createArchiveService } from './archiveService'
+import { createCommentsService } from './commentsService'
+import { createConversationsService } from './conversationsService'
+import { createFeedService } from './feedService'
+import { createMediaService } from './mediaService'
+import { createMessagesService } from './messagesService'
+import { createModerationService } from './moderationService'
+import { createNotificationsService } from './notificationsService'
+import { createPostsService } from './postsService'
+import { createSearchService } from './searchService'
+import { createTagsService } from './tagsService'
+import { createUsersService } from './usersService'
+
+export type { PageParams } from './types'
+export type { UsersService } from './usersService'
+export type { ListPostsParams, ListSharesParams, PostChanges, PostsService } from './postsService'
+export type { CommentsService, ListCommentsParams, NewComment } from './commentsService'
+export type { ConversationsService, GroupSettings, NewConversation } from './conversationsService'
+export type { MessagesService, NewMessage } from './messagesService'
+export type { ListNotificationsParams, NotificationsService } from './notificationsService'
+export type { FeedService, GetFeedParams } from './feedService'
+export type { TagsService } from './tagsService'
+export type { SearchParams, SearchService } from './searchService'
+export type { ListModerationActionsParams, ModerationService } from './moderationService'
+export type { MediaService, NewUpload } from './mediaService'
+export type { ArchiveService } from './archiveService'
+
+/**
+ * createDataServices - All services sharing one client (and one transport)
+ */
+export function createDataServices(client: ApiClient) {
+  return {
+    users: createUsersService(client),
+    posts: createPostsService(client),
+    comments: createCommentsService(client),
+    conversations: createConversationsService(client),
+    messages: createMessagesService(client),
+    notifications: createNotificationsService(client),
+    feed: createFeedService(client),
+    tags: createTagsService(client),
+    search: createSearchService(client),
+    moderation: createModerationService(client),
+    media: createMediaService(client),
+    archive: createArchiveService(client),
+  }
+}
+
+export type DataServices = ReturnType<typeof createDataServices>
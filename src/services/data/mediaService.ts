@@ -0,0 +1,59 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Media Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: The upload endpoints, one request each
+ *
+ * LEARNING NOTES:
+ * - Components should not call these directly; services/media/uploader.ts
+ *   drives them (chunking, retries, resuming, progress)
+ * - A chunk is sent as a Blob, which transports pass on as raw bytes
+ */
+
+import type { ApiResponse, MediaAsset, MediaPurpose, UploadSession } from '../../types'
+import type { ApiClient } from '../api/client'
+
+/**
+ * NewUpload - What the server needs to know before the first byte
+ */
+export interface NewUpload {
+  fileName: string
+  mimeType: string
+  size: number
+  purpose: MediaPurpose
+}
+
+/**
+ * createMediaService - Upload endpoints bound to an ApiClient
+ */
+export function createMediaService(client: ApiClient) {
+  return {
+    /** Checks type and size, then opens a session */
+    startUpload(upload: NewUpload): Promise<ApiResponse<UploadSession>> {
+      return client.post('/uploads', upload)
+    },
+
+    /** The session as the server has it; receivedBytes is where to resume */
+    getUpload(uploadId: string): Promise<ApiResponse<UploadSession>> {
+      return client.get(`/uploads/${encodeURIComponent(uploadId)}`)
+    },
+
+    /** Sends the bytes starting at `offset` (must equal receivedBytes) */
+    uploadChunk(uploadId: string, offset: number, chunk: Blob): Promise<ApiResponse<UploadSession>> {
+      return client.put(`/uploads/${encodeURIComponent(uploadId)}`, chunk, { offset })
+    },
+
+    /** Processes the received file into a MediaAsset */
+    completeUpload(uploadId: string): Promise<ApiResponse<MediaAsset>> {
+      return client.post(`/uploads/${encodeURIComponent(uploadId)}/complete`)
+    },
+
+    cancelUpload(uploadId: string): Promise<ApiResponse<{ cancelled: true }>> {
+      return client.delete(`/uploads/${encodeURIComponent(uploadId)}`)
+    },
+  }
+}
+
+export type MediaService = ReturnType<typeof createMediaService>
@@ -0,0 +1,42 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Messages Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * PURPOSE: Read and send messages inside a conversation
+ */
+
+import type { ApiResponse, Message, PaginatedResponse } from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * NewMessage - Body for sendMessage
+ */
+export type NewMessage = Pick<Message, 'content'> & Partial<Pick<Message, 'type' | 'attachments'>>
+
+/**
+ * createMessagesService - Message endpoints bound to an ApiClient
+ */
+export function createMessagesService(client: ApiClient) {
+  const base = (conversationId: string) => `/conversations/${encodeURIComponent(conversationId)}`
+
+  return {
+    /** Newest message first; page 2 goes further back in time */
+    listMessages(conversationId: string, params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<Message>>> {
+      return client.get(`${base(conversationId)}/messages`, { ...params })
+    },
+
+    sendMessage(conversationId: string, message: NewMessage): Promise<ApiResponse<Message>> {
+      return client.post(`${base(conversationId)}/messages`, message)
+    },
+
+    /** Marks every message sent TO the signed-in user as read */
+    markConversationRead(conversationId: string): Promise<ApiResponse<{ updated: number }>> {
+      return client.post(`${base(conversationId)}/read`)
+    },
+  }
+}
+
+export type MessagesService = ReturnType<typeof createMessagesService>
@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * STEP 2.15: Moderation Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * PURPOSE: File reports, and (for moderators) work through the review
+ *          queue and read the audit trail
+ *
+ * LEARNING NOTES:
+ * - The queue and actions answer FORBIDDEN for anyone but a moderator;
+ *   hide their UI with User.role rather than waiting for that error
+ */
+
+import type {
+  ApiResponse,
+  ModerationAction,
+  ModerationActionForm,
+  ModerationQueueItem,
+  PaginatedResponse,
+  Report,
+  ReportForm,
+} from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * ListModerationActionsParams - Paging, optionally for one target only
+ */
+export interface ListModerationActionsParams extends PageParams {
+  targetId?: string
+}
+
+/**
+ * createModerationService - Report and moderation endpoints bound to an ApiClient
+ */
+export function createModerationService(client: ApiClient) {
+  return {
+    /** Reporting the same thing twice returns the first report */
+    report(form: ReportForm): Promise<ApiResponse<Report>> {
+      return client.post('/reports', form)
+    },
+
+    /** Open reports grouped per target, most reported first */
+    getQueue(): Promise<ApiResponse<ModerationQueueItem[]>> {
+      return client.get('/moderation/queue')
+    },
+
+    /** Acts on a target and resolves its open reports */
+    applyAction(form: ModerationActionForm): Promise<ApiResponse<ModerationAction>> {
+      return client.post('/moderation/actions', form)
+    },
+
+    /** The audit trail, newest first */
+    listActions(params: ListModerationActionsParams = {}): Promise<ApiResponse<PaginatedResponse<ModerationAction>>> {
+      return client.get('/moderation/actions', { ...params })
+    },
+  }
+}
+
+export type ModerationService = ReturnType<typeof createModerationService>
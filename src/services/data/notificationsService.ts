@@ -0,0 +1,67 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Notifications Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.10 (bulk read, per-type preferences)
+ * PURPOSE: Read notifications, mark them as read, and choose which types
+ *          to receive
+ *
+ * LEARNING NOTES:
+ * - New notifications arrive live over the chat connection (see
+ *   NotificationsProvider); this service is for pages and catch-up
+ */
+
+import type { ApiResponse, Notification, NotificationPreferences, NotificationType, PaginatedResponse } from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * ListNotificationsParams
+ * - unreadOnly: Skip notifications that were already read
+ */
+export interface ListNotificationsParams extends PageParams {
+  unreadOnly?: boolean
+}
+
+/**
+ * createNotificationsService - Notification endpoints bound to an ApiClient
+ */
+export function createNotificationsService(client: ApiClient) {
+  return {
+    listNotifications(
+      params: ListNotificationsParams = {},
+    ): Promise<ApiResponse<PaginatedResponse<Notification>>> {
+      return client.get('/notifications', { ...params })
+    },
+
+    getUnreadCount(): Promise<ApiResponse<{ count: number }>> {
+      return client.get('/notifications/unread-count')
+    },
+
+    markRead(notificationId: string): Promise<ApiResponse<Notification>> {
+      return client.post(`/notifications/${encodeURIComponent(notificationId)}/read`)
+    },
+
+    /** Marks several at once, e.g. every notification in a group */
+    markManyRead(notificationIds: string[]): Promise<ApiResponse<{ updated: number }>> {
+      return client.post('/notifications/read', { notificationIds })
+    },
+
+    markAllRead(): Promise<ApiResponse<{ updated: number }>> {
+      return client.post('/notifications/read-all')
+    },
+
+    getPreferences(): Promise<ApiResponse<NotificationPreferences>> {
+      return client.get('/notifications/preferences')
+    },
+
+    /** Replaces the list of muted types */
+    updatePreferences(muted: NotificationType[]): Promise<ApiResponse<NotificationPreferences>> {
+      return client.patch('/notifications/preferences', { muted })
+    },
+  }
+}
+
+export type NotificationsService = ReturnType<typeof createNotificationsService>
@@ -0,0 +1,109 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Posts Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.13 (list posts a user liked)
+ * UPDATED: Feature Phase - Step 2.14 (audience replaces isPublic)
+ * UPDATED: Feature Phase - Step 2.18 (reposts, shares list, edit history)
+ * UPDATED: Feature Phase - Step 2.19 (list posts with a hashtag)
+ * PURPOSE: List, read, create, edit, delete, like and repost posts
+ *
+ * LEARNING NOTES:
+ * - createPost validates the PostForm before sending; the backend validates
+ *   again, so both layers report the same field-level errors
+ */
+
+import type { ApiResponse, PaginatedResponse, Post, PostForm, PostRevision } from '../../types'
+import { validatePostForm } from '../../validation'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * ListPostsParams - Filters for listPosts
+ * - authorId: Only posts written by this user
+ * - likedBy: Only posts this user liked (Step 2.13)
+ * - tag: Only posts with this hashtag, in any spelling (Step 2.19)
+ */
+export interface ListPostsParams extends PageParams {
+  authorId?: string
+  likedBy?: string
+  tag?: string
+}
+
+/**
+ * ListSharesParams - Filters for listShares (Step 2.18)
+ * - type: Only reposts or only quotes (default: both)
+ */
+export interface ListSharesParams extends PageParams {
+  type?: 'repost' | 'quote'
+}
+
+/**
+ * PostChanges - Fields an author may edit after posting
+ */
+export type PostChanges = Partial<Pick<Post, 'content' | 'audience' | 'tags'>>
+
+/**
+ * createPostsService - Post endpoints bound to an ApiClient
+ */
+export function createPostsService(client: ApiClient) {
+  return {
+    listPosts(params: ListPostsParams = {}): Promise<ApiResponse<PaginatedResponse<Post>>> {
+      return client.get('/posts', { ...params })
+    },
+
+    getPost(postId: string): Promise<ApiResponse<Post>> {
+      return client.get(`/posts/${encodeURIComponent(postId)}`)
+    },
+
+    async createPost(form: PostForm): Promise<ApiResponse<Post>> {
+      const validation = validatePostForm(form)
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: 'Please fix the highlighted fields.',
+          errorCode: 'VALIDATION',
+          fieldErrors: validation.errors,
+        }
+      }
+      return client.post('/posts', form)
+    },
+
+    updatePost(postId: string, changes: PostChanges): Promise<ApiResponse<Post>> {
+      return client.patch(`/posts/${encodeURIComponent(postId)}`, changes)
+    },
+
+    deletePost(postId: string): Promise<ApiResponse<null>> {
+      return client.delete(`/posts/${encodeURIComponent(postId)}`)
+    },
+
+    likePost(postId: string): Promise<ApiResponse<Post>> {
+      return client.post(`/posts/${encodeURIComponent(postId)}/like`)
+    },
+
+    unlikePost(postId: string): Promise<ApiResponse<Post>> {
+      return client.delete(`/posts/${encodeURIComponent(postId)}/like`)
+    },
+
+    /** Reposts the post (or a repost's original); answers the original */
+    repostPost(postId: string): Promise<ApiResponse<Post>> {
+      return client.post(`/posts/${encodeURIComponent(postId)}/repost`)
+    },
+
+    undoRepost(postId: string): Promise<ApiResponse<Post>> {
+      return client.delete(`/posts/${encodeURIComponent(postId)}/repost`)
+    },
+
+    listShares(postId: string, params: ListSharesParams = {}): Promise<ApiResponse<PaginatedResponse<Post>>> {
+      return client.get(`/posts/${encodeURIComponent(postId)}/shares`, { ...params })
+    },
+
+    getRevisions(postId: string): Promise<ApiResponse<PostRevision[]>> {
+      return client.get(`/posts/${encodeURIComponent(postId)}/revisions`)
+    },
+  }
+}
+
+export type PostsService = ReturnType<typeof createPostsService>
@@ -0,0 +1,34 @@
+/**
+ * ============================================================================
+ * STEP 2.11: Search Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.11 (Search)
+ * PURPOSE: Find users and posts matching a query
+ *
+ * LEARNING NOTES:
+ * - Results are a mix of users and posts (SearchResult is a union); check
+ *   `kind` before reading `user` or `post`
+ */
+
+import type { ApiResponse, PaginatedResponse, SearchFilters, SearchResult } from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * SearchParams - SearchFilters plus which page to fetch
+ */
+export type SearchParams = SearchFilters & PageParams
+
+/**
+ * createSearchService - Search endpoint bound to an ApiClient
+ */
+export function createSearchService(client: ApiClient) {
+  return {
+    search({ query, type, sortBy, page, limit }: SearchParams): Promise<ApiResponse<PaginatedResponse<SearchResult>>> {
+      return client.get('/search', { q: query, type, sortBy, page, limit })
+    },
+  }
+}
+
+export type SearchService = ReturnType<typeof createSearchService>
@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * STEP 2.6: Tags Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.19 (tag pages, following tags, trending)
+ * PURPOSE: Look up hashtags by prefix for composer autocomplete, show a
+ *          tag's page, follow tags and read what is trending
+ *
+ * LEARNING NOTES:
+ * - Tags go into the URL with encodeURIComponent: they may be in any
+ *   script, and the server normalizes whatever spelling arrives
+ */
+
+import type { ApiResponse, HashtagDetails, HashtagSummary, TrendWindow, TrendingTag } from '../../types'
+import type { ApiClient } from '../api/client'
+
+/**
+ * tagUrl - '/tags/:tag' for a tag (with or without its leading #)
+ */
+function tagUrl(tag: string): string {
+  return `/tags/${encodeURIComponent(tag.replace(/^#/, ''))}`
+}
+
+/**
+ * createTagsService - Hashtag endpoints bound to an ApiClient
+ */
+export function createTagsService(client: ApiClient) {
+  return {
+    /** Most-used tags starting with `prefix` (no leading #) */
+    suggestTags(prefix: string, limit = 5): Promise<ApiResponse<HashtagSummary[]>> {
+      return client.get('/tags', { q: prefix, limit })
+    },
+
+    getTag(tag: string): Promise<ApiResponse<HashtagDetails>> {
+      return client.get(tagUrl(tag))
+    },
+
+    followTag(tag: string): Promise<ApiResponse<HashtagDetails>> {
+      return client.post(`${tagUrl(tag)}/follow`)
+    },
+
+    unfollowTag(tag: string): Promise<ApiResponse<HashtagDetails>> {
+      return client.delete(`${tagUrl(tag)}/follow`)
+    },
+
+    /** The tags the signed-in user follows, oldest first */
+    getFollowedTags(): Promise<ApiResponse<{ tags: string[] }>> {
+      return client.get('/tags/followed')
+    },
+
+    /** Tags growing fastest over the window, compared with the windows before it */
+    getTrending(trendWindow: TrendWindow = 'day', limit = 5): Promise<ApiResponse<TrendingTag[]>> {
+      return client.get('/tags/trending', { window: trendWindow, limit })
+    },
+  }
+}
+
+export type TagsService = ReturnType<typeof createTagsService>
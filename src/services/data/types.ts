@@ -0,0 +1,18 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Data Service Types - Shared Parameter Shapes
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * PURPOSE: Request parameter types used by more than one service
+ */
+
+/**
+ * PageParams - Which page of a paginated list to fetch
+ * - page: 1-based page number (default 1)
+ * - limit: Items per page (default 20, server caps it at 50)
+ */
+export interface PageParams {
+  page?: number
+  limit?: number
+}
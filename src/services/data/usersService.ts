@@ -0,0 +1,145 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Users Service
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.6 (prefix suggestions for @mentions)
+ * UPDATED: Feature Phase - Step 2.10 (follow and unfollow)
+ * UPDATED: Feature Phase - Step 2.12 (follow lists, mutuals, suggestions)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests, blocking, muting)
+ * UPDATED: Feature Phase - Step 2.15 (muted keywords)
+ * PURPOSE: Read user profiles and the follow graph
+ *
+ * LEARNING NOTES:
+ * - Every method resolves with an ApiResponse; check `success` (or use
+ *   unwrap()) before reading `data`
+ * - Profile updates for the signed-in user go through useAuth().updateProfile
+ * - Users carry follower and following COUNTS only; who they are comes
+ *   from the paged lists (listFollowers, listFollowing, listMutuals)
+ */
+
+import type { Account, ApiResponse, FollowStatus, FollowSuggestion, PaginatedResponse, User } from '../../types'
+import type { ApiClient } from '../api/client'
+import type { PageParams } from './types'
+
+/**
+ * createUsersService - User endpoints bound to an ApiClient
+ */
+export function createUsersService(client: ApiClient) {
+  return {
+    /** The signed-in user, with the account fields other users never get */
+    getMe(): Promise<ApiResponse<Account>> {
+      return client.get('/users/me')
+    },
+
+    getUser(userId: string): Promise<ApiResponse<User>> {
+      return client.get(`/users/${encodeURIComponent(userId)}`)
+    },
+
+    /** Case-insensitive lookup, used by /u/:username pages */
+    getUserByUsername(username: string): Promise<ApiResponse<User>> {
+      return client.get(`/users/by-username/${encodeURIComponent(username)}`)
+    },
+
+    /** Batch lookup; unknown IDs are silently skipped */
+    getUsers(userIds: string[]): Promise<ApiResponse<User[]>> {
+      return client.get('/users', { ids: userIds.join(',') })
+    },
+
+    /** Users whose username or name starts with `prefix` (for @mentions) */
+    suggestUsers(prefix: string, limit = 5): Promise<ApiResponse<User[]>> {
+      return client.get('/users', { q: prefix, limit })
+    },
+
+    /**
+     * Follows a user; resolves with the new counts and relationship. For a
+     * private account this only sends a request (FollowStatus.isRequested)
+     */
+    followUser(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.post(`/users/${encodeURIComponent(userId)}/follow`)
+    },
+
+    /** Unfollows, or withdraws a pending follow request */
+    unfollowUser(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.delete(`/users/${encodeURIComponent(userId)}/follow`)
+    },
+
+    /** Follower counts and whether the viewer follows them (and vice versa) */
+    getFollowStatus(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.get(`/users/${encodeURIComponent(userId)}/follow-status`)
+    },
+
+    /** Newest followers first */
+    listFollowers(userId: string, params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<User>>> {
+      return client.get(`/users/${encodeURIComponent(userId)}/followers`, { ...params })
+    },
+
+    /** Most recently followed first */
+    listFollowing(userId: string, params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<User>>> {
+      return client.get(`/users/${encodeURIComponent(userId)}/following`, { ...params })
+    },
+
+    /** People the viewer follows who also follow `userId` */
+    listMutuals(userId: string, params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<User>>> {
+      return client.get(`/users/${encodeURIComponent(userId)}/mutuals`, { ...params })
+    },
+
+    /** "Who to follow" for the signed-in user */
+    getSuggestions(limit = 5): Promise<ApiResponse<FollowSuggestion[]>> {
+      return client.get('/users/me/suggestions', { limit })
+    },
+
+    /** People waiting for the signed-in user's approval, newest first */
+    listFollowRequests(params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<User>>> {
+      return client.get('/users/me/follow-requests', { ...params })
+    },
+
+    /** Approves a request; resolves with the requester's status */
+    approveFollowRequest(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.post(`/users/me/follow-requests/${encodeURIComponent(userId)}`)
+    },
+
+    declineFollowRequest(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.delete(`/users/me/follow-requests/${encodeURIComponent(userId)}`)
+    },
+
+    /** Blocks a user; also removes follows in both directions */
+    blockUser(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.post(`/users/${encodeURIComponent(userId)}/block`)
+    },
+
+    unblockUser(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.delete(`/users/${encodeURIComponent(userId)}/block`)
+    },
+
+    /** Hides a user's posts, comments and notifications from the viewer */
+    muteUser(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.post(`/users/${encodeURIComponent(userId)}/mute`)
+    },
+
+    unmuteUser(userId: string): Promise<ApiResponse<FollowStatus>> {
+      return client.delete(`/users/${encodeURIComponent(userId)}/mute`)
+    },
+
+    listBlockedUsers(params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<User>>> {
+      return client.get('/users/me/blocks', { ...params })
+    },
+
+    listMutedUsers(params: PageParams = {}): Promise<ApiResponse<PaginatedResponse<User>>> {
+      return client.get('/users/me/mutes', { ...params })
+    },
+
+    /** Words and phrases the signed-in user never wants to see */
+    getMutedKeywords(): Promise<ApiResponse<{ keywords: string[] }>> {
+      return client.get('/users/me/muted-keywords')
+    },
+
+    /** Replaces the whole list; resolves with it normalized */
+    setMutedKeywords(keywords: string[]): Promise<ApiResponse<{ keywords: string[] }>> {
+      return client.patch('/users/me/muted-keywords', { keywords })
+    },
+  }
+}
+
+export type UsersService = ReturnType<typeof createUsersService>
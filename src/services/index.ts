@@ -0,0 +1,169 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Services - Composition Root
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.8 (chat transport)
+ * UPDATED: Feature Phase - Step 2.10 (live notifications through the hub)
+ * UPDATED: Feature Phase - Step 2.16 (offline cache and outbox around the transport)
+ * UPDATED: Feature Phase - Step 2.17 (media storage for the mock, shared uploader)
+ * UPDATED: Feature Phase - Step 2.21 (live events through the hub, shared live client)
+ * UPDATED: Feature Phase - Step 2.22 (shared auth backend and mail transport)
+ * PURPOSE: Decide ONCE which backend the whole app talks to
+ *
+ * How the Transport Is Chosen:
+ * - VITE_API_URL set (e.g. in .env.local) → real server over HTTP
+ * - Otherwise → in-browser mock server seeded with fixture data
+ *
+ * How the Chat Transport Is Chosen:
+ * - VITE_CHAT_URL set → WebSocket to that URL (the dev server serves a
+ *   stand-in at ws://localhost:5173/chat, see server/chatServer.ts)
+ * - Otherwise → in-page loopback to a chat hub over the mock database,
+ *   which also pushes the notifications, likes, comments, posts and
+ *   follows the mock server publishes
+ * - liveClient rides on the same connection (services/live)
+ *
+ * Offline Layer:
+ * - Whichever transport is chosen is wrapped in createOfflineTransport:
+ *   GETs are cached in IndexedDB and served from there without a
+ *   connection; likes, comments and new posts are queued and replayed
+ *   (services/offline)
+ * - chatCache keeps conversations and unsent messages for ChatProvider
+ *
+ * Where the Mock Keeps Uploads:
+ * - `npm run dev` → on the dev server's disk (server/mediaServer.ts), so
+ *   files outlive a reload just like the mock database does
+ * - Any other build → in memory, as object URLs
+ * - The auth backend deletes a deleted account's files from the same
+ *   storage
+ *
+ * Where Mail Goes:
+ * - Into a capture outbox in localStorage, readable at /dev/mail; a real
+ *   deployment passes an SMTP or provider transport to the auth backend
+ *   instead
+ *
+ * LEARNING NOTES:
+ * - "Composition root" = the single place where implementations are wired
+ *   together; everything else depends only on interfaces
+ * - Components import { api } from here; tests build their own services
+ *   with createDataServices(createApiClient(someTransport))
+ *
+ * @example
+ * import { api } from '../services'
+ * const res = await api.posts.getPost(id)
+ */
+
+import { createApiClient, createHttpTransport, type Transport } from './api'
+import { createLocalAuthBackend, readSessionToken } from './auth'
+import { createLocalChatTransport, createWebSocketTransport, type ChatTransport } from './chat'
+import { createDataServices } from './data'
+import { createLiveClient } from './live'
+import { createCaptureMailTransport } from './mail'
+import { createDevServerMediaStorage, createMemoryMediaStorage, createUploader } from './media'
+import {
+  createChatHub,
+  createMockServer,
+  createMockTransport,
+  getMockDatabase,
+  subscribeToActivity,
+  subscribeToNotifications,
+} from './mock'
+import { createChatCache, createOfflineStorage, createOfflineTransport } from './offline'
+
+/**
+ * mockMedia - Where the mock server and the local auth backend keep files
+ */
+const mockMedia = import.meta.env.DEV ? createDevServerMediaStorage() : createMemoryMediaStorage()
+
+/**
+ * createDefaultTransport - HTTP when configured, mock otherwise
+ */
+function createDefaultTransport(): Transport {
+  const baseUrl = import.meta.env.VITE_API_URL
+  if (baseUrl) {
+    return createHttpTransport({ baseUrl })
+  }
+  return createMockTransport(createMockServer(getMockDatabase(), { media: mockMedia }))
+}
+
+/**
+ * mailTransport - Captures account emails for the dev mailbox
+ */
+export const mailTransport = createCaptureMailTransport()
+
+/**
+ * authBackend - Shared backend used by AuthProvider
+ */
+export const authBackend = createLocalAuthBackend({ mail: mailTransport, media: mockMedia })
+
+/**
+ * offlineStorage - This browser's IndexedDB database (memory when missing)
+ */
+export const offlineStorage = createOfflineStorage()
+
+/**
+ * offlineTransport - The default transport with caching and the outbox
+ *
+ * OfflineProvider tells it who is signed in and shows its status.
+ */
+export const offlineTransport = createOfflineTransport(createDefaultTransport(), {
+  storage: offlineStorage,
+  getToken: readSessionToken,
+})
+
+/**
+ * apiClient - Shared client; sends the current session token on every call
+ */
+export const apiClient = createApiClient(offlineTransport, { getToken: readSessionToken })
+
+/**
+ * api - Every data service, ready to use
+ */
+export const api = createDataServices(apiClient)
+
+/**
+ * uploader - Chunked, resumable uploads through api.media
+ */
+export const uploader = createUploader(api.media)
+
+/**
+ * createDefaultChatTransport - WebSocket when configured, loopback otherwise
+ *
+ * The loopback hub authenticates 'hello' against the mock sessions table,
+ * the same way the mock API server checks tokens.
+ */
+function createDefaultChatTransport(): ChatTransport {
+  const url = import.meta.env.VITE_CHAT_URL
+  if (url) {
+    return createWebSocketTransport({ url })
+  }
+  const hub = createChatHub({
+    getTables: () => getMockDatabase().tables,
+    commit: () => getMockDatabase().commit(),
+    authenticate: (token) => {
+      const session = getMockDatabase().tables.sessions.find((s) => s.token === token)
+      return session && session.expiresAt.getTime() > Date.now() ? session.userId : null
+    },
+    subscribeNotifications: subscribeToNotifications,
+    subscribeActivity: subscribeToActivity,
+    media: mockMedia,
+  })
+  return createLocalChatTransport({ hub })
+}
+
+/**
+ * chatTransport - Shared real-time connection used by ChatProvider
+ */
+export const chatTransport = createDefaultChatTransport()
+
+/**
+ * liveClient - Live likes, comments, posts, follows and notifications,
+ * over chatTransport
+ */
+export const liveClient = createLiveClient(chatTransport)
+
+/**
+ * chatCache - Cached conversations and unsent messages for ChatProvider
+ */
+export const chatCache = createChatCache(offlineStorage)
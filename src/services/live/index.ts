@@ -0,0 +1,11 @@
+/**
+ * ============================================================================
+ * STEP 2.21: Live Services - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: Re-exports the live client
+ */
+
+export { createLiveClient } from './liveClient'
+export type { LiveClient } from './liveClient'
@@ -0,0 +1,152 @@
+/**
+ * ============================================================================
+ * STEP 2.21: Live Client Tests - Resume, Dropped Duplicates and Watching
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: Check what the client sends on every 'ready', that frames at or
+ *          below the last sequence number are dropped, and that an event
+ *          delivered twice anyway leaves the stored post as it was
+ *
+ * Fixtures Used:
+ * - A transport stand-in: the test plays the server by emitting
+ *   ServerEvents and reads what the client sent
+ * - post-1 (liked by Bob, Carol and Erin), loaded from the mock backend
+ *   for the store test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Post } from '../../types'
+import { appStore } from '../../store/appStore'
+import { applyLiveEvent, receivePosts } from '../../store/mutations'
+import { selectPost } from '../../store/selectors'
+import { createTestBackend } from '../../test/mockBackend'
+import type { ChatTransport, ClientEvent, ConnectionStatus, LiveEvent, ServerEvent } from '../chat'
+import { createEmitter } from '../chat/emitter'
+import { createLiveClient, type LiveClient } from './liveClient'
+
+const LIKE: LiveEvent = { type: 'post-liked', postId: 'post-1', userId: 'user-dave', liked: true }
+
+let sent: ClientEvent[]
+let server: ReturnType<typeof createEmitter<ServerEvent>>
+let statuses: ReturnType<typeof createEmitter<ConnectionStatus>>
+let client: LiveClient
+
+beforeEach(() => {
+  sent = []
+  server = createEmitter<ServerEvent>()
+  statuses = createEmitter<ConnectionStatus>()
+  const transport: ChatTransport = {
+    status: 'open',
+    connect() {},
+    disconnect() {},
+    send(event) {
+      sent.push(event)
+      return true
+    },
+    onEvent: server.subscribe,
+    onStatus: statuses.subscribe,
+  }
+  client = createLiveClient(transport)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+/** Plays a (re)connect: 'ready', then the server's answer to resume */
+const reconnect = (userId: string, resumed: Omit<Extract<ServerEvent, { type: 'resumed' }>, 'type'>) => {
+  sent.length = 0
+  server.emit({ type: 'ready', userId })
+  server.emit({ type: 'resumed', ...resumed })
+}
+
+const sentResume = () => sent.find((event) => event.type === 'resume')
+
+describe('resuming', () => {
+  it('starts from nothing, then resumes from the epoch and number it last saw', () => {
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 4, complete: false })
+    expect(sentResume()).toEqual({ type: 'resume', epoch: null, after: 0 })
+    server.emit({ type: 'live', seq: 5, event: LIKE })
+
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 5, complete: true })
+    expect(sentResume()).toEqual({ type: 'resume', epoch: 'epoch-1', after: 5 })
+  })
+
+  it('tells onResumed whether the replay was complete', () => {
+    const resumes: boolean[] = []
+    client.onResumed((complete) => resumes.push(complete))
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 0, complete: false })
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 0, complete: true })
+    expect(resumes).toEqual([false, true])
+  })
+
+  it('starts over for a different user', () => {
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 3, complete: false })
+    reconnect('user-alice', { epoch: 'epoch-1', seq: 3, complete: false })
+    expect(sentResume()).toEqual({ type: 'resume', epoch: null, after: 0 })
+  })
+})
+
+describe('live frames', () => {
+  it('delivers each number once and drops those at or below the last one seen', () => {
+    const events: LiveEvent[] = []
+    client.onEvent((event) => events.push(event))
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 2, complete: false })
+    server.emit({ type: 'live', seq: 2, event: LIKE })
+    server.emit({ type: 'live', seq: 3, event: LIKE })
+    server.emit({ type: 'live', seq: 3, event: LIKE })
+    server.emit({ type: 'live', seq: 1, event: LIKE })
+    server.emit({ type: 'live', seq: 4, event: { ...LIKE, liked: false } })
+    expect(events).toEqual([LIKE, { ...LIKE, liked: false }])
+  })
+})
+
+describe('applying events', () => {
+  it('leaves likes unchanged when the same post-liked event is applied twice', async () => {
+    const backend = createTestBackend()
+    const { data: post } = await backend.request<Post>('GET', '/posts/post-1')
+    receivePosts([post!])
+    const likes = () => selectPost('post-1')(appStore.getState())?.likes
+
+    applyLiveEvent(LIKE)
+    const once = likes()
+    applyLiveEvent(LIKE)
+    expect(likes()).toEqual(once)
+    expect(once).toEqual([...post!.likes, 'user-dave'])
+
+    applyLiveEvent({ ...LIKE, liked: false })
+    applyLiveEvent({ ...LIKE, liked: false })
+    expect(likes()).toEqual(post!.likes)
+  })
+})
+
+describe('watching', () => {
+  it('sends one watch per tick and keeps a post until every watcher let go', () => {
+    vi.useFakeTimers()
+    reconnect('user-bob', { epoch: 'epoch-1', seq: 0, complete: false })
+    sent.length = 0
+    const card = client.watch(['post-1', 'post-2'])
+    const detail = client.watch(['post-1'])
+    vi.runAllTimers()
+    expect(sent).toEqual([{ type: 'watch', postIds: ['post-1', 'post-2'] }])
+
+    card()
+    card()
+    vi.runAllTimers()
+    expect(sent.at(-1)).toEqual({ type: 'watch', postIds: ['post-1'] })
+    detail()
+    vi.runAllTimers()
+    expect(sent.at(-1)).toEqual({ type: 'watch', postIds: [] })
+  })
+
+  it('waits for the next ready while the connection is down', () => {
+    vi.useFakeTimers()
+    statuses.emit('connecting')
+    client.watch(['post-1'])
+    vi.runAllTimers()
+    expect(sent).toEqual([])
+    server.emit({ type: 'ready', userId: 'user-bob' })
+    expect(sent[0]).toEqual({ type: 'watch', postIds: ['post-1'] })
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * ============================================================================
+ * STEP 2.21: Live Client - Numbered Live Events Over the Chat Connection
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: Tell the server which posts are on screen, resume the live
+ *          stream after every (re)connect, and hand each event to the app
+ *          exactly once
+ *
+ * How It Works:
+ * 1. ChatProvider connects and says hello; the server answers 'ready'
+ * 2. This client sends 'watch' (the posts watched now) and 'resume' (the
+ *    last sequence number it saw)
+ * 3. The server replays what was missed, then answers 'resumed'; after
+ *    that every 'live' frame is a new event
+ * 4. If the replay was not complete (first connect, server restarted, or
+ *    away too long), onResumed listeners hear `false` and reload what they
+ *    show
+ *
+ * Watching Posts:
+ * - watch() is counted per post: two cards showing the same post both
+ *   watch it, and it stays watched until both stop
+ * - Changes are sent together on the next tick, so a feed page mounting
+ *   twenty cards sends one 'watch', not twenty
+ *
+ * LEARNING NOTES:
+ * - Frames numbered at or below the last one seen are dropped; that is
+ *   what makes a replay overlapping a live push harmless
+ * - A different user on the same connection starts over from nothing:
+ *   their stream has nothing to do with the previous user's
+ */
+
+import type { ChatTransport } from '../chat'
+import { createEmitter } from '../chat/emitter'
+import type { LiveEvent } from '../chat/protocol'
+
+/**
+ * LiveClient - Live events for the signed-in user
+ */
+export interface LiveClient {
+  /** Watches the posts until the returned function is called */
+  watch(postIds: string[]): () => void
+  /** Subscribes to live events (each delivered once) */
+  onEvent(listener: (event: LiveEvent) => void): () => void
+  /** Subscribes to resumes; `complete` is false when events were missed */
+  onResumed(listener: (complete: boolean) => void): () => void
+}
+
+/**
+ * createLiveClient - A LiveClient on top of a chat transport
+ *
+ * The transport is not connected here; ChatProvider does that.
+ */
+export function createLiveClient(transport: ChatTransport): LiveClient {
+  const events = createEmitter<LiveEvent>()
+  const resumes = createEmitter<boolean>()
+  const watchCounts = new Map<string, number>()
+
+  let userId: string | null = null
+  let epoch: string | null = null
+  let lastSeq = 0
+  let ready = false
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  const sendWatch = () => {
+    transport.send({ type: 'watch', postIds: [...watchCounts.keys()] })
+  }
+
+  const scheduleWatch = () => {
+    if (flushTimer) return
+    flushTimer = setTimeout(() => {
+      flushTimer = null
+      if (ready) sendWatch()
+    }, 0)
+  }
+
+  transport.onStatus((status) => {
+    if (status !== 'open') ready = false
+  })
+
+  transport.onEvent((event) => {
+    switch (event.type) {
+      case 'ready':
+        if (event.userId !== userId) {
+          userId = event.userId
+          epoch = null
+          lastSeq = 0
+        }
+        ready = true
+        sendWatch()
+        transport.send({ type: 'resume', epoch, after: lastSeq })
+        break
+      case 'live':
+        if (event.seq <= lastSeq) return
+        lastSeq = event.seq
+        events.emit(event.event)
+        break
+      case 'resumed':
+        epoch = event.epoch
+        lastSeq = event.seq
+        resumes.emit(event.complete)
+        break
+    }
+  })
+
+  return {
+    watch(postIds) {
+      const ids = [...new Set(postIds)]
+      let changed = false
+      for (const id of ids) {
+        const count = watchCounts.get(id) ?? 0
+        watchCounts.set(id, count + 1)
+        changed ||= count === 0
+      }
+      if (changed) scheduleWatch()
+
+      let released = false
+      return () => {
+        if (released) return
+        released = true
+        for (const id of ids) {
+          const count = (watchCounts.get(id) ?? 1) - 1
+          if (count > 0) {
+            watchCounts.set(id, count)
+          } else {
+            watchCounts.delete(id)
+            scheduleWatch()
+          }
+        }
+      }
+    },
+
+    onEvent: events.subscribe,
+    onResumed: resumes.subscribe,
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * ============================================================================
+ * STEP 2.22: Capture Mail Transport - A Local Outbox Instead of Delivery
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * PURPOSE: "Send" mail during development by keeping it, so verification
+ *          and reset links can be opened from the dev mailbox (/dev/mail)
+ *
+ * How It Works:
+ * - send() appends to an outbox saved in localStorage, newest first
+ * - The outbox keeps the last MAX_MESSAGES mails
+ * - subscribe() hears about mail sent from this tab and, through the
+ *   'storage' event, from other tabs
+ *
+ * LEARNING NOTES:
+ * - Like the local auth backend, this is for DEVELOPMENT ONLY: anything
+ *   in the outbox can be read by any script on the page
+ */
+
+import { createId } from '../../utils/ids'
+import { readJson, writeJson } from '../../utils/storage'
+import { createEmitter } from '../chat/emitter'
+import type { MailMessage, MailTransport } from './types'
+
+/**
+ * CaptureMailTransport - A MailTransport whose mail can be read back
+ */
+export interface CaptureMailTransport extends MailTransport {
+  /** Every kept mail, newest first */
+  list(): MailMessage[]
+  /** Empties the outbox */
+  clear(): void
+  /** Calls `listener` whenever the outbox changes */
+  subscribe(listener: () => void): () => void
+}
+
+/** localStorage key (without the app prefix) */
+const OUTBOX_KEY = 'mail.outbox'
+
+/** Oldest mails are dropped beyond this */
+const MAX_MESSAGES = 50
+
+/**
+ * createCaptureMailTransport - A MailTransport that keeps what it sends
+ */
+export function createCaptureMailTransport(): CaptureMailTransport {
+  const changes = createEmitter<void>()
+
+  const save = (messages: MailMessage[]) => {
+    writeJson(OUTBOX_KEY, messages)
+    changes.emit()
+  }
+
+  return {
+    async send(mail) {
+      const message: MailMessage = { ...mail, id: createId('mail'), createdAt: new Date() }
+      save([message, ...readJson<MailMessage[]>(OUTBOX_KEY, [])].slice(0, MAX_MESSAGES))
+      return message
+    },
+
+    list() {
+      return readJson<MailMessage[]>(OUTBOX_KEY, [])
+    },
+
+    clear() {
+      save([])
+    },
+
+    subscribe(listener) {
+      const unsubscribe = changes.subscribe(listener)
+      const onStorage = (event: StorageEvent) => {
+        if (event.key?.endsWith(OUTBOX_KEY)) listener()
+      }
+      window.addEventListener('storage', onStorage)
+      return () => {
+        unsubscribe()
+        window.removeEventListener('storage', onStorage)
+      }
+    },
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * ============================================================================
+ * STEP 2.22: Mail - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * PURPOSE: Re-exports the mail contract and the local capture transport
+ */
+
+export { createCaptureMailTransport } from './captureTransport'
+export type { CaptureMailTransport } from './captureTransport'
+export type { MailMessage, MailTransport, OutgoingMail } from './types'
@@ -0,0 +1,42 @@
+/**
+ * ============================================================================
+ * STEP 2.22: Mail Contract - Sending Email
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * PURPOSE: Describe how the app sends email, without saying how it gets
+ *          delivered
+ *
+ * LEARNING NOTES:
+ * - Same idea as AuthBackend (services/auth/types.ts): the auth backend
+ *   only knows MailTransport, so an SMTP or provider API transport can
+ *   replace the local capture one without touching it
+ * - Messages are plain text; links are absolute so they work when opened
+ *   from a mail client
+ */
+
+/**
+ * OutgoingMail - What a sender hands to the transport
+ */
+export interface OutgoingMail {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * MailMessage - A mail after it was sent
+ */
+export interface MailMessage extends OutgoingMail {
+  id: string
+  createdAt: Date
+}
+
+/**
+ * MailTransport - Anything that can send a mail
+ *
+ * Resolves once the mail was accepted for delivery.
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<MailMessage>
+}
@@ -0,0 +1,16 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Media - Public Surface
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Re-export the media pipeline so callers import from one place
+ */
+
+export { createDevServerMediaStorage, createMemoryMediaStorage } from './storage'
+export type { DevServerMediaStorageOptions, MediaStorage } from './storage'
+export { sniffMimeType, stripImageMetadata } from './metadata'
+export { processImage } from './processing'
+export type { ImageDetails } from './processing'
+export { createUploader, UploadError } from './uploader'
+export type { UploadOptions, UploadProgress, Uploader } from './uploader'
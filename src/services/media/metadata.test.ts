@@ -0,0 +1,58 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Metadata Stripping Tests
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Check that metadata blocks are dropped, the rest is copied
+ *          byte for byte, and files that do not parse are refused
+ */
+
+import { describe, expect, it } from 'vitest'
+import { stripImageMetadata } from './metadata'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0))
+
+/**
+ * pngChunk - Length, type, data and a (never checked) CRC
+ */
+const pngChunk = (type: string, data: number[]) => [0, 0, 0, data.length, ...ascii(type), ...data, 0, 0, 0, 0]
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+describe('stripImageMetadata', () => {
+  it('drops the EXIF segment of a JPEG and keeps the image data', () => {
+    const exif = [0xff, 0xe1, 0x00, 0x04, 0x45, 0x78]
+    const quantization = [0xff, 0xdb, 0x00, 0x03, 0x01]
+    const scan = [0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]
+    const stripped = stripImageMetadata(bytes(0xff, 0xd8, ...exif, ...quantization, ...scan), 'image/jpeg')
+    expect(stripped).toEqual(bytes(0xff, 0xd8, ...quantization, ...scan))
+  })
+
+  it('drops the text chunks of a PNG', () => {
+    const header = pngChunk('IHDR', [1, 2, 3])
+    const end = pngChunk('IEND', [])
+    const png = bytes(...PNG_SIGNATURE, ...header, ...pngChunk('tEXt', ascii('GPS')), ...end)
+    expect(stripImageMetadata(png, 'image/png')).toEqual(bytes(...PNG_SIGNATURE, ...header, ...end))
+  })
+
+  it('refuses a JPEG that ends before its image data', () => {
+    expect(stripImageMetadata(bytes(0xff, 0xd8, 0xff, 0xe1, 0x00, 0x40, 0x45, 0x78), 'image/jpeg')).toBeNull()
+    expect(stripImageMetadata(bytes(0xff, 0xd8, 0x00, 0x00, 0x00, 0x00), 'image/jpeg')).toBeNull()
+  })
+
+  it('refuses a PNG or WebP whose chunk runs past the end', () => {
+    const png = bytes(...PNG_SIGNATURE, 0, 0, 0, 0x40, ...ascii('tEXt'), 0, 0, 0, 0)
+    expect(stripImageMetadata(png, 'image/png')).toBeNull()
+    const riff = [...ascii('RIFF'), 0, 0, 0, 0, ...ascii('WEBP')]
+    const webp = bytes(...riff, ...ascii('EXIF'), 0x40, 0, 0, 0, 0x01)
+    expect(stripImageMetadata(webp, 'image/webp')).toBeNull()
+  })
+
+  it('leaves formats without stripping alone', () => {
+    const gif = bytes(0x47, 0x49, 0x46, 0x38, 0x39, 0x61)
+    expect(stripImageMetadata(gif, 'image/gif')).toBe(gif)
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * ============================================================================
+ * STEP 2.17: File Bytes - Type Detection and Metadata Stripping
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Decide what a file really is from its first bytes, and remove
+ *          camera metadata (EXIF) before an image is stored
+ *
+ * Why Sniff Instead of Trusting file.type:
+ * - The browser guesses `type` from the file name; renaming virus.exe to
+ *   cat.jpg is enough to fool it. The first bytes ("magic numbers") of
+ *   every supported format are fixed, so they are checked instead
+ *
+ * Why Strip Metadata:
+ * - Phone photos carry EXIF: GPS coordinates of where they were taken,
+ *   the camera serial number, sometimes a full-size original as the
+ *   thumbnail. Posting such a photo publishes the owner's home address
+ * - Only metadata blocks are dropped; the pixel data is copied byte for
+ *   byte, so nothing is re-encoded and no quality is lost
+ *
+ * Formats:
+ * - JPEG: APP1 (EXIF, XMP), APP13 (IPTC) and comment segments
+ * - PNG: eXIf, tEXt, zTXt, iTXt and tIME chunks
+ * - WebP: EXIF and XMP chunks (and their flags in the VP8X header)
+ * - GIF and PDF are stored as they are
+ * - An image whose blocks do not parse is refused, not stored as it came:
+ *   metadata could hide anywhere in a file we cannot read
+ *
+ * LEARNING NOTES:
+ * - JPEG's APP2 segment holds the ICC colour profile; it is kept, since
+ *   dropping it changes how colours look
+ * - Rotation is part of EXIF. Images re-encoded in the browser
+ *   (resizeImage) are already drawn upright, so nothing is lost there
+ */
+
+// ============================================================================
+// TYPE DETECTION
+// ============================================================================
+
+/**
+ * SIGNATURES - Magic numbers at the start of each supported format
+ * - null in a pattern matches any byte (WebP stores its size there)
+ */
+const SIGNATURES: { mimeType: string; pattern: (number | null)[] }[] = [
+  { mimeType: 'image/jpeg', pattern: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', pattern: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/gif', pattern: [0x47, 0x49, 0x46, 0x38] },
+  {
+    mimeType: 'image/webp',
+    pattern: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  },
+  { mimeType: 'application/pdf', pattern: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+]
+
+/**
+ * sniffMimeType - The format a file's first bytes announce, or null
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  const match = SIGNATURES.find(({ pattern }) =>
+    pattern.every((expected, index) => expected === null || bytes[index] === expected),
+  )
+  return match?.mimeType ?? null
+}
+
+// ============================================================================
+// METADATA STRIPPING
+// ============================================================================
+
+/** JPEG segments dropped: APP1 (EXIF/XMP), APP13 (IPTC), COM (comment) */
+const JPEG_DROPPED_MARKERS = new Set([0xe1, 0xed, 0xfe])
+const JPEG_START_OF_SCAN = 0xda
+
+const PNG_DROPPED_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'])
+const WEBP_DROPPED_CHUNKS = new Set(['EXIF', 'XMP '])
+/** VP8X flag bits announcing EXIF (0x08) and XMP (0x04) chunks */
+const WEBP_METADATA_FLAGS = 0x08 | 0x04
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length))
+
+/**
+ * concat - Joins byte ranges into one array
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * stripJpeg - Copies every segment except the dropped ones
+ *
+ * Layout: FFD8, then segments "FF <marker> <2-byte length> <data>", until
+ * Start Of Scan; everything after SOS is image data and copied whole.
+ */
+function stripJpeg(bytes: Uint8Array): Uint8Array | null {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)]
+  let offset = 2
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null // Not a segment
+    const marker = bytes[offset + 1]
+    if (marker === 0xff) {
+      offset += 1 // Fill byte
+      continue
+    }
+    if (marker === JPEG_START_OF_SCAN) {
+      parts.push(bytes.subarray(offset))
+      return concat(parts)
+    }
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+    if (end > bytes.length) return null
+    if (!JPEG_DROPPED_MARKERS.has(marker)) parts.push(bytes.subarray(offset, end))
+    offset = end
+  }
+  return null // No image data
+}
+
+/**
+ * stripPng - Copies every chunk except the dropped ones
+ *
+ * Layout: 8-byte signature, then chunks "<4-byte length> <type> <data> <crc>".
+ */
+function stripPng(bytes: Uint8Array): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)]
+  let offset = 8
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset)
+    if (end > bytes.length) return null
+    if (!PNG_DROPPED_CHUNKS.has(ascii(bytes, offset + 4, 4))) parts.push(bytes.subarray(offset, end))
+    offset = end
+  }
+  return concat(parts)
+}
+
+/**
+ * stripWebp - Copies every chunk except EXIF/XMP and fixes the headers
+ *
+ * Layout: "RIFF" <4-byte little-endian size> "WEBP", then chunks
+ * "<fourcc> <4-byte LE size> <data, padded to an even length>".
+ */
+function stripWebp(bytes: Uint8Array): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: Uint8Array[] = []
+  let offset = 12
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true)
+    const end = offset + 8 + size + (size % 2)
+    if (end > bytes.length) return null
+    const fourcc = ascii(bytes, offset, 4)
+    if (!WEBP_DROPPED_CHUNKS.has(fourcc)) {
+      const chunk = bytes.slice(offset, end)
+      if (fourcc === 'VP8X') chunk[8] &= ~WEBP_METADATA_FLAGS
+      parts.push(chunk)
+    }
+    offset = end
+  }
+  const body = concat(parts)
+  const header = bytes.slice(0, 12)
+  new DataView(header.buffer).setUint32(4, body.length + 4, true)
+  return concat([header, body])
+}
+
+/**
+ * stripImageMetadata - The same image without metadata blocks, or null
+ * when its blocks do not parse (the caller refuses the file)
+ */
+export function stripImageMetadata(bytes: Uint8Array, mimeType: string): Uint8Array | null {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return stripJpeg(bytes)
+    case 'image/png':
+      return stripPng(bytes)
+    case 'image/webp':
+      return stripWebp(bytes)
+    default:
+      return bytes
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Image Processing - Dimensions, Thumbnail and Blurhash
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Everything derived from an uploaded image once it is complete
+ *
+ * What Is Derived:
+ * - width / height: So galleries can reserve the right space before the
+ *   image arrives (no layout jump)
+ * - thumbnail: At most THUMBNAIL_SIZE px on the longest side, shown in
+ *   grids; the full image is only loaded in the lightbox
+ * - blurhash: Computed from a BLURHASH_SAMPLE px copy (the hash only
+ *   keeps a dozen colours, so sampling more pixels would be wasted work)
+ *
+ * LEARNING NOTES:
+ * - Uses the browser's decoder (createImageBitmap) and a canvas, like
+ *   utils/images.ts. Where they do not exist (Node, old browsers) nothing
+ *   is derived and the upload is stored without extras
+ * - GIF thumbnails show the first frame only, which is what a grid wants
+ */
+
+import { encodeBlurhash } from '../../utils/blurhash'
+
+const THUMBNAIL_SIZE = 480
+const BLURHASH_SAMPLE = 32
+
+/**
+ * ImageDetails - What processImage derives
+ */
+export interface ImageDetails {
+  width: number
+  height: number
+  thumbnail: Blob | null
+  blurhash: string | null
+}
+
+const canDecode = () => typeof createImageBitmap === 'function' && typeof document !== 'undefined'
+
+/**
+ * drawScaled - A canvas with the bitmap drawn to fit within `maxSize`
+ */
+function drawScaled(bitmap: ImageBitmap, maxSize: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+/**
+ * processImage - Decodes an image and derives its details
+ *
+ * @returns null when the image cannot be decoded here
+ */
+export async function processImage(image: Blob): Promise<ImageDetails | null> {
+  if (!canDecode()) return null
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(image)
+  } catch {
+    return null
+  }
+
+  try {
+    const thumbnailCanvas = drawScaled(bitmap, THUMBNAIL_SIZE)
+    const thumbnail = await new Promise<Blob | null>((resolve) => thumbnailCanvas.toBlob(resolve, 'image/webp', 0.8))
+
+    const sample = drawScaled(bitmap, BLURHASH_SAMPLE)
+    const pixels = sample.getContext('2d')?.getImageData(0, 0, sample.width, sample.height)
+    const blurhash = pixels ? encodeBlurhash(pixels.data, sample.width, sample.height) : null
+
+    return { width: bitmap.width, height: bitmap.height, thumbnail, blurhash }
+  } finally {
+    bitmap.close()
+  }
+}
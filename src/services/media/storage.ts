@@ -0,0 +1,104 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Media Storage - Where Uploaded Bytes Live
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: One small interface over "a place that keeps files and serves
+ *          them at a URL", so the upload handlers never care which it is
+ *
+ * Implementations:
+ * - createMemoryMediaStorage: Blobs in a Map, served as object URLs.
+ *   Used by tests, and by the mock when no dev server is around; files
+ *   are gone after a reload
+ * - createDevServerMediaStorage: Files on disk, written and served by the
+ *   Vite dev server (server/mediaServer.ts). URLs survive reloads, and
+ *   other browsers on the same dev server can load them
+ * - A production backend would use an object store (S3, GCS) behind the
+ *   same three methods
+ *
+ * Keys:
+ * - Slash-separated paths such as 'media/<id>.jpg' or
+ *   'uploads/<id>/<offset>'; they double as the file path on disk
+ *
+ * LEARNING NOTES:
+ * - put() returns the URL instead of the caller building it, because only
+ *   the storage knows how its files are served
+ */
+
+/**
+ * MediaStorage - Keeps files by key
+ */
+export interface MediaStorage {
+  /** Stores (or replaces) a file; resolves to the URL it is served at */
+  put(key: string, data: Blob): Promise<string>
+  /** The stored file, or undefined */
+  get(key: string): Promise<Blob | undefined>
+  /** Removes files; missing keys are ignored */
+  delete(keys: string[]): Promise<void>
+}
+
+/**
+ * createMemoryMediaStorage - MediaStorage for one page lifetime
+ */
+export function createMemoryMediaStorage(): MediaStorage {
+  const files = new Map<string, { data: Blob; url: string }>()
+  const revoke = (key: string) => {
+    const file = files.get(key)
+    if (file) URL.revokeObjectURL(file.url)
+    files.delete(key)
+  }
+
+  return {
+    async put(key, data) {
+      revoke(key)
+      const url = URL.createObjectURL(data)
+      files.set(key, { data, url })
+      return url
+    },
+    async get(key) {
+      return files.get(key)?.data
+    },
+    async delete(keys) {
+      keys.forEach(revoke)
+    },
+  }
+}
+
+/**
+ * DevServerMediaStorageOptions
+ * - baseUrl: Where the dev server mounts the media routes (default '/media')
+ */
+export interface DevServerMediaStorageOptions {
+  baseUrl?: string
+}
+
+/**
+ * createDevServerMediaStorage - MediaStorage on the Vite dev server's disk
+ *
+ * Speaks plain HTTP: PUT stores, GET serves, DELETE removes.
+ */
+export function createDevServerMediaStorage(options: DevServerMediaStorageOptions = {}): MediaStorage {
+  const baseUrl = options.baseUrl ?? '/media'
+  const urlFor = (key: string) => `${baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`
+
+  return {
+    async put(key, data) {
+      const url = urlFor(key)
+      const response = await fetch(url, {
+        method: 'PUT',
+        body: data,
+        headers: { 'Content-Type': data.type || 'application/octet-stream' },
+      })
+      if (!response.ok) throw new Error(`Could not store ${key} (${response.status}).`)
+      return url
+    },
+    async get(key) {
+      const response = await fetch(urlFor(key))
+      return response.ok ? response.blob() : undefined
+    },
+    async delete(keys) {
+      await Promise.all(keys.map((key) => fetch(urlFor(key), { method: 'DELETE' })))
+    },
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Uploader - Chunked, Resumable File Uploads
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Turn a File into a MediaAsset through the upload endpoints,
+ *          reporting progress on the way
+ *
+ * The Loop:
+ * 1. startUpload: the server checks type and size and picks a chunk size
+ * 2. Send chunk after chunk, each at the offset the server last reported
+ * 3. completeUpload: the server processes the file and answers the asset
+ *
+ * Failures:
+ * - A chunk that fails with NETWORK or INTERNAL is retried up to
+ *   MAX_ATTEMPTS times, waiting a little longer each time
+ * - Before retrying, the session is read again: the chunk may have
+ *   arrived even though its answer did not, and receivedBytes says where
+ *   to continue
+ * - CONFLICT (the server is at another offset) is handled the same way
+ * - Anything else (validation, expired session) fails the upload at once
+ * - A failed upload keeps its session; resume(file, sessionId) picks it up
+ *   where it stopped, e.g. after the connection came back
+ *
+ * LEARNING NOTES:
+ * - File.slice() does not read the file; only the bytes of the chunk
+ *   being sent are ever in memory
+ * - Aborting the signal stops after the chunk in flight, rejects with the
+ *   signal's AbortError and cancels the session on the server
+ */
+
+import type { ApiErrorCode, ApiResponse, MediaAsset, MediaPurpose, UploadSession } from '../../types'
+import { ApiError } from '../api/errors'
+import type { MediaService } from '../data/mediaService'
+
+const MAX_ATTEMPTS = 4
+const RETRY_DELAY_MS = 500
+
+/**
+ * UploadProgress - How far an upload is (bytes the server has)
+ */
+export interface UploadProgress {
+  loaded: number
+  total: number
+}
+
+/**
+ * UploadOptions
+ * - purpose: Where the file will be attached (decides the allowed types)
+ * - onProgress: Called after every stored chunk
+ * - signal: Aborts the upload
+ */
+export interface UploadOptions {
+  purpose: MediaPurpose
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+}
+
+/**
+ * UploadError - A failed upload; sessionId is set when it can be resumed
+ */
+export class UploadError extends ApiError {
+  readonly sessionId?: string
+
+  constructor(code: ApiErrorCode, message: string, sessionId?: string) {
+    super(code, message)
+    this.name = 'UploadError'
+    this.sessionId = sessionId
+  }
+}
+
+/**
+ * Uploader - What createUploader returns
+ */
+export interface Uploader {
+  upload(file: File, options: UploadOptions): Promise<MediaAsset>
+  resume(file: File, sessionId: string, options: Omit<UploadOptions, 'purpose'>): Promise<MediaAsset>
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isRetryable = (code: ApiErrorCode | undefined) => code === 'NETWORK' || code === 'INTERNAL' || code === 'CONFLICT'
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * toUploadError - A failed response as an UploadError
+ *
+ * Type and size problems come back as a 'file' field error, whose message
+ * says more than the generic one.
+ */
+function toUploadError(res: ApiResponse<unknown>, fallback: string, sessionId?: string): UploadError {
+  const message = res.fieldErrors?.file?.message ?? res.error ?? fallback
+  return new UploadError(res.errorCode ?? 'INTERNAL', message, sessionId)
+}
+
+// ============================================================================
+// UPLOADER
+// ============================================================================
+
+/**
+ * createUploader - Uploads files through a MediaService
+ */
+export function createUploader(media: MediaService): Uploader {
+  /**
+   * sendChunks - Sends the rest of the file and completes the session
+   */
+  const sendChunks = async (file: File, start: UploadSession, options: Omit<UploadOptions, 'purpose'>) => {
+    const { onProgress, signal } = options
+    let session = start
+    let attempts = 0
+
+    try {
+      while (session.receivedBytes < session.size) {
+        signal?.throwIfAborted()
+        onProgress?.({ loaded: session.receivedBytes, total: session.size })
+
+        const offset = session.receivedBytes
+        const chunk = file.slice(offset, offset + session.chunkSize)
+        const res = await media.uploadChunk(session.id, offset, chunk)
+        if (res.success && res.data) {
+          session = res.data
+          attempts = 0
+          continue
+        }
+
+        attempts += 1
+        if (!isRetryable(res.errorCode) || attempts >= MAX_ATTEMPTS) {
+          throw toUploadError(res, 'The upload failed.', session.id)
+        }
+        await wait(RETRY_DELAY_MS * attempts)
+        const current = await media.getUpload(session.id)
+        if (current.success && current.data) session = current.data
+      }
+      onProgress?.({ loaded: session.size, total: session.size })
+
+      signal?.throwIfAborted()
+      const done = await media.completeUpload(session.id)
+      if (!done.success || !done.data) {
+        throw toUploadError(done, 'The file could not be processed.')
+      }
+      return done.data
+    } catch (error) {
+      if (signal?.aborted) void media.cancelUpload(session.id)
+      throw error
+    }
+  }
+
+  return {
+    async upload(file, options) {
+      options.signal?.throwIfAborted()
+      const res = await media.startUpload({
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        purpose: options.purpose,
+      })
+      if (!res.success || !res.data) {
+        throw toUploadError(res, 'The upload could not start.')
+      }
+      return sendChunks(file, res.data, options)
+    },
+
+    async resume(file, sessionId, options) {
+      const res = await media.getUpload(sessionId)
+      if (!res.success || !res.data) {
+        throw toUploadError(res, 'The upload can no longer be resumed.')
+      }
+      if (res.data.size !== file.size) {
+        throw new UploadError('VALIDATION', 'This is not the file that was being uploaded.')
+      }
+      return sendChunks(file, res.data, options)
+    },
+  }
+}
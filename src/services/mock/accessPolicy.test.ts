@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * STEP 2.14: Access Policy Tests - Private, Blocked and Anonymous Viewers
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.14 (Privacy model)
+ * UPDATED: Feature Phase - Step 2.12 (users carry follow counts, not lists)
+ * UPDATED: Feature Phase - Step 2.17 (removed posts keep none of their media)
+ * PURPOSE: Check rules 1-3 of ./accessPolicy.ts against the fixtures, for
+ *          each kind of viewer: signed out, a stranger, a follower, the
+ *          owner, and both sides of a block
+ *
+ * Fixtures Used:
+ * - Dave is private; Bob follows him, Erin's request is still pending
+ * - Alice is public; post-6 is her followers-only post (Bob follows her)
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { MediaAsset } from '../../types'
+import { createTestBackend } from '../../test/mockBackend'
+import { canSeeActivity, canSeeUser, canViewPost, presentPost, presentUser } from './accessPolicy'
+import type { MockTables, PostRecord, UserRecord } from './database'
+import { block } from './follows'
+
+let tables: MockTables
+
+beforeEach(() => {
+  tables = createTestBackend().db.tables
+})
+
+const userOf = (id: string): UserRecord => tables.users.find((u) => u.id === id)!
+const postOf = (id: string): PostRecord => tables.posts.find((p) => p.id === id)!
+
+describe('private accounts', () => {
+  it('shows activity to approved followers and the owner only', () => {
+    const dave = userOf('user-dave')
+    expect(canSeeActivity(tables, null, dave)).toBe(false)
+    expect(canSeeActivity(tables, userOf('user-erin'), dave)).toBe(false)
+    expect(canSeeActivity(tables, userOf('user-bob'), dave)).toBe(true)
+    expect(canSeeActivity(tables, dave, dave)).toBe(true)
+  })
+
+  it('keeps the profile itself visible to everyone', () => {
+    const dave = userOf('user-dave')
+    expect(canSeeUser(tables, null, dave)).toBe(true)
+    expect(canSeeUser(tables, userOf('user-erin'), dave)).toBe(true)
+  })
+
+  it('are presented with their follow counts but never the lists', () => {
+    const dave = userOf('user-dave')
+    const presented = presentUser(dave)
+    expect(presented).toMatchObject({ followersCount: dave.followers.length, followingCount: dave.following.length })
+    expect(presented).not.toHaveProperty('followers')
+    expect(presented).not.toHaveProperty('following')
+  })
+
+  it('hides their posts, whatever the audience, from non-followers', () => {
+    const post = postOf('post-4')
+    expect(post.audience).toBe('public')
+    expect(canViewPost(tables, null, post)).toBe(false)
+    expect(canViewPost(tables, userOf('user-erin'), post)).toBe(false)
+    expect(canViewPost(tables, userOf('user-bob'), post)).toBe(true)
+  })
+})
+
+describe('blocked users', () => {
+  beforeEach(() => {
+    block(tables, 'user-alice', 'user-bob')
+  })
+
+  it('makes the blocker disappear for the blocked user, not the other way round', () => {
+    expect(canSeeUser(tables, userOf('user-bob'), userOf('user-alice'))).toBe(false)
+    expect(canSeeUser(tables, userOf('user-alice'), userOf('user-bob'))).toBe(true)
+  })
+
+  it('hides activity, follow lists and posts both ways', () => {
+    const alice = userOf('user-alice')
+    const bob = userOf('user-bob')
+    expect(canSeeActivity(tables, bob, alice)).toBe(false)
+    expect(canSeeActivity(tables, alice, bob)).toBe(false)
+    expect(canViewPost(tables, bob, postOf('post-1'))).toBe(false)
+    expect(canViewPost(tables, alice, postOf('post-2'))).toBe(false)
+  })
+
+  it('leaves everyone else unaffected', () => {
+    const alice = userOf('user-alice')
+    const carol = userOf('user-carol')
+    expect(canSeeActivity(tables, carol, alice)).toBe(true)
+    expect(canViewPost(tables, carol, postOf('post-1'))).toBe(true)
+  })
+})
+
+describe('anonymous viewers', () => {
+  it('see public accounts and posts', () => {
+    const alice = userOf('user-alice')
+    expect(canSeeUser(tables, null, alice)).toBe(true)
+    expect(canSeeActivity(tables, null, alice)).toBe(true)
+    expect(canViewPost(tables, null, postOf('post-1'))).toBe(true)
+  })
+
+  it('see no followers-only or mentioned-only posts', () => {
+    expect(canViewPost(tables, null, postOf('post-6'))).toBe(false)
+    expect(canViewPost(tables, userOf('user-bob'), postOf('post-6'))).toBe(true)
+    const mentioned: PostRecord = {
+      ...postOf('post-1'),
+      id: 'post-mentioned',
+      audience: 'mentioned',
+      content: 'Hi @bob',
+    }
+    expect(canViewPost(tables, null, mentioned)).toBe(false)
+    expect(canViewPost(tables, userOf('user-carol'), mentioned)).toBe(false)
+    expect(canViewPost(tables, userOf('user-bob'), mentioned)).toBe(true)
+  })
+
+  it('never get account fields', () => {
+    const presented = presentUser(userOf('user-carol'))
+    expect(presented).not.toHaveProperty('email')
+    expect(presented).not.toHaveProperty('role')
+  })
+})
+
+describe('removed posts', () => {
+  it('reach everyone but moderators without text, images or media', () => {
+    const original = postOf('post-1')
+    const media: MediaAsset = {
+      id: 'media-1',
+      ownerId: original.authorId,
+      purpose: 'post',
+      fileName: 'sunset.jpg',
+      mimeType: 'image/jpeg',
+      size: 1024,
+      url: '/uploads/media-1',
+      createdAt: new Date(),
+    }
+    const post: PostRecord = {
+      ...original,
+      moderation: 'removed',
+      images: [media.url],
+      imageAlts: ['A sunset'],
+      media: [media],
+    }
+    for (const viewer of [null, userOf('user-bob'), userOf(post.authorId)]) {
+      const presented = presentPost(viewer, post)
+      expect(presented).toMatchObject({ content: '', images: undefined, imageAlts: undefined, media: undefined })
+    }
+    expect(presentPost(userOf('user-carol'), post)).toBe(post)
+  })
+})
@@ -0,0 +1,372 @@
+/**
+ * ============================================================================
+ * STEP 2.14: Access Policy - Who May See and Reach Whom
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.14 (Privacy model)
+ * UPDATED: Feature Phase - Step 2.15 (moderation and muted keywords)
+ * UPDATED: Feature Phase - Step 2.18 (reposts are listed with their original)
+ * UPDATED: Feature Phase - Step 2.4 (other users are sent without their account fields)
+ * UPDATED: Feature Phase - Step 2.14 (presented users only carry follow lists the viewer may see)
+ * UPDATED: Feature Phase - Step 2.12 (presented users carry follow counts, never the lists)
+ * UPDATED: Feature Phase - Step 2.17 (blanked posts lose their media and descriptions too)
+ * PURPOSE: Every privacy rule of the mock backend in one place. Handlers,
+ *          notifications, search, the follow graph and the chat hub ask
+ *          these functions instead of checking fields themselves.
+ *
+ * The Rules, Strongest First:
+ * 1. Blocking: if either user blocked the other, neither sees the other's
+ *    posts, comments or follow lists, and they cannot follow, mention
+ *    (with a notification) or message each other. The BLOCKED user cannot
+ *    even load the blocker's profile (it answers NOT_FOUND); the blocker
+ *    still can, to unblock.
+ * 2. Private accounts (User.isPrivate): posts, likes and follow lists are
+ *    only shown to approved followers. Following needs the owner's
+ *    approval (a follow request).
+ * 3. Post audience (Post.audience):
+ *    - public: everyone allowed by rules 1-2
+ *    - followers: the author's followers
+ *    - mentioned: only users @mentioned in the post (even on a private
+ *      account: the author picked them by name)
+ * 4. Muting: the muter stops seeing the muted user's posts and comments in
+ *    feeds, search and threads, and gets no notifications from them. The
+ *    muted user notices nothing, and direct links still work. Muted
+ *    keywords (Step 2.15) work the same way for posts; matching comments
+ *    are collapsed behind a "Show" button instead.
+ * 5. Moderation (Step 2.15): a removed post, comment or message keeps its
+ *    place (threads stay intact) but its content is only shown to
+ *    moderators; a hidden one is also shown to its author. Neither is
+ *    listed in feeds, search or other people's profiles.
+ * The author of a post always sees it (if only as a placeholder).
+ *
+ * LEARNING NOTES:
+ * - Hidden things answer NOT_FOUND rather than FORBIDDEN, so their
+ *   existence is not leaked. FORBIDDEN is only used when the viewer
+ *   already knows (e.g. "Unblock @bob to follow them")
+ * - These functions are pure reads over the tables; the changes
+ *   (blocking, requests, ...) live in ./follows.ts
+ */
+
+import type { Account, Comment, Message, ModerationState, User } from '../../types'
+import { matchesMutedKeywords } from '../../utils/keywords'
+import { extractMentions } from '../../utils/textEntities'
+import { ApiError } from '../api/errors'
+import type { ConversationRecord, MockTables, PostRecord, UserRecord } from './database'
+
+/**
+ * RelationTables - The tables holding blocks and mutes
+ */
+export type RelationTables = Pick<MockTables, 'blocks' | 'mutes'>
+
+/**
+ * AccessTables - Blocks, mutes and the users (for followers and privacy)
+ */
+export type AccessTables = Pick<MockTables, 'users' | 'blocks' | 'mutes'>
+
+/**
+ * ListTables - AccessTables plus muted keywords and the posts (for the
+ * originals of reposts), for feeds and search
+ */
+export type ListTables = AccessTables & Pick<MockTables, 'mutedKeywords' | 'posts'>
+
+// ============================================================================
+// RELATIONSHIPS
+// ============================================================================
+
+/**
+ * hasBlocked - Whether `blockerId` blocked `blockedId` (one direction)
+ */
+export function hasBlocked(tables: RelationTables, blockerId: string, blockedId: string): boolean {
+  return tables.blocks.some((b) => b.blockerId === blockerId && b.blockedId === blockedId)
+}
+
+/**
+ * isBlockedBetween - Whether either user blocked the other
+ */
+export function isBlockedBetween(tables: RelationTables, userId: string, otherId: string): boolean {
+  return hasBlocked(tables, userId, otherId) || hasBlocked(tables, otherId, userId)
+}
+
+/**
+ * hasMuted - Whether `muterId` muted `mutedId`
+ */
+export function hasMuted(tables: RelationTables, muterId: string, mutedId: string): boolean {
+  return tables.mutes.some((m) => m.muterId === muterId && m.mutedId === mutedId)
+}
+
+/**
+ * isHiddenFrom - Whether `otherId`'s content is left out of what `viewerId`
+ * sees in lists (feeds, search, threads, notifications): blocked either
+ * way, or muted by the viewer
+ */
+export function isHiddenFrom(tables: RelationTables, viewerId: string | undefined, otherId: string): boolean {
+  if (!viewerId || viewerId === otherId) return false
+  return isBlockedBetween(tables, viewerId, otherId) || hasMuted(tables, viewerId, otherId)
+}
+
+// ============================================================================
+// USERS & PROFILES
+// ============================================================================
+
+/**
+ * canSeeUser - Whether the viewer may load this user's profile at all
+ * (false only for someone the user blocked)
+ */
+export function canSeeUser(tables: RelationTables, viewer: UserRecord | null, user: UserRecord): boolean {
+  return !viewer || !hasBlocked(tables, user.id, viewer.id)
+}
+
+/**
+ * canSeeActivity - Whether the viewer may see the user's posts, likes and
+ * follow lists (rules 1 and 2)
+ */
+export function canSeeActivity(tables: RelationTables, viewer: UserRecord | null, user: UserRecord): boolean {
+  if (viewer?.id === user.id) return true
+  if (viewer && isBlockedBetween(tables, viewer.id, user.id)) return false
+  if (!user.isPrivate) return true
+  return viewer !== null && user.followers.includes(viewer.id)
+}
+
+/**
+ * assertCanSeeActivity - canSeeActivity, or FORBIDDEN for a private account
+ */
+export function assertCanSeeActivity(tables: RelationTables, viewer: UserRecord | null, user: UserRecord): void {
+  if (!canSeeUser(tables, viewer, user)) throw new ApiError('NOT_FOUND', 'User not found.')
+  if (!canSeeActivity(tables, viewer, user)) throw new ApiError('FORBIDDEN', 'This account is private.')
+}
+
+/**
+ * presentUser - The user as other people get them: the profile and its
+ * follow counts. Email, role, suspension, email confirmation and language
+ * belong to the Account and are only sent to its owner (presentAccount).
+ * The follow lists themselves are never embedded: they are paged from
+ * /users/:id/followers and /following, behind assertCanSeeActivity.
+ *
+ * Fields are copied one by one, so a field added to UserRecord later stays
+ * private until it is added here.
+ */
+export function presentUser(user: UserRecord): User {
+  return {
+    id: user.id,
+    username: user.username,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    bio: user.bio,
+    avatar: user.avatar,
+    coverImage: user.coverImage,
+    followersCount: user.followers.length,
+    followingCount: user.following.length,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    isVerified: user.isVerified,
+    location: user.location,
+    website: user.website,
+    isPrivate: user.isPrivate,
+  }
+}
+
+/**
+ * presentAccount - The user as they get themselves (/users/me and the auth
+ * service): presentUser plus the Account fields
+ */
+export function presentAccount(user: UserRecord): Account {
+  return {
+    ...presentUser(user),
+    email: user.email,
+    role: user.role,
+    suspendedUntil: user.suspendedUntil,
+    emailVerifiedAt: user.emailVerifiedAt,
+    locale: user.locale,
+  }
+}
+
+/**
+ * canListUser - Whether a user may appear in the viewer's search results
+ * and @mention suggestions (not blocked either way)
+ */
+export function canListUser(tables: RelationTables, viewer: UserRecord | null, user: UserRecord): boolean {
+  return !viewer || !isBlockedBetween(tables, viewer.id, user.id)
+}
+
+/**
+ * assertCanReach - Guards following, messaging and adding to a group
+ *
+ * @throws ApiError NOT_FOUND if the target blocked the actor (as if they
+ *         did not exist), FORBIDDEN if the actor blocked the target
+ */
+export function assertCanReach(tables: AccessTables, actorId: string, targetId: string): void {
+  if (hasBlocked(tables, targetId, actorId)) throw new ApiError('NOT_FOUND', 'User not found.')
+  if (hasBlocked(tables, actorId, targetId)) {
+    const username = tables.users.find((u) => u.id === targetId)?.username ?? 'them'
+    throw new ApiError('FORBIDDEN', `You blocked @${username}. Unblock them first.`)
+  }
+}
+
+/**
+ * assertCanMessage - Guards sending to a conversation: a direct chat goes
+ * quiet once either side blocked the other (groups carry on; the people
+ * in them are not only the two of them)
+ */
+export function assertCanMessage(tables: AccessTables, conversation: ConversationRecord, senderId: string): void {
+  if (conversation.isGroup) return
+  const otherId = conversation.participants.find((id) => id !== senderId)
+  if (otherId) assertCanReach(tables, senderId, otherId)
+}
+
+// ============================================================================
+// POSTS & COMMENTS
+// ============================================================================
+
+/**
+ * isMentionedIn - Whether the user is @mentioned in the post's text
+ */
+export function isMentionedIn(user: UserRecord, post: PostRecord): boolean {
+  return extractMentions(post.content).includes(user.username.toLowerCase())
+}
+
+/**
+ * canViewPost - Rules 1-3 from the header, for one post
+ *
+ * Muting is NOT checked here: a muted user's post still opens from a link.
+ * Lists add `isHiddenFrom` on top.
+ */
+export function canViewPost(tables: AccessTables, viewer: UserRecord | null, post: PostRecord): boolean {
+  if (viewer?.id === post.authorId) return true
+  if (viewer && isBlockedBetween(tables, viewer.id, post.authorId)) return false
+
+  if (post.audience === 'mentioned') return viewer !== null && isMentionedIn(viewer, post)
+
+  const author = tables.users.find((u) => u.id === post.authorId)
+  if (!author) return false
+  const isFollower = viewer !== null && author.followers.includes(viewer.id)
+  if (post.audience === 'followers' || author.isPrivate) return isFollower
+  return true
+}
+
+/**
+ * canListPost - canViewPost, minus muted and blocked authors, muted
+ * keywords and moderated posts; for feeds, search results and hashtag pages
+ *
+ * UPDATED: Step 2.18 - A repost is only listed while its original exists
+ * and would be listed itself, so a repost never sneaks a muted author or a
+ * removed post back into the feed
+ */
+export function canListPost(tables: ListTables, viewer: UserRecord | null, post: PostRecord): boolean {
+  if (post.repostOf) {
+    const original = tables.posts.find((p) => p.id === post.repostOf)
+    if (!original || !canListPost(tables, viewer, original)) return false
+  }
+  return (
+    canViewPost(tables, viewer, post) &&
+    !isHiddenFrom(tables, viewer?.id, post.authorId) &&
+    canListModerated(viewer, post.authorId, post.moderation) &&
+    !isFilteredFor(tables, viewer, post.authorId, post.content)
+  )
+}
+
+/**
+ * visibleComments - Comments the viewer may see: those by hidden users
+ * (blocked either way, or muted) are removed WITH every reply below them,
+ * so no reply is left pointing at a missing parent
+ */
+export function visibleComments<T extends { id: string; authorId: string; parentId?: string }>(
+  tables: RelationTables,
+  viewer: UserRecord | null,
+  comments: T[],
+): T[] {
+  if (!viewer) return comments
+  const byId = new Map(comments.map((comment) => [comment.id, comment]))
+  const hidden = new Map<string, boolean>()
+
+  const isHidden = (comment: T): boolean => {
+    const known = hidden.get(comment.id)
+    if (known !== undefined) return known
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined
+    const result = isHiddenFrom(tables, viewer.id, comment.authorId) || (parent ? isHidden(parent) : false)
+    hidden.set(comment.id, result)
+    return result
+  }
+
+  return comments.filter((comment) => !isHidden(comment))
+}
+
+// ============================================================================
+// MODERATION & MUTED KEYWORDS
+// ============================================================================
+
+/**
+ * isModerator - Whether the user may review reports and act on them
+ */
+export function isModerator(user: UserRecord | null): boolean {
+  return user?.role === 'moderator'
+}
+
+/**
+ * canSeeModerated - Whether the viewer may read moderated content (rule 5):
+ * moderators always, the author only while it is merely hidden
+ */
+export function canSeeModerated(viewer: UserRecord | null, authorId: string, moderation?: ModerationState): boolean {
+  if (!moderation || isModerator(viewer)) return true
+  return moderation === 'hidden' && viewer?.id === authorId
+}
+
+/**
+ * canListModerated - Whether moderated content still appears in lists: only
+ * for its author, who is shown what happened to it
+ */
+export function canListModerated(viewer: UserRecord | null, authorId: string, moderation?: ModerationState): boolean {
+  return !moderation || viewer?.id === authorId
+}
+
+/**
+ * mutedKeywordsOf - The words the user muted (none when signed out)
+ */
+export function mutedKeywordsOf(tables: Pick<MockTables, 'mutedKeywords'>, viewer: UserRecord | null): string[] {
+  if (!viewer) return []
+  return tables.mutedKeywords.find((record) => record.userId === viewer.id)?.keywords ?? []
+}
+
+/**
+ * isFilteredFor - Whether `content` contains a word the viewer muted; your
+ * own posts and comments are never filtered
+ */
+export function isFilteredFor(
+  tables: Pick<MockTables, 'mutedKeywords'>,
+  viewer: UserRecord | null,
+  authorId: string,
+  content: string,
+): boolean {
+  if (!viewer || viewer.id === authorId) return false
+  return matchesMutedKeywords(content, mutedKeywordsOf(tables, viewer)) !== null
+}
+
+/**
+ * presentPost - The post as the viewer may see it: moderated content they
+ * may not read is blanked (rule 5), everything else is kept
+ */
+export function presentPost<T extends PostRecord>(viewer: UserRecord | null, post: T): T {
+  if (canSeeModerated(viewer, post.authorId, post.moderation)) return post
+  return { ...post, content: '', images: undefined, imageAlts: undefined, media: undefined, tags: undefined }
+}
+
+/**
+ * presentComment - Like presentPost, and flags comments containing a word
+ * the viewer muted (isFiltered). id and parentId are always kept, so the
+ * replies below a removed comment stay in their thread.
+ */
+export function presentComment(
+  tables: Pick<MockTables, 'mutedKeywords'>,
+  viewer: UserRecord | null,
+  comment: Comment,
+): Comment {
+  if (!canSeeModerated(viewer, comment.authorId, comment.moderation)) return { ...comment, content: '' }
+  return isFilteredFor(tables, viewer, comment.authorId, comment.content) ? { ...comment, isFiltered: true } : comment
+}
+
+/**
+ * presentMessage - Like presentPost, for chat messages
+ */
+export function presentMessage(viewer: UserRecord | null, message: Message): Message {
+  if (canSeeModerated(viewer, message.senderId, message.moderation)) return message
+  return { ...message, content: '', attachments: undefined }
+}
@@ -0,0 +1,116 @@
+/**
+ * ============================================================================
+ * STEP 2.22: Mock Accounts - Deleting an Account and Everything It Owns
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.22 (Account lifecycle)
+ * PURPOSE: Remove a user without leaving rows that point at nobody, and
+ *          without tearing holes in what other people wrote
+ *
+ * What Happens to Each Record:
+ * - Posts: deleted with deletePost (./posts.ts), so their reposts,
+ *   comments, revisions and media go too
+ * - Comments: deleted like the author deleting them (utils/commentTree):
+ *   one with replies stays as a tombstone, credited to DELETED_USER_ID
+ * - Messages: their own texts are removed; system messages ("… left the
+ *   group") stay, with DELETED_USER_ID in their place and no fallback text
+ * - Conversations: groups see them leave (changeGroup, ./groups.ts); a
+ *   direct chat stays for the other person with DELETED_USER_ID in their
+ *   place
+ * - Follows, follow requests, blocks, mutes, likes, followed tags, muted
+ *   words, notification settings and notifications from or to them:
+ *   removed
+ * - Sessions, password, email tokens, uploads and media: removed
+ * - Reports they filed stay for the moderators, without their name;
+ *   moderation actions stay as the audit trail
+ *
+ * LEARNING NOTES:
+ * - Like deletePost, a real database would run this in one transaction
+ * - DELETED_USER_ID is never a row in `users`: the UI shows "Deleted
+ *   account" for it (utils/conversations.ts)
+ */
+
+import { deleteComment } from '../../utils/commentTree'
+import { DELETED_USER_ID } from '../../utils/conversations'
+import type { MediaStorage } from '../media/storage'
+import type { MockTables } from './database'
+import { changeGroup } from './groups'
+import { discardUpload } from './media'
+import { deletePost } from './posts'
+
+/**
+ * deleteAccount - Deletes the user and their records (see header)
+ *
+ * Does not commit; the caller does once it has finished.
+ */
+export async function deleteAccount(tables: MockTables, storage: MediaStorage, userId: string): Promise<void> {
+  const anonymize = (id: string) => (id === userId ? DELETED_USER_ID : id)
+
+  // Posts first: deleting them takes their comments and notifications along
+  for (const post of tables.posts.filter((p) => p.authorId === userId)) {
+    await deletePost(tables, storage, post)
+  }
+
+  for (const comment of tables.comments.filter((c) => c.authorId === userId)) {
+    tables.comments = deleteComment(tables.comments, comment.id)
+  }
+  tables.comments = tables.comments.map((c) =>
+    c.authorId === userId
+      ? { ...c, authorId: DELETED_USER_ID }
+      : { ...c, likes: c.likes.filter((id) => id !== userId) },
+  )
+  for (const post of tables.posts) {
+    post.likes = post.likes.filter((id) => id !== userId)
+  }
+
+  for (const conversation of tables.conversations.filter((c) => c.participants.includes(userId))) {
+    if (conversation.isGroup) {
+      await storage.delete(changeGroup(tables, userId, conversation.id, { type: 'leave' }).discardedFiles)
+    } else {
+      conversation.participants = conversation.participants.map(anonymize)
+    }
+  }
+  const removedMessageIds = new Set(
+    tables.messages.filter((m) => m.senderId === userId && m.type !== 'system').map((m) => m.id),
+  )
+  tables.messages = tables.messages
+    .filter((m) => !removedMessageIds.has(m.id))
+    .map((m) => {
+      const mentioned = m.senderId === userId || Boolean(m.system?.userIds?.includes(userId))
+      return {
+        ...m,
+        senderId: anonymize(m.senderId),
+        receiverId: anonymize(m.receiverId),
+        // The fallback text names them; the UI renders `system` instead
+        content: mentioned && m.system ? '' : m.content,
+        system: m.system && { ...m.system, userIds: m.system.userIds?.map(anonymize) },
+      }
+    })
+
+  for (const user of tables.users) {
+    user.followers = user.followers.filter((id) => id !== userId)
+    user.following = user.following.filter((id) => id !== userId)
+  }
+  tables.followRequests = tables.followRequests.filter((r) => r.requesterId !== userId && r.targetId !== userId)
+  tables.blocks = tables.blocks.filter((b) => b.blockerId !== userId && b.blockedId !== userId)
+  tables.mutes = tables.mutes.filter((m) => m.muterId !== userId && m.mutedId !== userId)
+  tables.tagFollows = tables.tagFollows.filter((f) => f.userId !== userId)
+  tables.mutedKeywords = tables.mutedKeywords.filter((k) => k.userId !== userId)
+  tables.notificationPreferences = tables.notificationPreferences.filter((p) => p.userId !== userId)
+  tables.notifications = tables.notifications.filter(
+    (n) => n.userId !== userId && n.fromUserId !== userId && !(n.messageId && removedMessageIds.has(n.messageId)),
+  )
+  tables.reports = tables.reports.map((r) => ({ ...r, reporterId: anonymize(r.reporterId) }))
+
+  for (const upload of tables.uploads.filter((u) => u.ownerId === userId)) {
+    await discardUpload(tables, storage, upload)
+  }
+  const media = tables.media.filter((m) => m.ownerId === userId)
+  tables.media = tables.media.filter((m) => m.ownerId !== userId)
+  await storage.delete(media.flatMap((m) => m.storageKeys))
+
+  tables.sessions = tables.sessions.filter((s) => s.userId !== userId)
+  tables.credentials = tables.credentials.filter((c) => c.userId !== userId)
+  tables.authTokens = tables.authTokens.filter((t) => t.userId !== userId)
+  tables.users = tables.users.filter((u) => u.id !== userId)
+}
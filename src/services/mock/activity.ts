@@ -0,0 +1,145 @@
+/**
+ * ============================================================================
+ * STEP 2.21: Mock Activity - Live Events for Likes, Comments, Posts, Follows
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.21 (Realtime event bus)
+ * PURPOSE: One place where handlers announce "this just changed", so the
+ *          chat hub can push it to every open client that is looking
+ *
+ * How It Works:
+ * - Handlers call publishActivity() after changing their tables, the way
+ *   they call ./notify.ts for notifications
+ * - Events carry the stored records themselves: the hub checks they belong
+ *   to ITS tables (other databases in the same process publish too)
+ * - presentActivity() decides, per connection, whether and how the event
+ *   is shown, with the same access rules the REST endpoints use
+ *
+ * Who Hears What:
+ * - post-liked, comment-added: connections watching that post, if the
+ *   viewer may see it (and, for comments, its author)
+ * - post-created: the author's followers who would see it in a feed; never
+ *   the author (their own client already has it)
+ * - follow-changed: the follower and the followed user
+ *
+ * LEARNING NOTES:
+ * - Likes are published only when they change something, as "now likes" /
+ *   "no longer likes", so a client receiving one twice is not off by one
+ * - A real backend would publish to a message broker here instead of
+ *   calling listeners directly
+ */
+
+import type { Comment } from '../../types'
+import type { LiveEvent } from '../chat/protocol'
+import { canListPost, canViewPost, presentComment, visibleComments } from './accessPolicy'
+import type { MockTables, PostRecord, UserRecord } from './database'
+import { toPost } from './helpers'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * ActivityEvent - What handlers publish
+ * - post-liked: `userId` now likes (or no longer likes) `post`
+ * - comment-added: `comment` was stored
+ * - post-created: `post` was stored (a new post, quote or repost)
+ * - follow-changed: `follower` now follows (or stopped following) `target`
+ */
+export type ActivityEvent =
+  | { type: 'post-liked'; post: PostRecord; userId: string; liked: boolean }
+  | { type: 'comment-added'; comment: Comment }
+  | { type: 'post-created'; post: PostRecord }
+  | { type: 'follow-changed'; follower: UserRecord; target: UserRecord; following: boolean }
+
+// ============================================================================
+// PUBLISHING
+// ============================================================================
+
+const listeners = new Set<(event: ActivityEvent) => void>()
+
+/**
+ * subscribeToActivity - Hears every published activity
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToActivity(listener: (event: ActivityEvent) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function publishActivity(event: ActivityEvent): void {
+  for (const listener of listeners) listener(event)
+}
+
+// ============================================================================
+// PRESENTING
+// ============================================================================
+
+/**
+ * belongsTo - Whether the event's records are rows of `tables`
+ */
+export function belongsTo(tables: MockTables, event: ActivityEvent): boolean {
+  switch (event.type) {
+    case 'post-liked':
+    case 'post-created':
+      return tables.posts.includes(event.post)
+    case 'comment-added':
+      return tables.comments.includes(event.comment)
+    case 'follow-changed':
+      return tables.users.includes(event.follower)
+  }
+}
+
+/**
+ * presentActivity - The event as `viewer` should get it, or null when it is
+ * not for them
+ *
+ * @param watching - Post IDs the viewer's connection is watching
+ */
+export function presentActivity(
+  tables: MockTables,
+  viewer: UserRecord,
+  event: ActivityEvent,
+  watching: ReadonlySet<string>,
+): LiveEvent | null {
+  switch (event.type) {
+    case 'post-liked': {
+      const { post } = event
+      if (!watching.has(post.id) || !canViewPost(tables, viewer, post)) return null
+      return { type: 'post-liked', postId: post.id, userId: event.userId, liked: event.liked }
+    }
+
+    case 'comment-added': {
+      const { comment } = event
+      const post = tables.posts.find((p) => p.id === comment.postId)
+      if (!post || !watching.has(post.id) || !canViewPost(tables, viewer, post)) return null
+      // A reply under a hidden comment is hidden too, so check the thread
+      const thread = tables.comments.filter((c) => c.postId === post.id)
+      if (!visibleComments(tables, viewer, thread).includes(comment)) return null
+      return { type: 'comment-added', comment: presentComment(tables, viewer, comment) }
+    }
+
+    case 'post-created': {
+      const { post } = event
+      if (post.authorId === viewer.id || !viewer.following.includes(post.authorId)) return null
+      if (!canListPost(tables, viewer, post)) return null
+      return { type: 'post-created', post: toPost(tables, post, viewer) }
+    }
+
+    case 'follow-changed': {
+      const { follower, target, following } = event
+      if (viewer.id !== follower.id && viewer.id !== target.id) return null
+      return {
+        type: 'follow-changed',
+        followerId: follower.id,
+        targetId: target.id,
+        following,
+        followersCount: target.followers.length,
+        followingCount: follower.following.length,
+      }
+    }
+  }
+}
@@ -0,0 +1,568 @@
+/**
+ * ============================================================================
+ * STEP 2.23: Mock Archive - Exporting and Importing an Account
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.23 (Data export and import)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions follow their images)
+ * UPDATED: Feature Phase - Step 2.23 (only the owner's own content is imported)
+ * UPDATED: Feature Phase - Step 2.23 (checked like new content, exported as presented)
+ * PURPOSE: Build an AccountArchive of the viewer's data, and restore one
+ *          into a fresh account
+ *
+ * Export:
+ * - The viewer's posts (reposts included), their own comments, every
+ *   conversation they are in with all its messages, and their followers
+ *   and following
+ * - Posts, comments and messages as the viewer reads them anywhere else
+ *   (presentPost…): what a moderator removed leaves without its text
+ * - Files the viewer uploaded and still uses in those posts and messages
+ *   are embedded; other images (fixtures, other people's attachments)
+ *   stay links
+ *
+ * Import:
+ * 1. Check format and version (utils/archive.ts), the shape of every
+ *    record the import reads (ARCHIVE_RECORDS), then that the account is
+ *    fresh: no posts, comments, sent messages or follows yet. Merging two
+ *    histories would mean guessing
+ * 2. Find the archive's people again: its owner is the viewer; anyone
+ *    else by ID and username, then by username alone. Whoever cannot be
+ *    found is dropped from follows
+ * 3. Store the files again as the viewer's (restoreMedia) and point post
+ *    images and message attachments at their new URLs
+ * 4. Restore the owner's posts, comments, conversations and messages. A
+ *    taken ID is replaced by a fresh one, and everything referring to it
+ *    follows. A direct chat with someone the account already talks to is
+ *    merged
+ * 5. Follow the accounts the archive followed (a request, if private)
+ *
+ * The File Is Not Trusted:
+ * - It is whatever the uploader wrote, so it only restores what the
+ *   viewer could write themselves: their own posts, comments and
+ *   messages, as new content (no likes, not read, not moderated)
+ * - Each goes through the validators of POST /posts, /comments and the
+ *   chat hub (length, audience, tags, attachments); one that fails is
+ *   skipped. Tags are normalized like a new post's (collectTags)
+ * - Reposts and quotes are checked like new ones (resolveShareTarget)
+ * - Nobody else is put anywhere: a conversation that has to be created
+ *   again holds the viewer alone (admin of a group), and messages from
+ *   other people are not restored
+ *
+ * What Is Not Restored:
+ * - Followers: following is their choice, so nobody is re-added
+ * - Other people's likes, messages, and memberships of re-created
+ *   conversations (see above), and system messages
+ * - Comments on posts that are gone or hidden from the viewer, and
+ *   reposts and quotes of posts that can no longer be shared
+ * - Group photos, which must be uploads of the group's admin
+ * - The profile: the client applies it with updateProfile, which checks
+ *   it like any edit (username and email stay as they are)
+ *
+ * LEARNING NOTES:
+ * - The body is normalized with parseJson first: dates arrive as strings
+ *   from a file, but as Dates through the mock transport
+ * - Nothing is committed here; the handler commits once all went well.
+ *   The mock has no rollback, though: a record that broke the import
+ *   halfway would leave what came before it in the tables, for the next
+ *   commit to save. That is why the whole file is checked first
+ */
+
+import type {
+  AccountArchive,
+  ArchiveCounts,
+  ArchiveImportSummary,
+  ArchivedFile,
+  ArchivedUser,
+  MediaPurpose,
+} from '../../types'
+import { ApiError } from '../api/errors'
+import {
+  ValidationError,
+  validateCommentContent,
+  validateMessageAttachments,
+  validateMessageContent,
+  validateMessageType,
+  validatePostForm,
+} from '../../validation'
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, archiveHeaderError, base64ToBlob, blobToBase64 } from '../../utils/archive'
+import { DELETED_USER_ID, otherParticipants } from '../../utils/conversations'
+import { createId } from '../../utils/ids'
+import { parseJson } from '../../utils/serialization'
+import type { MediaStorage } from '../media/storage'
+import { canViewPost, presentComment, presentMessage, presentPost } from './accessPolicy'
+import type { MockTables, UserRecord } from './database'
+import { requestFollow } from './follows'
+import { collectTags } from './hashtags'
+import { restoreMedia, toMediaAsset } from './media'
+import { resolveShareTarget, syncShareCount } from './posts'
+
+/** Every list an archive must have */
+const ARCHIVE_LISTS = [
+  'posts',
+  'comments',
+  'conversations',
+  'messages',
+  'followers',
+  'following',
+  'users',
+  'files',
+] as const
+
+/** Whether a value from the file is what the import expects there */
+type ShapeCheck = (value: unknown) => boolean
+
+const isString: ShapeCheck = (value) => typeof value === 'string'
+const isDate: ShapeCheck = (value) => value instanceof Date
+const isBoolean: ShapeCheck = (value) => typeof value === 'boolean'
+const optional =
+  (check: ShapeCheck): ShapeCheck =>
+  (value) =>
+    value === undefined || check(value)
+const listOf =
+  (check: ShapeCheck): ShapeCheck =>
+  (value) =>
+    Array.isArray(value) && value.every(check)
+const recordOf =
+  (fields: Record<string, ShapeCheck>): ShapeCheck =>
+  (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    Object.entries(fields).every(([field, check]) => check((value as Record<string, unknown>)[field]))
+
+/**
+ * ARCHIVE_RECORDS - The fields the import reads from the records of each
+ * list, and what they must be; fields it never reads are not checked
+ */
+const ARCHIVE_RECORDS: Record<(typeof ARCHIVE_LISTS)[number], ShapeCheck> = {
+  posts: recordOf({
+    id: isString,
+    authorId: isString,
+    content: isString,
+    audience: isString,
+    createdAt: isDate,
+    updatedAt: isDate,
+    editedAt: optional(isDate),
+    images: optional(listOf(isString)),
+    imageAlts: optional(listOf(isString)),
+    tags: optional(listOf(isString)),
+    media: optional(listOf(recordOf({ url: isString, fileName: isString }))),
+    repostOf: optional(isString),
+    quoteOf: optional(isString),
+  }),
+  comments: recordOf({
+    id: isString,
+    postId: isString,
+    authorId: isString,
+    content: isString,
+    createdAt: isDate,
+    updatedAt: isDate,
+    parentId: optional(isString),
+  }),
+  conversations: recordOf({
+    id: isString,
+    participants: listOf(isString),
+    isGroup: isBoolean,
+    groupName: optional(isString),
+    createdAt: isDate,
+    updatedAt: isDate,
+  }),
+  messages: recordOf({
+    id: isString,
+    conversationId: isString,
+    senderId: isString,
+    content: isString,
+    type: isString,
+    createdAt: isDate,
+    attachments: optional(listOf(isString)),
+  }),
+  followers: isString,
+  following: isString,
+  users: recordOf({ id: isString, username: isString }),
+  files: recordOf({ url: isString, mimeType: isString, data: isString }),
+}
+
+/**
+ * oldestFirst - Restoring in time order lets a reply find its parent
+ * and a quote its original
+ */
+function oldestFirst(a: { createdAt: Date }, b: { createdAt: Date }): number {
+  return a.createdAt.getTime() - b.createdAt.getTime()
+}
+
+/**
+ * emptyCounts - ArchiveCounts with every kind at zero
+ */
+function emptyCounts(): ArchiveCounts {
+  return { posts: 0, comments: 0, conversations: 0, messages: 0, following: 0, files: 0 }
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * buildArchive - The viewer's data as an AccountArchive (see header)
+ */
+export async function buildArchive(
+  tables: MockTables,
+  storage: MediaStorage,
+  viewer: UserRecord,
+): Promise<AccountArchive> {
+  const { followers, following, ...profile } = viewer
+  const posts = tables.posts
+    .filter((p) => p.authorId === viewer.id)
+    .sort(oldestFirst)
+    .map((p) => presentPost(viewer, p))
+  const comments = tables.comments
+    .filter((c) => c.authorId === viewer.id && !c.isDeleted)
+    .sort(oldestFirst)
+    .map((c) => presentComment(tables, viewer, c))
+  const conversations = tables.conversations.filter((c) => c.participants.includes(viewer.id))
+  const conversationIds = new Set(conversations.map((c) => c.id))
+  const messages = tables.messages
+    .filter((m) => conversationIds.has(m.conversationId))
+    .sort(oldestFirst)
+    .map((m) => presentMessage(viewer, m))
+
+  const mentioned = new Set([
+    ...followers,
+    ...following,
+    ...conversations.flatMap((c) => c.participants),
+    ...messages.flatMap((m) => [m.senderId, ...(m.system?.userIds ?? [])]),
+    ...posts.flatMap((p) => p.likes),
+    ...comments.flatMap((c) => c.likes),
+  ])
+  const users: ArchivedUser[] = tables.users
+    .filter((u) => u.id !== viewer.id && mentioned.has(u.id))
+    .map(({ id, username, firstName, lastName }) => ({ id, username, firstName, lastName }))
+
+  const usedUrls = new Set([
+    ...posts.flatMap((p) => p.images ?? []),
+    ...messages.filter((m) => m.senderId === viewer.id).flatMap((m) => m.attachments ?? []),
+  ])
+  const files: ArchivedFile[] = []
+  for (const record of tables.media) {
+    if (record.ownerId !== viewer.id || !usedUrls.has(record.url)) continue
+    const data = await storage.get(record.storageKeys[0])
+    if (data) files.push({ url: record.url, mimeType: record.mimeType, data: await blobToBase64(data) })
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    profile,
+    posts,
+    comments,
+    conversations,
+    messages,
+    followers: [...followers],
+    following: [...following],
+    users,
+    files,
+  }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * readArchive - The request body as an AccountArchive this app can read
+ *
+ * A future ARCHIVE_VERSION would upgrade older archives here, so the
+ * rest of the import only ever sees the current layout.
+ *
+ * @throws ValidationError for another format, an unknown or newer
+ *         version, a missing list or a record not shaped as in
+ *         ARCHIVE_RECORDS
+ */
+function readArchive(body: unknown): AccountArchive {
+  const headerError = archiveHeaderError(body)
+  if (headerError) {
+    throw new ValidationError({ archive: { code: 'invalid_format', message: headerError } }, headerError)
+  }
+  const archive = parseJson<AccountArchive>(JSON.stringify(body))
+  const isReadable =
+    recordOf({ id: isString })(archive.profile) &&
+    ARCHIVE_LISTS.every((list) => listOf(ARCHIVE_RECORDS[list])(archive[list]))
+  if (!isReadable) {
+    const message = 'This archive is incomplete or damaged.'
+    throw new ValidationError({ archive: { code: 'invalid_format', message } }, message)
+  }
+  return archive
+}
+
+/**
+ * assertFreshAccount - Imports only go into an account with no history
+ *
+ * @throws ApiError CONFLICT once the viewer has posted, commented, sent a
+ *         message or followed someone
+ */
+function assertFreshAccount(tables: MockTables, viewer: UserRecord): void {
+  const hasHistory =
+    viewer.following.length > 0 ||
+    tables.posts.some((p) => p.authorId === viewer.id) ||
+    tables.comments.some((c) => c.authorId === viewer.id) ||
+    tables.messages.some((m) => m.senderId === viewer.id && m.type !== 'system')
+  if (hasHistory) {
+    throw new ApiError(
+      'CONFLICT',
+      'Archives can only be imported into a new account, before it posts, comments, sends messages or follows anyone.',
+    )
+  }
+}
+
+/**
+ * createIdClaimer - Keeps an archived ID unless the table already has it
+ */
+function createIdClaimer(records: { id: string }[], prefix: string, summary: ArchiveImportSummary) {
+  const taken = new Set(records.map((r) => r.id))
+  return (id: string): string => {
+    let claimed = id
+    if (taken.has(id)) {
+      claimed = createId(prefix)
+      summary.renamedIds++
+    }
+    taken.add(claimed)
+    return claimed
+  }
+}
+
+/**
+ * importArchive - Restores an archive into the viewer's account (see header)
+ *
+ * Does not commit; the caller does once it has finished.
+ *
+ * @throws ValidationError when the body is not a readable archive
+ * @throws ApiError CONFLICT when the account is not fresh
+ */
+export async function importArchive(
+  tables: MockTables,
+  storage: MediaStorage,
+  viewer: UserRecord,
+  body: unknown,
+): Promise<ArchiveImportSummary> {
+  const archive = readArchive(body)
+  assertFreshAccount(tables, viewer)
+  const summary: ArchiveImportSummary = { imported: emptyCounts(), skipped: emptyCounts(), renamedIds: 0 }
+  const { imported, skipped } = summary
+
+  // People: the archive's IDs → this server's IDs (null: not found)
+  const archivedUsers = new Map(archive.users.map((u) => [u.id, u]))
+  const resolvedUsers = new Map<string, string | null>([[archive.profile.id, viewer.id]])
+  const resolveUser = (userId: string): string | null => {
+    if (!resolvedUsers.has(userId)) {
+      const ref = archivedUsers.get(userId)
+      const username = ref?.username.toLowerCase()
+      const found =
+        ref &&
+        (tables.users.find((u) => u.id === ref.id && u.username === ref.username) ??
+          tables.users.find((u) => u.username.toLowerCase() === username))
+      resolvedUsers.set(userId, found && found.id !== viewer.id ? found.id : null)
+    }
+    return resolvedUsers.get(userId) ?? null
+  }
+  const participant = (userId: string) => resolveUser(userId) ?? DELETED_USER_ID
+
+  // Files: stored again; references to one that failed are dropped
+  const postFiles = new Map(archive.posts.flatMap((p) => p.media ?? []).map((m) => [m.url, m.fileName]))
+  const postImages = new Set(archive.posts.flatMap((p) => p.images ?? []))
+  const restoredFiles = new Map<string, string>()
+  for (const file of archive.files) {
+    const purpose: MediaPurpose = postImages.has(file.url) ? 'post' : 'message'
+    try {
+      const record = await restoreMedia(tables, storage, viewer, {
+        purpose,
+        fileName: postFiles.get(file.url) ?? file.url.split('/').pop() ?? '',
+        data: base64ToBlob(file.data, file.mimeType),
+      })
+      restoredFiles.set(file.url, record.url)
+      imported.files++
+    } catch {
+      skipped.files++
+    }
+  }
+  const embeddedUrls = new Set(archive.files.map((f) => f.url))
+  const restoreUrls = (urls: string[] | undefined) =>
+    urls?.flatMap((url) => restoredFiles.get(url) ?? (embeddedUrls.has(url) ? [] : [url]))
+
+  // Posts: originals come before their reposts and quotes
+  const claimPostId = createIdClaimer(tables.posts, 'post', summary)
+  const postIds = new Map<string, string>()
+  const sharedIds = new Set<string>()
+  const shareTarget = (archivedId: string): string | null => {
+    try {
+      return resolveShareTarget(tables, viewer, postIds.get(archivedId) ?? archivedId).id
+    } catch {
+      return null
+    }
+  }
+  for (const post of [...archive.posts].sort(oldestFirst)) {
+    const repostOf = post.repostOf ? shareTarget(post.repostOf) : undefined
+    const quoteOf = post.quoteOf ? shareTarget(post.quoteOf) : undefined
+    if (post.authorId !== archive.profile.id || repostOf === null || quoteOf === null) {
+      skipped.posts++
+      continue
+    }
+    // A repost is nothing but its target, written like repost() does
+    const images = repostOf
+      ? []
+      : (post.images ?? []).flatMap((url, index) =>
+          (restoreUrls([url]) ?? []).map((restored) => ({ url: restored, alt: post.imageAlts?.[index] ?? '' })),
+        )
+    const content = repostOf ? '' : post.content.trim()
+    const audience = repostOf ? 'public' : post.audience
+    const tags = repostOf ? [] : collectTags(content, post.tags)
+    const isValid =
+      Boolean(repostOf) ||
+      validatePostForm({
+        content,
+        mediaIds: images.map((image) => image.url),
+        imageAlts: images.map((image) => image.alt),
+        audience,
+        tags,
+        quoteOf,
+      }).valid
+    if (!isValid) {
+      skipped.posts++
+      continue
+    }
+    const id = claimPostId(post.id)
+    const media = (repostOf ? [] : (post.media ?? [])).flatMap((asset) => {
+      const record = tables.media.find((m) => m.url === restoredFiles.get(asset.url))
+      if (!record) return []
+      record.attachedTo = id
+      return [toMediaAsset(record)]
+    })
+    tables.posts.push({
+      id,
+      authorId: viewer.id,
+      content,
+      images: images.length ? images.map((image) => image.url) : undefined,
+      imageAlts: images.some((image) => image.alt) ? images.map((image) => image.alt) : undefined,
+      likes: [],
+      shares: 0,
+      createdAt: post.createdAt,
+      updatedAt: post.updatedAt,
+      audience,
+      tags: tags.length ? tags : undefined,
+      media: media.length ? media : undefined,
+      repostOf,
+      quoteOf,
+      editedAt: post.editedAt,
+    })
+    postIds.set(post.id, id)
+    sharedIds.add(id)
+    if (repostOf) sharedIds.add(repostOf)
+    if (quoteOf) sharedIds.add(quoteOf)
+    imported.posts++
+  }
+  for (const id of sharedIds) syncShareCount(tables, id)
+
+  // Comments: only the owner's own, on posts the viewer can see
+  const claimCommentId = createIdClaimer(tables.comments, 'comment', summary)
+  const commentIds = new Map<string, string>()
+  for (const comment of [...archive.comments].sort(oldestFirst)) {
+    const postId = postIds.get(comment.postId) ?? comment.postId
+    const post = tables.posts.find((p) => p.id === postId)
+    const isValid = !validateCommentContent(comment.content)
+    if (comment.authorId !== archive.profile.id || !post || !canViewPost(tables, viewer, post) || !isValid) {
+      skipped.comments++
+      continue
+    }
+    const parentId = comment.parentId && (commentIds.get(comment.parentId) ?? comment.parentId)
+    const hasParent = tables.comments.some((c) => c.id === parentId && c.postId === postId)
+    const id = claimCommentId(comment.id)
+    tables.comments.push({
+      id,
+      postId,
+      authorId: viewer.id,
+      content: comment.content.trim(),
+      likes: [],
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      parentId: hasParent ? parentId : undefined,
+    })
+    commentIds.set(comment.id, id)
+    imported.comments++
+  }
+
+  // Conversations
+  const claimConversationId = createIdClaimer(tables.conversations, 'conv', summary)
+  const conversationIds = new Map<string, string>()
+  for (const conversation of archive.conversations) {
+    const participants = [...new Set(conversation.participants.map(participant))]
+    if (!participants.includes(viewer.id)) {
+      skipped.conversations++
+      continue
+    }
+    const existing =
+      !conversation.isGroup &&
+      !participants.includes(DELETED_USER_ID) &&
+      tables.conversations.find(
+        (c) =>
+          !c.isGroup &&
+          c.participants.length === participants.length &&
+          participants.every((id) => c.participants.includes(id)),
+      )
+    const id = existing ? existing.id : claimConversationId(conversation.id)
+    if (!existing) {
+      tables.conversations.push({
+        id,
+        participants: [viewer.id],
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        isGroup: conversation.isGroup,
+        groupName: conversation.groupName,
+        admins: conversation.isGroup ? [viewer.id] : undefined,
+      })
+    }
+    conversationIds.set(conversation.id, id)
+    imported.conversations++
+  }
+
+  // Messages: only the ones the owner sent
+  const claimMessageId = createIdClaimer(tables.messages, 'msg', summary)
+  for (const message of [...archive.messages].sort(oldestFirst)) {
+    const conversationId = conversationIds.get(message.conversationId)
+    const conversation = tables.conversations.find((c) => c.id === conversationId)
+    const isOwn = message.senderId === archive.profile.id && !validateMessageType(message.type)
+    const attachments = restoreUrls(message.attachments) ?? []
+    const isValid =
+      !validateMessageAttachments(attachments) && !validateMessageContent(message.content, attachments.length > 0)
+    if (!conversationId || !conversation || !isOwn || !isValid) {
+      skipped.messages++
+      continue
+    }
+    tables.messages.push({
+      id: claimMessageId(message.id),
+      conversationId,
+      senderId: viewer.id,
+      receiverId: conversation.isGroup ? conversationId : (otherParticipants(conversation, viewer.id)[0] ?? viewer.id),
+      content: message.content.trim(),
+      type: message.type,
+      isRead: false,
+      createdAt: message.createdAt,
+      attachments: attachments.length ? attachments : undefined,
+    })
+    imported.messages++
+  }
+
+  // Following: the viewer asks again, like pressing Follow
+  for (const targetId of new Set(archive.following)) {
+    const userId = resolveUser(targetId)
+    try {
+      if (userId) {
+        requestFollow(tables, viewer.id, userId)
+        imported.following++
+        continue
+      }
+    } catch {
+      // Blocked in either direction: the follow is not possible any more
+    }
+    skipped.following++
+  }
+
+  return summary
+}
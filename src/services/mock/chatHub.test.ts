@@ -0,0 +1,263 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat Hub Tests - Sending, Syncing and Read Receipts
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.21 (resuming numbered live events)
+ * PURPOSE: Drive the hub the way a transport does (connect, then feed it
+ *          ClientEvents) and check the ServerEvents each connection gets
+ *
+ * Fixtures Used:
+ * - conv-alice-bob: msg-3 from Bob is still unread by Alice
+ * - Erin is not in any of Alice's conversations
+ * - post-1 is Alice's public post; the live tests like it through a local
+ *   activity source and a log of REPLAY_LIMIT events
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ClientEvent, ServerEvent } from '../chat/protocol'
+import type { ActivityEvent } from './activity'
+import { createChatHub, type ChatHub } from './chatHub'
+import type { MockTables } from './database'
+import { createFixtures } from './fixtures'
+
+const REPLAY_LIMIT = 3
+
+let tables: MockTables
+let hub: ChatHub
+let activityListeners: Set<(event: ActivityEvent) => void>
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-03-02T12:00:00Z') })
+  tables = createFixtures()
+  activityListeners = new Set()
+  hub = createChatHub({
+    getTables: () => tables,
+    authenticate: (token, userId) => (token === 'valid' ? userId : null),
+    subscribeActivity: (listener) => {
+      activityListeners.add(listener)
+      return () => activityListeners.delete(listener)
+    },
+    replayLimit: REPLAY_LIMIT,
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+/**
+ * connect - A signed-in connection that records what it is sent
+ */
+function connect(userId: string) {
+  const received: ServerEvent[] = []
+  const session = hub.connect((event) => received.push(event))
+  session.receive({ type: 'hello', token: 'valid', userId })
+  const send = (event: ClientEvent) => {
+    received.length = 0
+    session.receive(event)
+    return [...received]
+  }
+  return { session, received, send }
+}
+
+const sendText = (conversationId: string, content: string, clientId = 'client-1'): ClientEvent => ({
+  type: 'send',
+  clientId,
+  conversationId,
+  content,
+  messageType: 'text',
+})
+
+describe('connecting', () => {
+  it('answers ready to a valid hello and refuses everything before one', () => {
+    const received: ServerEvent[] = []
+    const session = hub.connect((event) => received.push(event))
+    session.receive({ type: 'sync', since: null })
+    session.receive({ type: 'hello', token: 'expired', userId: 'user-alice' })
+    session.receive({ type: 'hello', token: 'valid', userId: 'user-alice' })
+    expect(received.map((event) => (event.type === 'error' ? event.code : event.type))).toEqual([
+      'UNAUTHORIZED',
+      'UNAUTHORIZED',
+      'ready',
+    ])
+  })
+})
+
+describe('sending', () => {
+  it('acknowledges the sender with its clientId and delivers to the other participant', () => {
+    const alice = connect('user-alice')
+    const bob = connect('user-bob')
+    const [ack] = alice.send(sendText('conv-alice-bob', '  See you Thursday  '))
+    expect(ack).toMatchObject({ type: 'message', clientId: 'client-1' })
+    const message = ack.type === 'message' ? ack.message : null
+    expect(message).toMatchObject({
+      senderId: 'user-alice',
+      receiverId: 'user-bob',
+      content: 'See you Thursday',
+      isRead: false,
+    })
+    expect(bob.received.at(-1)).toEqual({ type: 'message', message })
+    expect(tables.messages).toContain(message)
+  })
+
+  it('stores a retried clientId once and answers with the original message', () => {
+    const alice = connect('user-alice')
+    const count = tables.messages.length
+    const [first] = alice.send(sendText('conv-alice-bob', 'Hello'))
+    const [retry] = alice.send(sendText('conv-alice-bob', 'Hello'))
+    expect(retry).toEqual(first)
+    expect(tables.messages).toHaveLength(count + 1)
+  })
+
+  it('fails the send, by clientId, outside your conversations or with invalid content', () => {
+    const erin = connect('user-erin')
+    expect(erin.send(sendText('conv-alice-bob', 'Hi'))).toEqual([
+      { type: 'send-failed', clientId: 'client-1', error: 'Conversation not found.' },
+    ])
+    const alice = connect('user-alice')
+    const [failed] = alice.send(sendText('conv-alice-bob', '   ', 'client-2'))
+    expect(failed).toMatchObject({ type: 'send-failed', clientId: 'client-2' })
+  })
+})
+
+describe('syncing', () => {
+  it('sends a full sync first, then only what changed since its serverTime', () => {
+    const alice = connect('user-alice')
+    const [full] = alice.send({ type: 'sync', since: null })
+    if (full.type !== 'synced') throw new Error('Expected synced')
+    expect(full.full).toBe(true)
+    expect(full.messages.map((m) => m.id)).toEqual(expect.arrayContaining(['msg-1', 'msg-3', 'msg-5']))
+
+    vi.advanceTimersByTime(1000)
+    const bob = connect('user-bob')
+    bob.send(sendText('conv-alice-bob', 'Missed this one'))
+    const [backfill] = alice.send({ type: 'sync', since: full.serverTime })
+    if (backfill.type !== 'synced') throw new Error('Expected synced')
+    expect(backfill.full).toBe(false)
+    expect(backfill.messages.map((m) => m.content)).toEqual(['Missed this one'])
+    expect(backfill.conversations.map((c) => c.id)).toEqual(['conv-alice-bob', 'conv-hike'])
+  })
+
+  it('backfills messages read since then, so missed receipts arrive', () => {
+    const bob = connect('user-bob')
+    const [full] = bob.send({ type: 'sync', since: null })
+    if (full.type !== 'synced') throw new Error('Expected synced')
+
+    vi.advanceTimersByTime(1000)
+    connect('user-alice').send({ type: 'read', conversationId: 'conv-alice-bob' })
+    const [backfill] = bob.send({ type: 'sync', since: full.serverTime })
+    if (backfill.type !== 'synced') throw new Error('Expected synced')
+    expect(backfill.messages).toEqual([expect.objectContaining({ id: 'msg-3', isRead: true })])
+  })
+})
+
+describe('read receipts', () => {
+  it('marks only the other people’s messages read and tells every participant', () => {
+    const alice = connect('user-alice')
+    const bob = connect('user-bob')
+    const events = alice.send({ type: 'read', conversationId: 'conv-alice-bob' })
+    const receipt = {
+      type: 'read',
+      conversationId: 'conv-alice-bob',
+      readerId: 'user-alice',
+      messageIds: ['msg-3'],
+      at: new Date().toISOString(),
+    }
+    expect(events).toEqual([receipt])
+    expect(bob.received.at(-1)).toEqual(receipt)
+    expect(tables.messages.find((m) => m.id === 'msg-3')?.isRead).toBe(true)
+    expect(tables.notifications.find((n) => n.id === 'notif-3')?.isRead).toBe(true)
+  })
+
+  it('sends nothing when there was nothing unread, and NOT_FOUND outside your conversations', () => {
+    const alice = connect('user-alice')
+    alice.send({ type: 'read', conversationId: 'conv-alice-bob' })
+    expect(alice.send({ type: 'read', conversationId: 'conv-alice-bob' })).toEqual([])
+    expect(connect('user-erin').send({ type: 'read', conversationId: 'conv-alice-bob' })).toEqual([
+      { type: 'error', code: 'NOT_FOUND', message: 'Conversation not found.' },
+    ])
+  })
+})
+
+describe('typing', () => {
+  it('tells the others, and tells them it stopped when the connection closes', () => {
+    const alice = connect('user-alice')
+    const bob = connect('user-bob')
+    alice.send({ type: 'typing', conversationId: 'conv-alice-bob', isTyping: true })
+    expect(bob.received.at(-1)).toEqual({
+      type: 'typing',
+      conversationId: 'conv-alice-bob',
+      userId: 'user-alice',
+      isTyping: true,
+    })
+    expect(alice.received).toEqual([])
+    alice.session.close()
+    expect(bob.received.at(-1)).toMatchObject({ type: 'typing', isTyping: false })
+  })
+})
+
+describe('live events', () => {
+  /** Publishes a like of post-1 as activity, the way togglePostLike does */
+  const likePost = (userId: string) => {
+    const post = tables.posts.find((p) => p.id === 'post-1')!
+    for (const listener of activityListeners) listener({ type: 'post-liked', post, userId, liked: true })
+  }
+
+  /** A connection watching post-1 that resumes from (epoch, after) */
+  const resume = (epoch: string | null, after: number) => {
+    const bob = connect('user-bob')
+    bob.send({ type: 'watch', postIds: ['post-1'] })
+    return bob.send({ type: 'resume', epoch, after })
+  }
+
+  /** The hub's epoch and sequence number, as a fresh resume reports them */
+  const position = () => {
+    const resumed = resume(null, 0).at(-1)
+    if (resumed?.type !== 'resumed') throw new Error('Expected resumed')
+    return resumed
+  }
+
+  const liveSeqs = (events: ServerEvent[]) => events.flatMap((event) => (event.type === 'live' ? [event.seq] : []))
+
+  it('sends nothing live before resume, and everything after it', () => {
+    const bob = connect('user-bob')
+    bob.send({ type: 'watch', postIds: ['post-1'] })
+    likePost('user-dave')
+    expect(bob.received).toEqual([])
+    bob.send({ type: 'resume', epoch: null, after: 0 })
+    likePost('user-alice')
+    expect(bob.received.at(-1)).toEqual({
+      type: 'live',
+      seq: 2,
+      event: { type: 'post-liked', postId: 'post-1', userId: 'user-alice', liked: true },
+    })
+  })
+
+  it('replays only the events after `after` when the epoch matches', () => {
+    const { epoch } = position()
+    likePost('user-dave')
+    likePost('user-alice')
+    likePost('user-carol')
+    const events = resume(epoch, 1)
+    expect(liveSeqs(events)).toEqual([2, 3])
+    expect(events.at(-1)).toEqual({ type: 'resumed', epoch, seq: 3, complete: true })
+  })
+
+  it('answers complete: false, without replaying, for a stale epoch', () => {
+    likePost('user-dave')
+    const events = resume('epoch-from-an-earlier-run', 0)
+    expect(liveSeqs(events)).toEqual([])
+    expect(events.at(-1)).toMatchObject({ type: 'resumed', seq: 1, complete: false })
+  })
+
+  it('answers complete: false once the log no longer reaches back to `after`', () => {
+    const { epoch } = position()
+    for (let i = 0; i < REPLAY_LIMIT + 2; i++) likePost('user-dave')
+    expect(resume(epoch, 1).at(-1)).toMatchObject({ complete: false })
+    const events = resume(epoch, 2)
+    expect(liveSeqs(events)).toEqual([3, 4, 5])
+    expect(events.at(-1)).toMatchObject({ seq: 5, complete: true })
+  })
+})
@@ -0,0 +1,519 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Chat Hub - Server-Side Chat Logic for the Stand-In Backends
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (starting conversations, group changes)
+ * UPDATED: Feature Phase - Step 2.10 (message notifications, live delivery)
+ * UPDATED: Feature Phase - Step 2.14 (blocking)
+ * UPDATED: Feature Phase - Step 2.15 (moderated messages, suspended senders)
+ * UPDATED: Feature Phase - Step 2.17 (attachment count and format; replaced group photos)
+ * UPDATED: Feature Phase - Step 2.21 (numbered live events, watch, resume)
+ * PURPOSE: Handle ClientEvents and push ServerEvents to everyone involved
+ *
+ * Who Uses It:
+ * - createLocalChatTransport (in the browser, over the mock database)
+ * - server/chatServer.ts (the Node WebSocket stand-in, over its own
+ *   in-memory copy of the fixtures)
+ * The hub never touches a socket: each connection is just a `send`
+ * callback, so the same logic runs in both places.
+ *
+ * Rules:
+ * - Every event except 'hello' needs an authenticated connection
+ * - Only participants can send to, read, or watch typing in a conversation
+ * - A clientId is stored once per sender; retries get the original message
+ * - Marking read flips isRead on every message from OTHER people in the
+ *   conversation (matching POST /conversations/:id/read)
+ * - Group changes follow utils/groups.ts and are applied by ./groups.ts,
+ *   the same code the REST endpoints use
+ * - Messages create 'message' notifications and reading a conversation
+ *   reads them, like the REST endpoints (./notify.ts)
+ * - Sending to a direct chat with a user who blocked you (or whom you
+ *   blocked) fails, like POST /conversations/:id/messages (./accessPolicy.ts)
+ * - Suspended users cannot send, and messages a moderator removed are
+ *   blanked in syncs and history (./moderation.ts, ./accessPolicy.ts)
+ * - With subscribeNotifications, every notification created or read in
+ *   the hub's tables is pushed to its recipient's connections
+ *
+ * Live Events (Step 2.21):
+ * - Notifications and, with subscribeActivity, likes, comments, new posts
+ *   and follows (./activity.ts) are numbered in one sequence per hub and
+ *   kept in a log of the last `replayLimit`
+ * - A connection gets live events only after 'resume': first the logged
+ *   events after the number it last saw, then new ones as they happen
+ * - The hub's `epoch` changes every time it starts, so a client holding a
+ *   number from an earlier run is told to reload rather than replayed
+ *   the wrong events
+ * - Who gets an event is decided when it is SENT (live or replayed),
+ *   against the tables and the posts the connection watches at that time
+ *
+ * LEARNING NOTES:
+ * - The hub remembers WHEN each message was read (readTimes), so a client
+ *   that reconnects can be sent the read receipts it missed
+ * - One user can have several connections (tabs); events go to all of them
+ */
+
+import type { Message } from '../../types'
+import { createId } from '../../utils/ids'
+import { validateMessageAttachments, validateMessageContent, validateMessageType } from '../../validation'
+import type { ClientEvent, LiveEvent, ServerEvent } from '../chat/protocol'
+import type { MediaStorage } from '../media/storage'
+import { toErrorResponse } from '../api/errors'
+import { assertCanMessage, presentMessage } from './accessPolicy'
+import { belongsTo, presentActivity, type ActivityEvent } from './activity'
+import type { MockTables } from './database'
+import { changeGroup, startConversation, type ConversationChange } from './groups'
+import { toConversation } from './helpers'
+import { assertNotSuspended } from './moderation'
+import { notifyMessage, readMessageNotifications, type NotificationEvent } from './notify'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * ChatHubTables - The tables the hub reads and writes
+ *
+ * UPDATED: Step 2.21 - Every table: live events are checked against posts,
+ * comments and the access rules
+ */
+export type ChatHubTables = MockTables
+
+/**
+ * ChatHubOptions
+ * - getTables: Current tables (a function, so a database reset is seen)
+ * - commit: Persist after a change (optional)
+ * - authenticate: Resolve a hello to a user ID, or null to reject
+ * - syncLimit: Messages per conversation in a first (full) sync
+ * - subscribeNotifications: Source of notification events to push live
+ *   (normally subscribeToNotifications from ./notify.ts)
+ * - subscribeActivity: Source of likes, comments, posts and follows to push
+ *   live (normally subscribeToActivity from ./activity.ts)
+ * - replayLimit: Live events kept for clients that reconnect
+ * - media: Where uploads are stored; the files of replaced group photos
+ *   are deleted from it (without it, they stay)
+ */
+export interface ChatHubOptions {
+  getTables: () => ChatHubTables
+  commit?: () => void
+  authenticate: (token: string, userId: string) => string | null
+  syncLimit?: number
+  subscribeNotifications?: (listener: (event: NotificationEvent) => void) => () => void
+  subscribeActivity?: (listener: (event: ActivityEvent) => void) => () => void
+  replayLimit?: number
+  media?: MediaStorage
+}
+
+/**
+ * ChatHubSession - One connection as the hub sees it
+ */
+export interface ChatHubSession {
+  receive(event: ClientEvent): void
+  close(): void
+}
+
+/**
+ * ChatHub - Accepts connections
+ */
+export interface ChatHub {
+  connect(send: (event: ServerEvent) => void): ChatHubSession
+}
+
+interface Connection {
+  userId: string | null
+  send: (event: ServerEvent) => void
+  typingIn: Set<string>
+  watching: Set<string>
+  resumed: boolean
+}
+
+/**
+ * LogEntry - One numbered live event; `present` decides, per connection,
+ * what (if anything) it receives
+ */
+interface LogEntry {
+  seq: number
+  present: (connection: Connection, userId: string) => LiveEvent | null
+}
+
+const MAX_HISTORY_PAGE = 100
+const MAX_WATCHED_POSTS = 200
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * createChatHub - Builds a hub over the given tables
+ */
+export function createChatHub(options: ChatHubOptions): ChatHub {
+  const syncLimit = options.syncLimit ?? 30
+  const replayLimit = options.replayLimit ?? 500
+  const connections = new Set<Connection>()
+  const readTimes = new Map<string, number>()
+  const sentByClientId = new Map<string, string>()
+  const epoch = createId('epoch')
+  const log: LogEntry[] = []
+  let seq = 0
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  const commit = () => options.commit?.()
+
+  const findUser = (userId: string) => options.getTables().users.find((u) => u.id === userId) ?? null
+
+  const findConversation = (conversationId: string, userId: string) =>
+    options.getTables().conversations.find((c) => c.id === conversationId && c.participants.includes(userId))
+
+  /** Sends to every connection of every listed user, optionally skipping one user */
+  const broadcast = (userIds: string[], build: (connection: Connection) => ServerEvent | null) => {
+    for (const connection of connections) {
+      if (!connection.userId || !userIds.includes(connection.userId)) continue
+      const event = build(connection)
+      if (event) connection.send(event)
+    }
+  }
+
+  const unreadNotifications = (userId: string) =>
+    options.getTables().notifications.filter((n) => n.userId === userId && !n.isRead).length
+
+  /** Numbers a live event, logs it and sends it to every resumed connection it is for */
+  const publish = (present: LogEntry['present']) => {
+    const entry: LogEntry = { seq: ++seq, present }
+    log.push(entry)
+    if (log.length > replayLimit) log.shift()
+    for (const connection of connections) {
+      if (!connection.userId || !connection.resumed) continue
+      const event = present(connection, connection.userId)
+      if (event) connection.send({ type: 'live', seq: entry.seq, event })
+    }
+  }
+
+  // Other databases in the same process emit too; only forward our own.
+  // Unread counts are taken now: a replay must not report today's count
+  // next to an old notification.
+  options.subscribeNotifications?.((event) => {
+    const { notifications } = options.getTables()
+    if (event.type === 'created') {
+      const { notification } = event
+      if (!notifications.includes(notification)) return
+      const unreadCount = unreadNotifications(notification.userId)
+      publish((_, userId) =>
+        userId === notification.userId ? { type: 'notification', notification, unreadCount } : null,
+      )
+    } else {
+      if (!notifications.some((n) => n.id === event.notificationIds[0])) return
+      const unreadCount = unreadNotifications(event.userId)
+      const { notificationIds } = event
+      publish((_, userId) =>
+        userId === event.userId ? { type: 'notifications-read', notificationIds, unreadCount } : null,
+      )
+    }
+  })
+
+  options.subscribeActivity?.((event) => {
+    if (!belongsTo(options.getTables(), event)) return
+    publish((connection, userId) => {
+      const viewer = findUser(userId)
+      return viewer && presentActivity(options.getTables(), viewer, event, connection.watching)
+    })
+  })
+
+  // --------------------------------------------------------------------------
+  // Event handlers
+  // --------------------------------------------------------------------------
+
+  const handleSync = (connection: Connection, userId: string, since: string | null) => {
+    const { conversations, messages } = options.getTables()
+    const mine = conversations.filter((c) => c.participants.includes(userId))
+    const ids = new Set(mine.map((c) => c.id))
+    const sinceMs = since ? Date.parse(since) : NaN
+
+    let changed: Message[]
+    if (Number.isNaN(sinceMs)) {
+      // First sync: the latest `syncLimit` messages of each conversation
+      changed = mine.flatMap((conversation) =>
+        messages
+          .filter((m) => m.conversationId === conversation.id)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .slice(-syncLimit),
+      )
+    } else {
+      // Backfill: new messages, and messages whose read state changed
+      changed = messages.filter(
+        (m) =>
+          ids.has(m.conversationId) &&
+          (m.createdAt.getTime() > sinceMs || (readTimes.get(m.id) ?? 0) > sinceMs),
+      )
+    }
+
+    const viewer = findUser(userId)
+    connection.send({
+      type: 'synced',
+      conversations: mine.map((record) => toConversation(options.getTables(), record, viewer)),
+      messages: changed.map((message) => presentMessage(viewer, message)),
+      serverTime: new Date().toISOString(),
+      full: Number.isNaN(sinceMs),
+    })
+  }
+
+  const handleSend = (connection: Connection, userId: string, event: Extract<ClientEvent, { type: 'send' }>) => {
+    const tables = options.getTables()
+    const dedupeKey = `${userId}:${event.clientId}`
+    const existingId = sentByClientId.get(dedupeKey)
+    const existing = existingId && tables.messages.find((m) => m.id === existingId)
+    if (existing) {
+      connection.send({ type: 'message', message: existing, clientId: event.clientId })
+      return
+    }
+
+    const conversation = findConversation(event.conversationId, userId)
+    if (!conversation) {
+      connection.send({ type: 'send-failed', clientId: event.clientId, error: 'Conversation not found.' })
+      return
+    }
+    const attachments = event.attachments ?? []
+    const error =
+      validateMessageType(String(event.messageType ?? 'text')) ??
+      validateMessageAttachments(attachments) ??
+      validateMessageContent(String(event.content ?? ''), attachments.length > 0)
+    if (error) {
+      connection.send({ type: 'send-failed', clientId: event.clientId, error: error.message })
+      return
+    }
+    try {
+      const sender = findUser(userId)
+      if (sender) assertNotSuspended(sender)
+      assertCanMessage(tables, conversation, userId)
+    } catch (caught) {
+      connection.send({ type: 'send-failed', clientId: event.clientId, error: toErrorResponse(caught).error ?? 'Message not sent.' })
+      return
+    }
+
+    const now = new Date()
+    const message: Message = {
+      id: createId('msg'),
+      conversationId: conversation.id,
+      senderId: userId,
+      receiverId: conversation.isGroup
+        ? conversation.id
+        : (conversation.participants.find((id) => id !== userId) ?? userId),
+      content: event.content.trim(),
+      type: event.messageType ?? 'text',
+      isRead: false,
+      createdAt: now,
+      attachments: attachments.length ? attachments : undefined,
+    }
+    tables.messages.push(message)
+    conversation.updatedAt = now
+    sentByClientId.set(dedupeKey, message.id)
+    notifyMessage(tables, conversation, message)
+    commit()
+
+    // Sending implies the sender stopped typing
+    connection.typingIn.delete(conversation.id)
+    broadcast(conversation.participants, (target) =>
+      target.userId === userId
+        ? { type: 'message', message, clientId: event.clientId }
+        : { type: 'message', message },
+    )
+  }
+
+  const handleTyping = (connection: Connection, userId: string, conversationId: string, isTyping: boolean) => {
+    const conversation = findConversation(conversationId, userId)
+    if (!conversation) return
+    if (isTyping) connection.typingIn.add(conversationId)
+    else connection.typingIn.delete(conversationId)
+    const others = conversation.participants.filter((id) => id !== userId)
+    broadcast(others, () => ({ type: 'typing', conversationId, userId, isTyping }))
+  }
+
+  const handleRead = (connection: Connection, userId: string, conversationId: string) => {
+    const conversation = findConversation(conversationId, userId)
+    if (!conversation) {
+      connection.send({ type: 'error', code: 'NOT_FOUND', message: 'Conversation not found.' })
+      return
+    }
+    const now = Date.now()
+    const messageIds: string[] = []
+    for (const message of options.getTables().messages) {
+      if (message.conversationId === conversationId && message.senderId !== userId && !message.isRead) {
+        message.isRead = true
+        readTimes.set(message.id, now)
+        messageIds.push(message.id)
+      }
+    }
+    readMessageNotifications(options.getTables(), userId, conversationId)
+    commit()
+    if (messageIds.length === 0) return
+    const at = new Date(now).toISOString()
+    broadcast(conversation.participants, () => ({ type: 'read', conversationId, readerId: userId, messageIds, at }))
+  }
+
+  const handleHistory = (connection: Connection, userId: string, event: Extract<ClientEvent, { type: 'history' }>) => {
+    if (!findConversation(event.conversationId, userId)) {
+      connection.send({ type: 'error', code: 'NOT_FOUND', message: 'Conversation not found.' })
+      return
+    }
+    const before = Date.parse(event.before)
+    const limit = Math.min(Math.max(Number(event.limit) || syncLimit, 1), MAX_HISTORY_PAGE)
+    const viewer = findUser(userId)
+    const older = options
+      .getTables()
+      .messages.filter((m) => m.conversationId === event.conversationId && m.createdAt.getTime() < before)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    connection.send({
+      type: 'history',
+      requestId: event.requestId,
+      conversationId: event.conversationId,
+      messages: older
+        .slice(0, limit)
+        .reverse()
+        .map((message) => presentMessage(viewer, message)),
+      hasMore: older.length > limit,
+    })
+  }
+
+  /**
+   * publishChange - Sends a conversation change to everyone it concerns
+   *
+   * Current members get the conversation and then its new system
+   * messages; removed members are told they are out. The requesting
+   * connection's copy carries the requestId.
+   */
+  const publishChange = (result: ConversationChange, requester: Connection, requestId: string) => {
+    const conversation = result.conversation && toConversation(options.getTables(), result.conversation, null)
+    const audience = result.created || result.messages.length ? result.audience : [requester.userId ?? '']
+    broadcast(audience, (target) => {
+      const id = target === requester ? requestId : undefined
+      if (conversation && conversation.participants.includes(target.userId ?? '')) {
+        target.send({ type: 'conversation', conversation, requestId: id })
+        for (const message of result.messages) target.send({ type: 'message', message })
+        return null
+      }
+      return { type: 'conversation-removed', conversationId: result.conversationId, requestId: id }
+    })
+  }
+
+  /** Runs a start/change operation, answering request-failed on errors */
+  const handleRequest = (connection: Connection, requestId: string, run: () => ConversationChange) => {
+    let result: ConversationChange
+    try {
+      result = run()
+    } catch (error) {
+      // Chat forms show one message, so a field error beats the summary
+      const response = toErrorResponse(error)
+      const fieldError = Object.values(response.fieldErrors ?? {})[0]
+      connection.send({ type: 'request-failed', requestId, error: fieldError?.message ?? response.error ?? 'Request failed.' })
+      return
+    }
+    commit()
+    if (result.discardedFiles.length > 0) void options.media?.delete(result.discardedFiles)
+    publishChange(result, connection, requestId)
+  }
+
+  /**
+   * handleResume - Replays what the connection missed, then turns on live
+   * events for it
+   *
+   * The replay is complete when the client's number is from this run and
+   * nothing after it has dropped out of the log yet.
+   */
+  const handleResume = (connection: Connection, userId: string, event: Extract<ClientEvent, { type: 'resume' }>) => {
+    const after = Math.max(Number(event.after) || 0, 0)
+    const oldest = log[0]?.seq ?? seq + 1
+    const complete = event.epoch === epoch && after <= seq && after >= oldest - 1
+    if (complete) {
+      for (const entry of log) {
+        if (entry.seq <= after) continue
+        const live = entry.present(connection, userId)
+        if (live) connection.send({ type: 'live', seq: entry.seq, event: live })
+      }
+    }
+    connection.resumed = true
+    connection.send({ type: 'resumed', epoch, seq, complete })
+  }
+
+  /** Replaces the posts a connection watches (the newest MAX_WATCHED_POSTS) */
+  const handleWatch = (connection: Connection, postIds: unknown) => {
+    const ids = Array.isArray(postIds) ? postIds.map(String) : []
+    connection.watching = new Set(ids.slice(-MAX_WATCHED_POSTS))
+  }
+
+  /** Tells everyone this connection was typing to that it stopped */
+  const stopTyping = (connection: Connection) => {
+    if (!connection.userId) return
+    for (const conversationId of connection.typingIn) {
+      handleTyping(connection, connection.userId, conversationId, false)
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Connections
+  // --------------------------------------------------------------------------
+
+  return {
+    connect(send) {
+      const connection: Connection = { userId: null, send, typingIn: new Set(), watching: new Set(), resumed: false }
+      connections.add(connection)
+
+      return {
+        receive(event) {
+          try {
+            if (event.type === 'hello') {
+              connection.userId = options.authenticate(event.token, event.userId)
+              // A new hello starts over: live events wait for the next resume
+              connection.resumed = false
+              if (connection.userId) send({ type: 'ready', userId: connection.userId })
+              else send({ type: 'error', code: 'UNAUTHORIZED', message: 'Please log in again.' })
+              return
+            }
+
+            const userId = connection.userId
+            if (!userId) {
+              send({ type: 'error', code: 'UNAUTHORIZED', message: 'Say hello first.' })
+              return
+            }
+
+            switch (event.type) {
+              case 'sync':
+                return handleSync(connection, userId, event.since)
+              case 'send':
+                return handleSend(connection, userId, event)
+              case 'typing':
+                return handleTyping(connection, userId, event.conversationId, Boolean(event.isTyping))
+              case 'read':
+                return handleRead(connection, userId, event.conversationId)
+              case 'history':
+                return handleHistory(connection, userId, event)
+              case 'start-conversation':
+                return handleRequest(connection, event.requestId, () =>
+                  startConversation(options.getTables(), userId, event),
+                )
+              case 'change-group':
+                return handleRequest(connection, event.requestId, () =>
+                  changeGroup(options.getTables(), userId, event.conversationId, event.change),
+                )
+              case 'watch':
+                return handleWatch(connection, event.postIds)
+              case 'resume':
+                return handleResume(connection, userId, event)
+              default:
+                send({ type: 'error', code: 'BAD_REQUEST', message: 'Unknown event type.' })
+            }
+          } catch {
+            send({ type: 'error', code: 'BAD_REQUEST', message: 'Malformed event.' })
+          }
+        },
+
+        close() {
+          stopTyping(connection)
+          connections.delete(connection)
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Database - In-Browser Tables for the Mock Backend
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.9 (schema 2: group admins, system messages)
+ * UPDATED: Feature Phase - Step 2.10 (schema 3: notification preferences)
+ * UPDATED: Feature Phase - Step 2.14 (schema 4: post audiences, blocks, mutes,
+ *          follow requests)
+ * UPDATED: Feature Phase - Step 2.15 (schema 5: reports, moderation actions,
+ *          muted keywords)
+ * UPDATED: Feature Phase - Step 2.17 (schema 6: upload sessions, media assets)
+ * UPDATED: Feature Phase - Step 2.18 (schema 7: reposts, quotes, post revisions)
+ * UPDATED: Feature Phase - Step 2.19 (schema 8: followed hashtags)
+ * UPDATED: Feature Phase - Step 2.22 (schema 9: session IDs and devices,
+ *          email verification and password reset tokens)
+ * PURPOSE: Hold every entity the app needs, so it runs without a server
+ *
+ * How It Works:
+ * - Each entity type lives in its own array ("table")
+ * - Relations are stored as IDs, like a real database: comments are NOT
+ *   nested inside posts here; the server joins them when answering
+ * - commit() saves all tables to localStorage; on the next load they are
+ *   read back with Date fields revived
+ * - A fresh browser (or reset()) starts from the fixture data
+ *
+ * LEARNING NOTES:
+ * - Handlers mutate `db.tables` directly and then call commit(); there are
+ *   no transactions, which is fine for a single-tab development mock
+ * - Bump SCHEMA_VERSION whenever MockTables changes shape, so old saved data
+ *   is discarded instead of crashing the app
+ */
+
+import type {
+  Account,
+  Comment,
+  Conversation,
+  MediaAsset,
+  Notification,
+  NotificationPreferences,
+  Post,
+  PostRevision,
+  Message,
+  ModerationAction,
+  Report,
+  UploadSession,
+} from '../../types'
+import { readJson, writeJson } from '../../utils/storage'
+import { createFixtures } from './fixtures'
+
+// ============================================================================
+// TABLE RECORDS
+// ============================================================================
+
+/**
+ * UserRecord - A user as stored: the Account with the follow graph itself
+ * instead of its counts (only ../accessPolicy.ts presentUser and
+ * presentAccount turn it into what the API sends, Step 2.12)
+ */
+export interface UserRecord extends Omit<Account, 'followersCount' | 'followingCount'> {
+  followers: string[]
+  following: string[]
+}
+
+/**
+ * PostRecord - A post as stored (comments live in their own table; shared,
+ * viewerReposted and followedTag are worked out per viewer, Steps 2.18-2.19)
+ */
+export type PostRecord = Omit<Post, 'comments' | 'shared' | 'viewerReposted' | 'followedTag'>
+
+/**
+ * ConversationRecord - A conversation as stored (lastMessage is derived)
+ */
+export type ConversationRecord = Omit<Conversation, 'lastMessage'>
+
+/**
+ * CredentialRecord - Password hash for one user
+ */
+export interface CredentialRecord {
+  userId: string
+  salt: string
+  passwordHash: string
+}
+
+/**
+ * SessionRecord - A session token and the user it belongs to
+ *
+ * UPDATED: Step 2.22 - `id` names the session in lists (the token is a
+ * secret and never leaves the auth backend); device and dates are shown
+ * in settings
+ */
+export interface SessionRecord {
+  id: string
+  token: string
+  userId: string
+  device: string
+  createdAt: Date
+  lastSeenAt: Date
+  expiresAt: Date
+}
+
+/**
+ * AuthTokenRecord - A single-use token sent by email (Step 2.22)
+ * - verify_email: Confirms `email` for the user (their current address
+ *   after registering, or the new one they are moving to)
+ * - reset_password: Lets whoever holds it choose a new password
+ */
+export interface AuthTokenRecord {
+  token: string
+  userId: string
+  purpose: 'verify_email' | 'reset_password'
+  email: string
+  createdAt: Date
+  expiresAt: Date
+}
+
+/**
+ * BlockRecord - blockerId blocked blockedId; each is hidden from the other
+ */
+export interface BlockRecord {
+  blockerId: string
+  blockedId: string
+  createdAt: Date
+}
+
+/**
+ * MuteRecord - muterId muted mutedId; only the muter stops seeing them
+ */
+export interface MuteRecord {
+  muterId: string
+  mutedId: string
+  createdAt: Date
+}
+
+/**
+ * FollowRequestRecord - A pending request to follow a private account
+ */
+export interface FollowRequestRecord {
+  requesterId: string
+  targetId: string
+  createdAt: Date
+}
+
+/**
+ * TagFollowRecord - userId follows a hashtag (stored normalized)
+ */
+export interface TagFollowRecord {
+  userId: string
+  tag: string
+  createdAt: Date
+}
+
+/**
+ * MutedKeywordsRecord - Words and phrases one user never wants to see
+ * (stored normalized, see utils/keywords.ts)
+ */
+export interface MutedKeywordsRecord {
+  userId: string
+  keywords: string[]
+}
+
+/**
+ * UploadRecord - An unfinished upload; its bytes are in MediaStorage
+ * - chunkKeys: Storage keys of the received chunks, in order
+ */
+export interface UploadRecord extends UploadSession {
+  ownerId: string
+  chunkKeys: string[]
+}
+
+/**
+ * MediaRecord - A finished upload
+ * - storageKeys: The file and its thumbnail, for clean-up
+ * - attachedTo: The post using it; an asset can be attached only once
+ */
+export interface MediaRecord extends MediaAsset {
+  storageKeys: string[]
+  attachedTo?: string
+}
+
+/**
+ * MockTables - Every table in the mock database
+ */
+export interface MockTables {
+  users: UserRecord[]
+  credentials: CredentialRecord[]
+  sessions: SessionRecord[]
+  authTokens: AuthTokenRecord[]
+  posts: PostRecord[]
+  postRevisions: PostRevision[]
+  comments: Comment[]
+  conversations: ConversationRecord[]
+  messages: Message[]
+  notifications: Notification[]
+  notificationPreferences: NotificationPreferences[]
+  blocks: BlockRecord[]
+  mutes: MuteRecord[]
+  followRequests: FollowRequestRecord[]
+  reports: Report[]
+  moderationActions: ModerationAction[]
+  mutedKeywords: MutedKeywordsRecord[]
+  tagFollows: TagFollowRecord[]
+  uploads: UploadRecord[]
+  media: MediaRecord[]
+}
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+/**
+ * MockDatabase - Tables plus persistence controls
+ */
+export interface MockDatabase {
+  tables: MockTables
+  /** Saves the current tables (no-op when persistence is off) */
+  commit(): void
+  /** Throws away all changes and reloads the fixtures */
+  reset(): void
+}
+
+/**
+ * MockDatabaseOptions
+ * - persist: Save to localStorage (default true; tests pass false)
+ */
+export interface MockDatabaseOptions {
+  persist?: boolean
+}
+
+const STORAGE_KEY = 'mock.db'
+const SCHEMA_VERSION = 9
+
+/**
+ * StoredDatabase - Shape written to localStorage
+ */
+interface StoredDatabase {
+  version: number
+  tables: MockTables
+}
+
+/**
+ * createMockDatabase - Loads saved tables, or seeds them from fixtures
+ */
+export function createMockDatabase(options: MockDatabaseOptions = {}): MockDatabase {
+  const persist = options.persist ?? true
+  const saved = persist ? readJson<StoredDatabase | null>(STORAGE_KEY, null) : null
+
+  const db: MockDatabase = {
+    tables: saved?.version === SCHEMA_VERSION ? saved.tables : createFixtures(),
+    commit() {
+      if (persist) {
+        writeJson(STORAGE_KEY, { version: SCHEMA_VERSION, tables: db.tables })
+      }
+    },
+    reset() {
+      db.tables = createFixtures()
+      db.commit()
+    },
+  }
+
+  return db
+}
@@ -0,0 +1,246 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Fixture Data - Seed Content for the Mock Backend
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.10 (notifications that group and link)
+ * UPDATED: Feature Phase - Step 2.14 (a private account, a request, a
+ *          mentioned-only post)
+ * UPDATED: Feature Phase - Step 2.15 (a moderator, a reported spam comment)
+ * UPDATED: Feature Phase - Step 2.17 (empty upload and media tables)
+ * UPDATED: Feature Phase - Step 2.18 (reposts and a quote; shares match them)
+ * UPDATED: Feature Phase - Step 2.19 (a trending hashtag, a followed hashtag)
+ * UPDATED: Feature Phase - Step 2.22 (demo addresses are confirmed)
+ * PURPOSE: A small, believable social network to develop and demo against
+ *
+ * Demo Accounts (all use the password "password123"):
+ * - alice@example.com, bob@example.com, carol@example.com,
+ *   dave@example.com, erin@example.com
+ *
+ * Design Notes:
+ * - Dates are relative to "now" (minutesAgo), so the feed always looks fresh
+ * - followers/following are kept symmetric: if A follows B, then B's
+ *   followers contain A
+ * - Dave's account is private: only Bob (his one follower) sees his posts,
+ *   and Erin's request to follow him is waiting for approval
+ * - Bob reposted Carol's TypeScript take; Dave reposted and Erin quoted
+ *   Alice's design system post. `shares` counts exactly these, as the
+ *   server keeps it in sync
+ * - #typescript is new today from two people, so it trends; Bob follows
+ *   #design, so Erin's sketches reach his feed although he does not
+ *   follow her
+ * - Carol is a moderator; Erin and Alice reported Dave's spammy comment on
+ *   Erin's post, so her moderation queue is not empty
+ * - Password hashes were precomputed with hashPassword('password123',
+ *   'seed-<userId>') so seeding stays synchronous
+ *
+ * LEARNING NOTES:
+ * - createFixtures() builds NEW objects each call; reset() relies on that so
+ *   earlier mutations never leak into a fresh seed
+ */
+
+import type { Comment, Message, Notification, Report } from '../../types'
+import type { ConversationRecord, CredentialRecord, MockTables, PostRecord, UserRecord } from './database'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * minutesAgo - A Date `minutes` before now
+ */
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60 * 1000)
+}
+
+const HOUR = 60
+const DAY = 24 * HOUR
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+/**
+ * FOLLOWS - [follower, followee] pairs; followers/following derive from this
+ */
+const FOLLOWS: [string, string][] = [
+  ['user-alice', 'user-bob'],
+  ['user-alice', 'user-carol'],
+  ['user-bob', 'user-alice'],
+  ['user-bob', 'user-dave'],
+  ['user-carol', 'user-alice'],
+  ['user-carol', 'user-bob'],
+  ['user-carol', 'user-erin'],
+  ['user-dave', 'user-bob'],
+  ['user-erin', 'user-carol'],
+  ['user-erin', 'user-alice'],
+]
+
+const PASSWORD_HASHES: Record<string, string> = {
+  'user-alice': '0e314070352452701aa64a8f19144c791fb9b1087e2b9f7ba4b67677612e6830',
+  'user-bob': 'dccea342a9d19d7494f858f4f16d770c2d67fe467b5264a7e9494557d5a01581',
+  'user-carol': 'f8a6372169b7208b36b53bea199c6c3fb6ad823f8c020337d351ca4c27d92342',
+  'user-dave': '761113ba2fff55409e784fe15bb0fa2d08a5858be044d30f28b07c566f095ffa',
+  'user-erin': '83f70cfeb5b01b62af12f23d307a4ab6f0818a50e56dcc0299cc197828a03bd6',
+}
+
+function createUsers(): UserRecord[] {
+  const base = [
+    { id: 'user-alice', username: 'alice', firstName: 'Alice', lastName: 'Nguyen', bio: 'Frontend dev. Coffee, cats and CSS grid.', location: 'Lisbon', isVerified: true, joined: 400 * DAY },
+    { id: 'user-bob', username: 'bob', firstName: 'Bob', lastName: 'Okafor', bio: 'Trail runner and weekend photographer.', location: 'Denver', isVerified: false, joined: 300 * DAY },
+    { id: 'user-carol', username: 'carol', firstName: 'Carol', lastName: 'Silva', bio: 'Writing about TypeScript and team culture.', website: 'https://example.com/carol', isVerified: true, role: 'moderator' as const, joined: 250 * DAY },
+    { id: 'user-dave', username: 'dave', firstName: 'Dave', lastName: 'Kim', bio: 'Home cook. Occasional bread evangelist.', isVerified: false, isPrivate: true, joined: 120 * DAY },
+    { id: 'user-erin', username: 'erin', firstName: 'Erin', lastName: 'Walsh', bio: 'Designer. Learning React one hook at a time.', location: 'Dublin', isVerified: false, joined: 30 * DAY },
+  ]
+
+  return base.map(({ joined, ...user }) => ({
+    ...user,
+    email: `${user.username}@example.com`,
+    followers: FOLLOWS.filter(([, followee]) => followee === user.id).map(([follower]) => follower),
+    following: FOLLOWS.filter(([follower]) => follower === user.id).map(([, followee]) => followee),
+    createdAt: minutesAgo(joined),
+    updatedAt: minutesAgo(joined),
+    emailVerifiedAt: minutesAgo(joined),
+  }))
+}
+
+function createCredentials(): CredentialRecord[] {
+  return Object.entries(PASSWORD_HASHES).map(([userId, passwordHash]) => ({
+    userId,
+    salt: `seed-${userId}`,
+    passwordHash,
+  }))
+}
+
+// ============================================================================
+// POSTS & COMMENTS
+// ============================================================================
+
+function createPosts(): PostRecord[] {
+  const posts: Omit<PostRecord, 'updatedAt'>[] = [
+    { id: 'post-1', authorId: 'user-alice', content: 'Finally shipped the new design system! #react #css', likes: ['user-bob', 'user-carol', 'user-erin'], shares: 2, createdAt: minutesAgo(25), audience: 'public', tags: ['react', 'css'] },
+    { id: 'post-2', authorId: 'user-bob', content: 'Sunrise run up Green Mountain this morning. Legs are done. #running', images: ['https://picsum.photos/seed/post-2/800/600'], likes: ['user-alice'], shares: 0, createdAt: minutesAgo(2 * HOUR), audience: 'public', tags: ['running'] },
+    { id: 'post-3', authorId: 'user-carol', content: 'Hot take: strict mode in TypeScript should be the only mode. #typescript', likes: ['user-alice', 'user-bob', 'user-dave', 'user-erin'], shares: 1, createdAt: minutesAgo(5 * HOUR), audience: 'public', tags: ['typescript'] },
+    { id: 'post-4', authorId: 'user-dave', content: 'Day 3 of the sourdough starter. It has a name now: Doughbi-Wan.', likes: ['user-bob'], shares: 0, createdAt: minutesAgo(9 * HOUR), audience: 'public' },
+    { id: 'post-5', authorId: 'user-erin', content: 'Does anyone else find useEffect dependency arrays confusing at first? #react', likes: ['user-carol'], shares: 0, createdAt: minutesAgo(DAY), audience: 'public', tags: ['react'] },
+    { id: 'post-6', authorId: 'user-alice', content: 'Friends-only: moving apartments next month, boxes welcome.', likes: ['user-bob'], shares: 0, createdAt: minutesAgo(DAY + 3 * HOUR), audience: 'followers' },
+    { id: 'post-7', authorId: 'user-bob', content: 'New trail shoes review coming this weekend. #running #gear', likes: [], shares: 0, createdAt: minutesAgo(2 * DAY), audience: 'public', tags: ['running', 'gear'] },
+    { id: 'post-8', authorId: 'user-carol', content: 'Team retros work best when the facilitator talks the least.', likes: ['user-alice', 'user-erin'], shares: 0, createdAt: minutesAgo(3 * DAY), audience: 'public' },
+    { id: 'post-9', authorId: 'user-erin', content: 'Sketching some profile page layouts today. #design', images: ['https://picsum.photos/seed/post-9a/800/600', 'https://picsum.photos/seed/post-9b/800/600'], likes: ['user-alice', 'user-carol'], shares: 0, createdAt: minutesAgo(4 * DAY), audience: 'public', tags: ['design'] },
+    { id: 'post-10', authorId: 'user-dave', content: 'Made ramen from scratch. Eleven hours. Worth it.', likes: ['user-bob', 'user-alice'], shares: 0, createdAt: minutesAgo(5 * DAY), audience: 'public' },
+    { id: 'post-11', authorId: 'user-alice', content: 'Reading list for the week: accessibility patterns and CSS container queries. #css #a11y', likes: ['user-carol'], shares: 0, createdAt: minutesAgo(6 * DAY), audience: 'public', tags: ['css', 'a11y'] },
+    { id: 'post-12', authorId: 'user-carol', content: 'Private note to followers: conference talk slides are almost done!', likes: [], shares: 0, createdAt: minutesAgo(7 * DAY), audience: 'followers' },
+    { id: 'post-13', authorId: 'user-carol', content: '@alice @bob lunch on Thursday to plan the meetup?', likes: [], shares: 0, createdAt: minutesAgo(8 * DAY), audience: 'mentioned' },
+    { id: 'post-14', authorId: 'user-bob', content: '', repostOf: 'post-3', likes: [], shares: 0, createdAt: minutesAgo(4 * HOUR), audience: 'public' },
+    { id: 'post-15', authorId: 'user-dave', content: '', repostOf: 'post-1', likes: [], shares: 0, createdAt: minutesAgo(12), audience: 'public' },
+    { id: 'post-16', authorId: 'user-erin', content: 'Bookmarking this for my next project. The spacing scale is lovely.', quoteOf: 'post-1', likes: [], shares: 0, createdAt: minutesAgo(10), audience: 'public' },
+    { id: 'post-17', authorId: 'user-carol', content: 'Type-level tests with expectTypeOf are underrated. #TypeScript', likes: ['user-erin'], shares: 0, createdAt: minutesAgo(50), audience: 'public', tags: ['typescript'] },
+    { id: 'post-18', authorId: 'user-erin', content: 'Turned on strict mode in my side project. 42 errors. Fixing them one by one. #typescript', likes: ['user-carol'], shares: 0, createdAt: minutesAgo(90), audience: 'public', tags: ['typescript'] },
+  ]
+  return posts.map((post) => ({ ...post, updatedAt: post.createdAt }))
+}
+
+const SPAM_COMMENT = 'Check out my bread course, 90% off today only!!! Link in bio'
+
+function createComments(): Comment[] {
+  const comments: Omit<Comment, 'updatedAt'>[] = [
+    { id: 'comment-1', postId: 'post-1', authorId: 'user-bob', content: 'Looks amazing, congrats!', likes: ['user-alice'], createdAt: minutesAgo(20) },
+    { id: 'comment-2', postId: 'post-1', authorId: 'user-alice', content: 'Thanks Bob! Took three rewrites.', likes: [], createdAt: minutesAgo(18), parentId: 'comment-1' },
+    { id: 'comment-3', postId: 'post-1', authorId: 'user-carol', content: 'Are the tokens open source?', likes: ['user-erin'], createdAt: minutesAgo(15) },
+    { id: 'comment-4', postId: 'post-3', authorId: 'user-dave', content: 'Strongly agree.', likes: ['user-carol'], createdAt: minutesAgo(4 * HOUR) },
+    { id: 'comment-5', postId: 'post-3', authorId: 'user-erin', content: 'As a beginner, strict mode caught so many of my bugs.', likes: ['user-carol', 'user-alice'], createdAt: minutesAgo(3 * HOUR) },
+    { id: 'comment-6', postId: 'post-3', authorId: 'user-carol', content: 'That is exactly the point!', likes: [], createdAt: minutesAgo(2 * HOUR), parentId: 'comment-5' },
+    { id: 'comment-7', postId: 'post-5', authorId: 'user-carol', content: 'Everyone does. Think of it as "re-run when these change".', likes: ['user-erin'], createdAt: minutesAgo(20 * HOUR) },
+    { id: 'comment-8', postId: 'post-10', authorId: 'user-bob', content: 'Recipe please!', likes: [], createdAt: minutesAgo(4 * DAY) },
+    { id: 'comment-9', postId: 'post-5', authorId: 'user-dave', content: SPAM_COMMENT, likes: [], createdAt: minutesAgo(6 * HOUR) },
+  ]
+  return comments.map((comment) => ({ ...comment, updatedAt: comment.createdAt }))
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+function createReports(): Report[] {
+  const snapshot = { authorId: 'user-dave', content: SPAM_COMMENT, postId: 'post-5' }
+  return [
+    { id: 'report-1', reporterId: 'user-erin', targetType: 'comment', targetId: 'comment-9', reason: 'spam', status: 'open', snapshot, createdAt: minutesAgo(5 * HOUR) },
+    { id: 'report-2', reporterId: 'user-alice', targetType: 'comment', targetId: 'comment-9', reason: 'spam', details: 'Same link posted on several threads.', status: 'open', snapshot, createdAt: minutesAgo(2 * HOUR) },
+  ]
+}
+
+// ============================================================================
+// CONVERSATIONS & MESSAGES
+// ============================================================================
+
+function createConversations(): ConversationRecord[] {
+  return [
+    { id: 'conv-alice-bob', participants: ['user-alice', 'user-bob'], isGroup: false, createdAt: minutesAgo(10 * DAY), updatedAt: minutesAgo(30) },
+    { id: 'conv-hike', participants: ['user-alice', 'user-bob', 'user-carol'], isGroup: true, groupName: 'Weekend hike', admins: ['user-carol'], createdAt: minutesAgo(3 * DAY), updatedAt: minutesAgo(3 * HOUR) },
+  ]
+}
+
+function createMessages(): Message[] {
+  return [
+    { id: 'msg-1', conversationId: 'conv-alice-bob', senderId: 'user-bob', receiverId: 'user-alice', content: 'Saw the design system post, nice work!', type: 'text', isRead: true, createdAt: minutesAgo(40) },
+    { id: 'msg-2', conversationId: 'conv-alice-bob', senderId: 'user-alice', receiverId: 'user-bob', content: 'Thank you! Coffee later this week?', type: 'text', isRead: true, createdAt: minutesAgo(35) },
+    { id: 'msg-3', conversationId: 'conv-alice-bob', senderId: 'user-bob', receiverId: 'user-alice', content: 'Thursday works for me.', type: 'text', isRead: false, createdAt: minutesAgo(30) },
+    { id: 'msg-4', conversationId: 'conv-hike', senderId: 'user-carol', receiverId: 'conv-hike', content: 'Saturday 8am at the trailhead?', type: 'text', isRead: true, createdAt: minutesAgo(4 * HOUR) },
+    { id: 'msg-5', conversationId: 'conv-hike', senderId: 'user-bob', receiverId: 'conv-hike', content: 'I will bring snacks.', type: 'text', isRead: false, createdAt: minutesAgo(3 * HOUR) },
+  ]
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+function createNotifications(): Notification[] {
+  return [
+    { id: 'notif-1', userId: 'user-alice', type: 'like', fromUserId: 'user-carol', postId: 'post-1', isRead: false, createdAt: minutesAgo(22) },
+    { id: 'notif-2', userId: 'user-alice', type: 'comment', fromUserId: 'user-bob', postId: 'post-1', commentId: 'comment-1', isRead: false, createdAt: minutesAgo(20) },
+    { id: 'notif-3', userId: 'user-alice', type: 'message', fromUserId: 'user-bob', messageId: 'msg-3', conversationId: 'conv-alice-bob', isRead: false, createdAt: minutesAgo(30) },
+    { id: 'notif-4', userId: 'user-alice', type: 'follow', fromUserId: 'user-erin', isRead: true, createdAt: minutesAgo(20 * DAY) },
+    { id: 'notif-5', userId: 'user-carol', type: 'like', fromUserId: 'user-alice', postId: 'post-3', isRead: true, createdAt: minutesAgo(4 * HOUR) },
+    { id: 'notif-6', userId: 'user-alice', type: 'like', fromUserId: 'user-bob', postId: 'post-1', isRead: false, createdAt: minutesAgo(24) },
+    { id: 'notif-7', userId: 'user-alice', type: 'like', fromUserId: 'user-erin', postId: 'post-1', isRead: false, createdAt: minutesAgo(17) },
+    { id: 'notif-8', userId: 'user-alice', type: 'comment', fromUserId: 'user-carol', postId: 'post-1', commentId: 'comment-3', isRead: false, createdAt: minutesAgo(15) },
+    { id: 'notif-9', userId: 'user-carol', type: 'comment', fromUserId: 'user-dave', postId: 'post-3', commentId: 'comment-4', isRead: true, createdAt: minutesAgo(4 * HOUR) },
+    { id: 'notif-10', userId: 'user-erin', type: 'like', fromUserId: 'user-carol', postId: 'post-3', commentId: 'comment-5', isRead: false, createdAt: minutesAgo(3 * HOUR) },
+    { id: 'notif-11', userId: 'user-carol', type: 'repost', fromUserId: 'user-bob', postId: 'post-3', isRead: true, createdAt: minutesAgo(4 * HOUR) },
+    { id: 'notif-12', userId: 'user-alice', type: 'repost', fromUserId: 'user-dave', postId: 'post-1', isRead: false, createdAt: minutesAgo(12) },
+    { id: 'notif-13', userId: 'user-alice', type: 'quote', fromUserId: 'user-erin', postId: 'post-16', isRead: false, createdAt: minutesAgo(10) },
+  ]
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * createFixtures - A complete, freshly built set of tables
+ */
+export function createFixtures(): MockTables {
+  return {
+    users: createUsers(),
+    credentials: createCredentials(),
+    sessions: [],
+    authTokens: [],
+    posts: createPosts(),
+    postRevisions: [],
+    comments: createComments(),
+    conversations: createConversations(),
+    messages: createMessages(),
+    notifications: createNotifications(),
+    notificationPreferences: [],
+    blocks: [],
+    mutes: [],
+    followRequests: [{ requesterId: 'user-erin', targetId: 'user-dave', createdAt: minutesAgo(3 * HOUR) }],
+    reports: createReports(),
+    moderationActions: [],
+    mutedKeywords: [],
+    tagFollows: [{ userId: 'user-bob', tag: 'design', createdAt: minutesAgo(2 * DAY) }],
+    uploads: [],
+    media: [],
+  }
+}
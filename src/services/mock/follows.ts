@@ -0,0 +1,384 @@
+/**
+ * ============================================================================
+ * STEP 2.12: Mock Follow Graph - Follows, Lists, Mutuals and Suggestions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.12 (Follow graph)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests, blocking, muting)
+ * UPDATED: Feature Phase - Step 2.21 (publishes follow changes live)
+ * PURPOSE: The only code that changes User.followers / User.following, so
+ *          the two sides of every follow always agree
+ *
+ * One Edge, Stored Twice:
+ * - "A follows B" is A.following ∋ B AND B.followers ∋ A
+ * - follow() and unfollow() check everything first, then write both sides
+ *   together; nothing can throw between the two writes
+ * - A half-stored edge (from older saved data) is completed by follow()
+ *   and removed by unfollow(), so either call repairs it
+ * - Every change is published to ./activity.ts, so both users' open
+ *   clients update their counts and buttons
+ *
+ * Private Accounts, Blocks and Mutes (Step 2.14):
+ * - requestFollow() follows a public account at once, but only files a
+ *   follow REQUEST for a private one; the owner approves or declines it
+ * - Making an account public approves every pending request
+ * - block() also removes follows and requests in BOTH directions, so
+ *   nothing is left connecting the two users
+ * - Who may see what is decided in ./accessPolicy.ts, not here
+ *
+ * Large Accounts:
+ * - Lists are paged straight off the ID arrays: only the IDs on the
+ *   requested page are turned into users
+ * - followStatus() reports counts and the viewer's relationship, so the
+ *   client never needs the arrays themselves
+ * - Suggestions only walk a bounded slice of each followee's list
+ *
+ * Suggestions ("who to follow"):
+ * - Friends of friends: accounts followed by people the viewer follows;
+ *   each such followee is one "mutual"
+ * - Shared hashtags: accounts posting tags the viewer posts or likes
+ * - score = mutuals × 2 + shared tags; people already followed (and the
+ *   viewer) are never suggested
+ *
+ * LEARNING NOTES:
+ * - Follow arrays are append-only in time order, so "newest first" is just
+ *   reading them backwards
+ */
+
+import type { FollowStatus, FollowSuggestion, PaginatedResponse, User } from '../../types'
+import { ApiError } from '../api/errors'
+import type { QueryParams } from '../api/transport'
+import { publishActivity } from './activity'
+import { assertCanReach, canViewPost, hasBlocked, hasMuted, isBlockedBetween, presentUser } from './accessPolicy'
+import type { MockTables, UserRecord } from './database'
+import { findOrThrow, pageParams } from './helpers'
+import { notifyFollow, notifyFollowRequest } from './notify'
+
+/**
+ * FollowTables - The tables follow operations read and write
+ */
+export type FollowTables = Pick<
+  MockTables,
+  'users' | 'notifications' | 'notificationPreferences' | 'blocks' | 'mutes' | 'followRequests'
+>
+
+/**
+ * FollowResult - What requestFollow() did
+ */
+export type FollowResult = 'followed' | 'requested' | 'unchanged'
+
+/** Followees (and their followees) looked at when suggesting */
+const MAX_SUGGESTION_FAN_OUT = 200
+const MAX_REASONS = 3
+
+// ============================================================================
+// FOLLOW / UNFOLLOW
+// ============================================================================
+
+/**
+ * followPair - Both users, or NOT_FOUND / VALIDATION before anything changes
+ */
+function followPair(
+  tables: FollowTables,
+  followerId: string,
+  targetId: string,
+  action = 'follow',
+): { follower: UserRecord; target: UserRecord } {
+  if (followerId === targetId) throw new ApiError('VALIDATION', `You cannot ${action} yourself.`)
+  return {
+    follower: findOrThrow(tables.users, followerId, 'User'),
+    target: findOrThrow(tables.users, targetId, 'User'),
+  }
+}
+
+/**
+ * follow - Records "follower follows target" on both sides
+ *
+ * No access checks: callers go through requestFollow() or approve a
+ * request.
+ *
+ * @param notify - Send a 'follow' notification (not when the target
+ *   approved the request themselves)
+ * @returns false if they already followed (nothing new; no notification)
+ */
+export function follow(tables: FollowTables, followerId: string, targetId: string, notify = true): boolean {
+  const { follower, target } = followPair(tables, followerId, targetId)
+  const wasFollower = target.followers.includes(followerId)
+  const wasFollowing = follower.following.includes(targetId)
+  if (wasFollower && wasFollowing) return false
+
+  if (!wasFollower) target.followers = [...target.followers, followerId]
+  if (!wasFollowing) follower.following = [...follower.following, targetId]
+  if (notify) notifyFollow(tables, followerId, targetId)
+  publishActivity({ type: 'follow-changed', follower, target, following: true })
+  return true
+}
+
+/**
+ * requestFollow - What the Follow button does: follows a public account,
+ * or asks a private one for approval
+ *
+ * @throws ApiError when either user blocked the other (assertCanReach)
+ */
+export function requestFollow(tables: FollowTables, followerId: string, targetId: string): FollowResult {
+  const { target } = followPair(tables, followerId, targetId)
+  assertCanReach(tables, followerId, targetId)
+  if (target.followers.includes(followerId) || !target.isPrivate) {
+    return follow(tables, followerId, targetId) ? 'followed' : 'unchanged'
+  }
+  if (hasRequested(tables, followerId, targetId)) return 'unchanged'
+
+  tables.followRequests.push({ requesterId: followerId, targetId, createdAt: new Date() })
+  notifyFollowRequest(tables, followerId, targetId)
+  return 'requested'
+}
+
+/**
+ * unfollow - Removes the edge from both sides (and withdraws a pending
+ * request)
+ *
+ * @returns false if they did not follow
+ */
+export function unfollow(tables: FollowTables, followerId: string, targetId: string): boolean {
+  const { follower, target } = followPair(tables, followerId, targetId)
+  removeRequest(tables, followerId, targetId)
+  const wasFollower = target.followers.includes(followerId)
+  const wasFollowing = follower.following.includes(targetId)
+  if (!wasFollower && !wasFollowing) return false
+
+  target.followers = target.followers.filter((id) => id !== followerId)
+  follower.following = follower.following.filter((id) => id !== targetId)
+  publishActivity({ type: 'follow-changed', follower, target, following: false })
+  return true
+}
+
+/**
+ * followStatus - Counts plus how `viewerId` relates to `user`
+ */
+export function followStatus(tables: FollowTables, user: UserRecord, viewerId: string | null): FollowStatus {
+  return {
+    userId: user.id,
+    followersCount: user.followers.length,
+    followingCount: user.following.length,
+    isFollowing: viewerId !== null && user.followers.includes(viewerId),
+    followsYou: viewerId !== null && user.following.includes(viewerId),
+    isRequested: viewerId !== null && hasRequested(tables, viewerId, user.id),
+    isBlocking: viewerId !== null && hasBlocked(tables, viewerId, user.id),
+    isMuting: viewerId !== null && hasMuted(tables, viewerId, user.id),
+  }
+}
+
+// ============================================================================
+// FOLLOW REQUESTS
+// ============================================================================
+
+/**
+ * hasRequested - Whether a request from requester to target is pending
+ */
+export function hasRequested(tables: FollowTables, requesterId: string, targetId: string): boolean {
+  return tables.followRequests.some((r) => r.requesterId === requesterId && r.targetId === targetId)
+}
+
+/**
+ * removeRequest - Drops a pending request (no-op if there is none)
+ */
+function removeRequest(tables: FollowTables, requesterId: string, targetId: string): void {
+  tables.followRequests = tables.followRequests.filter(
+    (r) => !(r.requesterId === requesterId && r.targetId === targetId),
+  )
+}
+
+/**
+ * pendingRequesterIds - Who is waiting for `targetId`'s approval, oldest
+ * first (append-only, like follow arrays)
+ */
+export function pendingRequesterIds(tables: FollowTables, targetId: string): string[] {
+  return tables.followRequests.filter((r) => r.targetId === targetId).map((r) => r.requesterId)
+}
+
+/**
+ * answerRequest - Approves (requester now follows target) or declines
+ *
+ * @throws ApiError NOT_FOUND when there is no such pending request
+ */
+export function answerRequest(tables: FollowTables, targetId: string, requesterId: string, approve: boolean): void {
+  if (!hasRequested(tables, requesterId, targetId)) {
+    throw new ApiError('NOT_FOUND', 'Follow request not found.')
+  }
+  removeRequest(tables, requesterId, targetId)
+  if (approve) follow(tables, requesterId, targetId, false)
+}
+
+/**
+ * approveAllRequests - Used when a private account becomes public
+ */
+export function approveAllRequests(tables: FollowTables, targetId: string): void {
+  for (const requesterId of pendingRequesterIds(tables, targetId)) {
+    answerRequest(tables, targetId, requesterId, true)
+  }
+}
+
+// ============================================================================
+// BLOCKING & MUTING
+// ============================================================================
+
+/**
+ * block - Blocks `blockedId` and cuts every follow or request between them
+ *
+ * @returns false if they were already blocked
+ */
+export function block(tables: FollowTables, blockerId: string, blockedId: string): boolean {
+  followPair(tables, blockerId, blockedId, 'block')
+  if (hasBlocked(tables, blockerId, blockedId)) return false
+  unfollow(tables, blockerId, blockedId)
+  unfollow(tables, blockedId, blockerId)
+  tables.blocks.push({ blockerId, blockedId, createdAt: new Date() })
+  return true
+}
+
+/**
+ * unblock - Lifts a block (follows are NOT restored)
+ */
+export function unblock(tables: FollowTables, blockerId: string, blockedId: string): boolean {
+  followPair(tables, blockerId, blockedId, 'block')
+  if (!hasBlocked(tables, blockerId, blockedId)) return false
+  tables.blocks = tables.blocks.filter((b) => !(b.blockerId === blockerId && b.blockedId === blockedId))
+  return true
+}
+
+/**
+ * mute - Hides `mutedId` from `muterId`; they stay connected otherwise
+ */
+export function mute(tables: FollowTables, muterId: string, mutedId: string): boolean {
+  followPair(tables, muterId, mutedId, 'mute')
+  if (hasMuted(tables, muterId, mutedId)) return false
+  tables.mutes.push({ muterId, mutedId, createdAt: new Date() })
+  return true
+}
+
+/**
+ * unmute - Shows `mutedId` to `muterId` again
+ */
+export function unmute(tables: FollowTables, muterId: string, mutedId: string): boolean {
+  followPair(tables, muterId, mutedId, 'mute')
+  if (!hasMuted(tables, muterId, mutedId)) return false
+  tables.mutes = tables.mutes.filter((m) => !(m.muterId === muterId && m.mutedId === mutedId))
+  return true
+}
+
+// ============================================================================
+// LISTS
+// ============================================================================
+
+/**
+ * newestFirstPage - One page of an append-only ID list, read backwards,
+ * with only that page's IDs resolved to (presented) users
+ */
+export function newestFirstPage(tables: FollowTables, ids: string[], query: QueryParams): PaginatedResponse<User> {
+  const { page, limit } = pageParams(query)
+  const end = Math.max(ids.length - (page - 1) * limit, 0)
+  const start = Math.max(end - limit, 0)
+  const byId = new Map(tables.users.map((user) => [user.id, user]))
+  const data = ids
+    .slice(start, end)
+    .reverse()
+    .map((id) => byId.get(id))
+    .filter((user): user is UserRecord => user !== undefined)
+    .map(presentUser)
+
+  return {
+    data,
+    pagination: { page, limit, total: ids.length, totalPages: Math.max(1, Math.ceil(ids.length / limit)) },
+  }
+}
+
+/**
+ * mutualFollowerIds - People the viewer follows who also follow `target`
+ * ("Followed by Alice and 2 others you follow")
+ *
+ * Walks the viewer's (usually short) following list and checks each
+ * followee's own following list, never the target's follower list, which
+ * may be huge.
+ */
+export function mutualFollowerIds(tables: FollowTables, viewer: UserRecord, target: UserRecord): string[] {
+  const byId = new Map(tables.users.map((user) => [user.id, user]))
+  return viewer.following.filter((id) => id !== target.id && byId.get(id)?.following.includes(target.id))
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * tagsFromPosts - Hashtags per author, from posts the viewer may see, plus
+ * the tags of posts the viewer liked
+ */
+function tagsFromPosts(
+  tables: MockTables,
+  viewer: UserRecord,
+): { byAuthor: Map<string, Set<string>>; liked: Set<string> } {
+  const byAuthor = new Map<string, Set<string>>()
+  const liked = new Set<string>()
+  for (const post of tables.posts) {
+    if (!post.tags?.length || !canViewPost(tables, viewer, post)) continue
+    const tags = byAuthor.get(post.authorId) ?? new Set<string>()
+    post.tags.forEach((tag) => tags.add(tag))
+    byAuthor.set(post.authorId, tags)
+    if (post.likes.includes(viewer.id)) post.tags.forEach((tag) => liked.add(tag))
+  }
+  return { byAuthor, liked }
+}
+
+/**
+ * suggestFollows - Who the viewer might want to follow, best first
+ */
+export function suggestFollows(tables: MockTables, viewer: UserRecord, limit: number): FollowSuggestion[] {
+  const byId = new Map(tables.users.map((user) => [user.id, user]))
+  const excluded = new Set([viewer.id, ...viewer.following])
+  // Blocked (either way), muted and already-requested accounts are not offered
+  for (const user of tables.users) {
+    if (isBlockedBetween(tables, viewer.id, user.id) || hasMuted(tables, viewer.id, user.id)) excluded.add(user.id)
+    if (hasRequested(tables, viewer.id, user.id)) excluded.add(user.id)
+  }
+
+  // Friends of friends, counting which followees lead to each candidate
+  const mutuals = new Map<string, string[]>()
+  for (const friendId of viewer.following.slice(-MAX_SUGGESTION_FAN_OUT)) {
+    const friend = byId.get(friendId)
+    for (const candidateId of friend?.following.slice(-MAX_SUGGESTION_FAN_OUT) ?? []) {
+      if (excluded.has(candidateId)) continue
+      mutuals.set(candidateId, [...(mutuals.get(candidateId) ?? []), friendId])
+    }
+  }
+
+  // Hashtags the viewer uses (posts and likes) shared with other authors
+  const { byAuthor, liked } = tagsFromPosts(tables, viewer)
+  const viewerTags = new Set([...(byAuthor.get(viewer.id) ?? []), ...liked])
+  const sharedTags = new Map<string, string[]>()
+  for (const [authorId, tags] of byAuthor) {
+    if (excluded.has(authorId)) continue
+    const shared = [...tags].filter((tag) => viewerTags.has(tag))
+    if (shared.length > 0) sharedTags.set(authorId, shared)
+  }
+
+  const candidates = new Set([...mutuals.keys(), ...sharedTags.keys()])
+  return [...candidates]
+    .map((id) => ({ user: byId.get(id), mutualIds: mutuals.get(id) ?? [], tags: sharedTags.get(id) ?? [] }))
+    .filter((entry): entry is { user: UserRecord; mutualIds: string[]; tags: string[] } => entry.user !== undefined)
+    .map((entry) => ({ ...entry, score: entry.mutualIds.length * 2 + entry.tags.length }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.user.followers.length - a.user.followers.length ||
+        a.user.username.localeCompare(b.user.username),
+    )
+    .slice(0, limit)
+    .map(
+      ({ user, mutualIds, tags }): FollowSuggestion => ({
+        user: presentUser(user),
+        mutualIds: mutualIds.slice(0, MAX_REASONS),
+        mutualCount: mutualIds.length,
+        sharedTags: tags.slice(0, MAX_REASONS),
+      }),
+    )
+}
@@ -0,0 +1,345 @@
+/**
+ * ============================================================================
+ * STEP 2.9: Mock Group Operations - Start Conversations, Change Groups
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.9 (Group conversations)
+ * UPDATED: Feature Phase - Step 2.14 (blocked users cannot be messaged or added)
+ * UPDATED: Feature Phase - Step 2.17 (group photos are uploads)
+ * PURPOSE: The server side of conversation creation and group changes,
+ *          shared by the REST handlers and the chat hub
+ *
+ * What Every Change Does:
+ * 1. Check the rules (utils/groups.ts) and the field values (validation)
+ * 2. Update the conversation record
+ * 3. Append SYSTEM MESSAGES to the thread ("Bob added Carol"), so the
+ *    history shows who changed what and when
+ *
+ * Nobody can start a chat with, or add to a group, a user they blocked or
+ * who blocked them (assertCanReach, ./accessPolicy.ts).
+ *
+ * The result lists everyone who must hear about the change: the members
+ * before AND after it, so people who were just removed learn that too.
+ *
+ * A group photo is the URL of the actor's upload (imageError in
+ * ./photos.ts); the files of the photo it replaces, or of a deleted
+ * group's photo, are in the result for the caller to delete.
+ *
+ * LEARNING NOTES:
+ * - System messages are created already read (isRead: true): they should
+ *   not make a conversation look unread
+ * - Their `content` is a plain-text fallback; the UI prefers rendering
+ *   `system` itself, so it can say "You" to the person who did it
+ */
+
+import type { GroupChange, Message, SystemEvent } from '../../types'
+import { createId } from '../../utils/ids'
+import { groupChangeError, successorAdmin } from '../../utils/groups'
+import { ValidationError, validateGroupName, validateGroupSize } from '../../validation'
+import { ApiError } from '../api/errors'
+import { assertCanReach } from './accessPolicy'
+import type { ConversationRecord, MockTables } from './database'
+import { imageError, replaceImage } from './photos'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * GroupTables - The tables these operations read and write
+ */
+export type GroupTables = Pick<MockTables, 'users' | 'conversations' | 'messages' | 'blocks' | 'mutes' | 'media'>
+
+/**
+ * StartConversationInput - Who to talk to; two or more others make a group
+ */
+export interface StartConversationInput {
+  participantIds: string[]
+  groupName?: string
+  groupImage?: string
+}
+
+/**
+ * ConversationChange - What an operation did
+ * - conversationId: The conversation operated on
+ * - conversation: The record afterwards (null once a group is deleted)
+ * - messages: New system messages
+ * - audience: Users to notify (members before and after the change)
+ * - removedUserIds: Users who are no longer members
+ * - created: A new conversation was made (startConversation only)
+ * - discardedFiles: Storage keys of a group photo that is gone; the
+ *   caller deletes them after saving
+ */
+export interface ConversationChange {
+  conversationId: string
+  conversation: ConversationRecord | null
+  messages: Message[]
+  audience: string[]
+  removedUserIds: string[]
+  created: boolean
+  discardedFiles: string[]
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * firstName - Name used in system message text
+ */
+function firstName(tables: GroupTables, userId: string): string {
+  return tables.users.find((u) => u.id === userId)?.firstName ?? 'Someone'
+}
+
+/**
+ * nameList - "Bob", "Bob and Carol", "Bob, Carol and Dan"
+ */
+function nameList(tables: GroupTables, userIds: string[]): string {
+  const names = userIds.map((id) => firstName(tables, id))
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names.at(-1)}` : (names[0] ?? '')
+}
+
+/**
+ * describe - Plain-text fallback for a system event
+ */
+function describe(tables: GroupTables, actorId: string, event: SystemEvent): string {
+  const actor = firstName(tables, actorId)
+  const users = nameList(tables, event.userIds ?? [])
+  switch (event.action) {
+    case 'created':
+      return event.groupName ? `${actor} created the group "${event.groupName}"` : `${actor} created the group`
+    case 'renamed':
+      return `${actor} renamed the group to "${event.groupName}"`
+    case 'image-changed':
+      return `${actor} changed the group photo`
+    case 'added':
+      return `${actor} added ${users}`
+    case 'removed':
+      return `${actor} removed ${users}`
+    case 'left':
+      return `${actor} left the group`
+    case 'promoted':
+      return `${users} ${event.userIds?.length === 1 ? 'is' : 'are'} now an admin`
+    case 'demoted':
+      return `${users} ${event.userIds?.length === 1 ? 'is' : 'are'} no longer an admin`
+  }
+}
+
+/**
+ * addSystemMessage - Builds and stores one system message
+ */
+function addSystemMessage(
+  tables: GroupTables,
+  conversation: ConversationRecord,
+  actorId: string,
+  event: SystemEvent,
+  at: Date,
+): Message {
+  const message: Message = {
+    id: createId('msg'),
+    conversationId: conversation.id,
+    senderId: actorId,
+    receiverId: conversation.id,
+    content: describe(tables, actorId, event),
+    type: 'system',
+    isRead: true,
+    createdAt: at,
+    system: event,
+  }
+  tables.messages.push(message)
+  return message
+}
+
+/**
+ * assertUsersReachable - NOT_FOUND for any unknown user ID, and the
+ * blocking rules for the rest
+ */
+function assertUsersReachable(tables: GroupTables, actorId: string, userIds: string[]): void {
+  if (userIds.some((id) => !tables.users.some((u) => u.id === id))) {
+    throw new ApiError('NOT_FOUND', 'User not found.')
+  }
+  for (const userId of userIds) assertCanReach(tables, actorId, userId)
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/**
+ * startConversation - Opens a direct chat or creates a group
+ *
+ * A direct chat that already exists is returned as is (created: false).
+ */
+export function startConversation(
+  tables: GroupTables,
+  viewerId: string,
+  input: Partial<StartConversationInput>,
+): ConversationChange {
+  const others = [...new Set(input.participantIds ?? [])].filter((id) => id !== viewerId)
+  if (others.length === 0) {
+    throw new ApiError('VALIDATION', 'Pick at least one person to message.')
+  }
+  assertUsersReachable(tables, viewerId, others)
+
+  const isGroup = others.length > 1
+  if (!isGroup) {
+    const existing = tables.conversations.find(
+      (c) => !c.isGroup && c.participants.includes(viewerId) && c.participants.includes(others[0]),
+    )
+    if (existing) {
+      return { conversationId: existing.id, conversation: existing, messages: [], audience: [viewerId], removedUserIds: [], created: false, discardedFiles: [] }
+    }
+  }
+
+  const groupName = isGroup ? input.groupName?.trim() || undefined : undefined
+  const groupImage = isGroup ? input.groupImage || undefined : undefined
+  const id = createId('conv')
+  if (isGroup) {
+    const sizeError = validateGroupSize(others.length + 1)
+    const nameError = groupName ? validateGroupName(groupName) : null
+    const photoError = groupImage ? imageError(tables, viewerId, groupImage, 'group', id) : null
+    if (sizeError || nameError || photoError) {
+      throw new ValidationError({
+        ...(sizeError && { participantIds: sizeError }),
+        ...(nameError && { groupName: nameError }),
+        ...(photoError && { groupImage: photoError }),
+      })
+    }
+  }
+
+  const now = new Date()
+  const conversation: ConversationRecord = {
+    id,
+    participants: [viewerId, ...others],
+    isGroup,
+    groupName,
+    groupImage,
+    admins: isGroup ? [viewerId] : undefined,
+    createdAt: now,
+    updatedAt: now,
+  }
+  tables.conversations.push(conversation)
+  if (groupImage) replaceImage(tables, groupImage, id)
+  const messages = isGroup
+    ? [addSystemMessage(tables, conversation, viewerId, { action: 'created', userIds: others, groupName }, now)]
+    : []
+  return {
+    conversationId: conversation.id,
+    conversation,
+    messages,
+    audience: conversation.participants,
+    removedUserIds: [],
+    created: true,
+    discardedFiles: [],
+  }
+}
+
+/**
+ * changeGroup - Applies one GroupChange made by `actorId`
+ *
+ * @throws ApiError NOT_FOUND when the actor cannot see the conversation,
+ *         FORBIDDEN when the rules forbid the change
+ * @throws ValidationError for a bad name, image or group size
+ */
+export function changeGroup(
+  tables: GroupTables,
+  actorId: string,
+  conversationId: string,
+  change: GroupChange,
+): ConversationChange {
+  const conversation = tables.conversations.find((c) => c.id === conversationId)
+  if (!conversation || !conversation.participants.includes(actorId)) {
+    throw new ApiError('NOT_FOUND', 'Conversation not found.')
+  }
+  const ruleError = groupChangeError(conversation, actorId, change)
+  if (ruleError) throw new ApiError('FORBIDDEN', ruleError)
+
+  const before = [...conversation.participants]
+  const now = new Date()
+  const messages: Message[] = []
+  let discardedFiles: string[] = []
+  const record = (event: SystemEvent) => messages.push(addSystemMessage(tables, conversation, actorId, event, now))
+
+  switch (change.type) {
+    case 'rename': {
+      const error = validateGroupName(String(change.groupName ?? ''))
+      if (error) throw new ValidationError({ groupName: error })
+      conversation.groupName = change.groupName.trim()
+      record({ action: 'renamed', groupName: conversation.groupName })
+      break
+    }
+
+    case 'set-image': {
+      const url = change.groupImage || undefined
+      const error = url ? imageError(tables, actorId, url, 'group', conversation.id) : null
+      if (error) throw new ValidationError({ groupImage: error })
+      discardedFiles = replaceImage(tables, url, conversation.id)
+      conversation.groupImage = url
+      record({ action: 'image-changed' })
+      break
+    }
+
+    case 'add': {
+      const added = [...new Set(change.userIds)].filter((id) => !conversation.participants.includes(id))
+      assertUsersReachable(tables, actorId, added)
+      const sizeError = validateGroupSize(conversation.participants.length + added.length)
+      if (sizeError?.code === 'too_many') throw new ValidationError({ participantIds: sizeError })
+      conversation.participants = [...conversation.participants, ...added]
+      record({ action: 'added', userIds: added })
+      break
+    }
+
+    case 'remove':
+      conversation.participants = conversation.participants.filter((id) => id !== change.userId)
+      conversation.admins = conversation.admins?.filter((id) => id !== change.userId)
+      record({ action: 'removed', userIds: [change.userId] })
+      break
+
+    case 'promote':
+      conversation.admins = [...(conversation.admins ?? []), change.userId]
+      record({ action: 'promoted', userIds: [change.userId] })
+      break
+
+    case 'demote':
+      conversation.admins = conversation.admins?.filter((id) => id !== change.userId)
+      record({ action: 'demoted', userIds: [change.userId] })
+      break
+
+    case 'leave': {
+      const successor = successorAdmin(conversation, actorId)
+      conversation.participants = conversation.participants.filter((id) => id !== actorId)
+      conversation.admins = conversation.admins?.filter((id) => id !== actorId)
+      if (conversation.participants.length === 0) {
+        // Nobody left to read it: delete the group and its history
+        tables.conversations = tables.conversations.filter((c) => c.id !== conversation.id)
+        tables.messages = tables.messages.filter((m) => m.conversationId !== conversation.id)
+        return {
+          conversationId,
+          conversation: null,
+          messages: [],
+          audience: before,
+          removedUserIds: [actorId],
+          created: false,
+          discardedFiles: replaceImage(tables, undefined, conversation.id),
+        }
+      }
+      record({ action: 'left' })
+      if (successor) {
+        conversation.admins = [...(conversation.admins ?? []), successor]
+        record({ action: 'promoted', userIds: [successor] })
+      }
+      break
+    }
+  }
+
+  conversation.updatedAt = now
+  return {
+    conversationId,
+    conversation,
+    messages,
+    audience: [...new Set([...before, ...conversation.participants])],
+    removedUserIds: before.filter((id) => !conversation.participants.includes(id)),
+    created: false,
+    discardedFiles,
+  }
+}
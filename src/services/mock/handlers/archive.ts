@@ -0,0 +1,31 @@
+/**
+ * ============================================================================
+ * STEP 2.23: Mock Handlers - Account Archive
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.23 (Data export and import)
+ *
+ * Endpoints:
+ * - GET  /archive          → AccountArchive of the signed-in user
+ * - POST /archive/import   → ArchiveImportSummary (body: an AccountArchive)
+ *
+ * Rules:
+ * - Both are for the signed-in user only, about their own account
+ * - A suspended user can download their archive but not import one
+ * - An import is refused (VALIDATION) for other files and unknown
+ *   versions, and (CONFLICT) for an account that already has history;
+ *   the rules live in ../archive.ts
+ */
+
+import { buildArchive, importArchive } from '../archive'
+import { route } from '../router'
+
+export const archiveRoutes = [
+  route('GET', '/archive', (ctx) => buildArchive(ctx.db.tables, ctx.media, ctx.requireViewer())),
+
+  route('POST', '/archive/import', async (ctx) => {
+    const summary = await importArchive(ctx.db.tables, ctx.media, ctx.requireAuthor(), ctx.body)
+    ctx.db.commit()
+    return summary
+  }),
+]
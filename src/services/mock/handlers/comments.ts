@@ -0,0 +1,243 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Handlers - Comments
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.7 (sorting, thread pages, tombstones)
+ * UPDATED: Feature Phase - Step 2.10 (comment and like notifications)
+ * UPDATED: Feature Phase - Step 2.14 (hidden commenters, via the access policy)
+ * UPDATED: Feature Phase - Step 2.15 (moderated comments, muted keywords)
+ * UPDATED: Feature Phase - Step 2.21 (publishes new comments live)
+ *
+ * Endpoints:
+ * - GET    /posts/:id/comments   → PaginatedResponse<Comment>, oldest first
+ *                                  (?sort=oldest|newest|top)
+ * - GET    /posts/:id/comments/threads?sort&page&limit
+ *                                → PaginatedResponse<Comment>: pages over
+ *                                  TOP-LEVEL comments; each page also carries
+ *                                  every reply below them
+ * - POST   /posts/:id/comments   → Comment (body: { content, parentId? })
+ * - PATCH  /comments/:id         → Comment (body: { content })
+ * - DELETE /comments/:id         → Comment (tombstone) or null (removed)
+ * - POST   /comments/:id/like    → Comment
+ * - DELETE /comments/:id/like    → Comment
+ *
+ * Rules:
+ * - Commenting requires being able to see the post, and is closed on
+ *   posts moderators removed
+ * - Comments by users the viewer blocked, muted or was blocked by are left
+ *   out together with their replies (visibleComments in ../accessPolicy.ts),
+ *   and cannot be liked or replied to
+ * - A reply's parentId must belong to the same post
+ * - Only the author may edit or delete a comment
+ * - Deleting follows deleteComment (utils/commentTree): comments with
+ *   replies become tombstones, which cannot be edited, liked or replied to
+ * - Comments a moderator hid or removed stay in the thread with empty
+ *   content for those who may not read them; removed ones act like
+ *   tombstones. Comments with a word the viewer muted come back with
+ *   isFiltered (presentComment in ../accessPolicy.ts)
+ * - New comments notify the post's author and anyone @mentioned; likes
+ *   notify the comment's author (../notify.ts)
+ * - New comments are also published to clients watching the post
+ *   (../activity.ts)
+ */
+
+import type { Comment, CommentSort } from '../../../types'
+import { ApiError } from '../../api/errors'
+import { ValidationError, validateCommentContent } from '../../../validation'
+import { deleteComment, sortComments } from '../../../utils/commentTree'
+import { createId } from '../../../utils/ids'
+import { canViewPost, presentComment, visibleComments } from '../accessPolicy'
+import { findOrThrow, paginate } from '../helpers'
+import { notifyComment, notifyLike } from '../notify'
+import { publishActivity } from '../activity'
+import { bodyOf, route, type RequestContext } from '../router'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * findVisibleComment - Comment lookup that respects its post's visibility
+ * and the access policy for the comment itself
+ */
+function findVisibleComment({ db, params, viewer }: RequestContext): Comment {
+  const { tables } = db
+  const comment = findOrThrow(tables.comments, params.id, 'Comment')
+  const post = tables.posts.find((p) => p.id === comment.postId)
+  const siblings = tables.comments.filter((c) => c.postId === comment.postId)
+  if (!post || !canViewPost(tables, viewer, post) || !visibleComments(tables, viewer, siblings).includes(comment)) {
+    throw new ApiError('NOT_FOUND', 'Comment not found.')
+  }
+  return comment
+}
+
+/**
+ * findLiveComment - Visible comment that has not been deleted
+ */
+function findLiveComment(ctx: RequestContext): Comment {
+  const comment = findVisibleComment(ctx)
+  if (comment.isDeleted) throw new ApiError('NOT_FOUND', 'This comment was deleted.')
+  if (comment.moderation === 'removed') throw new ApiError('NOT_FOUND', 'A moderator removed this comment.')
+  return comment
+}
+
+/**
+ * findOwnComment - Comment lookup restricted to the comment's author
+ */
+function findOwnComment(ctx: RequestContext): Comment {
+  const viewer = ctx.requireViewer()
+  const comment = findLiveComment(ctx)
+  if (comment.authorId !== viewer.id) {
+    throw new ApiError('FORBIDDEN', 'You can only change your own comments.')
+  }
+  return comment
+}
+
+/**
+ * readContent - Validates the `content` field of a request body
+ */
+function readContent(ctx: RequestContext): string {
+  const content = String(bodyOf<Comment>(ctx).content ?? '')
+  const error = validateCommentContent(content)
+  if (error) throw new ValidationError({ content: error })
+  return content.trim()
+}
+
+/**
+ * readSort - ?sort= with 'oldest' as the default
+ */
+function readSort(value: unknown): CommentSort {
+  return value === 'newest' || value === 'top' ? value : 'oldest'
+}
+
+/**
+ * findVisiblePostComments - A visible post's comments the viewer may see,
+ * or NOT_FOUND
+ */
+function findVisiblePostComments({ db, params, viewer }: RequestContext): Comment[] {
+  const post = findOrThrow(db.tables.posts, params.id, 'Post')
+  if (!canViewPost(db.tables, viewer, post)) throw new ApiError('NOT_FOUND', 'Post not found.')
+  return visibleComments(db.tables, viewer, db.tables.comments.filter((c) => c.postId === post.id))
+}
+
+/**
+ * presentAll - The comments as the viewer may see them (moderated content
+ * blanked, muted keywords flagged)
+ */
+function presentAll({ db, viewer }: RequestContext, comments: Comment[]): Comment[] {
+  return comments.map((comment) => presentComment(db.tables, viewer, comment))
+}
+
+/**
+ * collectReplies - Every comment below the given roots, at any depth
+ */
+function collectReplies(comments: Comment[], rootIds: string[]): Comment[] {
+  const included = new Set(rootIds)
+  const replies: Comment[] = []
+  // Parents always sort before replies by time, but a reply may be reached
+  // before its parent is added, so repeat until nothing new is found
+  let added = true
+  while (added) {
+    added = false
+    for (const comment of comments) {
+      if (!included.has(comment.id) && comment.parentId && included.has(comment.parentId)) {
+        included.add(comment.id)
+        replies.push(comment)
+        added = true
+      }
+    }
+  }
+  return replies
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const commentRoutes = [
+  route('GET', '/posts/:id/comments', (ctx) => {
+    const comments = sortComments(findVisiblePostComments(ctx), readSort(ctx.query.sort))
+    const page = paginate(comments, ctx.query)
+    return { ...page, data: presentAll(ctx, page.data) }
+  }),
+
+  route('GET', '/posts/:id/comments/threads', (ctx) => {
+    const comments = findVisiblePostComments(ctx)
+    const ids = new Set(comments.map((c) => c.id))
+    // Replies whose parent is gone are shown as top-level, like the UI tree
+    const roots = comments.filter((c) => !c.parentId || !ids.has(c.parentId))
+    const page = paginate(sortComments(roots, readSort(ctx.query.sort)), ctx.query)
+    const replies = collectReplies(comments, page.data.map((c) => c.id))
+    return { ...page, data: presentAll(ctx, [...page.data, ...replies]) }
+  }),
+
+  route('POST', '/posts/:id/comments', (ctx) => {
+    const viewer = ctx.requireAuthor()
+    const { db, params } = ctx
+    const post = findOrThrow(db.tables.posts, params.id, 'Post')
+    const comments = findVisiblePostComments(ctx)
+    if (post.moderation === 'removed') throw new ApiError('FORBIDDEN', 'Comments are closed on removed posts.')
+
+    const content = readContent(ctx)
+    const parentId = bodyOf<Comment>(ctx).parentId
+    const parent = parentId ? comments.find((c) => c.id === parentId) : null
+    if (parentId && (!parent || parent.isDeleted || parent.moderation === 'removed')) {
+      throw new ApiError('VALIDATION', 'The comment you are replying to does not exist.')
+    }
+
+    const now = new Date()
+    const comment: Comment = {
+      id: createId('comment'),
+      postId: post.id,
+      authorId: viewer.id,
+      content,
+      likes: [],
+      createdAt: now,
+      updatedAt: now,
+      parentId: parentId || undefined,
+    }
+    db.tables.comments.push(comment)
+    notifyComment(db.tables, post, comment)
+    db.commit()
+    publishActivity({ type: 'comment-added', comment })
+    return comment
+  }),
+
+  route('PATCH', '/comments/:id', (ctx) => {
+    ctx.requireAuthor()
+    const comment = findOwnComment(ctx)
+    comment.content = readContent(ctx)
+    comment.updatedAt = new Date()
+    ctx.db.commit()
+    return comment
+  }),
+
+  route('DELETE', '/comments/:id', (ctx) => {
+    const comment = findOwnComment(ctx)
+    ctx.db.tables.comments = deleteComment(ctx.db.tables.comments, comment.id)
+    ctx.db.commit()
+    return ctx.db.tables.comments.find((c) => c.id === comment.id) ?? null
+  }),
+
+  route('POST', '/comments/:id/like', (ctx) => {
+    const viewer = ctx.requireAuthor()
+    const comment = findLiveComment(ctx)
+    if (!comment.likes.includes(viewer.id)) {
+      comment.likes.push(viewer.id)
+      const post = findOrThrow(ctx.db.tables.posts, comment.postId, 'Post')
+      notifyLike(ctx.db.tables, viewer.id, post, comment)
+    }
+    ctx.db.commit()
+    return presentComment(ctx.db.tables, viewer, comment)
+  }),
+
+  route('DELETE', '/comments/:id/like', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const comment = findVisibleComment(ctx)
+    comment.likes = comment.likes.filter((id) => id !== viewer.id)
+    ctx.db.commit()
+    return presentComment(ctx.db.tables, viewer, comment)
+  }),
+]
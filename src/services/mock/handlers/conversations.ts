@@ -0,0 +1,214 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Handlers - Conversations & Messages
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.9 (group management endpoints)
+ * UPDATED: Feature Phase - Step 2.10 (message notifications)
+ * UPDATED: Feature Phase - Step 2.14 (no messages between blocked users)
+ * UPDATED: Feature Phase - Step 2.15 (moderated messages are blanked)
+ * UPDATED: Feature Phase - Step 2.17 (attachment count and format)
+ *
+ * Endpoints:
+ * - GET  /conversations                     → PaginatedResponse<Conversation>, latest activity first
+ * - GET  /conversations/:id                 → Conversation
+ * - POST /conversations                     → Conversation (body: { participantIds, groupName?, groupImage? })
+ * - PATCH /conversations/:id                → Conversation (body: { groupName?, groupImage? }, admins;
+ *   groupImage is the URL of a 'group' upload, ../photos.ts)
+ * - POST /conversations/:id/participants    → Conversation (body: { userIds }, admins)
+ * - DELETE /conversations/:id/participants/:userId → Conversation (admins)
+ * - POST /conversations/:id/admins/:userId  → Conversation (make admin)
+ * - DELETE /conversations/:id/admins/:userId → Conversation (remove admin)
+ * - POST /conversations/:id/leave           → null
+ * - GET  /conversations/:id/messages        → PaginatedResponse<Message>, newest first
+ * - POST /conversations/:id/messages        → Message (body: { content, type?, attachments? };
+ *   type is text, image or file: 'system' messages come from the server)
+ * - POST /conversations/:id/read            → { updated: number }
+ *
+ * Rules:
+ * - Only participants can see a conversation or its messages
+ * - Starting a direct chat that already exists returns the existing one
+ * - Group roles and leaving rules: utils/groups.ts; the changes themselves
+ *   (and their system messages) live in ../groups.ts, shared with the
+ *   chat hub
+ * - A new message notifies the other participants; reading the
+ *   conversation also reads those notifications (../notify.ts)
+ * - A direct chat refuses new messages once either side blocked the other
+ *   (../accessPolicy.ts); its history stays readable
+ * - Messages a moderator removed keep their place in the thread with empty
+ *   content (presentMessage in ../accessPolicy.ts)
+ */
+
+import type { GroupChange, Message } from '../../../types'
+import { ApiError } from '../../api/errors'
+import {
+  ValidationError,
+  validateGroupName,
+  validateMessageAttachments,
+  validateMessageContent,
+  validateMessageType,
+} from '../../../validation'
+import { createId } from '../../../utils/ids'
+import { assertCanMessage, presentMessage } from '../accessPolicy'
+import type { ConversationRecord } from '../database'
+import { changeGroup, startConversation, type StartConversationInput } from '../groups'
+import { findOrThrow, newestFirst, paginate, toConversation } from '../helpers'
+import { notifyMessage, readMessageNotifications } from '../notify'
+import { bodyOf, route, type RequestContext } from '../router'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * findOwnConversation - Conversation lookup limited to its participants
+ *
+ * Non-participants get NOT_FOUND so private chats are not revealed.
+ */
+function findOwnConversation(ctx: RequestContext): ConversationRecord {
+  const viewer = ctx.requireViewer()
+  const conversation = findOrThrow(ctx.db.tables.conversations, ctx.params.id, 'Conversation')
+  if (!conversation.participants.includes(viewer.id)) {
+    throw new ApiError('NOT_FOUND', 'Conversation not found.')
+  }
+  return conversation
+}
+
+/**
+ * applyGroupChanges - Runs group changes in order as the viewer, then
+ * returns the updated conversation
+ *
+ * UPDATED: Step 2.17 - Deletes the files of a replaced group photo
+ */
+async function applyGroupChanges(ctx: RequestContext, changes: GroupChange[]) {
+  const viewer = ctx.requireViewer()
+  const discardedFiles: string[] = []
+  for (const change of changes) {
+    discardedFiles.push(...changeGroup(ctx.db.tables, viewer.id, ctx.params.id, change).discardedFiles)
+  }
+  ctx.db.commit()
+  await ctx.media.delete(discardedFiles)
+  return toConversation(ctx.db.tables, findOwnConversation(ctx), viewer)
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const conversationRoutes = [
+  route('GET', '/conversations', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const { tables } = ctx.db
+    const conversations = tables.conversations
+      .filter((c) => c.participants.includes(viewer.id))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    const page = paginate(conversations, ctx.query)
+    return { ...page, data: page.data.map((c) => toConversation(tables, c, viewer)) }
+  }),
+
+  route('GET', '/conversations/:id', (ctx) => toConversation(ctx.db.tables, findOwnConversation(ctx), ctx.viewer)),
+
+  route('POST', '/conversations', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const result = startConversation(ctx.db.tables, viewer.id, bodyOf<StartConversationInput>(ctx))
+    if (result.created) ctx.db.commit()
+    return toConversation(ctx.db.tables, result.conversation!, viewer)
+  }),
+
+  route('PATCH', '/conversations/:id', (ctx) => {
+    const body = bodyOf<{ groupName?: string; groupImage?: string | null }>(ctx)
+    // The name is checked up front and the photo (checked by changeGroup)
+    // goes first, so neither can fail after the other was applied
+    const nameError = body.groupName !== undefined ? validateGroupName(String(body.groupName)) : null
+    if (nameError) throw new ValidationError({ groupName: nameError })
+    const changes: GroupChange[] = []
+    if (body.groupImage !== undefined) changes.push({ type: 'set-image', groupImage: body.groupImage })
+    if (body.groupName !== undefined) changes.push({ type: 'rename', groupName: body.groupName })
+    return applyGroupChanges(ctx, changes)
+  }),
+
+  route('POST', '/conversations/:id/participants', (ctx) =>
+    applyGroupChanges(ctx, [{ type: 'add', userIds: bodyOf<{ userIds: string[] }>(ctx).userIds ?? [] }]),
+  ),
+
+  route('DELETE', '/conversations/:id/participants/:userId', (ctx) =>
+    applyGroupChanges(ctx, [{ type: 'remove', userId: ctx.params.userId }]),
+  ),
+
+  route('POST', '/conversations/:id/admins/:userId', (ctx) =>
+    applyGroupChanges(ctx, [{ type: 'promote', userId: ctx.params.userId }]),
+  ),
+
+  route('DELETE', '/conversations/:id/admins/:userId', (ctx) =>
+    applyGroupChanges(ctx, [{ type: 'demote', userId: ctx.params.userId }]),
+  ),
+
+  route('POST', '/conversations/:id/leave', async (ctx) => {
+    const change = changeGroup(ctx.db.tables, ctx.requireViewer().id, ctx.params.id, { type: 'leave' })
+    ctx.db.commit()
+    await ctx.media.delete(change.discardedFiles)
+    return null
+  }),
+
+  route('GET', '/conversations/:id/messages', (ctx) => {
+    const conversation = findOwnConversation(ctx)
+    const messages = ctx.db.tables.messages
+      .filter((m) => m.conversationId === conversation.id)
+      .sort(newestFirst)
+    const page = paginate(messages, ctx.query)
+    return { ...page, data: page.data.map((message) => presentMessage(ctx.viewer, message)) }
+  }),
+
+  route('POST', '/conversations/:id/messages', (ctx) => {
+    const viewer = ctx.requireAuthor()
+    const conversation = findOwnConversation(ctx)
+    const body = bodyOf<Message>(ctx)
+    const content = String(body.content ?? '')
+    const attachments = body.attachments ?? []
+    const type = body.type ?? 'text'
+
+    const typeError = validateMessageType(String(type))
+    if (typeError) throw new ValidationError({ type: typeError })
+    const attachmentError = validateMessageAttachments(attachments)
+    if (attachmentError) throw new ValidationError({ attachments: attachmentError })
+    const error = validateMessageContent(content, attachments.length > 0)
+    if (error) throw new ValidationError({ content: error })
+    assertCanMessage(ctx.db.tables, conversation, viewer.id)
+
+    const now = new Date()
+    const message: Message = {
+      id: createId('msg'),
+      conversationId: conversation.id,
+      senderId: viewer.id,
+      receiverId: conversation.isGroup
+        ? conversation.id
+        : (conversation.participants.find((id) => id !== viewer.id) ?? viewer.id),
+      content: content.trim(),
+      type,
+      isRead: false,
+      createdAt: now,
+      attachments: attachments.length ? attachments : undefined,
+    }
+    ctx.db.tables.messages.push(message)
+    conversation.updatedAt = now
+    notifyMessage(ctx.db.tables, conversation, message)
+    ctx.db.commit()
+    return message
+  }),
+
+  route('POST', '/conversations/:id/read', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const conversation = findOwnConversation(ctx)
+    let updated = 0
+    for (const message of ctx.db.tables.messages) {
+      if (message.conversationId === conversation.id && message.senderId !== viewer.id && !message.isRead) {
+        message.isRead = true
+        updated++
+      }
+    }
+    readMessageNotifications(ctx.db.tables, viewer.id, conversation.id)
+    ctx.db.commit()
+    return { updated }
+  }),
+]
@@ -0,0 +1,206 @@
+/**
+ * ============================================================================
+ * STEP 2.5: Mock Handlers - Home Feed
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.14 (access policy: audiences, mutes, blocks)
+ * UPDATED: Feature Phase - Step 2.19 (posts with followed hashtags)
+ *
+ * Endpoints:
+ * - GET /feed?mode=latest|top&cursor&limit  → PaginatedResponse<Post> with nextCursor
+ * - GET /feed/new-count?since=<ISO date>    → { count: number }
+ *
+ * Who Is In the Feed:
+ * - Posts by accounts the viewer follows, plus the viewer's own posts
+ * - Posts carrying a hashtag the viewer follows (Step 2.19), marked with
+ *   `followedTag` so the card can say why a stranger's post is there
+ * - Each post must also pass canListPost (../accessPolicy.ts): its audience
+ *   must include the viewer, and muted or blocked authors are left out
+ *
+ * Why Cursors Instead of Page Numbers:
+ * - With ?page=2, a new post arriving at the top pushes every item down by
+ *   one, so page 2 would repeat the last post of page 1
+ * - A "latest" cursor remembers the LAST post seen (time + id) and asks for
+ *   strictly older ones, which new arrivals cannot disturb
+ * - A "top" cursor remembers the moment the ranking was computed and how
+ *   far we got, so scores (which depend on age) do not shift between pages
+ *
+ * LEARNING NOTES:
+ * - Cursors are opaque to the client: base64-encoded JSON it just echoes back
+ */
+
+import type { Post } from '../../../types'
+import { ApiError } from '../../api/errors'
+import { canListPost } from '../accessPolicy'
+import type { MockTables, PostRecord, UserRecord } from '../database'
+import { followedTagIn, followedTagsOf } from '../hashtags'
+import { toPost } from '../helpers'
+import { scorePost } from '../ranking'
+import { route } from '../router'
+
+// ============================================================================
+// CURSORS
+// ============================================================================
+
+/**
+ * LatestCursor - Position after the last post returned (newest-first order)
+ */
+interface LatestCursor {
+  mode: 'latest'
+  createdAt: number
+  id: string
+}
+
+/**
+ * TopCursor - Snapshot time of the ranking plus how many posts were served
+ */
+interface TopCursor {
+  mode: 'top'
+  asOf: number
+  offset: number
+}
+
+type FeedCursor = LatestCursor | TopCursor
+
+function encodeCursor(cursor: FeedCursor): string {
+  return btoa(JSON.stringify(cursor))
+}
+
+function decodeCursor(value: unknown): FeedCursor | null {
+  if (typeof value !== 'string' || !value) return null
+  try {
+    return JSON.parse(atob(value)) as FeedCursor
+  } catch {
+    throw new ApiError('VALIDATION', 'Invalid feed cursor.')
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+
+/**
+ * FeedSources - Why posts are in the viewer's feed: followed authors (and
+ * the viewer), and followed hashtags (Step 2.19)
+ */
+interface FeedSources {
+  authors: Set<string>
+  tags: Set<string>
+}
+
+function feedSources(tables: MockTables, viewer: UserRecord): FeedSources {
+  return { authors: new Set([viewer.id, ...viewer.following]), tags: new Set(followedTagsOf(tables, viewer.id)) }
+}
+
+/**
+ * feedCandidates - Every post that may appear in the viewer's feed
+ *
+ * UPDATED: Step 2.19 - Also posts with a hashtag the viewer follows
+ */
+function feedCandidates(tables: MockTables, viewer: UserRecord, sources = feedSources(tables, viewer)): PostRecord[] {
+  return tables.posts.filter(
+    (post) =>
+      (sources.authors.has(post.authorId) || followedTagIn(post, sources.tags)) && canListPost(tables, viewer, post),
+  )
+}
+
+/**
+ * toFeedPost - toPost, plus the followed hashtag that brought a post by
+ * someone the viewer does not follow into the feed
+ */
+function toFeedPost(tables: MockTables, post: PostRecord, viewer: UserRecord, sources: FeedSources): Post {
+  const result = toPost(tables, post, viewer)
+  return sources.authors.has(post.authorId) ? result : { ...result, followedTag: followedTagIn(post, sources.tags) }
+}
+
+/**
+ * byNewest - createdAt descending, id descending as a tie-breaker so the
+ * order is total (two posts in the same millisecond still have a fixed order)
+ */
+function byNewest(a: PostRecord, b: PostRecord): number {
+  return b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const feedRoutes = [
+  route('GET', '/feed', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const { tables } = ctx.db
+    const mode = ctx.query.mode === 'top' ? 'top' : 'latest'
+    const limit = Math.min(Math.max(Number(ctx.query.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const cursor = decodeCursor(ctx.query.cursor)
+    if (cursor && cursor.mode !== mode) {
+      throw new ApiError('VALIDATION', 'Cursor belongs to a different feed mode.')
+    }
+
+    const sources = feedSources(tables, viewer)
+    const candidates = feedCandidates(tables, viewer, sources)
+    let ordered: PostRecord[]
+    let offset: number
+    let nextCursor: (lastServed: PostRecord, served: number) => FeedCursor
+
+    if (mode === 'latest') {
+      ordered = [...candidates].sort(byNewest)
+      const after = cursor as LatestCursor | null
+      offset = after
+        ? ordered.findIndex(
+            (p) =>
+              p.createdAt.getTime() < after.createdAt ||
+              (p.createdAt.getTime() === after.createdAt && p.id < after.id),
+          )
+        : 0
+      if (offset === -1) offset = ordered.length
+      nextCursor = (last) => ({ mode: 'latest', createdAt: last.createdAt.getTime(), id: last.id })
+    } else {
+      const snapshot = cursor as TopCursor | null
+      const asOf = snapshot?.asOf ?? Date.now()
+      const commentCounts = new Map<string, number>()
+      for (const comment of tables.comments) {
+        commentCounts.set(comment.postId, (commentCounts.get(comment.postId) ?? 0) + 1)
+      }
+      ordered = candidates
+        .filter((post) => post.createdAt.getTime() <= asOf)
+        .map((post) => ({ post, score: scorePost(post, commentCounts.get(post.id) ?? 0, asOf) }))
+        .sort((a, b) => b.score - a.score || byNewest(a.post, b.post))
+        .map(({ post }) => post)
+      offset = snapshot?.offset ?? 0
+      nextCursor = (_last, served) => ({ mode: 'top', asOf, offset: served })
+    }
+
+    const pagePosts = ordered.slice(offset, offset + limit)
+    const served = offset + pagePosts.length
+    const hasMore = served < ordered.length
+
+    return {
+      data: pagePosts.map((post) => toFeedPost(tables, post, viewer, sources)),
+      pagination: {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        total: ordered.length,
+        totalPages: Math.max(1, Math.ceil(ordered.length / limit)),
+        nextCursor: hasMore ? encodeCursor(nextCursor(pagePosts[pagePosts.length - 1], served)) : null,
+      },
+    }
+  }),
+
+  route('GET', '/feed/new-count', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const since = new Date(String(ctx.query.since ?? ''))
+    if (Number.isNaN(since.getTime())) {
+      throw new ApiError('VALIDATION', 'since must be an ISO date.')
+    }
+    // The viewer's own posts are shown immediately after posting, so they
+    // never count as "new" here
+    const count = feedCandidates(ctx.db.tables, viewer).filter(
+      (post) => post.authorId !== viewer.id && post.createdAt.getTime() > since.getTime(),
+    ).length
+    return { count }
+  }),
+]
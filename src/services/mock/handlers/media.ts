@@ -0,0 +1,77 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Mock Handlers - Uploads
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ *
+ * Endpoints:
+ * - POST   /uploads                  → UploadSession (body: fileName,
+ *                                      mimeType, size, purpose)
+ * - GET    /uploads/:id              → UploadSession (where to resume)
+ * - PUT    /uploads/:id?offset=N     → UploadSession (body: the chunk as a
+ *                                      Blob)
+ * - POST   /uploads/:id/complete     → MediaAsset
+ * - DELETE /uploads/:id              → { cancelled: true }
+ *
+ * Rules:
+ * - Every endpoint is for the signed-in uploader only; another user's
+ *   session is NOT_FOUND, so session IDs reveal nothing
+ * - The checks themselves live in ../media.ts
+ */
+
+import type { MediaPurpose } from '../../../types'
+import { ApiError } from '../../api/errors'
+import {
+  completeUpload,
+  discardUpload,
+  findOwnUpload,
+  receiveChunk,
+  startUpload,
+  toMediaAsset,
+  toUploadSession,
+} from '../media'
+import type { NewUpload } from '../media'
+import { bodyOf, route } from '../router'
+
+export const mediaRoutes = [
+  route('POST', '/uploads', async (ctx) => {
+    const body = bodyOf<NewUpload>(ctx)
+    const upload = await startUpload(ctx.db.tables, ctx.media, ctx.requireViewer(), {
+      fileName: String(body.fileName ?? ''),
+      mimeType: String(body.mimeType ?? ''),
+      size: Number(body.size),
+      purpose: body.purpose as MediaPurpose,
+    })
+    ctx.db.commit()
+    return toUploadSession(upload)
+  }),
+
+  route('GET', '/uploads/:id', (ctx) =>
+    toUploadSession(findOwnUpload(ctx.db.tables, ctx.requireViewer(), ctx.params.id)),
+  ),
+
+  route('PUT', '/uploads/:id', async (ctx) => {
+    const upload = findOwnUpload(ctx.db.tables, ctx.requireViewer(), ctx.params.id)
+    if (!(ctx.body instanceof Blob)) throw new ApiError('VALIDATION', 'Send the chunk as binary data.')
+    await receiveChunk(ctx.media, upload, Number(ctx.query.offset), ctx.body)
+    ctx.db.commit()
+    return toUploadSession(upload)
+  }),
+
+  route('POST', '/uploads/:id/complete', async (ctx) => {
+    const upload = findOwnUpload(ctx.db.tables, ctx.requireViewer(), ctx.params.id)
+    try {
+      return toMediaAsset(await completeUpload(ctx.db.tables, ctx.media, upload))
+    } finally {
+      ctx.db.commit()
+    }
+  }),
+
+  route('DELETE', '/uploads/:id', async (ctx) => {
+    const upload = findOwnUpload(ctx.db.tables, ctx.requireViewer(), ctx.params.id)
+    await discardUpload(ctx.db.tables, ctx.media, upload)
+    ctx.db.commit()
+    return { cancelled: true }
+  }),
+]
@@ -0,0 +1,61 @@
+/**
+ * ============================================================================
+ * STEP 2.15: Mock Handlers - Reports & Moderation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ *
+ * Endpoints:
+ * - POST /reports                       → Report (body: ReportForm)
+ * - GET  /moderation/queue              → ModerationQueueItem[] (moderators)
+ * - POST /moderation/actions            → ModerationAction (body:
+ *                                         ModerationActionForm, moderators)
+ * - GET  /moderation/actions?targetId&page&limit
+ *                                       → PaginatedResponse<ModerationAction>,
+ *                                         newest first (the audit trail)
+ *
+ * Rules:
+ * - Anyone signed in may report what they can see, except their own
+ *   content (../moderation.ts)
+ * - Everything under /moderation is FORBIDDEN to non-moderators
+ * - The audit trail is append-only: no endpoint edits or deletes actions
+ */
+
+import type { ModerationActionForm, ReportForm } from '../../../types'
+import { applyModerationAction, assertModerator, createReport, moderationQueue } from '../moderation'
+import { newestFirst, paginate } from '../helpers'
+import { bodyOf, route } from '../router'
+
+export const moderationRoutes = [
+  route('POST', '/reports', (ctx) => {
+    const body = bodyOf<ReportForm>(ctx)
+    // The type and reason are checked by createReport
+    const form = { ...body, targetId: String(body.targetId ?? ''), details: String(body.details ?? '') } as ReportForm
+    const report = createReport(ctx.db.tables, ctx.requireViewer(), form)
+    ctx.db.commit()
+    return report
+  }),
+
+  route('GET', '/moderation/queue', (ctx) => {
+    assertModerator(ctx.requireViewer())
+    return moderationQueue(ctx.db.tables)
+  }),
+
+  route('POST', '/moderation/actions', (ctx) => {
+    const body = bodyOf<ModerationActionForm>(ctx)
+    // The type, target type, note and days are checked by applyModerationAction
+    const form = { ...body, targetId: String(body.targetId ?? '') } as ModerationActionForm
+    const action = applyModerationAction(ctx.db.tables, ctx.requireViewer(), form)
+    ctx.db.commit()
+    return action
+  }),
+
+  route('GET', '/moderation/actions', (ctx) => {
+    assertModerator(ctx.requireViewer())
+    const { targetId } = ctx.query
+    const actions = ctx.db.tables.moderationActions
+      .filter((action) => !targetId || action.targetId === targetId)
+      .sort(newestFirst)
+    return paginate(actions, ctx.query)
+  }),
+]
@@ -0,0 +1,163 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Handlers - Notifications
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.10 (deleted targets, bulk read, preferences)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests, blocked and muted senders)
+ * UPDATED: Feature Phase - Step 2.15 (moderation notices)
+ * UPDATED: Feature Phase - Step 2.18 (repost and quote notifications)
+ *
+ * Endpoints:
+ * - GET   /notifications?unreadOnly     → PaginatedResponse<Notification>, newest first
+ * - GET   /notifications/unread-count   → { count: number }
+ * - POST  /notifications/:id/read       → Notification
+ * - POST  /notifications/read           → { updated: number } (body: { notificationIds })
+ * - POST  /notifications/read-all       → { updated: number }
+ * - GET   /notifications/preferences    → NotificationPreferences
+ * - PATCH /notifications/preferences    → NotificationPreferences (body: { muted })
+ *
+ * Rules:
+ * - Users only ever see their own notifications
+ * - Listed notifications carry targetDeleted when their post, comment or
+ *   message is gone, or the post is no longer visible to the recipient
+ * - Muting a type stops NEW notifications of that type; existing ones stay
+ * - Notifications from users the recipient blocked, muted or was blocked by
+ *   are left out of the list and the count (../accessPolicy.ts)
+ * - A follow_request is "deleted" once the request was answered or withdrawn
+ * - 'moderation' notices are always listed and cannot be muted: they come
+ *   from the moderation team, not from the moderator as a person
+ */
+
+import type { Notification, NotificationPreferences, NotificationType } from '../../../types'
+import { ApiError } from '../../api/errors'
+import { ValidationError } from '../../../validation'
+import { canViewPost, isHiddenFrom } from '../accessPolicy'
+import type { MockTables, UserRecord } from '../database'
+import { newestFirst, paginate } from '../helpers'
+import { markNotificationsRead } from '../notify'
+import { bodyOf, route } from '../router'
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  'like',
+  'comment',
+  'follow',
+  'mention',
+  'message',
+  'follow_request',
+  'repost',
+  'quote',
+]
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * isTargetDeleted - Whether the thing a notification links to is gone
+ */
+function isTargetDeleted(tables: MockTables, viewer: UserRecord, notification: Notification): boolean {
+  if (notification.type === 'follow_request') {
+    return !tables.followRequests.some((r) => r.requesterId === notification.fromUserId && r.targetId === viewer.id)
+  }
+  if (notification.postId) {
+    const post = tables.posts.find((p) => p.id === notification.postId)
+    if (!post || !canViewPost(tables, viewer, post)) return true
+  }
+  if (notification.commentId) {
+    const comment = tables.comments.find((c) => c.id === notification.commentId)
+    if (!comment || comment.isDeleted) return true
+  }
+  if (notification.messageId) {
+    return !tables.messages.some((m) => m.id === notification.messageId)
+  }
+  return false
+}
+
+/**
+ * isListed - The viewer's own notification, from someone not hidden from
+ * them (moderation notices always are)
+ */
+function isListed(tables: MockTables, viewer: UserRecord, notification: Notification): boolean {
+  if (notification.userId !== viewer.id) return false
+  return notification.type === 'moderation' || !isHiddenFrom(tables, viewer.id, notification.fromUserId)
+}
+
+/**
+ * preferencesOf - The viewer's settings (nothing muted if never saved)
+ */
+function preferencesOf(tables: MockTables, userId: string): NotificationPreferences {
+  return tables.notificationPreferences.find((p) => p.userId === userId) ?? { userId, muted: [] }
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const notificationRoutes = [
+  route('GET', '/notifications', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const { tables } = ctx.db
+    const unreadOnly = String(ctx.query.unreadOnly) === 'true'
+    const notifications = tables.notifications
+      .filter((n) => isListed(tables, viewer, n) && (!unreadOnly || !n.isRead))
+      .sort(newestFirst)
+    const page = paginate(notifications, ctx.query)
+    return {
+      ...page,
+      data: page.data.map((n) => (isTargetDeleted(tables, viewer, n) ? { ...n, targetDeleted: true } : n)),
+    }
+  }),
+
+  route('GET', '/notifications/unread-count', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const { tables } = ctx.db
+    const count = tables.notifications.filter((n) => isListed(tables, viewer, n) && !n.isRead).length
+    return { count }
+  }),
+
+  route('POST', '/notifications/read-all', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const updated = markNotificationsRead(ctx.db.tables, viewer.id).length
+    ctx.db.commit()
+    return { updated }
+  }),
+
+  route('POST', '/notifications/read', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const ids = new Set(bodyOf<{ notificationIds: string[] }>(ctx).notificationIds ?? [])
+    const updated = markNotificationsRead(ctx.db.tables, viewer.id, (n) => ids.has(n.id)).length
+    ctx.db.commit()
+    return { updated }
+  }),
+
+  route('GET', '/notifications/preferences', (ctx) => preferencesOf(ctx.db.tables, ctx.requireViewer().id)),
+
+  route('PATCH', '/notifications/preferences', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const muted = bodyOf<NotificationPreferences>(ctx).muted ?? []
+    if (!Array.isArray(muted) || muted.some((type) => !NOTIFICATION_TYPES.includes(type))) {
+      throw new ValidationError({ muted: { code: 'invalid_format', message: 'Unknown notification type.' } })
+    }
+    const { tables } = ctx.db
+    const preferences: NotificationPreferences = { userId: viewer.id, muted: [...new Set(muted)] }
+    tables.notificationPreferences = [
+      ...tables.notificationPreferences.filter((p) => p.userId !== viewer.id),
+      preferences,
+    ]
+    ctx.db.commit()
+    return preferences
+  }),
+
+  route('POST', '/notifications/:id/read', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const notification = ctx.db.tables.notifications.find(
+      (n) => n.id === ctx.params.id && n.userId === viewer.id,
+    )
+    if (!notification) throw new ApiError('NOT_FOUND', 'Notification not found.')
+    markNotificationsRead(ctx.db.tables, viewer.id, (n) => n.id === notification.id)
+    ctx.db.commit()
+    return notification
+  }),
+]
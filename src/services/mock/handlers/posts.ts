@@ -0,0 +1,335 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Handlers - Posts
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.6 (hashtags from text, mention notifications)
+ * UPDATED: Feature Phase - Step 2.10 (like notifications)
+ * UPDATED: Feature Phase - Step 2.13 (likedBy filter for profile "Likes" tabs)
+ * UPDATED: Feature Phase - Step 2.14 (audiences, private accounts, blocks)
+ * UPDATED: Feature Phase - Step 2.15 (moderated posts, muted keywords)
+ * UPDATED: Feature Phase - Step 2.17 (uploaded media via mediaIds)
+ * UPDATED: Feature Phase - Step 2.18 (reposts, quotes, edit window and history,
+ *          cascading deletes)
+ * UPDATED: Feature Phase - Step 2.19 (tag filter for hashtag pages)
+ * UPDATED: Feature Phase - Step 2.21 (publishes new posts and likes live)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions)
+ *
+ * Endpoints:
+ * - GET    /posts?authorId&likedBy&tag&page&limit
+ *                                     → PaginatedResponse<Post>, newest first
+ *                                       (tag is normalized: ?tag=React finds #react)
+ * - GET    /posts/:id                  → Post
+ * - POST   /posts                      → Post (body: PostForm)
+ * - PATCH  /posts/:id                  → Post (body: { content?, audience?, tags? })
+ * - DELETE /posts/:id                  → null (see "Deleting" below)
+ * - POST   /posts/:id/like             → Post
+ * - DELETE /posts/:id/like             → Post
+ * - POST   /posts/:id/repost           → Post (the original, with viewerReposted)
+ * - DELETE /posts/:id/repost           → Post (the original)
+ * - GET    /posts/:id/shares?type=repost|quote&page&limit
+ *                                     → PaginatedResponse<Post>, newest first
+ * - GET    /posts/:id/revisions        → PostRevision[], newest first
+ *
+ * Hashtags & Mentions:
+ * - Stored tags are the #hashtags found in the text plus any `tags` sent
+ *   with the request, normalized and de-duplicated
+ * - Every @username in a new post (or newly added by an edit) gets a
+ *   'mention' notification
+ * - A like notifies the post's author (only the first time per liker)
+ *
+ * Visibility (../accessPolicy.ts):
+ * - Every read goes through canViewPost: audience, private accounts, blocks
+ * - The unfiltered and likedBy lists also leave out muted authors; an
+ *   author's own list (a profile) does not, since visiting it is deliberate
+ * - Likes of a private account are only listed for its followers
+ * - Moderated posts are left out of every list but their author's own, and
+ *   open from a link as a placeholder (rule 5); a removed post cannot be
+ *   edited. The unfiltered and likedBy lists also skip muted keywords.
+ *
+ * Media (../media.ts):
+ * - `mediaIds` names finished uploads of the viewer; they become the first
+ *   images, in the order sent, and their assets are kept as `media`
+ * - `images` (files or URLs) still work, for posts written offline
+ * - `imageAlts` describes the images in the same order; blank entries are
+ *   kept as '' so later ones stay matched, and all-blank is left out
+ *
+ * Reposts & Quotes (../posts.ts):
+ * - POST /posts with `quoteOf` writes a quote; /repost writes (or undoes)
+ *   the viewer's repost. Both only work for public posts, and pointing at
+ *   a repost means its original
+ * - Reposts cannot be edited; undoing one deletes it
+ *
+ * Editing:
+ * - Only within POST_EDIT_WINDOW_MS of posting ('read_only' after that)
+ * - An edit that changes something stores the old version as a
+ *   PostRevision and sets editedAt
+ *
+ * Live Events (../activity.ts):
+ * - New posts, quotes and reposts are published for the author's
+ *   followers; a like or unlike is published only when it changed the post
+ *
+ * Deleting:
+ * - Also deletes the post's reposts, comments, revisions, media and the
+ *   notifications about them; quotes of it stay and show "original removed"
+ */
+
+import type { Post, PostForm } from '../../../types'
+import { ApiError } from '../../api/errors'
+import {
+  ValidationError,
+  validatePostAudience,
+  validatePostContent,
+  validatePostEditWindow,
+  validatePostForm,
+  validatePostTags,
+} from '../../../validation'
+import { createId } from '../../../utils/ids'
+import { extractMentions } from '../../../utils/textEntities'
+import { attachMedia, toMediaAsset } from '../media'
+import { assertCanSeeActivity, canListModerated, canListPost, canSeeModerated, canViewPost } from '../accessPolicy'
+import type { PostRecord } from '../database'
+import { collectTags, hasTag, parseTag } from '../hashtags'
+import { findOrThrow, newestFirst, paginate, toPost } from '../helpers'
+import { notifyLike, notifyMentions } from '../notify'
+import { publishActivity } from '../activity'
+import { deletePost, findRepost, recordQuote, recordRevision, repost, resolveShareTarget, sharesOf } from '../posts'
+import { bodyOf, route, type RequestContext } from '../router'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * findVisiblePost - Finds a post the viewer may see, or throws NOT_FOUND
+ *
+ * Hidden posts answer NOT_FOUND (not FORBIDDEN) so their existence is not
+ * leaked to people who cannot see them.
+ */
+function findVisiblePost({ db, params, viewer }: RequestContext): PostRecord {
+  const post = findOrThrow(db.tables.posts, params.id, 'Post')
+  if (!canViewPost(db.tables, viewer, post)) {
+    throw new ApiError('NOT_FOUND', 'Post not found.')
+  }
+  return post
+}
+
+/**
+ * findOwnPost - Finds a post and checks the viewer wrote it
+ */
+function findOwnPost(ctx: RequestContext): PostRecord {
+  const viewer = ctx.requireViewer()
+  const post = findOrThrow(ctx.db.tables.posts, ctx.params.id, 'Post')
+  if (post.authorId !== viewer.id) {
+    throw new ApiError('FORBIDDEN', 'You can only change your own posts.')
+  }
+  return post
+}
+
+/**
+ * findEditablePost - findOwnPost, minus posts a moderator removed and
+ * reposts (which have nothing to edit), within the edit window; a
+ * suspended author cannot edit either
+ */
+function findEditablePost(ctx: RequestContext): PostRecord {
+  ctx.requireAuthor()
+  const post = findOwnPost(ctx)
+  if (post.moderation === 'removed') throw new ApiError('FORBIDDEN', 'A moderator removed this post.')
+  if (post.repostOf) throw new ApiError('FORBIDDEN', 'Reposts cannot be edited.')
+  const windowError = validatePostEditWindow(post.createdAt)
+  if (windowError) throw new ValidationError({ content: windowError })
+  return post
+}
+
+/**
+ * toImageUrl - Stores an uploaded image and returns its URL
+ *
+ * Object URLs only live as long as the page, which is acceptable for the
+ * mock; plain URL strings are kept as they are.
+ */
+function toImageUrl(image: File | string): string {
+  return typeof image === 'string' ? image : URL.createObjectURL(image)
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export const postRoutes = [
+  route('GET', '/posts', ({ db, query, viewer }) => {
+    const { tables } = db
+    if (query.likedBy) assertCanSeeActivity(tables, viewer, findOrThrow(tables.users, String(query.likedBy), 'User'))
+    const isVisible = query.authorId ? canViewPost : canListPost
+    const tag = query.tag ? parseTag(query.tag) : undefined
+    const posts = tables.posts
+      .filter((post) => !query.authorId || post.authorId === query.authorId)
+      .filter((post) => !query.likedBy || post.likes.includes(String(query.likedBy)))
+      .filter((post) => !tag || hasTag(post, tag))
+      .filter((post) => isVisible(tables, viewer, post) && canListModerated(viewer, post.authorId, post.moderation))
+      .sort(newestFirst)
+    const page = paginate(posts, query)
+    return { ...page, data: page.data.map((post) => toPost(tables, post, viewer)) }
+  }),
+
+  route('GET', '/posts/:id', (ctx) => toPost(ctx.db.tables, findVisiblePost(ctx), ctx.viewer)),
+
+  route('POST', '/posts', (ctx) => {
+    const viewer = ctx.requireAuthor()
+    const body = bodyOf<PostForm>(ctx)
+    const form: PostForm = {
+      content: String(body.content ?? ''),
+      images: body.images ?? [],
+      mediaIds: Array.isArray(body.mediaIds) ? body.mediaIds.map(String) : [],
+      audience: body.audience ?? 'public',
+      tags: collectTags(String(body.content ?? ''), body.tags),
+      quoteOf: body.quoteOf ? String(body.quoteOf) : undefined,
+      imageAlts: Array.isArray(body.imageAlts) ? body.imageAlts : undefined,
+    }
+
+    const validation = validatePostForm(form)
+    if (!validation.valid) throw new ValidationError(validation.errors)
+    const quoted = form.quoteOf ? resolveShareTarget(ctx.db.tables, viewer, form.quoteOf) : undefined
+
+    const id = createId('post')
+    const media = attachMedia(ctx.db.tables, viewer, form.mediaIds ?? [], 'post', id).map(toMediaAsset)
+    const images = [...media.map((asset) => asset.url), ...(form.images ?? []).map(toImageUrl)]
+    const alts = (form.imageAlts ?? []).map((alt) => alt.trim())
+
+    const now = new Date()
+    const post: PostRecord = {
+      id,
+      authorId: viewer.id,
+      content: form.content.trim(),
+      images: images.length ? images : undefined,
+      imageAlts: alts.some(Boolean) ? alts : undefined,
+      media: media.length ? media : undefined,
+      likes: [],
+      shares: 0,
+      createdAt: now,
+      updatedAt: now,
+      audience: form.audience,
+      tags: form.tags?.length ? form.tags : undefined,
+      quoteOf: quoted?.id,
+    }
+    ctx.db.tables.posts.push(post)
+    if (quoted) recordQuote(ctx.db.tables, post, quoted)
+    notifyMentions(ctx.db.tables, post)
+    ctx.db.commit()
+    publishActivity({ type: 'post-created', post })
+    return toPost(ctx.db.tables, post, ctx.viewer)
+  }),
+
+  route('PATCH', '/posts/:id', (ctx) => {
+    const post = findEditablePost(ctx)
+    const changes = bodyOf<Pick<Post, 'content' | 'audience' | 'tags'>>(ctx)
+
+    const previous = { content: post.content, audience: post.audience, tags: post.tags }
+
+    if (changes.content !== undefined) {
+      const error = validatePostContent(changes.content, Boolean(post.images?.length))
+      if (error) throw new ValidationError({ content: error })
+    }
+    if (changes.content !== undefined || changes.audience !== undefined) {
+      const content = changes.content ?? post.content
+      const audienceError = validatePostAudience(changes.audience ?? post.audience, extractMentions(content).length)
+      if (audienceError) throw new ValidationError({ audience: audienceError })
+    }
+    let tags = post.tags
+    if (changes.content !== undefined || changes.tags !== undefined) {
+      const collected = collectTags(changes.content ?? post.content, changes.tags)
+      const tagError = validatePostTags(collected)
+      if (tagError) throw new ValidationError({ tags: tagError })
+      tags = collected.length ? collected : undefined
+    }
+    const next = {
+      content: changes.content?.trim() ?? post.content,
+      audience: changes.audience ?? post.audience,
+      tags,
+    }
+
+    const changed =
+      next.content !== previous.content ||
+      next.audience !== previous.audience ||
+      (next.tags ?? []).join(' ') !== (previous.tags ?? []).join(' ')
+    if (changed) {
+      recordRevision(ctx.db.tables, post)
+      Object.assign(post, next)
+      post.editedAt = new Date()
+    }
+    post.updatedAt = new Date()
+    notifyMentions(ctx.db.tables, post, previous.content)
+
+    ctx.db.commit()
+    return toPost(ctx.db.tables, post, ctx.viewer)
+  }),
+
+  route('DELETE', '/posts/:id', async (ctx) => {
+    const post = findOwnPost(ctx)
+    await deletePost(ctx.db.tables, ctx.media, post)
+    ctx.db.commit()
+    return null
+  }),
+
+  route('POST', '/posts/:id/like', (ctx) => {
+    const viewer = ctx.requireAuthor()
+    const post = findVisiblePost(ctx)
+    const liked = !post.likes.includes(viewer.id)
+    if (liked) {
+      post.likes.push(viewer.id)
+      notifyLike(ctx.db.tables, viewer.id, post)
+    }
+    ctx.db.commit()
+    if (liked) publishActivity({ type: 'post-liked', post, userId: viewer.id, liked: true })
+    return toPost(ctx.db.tables, post, ctx.viewer)
+  }),
+
+  route('DELETE', '/posts/:id/like', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const post = findVisiblePost(ctx)
+    const unliked = post.likes.includes(viewer.id)
+    post.likes = post.likes.filter((id) => id !== viewer.id)
+    ctx.db.commit()
+    if (unliked) publishActivity({ type: 'post-liked', post, userId: viewer.id, liked: false })
+    return toPost(ctx.db.tables, post, ctx.viewer)
+  }),
+
+  route('POST', '/posts/:id/repost', (ctx) => {
+    const viewer = ctx.requireAuthor()
+    const original = resolveShareTarget(ctx.db.tables, viewer, ctx.params.id)
+    const reposted = repost(ctx.db.tables, viewer, original)
+    ctx.db.commit()
+    const record = reposted && findRepost(ctx.db.tables, viewer.id, original.id)
+    if (record) publishActivity({ type: 'post-created', post: record })
+    return toPost(ctx.db.tables, original, viewer)
+  }),
+
+  route('DELETE', '/posts/:id/repost', async (ctx) => {
+    const viewer = ctx.requireViewer()
+    const post = findVisiblePost(ctx)
+    const original = post.repostOf ? findOrThrow(ctx.db.tables.posts, post.repostOf, 'Post') : post
+    const own = findRepost(ctx.db.tables, viewer.id, original.id)
+    if (own) await deletePost(ctx.db.tables, ctx.media, own)
+    ctx.db.commit()
+    return toPost(ctx.db.tables, original, viewer)
+  }),
+
+  route('GET', '/posts/:id/shares', (ctx) => {
+    const { tables } = ctx.db
+    const post = findVisiblePost(ctx)
+    const type = ctx.query.type
+    const shares = sharesOf(tables, post.id)
+      .filter((share) => type !== 'repost' || share.repostOf)
+      .filter((share) => type !== 'quote' || share.quoteOf)
+      .filter((share) => canListPost(tables, ctx.viewer, share))
+      .sort(newestFirst)
+    const page = paginate(shares, ctx.query)
+    return { ...page, data: page.data.map((share) => toPost(tables, share, ctx.viewer)) }
+  }),
+
+  route('GET', '/posts/:id/revisions', (ctx) => {
+    const post = findVisiblePost(ctx)
+    if (!canSeeModerated(ctx.viewer, post.authorId, post.moderation)) return []
+    return ctx.db.tables.postRevisions.filter((revision) => revision.postId === post.id).sort(newestFirst)
+  }),
+]
@@ -0,0 +1,145 @@
+/**
+ * ============================================================================
+ * STEP 2.11: Mock Handlers - Search
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.11 (Search)
+ * UPDATED: Feature Phase - Step 2.14 (access policy: blocked users, audiences, mutes)
+ *
+ * Endpoints:
+ * - GET /search?q&type=all|users|posts&sortBy=relevance|recent|popular&page&limit
+ *     → PaginatedResponse<SearchResult>
+ *
+ * What Is Searched (field weights in brackets):
+ * - Users: @username (3), first and last name (2 each), bio (1)
+ * - Posts: content (1), tags as '#tag' (2), so "#react" only finds tagged
+ *   posts while "react" finds tags and text alike
+ *
+ * Sorting:
+ * - relevance: Index score (../searchIndex.ts), newest first on ties
+ * - recent:    Newest first (users by when they joined)
+ * - popular:   Posts by engagement (../ranking.ts), users by followers;
+ *              relevance breaks ties
+ *
+ * LEARNING NOTES:
+ * - One pair of indexes per database (WeakMap), synced before each search;
+ *   unchanged records are skipped, so only edits cost anything
+ * - Posts the viewer may not see are filtered AFTER matching, per request:
+ *   the index is shared by every viewer, visibility is not
+ * - The same goes for people: users blocked either way are left out
+ *   (canListUser), and posts follow canListPost (../accessPolicy.ts)
+ */
+
+import type { SearchFilters, SearchResult } from '../../../types'
+import { canListPost, canListUser, presentUser } from '../accessPolicy'
+import type { MockDatabase } from '../database'
+import { paginate, toPost } from '../helpers'
+import { engagement } from '../ranking'
+import { route } from '../router'
+import { createSearchIndex, syncIndex, type SearchIndex } from '../searchIndex'
+
+const MAX_QUERY_LENGTH = 200
+const SEARCH_TYPES: SearchFilters['type'][] = ['all', 'users', 'posts']
+const SORT_ORDERS: SearchFilters['sortBy'][] = ['relevance', 'recent', 'popular']
+
+// ============================================================================
+// INDEXES
+// ============================================================================
+
+const indexes = new WeakMap<MockDatabase, { users: SearchIndex; posts: SearchIndex }>()
+
+/**
+ * indexesFor - The database's indexes, brought up to date with its tables
+ */
+function indexesFor(db: MockDatabase): { users: SearchIndex; posts: SearchIndex } {
+  let pair = indexes.get(db)
+  if (!pair) {
+    pair = { users: createSearchIndex(), posts: createSearchIndex() }
+    indexes.set(db, pair)
+  }
+  syncIndex(pair.users, db.tables.users, (user) => [
+    { text: `@${user.username}`, weight: 3 },
+    { text: user.firstName, weight: 2 },
+    { text: user.lastName, weight: 2 },
+    { text: user.bio ?? '', weight: 1 },
+  ])
+  syncIndex(pair.posts, db.tables.posts, (post) => [
+    { text: post.content, weight: 1 },
+    { text: (post.tags ?? []).map((tag) => `#${tag}`).join(' '), weight: 2 },
+  ])
+  return pair
+}
+
+/**
+ * pickOption - The query value if it is one of `options`, else the first
+ */
+function pickOption<T extends string>(value: unknown, options: T[]): T {
+  return options.find((option) => option === value) ?? options[0]
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * Ranked - A match plus the keys the sort orders need; the API shape is
+ * only built for the page actually returned
+ */
+interface Ranked {
+  score: number
+  createdAt: number
+  popularity: number
+  toResult: () => SearchResult
+}
+
+export const searchRoutes = [
+  route('GET', '/search', ({ db, query, viewer }) => {
+    const text = String(query.q ?? '').slice(0, MAX_QUERY_LENGTH)
+    const type = pickOption(query.type, SEARCH_TYPES)
+    const sortBy = pickOption(query.sortBy, SORT_ORDERS)
+    const { tables } = db
+    const { users, posts } = indexesFor(db)
+    const ranked: Ranked[] = []
+
+    if (type !== 'posts') {
+      const byId = new Map(tables.users.map((user) => [user.id, user]))
+      for (const { id, score, terms } of users.search(text)) {
+        const user = byId.get(id)
+        if (!user || !canListUser(tables, viewer, user)) continue
+        ranked.push({
+          score,
+          createdAt: user.createdAt.getTime(),
+          popularity: user.followers.length,
+          toResult: () => ({ kind: 'user', user: presentUser(user), score, matches: terms }),
+        })
+      }
+    }
+
+    if (type !== 'users') {
+      const byId = new Map(tables.posts.map((post) => [post.id, post]))
+      const commentCounts = new Map<string, number>()
+      for (const comment of tables.comments) {
+        commentCounts.set(comment.postId, (commentCounts.get(comment.postId) ?? 0) + 1)
+      }
+      for (const { id, score, terms } of posts.search(text)) {
+        const post = byId.get(id)
+        if (!post || !canListPost(tables, viewer, post)) continue
+        ranked.push({
+          score,
+          createdAt: post.createdAt.getTime(),
+          popularity: engagement(post, commentCounts.get(post.id) ?? 0),
+          toResult: () => ({ kind: 'post', post: toPost(tables, post, viewer), score, matches: terms }),
+        })
+      }
+    }
+
+    ranked.sort((a, b) => {
+      if (sortBy === 'recent') return b.createdAt - a.createdAt || b.score - a.score
+      if (sortBy === 'popular') return b.popularity - a.popularity || b.score - a.score
+      return b.score - a.score || b.createdAt - a.createdAt
+    })
+
+    const page = paginate(ranked, query)
+    return { ...page, data: page.data.map((entry) => entry.toResult()) }
+  }),
+]
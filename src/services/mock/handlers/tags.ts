@@ -0,0 +1,77 @@
+/**
+ * ============================================================================
+ * STEP 2.6: Mock Handlers - Hashtags
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.14 (counts follow canListPost)
+ * UPDATED: Feature Phase - Step 2.19 (tag pages, following tags, trending)
+ *
+ * Endpoints:
+ * - GET /tags?q=prefix&limit           → HashtagSummary[], most-used first
+ * - GET /tags/trending?window&limit    → TrendingTag[] (window: hour, day
+ *                                        or week; default day)
+ * - GET /tags/followed                 → { tags: string[] } the viewer follows
+ * - GET /tags/:tag                     → HashtagDetails
+ * - POST   /tags/:tag/follow           → HashtagDetails (after following)
+ * - DELETE /tags/:tag/follow           → HashtagDetails (after unfollowing)
+ * - The posts themselves come from GET /posts?tag=:tag
+ *
+ * LEARNING NOTES:
+ * - Counts only include posts the viewer can see (canListPost), so a
+ *   followers-only post's tags do not leak through autocomplete or trends
+ * - ':tag' is normalized before use (../hashtags.ts), so /tags/React and
+ *   /tags/react answer the same; '/tags/trending' and '/tags/followed' are
+ *   declared first so they are not read as tags
+ * - A tag nobody used yet still has a page and can be followed: the first
+ *   post with it will then reach the follower's feed
+ */
+
+import type { TrendWindow } from '../../../types'
+import { normalizeTag } from '../../../utils/textEntities'
+import { countTags, followTag, followedTagsOf, parseTag, tagDetails, trendingTags, unfollowTag } from '../hashtags'
+import { route, type RequestContext } from '../router'
+
+const DEFAULT_LIMIT = 8
+const MAX_LIMIT = 20
+const DEFAULT_TREND_LIMIT = 5
+
+/**
+ * parseTrendWindow - Reads ?window=, falling back to 'day'
+ */
+function parseTrendWindow(value: unknown): TrendWindow {
+  return value === 'hour' || value === 'week' ? value : 'day'
+}
+
+/**
+ * tagFollowChange - POST/DELETE /tags/:tag/follow share everything but the change
+ */
+function tagFollowChange(change: typeof followTag) {
+  return (ctx: RequestContext) => {
+    const viewer = ctx.requireViewer()
+    const tag = parseTag(ctx.params.tag)
+    change(ctx.db.tables, viewer.id, tag)
+    ctx.db.commit()
+    return tagDetails(ctx.db.tables, viewer, tag)
+  }
+}
+
+export const tagRoutes = [
+  route('GET', '/tags', ({ db, query, viewer }) => {
+    const prefix = normalizeTag(String(query.q ?? ''))
+    const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+    return countTags(db.tables, viewer, prefix).slice(0, limit)
+  }),
+
+  route('GET', '/tags/trending', ({ db, query, viewer }) => {
+    const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_TREND_LIMIT, 1), MAX_LIMIT)
+    return trendingTags(db.tables, viewer, parseTrendWindow(query.window)).slice(0, limit)
+  }),
+
+  route('GET', '/tags/followed', (ctx) => ({ tags: followedTagsOf(ctx.db.tables, ctx.requireViewer().id) })),
+
+  route('GET', '/tags/:tag', ({ db, params, viewer }) => tagDetails(db.tables, viewer, parseTag(params.tag))),
+
+  route('POST', '/tags/:tag/follow', tagFollowChange(followTag)),
+  route('DELETE', '/tags/:tag/follow', tagFollowChange(unfollowTag)),
+]
@@ -0,0 +1,247 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Handlers - Users
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.6 (prefix lookup for @mention autocomplete)
+ * UPDATED: Feature Phase - Step 2.10 (follow/unfollow with notifications)
+ * UPDATED: Feature Phase - Step 2.12 (follow graph: lists, mutuals, suggestions)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests, blocking, muting, access policy)
+ * UPDATED: Feature Phase - Step 2.15 (muted keywords)
+ * UPDATED: Feature Phase - Step 2.12 (users are presented with follow counts, not lists)
+ *
+ * Endpoints:
+ * - GET /users/me                     → Account (the signed-in user)
+ * - GET /users/by-username/:username  → User
+ * - GET /users/:id                    → User
+ * - GET /users?ids=a,b,c              → User[] (unknown IDs are skipped)
+ * - GET /users?q=prefix&limit         → User[] whose username or name starts
+ *                                       with the prefix; username matches first
+ * - GET /users/me/suggestions?limit   → FollowSuggestion[] (who to follow)
+ * - POST   /users/:id/follow          → FollowStatus (after following, or
+ *                                       requesting a private account)
+ * - DELETE /users/:id/follow          → FollowStatus (after unfollowing or
+ *                                       withdrawing the request)
+ * - GET /users/:id/follow-status      → FollowStatus (counts, "follows you")
+ * - GET /users/:id/followers          → PaginatedResponse<User>, newest first
+ * - GET /users/:id/following          → PaginatedResponse<User>, newest first
+ * - GET /users/:id/mutuals            → PaginatedResponse<User>: people the
+ *                                       viewer follows who follow :id
+ * - GET    /users/me/follow-requests  → PaginatedResponse<User>: who asked
+ *                                       to follow the viewer, newest first
+ * - POST   /users/me/follow-requests/:userId → FollowStatus (approve)
+ * - DELETE /users/me/follow-requests/:userId → FollowStatus (decline)
+ * - GET    /users/me/blocks, /users/me/mutes → PaginatedResponse<User>
+ * - POST / DELETE /users/:id/block, /users/:id/mute → FollowStatus
+ * - GET    /users/me/muted-keywords   → { keywords: string[] }
+ * - PATCH  /users/me/muted-keywords   → { keywords: string[] } (body: { keywords },
+ *                                       replaces the whole list)
+ *
+ * Following (../follows.ts):
+ * - Both sides are updated together (followers and following stay symmetric)
+ * - Following twice or unfollowing a stranger changes nothing
+ * - A new follower sends a 'follow' notification (../notify.ts)
+ * - A private account gets a follow REQUEST instead (and a
+ *   'follow_request' notification)
+ * - Blocking removes follows and requests both ways
+ *
+ * Access (../accessPolicy.ts):
+ * - Someone who blocked the viewer does not exist for them: NOT_FOUND on
+ *   lookups, skipped in batches and prefix searches
+ * - A private account's follow lists are FORBIDDEN to non-followers;
+ *   users themselves only carry the counts (presentUser)
+ * - Users are sent through presentUser; only /users/me uses presentAccount
+ *   and carries the account fields (email, role, ...)
+ *
+ * Muted Keywords (Step 2.15):
+ * - Stored normalized and de-duplicated (utils/keywords.ts); the access
+ *   policy uses them to filter feeds and collapse comments
+ */
+
+import { normalizeKeywords } from '../../../utils/keywords'
+import { ValidationError, validateMutedKeywords } from '../../../validation'
+import { ApiError } from '../../api/errors'
+import {
+  assertCanSeeActivity,
+  canListUser,
+  canSeeUser,
+  mutedKeywordsOf,
+  presentAccount,
+  presentUser,
+} from '../accessPolicy'
+import type { UserRecord } from '../database'
+import {
+  answerRequest,
+  block,
+  followStatus,
+  mute,
+  type FollowTables,
+  mutualFollowerIds,
+  newestFirstPage,
+  pendingRequesterIds,
+  requestFollow,
+  suggestFollows,
+  unblock,
+  unfollow,
+  unmute,
+} from '../follows'
+import { findOrThrow, paginate } from '../helpers'
+import { bodyOf, route, type RequestContext } from '../router'
+
+const SUGGEST_DEFAULT_LIMIT = 5
+const SUGGEST_MAX_LIMIT = 20
+const FOLLOW_SUGGESTIONS_DEFAULT_LIMIT = 5
+
+/**
+ * matchRank - 0 for a username prefix match, 1 for a name match, null if none
+ */
+function matchRank(user: UserRecord, prefix: string): number | null {
+  if (user.username.toLowerCase().startsWith(prefix)) return 0
+  const names = [user.firstName, user.lastName].map((name) => name.toLowerCase())
+  return names.some((name) => name.startsWith(prefix)) ? 1 : null
+}
+
+/**
+ * findVisibleUser - User lookup that treats "blocked the viewer" as missing
+ */
+function findVisibleUser({ db, viewer }: RequestContext, userId: string): UserRecord {
+  const user = findOrThrow(db.tables.users, userId, 'User')
+  if (!canSeeUser(db.tables, viewer, user)) throw new ApiError('NOT_FOUND', 'User not found.')
+  return user
+}
+
+/**
+ * relationshipChange - Runs a change between the viewer and :id, then
+ * answers with the new FollowStatus
+ */
+function relationshipChange(change: (tables: FollowTables, viewerId: string, targetId: string) => unknown) {
+  return (ctx: RequestContext) => {
+    const viewer = ctx.requireViewer()
+    change(ctx.db.tables, viewer.id, ctx.params.id)
+    ctx.db.commit()
+    return followStatus(ctx.db.tables, findOrThrow(ctx.db.tables.users, ctx.params.id, 'User'), viewer.id)
+  }
+}
+
+export const userRoutes = [
+  route('GET', '/users/me', (ctx) => presentAccount(ctx.requireViewer())),
+
+  route('GET', '/users/me/suggestions', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const limit = Math.min(
+      Math.max(Number(ctx.query.limit) || FOLLOW_SUGGESTIONS_DEFAULT_LIMIT, 1),
+      SUGGEST_MAX_LIMIT,
+    )
+    return suggestFollows(ctx.db.tables, viewer, limit)
+  }),
+
+  route('GET', '/users/me/follow-requests', (ctx) => {
+    const viewer = ctx.requireViewer()
+    return newestFirstPage(ctx.db.tables, pendingRequesterIds(ctx.db.tables, viewer.id), ctx.query)
+  }),
+
+  route('POST', '/users/me/follow-requests/:userId', (ctx) => {
+    const viewer = ctx.requireViewer()
+    answerRequest(ctx.db.tables, viewer.id, ctx.params.userId, true)
+    ctx.db.commit()
+    return followStatus(ctx.db.tables, findOrThrow(ctx.db.tables.users, ctx.params.userId, 'User'), viewer.id)
+  }),
+
+  route('DELETE', '/users/me/follow-requests/:userId', (ctx) => {
+    const viewer = ctx.requireViewer()
+    answerRequest(ctx.db.tables, viewer.id, ctx.params.userId, false)
+    ctx.db.commit()
+    return followStatus(ctx.db.tables, findOrThrow(ctx.db.tables.users, ctx.params.userId, 'User'), viewer.id)
+  }),
+
+  route('GET', '/users/me/blocks', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const ids = ctx.db.tables.blocks.filter((b) => b.blockerId === viewer.id).map((b) => b.blockedId)
+    return newestFirstPage(ctx.db.tables, ids, ctx.query)
+  }),
+
+  route('GET', '/users/me/mutes', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const ids = ctx.db.tables.mutes.filter((m) => m.muterId === viewer.id).map((m) => m.mutedId)
+    return newestFirstPage(ctx.db.tables, ids, ctx.query)
+  }),
+
+  route('GET', '/users/me/muted-keywords', (ctx) => ({
+    keywords: mutedKeywordsOf(ctx.db.tables, ctx.requireViewer()),
+  })),
+
+  route('PATCH', '/users/me/muted-keywords', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const body = bodyOf<{ keywords: string[] }>(ctx).keywords
+    if (!Array.isArray(body)) {
+      throw new ValidationError({ keywords: { code: 'invalid_format', message: 'Send a list of words.' } })
+    }
+    const keywords = normalizeKeywords(body.map(String))
+    const error = validateMutedKeywords(keywords)
+    if (error) throw new ValidationError({ keywords: error })
+    const { tables } = ctx.db
+    tables.mutedKeywords = [...tables.mutedKeywords.filter((r) => r.userId !== viewer.id), { userId: viewer.id, keywords }]
+    ctx.db.commit()
+    return { keywords }
+  }),
+
+  route('GET', '/users/by-username/:username', (ctx) => {
+    const wanted = ctx.params.username.toLowerCase()
+    const user = ctx.db.tables.users.find((u) => u.username.toLowerCase() === wanted)
+    if (!user) throw new ApiError('NOT_FOUND', 'User not found.')
+    return presentUser(findVisibleUser(ctx, user.id))
+  }),
+
+  route('GET', '/users/:id', (ctx) => presentUser(findVisibleUser(ctx, ctx.params.id))),
+
+  route('GET', '/users', ({ db, query, viewer }) => {
+    if (query.q !== undefined) {
+      const prefix = String(query.q).trim().toLowerCase()
+      if (!prefix) return []
+      const limit = Math.min(Math.max(Number(query.limit) || SUGGEST_DEFAULT_LIMIT, 1), SUGGEST_MAX_LIMIT)
+      return db.tables.users
+        .filter((user) => canListUser(db.tables, viewer, user))
+        .map((user) => ({ user, rank: matchRank(user, prefix) }))
+        .filter((entry): entry is { user: UserRecord; rank: number } => entry.rank !== null)
+        .sort((a, b) => a.rank - b.rank || a.user.username.localeCompare(b.user.username))
+        .slice(0, limit)
+        .map(({ user }) => presentUser(user))
+    }
+
+    const ids = new Set(String(query.ids ?? '').split(',').filter(Boolean))
+    return db.tables.users.filter((u) => ids.has(u.id) && canSeeUser(db.tables, viewer, u)).map(presentUser)
+  }),
+
+  route('POST', '/users/:id/follow', relationshipChange(requestFollow)),
+  route('DELETE', '/users/:id/follow', relationshipChange(unfollow)),
+  route('POST', '/users/:id/block', relationshipChange(block)),
+  route('DELETE', '/users/:id/block', relationshipChange(unblock)),
+  route('POST', '/users/:id/mute', relationshipChange(mute)),
+  route('DELETE', '/users/:id/mute', relationshipChange(unmute)),
+
+  route('GET', '/users/:id/follow-status', (ctx) =>
+    followStatus(ctx.db.tables, findVisibleUser(ctx, ctx.params.id), ctx.viewer?.id ?? null),
+  ),
+
+  route('GET', '/users/:id/followers', (ctx) => {
+    const user = findOrThrow(ctx.db.tables.users, ctx.params.id, 'User')
+    assertCanSeeActivity(ctx.db.tables, ctx.viewer, user)
+    return newestFirstPage(ctx.db.tables, user.followers, ctx.query)
+  }),
+
+  route('GET', '/users/:id/following', (ctx) => {
+    const user = findOrThrow(ctx.db.tables.users, ctx.params.id, 'User')
+    assertCanSeeActivity(ctx.db.tables, ctx.viewer, user)
+    return newestFirstPage(ctx.db.tables, user.following, ctx.query)
+  }),
+
+  route('GET', '/users/:id/mutuals', (ctx) => {
+    const viewer = ctx.requireViewer()
+    const { tables } = ctx.db
+    const target = findOrThrow(tables.users, ctx.params.id, 'User')
+    assertCanSeeActivity(tables, viewer, target)
+    const page = paginate(mutualFollowerIds(tables, viewer, target), ctx.query)
+    return { ...page, data: page.data.map((id) => presentUser(findOrThrow(tables.users, id, 'User'))) }
+  }),
+]
@@ -0,0 +1,212 @@
+/**
+ * ============================================================================
+ * STEP 2.19: Mock Hashtags - Tag Pages, Following and Trends
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.19 (Hashtags and trending)
+ * UPDATED: Feature Phase - Step 2.23 (collectTags, shared with the archive import)
+ * PURPOSE: Everything the server works out from Post.tags, so the tag
+ *          handlers and the feed stay thin
+ *
+ * One Tag, One Spelling:
+ * - Tags are stored normalized (normalizeTag: NFKC, lowercase), and every
+ *   tag arriving in a URL is normalized the same way first, so #React,
+ *   #react and a full-width #Ｒｅａｃｔ are one topic with one page
+ *
+ * Following a Tag:
+ * - A TagFollowRecord per user and tag; the home feed adds listable posts
+ *   carrying any followed tag (see ../handlers/feed.ts)
+ *
+ * Trends (trendingTags):
+ * - Time is cut into windows of one length, counted back from now: window
+ *   0 is the current one, windows 1..BASELINE_WINDOWS are the baseline.
+ *   The cut moves with the clock, so the windows slide
+ * - Each window counts PEOPLE per tag, not posts, so one account repeating
+ *   a tag cannot make it trend
+ * - expected = average people per baseline window; a tag trends when the
+ *   current window beats it, scored (recent - expected) / √(expected + 1).
+ *   A tag that is always busy needs a much bigger jump than a new one, and
+ *   the +1 keeps a first-ever use from scoring infinitely
+ * - Only posts the viewer could list count, so a followers-only post's tag
+ *   never trends for strangers
+ *
+ * LEARNING NOTES:
+ * - The √ comes from counting noise: a count that averages n usually
+ *   wanders by about √n, so the score says "how many wobbles above normal"
+ */
+
+import type { HashtagDetails, HashtagSummary, TrendWindow, TrendingTag } from '../../types'
+import { extractHashtags, isValidTag, normalizeTag } from '../../utils/textEntities'
+import { ApiError } from '../api/errors'
+import { canListPost, type ListTables } from './accessPolicy'
+import type { MockTables, PostRecord, UserRecord } from './database'
+
+/**
+ * TagTables - The tables hashtag lookups read
+ */
+export type TagTables = ListTables & Pick<MockTables, 'tagFollows'>
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * TREND_WINDOW_MS - Length of each TrendWindow
+ */
+export const TREND_WINDOW_MS: Record<TrendWindow, number> = {
+  hour: HOUR_MS,
+  day: 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS,
+}
+
+/** Baseline windows before the current one */
+const BASELINE_WINDOWS = 7
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * parseTag - The normalized tag from a URL segment or request body
+ *
+ * @throws ApiError VALIDATION if it is not something a post could contain
+ */
+export function parseTag(value: unknown): string {
+  const tag = normalizeTag(String(value ?? ''))
+  if (!isValidTag(tag)) throw new ApiError('VALIDATION', 'Not a valid hashtag.')
+  return tag
+}
+
+/**
+ * collectTags - Hashtags in the text merged with explicitly sent tags,
+ * normalized and without repeats; a sent tag no post text could contain
+ * ("two words!") is dropped, since no tag page could ever find it
+ */
+export function collectTags(content: string, extra: string[] = []): string[] {
+  const explicit = extra.map(normalizeTag).filter(isValidTag)
+  return [...new Set([...extractHashtags(content), ...explicit])]
+}
+
+/**
+ * hasTag - Whether a post carries the (normalized) tag
+ */
+export function hasTag(post: PostRecord, tag: string): boolean {
+  return post.tags?.includes(tag) ?? false
+}
+
+/**
+ * followedTagsOf - The tags a user follows, oldest first
+ */
+export function followedTagsOf(tables: Pick<MockTables, 'tagFollows'>, userId: string): string[] {
+  return tables.tagFollows.filter((follow) => follow.userId === userId).map((follow) => follow.tag)
+}
+
+/**
+ * followedTagIn - The first of the post's tags the viewer follows, if any
+ */
+export function followedTagIn(post: PostRecord, followed: ReadonlySet<string>): string | undefined {
+  return post.tags?.find((tag) => followed.has(tag))
+}
+
+/**
+ * tagDetails - A tag page's header, as the viewer sees it
+ */
+export function tagDetails(tables: TagTables, viewer: UserRecord | null, tag: string): HashtagDetails {
+  const follows = tables.tagFollows.filter((follow) => follow.tag === tag)
+  return {
+    tag,
+    postCount: tables.posts.filter((post) => hasTag(post, tag) && canListPost(tables, viewer, post)).length,
+    followerCount: follows.length,
+    isFollowing: follows.some((follow) => follow.userId === viewer?.id),
+  }
+}
+
+// ============================================================================
+// FOLLOWING
+// ============================================================================
+
+/**
+ * followTag - Starts following; following twice changes nothing
+ */
+export function followTag(tables: Pick<MockTables, 'tagFollows'>, userId: string, tag: string): void {
+  if (tables.tagFollows.some((follow) => follow.userId === userId && follow.tag === tag)) return
+  tables.tagFollows.push({ userId, tag, createdAt: new Date() })
+}
+
+/**
+ * unfollowTag - Stops following; unfollowing an unfollowed tag is a no-op
+ */
+export function unfollowTag(tables: Pick<MockTables, 'tagFollows'>, userId: string, tag: string): void {
+  tables.tagFollows = tables.tagFollows.filter((follow) => !(follow.userId === userId && follow.tag === tag))
+}
+
+// ============================================================================
+// TRENDS
+// ============================================================================
+
+/**
+ * trendScore - How far the current window is above the baseline
+ */
+export function trendScore(recent: number, expected: number): number {
+  return (recent - expected) / Math.sqrt(expected + 1)
+}
+
+/**
+ * trendingTags - Tags growing fastest in the current window, best first
+ *
+ * Ties are broken by the larger crowd, then alphabetically, so the order
+ * never flickers between two requests.
+ */
+export function trendingTags(
+  tables: TagTables,
+  viewer: UserRecord | null,
+  trendWindow: TrendWindow,
+  now = Date.now(),
+): TrendingTag[] {
+  const windowMs = TREND_WINDOW_MS[trendWindow]
+  const oldest = now - windowMs * (BASELINE_WINDOWS + 1)
+
+  // tag → window index → the people who used it there
+  const people = new Map<string, Map<number, Set<string>>>()
+  for (const post of tables.posts) {
+    const time = post.createdAt.getTime()
+    if (!post.tags?.length || time <= oldest || time > now || !canListPost(tables, viewer, post)) continue
+    const index = Math.floor((now - time) / windowMs)
+    for (const tag of post.tags) {
+      const windows = people.get(tag) ?? new Map<number, Set<string>>()
+      const authors = windows.get(index) ?? new Set<string>()
+      authors.add(post.authorId)
+      windows.set(index, authors)
+      people.set(tag, windows)
+    }
+  }
+
+  const trends: TrendingTag[] = []
+  for (const [tag, windows] of people) {
+    const recentCount = windows.get(0)?.size ?? 0
+    let baselineTotal = 0
+    for (const [index, authors] of windows) {
+      if (index > 0) baselineTotal += authors.size
+    }
+    const baselineCount = baselineTotal / BASELINE_WINDOWS
+    if (recentCount <= baselineCount) continue
+    trends.push({ tag, score: trendScore(recentCount, baselineCount), recentCount, baselineCount })
+  }
+
+  return trends.sort((a, b) => b.score - a.score || b.recentCount - a.recentCount || a.tag.localeCompare(b.tag))
+}
+
+/**
+ * countTags - Visible posts per tag, for autocomplete (most-used first)
+ */
+export function countTags(tables: TagTables, viewer: UserRecord | null, prefix = ''): HashtagSummary[] {
+  const counts = new Map<string, number>()
+  for (const post of tables.posts) {
+    if (!post.tags?.length || !canListPost(tables, viewer, post)) continue
+    for (const tag of post.tags) {
+      if (tag.startsWith(prefix)) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+  }
+
+  return [...counts]
+    .map(([tag, postCount]): HashtagSummary => ({ tag, postCount }))
+    .sort((a, b) => b.postCount - a.postCount || a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,162 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Handler Helpers - Lookups, Joins and Pagination
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.12 (pageParams for lists paged by hand)
+ * UPDATED: Feature Phase - Step 2.14 (toPost leaves out hidden comments)
+ * UPDATED: Feature Phase - Step 2.15 (moderated content is blanked per viewer)
+ * UPDATED: Feature Phase - Step 2.18 (toPost embeds reposted / quoted posts)
+ * PURPOSE: Shared building blocks for every mock resource handler
+ *
+ * What Lives Here:
+ * - findOrThrow: Looks a record up by ID or fails with NOT_FOUND
+ * - toPost / toConversation: Turn stored records into the API shapes
+ *   (joining comments and lastMessage, like a SQL JOIN), as the viewer
+ *   may see them (presentPost & co. in ./accessPolicy.ts)
+ * - paginate: Slices a list into a PaginatedResponse<T>
+ * - pageParams: The page and limit a query asks for (Step 2.12)
+ *
+ * LEARNING NOTES:
+ * - Pagination is 1-based (page 1 is the first page) to match the
+ *   PaginatedResponse contract
+ */
+
+import type { Conversation, PaginatedResponse, Post, SharedPost } from '../../types'
+import type { QueryParams } from '../api/transport'
+import { ApiError } from '../api/errors'
+import {
+  canSeeModerated,
+  canViewPost,
+  presentComment,
+  presentMessage,
+  presentPost,
+  visibleComments,
+} from './accessPolicy'
+import type { ConversationRecord, MockTables, PostRecord, UserRecord } from './database'
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * findOrThrow - Finds a record by id, or throws NOT_FOUND
+ *
+ * @param label - Used in the error message ("Post not found.")
+ */
+export function findOrThrow<T extends { id: string }>(items: T[], id: string, label: string): T {
+  const item = items.find((candidate) => candidate.id === id)
+  if (!item) {
+    throw new ApiError('NOT_FOUND', `${label} not found.`)
+  }
+  return item
+}
+
+// ============================================================================
+// JOINS
+// ============================================================================
+
+/**
+ * toPost - Attaches the post's comments the viewer may see, oldest first
+ *
+ * UPDATED: Step 2.18 - Also embeds the reposted or quoted post as `shared`
+ * (one level only: the embedded post does not embed its own quote) and
+ * tells whether the viewer reposted this post
+ */
+export function toPost(tables: MockTables, record: PostRecord, viewer: UserRecord | null, embedShared = true): Post {
+  const comments = tables.comments
+    .filter((comment) => comment.postId === record.id)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  const sharedId = record.repostOf ?? record.quoteOf
+  return {
+    ...presentPost(viewer, record),
+    comments: visibleComments(tables, viewer, comments).map((comment) => presentComment(tables, viewer, comment)),
+    shared: sharedId && embedShared ? toSharedPost(tables, sharedId, viewer) : undefined,
+    viewerReposted: viewer ? tables.posts.some((p) => p.repostOf === record.id && p.authorId === viewer.id) : false,
+  }
+}
+
+/**
+ * toSharedPost - The post a repost or quote points at, as the viewer may
+ * see it: gone ('deleted'), off limits or moderated ('unavailable'), or
+ * the post itself
+ */
+function toSharedPost(tables: MockTables, postId: string, viewer: UserRecord | null): SharedPost {
+  const original = tables.posts.find((p) => p.id === postId)
+  if (!original) return { status: 'deleted' }
+  if (!canViewPost(tables, viewer, original) || !canSeeModerated(viewer, original.authorId, original.moderation)) {
+    return { status: 'unavailable' }
+  }
+  return { status: 'available', post: toPost(tables, original, viewer, false) }
+}
+
+/**
+ * toConversation - Attaches the newest message as lastMessage
+ */
+export function toConversation(
+  tables: Pick<MockTables, 'messages'>,
+  record: ConversationRecord,
+  viewer: UserRecord | null,
+): Conversation {
+  let lastMessage
+  for (const message of tables.messages) {
+    if (
+      message.conversationId === record.id &&
+      (!lastMessage || message.createdAt.getTime() > lastMessage.createdAt.getTime())
+    ) {
+      lastMessage = message
+    }
+  }
+  return { ...record, lastMessage: lastMessage && presentMessage(viewer, lastMessage) }
+}
+
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+/**
+ * readInt - Parses a positive integer query value, with a fallback
+ */
+function readInt(value: QueryParams[string], fallback: number): number {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * pageParams - The requested page and (capped) limit
+ */
+export function pageParams(query: QueryParams): { page: number; limit: number } {
+  return { page: readInt(query.page, 1), limit: Math.min(readInt(query.limit, DEFAULT_LIMIT), MAX_LIMIT) }
+}
+
+/**
+ * paginate - Cuts one page out of an already sorted list
+ *
+ * Reads `page` and `limit` from the query; limit is capped at MAX_LIMIT so a
+ * client cannot ask for everything at once.
+ */
+export function paginate<T>(items: T[], query: QueryParams): PaginatedResponse<T> {
+  const { page, limit } = pageParams(query)
+  const start = (page - 1) * limit
+
+  return {
+    data: items.slice(start, start + limit),
+    pagination: {
+      page,
+      limit,
+      total: items.length,
+      totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    },
+  }
+}
+
+/**
+ * newestFirst - Sort comparator for anything with createdAt
+ */
+export function newestFirst(a: { createdAt: Date }, b: { createdAt: Date }): number {
+  return b.createdAt.getTime() - a.createdAt.getTime()
+}
@@ -0,0 +1,50 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Backend - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.8 (exports the chat hub)
+ * UPDATED: Feature Phase - Step 2.10 (exports notification events)
+ * UPDATED: Feature Phase - Step 2.14 (exports approveAllRequests for the auth backend)
+ * UPDATED: Feature Phase - Step 2.21 (exports activity events)
+ * UPDATED: Feature Phase - Step 2.22 (exports deleteAccount for the auth backend)
+ * UPDATED: Feature Phase - Step 2.12 (exports presentAccount for the auth backend)
+ * UPDATED: Feature Phase - Step 2.17 (exports the photo helpers for the auth backend)
+ * PURPOSE: Exports the mock pieces and one shared database instance
+ *
+ * Why a Shared Instance:
+ * - The local auth backend and the mock API server must see the SAME users
+ *   and sessions; otherwise a freshly registered user could log in but
+ *   every API call would answer "User not found"
+ * - getMockDatabase() creates the database on first use and then keeps
+ *   returning it (a lazy singleton)
+ */
+
+import { createMockDatabase, type MockDatabase } from './database'
+
+export { createMockDatabase } from './database'
+export type { MockDatabase, MockTables } from './database'
+export { createMockServer } from './server'
+export type { MockServer, MockServerOptions } from './server'
+export { createMockTransport } from './transport'
+export { createChatHub } from './chatHub'
+export type { ChatHub, ChatHubOptions, ChatHubSession, ChatHubTables } from './chatHub'
+export { subscribeToNotifications } from './notify'
+export { approveAllRequests } from './follows'
+export type { NotificationEvent } from './notify'
+export { subscribeToActivity } from './activity'
+export type { ActivityEvent } from './activity'
+export { deleteAccount } from './accounts'
+export { presentAccount } from './accessPolicy'
+export { imageError, photoTarget, replaceImage } from './photos'
+
+let sharedDatabase: MockDatabase | null = null
+
+/**
+ * getMockDatabase - The app-wide mock database (persisted to localStorage)
+ */
+export function getMockDatabase(): MockDatabase {
+  sharedDatabase ??= createMockDatabase()
+  return sharedDatabase
+}
@@ -0,0 +1,333 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Mock Media - Chunked Uploads and Stored Assets
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * UPDATED: Feature Phase - Step 2.23 (files restored from an account archive)
+ * PURPOSE: The only code that accepts uploaded bytes, turns them into
+ *          MediaAssets and attaches assets to posts
+ *
+ * The Flow:
+ * 1. startUpload: The client announces name, type, size and purpose. Type
+ *    and size are checked against MEDIA_RULES before a single byte moves
+ * 2. receiveChunk: Chunks arrive IN ORDER; each must start exactly at
+ *    receivedBytes. A client that lost track (a timeout after the server
+ *    stored the chunk) reads the session again and continues from there,
+ *    which is what makes uploads resumable
+ * 3. completeUpload: The chunks are joined, the real type is sniffed from
+ *    the bytes, image metadata is stripped, and a thumbnail and blurhash
+ *    are derived (../media). The result is a MediaAsset
+ * 4. attachMedia: Creating a post claims its assets, once. Profile
+ *    pictures, cover photos and group photos are claimed by URL instead
+ *    (./photos.ts)
+ *
+ * Restoring (Step 2.23):
+ * - restoreMedia stores a file from an account archive like a completed
+ *   upload: same type and size rules, same processing, a new ID and URL
+ *
+ * Clean-Up:
+ * - Sessions not completed within UPLOAD_TTL_MS are discarded with their
+ *   chunks the next time anyone starts an upload
+ *
+ * LEARNING NOTES:
+ * - Only metadata lives in the tables (they are saved to localStorage);
+ *   the bytes live in MediaStorage
+ * - The declared type is only trusted until completion: a file announced
+ *   as image/png whose bytes are not a PNG is refused then
+ */
+
+import type { MediaAsset, MediaPurpose, UploadSession } from '../../types'
+import { ApiError } from '../api/errors'
+import { MEDIA_RULES, ValidationError, validateMediaFile } from '../../validation'
+import { createId } from '../../utils/ids'
+import { sniffMimeType, stripImageMetadata } from '../media/metadata'
+import { processImage } from '../media/processing'
+import type { MediaStorage } from '../media/storage'
+import type { MediaRecord, MockTables, UploadRecord, UserRecord } from './database'
+
+/** Largest chunk accepted; the client reads it from the session */
+export const UPLOAD_CHUNK_SIZE = 256 * 1024
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * EXTENSIONS - File extension used in storage keys
+ */
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+}
+
+/**
+ * NewUpload - What a client announces before uploading
+ */
+export interface NewUpload {
+  fileName: string
+  mimeType: string
+  size: number
+  purpose: MediaPurpose
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * toUploadSession - An upload as clients see it (no owner or chunk keys)
+ */
+export function toUploadSession(record: UploadRecord): UploadSession {
+  const { id, purpose, fileName, mimeType, size, receivedBytes, chunkSize, expiresAt, createdAt } = record
+  return { id, purpose, fileName, mimeType, size, receivedBytes, chunkSize, expiresAt, createdAt }
+}
+
+/**
+ * toMediaAsset - An asset as clients see it
+ */
+export function toMediaAsset(record: MediaRecord): MediaAsset {
+  const asset: MediaAsset & Partial<MediaRecord> = { ...record }
+  delete asset.storageKeys
+  delete asset.attachedTo
+  return asset
+}
+
+/**
+ * findOwnUpload - The viewer's unexpired upload session
+ */
+export function findOwnUpload(tables: MockTables, viewer: UserRecord, uploadId: string): UploadRecord {
+  const upload = tables.uploads.find((u) => u.id === uploadId && u.ownerId === viewer.id)
+  if (!upload || upload.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError('NOT_FOUND', 'This upload has expired. Please start it again.')
+  }
+  return upload
+}
+
+/**
+ * discardUpload - Forgets a session and deletes its chunks
+ */
+export async function discardUpload(tables: MockTables, storage: MediaStorage, upload: UploadRecord): Promise<void> {
+  tables.uploads = tables.uploads.filter((u) => u.id !== upload.id)
+  await storage.delete(upload.chunkKeys)
+}
+
+/**
+ * pruneExpiredUploads - Discards every session past its expiry
+ */
+async function pruneExpiredUploads(tables: MockTables, storage: MediaStorage): Promise<void> {
+  const now = Date.now()
+  for (const upload of tables.uploads.filter((u) => u.expiresAt.getTime() <= now)) {
+    await discardUpload(tables, storage, upload)
+  }
+}
+
+/**
+ * storeMedia - Stores checked bytes as a MediaRecord: image metadata
+ * stripped, thumbnail and blurhash derived. An image that does not parse
+ * is refused (VALIDATION)
+ */
+async function storeMedia(
+  tables: MockTables,
+  storage: MediaStorage,
+  file: Pick<MediaRecord, 'ownerId' | 'purpose' | 'fileName' | 'mimeType'>,
+  received: Uint8Array,
+): Promise<MediaRecord> {
+  const { mimeType } = file
+  const isImage = mimeType.startsWith('image/')
+  const stripped = isImage ? stripImageMetadata(received, mimeType) : received
+  if (!stripped) {
+    throw new ValidationError({ file: { code: 'invalid_format', message: 'The image is damaged or incomplete.' } })
+  }
+  const data = new Blob([stripped], { type: mimeType })
+
+  const id = createId('media')
+  const key = `media/${id}.${EXTENSIONS[mimeType] ?? 'bin'}`
+  const url = await storage.put(key, data)
+  const details = isImage ? await processImage(data) : null
+  const thumbnailKey = `media/${id}-thumb.webp`
+  const thumbnailUrl = details?.thumbnail ? await storage.put(thumbnailKey, details.thumbnail) : undefined
+
+  const record: MediaRecord = {
+    id,
+    ownerId: file.ownerId,
+    purpose: file.purpose,
+    fileName: file.fileName,
+    mimeType,
+    size: data.size,
+    url,
+    thumbnailUrl,
+    width: details?.width,
+    height: details?.height,
+    blurhash: details?.blurhash ?? undefined,
+    createdAt: new Date(),
+    storageKeys: thumbnailUrl ? [key, thumbnailKey] : [key],
+  }
+  tables.media.push(record)
+  return record
+}
+
+// ============================================================================
+// UPLOADS
+// ============================================================================
+
+/**
+ * startUpload - Opens a session after checking type, size and purpose
+ *
+ * @throws ValidationError for an unknown purpose, a wrong type or a too large file
+ */
+export async function startUpload(
+  tables: MockTables,
+  storage: MediaStorage,
+  viewer: UserRecord,
+  file: NewUpload,
+): Promise<UploadRecord> {
+  if (!Object.hasOwn(MEDIA_RULES, file.purpose)) {
+    throw new ValidationError({ purpose: { code: 'invalid_format', message: 'Unknown upload purpose.' } })
+  }
+  const error = validateMediaFile({ type: file.mimeType, size: file.size }, file.purpose)
+  if (error) throw new ValidationError({ file: error })
+
+  await pruneExpiredUploads(tables, storage)
+  const now = new Date()
+  const upload: UploadRecord = {
+    id: createId('upload'),
+    ownerId: viewer.id,
+    purpose: file.purpose,
+    fileName: file.fileName.trim().slice(0, 200) || 'file',
+    mimeType: file.mimeType,
+    size: file.size,
+    receivedBytes: 0,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    expiresAt: new Date(now.getTime() + UPLOAD_TTL_MS),
+    createdAt: now,
+    chunkKeys: [],
+  }
+  tables.uploads.push(upload)
+  return upload
+}
+
+/**
+ * receiveChunk - Stores the next chunk of an upload
+ *
+ * @throws ApiError CONFLICT when `offset` is not where the upload stands
+ */
+export async function receiveChunk(
+  storage: MediaStorage,
+  upload: UploadRecord,
+  offset: number,
+  chunk: Blob,
+): Promise<UploadRecord> {
+  if (offset !== upload.receivedBytes) {
+    throw new ApiError('CONFLICT', `The upload continues at byte ${upload.receivedBytes}.`)
+  }
+  if (chunk.size === 0 || chunk.size > upload.chunkSize || offset + chunk.size > upload.size) {
+    throw new ApiError('VALIDATION', 'The chunk does not fit this upload.')
+  }
+  const key = `uploads/${upload.id}/${offset}`
+  await storage.put(key, chunk)
+  upload.chunkKeys.push(key)
+  upload.receivedBytes += chunk.size
+  return upload
+}
+
+/**
+ * completeUpload - Joins the chunks and stores the processed file
+ *
+ * The session is discarded whether or not this succeeds: a file whose
+ * bytes are wrong will not get better by being completed again.
+ *
+ * @throws ApiError CONFLICT when bytes are missing
+ * @throws ValidationError when the bytes are not the declared type
+ */
+export async function completeUpload(
+  tables: MockTables,
+  storage: MediaStorage,
+  upload: UploadRecord,
+): Promise<MediaRecord> {
+  if (upload.receivedBytes !== upload.size) {
+    throw new ApiError('CONFLICT', `Only ${upload.receivedBytes} of ${upload.size} bytes have arrived.`)
+  }
+
+  try {
+    const chunks = await Promise.all(upload.chunkKeys.map((key) => storage.get(key)))
+    if (chunks.some((chunk) => chunk === undefined)) {
+      throw new ApiError('CONFLICT', 'Part of the upload was lost. Please start it again.')
+    }
+    const received = new Uint8Array(await new Blob(chunks as Blob[]).arrayBuffer())
+
+    const mimeType = sniffMimeType(received)
+    if (mimeType !== upload.mimeType) {
+      throw new ValidationError({
+        file: { code: 'invalid_type', message: 'The file content does not match its type.' },
+      })
+    }
+    return await storeMedia(tables, storage, upload, received)
+  } finally {
+    await discardUpload(tables, storage, upload)
+  }
+}
+
+/**
+ * restoreMedia - Stores a file from an account archive for the viewer
+ *
+ * The archive's stated type is ignored: the bytes decide, exactly as
+ * for an upload.
+ *
+ * @throws ValidationError when the bytes are not an allowed type for
+ *         `purpose` or are too large
+ */
+export async function restoreMedia(
+  tables: MockTables,
+  storage: MediaStorage,
+  viewer: UserRecord,
+  file: { purpose: MediaPurpose; fileName: string; data: Blob },
+): Promise<MediaRecord> {
+  const received = new Uint8Array(await file.data.arrayBuffer())
+  const mimeType = sniffMimeType(received)
+  const error = validateMediaFile({ type: mimeType ?? '', size: received.length }, file.purpose)
+  if (!mimeType || error) {
+    throw new ValidationError({
+      file: error ?? { code: 'invalid_type', message: 'The file content is not a supported type.' },
+    })
+  }
+  const fileName = file.fileName.trim().slice(0, 200) || 'file'
+  return storeMedia(tables, storage, { ownerId: viewer.id, purpose: file.purpose, fileName, mimeType }, received)
+}
+
+// ============================================================================
+// ATTACHING
+// ============================================================================
+
+/**
+ * attachMedia - Claims the viewer's finished uploads for a post
+ *
+ * @throws ApiError VALIDATION for assets that are missing, someone else's,
+ *         uploaded for another purpose, or already used
+ */
+export function attachMedia(
+  tables: MockTables,
+  viewer: UserRecord,
+  mediaIds: string[],
+  purpose: MediaPurpose,
+  targetId: string,
+): MediaRecord[] {
+  const records = [...new Set(mediaIds)].map((id) => tables.media.find((m) => m.id === id))
+  const usable = (record: MediaRecord | undefined): record is MediaRecord =>
+    Boolean(record && record.ownerId === viewer.id && record.purpose === purpose && !record.attachedTo)
+  if (!records.every(usable)) {
+    throw new ApiError('VALIDATION', 'An attached file is missing or already in use. Please upload it again.')
+  }
+  for (const record of records) record.attachedTo = targetId
+  return records
+}
+
+/**
+ * deleteAttachedMedia - Deletes the assets of a deleted post and their files
+ */
+export async function deleteAttachedMedia(tables: MockTables, storage: MediaStorage, targetId: string): Promise<void> {
+  const attached = tables.media.filter((m) => m.attachedTo === targetId)
+  if (attached.length === 0) return
+  tables.media = tables.media.filter((m) => m.attachedTo !== targetId)
+  await storage.delete(attached.flatMap((m) => m.storageKeys))
+}
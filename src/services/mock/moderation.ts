@@ -0,0 +1,379 @@
+/**
+ * ============================================================================
+ * STEP 2.15: Mock Moderation - Reports, the Review Queue and Actions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * PURPOSE: The only code that files reports, changes `moderation` on posts,
+ *          comments and messages, or suspends users
+ *
+ * The Flow:
+ * 1. Anyone signed in reports a post, comment, message or user they can
+ *    see (createReport). The report keeps a SNAPSHOT of the content, so
+ *    editing or deleting it afterwards does not hide the evidence.
+ * 2. Moderators (User.role) see open reports grouped per target, most
+ *    reported first (moderationQueue)
+ * 3. A moderator acts (applyModerationAction):
+ *    - hide / remove / restore: set or clear `moderation` on the content
+ *    - warn: only tells the author, with a note
+ *    - suspend / unsuspend: set or clear User.suspendedUntil
+ *    - dismiss: nothing was wrong
+ *    Every action resolves the target's open reports (dismiss marks them
+ *    'dismissed'), is recorded in the moderationActions table (the audit
+ *    trail) and, except dismiss, notifies the author
+ *
+ * Suspension:
+ * - A suspended user can still sign in, read, follow, edit their profile
+ *   and mark things read, but cannot create content: posting, editing,
+ *   commenting, liking and messaging are refused (assertNotSuspended,
+ *   called through ctx.requireAuthor() by those handlers and by the chat
+ *   hub for messages)
+ * - Suspensions always end; reading suspendedUntil is enough, nothing has
+ *   to run when they expire
+ *
+ * LEARNING NOTES:
+ * - Reports are idempotent per reporter and target: reporting the same
+ *   post twice returns the first report instead of counting double
+ * - Who may READ moderated content is an access rule (rule 5 in
+ *   ./accessPolicy.ts); this module only changes state
+ */
+
+import type {
+  ModerationAction,
+  ModerationActionForm,
+  ModerationQueueItem,
+  ModerationState,
+  Report,
+  ReportForm,
+  ReportSnapshot,
+  ReportTargetType,
+} from '../../types'
+import { createId } from '../../utils/ids'
+import { ValidationError, validateModerationActionForm, validateReportForm } from '../../validation'
+import { ApiError } from '../api/errors'
+import { canSeeUser, canViewPost, isModerator, visibleComments } from './accessPolicy'
+import type { MockTables, UserRecord } from './database'
+import { findOrThrow } from './helpers'
+import { notifyModeration } from './notify'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * ModerationTarget - A reported thing, resolved from its type and id
+ * - authorId: Who wrote it (the user themselves for 'user')
+ * - snapshot: Its content right now
+ * - setModeration: Changes its state (undefined for users)
+ * - link: Fields for the author's notification
+ */
+interface ModerationTarget {
+  authorId: string
+  snapshot: ReportSnapshot
+  setModeration?: (state: ModerationState | undefined) => void
+  link: { postId?: string; commentId?: string; messageId?: string; conversationId?: string }
+}
+
+const TARGET_TYPES: ReportTargetType[] = ['post', 'comment', 'message', 'user']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// SUSPENSION
+// ============================================================================
+
+/**
+ * isSuspended - Whether the user's suspension is still running
+ */
+export function isSuspended(user: Pick<UserRecord, 'suspendedUntil'>, now = new Date()): boolean {
+  return user.suspendedUntil !== undefined && user.suspendedUntil.getTime() > now.getTime()
+}
+
+/**
+ * assertNotSuspended - FORBIDDEN while the user is suspended
+ */
+export function assertNotSuspended(user: UserRecord): void {
+  if (isSuspended(user)) {
+    const until = user.suspendedUntil!.toISOString().slice(0, 10)
+    throw new ApiError('FORBIDDEN', `Your account is suspended until ${until}.`)
+  }
+}
+
+/**
+ * assertModerator - FORBIDDEN unless the user is a moderator
+ */
+export function assertModerator(user: UserRecord): void {
+  if (!isModerator(user)) throw new ApiError('FORBIDDEN', 'Only moderators can do that.')
+}
+
+// ============================================================================
+// TARGETS
+// ============================================================================
+
+/**
+ * findTarget - Resolves a report target the actor may see, or NOT_FOUND
+ *
+ * Moderators may act on anything, so visibility is only checked for
+ * everyone else (who can only report what they can see).
+ */
+function findTarget(tables: MockTables, actor: UserRecord, type: ReportTargetType, id: string): ModerationTarget {
+  const checkAccess = !isModerator(actor)
+  const notFound = () => new ApiError('NOT_FOUND', 'That content no longer exists.')
+
+  switch (type) {
+    case 'post': {
+      const post = findOrThrow(tables.posts, id, 'Post')
+      if (checkAccess && !canViewPost(tables, actor, post)) throw notFound()
+      return {
+        authorId: post.authorId,
+        snapshot: { authorId: post.authorId, content: post.content, images: post.images, postId: post.id },
+        setModeration: (state) => {
+          post.moderation = state
+        },
+        link: { postId: post.id },
+      }
+    }
+    case 'comment': {
+      const comment = findOrThrow(tables.comments, id, 'Comment')
+      const post = tables.posts.find((p) => p.id === comment.postId)
+      const siblings = tables.comments.filter((c) => c.postId === comment.postId)
+      if (!post || comment.isDeleted) throw notFound()
+      if (checkAccess && (!canViewPost(tables, actor, post) || !visibleComments(tables, actor, siblings).includes(comment))) {
+        throw notFound()
+      }
+      return {
+        authorId: comment.authorId,
+        snapshot: { authorId: comment.authorId, content: comment.content, postId: post.id },
+        setModeration: (state) => {
+          comment.moderation = state
+        },
+        link: { postId: post.id, commentId: comment.id },
+      }
+    }
+    case 'message': {
+      const message = findOrThrow(tables.messages, id, 'Message')
+      const conversation = tables.conversations.find((c) => c.id === message.conversationId)
+      if (!conversation || message.type === 'system') throw notFound()
+      if (checkAccess && !conversation.participants.includes(actor.id)) throw notFound()
+      return {
+        authorId: message.senderId,
+        snapshot: {
+          authorId: message.senderId,
+          content: message.content,
+          images: message.attachments,
+          conversationId: conversation.id,
+        },
+        setModeration: (state) => {
+          message.moderation = state
+        },
+        // The moderator is not in the conversation, so the link is only
+        // useful to the author, who is
+        link: { messageId: message.id, conversationId: conversation.id },
+      }
+    }
+    case 'user': {
+      const user = findOrThrow(tables.users, id, 'User')
+      if (checkAccess && !canSeeUser(tables, actor, user)) throw notFound()
+      return {
+        authorId: user.id,
+        snapshot: { authorId: user.id, content: [`${user.firstName} ${user.lastName}`, user.bio].filter(Boolean).join('\n') },
+        link: {},
+      }
+    }
+  }
+}
+
+/**
+ * readTargetType - The target type of a request, or VALIDATION
+ */
+function readTargetType(value: unknown): ReportTargetType {
+  if (!TARGET_TYPES.includes(value as ReportTargetType)) {
+    throw new ApiError('VALIDATION', 'Choose a post, comment, message or user.')
+  }
+  return value as ReportTargetType
+}
+
+/**
+ * currentModeration - The target's moderation state right now (undefined
+ * for users, and for content deleted since it was reported)
+ */
+function currentModeration(tables: MockTables, type: ReportTargetType, id: string): ModerationState | undefined {
+  switch (type) {
+    case 'post':
+      return tables.posts.find((p) => p.id === id)?.moderation
+    case 'comment':
+      return tables.comments.find((c) => c.id === id)?.moderation
+    case 'message':
+      return tables.messages.find((m) => m.id === id)?.moderation
+    default:
+      return undefined
+  }
+}
+
+/**
+ * openReportsFor - Open reports about one target
+ */
+function openReportsFor(tables: MockTables, targetType: ReportTargetType, targetId: string): Report[] {
+  return tables.reports.filter((r) => r.status === 'open' && r.targetType === targetType && r.targetId === targetId)
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * createReport - Files a report, or returns the reporter's open report about
+ * the same target
+ *
+ * @throws ValidationError for a missing reason (or details with 'other'),
+ *         ApiError VALIDATION when reporting yourself or your own content
+ */
+export function createReport(tables: MockTables, reporter: UserRecord, form: ReportForm): Report {
+  const targetType = readTargetType(form.targetType)
+  const validation = validateReportForm(form)
+  if (!validation.valid) throw new ValidationError(validation.errors)
+
+  const target = findTarget(tables, reporter, targetType, String(form.targetId))
+  if (target.authorId === reporter.id) {
+    throw new ApiError('VALIDATION', 'You cannot report yourself or your own content.')
+  }
+
+  const existing = openReportsFor(tables, targetType, form.targetId).find((r) => r.reporterId === reporter.id)
+  if (existing) return existing
+
+  const details = form.details.trim()
+  const report: Report = {
+    id: createId('report'),
+    reporterId: reporter.id,
+    targetType,
+    targetId: form.targetId,
+    reason: form.reason,
+    details: details || undefined,
+    status: 'open',
+    snapshot: target.snapshot,
+    createdAt: new Date(),
+  }
+  tables.reports.push(report)
+  return report
+}
+
+/**
+ * moderationQueue - Open reports grouped per target: most reported first,
+ * then the longest waiting
+ *
+ * The snapshot is the newest report's, so it is the content as it was when
+ * someone last flagged it.
+ */
+export function moderationQueue(tables: MockTables): ModerationQueueItem[] {
+  const items = new Map<string, ModerationQueueItem>()
+  const open = tables.reports
+    .filter((r) => r.status === 'open')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+  for (const report of open) {
+    const key = `${report.targetType}:${report.targetId}`
+    const item = items.get(key)
+    if (item) {
+      item.reportIds.push(report.id)
+      if (!item.reasons.includes(report.reason)) item.reasons.push(report.reason)
+      if (report.details) item.details.push(report.details)
+      item.snapshot = report.snapshot
+      continue
+    }
+    items.set(key, {
+      targetType: report.targetType,
+      targetId: report.targetId,
+      snapshot: report.snapshot,
+      reportIds: [report.id],
+      reasons: [report.reason],
+      details: report.details ? [report.details] : [],
+      firstReportedAt: report.createdAt,
+    })
+  }
+
+  for (const item of items.values()) {
+    const author = tables.users.find((u) => u.id === item.snapshot.authorId)
+    if (author && isSuspended(author)) item.authorSuspendedUntil = author.suspendedUntil
+    item.moderation = currentModeration(tables, item.targetType, item.targetId)
+  }
+
+  return [...items.values()].sort(
+    (a, b) => b.reportIds.length - a.reportIds.length || a.firstReportedAt.getTime() - b.firstReportedAt.getTime(),
+  )
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+/**
+ * applyModerationAction - Carries out one action, records it, resolves the
+ * target's open reports and notifies the author
+ *
+ * @throws ApiError FORBIDDEN for non-moderators, VALIDATION for actions
+ *         that make no sense (hiding a user, moderating yourself)
+ */
+export function applyModerationAction(
+  tables: MockTables,
+  moderator: UserRecord,
+  form: ModerationActionForm,
+): ModerationAction {
+  assertModerator(moderator)
+  const targetType = readTargetType(form.targetType)
+  const validation = validateModerationActionForm(form)
+  if (!validation.valid) throw new ValidationError(validation.errors)
+
+  const target = findTarget(tables, moderator, targetType, String(form.targetId))
+  if (target.authorId === moderator.id) {
+    throw new ApiError('VALIDATION', 'Ask another moderator to review your own content.')
+  }
+  const subject = findOrThrow(tables.users, target.authorId, 'User')
+  const now = new Date()
+  let suspendedUntil: Date | undefined
+
+  switch (form.type) {
+    case 'hide':
+    case 'remove':
+    case 'restore':
+      if (!target.setModeration) {
+        throw new ApiError('VALIDATION', 'Accounts cannot be hidden or removed; warn or suspend them instead.')
+      }
+      target.setModeration(form.type === 'restore' ? undefined : form.type === 'hide' ? 'hidden' : 'removed')
+      break
+    case 'suspend':
+      suspendedUntil = new Date(now.getTime() + (form.days ?? 0) * DAY_MS)
+      subject.suspendedUntil = suspendedUntil
+      subject.updatedAt = now
+      break
+    case 'unsuspend':
+      subject.suspendedUntil = undefined
+      subject.updatedAt = now
+      break
+    case 'warn':
+    case 'dismiss':
+      break
+  }
+
+  const reports = openReportsFor(tables, targetType, form.targetId)
+  for (const report of reports) {
+    report.status = form.type === 'dismiss' ? 'dismissed' : 'resolved'
+    report.resolvedAt = now
+  }
+
+  const note = form.note?.trim()
+  const action: ModerationAction = {
+    id: createId('modaction'),
+    moderatorId: moderator.id,
+    type: form.type,
+    targetType,
+    targetId: form.targetId,
+    subjectUserId: subject.id,
+    reportIds: reports.map((r) => r.id),
+    note: note || undefined,
+    suspendedUntil,
+    createdAt: now,
+  }
+  tables.moderationActions.push(action)
+  if (form.type !== 'dismiss') notifyModeration(tables, action, target.link)
+  return action
+}
@@ -0,0 +1,309 @@
+/**
+ * ============================================================================
+ * STEP 2.6: Mock Notifications - Creating Notifications from Actions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.10 (every type, mutes, live events)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests, blocked and muted users)
+ * UPDATED: Feature Phase - Step 2.15 (moderation notices)
+ * UPDATED: Feature Phase - Step 2.18 (reposts and quotes)
+ * PURPOSE: One place where handlers record "something happened to you"
+ *
+ * How It Works:
+ * - Handlers call these helpers after changing their own tables; the helpers
+ *   push rows into the notifications table (the caller still commits)
+ * - Nobody is ever notified about their own action
+ * - Types the recipient muted (NotificationPreferences) are never created
+ * - Nor are notifications between users who blocked each other, or from a
+ *   user the recipient muted (isHiddenFrom, ./accessPolicy.ts)
+ * - Liking, reposting or following again after undoing it does not notify
+ *   twice
+ *
+ * Which Action Creates What:
+ * - like: a post or comment is liked → its author (commentId for comments)
+ * - comment: a comment on a post → the post's author
+ * - mention: @username in a new post, an edited post or a comment
+ * - follow: a new follower → the followed user
+ * - repost: a post is reposted → its author (linking to the post itself)
+ * - quote: a post is quoted → its author (linking to the quote)
+ * - follow_request: a request to follow a private account → its owner
+ * - message: a chat message → every other participant
+ * - moderation: a moderator acted on your content or account → you. These
+ *   skip every check above: they cannot be muted, and blocking the
+ *   moderator does not stop them (the UI never shows who the moderator was)
+ *
+ * Live Delivery (Step 2.10):
+ * - Creating or reading notifications emits a NotificationEvent to
+ *   subscribeToNotifications() listeners; the chat hub forwards them to
+ *   the recipient's open connections
+ *
+ * LEARNING NOTES:
+ * - A real backend would usually do this asynchronously (a queue or event
+ *   listener) so a slow notification write never delays the post itself
+ */
+
+import type { Comment, Message, ModerationAction, Notification, NotificationType } from '../../types'
+import { createId } from '../../utils/ids'
+import { extractMentions } from '../../utils/textEntities'
+import { canViewPost, isHiddenFrom } from './accessPolicy'
+import type { ConversationRecord, MockTables, PostRecord, UserRecord } from './database'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * NewNotification - Fields the caller provides; the rest are filled in
+ */
+export type NewNotification = Omit<Notification, 'id' | 'isRead' | 'createdAt' | 'targetDeleted'>
+
+/**
+ * NotificationTables - The tables notifications are written to
+ */
+export type NotificationTables = Pick<MockTables, 'notifications' | 'notificationPreferences' | 'blocks' | 'mutes'>
+
+/**
+ * NotificationEvent - What subscribers hear about
+ * - created: A notification was stored for notification.userId
+ * - read: These notifications of `userId` were marked read
+ */
+export type NotificationEvent =
+  | { type: 'created'; notification: Notification }
+  | { type: 'read'; userId: string; notificationIds: string[] }
+
+/** Types where repeating the action (unlike, like again) must not notify again */
+const ONCE_ONLY: NotificationType[] = ['like', 'follow', 'follow_request', 'repost']
+
+// ============================================================================
+// LIVE EVENTS
+// ============================================================================
+
+const listeners = new Set<(event: NotificationEvent) => void>()
+
+/**
+ * subscribeToNotifications - Hears every created/read notification
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToNotifications(listener: (event: NotificationEvent) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function emit(event: NotificationEvent): void {
+  for (const listener of listeners) listener(event)
+}
+
+// ============================================================================
+// CORE
+// ============================================================================
+
+/**
+ * isMuted - Whether the user turned this notification type off
+ */
+export function isMuted(tables: NotificationTables, userId: string, type: NotificationType): boolean {
+  const preferences = tables.notificationPreferences.find((p) => p.userId === userId)
+  return preferences?.muted.includes(type) ?? false
+}
+
+/**
+ * addNotification - Records a notification unless it is self-inflicted,
+ * muted, between users hidden from each other, or a repeat of a like /
+ * follow the user was already told about
+ */
+export function addNotification(tables: NotificationTables, notification: NewNotification): Notification | null {
+  if (notification.userId === notification.fromUserId) return null
+  if (isMuted(tables, notification.userId, notification.type)) return null
+  if (isHiddenFrom(tables, notification.userId, notification.fromUserId)) return null
+  if (
+    ONCE_ONLY.includes(notification.type) &&
+    tables.notifications.some(
+      (n) =>
+        n.userId === notification.userId &&
+        n.type === notification.type &&
+        n.fromUserId === notification.fromUserId &&
+        n.postId === notification.postId &&
+        n.commentId === notification.commentId,
+    )
+  ) {
+    return null
+  }
+
+  const created: Notification = {
+    ...notification,
+    id: createId('notif'),
+    isRead: false,
+    createdAt: new Date(),
+  }
+  tables.notifications.push(created)
+  emit({ type: 'created', notification: created })
+  return created
+}
+
+/**
+ * markNotificationsRead - Marks the user's unread notifications that match
+ *
+ * @returns IDs that changed (empty when there was nothing to do)
+ */
+export function markNotificationsRead(
+  tables: NotificationTables,
+  userId: string,
+  matches: (notification: Notification) => boolean = () => true,
+): string[] {
+  const notificationIds: string[] = []
+  for (const notification of tables.notifications) {
+    if (notification.userId === userId && !notification.isRead && matches(notification)) {
+      notification.isRead = true
+      notificationIds.push(notification.id)
+    }
+  }
+  if (notificationIds.length) emit({ type: 'read', userId, notificationIds })
+  return notificationIds
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+/**
+ * mentionedUsers - Users @mentioned in `content` who can see the post
+ *
+ * Users who cannot see the post (e.g. a followers-only post mentioning a
+ * non-follower) are skipped: the link would lead them nowhere.
+ */
+function mentionedUsers(tables: MockTables, post: PostRecord, content: string, previousContent: string) {
+  const already = new Set(extractMentions(previousContent))
+  return extractMentions(content)
+    .filter((username) => !already.has(username))
+    .map((username) => tables.users.find((u) => u.username.toLowerCase() === username))
+    .filter((user): user is UserRecord => user !== undefined && canViewPost(tables, user, post))
+}
+
+/**
+ * notifyMentions - Sends a 'mention' notification to each user @mentioned
+ * in a post
+ *
+ * @param previousContent - For edits: users already mentioned in the old
+ *   text are skipped, so fixing a typo does not notify everyone again
+ */
+export function notifyMentions(tables: MockTables, post: PostRecord, previousContent = ''): void {
+  for (const user of mentionedUsers(tables, post, post.content, previousContent)) {
+    addNotification(tables, { userId: user.id, type: 'mention', fromUserId: post.authorId, postId: post.id })
+  }
+}
+
+/**
+ * notifyLike - Tells the author of the liked post (or comment)
+ */
+export function notifyLike(tables: MockTables, likerId: string, post: PostRecord, comment?: Comment): void {
+  addNotification(tables, {
+    userId: comment?.authorId ?? post.authorId,
+    type: 'like',
+    fromUserId: likerId,
+    postId: post.id,
+    commentId: comment?.id,
+  })
+}
+
+/**
+ * notifyComment - Tells the post's author, and anyone @mentioned in the
+ * comment (except the post's author, who already heard about it)
+ */
+export function notifyComment(tables: MockTables, post: PostRecord, comment: Comment): void {
+  const link = { fromUserId: comment.authorId, postId: post.id, commentId: comment.id }
+  addNotification(tables, { ...link, userId: post.authorId, type: 'comment' })
+  for (const user of mentionedUsers(tables, post, comment.content, '')) {
+    if (user.id !== post.authorId) addNotification(tables, { ...link, userId: user.id, type: 'mention' })
+  }
+}
+
+/**
+ * notifyShare - Tells the original's author about a repost or quote
+ *
+ * A repost links to the original (it has nothing else to show); a quote
+ * links to the quote, which embeds the original.
+ */
+export function notifyShare(tables: NotificationTables, share: PostRecord, original: PostRecord): void {
+  addNotification(tables, {
+    userId: original.authorId,
+    type: share.repostOf ? 'repost' : 'quote',
+    fromUserId: share.authorId,
+    postId: share.repostOf ? original.id : share.id,
+  })
+}
+
+/**
+ * notifyFollow - Tells a user they have a new follower
+ */
+export function notifyFollow(tables: NotificationTables, followerId: string, followeeId: string): void {
+  addNotification(tables, { userId: followeeId, type: 'follow', fromUserId: followerId })
+}
+
+/**
+ * notifyFollowRequest - Tells the owner of a private account someone asked
+ * to follow them
+ */
+export function notifyFollowRequest(tables: NotificationTables, requesterId: string, targetId: string): void {
+  addNotification(tables, { userId: targetId, type: 'follow_request', fromUserId: requesterId })
+}
+
+/**
+ * notifyMessage - Tells every other participant about a new chat message
+ *
+ * System messages (group changes) are not notifications; the group shows
+ * them in the thread.
+ */
+export function notifyMessage(tables: NotificationTables, conversation: ConversationRecord, message: Message): void {
+  if (message.type === 'system') return
+  for (const userId of conversation.participants) {
+    addNotification(tables, {
+      userId,
+      type: 'message',
+      fromUserId: message.senderId,
+      messageId: message.id,
+      conversationId: conversation.id,
+    })
+  }
+}
+
+/**
+ * readMessageNotifications - Reading a conversation also reads its
+ * 'message' notifications, so the two badges never disagree
+ */
+export function readMessageNotifications(tables: NotificationTables, userId: string, conversationId: string): void {
+  markNotificationsRead(tables, userId, (n) => n.type === 'message' && n.conversationId === conversationId)
+}
+
+/**
+ * notifyModeration - Tells the subject of a moderation action what happened
+ *
+ * Stored directly instead of through addNotification, so none of its
+ * filters apply (see the header).
+ */
+export function notifyModeration(
+  tables: NotificationTables,
+  action: ModerationAction,
+  link: Pick<Notification, 'postId' | 'commentId' | 'messageId' | 'conversationId'>,
+): Notification {
+  const created: Notification = {
+    ...link,
+    id: createId('notif'),
+    userId: action.subjectUserId,
+    type: 'moderation',
+    fromUserId: action.moderatorId,
+    isRead: false,
+    createdAt: action.createdAt,
+    moderation: {
+      action: action.type,
+      targetType: action.targetType,
+      note: action.note,
+      suspendedUntil: action.suspendedUntil,
+    },
+  }
+  tables.notifications.push(created)
+  emit({ type: 'created', notification: created })
+  return created
+}
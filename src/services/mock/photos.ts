@@ -0,0 +1,75 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Mock Photos - Profile Pictures, Cover Photos, Group Photos
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Let an uploaded image become the one photo of a user or group,
+ *          and let go of the photo it replaces
+ *
+ * The Flow:
+ * 1. The client uploads the image with purpose 'avatar', 'cover' or
+ *    'group' (./media.ts), so its metadata is stripped like any other
+ * 2. It sends the asset's URL as the new avatar, coverImage or groupImage
+ * 3. imageError checks the URL; replaceImage attaches the upload to its
+ *    target and hands back the files of the previous photo to delete
+ *
+ * Targets:
+ * - A group photo is attached to the conversation id
+ * - Profile photos to "<user id>/<purpose>" (photoTarget), since a user
+ *   has two
+ *
+ * LEARNING NOTES:
+ * - Nothing here touches file storage, so the synchronous group changes
+ *   (./groups.ts, shared with the chat hub) can use it; deleting the
+ *   files is left to callers that have the storage
+ */
+
+import type { MediaPurpose } from '../../types'
+import type { FieldError } from '../../validation'
+import type { MockTables } from './database'
+
+/**
+ * photoTarget - attachedTo of a user's profile picture or cover photo
+ */
+export function photoTarget(userId: string, purpose: MediaPurpose): string {
+  return `${userId}/${purpose}`
+}
+
+/**
+ * imageError - Why the upload at `url` cannot become the `purpose` photo
+ * of `targetId`, or null when it can
+ *
+ * Only the owner's own unused uploads for that purpose qualify (or the
+ * photo the target already has), so a photo is never a data URL, someone
+ * else's file or an image from the web that skipped metadata stripping.
+ */
+export function imageError(
+  tables: Pick<MockTables, 'media'>,
+  ownerId: string,
+  url: string,
+  purpose: MediaPurpose,
+  targetId: string,
+): FieldError | null {
+  const record = tables.media.find((m) => m.url === url)
+  if (record?.attachedTo === targetId) return null
+  if (!record || record.ownerId !== ownerId || record.purpose !== purpose || record.attachedTo) {
+    return { code: 'invalid_format', message: 'The image was not uploaded. Please choose it again.' }
+  }
+  return null
+}
+
+/**
+ * replaceImage - Makes the upload at `url` the photo of `targetId`, or
+ * leaves it without one; check imageError first
+ *
+ * Returns the storage keys of the photo it replaced; the caller deletes
+ * those files once the change is saved.
+ */
+export function replaceImage(tables: Pick<MockTables, 'media'>, url: string | undefined, targetId: string): string[] {
+  const replaced = tables.media.filter((m) => m.attachedTo === targetId && m.url !== url)
+  tables.media = tables.media.filter((m) => !replaced.includes(m))
+  const record = url ? tables.media.find((m) => m.url === url) : undefined
+  if (record) record.attachedTo = targetId
+  return replaced.flatMap((m) => m.storageKeys)
+}
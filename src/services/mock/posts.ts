@@ -0,0 +1,168 @@
+/**
+ * ============================================================================
+ * STEP 2.18: Mock Posts - Reposts, Quotes, Revisions and Deletion
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.18 (Reposts, quote posts, edit history)
+ * PURPOSE: The post changes that touch more than one row, so the handlers
+ *          stay thin and every path keeps the tables consistent
+ *
+ * Reposts & Quotes:
+ * - Both are posts of their own: they have an author, appear in that
+ *   author's followers' feeds and can be deleted like any post
+ * - A repost has no content and points at the original (repostOf); a quote
+ *   has its own text and points at the post it quotes (quoteOf)
+ * - Sharing a repost shares its original, so chains never form
+ * - Only public posts of public accounts can be shared: a followers-only
+ *   post must not reach the sharer's followers
+ * - Post.shares is derived: syncShareCount recounts the reposts and quotes
+ *   of a post whenever one is created or deleted
+ *
+ * Revisions:
+ * - An edit stores the version it replaces (recordRevision); the post
+ *   itself always holds the current version
+ *
+ * Deletion (deletePost):
+ * - Takes the post's reposts, comments, revisions, media and the
+ *   notifications pointing at any of them along. Quotes stay: their author
+ *   wrote something, and they show "original removed" instead
+ * - Moderation notices stay too: they tell the author what happened,
+ *   whether or not the post still exists
+ *
+ * LEARNING NOTES:
+ * - A real database would run deletePost in one transaction; the mock has
+ *   no concurrent writers, so plain array filters are enough
+ */
+
+import type { PostRevision } from '../../types'
+import { ApiError } from '../api/errors'
+import { createId } from '../../utils/ids'
+import type { MediaStorage } from '../media/storage'
+import { canViewPost } from './accessPolicy'
+import type { MockTables, PostRecord, UserRecord } from './database'
+import { findOrThrow } from './helpers'
+import { deleteAttachedMedia } from './media'
+import { notifyShare } from './notify'
+
+// ============================================================================
+// SHARING
+// ============================================================================
+
+/**
+ * resolveShareTarget - The post a repost or quote of `postId` points at
+ *
+ * @throws ApiError NOT_FOUND if the viewer cannot see it, FORBIDDEN if it
+ *         may not be shared (not public, or moderated)
+ */
+export function resolveShareTarget(tables: MockTables, viewer: UserRecord, postId: string): PostRecord {
+  const post = findOrThrow(tables.posts, postId, 'Post')
+  const original = post.repostOf ? findOrThrow(tables.posts, post.repostOf, 'Post') : post
+  if (!canViewPost(tables, viewer, original)) throw new ApiError('NOT_FOUND', 'Post not found.')
+
+  const author = tables.users.find((u) => u.id === original.authorId)
+  if (original.audience !== 'public' || author?.isPrivate) {
+    throw new ApiError('FORBIDDEN', 'Only public posts can be shared.')
+  }
+  if (original.moderation) throw new ApiError('FORBIDDEN', 'This post cannot be shared.')
+  return original
+}
+
+/**
+ * findRepost - The user's repost of a post, if they reposted it
+ */
+export function findRepost(tables: Pick<MockTables, 'posts'>, userId: string, originalId: string) {
+  return tables.posts.find((p) => p.repostOf === originalId && p.authorId === userId)
+}
+
+/**
+ * sharesOf - The reposts and quotes of a post, in table order
+ */
+export function sharesOf(tables: Pick<MockTables, 'posts'>, originalId: string): PostRecord[] {
+  return tables.posts.filter((p) => p.repostOf === originalId || p.quoteOf === originalId)
+}
+
+/**
+ * syncShareCount - Sets Post.shares to the number of reposts and quotes
+ */
+export function syncShareCount(tables: Pick<MockTables, 'posts'>, originalId: string): void {
+  const original = tables.posts.find((p) => p.id === originalId)
+  if (original) original.shares = sharesOf(tables, originalId).length
+}
+
+/**
+ * repost - Reposts `original` as the viewer (once; again is a no-op)
+ *
+ * @returns Whether a repost was created
+ */
+export function repost(tables: MockTables, viewer: UserRecord, original: PostRecord): boolean {
+  if (findRepost(tables, viewer.id, original.id)) return false
+
+  const now = new Date()
+  const record: PostRecord = {
+    id: createId('post'),
+    authorId: viewer.id,
+    content: '',
+    repostOf: original.id,
+    likes: [],
+    shares: 0,
+    createdAt: now,
+    updatedAt: now,
+    audience: 'public',
+  }
+  tables.posts.push(record)
+  syncShareCount(tables, original.id)
+  notifyShare(tables, record, original)
+  return true
+}
+
+/**
+ * recordQuote - Counts and announces a newly created quote post
+ */
+export function recordQuote(tables: MockTables, quote: PostRecord, original: PostRecord): void {
+  syncShareCount(tables, original.id)
+  notifyShare(tables, quote, original)
+}
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/**
+ * recordRevision - Stores the current version of a post before an edit
+ */
+export function recordRevision(tables: Pick<MockTables, 'postRevisions'>, post: PostRecord): PostRevision {
+  const revision: PostRevision = {
+    id: createId('revision'),
+    postId: post.id,
+    content: post.content,
+    audience: post.audience,
+    tags: post.tags,
+    createdAt: post.editedAt ?? post.createdAt,
+  }
+  tables.postRevisions.push(revision)
+  return revision
+}
+
+// ============================================================================
+// DELETION
+// ============================================================================
+
+/**
+ * deletePost - Deletes a post with everything hanging off it (see header)
+ */
+export async function deletePost(tables: MockTables, storage: MediaStorage, post: PostRecord): Promise<void> {
+  const removed = new Set([post.id, ...tables.posts.filter((p) => p.repostOf === post.id).map((p) => p.id)])
+  const commentIds = new Set(tables.comments.filter((c) => removed.has(c.postId)).map((c) => c.id))
+
+  tables.posts = tables.posts.filter((p) => !removed.has(p.id))
+  tables.comments = tables.comments.filter((c) => !removed.has(c.postId))
+  tables.postRevisions = tables.postRevisions.filter((r) => !removed.has(r.postId))
+  tables.notifications = tables.notifications.filter(
+    (n) =>
+      n.type === 'moderation' || !((n.postId && removed.has(n.postId)) || (n.commentId && commentIds.has(n.commentId))),
+  )
+
+  const sharedId = post.repostOf ?? post.quoteOf
+  if (sharedId) syncShareCount(tables, sharedId)
+  await deleteAttachedMedia(tables, storage, post.id)
+}
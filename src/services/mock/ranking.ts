@@ -0,0 +1,54 @@
+/**
+ * ============================================================================
+ * STEP 2.5: Feed Ranking - Scoring Posts for the "Top" Feed
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.11 (engagement reused by search "popular")
+ * PURPOSE: Turn engagement and age into one sortable number
+ *
+ * The Formula (a "gravity" score, as used by many link aggregators):
+ *
+ *              likes × 1  +  comments × 2  +  shares × 3  +  1
+ *   score = -----------------------------------------------------
+ *                        (ageInHours + 2) ^ 1.5
+ *
+ * Why These Choices:
+ * - Comments and shares take more effort than a like, so they weigh more
+ * - "+ 1" lets a brand-new post with no engagement still rank above a
+ *   week-old one with no engagement
+ * - "+ 2" stops very fresh posts from dividing by almost zero
+ * - The 1.5 exponent makes popularity fade over roughly a day or two
+ *
+ * LEARNING NOTES:
+ * - `now` is a parameter (not Date.now() inside) so a feed can be ranked
+ *   "as of" a fixed moment; the feed cursor stores that moment, which keeps
+ *   page 2 consistent with page 1
+ */
+
+import type { Post } from '../../types'
+
+const LIKE_WEIGHT = 1
+const COMMENT_WEIGHT = 2
+const SHARE_WEIGHT = 3
+const GRAVITY = 1.5
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * engagement - Weighted interaction count, without any ageing
+ */
+export function engagement(post: Pick<Post, 'likes' | 'shares'>, commentCount: number): number {
+  return post.likes.length * LIKE_WEIGHT + commentCount * COMMENT_WEIGHT + post.shares * SHARE_WEIGHT
+}
+
+/**
+ * scorePost - Engagement score of a post at time `now`
+ */
+export function scorePost(
+  post: Pick<Post, 'likes' | 'shares' | 'createdAt'>,
+  commentCount: number,
+  now: number,
+): number {
+  const ageHours = Math.max(0, now - post.createdAt.getTime()) / HOUR_MS
+  return (engagement(post, commentCount) + 1) / Math.pow(ageHours + 2, GRAVITY)
+}
@@ -0,0 +1,110 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Router - Matching Requests to Handlers
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.17 (media storage in the request context)
+ * UPDATED: Feature Phase - Step 2.15 (requireAuthor for endpoints that create content)
+ * PURPOSE: A tiny Express-style router for the in-browser mock server
+ *
+ * How Matching Works:
+ * - Patterns use ':name' for dynamic segments, like React Router
+ * - '/posts/:id' matches '/posts/post-1' with params { id: 'post-1' }
+ * - Segment counts must be equal, so '/posts/:id/comments' never matches
+ *   '/posts/:id'
+ *
+ * LEARNING NOTES:
+ * - Handlers RETURN data on success and THROW ApiError on failure; the
+ *   server wraps both into ApiResponse envelopes
+ */
+
+import type { HttpMethod, QueryParams } from '../api/transport'
+import { ApiError } from '../api/errors'
+import type { MediaStorage } from '../media/storage'
+import type { MockDatabase, UserRecord } from './database'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * RequestContext - Everything a handler may need
+ * - media: Where uploaded files are kept (Step 2.17)
+ * - viewer: The signed-in user, or null for anonymous requests
+ * - requireViewer(): Returns the viewer or throws UNAUTHORIZED
+ * - requireAuthor(): requireViewer(), plus FORBIDDEN while the viewer is
+ *   suspended; used by the endpoints that create content (posting,
+ *   commenting, liking, messaging)
+ */
+export interface RequestContext {
+  db: MockDatabase
+  media: MediaStorage
+  params: Record<string, string>
+  query: QueryParams
+  body: unknown
+  viewer: UserRecord | null
+  requireViewer(): UserRecord
+  requireAuthor(): UserRecord
+}
+
+/**
+ * RouteHandler - Produces response data for a request
+ */
+export type RouteHandler = (context: RequestContext) => unknown
+
+/**
+ * MockRoute - Method + path pattern + handler
+ */
+export interface MockRoute {
+  method: HttpMethod
+  pattern: string
+  handler: RouteHandler
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * route - Shorthand for declaring a MockRoute
+ *
+ * @example route('GET', '/posts/:id', ({ params }) => findPost(params.id))
+ */
+export function route(method: HttpMethod, pattern: string, handler: RouteHandler): MockRoute {
+  return { method, pattern, handler }
+}
+
+/**
+ * matchPath - Returns params when `path` fits `pattern`, otherwise null
+ */
+export function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = path.split('/').filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    const expected = patternParts[i]
+    const actual = decodeURIComponent(pathParts[i])
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = actual
+    } else if (expected !== actual) {
+      return null
+    }
+  }
+  return params
+}
+
+/**
+ * bodyOf - Reads the request body as an object of the expected shape
+ *
+ * The cast is unchecked; handlers still validate the fields they use.
+ */
+export function bodyOf<T>(context: RequestContext): Partial<T> {
+  const { body } = context
+  if (body === null || typeof body !== 'object') {
+    throw new ApiError('VALIDATION', 'Request body must be an object.')
+  }
+  return body as Partial<T>
+}
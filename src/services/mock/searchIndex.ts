@@ -0,0 +1,283 @@
+/**
+ * ============================================================================
+ * STEP 2.11: Search Index - A Small Inverted Index with Typo Tolerance
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.11 (Search)
+ * PURPOSE: Find documents (users, posts) containing the words of a query,
+ *          ranked by how well they match
+ *
+ * How an Inverted Index Works:
+ * - Instead of scanning every document for every search, we keep a map
+ *   from each TERM to the documents that contain it ("postings"):
+ *     'react' → { post-1: 3, post-5: 1 }
+ * - The number is a weighted term frequency: a word in a heavy field
+ *   (username, tags) counts more than one in a light field (bio, content)
+ *
+ * Matching One Query Word (best match wins):
+ * - Exact:  'react' finds 'react'                         (quality 1)
+ * - Prefix: 'rea' finds 'react', 'reading'                (quality 0.75)
+ * - Typo:   'recat' finds 'react' (one edit; words of 8+ letters allow
+ *           two). Only for words of 4+ letters, where a typo is likelier
+ *           than a different word                         (quality 0.5 / 0.3)
+ *
+ * Scoring a Document:
+ * - Every query word must match (AND), otherwise the document is skipped
+ * - Each word adds quality × weighted frequency × idf, where
+ *   idf = ln(1 + documents / documents-with-the-term): rare words say more
+ *   about a document than common ones
+ *
+ * Tokens (tokenize() in utils/search.ts):
+ * - Lowercased, accents removed ("José" → "jose")
+ * - A leading # or @ is kept ("#react", "@alice") AND the bare word is
+ *   indexed too, so "#react" only finds tags while "react" finds both
+ *
+ * LEARNING NOTES:
+ * - set() compares a document's text with what was indexed before and
+ *   skips unchanged documents, so syncing a whole table is cheap
+ * - Prefix lookups binary-search a sorted list of every term, rebuilt
+ *   lazily after terms are added or removed
+ */
+
+import { tokenize } from '../../utils/search'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * SearchField - Text of one field and how much a match in it counts
+ */
+export interface SearchField {
+  text: string
+  weight: number
+}
+
+/**
+ * SearchMatch - A document that matched every query word
+ * - terms: Index terms that matched (for highlighting)
+ */
+export interface SearchMatch {
+  id: string
+  score: number
+  terms: string[]
+}
+
+/**
+ * SearchIndex - Documents in, ranked matches out
+ */
+export interface SearchIndex {
+  /** Adds or replaces a document (no-op if its fields are unchanged) */
+  set(id: string, fields: SearchField[]): void
+  remove(id: string): void
+  /** IDs of every indexed document */
+  ids(): string[]
+  /** Matches for the query, best first */
+  search(query: string): SearchMatch[]
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+const MAX_QUERY_TOKENS = 10
+const MAX_PREFIX_TERMS = 50
+
+const EXACT_QUALITY = 1
+const PREFIX_QUALITY = 0.75
+const TYPO_QUALITY = [1, 0.5, 0.3]
+
+/**
+ * indexTerms - '#react' is stored as '#react' and 'react'
+ */
+function indexTerms(token: string): string[] {
+  return /^[#@]/.test(token) ? [token, token.slice(1)] : [token]
+}
+
+/**
+ * editDistance - Optimal string alignment distance (insert, delete,
+ * substitute, swap two neighbours), giving up once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let before = new Array<number>(b.length + 1).fill(0)
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, before[j - 2] + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    before = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * sigilOf - '#', '@' or '' (a typo never turns a word into a tag)
+ */
+function sigilOf(term: string): string {
+  return /^[#@]/.test(term) ? term[0] : ''
+}
+
+/**
+ * maxTypos - How many edits a query word may be away from a term
+ */
+function maxTypos(word: string): number {
+  const letters = word.replace(/^[#@]/, '').length
+  if (letters >= 8) return 2
+  return letters >= 4 ? 1 : 0
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * createSearchIndex - An empty index
+ */
+export function createSearchIndex(): SearchIndex {
+  const postings = new Map<string, Map<string, number>>()
+  const documents = new Map<string, { signature: string; terms: string[] }>()
+  let sortedTerms: string[] | null = null
+
+  const remove = (id: string) => {
+    const document = documents.get(id)
+    if (!document) return
+    for (const term of document.terms) {
+      const docs = postings.get(term)
+      docs?.delete(id)
+      if (docs?.size === 0) {
+        postings.delete(term)
+        sortedTerms = null
+      }
+    }
+    documents.delete(id)
+  }
+
+  /** Index terms similar to one query word, with match quality */
+  const candidates = (word: string): Map<string, number> => {
+    const found = new Map<string, number>()
+    if (postings.has(word)) found.set(word, EXACT_QUALITY)
+
+    sortedTerms ??= [...postings.keys()].sort()
+    let low = 0
+    let high = sortedTerms.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (sortedTerms[mid] < word) low = mid + 1
+      else high = mid
+    }
+    for (let i = low, taken = 0; i < sortedTerms.length && taken < MAX_PREFIX_TERMS; i++) {
+      const term = sortedTerms[i]
+      if (!term.startsWith(word)) break
+      if (!found.has(term)) {
+        found.set(term, PREFIX_QUALITY)
+        taken++
+      }
+    }
+
+    const max = maxTypos(word)
+    if (max > 0) {
+      for (const term of postings.keys()) {
+        if (found.has(term) || sigilOf(term) !== sigilOf(word)) continue
+        const distance = editDistance(word, term, max)
+        if (distance <= max) found.set(term, TYPO_QUALITY[distance])
+      }
+    }
+    return found
+  }
+
+  return {
+    set(id, fields) {
+      const signature = fields.map((field) => `${field.weight}:${field.text}`).join('\u0000')
+      if (documents.get(id)?.signature === signature) return
+      remove(id)
+
+      const frequencies = new Map<string, number>()
+      for (const field of fields) {
+        for (const token of tokenize(field.text)) {
+          for (const term of indexTerms(token)) {
+            frequencies.set(term, (frequencies.get(term) ?? 0) + field.weight)
+          }
+        }
+      }
+      for (const [term, frequency] of frequencies) {
+        let docs = postings.get(term)
+        if (!docs) {
+          docs = new Map()
+          postings.set(term, docs)
+          sortedTerms = null
+        }
+        docs.set(id, frequency)
+      }
+      documents.set(id, { signature, terms: [...frequencies.keys()] })
+    },
+
+    remove,
+
+    ids() {
+      return [...documents.keys()]
+    },
+
+    search(query) {
+      const words = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TOKENS)
+      if (words.length === 0) return []
+
+      const results = new Map<string, { score: number; hits: number; terms: Set<string> }>()
+      for (const word of words) {
+        // Best contribution of this word to each document
+        const best = new Map<string, { score: number; term: string }>()
+        for (const [term, quality] of candidates(word)) {
+          const docs = postings.get(term) ?? new Map<string, number>()
+          const idf = Math.log(1 + documents.size / docs.size)
+          for (const [id, frequency] of docs) {
+            const score = quality * frequency * idf
+            if (score > (best.get(id)?.score ?? 0)) best.set(id, { score, term })
+          }
+        }
+        for (const [id, { score, term }] of best) {
+          const result = results.get(id) ?? { score: 0, hits: 0, terms: new Set<string>() }
+          result.score += score
+          result.hits++
+          result.terms.add(term)
+          results.set(id, result)
+        }
+      }
+
+      return [...results]
+        .filter(([, result]) => result.hits === words.length)
+        .map(([id, result]) => ({ id, score: result.score, terms: [...result.terms] }))
+        .sort((a, b) => b.score - a.score)
+    },
+  }
+}
+
+/**
+ * syncIndex - Makes the index hold exactly these items
+ *
+ * Unchanged items are skipped by set(), and items no longer in the list
+ * are removed, so calling this before every search keeps the index fresh.
+ */
+export function syncIndex<T extends { id: string }>(
+  index: SearchIndex,
+  items: T[],
+  toFields: (item: T) => SearchField[],
+): void {
+  const present = new Set<string>()
+  for (const item of items) {
+    present.add(item.id)
+    index.set(item.id, toFields(item))
+  }
+  for (const id of index.ids()) {
+    if (!present.has(id)) index.remove(id)
+  }
+}
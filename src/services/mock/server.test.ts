@@ -0,0 +1,434 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Mock Server Tests - Auth, Feed Cursors and Errors
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (tests against the stand-in servers)
+ * UPDATED: Feature Phase - Step 2.4 (other users are sent without account fields)
+ * UPDATED: Feature Phase - Step 2.14 (private follow lists stay out of user payloads)
+ * UPDATED: Feature Phase - Step 2.12 (follow counts instead of follow lists)
+ * UPDATED: Feature Phase - Step 2.15 (what a suspended user can still do)
+ * UPDATED: Feature Phase - Step 2.9 (clients cannot send system messages)
+ * UPDATED: Feature Phase - Step 2.17 (profile and group photos must be uploads)
+ * UPDATED: Feature Phase - Step 2.23 (an archive restores only its owner's content)
+ * UPDATED: Feature Phase - Step 2.23 (damaged or invalid archives, moderated exports)
+ * PURPOSE: Check the request lifecycle of the stand-in backend end to end:
+ *          tokens become viewers, cursors page without gaps or repeats,
+ *          and every failure arrives as the same envelope
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import type {
+  Account,
+  AccountArchive,
+  ArchiveImportSummary,
+  MediaPurpose,
+  PaginatedResponse,
+  Post,
+  User,
+} from '../../types'
+import { POST_AUDIENCES, POST_MAX_LENGTH } from '../../validation'
+import { createTestBackend, type TestBackend } from '../../test/mockBackend'
+
+let backend: TestBackend
+
+beforeEach(() => {
+  backend = createTestBackend()
+})
+
+// ============================================================================
+// AUTH
+// ============================================================================
+
+describe('auth', () => {
+  it('resolves a session token to its user', async () => {
+    const token = await backend.login('alice')
+    const response = await backend.request<Account>('GET', '/users/me', { token })
+    expect(response.success).toBe(true)
+    expect(response.data?.username).toBe('alice')
+  })
+
+  it('refuses signed-in routes without a token', async () => {
+    const response = await backend.request('GET', '/users/me')
+    expect(response).toMatchObject({ success: false, errorCode: 'UNAUTHORIZED' })
+  })
+
+  it('treats unknown and expired tokens as signed out', async () => {
+    expect(await backend.request('GET', '/users/me', { token: 'not-a-token' })).toMatchObject({
+      errorCode: 'UNAUTHORIZED',
+    })
+
+    const token = await backend.login('alice')
+    const session = backend.db.tables.sessions.find((s) => s.token === token)
+    session!.expiresAt = new Date(Date.now() - 1000)
+    expect(await backend.request('GET', '/users/me', { token })).toMatchObject({ errorCode: 'UNAUTHORIZED' })
+  })
+
+  it('rejects a wrong password', async () => {
+    await expect(backend.auth.login('alice@example.com', 'wrong-password')).rejects.toThrow()
+  })
+
+  it('ends the session on logout', async () => {
+    const token = await backend.login('alice')
+    await backend.auth.logout(token)
+    expect(await backend.request('GET', '/users/me', { token })).toMatchObject({ errorCode: 'UNAUTHORIZED' })
+  })
+})
+
+// ============================================================================
+// USER PAYLOADS
+// ============================================================================
+
+const ACCOUNT_FIELDS = ['email', 'role', 'suspendedUntil', 'emailVerifiedAt', 'locale']
+
+describe('user payloads', () => {
+  it('sends other users without their account fields, signed in or not', async () => {
+    const token = await backend.login('alice')
+    for (const options of [{}, { token }]) {
+      const responses = [
+        await backend.request('GET', '/users/user-carol', options),
+        await backend.request('GET', '/users/by-username/carol', options),
+        await backend.request('GET', '/users', { ...options, query: { q: 'car' } }),
+        await backend.request('GET', '/users', { ...options, query: { ids: 'user-carol,user-bob' } }),
+        await backend.request('GET', '/users/user-carol/followers', options),
+        await backend.request('GET', '/search', { ...options, query: { q: 'carol', type: 'users' } }),
+      ]
+      for (const response of responses) {
+        expect(response.success).toBe(true)
+        const payload = JSON.stringify(response.data)
+        expect(payload).toContain('"username"')
+        for (const field of ACCOUNT_FIELDS) expect(payload).not.toContain(`"${field}"`)
+      }
+    }
+  })
+
+  it('sends follow counts instead of follow lists', async () => {
+    const token = await backend.login('dave')
+    const responses = [
+      await backend.request<User>('GET', '/users/by-username/dave'),
+      await backend.request<User>('GET', '/users/me', { token }),
+    ]
+    for (const response of responses) {
+      expect(response.data).toMatchObject({ followersCount: 1, followingCount: 1 })
+      expect(response.data).not.toHaveProperty('followers')
+      expect(response.data).not.toHaveProperty('following')
+    }
+  })
+
+  it('sends the signed-in user their own account', async () => {
+    const token = await backend.login('carol')
+    const response = await backend.request<Account>('GET', '/users/me', { token })
+    expect(response.data).toMatchObject({ email: 'carol@example.com', role: 'moderator' })
+  })
+})
+
+// ============================================================================
+// SUSPENSION
+// ============================================================================
+
+describe('a suspended user', () => {
+  let token: string
+
+  beforeEach(async () => {
+    token = await backend.login('bob')
+    backend.db.tables.users.find((u) => u.username === 'bob')!.suspendedUntil = new Date(Date.now() + 86_400_000)
+  })
+
+  it('cannot post, comment, like or message', async () => {
+    const responses = [
+      await backend.request('POST', '/posts', { token, body: { content: 'Still here', audience: 'public' } }),
+      await backend.request('POST', '/posts/post-1/comments', { token, body: { content: 'Hi' } }),
+      await backend.request('POST', '/posts/post-1/like', { token }),
+      await backend.request('POST', '/posts/post-1/repost', { token }),
+      await backend.request('POST', '/conversations/conv-1/messages', { token, body: { content: 'Hi' } }),
+    ]
+    for (const response of responses) expect(response).toMatchObject({ success: false, errorCode: 'FORBIDDEN' })
+  })
+
+  it('can still follow, edit their profile and mark things read', async () => {
+    const responses = [
+      await backend.request('POST', '/users/user-carol/follow', { token }),
+      await backend.request('POST', '/notifications/read-all', { token }),
+    ]
+    for (const response of responses) expect(response.success).toBe(true)
+    await expect(backend.auth.updateProfile(token, { bio: 'Back soon' })).resolves.toMatchObject({ bio: 'Back soon' })
+  })
+})
+
+// ============================================================================
+// PHOTOS
+// ============================================================================
+
+/**
+ * upload - Stores a file as if `ownerId` had uploaded it; returns its URL
+ */
+async function upload(ownerId: string, purpose: MediaPurpose): Promise<string> {
+  const id = `media-${backend.db.tables.media.length + 1}`
+  const url = await backend.media.put(id, new Blob(['image']))
+  backend.db.tables.media.push({
+    id,
+    ownerId,
+    purpose,
+    fileName: `${id}.webp`,
+    mimeType: 'image/webp',
+    size: 5,
+    url,
+    createdAt: new Date(),
+    storageKeys: [id],
+  })
+  return url
+}
+
+describe('profile and group photos', () => {
+  it("accept only the user's own upload for that purpose", async () => {
+    const token = await backend.login('alice')
+    const refused = [
+      'data:image/png;base64,iVBORw0KGgo=',
+      'https://example.com/me.jpg',
+      await upload('user-bob', 'avatar'),
+      await upload('user-alice', 'post'),
+    ]
+    for (const avatar of refused) {
+      await expect(backend.auth.updateProfile(token, { avatar })).rejects.toMatchObject({
+        errors: { avatar: { code: 'invalid_format' } },
+      })
+    }
+    const avatar = await upload('user-alice', 'avatar')
+    await expect(backend.auth.updateProfile(token, { avatar })).resolves.toMatchObject({ avatar })
+  })
+
+  it('delete the file of the photo they replace', async () => {
+    const token = await backend.login('carol')
+    const first = await upload('user-carol', 'group')
+    const second = await upload('user-carol', 'group')
+    for (const groupImage of [first, second]) {
+      const response = await backend.request('PATCH', '/conversations/conv-hike', { token, body: { groupImage } })
+      expect(response.success).toBe(true)
+    }
+    expect(await backend.media.get('media-1')).toBeUndefined()
+    expect(await backend.media.get('media-2')).toBeDefined()
+
+    const response = await backend.request('PATCH', '/conversations/conv-hike', {
+      token,
+      body: { groupImage: 'data:image/png;base64,iVBORw0KGgo=' },
+    })
+    expect(response).toMatchObject({ success: false, errorCode: 'VALIDATION' })
+  })
+})
+
+// ============================================================================
+// ARCHIVE IMPORT
+// ============================================================================
+
+/**
+ * exportArchive - The fixture user's archive, as GET /archive sends it
+ */
+async function exportArchive(username: string): Promise<AccountArchive> {
+  const response = await backend.request<AccountArchive>('GET', '/archive', { token: await backend.login(username) })
+  return response.data!
+}
+
+/**
+ * registerFresh - A new account with no history, to import into
+ */
+async function registerFresh() {
+  const { token } = await backend.auth.register({
+    username: 'frank',
+    email: 'frank@example.com',
+    password: 'Correct-horse-1',
+    confirmPassword: 'Correct-horse-1',
+    firstName: 'Frank',
+    lastName: 'Miller',
+  })
+  return { token, frank: backend.db.tables.users.find((u) => u.username === 'frank')! }
+}
+
+describe('archive export', () => {
+  it('sends removed posts and messages without their text, as every other read does', async () => {
+    const { posts, messages, conversations } = backend.db.tables
+    const post = posts.find((p) => p.authorId === 'user-alice' && p.content)!
+    post.moderation = 'removed'
+    const shared = conversations.filter((c) => c.participants.includes('user-alice')).map((c) => c.id)
+    const message = messages.find((m) => shared.includes(m.conversationId) && m.senderId !== 'user-alice')!
+    message.moderation = 'removed'
+
+    const archive = await exportArchive('alice')
+    expect(archive.posts.find((p) => p.id === post.id)?.content).toBe('')
+    expect(archive.messages.find((m) => m.id === message.id)?.content).toBe('')
+  })
+})
+
+describe('archive import', () => {
+  it("restores only the owner's own content, as new", async () => {
+    const archive = await exportArchive('alice')
+    archive.posts = archive.posts.map((post) => ({ ...post, likes: ['user-bob'], moderation: 'hidden' }))
+    archive.posts.push({ ...archive.posts[0], id: 'post-quote', quoteOf: 'post-4' })
+    archive.messages = archive.messages.map((message) => ({ ...message, isRead: true }))
+
+    const { token, frank } = await registerFresh()
+    const response = await backend.request('POST', '/archive/import', { token, body: archive })
+    expect(response.success).toBe(true)
+
+    const { posts, conversations, messages } = backend.db.tables
+    const imported = posts.filter((p) => p.authorId === frank.id)
+    expect(imported.length).toBeGreaterThan(0)
+    expect(imported.every((p) => p.likes.length === 0 && p.moderation === undefined)).toBe(true)
+    // Dave is private, so his post-4 cannot be quoted
+    expect(imported.some((p) => p.quoteOf === 'post-4')).toBe(false)
+
+    const restored = conversations.filter((c) => c.participants.includes(frank.id))
+    expect(restored.length).toBeGreaterThan(0)
+    for (const conversation of restored) {
+      expect(conversation.participants).toEqual([frank.id])
+      if (conversation.isGroup) expect(conversation.admins).toEqual([frank.id])
+      const inside = messages.filter((m) => m.conversationId === conversation.id)
+      expect(inside.every((m) => m.senderId === frank.id && !m.isRead && m.type !== 'system')).toBe(true)
+    }
+  })
+
+  it('leaves every table untouched when one record is damaged, so a retry works', async () => {
+    const archive = await exportArchive('alice')
+    const damaged = structuredClone(archive)
+    damaged.conversations.at(-1)!.participants = undefined as unknown as string[]
+    const { token, frank } = await registerFresh()
+    // Sessions are left out: every request refreshes its own
+    const contentOf = () => JSON.stringify({ ...backend.db.tables, sessions: [] })
+    const before = contentOf()
+
+    const response = await backend.request('POST', '/archive/import', { token, body: damaged })
+    expect(response).toMatchObject({ success: false, errorCode: 'VALIDATION' })
+    expect(contentOf()).toBe(before)
+
+    expect((await backend.request('POST', '/archive/import', { token, body: archive })).success).toBe(true)
+    expect(backend.db.tables.posts.some((p) => p.authorId === frank.id)).toBe(true)
+  })
+
+  it('checks posts, comments and messages like new ones, and skips the ones that fail', async () => {
+    const archive = await exportArchive('alice')
+    const [first, second, third] = archive.posts.filter((p) => !p.repostOf)
+    first.content = 'x'.repeat(100_000)
+    second.audience = 'nonsense' as Post['audience']
+    third.content = 'Tagged #React'
+    third.tags = ['NOT normalized tag!!', '#CSS']
+    archive.comments[0].content = ' '
+    const ownMessages = archive.messages.filter((m) => m.senderId === archive.profile.id && m.type !== 'system')
+    ownMessages[0].content = ''
+
+    const { token, frank } = await registerFresh()
+    const response = await backend.request<ArchiveImportSummary>('POST', '/archive/import', { token, body: archive })
+    const othersMessages = archive.messages.length - ownMessages.length
+    expect(response.data?.skipped).toMatchObject({ posts: 2, comments: 1, messages: othersMessages + 1 })
+
+    const imported = backend.db.tables.posts.filter((p) => p.authorId === frank.id)
+    expect(imported.every((p) => p.content.length <= POST_MAX_LENGTH && POST_AUDIENCES.includes(p.audience))).toBe(true)
+    expect(imported.find((p) => p.content === 'Tagged #React')?.tags).toEqual(['react', 'css'])
+  })
+})
+
+// ============================================================================
+// FEED CURSORS
+// ============================================================================
+
+/**
+ * readFeed - Follows nextCursor until the last page; returns every page
+ */
+async function readFeed(token: string, mode: 'latest' | 'top', limit: number): Promise<Post[][]> {
+  const pages: Post[][] = []
+  let cursor: string | undefined
+  do {
+    const response = await backend.request<PaginatedResponse<Post>>('GET', '/feed', {
+      token,
+      query: { mode, limit, cursor },
+    })
+    expect(response.success).toBe(true)
+    pages.push(response.data!.data)
+    cursor = response.data!.pagination.nextCursor ?? undefined
+  } while (cursor && pages.length < 100)
+  return pages
+}
+
+describe('feed cursors', () => {
+  it.each(['latest', 'top'] as const)('pages through the %s feed without gaps or repeats', async (mode) => {
+    const token = await backend.login('bob')
+    const whole = await backend.request<PaginatedResponse<Post>>('GET', '/feed', { token, query: { mode, limit: 50 } })
+    const expected = whole.data!.data.map((post) => post.id)
+    expect(expected.length).toBeGreaterThan(2)
+
+    const pages = await readFeed(token, mode, 2)
+    expect(pages.every((page) => page.length <= 2)).toBe(true)
+    expect(pages.flat().map((post) => post.id)).toEqual(expected)
+  })
+
+  it('is not disturbed by a post arriving between pages', async () => {
+    const token = await backend.login('bob')
+    const first = await backend.request<PaginatedResponse<Post>>('GET', '/feed', {
+      token,
+      query: { mode: 'latest', limit: 2 },
+    })
+    await backend.request('POST', '/posts', { token, body: { content: 'Brand new', audience: 'public' } })
+
+    const second = await backend.request<PaginatedResponse<Post>>('GET', '/feed', {
+      token,
+      query: { mode: 'latest', limit: 2, cursor: first.data!.pagination.nextCursor! },
+    })
+    const firstIds = first.data!.data.map((post) => post.id)
+    expect(second.data!.data.some((post) => firstIds.includes(post.id))).toBe(false)
+    expect(second.data!.data.some((post) => post.content === 'Brand new')).toBe(false)
+  })
+
+  it('rejects a malformed cursor and a cursor from the other mode', async () => {
+    const token = await backend.login('bob')
+    expect(await backend.request('GET', '/feed', { token, query: { cursor: '%%%' } })).toMatchObject({
+      errorCode: 'VALIDATION',
+    })
+
+    const top = await backend.request<PaginatedResponse<Post>>('GET', '/feed', {
+      token,
+      query: { mode: 'top', limit: 1 },
+    })
+    const cursor = top.data!.pagination.nextCursor!
+    expect(await backend.request('GET', '/feed', { token, query: { mode: 'latest', cursor } })).toMatchObject({
+      errorCode: 'VALIDATION',
+    })
+  })
+})
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+describe('errors', () => {
+  it('answers an unknown route with NOT_FOUND', async () => {
+    expect(await backend.request('GET', '/no-such-thing')).toMatchObject({ success: false, errorCode: 'NOT_FOUND' })
+  })
+
+  it('answers a missing record with NOT_FOUND', async () => {
+    const token = await backend.login('alice')
+    expect(await backend.request('GET', '/posts/post-missing', { token })).toMatchObject({ errorCode: 'NOT_FOUND' })
+  })
+
+  it('reports invalid input per field', async () => {
+    const token = await backend.login('alice')
+    const response = await backend.request('POST', '/posts', { token, body: { content: '', audience: 'public' } })
+    expect(response).toMatchObject({ success: false, errorCode: 'VALIDATION' })
+    expect(response.fieldErrors?.content?.code).toBe('required')
+  })
+
+  it('refuses a system message from a client', async () => {
+    const token = await backend.login('alice')
+    const response = await backend.request('POST', '/conversations/conv-hike/messages', {
+      token,
+      body: { content: 'Carol left the group', type: 'system' },
+    })
+    expect(response).toMatchObject({ success: false, errorCode: 'VALIDATION' })
+    expect(response.fieldErrors?.type?.code).toBe('invalid_format')
+  })
+
+  it('turns an unexpected exception into INTERNAL', async () => {
+    const token = await backend.login('alice')
+    backend.db.tables.posts = null as never
+    const response = await backend.request('GET', '/posts', { token })
+    expect(response).toMatchObject({ success: false, errorCode: 'INTERNAL' })
+    expect(response.data).toBeUndefined()
+  })
+})
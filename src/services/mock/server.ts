@@ -0,0 +1,141 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Server - Answers ApiRequests In the Browser
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * UPDATED: Feature Phase - Step 2.15 (moderation routes, suspended users)
+ * UPDATED: Feature Phase - Step 2.17 (upload routes and their file storage)
+ * UPDATED: Feature Phase - Step 2.22 (sessions remember when they were last used)
+ * UPDATED: Feature Phase - Step 2.23 (account archive routes)
+ * PURPOSE: Behave like the real backend: routing, auth, errors, latency
+ *
+ * Request Lifecycle:
+ * 1. Wait `latencyMs` (so loading spinners are visible in development)
+ * 2. Resolve the session token to a viewer (or null)
+ * 3. Find the first route whose method and pattern match
+ * 4. Run the handler; wrap its return value as { success: true, data }
+ * 5. Convert anything thrown into a failure envelope (toErrorResponse)
+ *
+ * LEARNING NOTES:
+ * - A suspended viewer (Step 2.15) is refused by the handlers that create
+ *   content, through ctx.requireAuthor(); everything else still works
+ * - Handlers are grouped by resource in ./handlers; adding an endpoint means
+ *   adding one route() line to the right file
+ */
+
+import type { ApiResponse } from '../../types'
+import type { ApiRequest } from '../api/transport'
+import { ApiError, toErrorResponse } from '../api/errors'
+import type { MockDatabase, UserRecord } from './database'
+import { matchPath, type MockRoute, type RequestContext } from './router'
+import { userRoutes } from './handlers/users'
+import { postRoutes } from './handlers/posts'
+import { commentRoutes } from './handlers/comments'
+import { conversationRoutes } from './handlers/conversations'
+import { notificationRoutes } from './handlers/notifications'
+import { feedRoutes } from './handlers/feed'
+import { tagRoutes } from './handlers/tags'
+import { searchRoutes } from './handlers/search'
+import { moderationRoutes } from './handlers/moderation'
+import { mediaRoutes } from './handlers/media'
+import { archiveRoutes } from './handlers/archive'
+import { createMemoryMediaStorage, type MediaStorage } from '../media/storage'
+import { assertNotSuspended } from './moderation'
+
+/**
+ * ROUTES - Every endpoint the mock backend understands
+ */
+const ROUTES: MockRoute[] = [
+  ...userRoutes,
+  ...postRoutes,
+  ...commentRoutes,
+  ...conversationRoutes,
+  ...notificationRoutes,
+  ...feedRoutes,
+  ...tagRoutes,
+  ...searchRoutes,
+  ...moderationRoutes,
+  ...mediaRoutes,
+  ...archiveRoutes,
+]
+
+/**
+ * MockServerOptions
+ * - latencyMs: Artificial delay per request (default 150ms)
+ * - media: Where uploads are stored (default: in memory, Step 2.17)
+ */
+export interface MockServerOptions {
+  latencyMs?: number
+  media?: MediaStorage
+}
+
+/**
+ * MockServer - Handles one request at a time
+ */
+export interface MockServer {
+  handle(request: ApiRequest): Promise<ApiResponse<unknown>>
+}
+
+/**
+ * resolveViewer - Maps a session token to its (unexpired) user
+ *
+ * UPDATED: Step 2.22 - Also stamps the session's lastSeenAt; it is saved
+ * with the next commit, so reads alone do not write to storage
+ */
+function resolveViewer(db: MockDatabase, token: string | null | undefined): UserRecord | null {
+  if (!token) return null
+  const session = db.tables.sessions.find((s) => s.token === token)
+  if (!session || session.expiresAt.getTime() <= Date.now()) return null
+  session.lastSeenAt = new Date()
+  return db.tables.users.find((u) => u.id === session.userId) ?? null
+}
+
+/**
+ * createMockServer - Builds a MockServer over a MockDatabase
+ */
+export function createMockServer(db: MockDatabase, options: MockServerOptions = {}): MockServer {
+  const latencyMs = options.latencyMs ?? 150
+  const media = options.media ?? createMemoryMediaStorage()
+
+  return {
+    async handle(request) {
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs))
+      }
+
+      try {
+        for (const candidate of ROUTES) {
+          if (candidate.method !== request.method) continue
+          const params = matchPath(candidate.pattern, request.path)
+          if (!params) continue
+
+          const viewer = resolveViewer(db, request.token)
+          const context: RequestContext = {
+            db,
+            media,
+            params,
+            query: request.query ?? {},
+            body: request.body,
+            viewer,
+            requireViewer() {
+              if (!viewer) throw new ApiError('UNAUTHORIZED', 'You need to be logged in.')
+              return viewer
+            },
+            requireAuthor() {
+              if (!viewer) throw new ApiError('UNAUTHORIZED', 'You need to be logged in.')
+              assertNotSuspended(viewer)
+              return viewer
+            },
+          }
+
+          const data = await candidate.handler(context)
+          return { success: true, data }
+        }
+        throw new ApiError('NOT_FOUND', `No mock route for ${request.method} ${request.path}.`)
+      } catch (error) {
+        return toErrorResponse(error)
+      }
+    },
+  }
+}
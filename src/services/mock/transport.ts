@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * STEP 2.4: Mock Transport - Plugs the Mock Server Into the API Client
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * PURPOSE: A Transport that calls the in-browser MockServer
+ *
+ * Why Serialize Responses:
+ * - A real server's response crosses the network as JSON text, which turns
+ *   every Date into a string. The mock does the same round trip
+ *   (JSON.stringify → parseJson) so:
+ *   1. Date revival is exercised in development, not first in production
+ *   2. Callers get copies, and cannot mutate the mock tables by accident
+ *
+ * LEARNING NOTES:
+ * - Request bodies are passed through as-is, which lets File objects reach
+ *   the mock (a real server would receive them as multipart uploads)
+ */
+
+import type { ApiResponse } from '../../types'
+import { parseJson } from '../../utils/serialization'
+import type { Transport } from '../api/transport'
+import type { MockServer } from './server'
+
+/**
+ * createMockTransport - Transport backed by a MockServer
+ */
+export function createMockTransport(server: MockServer): Transport {
+  return {
+    async request<T>(request: Parameters<Transport['request']>[0]) {
+      const response = await server.handle(request)
+      return parseJson<ApiResponse<T>>(JSON.stringify(response))
+    },
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Chat Cache - Conversations, Messages and Unsent Messages
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Let ChatProvider show chats before the connection is up, and keep
+ *          messages written offline across a reload
+ *
+ * What Is Kept:
+ * - Conversations and their latest MESSAGES_PER_CONVERSATION messages, in
+ *   the same entity stores the REST cache uses (entityCache.ts)
+ * - chatOutbox: Messages sent while disconnected, keyed by their clientId.
+ *   ChatProvider re-sends them after the next 'ready'; the server ignores
+ *   clientIds it already stored, so a resend can never duplicate one
+ *
+ * LEARNING NOTES:
+ * - Everything is filtered by the signed-in user's id on the way out, so a
+ *   cache that has not been cleared yet (another user signed in a moment
+ *   ago) never leaks into their inbox
+ * - A cached conversation's lastMessage may be older than its newest cached
+ *   message (the message arrived live); load() moves it forward, so the
+ *   inbox preview matches the thread
+ */
+
+import type { Conversation, Message } from '../../types'
+import { parseJson } from '../../utils/serialization'
+import { createEntityCache } from './entityCache'
+import type { OfflineStorage, StoredRecord } from './storage'
+
+/** Newest messages kept per conversation; older ones are pruned on load */
+const MESSAGES_PER_CONVERSATION = 50
+
+/**
+ * QueuedMessageRecord - An unsent message in the chatOutbox store
+ */
+interface QueuedMessageRecord extends StoredRecord {
+  ownerId: string
+  json: string
+}
+
+/**
+ * CachedChat - What load() returns
+ * - queued: Unsent messages, oldest first; id and clientId are the same
+ */
+export interface CachedChat {
+  conversations: Conversation[]
+  messages: Message[]
+  queued: Message[]
+}
+
+const byCreatedAt = (a: Message, b: Message) => a.createdAt.getTime() - b.createdAt.getTime()
+
+/**
+ * createChatCache - Chat persistence over an OfflineStorage
+ */
+export function createChatCache(storage: OfflineStorage) {
+  const cache = createEntityCache(storage)
+
+  return {
+    /**
+     * load - The user's cached chats, newest MESSAGES_PER_CONVERSATION each
+     */
+    async load(userId: string): Promise<CachedChat> {
+      const conversations = (await cache.getAll<Conversation>('conversations')).filter((c) =>
+        c.participants.includes(userId),
+      )
+      const ids = new Set(conversations.map((c) => c.id))
+
+      const kept: Message[] = []
+      const pruned: string[] = []
+      const byConversation = new Map<string, Message[]>()
+      for (const message of await cache.getAll<Message>('messages')) {
+        if (!ids.has(message.conversationId)) continue
+        byConversation.set(message.conversationId, [...(byConversation.get(message.conversationId) ?? []), message])
+      }
+      for (const list of byConversation.values()) {
+        list.sort(byCreatedAt)
+        const cut = Math.max(0, list.length - MESSAGES_PER_CONVERSATION)
+        pruned.push(...list.slice(0, cut).map((m) => m.id))
+        kept.push(...list.slice(cut))
+      }
+      if (pruned.length) await cache.removeEntities('messages', pruned)
+
+      const withPreviews = conversations.map((conversation) => {
+        const newest = byConversation.get(conversation.id)?.at(-1)
+        const last = conversation.lastMessage
+        return newest && (!last || newest.createdAt > last.createdAt)
+          ? { ...conversation, lastMessage: newest, updatedAt: newest.createdAt }
+          : conversation
+      })
+
+      let queued: Message[] = []
+      try {
+        const records = await storage.getAll<QueuedMessageRecord>('chatOutbox')
+        queued = records
+          .filter((record) => record.ownerId === userId)
+          .map((record) => parseJson<Message>(record.json))
+          .filter((message) => ids.has(message.conversationId))
+          .sort(byCreatedAt)
+      } catch {
+        // Nothing queued that we can read
+      }
+
+      return { conversations: withPreviews, messages: kept, queued }
+    },
+
+    /**
+     * saveConversations - Stores conversations; `replace` also forgets the
+     * user's conversations that are not in the list (after a full sync)
+     */
+    async saveConversations(userId: string, conversations: Conversation[], replace = false): Promise<void> {
+      if (replace) {
+        const keep = new Set(conversations.map((c) => c.id))
+        const stale = (await cache.getAll<Conversation>('conversations'))
+          .filter((c) => c.participants.includes(userId) && !keep.has(c.id))
+          .map((c) => c.id)
+        await cache.removeEntities('conversations', stale)
+      }
+      await cache.putEntities('conversations', conversations)
+    },
+
+    async removeConversation(conversationId: string): Promise<void> {
+      await cache.removeEntities('conversations', [conversationId])
+    },
+
+    async saveMessages(messages: Message[]): Promise<void> {
+      await cache.putEntities('messages', messages)
+    },
+
+    /** Remembers an unsent message until its ack (or rejection) */
+    async queue(userId: string, message: Message): Promise<void> {
+      try {
+        await storage.put('chatOutbox', [{ key: message.id, ownerId: userId, json: JSON.stringify(message) }])
+      } catch {
+        // The in-memory outbox still sends it during this visit
+      }
+    },
+
+    async dequeue(clientId: string): Promise<void> {
+      try {
+        await storage.delete('chatOutbox', [clientId])
+      } catch {
+        // Already gone
+      }
+    },
+  }
+}
+
+export type ChatCache = ReturnType<typeof createChatCache>
@@ -0,0 +1,288 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Entity Cache - Normalized Copies of What the Server Sent
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Remember users, posts, comments, conversations and messages so
+ *          pages can open without a connection
+ *
+ * Normalization:
+ * - Each entity is stored ONCE, in its own store, keyed by id
+ * - A GET response is stored as a QUERY: the ids it returned, in order,
+ *   plus its pagination. Reading the query back looks the ids up again
+ * - So a post liked on its own page is also liked in the cached feed: both
+ *   queries point at the same record
+ * - Nested entities are stored too: the comments inside a Post and the
+ *   lastMessage of a Conversation
+ *
+ * Which GETs Are Cached (CACHEABLE_ROUTES):
+ * - Only routes that return entities of one kind: one, a list, or a page
+ * - Counts, preferences, search results and the moderation queue are
+ *   left alone; offline they fail like any other request
+ *
+ * Keeping Dates as Dates:
+ * - Records are stored as the JSON text a server would send and read back
+ *   with parseJson, so dates are revived by the same dateReviver as every
+ *   network response (utils/serialization.ts). IndexedDB could clone Date
+ *   objects itself, but then revival would depend on which code wrote the
+ *   record; one encoding keeps `createdAt` a Date on every path
+ *
+ * LEARNING NOTES:
+ * - Query keys start with the viewer's id: the same URL returns different
+ *   posts to different people, so one user's feed is never served to another
+ * - A query whose entities have partly disappeared (pruned, or removed
+ *   after a failed offline action) counts as a miss, never a partial page
+ */
+
+import type { Comment, Conversation, PaginatedResponse, Post } from '../../types'
+import { parseJson } from '../../utils/serialization'
+import type { OfflineStorage, StoreName, StoredRecord } from './storage'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * EntityKind - The stores that hold one record per entity
+ */
+export type EntityKind = Extract<StoreName, 'users' | 'posts' | 'comments' | 'conversations' | 'messages'>
+
+/**
+ * Entity - What every cached entity has in common
+ */
+export interface Entity {
+  id: string
+}
+
+/**
+ * JsonRecord - A stored entity or query: its key and its JSON text
+ */
+interface JsonRecord extends StoredRecord {
+  json: string
+}
+
+/**
+ * QueryShape - How a response carried its entities
+ * - one: `data` is a single entity
+ * - list: `data` is an array
+ * - page: `data` is a PaginatedResponse
+ */
+type QueryShape = 'one' | 'list' | 'page'
+
+/**
+ * CachedQuery - A GET response with the entities replaced by their ids
+ */
+interface CachedQuery {
+  kind: EntityKind
+  shape: QueryShape
+  ids: string[]
+  pagination?: PaginatedResponse<Entity>['pagination']
+  storedAt: Date
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * CACHEABLE_ROUTES - GET paths whose responses are entities of one kind
+ */
+const CACHEABLE_ROUTES: { pattern: RegExp; kind: EntityKind }[] = [
+  { pattern: /^\/feed$/, kind: 'posts' },
+  { pattern: /^\/posts$/, kind: 'posts' },
+  { pattern: /^\/posts\/[^/]+$/, kind: 'posts' },
+  { pattern: /^\/posts\/[^/]+\/comments(\/threads)?$/, kind: 'comments' },
+  { pattern: /^\/users$/, kind: 'users' },
+  { pattern: /^\/users\/by-username\/[^/]+$/, kind: 'users' },
+  { pattern: /^\/users\/[^/]+$/, kind: 'users' },
+  { pattern: /^\/users\/[^/]+\/(followers|following|mutuals)$/, kind: 'users' },
+  { pattern: /^\/conversations$/, kind: 'conversations' },
+  { pattern: /^\/conversations\/[^/]+$/, kind: 'conversations' },
+  { pattern: /^\/conversations\/[^/]+\/messages$/, kind: 'messages' },
+]
+
+/**
+ * cacheableKind - The entity kind a GET path returns, or null
+ */
+export function cacheableKind(path: string): EntityKind | null {
+  return CACHEABLE_ROUTES.find((route) => route.pattern.test(path))?.kind ?? null
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isEntity = (value: unknown): value is Entity =>
+  typeof value === 'object' && value !== null && typeof (value as Entity).id === 'string'
+
+const isPage = (value: unknown): value is PaginatedResponse<unknown> =>
+  typeof value === 'object' && value !== null && Array.isArray((value as PaginatedResponse<unknown>).data)
+
+const toRecord = (key: string, value: unknown): JsonRecord => ({ key, json: JSON.stringify(value) })
+
+/**
+ * nestedEntities - Entities carried inside another one
+ */
+function nestedEntities(kind: EntityKind, entity: Entity): { kind: EntityKind; entities: Entity[] }[] {
+  if (kind === 'posts') return [{ kind: 'comments', entities: (entity as Post).comments ?? [] }]
+  if (kind === 'conversations') {
+    const last = (entity as Conversation).lastMessage
+    return last ? [{ kind: 'messages', entities: [last] }] : []
+  }
+  return []
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+/**
+ * createEntityCache - Normalized entity storage over an OfflineStorage
+ *
+ * Every method swallows storage errors (quota exceeded, database closed):
+ * a cache that cannot be written is a miss later, never a crash now.
+ */
+export function createEntityCache(storage: OfflineStorage) {
+  const getEntity = async <T extends Entity>(kind: EntityKind, id: string): Promise<T | undefined> => {
+    try {
+      const record = await storage.get<JsonRecord>(kind, id)
+      return record && parseJson<T>(record.json)
+    } catch {
+      return undefined
+    }
+  }
+
+  const putEntities = async (kind: EntityKind, entities: Entity[]): Promise<void> => {
+    const byKind = new Map<EntityKind, Entity[]>([[kind, entities]])
+    for (const entity of entities) {
+      for (const nested of nestedEntities(kind, entity)) {
+        byKind.set(nested.kind, [...(byKind.get(nested.kind) ?? []), ...nested.entities])
+      }
+    }
+    try {
+      for (const [store, list] of byKind) {
+        await storage.put(
+          store,
+          list.map((entity) => toRecord(entity.id, entity)),
+        )
+      }
+    } catch {
+      // Storage unavailable - the next visit simply misses
+    }
+  }
+
+  return {
+    getEntity,
+    putEntities,
+
+    /** Every cached entity of one kind (used to rebuild chat state) */
+    async getAll<T extends Entity>(kind: EntityKind): Promise<T[]> {
+      try {
+        const records = await storage.getAll<JsonRecord>(kind)
+        return records.map((record) => parseJson<T>(record.json))
+      } catch {
+        return []
+      }
+    },
+
+    async removeEntities(kind: EntityKind, ids: string[]): Promise<void> {
+      try {
+        await storage.delete(kind, ids)
+      } catch {
+        // Nothing to remove
+      }
+    },
+
+    /**
+     * saveResponse - Stores a GET response's entities and the query itself
+     *
+     * Responses of any other shape (a count, an empty object) are ignored.
+     */
+    async saveResponse(key: string, kind: EntityKind, data: unknown): Promise<void> {
+      let query: CachedQuery
+      let entities: Entity[]
+      if (isPage(data) && data.data.every(isEntity)) {
+        entities = data.data
+        query = {
+          kind,
+          shape: 'page',
+          ids: entities.map((e) => e.id),
+          pagination: data.pagination,
+          storedAt: new Date(),
+        }
+      } else if (Array.isArray(data) && data.every(isEntity)) {
+        entities = data
+        query = { kind, shape: 'list', ids: entities.map((e) => e.id), storedAt: new Date() }
+      } else if (isEntity(data)) {
+        entities = [data]
+        query = { kind, shape: 'one', ids: [data.id], storedAt: new Date() }
+      } else {
+        return
+      }
+      await putEntities(kind, entities)
+      try {
+        await storage.put('queries', [toRecord(key, query)])
+      } catch {
+        // Storage unavailable
+      }
+    },
+
+    /**
+     * readResponse - Rebuilds a cached GET response, or undefined on a miss
+     */
+    async readResponse<T>(key: string): Promise<T | undefined> {
+      let query: CachedQuery
+      try {
+        const record = await storage.get<JsonRecord>('queries', key)
+        if (!record) return undefined
+        query = parseJson<CachedQuery>(record.json)
+      } catch {
+        return undefined
+      }
+      const entities = await Promise.all(query.ids.map((id) => getEntity(query.kind, id)))
+      if (entities.some((entity) => entity === undefined)) return undefined
+
+      if (query.shape === 'one') return entities[0] as T
+      if (query.shape === 'list') return entities as T
+      return { data: entities, pagination: query.pagination } as T
+    },
+
+    /**
+     * updateEntity - Reads, changes and writes back one cached entity
+     *
+     * @returns The changed entity, or undefined when it is not cached
+     */
+    async updateEntity<T extends Entity>(
+      kind: EntityKind,
+      id: string,
+      change: (entity: T) => T,
+    ): Promise<T | undefined> {
+      const entity = await getEntity<T>(kind, id)
+      if (!entity) return undefined
+      const next = change(entity)
+      await putEntities(kind, [next])
+      return next
+    },
+  }
+}
+
+export type EntityCache = ReturnType<typeof createEntityCache>
+
+/**
+ * withComment - A post with one comment added or replaced
+ *
+ * Posts carry their comments, so an offline comment has to appear in the
+ * cached post as well as in the comments store.
+ */
+export function withComment(post: Post, comment: Comment): Post {
+  const others = post.comments.filter((c) => c.id !== comment.id)
+  return { ...post, comments: [...others, comment] }
+}
+
+/**
+ * withoutComment - A post with one comment taken out
+ */
+export function withoutComment(post: Post, commentId: string): Post {
+  return { ...post, comments: post.comments.filter((c) => c.id !== commentId) }
+}
@@ -0,0 +1,20 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Offline Services - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Re-exports the storage, the caching/queueing transport and the
+ *          chat cache
+ */
+
+export { createMemoryStorage, createOfflineStorage } from './storage'
+export type { OfflineStorage, StoreName, StoredRecord } from './storage'
+export { createEntityCache } from './entityCache'
+export type { EntityCache, EntityKind } from './entityCache'
+export { isProvisionalId, matchOutboxRoute } from './outbox'
+export type { OutboxAction, OutboxConflict, OutboxEntry } from './outbox'
+export { createOfflineTransport } from './offlineTransport'
+export type { OfflineStatus, OfflineTransport, OfflineTransportOptions } from './offlineTransport'
+export { createChatCache } from './chatCache'
+export type { CachedChat, ChatCache } from './chatCache'
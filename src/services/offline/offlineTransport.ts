@@ -0,0 +1,573 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Offline Transport - Cache Reads, Queue Writes, Replay Later
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * UPDATED: Feature Phase - Step 2.18 (queued quote posts keep quoteOf)
+ * UPDATED: Feature Phase - Step 2.25 (queued posts keep their image descriptions)
+ * PURPOSE: Wrap any Transport so the app keeps working without a network
+ *
+ * Reads (GET):
+ * - Online: ask the server; cacheable responses are stored on the way back
+ * - Offline, or the server cannot be reached: answer from the entity cache.
+ *   A page never saved before fails as NETWORK, like it always did
+ *
+ * Writes:
+ * - Queueable actions (outbox.ts) made offline are stored in the outbox and
+ *   answered at once with the expected result: the liked post, or a
+ *   provisional comment/post marked `isPending`. The UI needs no changes
+ * - While older entries are still waiting, new actions queue behind them,
+ *   so "like, then unlike" can never reach the server in the wrong order
+ * - Anything else fails offline with a NETWORK error
+ *
+ * Replay (sync):
+ * - Runs when the browser comes back online, when a request succeeds while
+ *   entries wait, and after a viewer is set; one replay at a time
+ * - Entries go out oldest first with the CURRENT session token
+ *
+ * Conflict Handling:
+ * - Success: the server's copy replaces the optimistic one in the cache; a
+ *   created post/comment maps its provisional id to the real one
+ * - Likes are intents ("I like this"), and the server treats them as
+ *   idempotent, so replaying one that already happened is harmless
+ * - NETWORK / INTERNAL: the replay stops and the entry waits for the next
+ *   one (INTERNAL gives up after MAX_ATTEMPTS)
+ * - UNAUTHORIZED: the replay stops until the user signs in again
+ * - Any other refusal (the post was deleted, comments were closed, the
+ *   author blocked us, the text is no longer valid) is a CONFLICT: the
+ *   entry and everything that depends on it (a like on a post that was
+ *   never created) are dropped, the optimistic copy leaves the cache, and
+ *   the reason is reported in status.conflicts for the UI to show
+ *
+ * Whose Data:
+ * - setViewer() tells the transport who is signed in. When a different
+ *   user signs in, or the user signs out, the whole offline database is
+ *   cleared: cached posts and unsent actions belong to one person
+ *
+ * LEARNING NOTES:
+ * - This is a decorator: it implements Transport and wraps a Transport, so
+ *   ApiClient and every service stay unaware of it
+ * - getStatus() returns the same object until something changes, which is
+ *   what React's useSyncExternalStore requires of a snapshot
+ */
+
+import type { ApiResponse, Comment, Post, PostForm, User } from '../../types'
+import { extractHashtags, normalizeTag } from '../../utils/textEntities'
+import { validateCommentContent, validatePostForm } from '../../validation'
+import { createEmitter } from '../chat/emitter'
+import { toQueryString, type ApiRequest, type Transport } from '../api/transport'
+import type { NewComment } from '../data/commentsService'
+import { cacheableKind, createEntityCache, withComment, withoutComment, type EntityKind } from './entityCache'
+import {
+  createOutbox,
+  createProvisionalId,
+  matchOutboxRoute,
+  referencedIds,
+  rewriteIds,
+  type OutboxConflict,
+  type OutboxEntry,
+  type OutboxMatch,
+} from './outbox'
+import type { OfflineStorage, StoredRecord } from './storage'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * OfflineStatus - What the UI shows about connectivity and the outbox
+ * - isOnline: The browser is online and the last request reached the server
+ * - pendingCount: Actions waiting in the outbox
+ * - isSyncing: A replay is running
+ * - conflicts: Queued actions the server refused, until dismissed
+ */
+export interface OfflineStatus {
+  isOnline: boolean
+  pendingCount: number
+  isSyncing: boolean
+  conflicts: OutboxConflict[]
+}
+
+/**
+ * OfflineTransport - A Transport plus status and replay controls
+ */
+export interface OfflineTransport extends Transport {
+  getStatus(): OfflineStatus
+  /** Called after every status change; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void
+  /** Who is signed in (null after sign-out); clears another user's data */
+  setViewer(user: User | null): Promise<void>
+  /** Replays the outbox now (no-op while offline or already replaying) */
+  sync(): Promise<void>
+  dismissConflict(key: string): void
+}
+
+/**
+ * OfflineTransportOptions
+ * - storage: Where the cache and outbox live
+ * - getToken: Session token for replays (queued requests store none)
+ * - isBrowserOnline: Defaults to navigator.onLine
+ */
+export interface OfflineTransportOptions {
+  storage: OfflineStorage
+  getToken: () => string | null
+  isBrowserOnline?: () => boolean
+}
+
+/**
+ * MetaRecord - A small value in the meta store
+ */
+interface MetaRecord<T> extends StoredRecord {
+  value: T
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Replays that may fail with INTERNAL before the entry counts as refused */
+const MAX_ATTEMPTS = 3
+
+const OFFLINE_MESSAGE = 'You are offline. Try again once you are back online.'
+const NOT_SAVED_MESSAGE = 'You are offline, and this has not been saved on this device yet.'
+
+/** Entity store of the post or comment each action changes */
+const ACTION_KINDS: Record<OutboxMatch['action'], EntityKind> = {
+  'create-post': 'posts',
+  'like-post': 'posts',
+  'unlike-post': 'posts',
+  'add-comment': 'comments',
+  'like-comment': 'comments',
+  'unlike-comment': 'comments',
+}
+
+/** GET paths of one entity by id, answerable from the entity stores alone */
+const SINGLE_ENTITY_PATH = /^\/(?:posts|users|conversations)\/([^/]+)$/
+
+const navigatorOnline = () => typeof navigator === 'undefined' || navigator.onLine
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const withLike = <T extends { likes: string[] }>(entity: T, userId: string, liked: boolean): T => ({
+  ...entity,
+  likes: liked ? [...new Set([...entity.likes, userId])] : entity.likes.filter((id) => id !== userId),
+})
+
+/**
+ * provisionalPost - What the server would return for a new post
+ *
+ * Image Files are shown through object URLs until the real post arrives.
+ */
+function provisionalPost(form: PostForm, author: User): Post {
+  const now = new Date()
+  const tags = [...new Set([...extractHashtags(form.content), ...(form.tags ?? []).map(normalizeTag)])]
+  return {
+    id: createProvisionalId(),
+    authorId: author.id,
+    content: form.content.trim(),
+    images: form.images?.length ? form.images.map((file) => URL.createObjectURL(file)) : undefined,
+    imageAlts: form.imageAlts?.some((alt) => alt.trim()) ? form.imageAlts.map((alt) => alt.trim()) : undefined,
+    likes: [],
+    comments: [],
+    shares: 0,
+    createdAt: now,
+    updatedAt: now,
+    audience: form.audience,
+    tags: tags.length ? tags : undefined,
+    quoteOf: form.quoteOf,
+    isPending: true,
+  }
+}
+
+/**
+ * provisionalComment - What the server would return for a new comment
+ */
+function provisionalComment(postId: string, body: NewComment, author: User): Comment {
+  const now = new Date()
+  return {
+    id: createProvisionalId(),
+    postId,
+    authorId: author.id,
+    content: body.content.trim(),
+    likes: [],
+    createdAt: now,
+    updatedAt: now,
+    parentId: body.parentId || undefined,
+    isPending: true,
+  }
+}
+
+const validationFailure = <T>(fieldErrors: ApiResponse<T>['fieldErrors']): ApiResponse<T> => ({
+  success: false,
+  error: 'Please fix the highlighted fields.',
+  errorCode: 'VALIDATION',
+  fieldErrors,
+})
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+/**
+ * createOfflineTransport - Wraps `inner` with the cache and the outbox
+ */
+export function createOfflineTransport(inner: Transport, options: OfflineTransportOptions): OfflineTransport {
+  const { storage, getToken } = options
+  const isBrowserOnline = options.isBrowserOnline ?? navigatorOnline
+  const cache = createEntityCache(storage)
+  const outbox = createOutbox(storage)
+  const changes = createEmitter<void>()
+
+  let viewer: User | null = null
+  let isReachable = true
+  let idMap: Record<string, string> = {}
+  let replay: Promise<void> | null = null
+  let status: OfflineStatus = { isOnline: isBrowserOnline(), pendingCount: 0, isSyncing: false, conflicts: [] }
+
+  const setStatus = (change: Partial<OfflineStatus>) => {
+    const next = { ...status, ...change, isOnline: isBrowserOnline() && isReachable }
+    const keys = Object.keys(next) as (keyof OfflineStatus)[]
+    if (keys.every((key) => next[key] === status[key])) return
+    status = next
+    changes.emit()
+  }
+
+  const markReachable = (reachable: boolean) => {
+    isReachable = reachable
+    setStatus({})
+  }
+
+  const refreshPending = async () => {
+    setStatus({ pendingCount: viewer ? (await outbox.list(viewer.id)).length : 0 })
+  }
+
+  const queryKey = (request: ApiRequest) => `${viewer?.id ?? 'guest'} ${request.path}${toQueryString(request.query)}`
+
+  const mapIds = async (provisionalId: string, realId: string) => {
+    idMap = { ...idMap, [provisionalId]: realId }
+    try {
+      await storage.put('meta', [{ key: 'idMap', value: idMap } as MetaRecord<Record<string, string>>])
+    } catch {
+      // Kept in memory for this visit
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Optimistic results
+  // --------------------------------------------------------------------------
+
+  /**
+   * optimisticResult - The response a queued request stands in for
+   *
+   * @returns undefined when it cannot be built offline (the post or comment
+   *   was never cached), in which case the request fails instead
+   */
+  const optimisticResult = async (
+    match: OutboxMatch,
+    request: ApiRequest,
+    user: User,
+  ): Promise<ApiResponse<unknown> | undefined> => {
+    switch (match.action) {
+      case 'create-post': {
+        const form = request.body as PostForm
+        const validation = validatePostForm(form)
+        if (!validation.valid) return validationFailure(validation.errors)
+        const post = provisionalPost(form, user)
+        await cache.putEntities('posts', [post])
+        return { success: true, data: post }
+      }
+      case 'like-post':
+      case 'unlike-post': {
+        const liked = match.action === 'like-post'
+        const post = await cache.updateEntity<Post>('posts', match.targetId, (p) => withLike(p, user.id, liked))
+        return post && { success: true, data: post }
+      }
+      case 'add-comment': {
+        const body = request.body as NewComment
+        const error = validateCommentContent(body.content ?? '')
+        if (error) return validationFailure({ content: error })
+        const comment = provisionalComment(match.targetId, body, user)
+        const post = await cache.updateEntity<Post>('posts', match.targetId, (p) => withComment(p, comment))
+        if (!post) return undefined
+        await cache.putEntities('comments', [comment])
+        return { success: true, data: comment }
+      }
+      case 'like-comment':
+      case 'unlike-comment': {
+        const liked = match.action === 'like-comment'
+        const comment = await cache.updateEntity<Comment>('comments', match.targetId, (c) =>
+          withLike(c, user.id, liked),
+        )
+        if (!comment) return undefined
+        await cache.updateEntity<Post>('posts', comment.postId, (p) => withComment(p, comment))
+        return { success: true, data: comment }
+      }
+    }
+  }
+
+  /**
+   * enqueue - Stores a request in the outbox and answers it optimistically
+   *
+   * @returns undefined when no optimistic answer can be built
+   */
+  const enqueue = async <T>(request: ApiRequest, match: OutboxMatch): Promise<ApiResponse<T> | undefined> => {
+    const user = viewer
+    if (!user) return undefined
+    const result = await optimisticResult(match, request, user)
+    if (!result?.success) return result as ApiResponse<T> | undefined
+
+    const created = match.action === 'create-post' || match.action === 'add-comment'
+    await outbox.add({
+      ...match,
+      ownerId: user.id,
+      request: { method: request.method, path: request.path, query: request.query, body: request.body },
+      provisionalId: created ? (result.data as { id: string }).id : undefined,
+    })
+    await refreshPending()
+    if (isBrowserOnline()) void sync()
+    return result as ApiResponse<T>
+  }
+
+  // --------------------------------------------------------------------------
+  // Keeping the cache in step with successful writes
+  // --------------------------------------------------------------------------
+
+  /**
+   * rememberResult - Puts the server's answer to a write into the cache
+   *
+   * Edits and deletes of cacheable entities are applied too, so an offline
+   * visit never shows a post that was deleted online.
+   */
+  const rememberResult = async (request: Omit<ApiRequest, 'token'>, data: unknown, match: OutboxMatch | null) => {
+    if (match) {
+      const kind = ACTION_KINDS[match.action]
+      await cache.putEntities(kind, [data as Post | Comment])
+      if (kind === 'comments') {
+        const comment = data as Comment
+        await cache.updateEntity<Post>('posts', comment.postId, (p) => withComment(p, comment))
+      }
+      return
+    }
+    const kind = cacheableKind(request.path)
+    if (!kind) return
+    if (request.method === 'DELETE') {
+      await cache.removeEntities(kind, [decodeURIComponent(request.path.split('/').pop() ?? '')])
+    } else if (typeof data === 'object' && data !== null && 'id' in data) {
+      await cache.putEntities(kind, [data as Post])
+    }
+  }
+
+  /**
+   * settleEntry - Applies a successful replay to the cache and id map
+   */
+  const settleEntry = async (entry: OutboxEntry, data: unknown) => {
+    const { provisionalId } = entry
+    if (provisionalId) {
+      const real = data as Post | Comment
+      await mapIds(provisionalId, real.id)
+      await cache.removeEntities(ACTION_KINDS[entry.action], [provisionalId])
+      if (entry.action === 'add-comment') {
+        await cache.updateEntity<Post>('posts', (real as Comment).postId, (p) => withoutComment(p, provisionalId))
+      }
+    }
+    await rememberResult(entry.request, data, entry)
+  }
+
+  /**
+   * dropEntry - Removes a refused entry, its dependents and their
+   * optimistic copies, and reports the conflict
+   */
+  const dropEntry = async (entry: OutboxEntry, entries: OutboxEntry[], error: string) => {
+    const dropped = [entry]
+    const unsent = new Set(entry.provisionalId ? [entry.provisionalId] : [])
+    for (const other of entries) {
+      if (other.sequence > entry.sequence && referencedIds(other.request).some((id) => unsent.has(id))) {
+        dropped.push(other)
+        if (other.provisionalId) unsent.add(other.provisionalId)
+      }
+    }
+    await outbox.remove(dropped.map((e) => e.key))
+
+    for (const e of dropped) {
+      const target = idMap[e.targetId] ?? e.targetId
+      const id = e.provisionalId ?? target
+      // The optimistic copy is wrong now; the next online read brings the truth
+      await cache.removeEntities(ACTION_KINDS[e.action], [id])
+      if (e.action === 'add-comment') {
+        await cache.updateEntity<Post>('posts', target, (p) => withoutComment(p, id))
+      }
+    }
+    setStatus({
+      conflicts: [...status.conflicts, { key: entry.key, action: entry.action, error, createdAt: entry.createdAt }],
+    })
+  }
+
+  // --------------------------------------------------------------------------
+  // Replay
+  // --------------------------------------------------------------------------
+
+  /**
+   * replayEntry - Sends one entry
+   *
+   * @returns false when the replay has to stop (offline, signed out, or
+   *   the server is having trouble)
+   */
+  const replayEntry = async (entry: OutboxEntry, entries: OutboxEntry[]): Promise<boolean> => {
+    const token = getToken()
+    if (!token || !isBrowserOnline()) return false
+
+    const request = rewriteIds(entry.request, idMap)
+    if (referencedIds(request).length > 0) {
+      await dropEntry(entry, entries, 'What it belonged to could not be saved.')
+      return true
+    }
+
+    let response: ApiResponse<unknown>
+    try {
+      response = await inner.request({ ...request, token })
+    } catch {
+      markReachable(false)
+      return false
+    }
+    markReachable(true)
+
+    if (response.success) {
+      await outbox.remove([entry.key])
+      await settleEntry(entry, response.data)
+      return true
+    }
+    switch (response.errorCode) {
+      case 'UNAUTHORIZED':
+      case 'NETWORK':
+        return false
+      case 'INTERNAL':
+        if (entry.attempts + 1 < MAX_ATTEMPTS) {
+          await outbox.update({ ...entry, attempts: entry.attempts + 1 })
+          return false
+        }
+        break
+    }
+    await dropEntry(entry, entries, response.error ?? 'The server refused it.')
+    return true
+  }
+
+  const sync = (): Promise<void> => {
+    const user = viewer
+    if (replay || !user || !isBrowserOnline()) return replay ?? Promise.resolve()
+    replay = (async () => {
+      setStatus({ isSyncing: true })
+      try {
+        const entries = await outbox.list(user.id)
+        for (const entry of entries) {
+          // A dependent dropped earlier in this loop is no longer stored
+          if (!(await storage.get('outbox', entry.key))) continue
+          if (!(await replayEntry(entry, entries))) break
+        }
+      } finally {
+        replay = null
+        await refreshPending()
+        setStatus({ isSyncing: false })
+      }
+    })()
+    return replay
+  }
+
+  // --------------------------------------------------------------------------
+  // Requests
+  // --------------------------------------------------------------------------
+
+  const read = async <T>(request: ApiRequest): Promise<ApiResponse<T>> => {
+    const kind = cacheableKind(request.path)
+    const key = queryKey(request)
+    const fromCache = async (error: unknown): Promise<ApiResponse<T>> => {
+      let data: T | undefined = kind ? await cache.readResponse<T>(key) : undefined
+      // A post never opened on its own (e.g. one written offline) may still
+      // be cached from a list
+      const single = SINGLE_ENTITY_PATH.exec(request.path)
+      if (data === undefined && kind && single)
+        data = (await cache.getEntity(kind, decodeURIComponent(single[1]))) as T | undefined
+      if (data === undefined) throw error
+      return { success: true, data }
+    }
+
+    if (!isBrowserOnline()) return fromCache(new Error(NOT_SAVED_MESSAGE))
+    let response: ApiResponse<T>
+    try {
+      response = await inner.request<T>(rewriteIds(request, idMap))
+    } catch (error) {
+      markReachable(false)
+      return fromCache(error)
+    }
+    markReachable(true)
+    if (kind && response.success && response.data !== undefined) await cache.saveResponse(key, kind, response.data)
+    if (status.pendingCount > 0) void sync()
+    return response
+  }
+
+  const write = async <T>(request: ApiRequest): Promise<ApiResponse<T>> => {
+    const match = matchOutboxRoute(request)
+    const mustWait =
+      !isBrowserOnline() || status.pendingCount > 0 || referencedIds(rewriteIds(request, idMap)).length > 0
+    if (match && mustWait) {
+      const queued = await enqueue<T>(request, match)
+      if (queued) return queued
+    }
+    if (!isBrowserOnline()) throw new Error(match ? NOT_SAVED_MESSAGE : OFFLINE_MESSAGE)
+
+    let response: ApiResponse<T>
+    try {
+      response = await inner.request<T>(rewriteIds(request, idMap))
+    } catch (error) {
+      markReachable(false)
+      const queued = match ? await enqueue<T>(request, match) : undefined
+      if (queued) return queued
+      throw error
+    }
+    markReachable(true)
+    if (response.success) await rememberResult(request, response.data, match)
+    return response
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      isReachable = true
+      setStatus({})
+      void sync()
+    })
+    window.addEventListener('offline', () => setStatus({}))
+  }
+
+  return {
+    request: <T>(request: ApiRequest) => (request.method === 'GET' ? read<T>(request) : write<T>(request)),
+
+    getStatus: () => status,
+
+    subscribe: changes.subscribe,
+
+    async setViewer(user) {
+      viewer = user
+      const owner = await storage.get<MetaRecord<string | null>>('meta', 'owner').catch(() => undefined)
+      if ((owner?.value ?? null) !== (user?.id ?? null)) {
+        idMap = {}
+        await storage.clear().catch(() => undefined)
+        if (user)
+          await storage.put('meta', [{ key: 'owner', value: user.id } as MetaRecord<string>]).catch(() => undefined)
+        setStatus({ conflicts: [] })
+      } else {
+        const saved = await storage.get<MetaRecord<Record<string, string>>>('meta', 'idMap').catch(() => undefined)
+        idMap = saved?.value ?? {}
+      }
+      await refreshPending()
+      void sync()
+    },
+
+    sync,
+
+    dismissConflict(key) {
+      setStatus({ conflicts: status.conflicts.filter((conflict) => conflict.key !== key) })
+    },
+  }
+}
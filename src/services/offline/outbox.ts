@@ -0,0 +1,236 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Outbox - Actions Taken Offline, Waiting to Be Sent
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Remember likes, comments and posts made without a connection, in
+ *          order, until the server has them
+ *
+ * Which Requests Can Wait (OUTBOX_ROUTES):
+ * - POST   /posts                  → create-post
+ * - POST   /posts/:id/like         → like-post      (DELETE → unlike-post)
+ * - POST   /posts/:id/comments     → add-comment
+ * - POST   /comments/:id/like      → like-comment   (DELETE → unlike-comment)
+ * - Everything else (edits, deletes, follows, settings) needs the server's
+ *   answer to be meaningful, so it fails offline as before
+ * - Chat messages have their own queue (chatCache.ts)
+ *
+ * Merging:
+ * - A like and an unlike of the same thing cancel out: liking and
+ *   un-liking a post on the train sends nothing at all
+ * - Queuing the same like twice keeps one entry
+ *
+ * Provisional IDs:
+ * - A post or comment created offline gets a 'local-…' id at once, so the
+ *   UI can show it and later entries can refer to it (a reply to it, a
+ *   like on it). When the server answers, the real id is recorded in an
+ *   id map and every later request is rewritten (rewriteIds)
+ *
+ * LEARNING NOTES:
+ * - Entries are stored as they are (structured clone), not as JSON: a
+ *   queued post can carry image Files, which JSON cannot hold. Dates
+ *   survive structured cloning on their own
+ * - `sequence` keeps the original order even when two actions happen in
+ *   the same millisecond
+ */
+
+import { createId } from '../../utils/ids'
+import type { ApiRequest } from '../api/transport'
+import type { OfflineStorage, StoredRecord } from './storage'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * OutboxAction - The kinds of request that can be queued
+ */
+export type OutboxAction =
+  | 'create-post'
+  | 'like-post'
+  | 'unlike-post'
+  | 'add-comment'
+  | 'like-comment'
+  | 'unlike-comment'
+
+/**
+ * OutboxMatch - What a request does, and to which post or comment
+ * - targetId: The post (like, comment on) or comment (like) acted on;
+ *   empty for create-post
+ */
+export interface OutboxMatch {
+  action: OutboxAction
+  targetId: string
+}
+
+/**
+ * OutboxEntry - One queued request
+ * - request: Sent as-is on replay, with the token current at that time
+ * - provisionalId: The 'local-…' id handed out for a created post/comment
+ * - attempts: Replays that failed for a temporary reason (server error)
+ */
+export interface OutboxEntry extends StoredRecord, OutboxMatch {
+  ownerId: string
+  request: Omit<ApiRequest, 'token'>
+  provisionalId?: string
+  sequence: number
+  createdAt: Date
+  attempts: number
+}
+
+/**
+ * OutboxConflict - A queued action the server refused on replay
+ */
+export interface OutboxConflict {
+  key: string
+  action: OutboxAction
+  error: string
+  createdAt: Date
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const OUTBOX_ROUTES: { method: ApiRequest['method']; pattern: RegExp; action: OutboxAction }[] = [
+  { method: 'POST', pattern: /^\/posts$/, action: 'create-post' },
+  { method: 'POST', pattern: /^\/posts\/([^/]+)\/like$/, action: 'like-post' },
+  { method: 'DELETE', pattern: /^\/posts\/([^/]+)\/like$/, action: 'unlike-post' },
+  { method: 'POST', pattern: /^\/posts\/([^/]+)\/comments$/, action: 'add-comment' },
+  { method: 'POST', pattern: /^\/comments\/([^/]+)\/like$/, action: 'like-comment' },
+  { method: 'DELETE', pattern: /^\/comments\/([^/]+)\/like$/, action: 'unlike-comment' },
+]
+
+/**
+ * OPPOSITES - Actions that undo each other
+ */
+const OPPOSITES: Partial<Record<OutboxAction, OutboxAction>> = {
+  'like-post': 'unlike-post',
+  'unlike-post': 'like-post',
+  'like-comment': 'unlike-comment',
+  'unlike-comment': 'like-comment',
+}
+
+/**
+ * matchOutboxRoute - The queueable action a request performs, or null
+ */
+export function matchOutboxRoute(request: Pick<ApiRequest, 'method' | 'path'>): OutboxMatch | null {
+  for (const route of OUTBOX_ROUTES) {
+    const match = request.method === route.method ? route.pattern.exec(request.path) : null
+    if (match) return { action: route.action, targetId: match[1] ? decodeURIComponent(match[1]) : '' }
+  }
+  return null
+}
+
+// ============================================================================
+// PROVISIONAL IDS
+// ============================================================================
+
+const PROVISIONAL_PREFIX = 'local'
+
+/**
+ * createProvisionalId - An id for something the server has not seen yet
+ */
+export function createProvisionalId(): string {
+  return createId(PROVISIONAL_PREFIX)
+}
+
+/**
+ * isProvisionalId - Whether an id was handed out offline
+ */
+export function isProvisionalId(id: string | undefined): boolean {
+  return Boolean(id?.startsWith(`${PROVISIONAL_PREFIX}-`))
+}
+
+/**
+ * rewriteIds - A request with provisional ids replaced by the server's
+ *
+ * Ids appear as path segments ('/posts/local-…/like') and as a reply's
+ * parentId in the body.
+ */
+export function rewriteIds<T extends Omit<ApiRequest, 'token'>>(request: T, idMap: Record<string, string>): T {
+  const path = request.path
+    .split('/')
+    .map((segment) => {
+      const id = decodeURIComponent(segment)
+      return idMap[id] ? encodeURIComponent(idMap[id]) : segment
+    })
+    .join('/')
+  const body = request.body as { parentId?: string } | undefined
+  const parentId = body?.parentId
+  return {
+    ...request,
+    path,
+    body: parentId && idMap[parentId] ? { ...body, parentId: idMap[parentId] } : request.body,
+  }
+}
+
+/**
+ * referencedIds - Every provisional id a request refers to
+ */
+export function referencedIds(request: Omit<ApiRequest, 'token'>): string[] {
+  const ids = request.path.split('/').map(decodeURIComponent)
+  const parentId = (request.body as { parentId?: string } | undefined)?.parentId
+  if (parentId) ids.push(parentId)
+  return ids.filter(isProvisionalId)
+}
+
+// ============================================================================
+// OUTBOX
+// ============================================================================
+
+/**
+ * AddResult - What happened to a new entry
+ * - queued: Stored
+ * - cancelled: It undid a pending opposite action; both are gone
+ * - duplicate: The same action was already pending
+ */
+export type AddResult = 'queued' | 'cancelled' | 'duplicate'
+
+/**
+ * createOutbox - The persisted queue of one browser
+ */
+export function createOutbox(storage: OfflineStorage) {
+  const all = async (): Promise<OutboxEntry[]> => {
+    try {
+      return (await storage.getAll<OutboxEntry>('outbox')).sort((a, b) => a.sequence - b.sequence)
+    } catch {
+      return []
+    }
+  }
+
+  return {
+    /** The owner's entries, oldest first */
+    async list(ownerId: string): Promise<OutboxEntry[]> {
+      return (await all()).filter((entry) => entry.ownerId === ownerId)
+    },
+
+    async add(entry: Omit<OutboxEntry, 'key' | 'sequence' | 'createdAt' | 'attempts'>): Promise<AddResult> {
+      const entries = await all()
+      const opposite = OPPOSITES[entry.action]
+      if (opposite) {
+        const pending = entries.filter((e) => e.ownerId === entry.ownerId && e.targetId === entry.targetId)
+        if (pending.some((e) => e.action === entry.action)) return 'duplicate'
+        const undone = pending.find((e) => e.action === opposite)
+        if (undone) {
+          await storage.delete('outbox', [undone.key])
+          return 'cancelled'
+        }
+      }
+      const sequence = entries.reduce((max, e) => Math.max(max, e.sequence), 0) + 1
+      await storage.put('outbox', [{ ...entry, key: createId('outbox'), sequence, createdAt: new Date(), attempts: 0 }])
+      return 'queued'
+    },
+
+    async update(entry: OutboxEntry): Promise<void> {
+      await storage.put('outbox', [entry])
+    },
+
+    async remove(keys: string[]): Promise<void> {
+      await storage.delete('outbox', keys)
+    },
+  }
+}
+
+export type Outbox = ReturnType<typeof createOutbox>
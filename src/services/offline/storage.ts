@@ -0,0 +1,231 @@
+/**
+ * ============================================================================
+ * STEP 2.16: Offline Storage - IndexedDB Behind a Small Promise API
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.16 (Offline-first data layer)
+ * PURPOSE: Persist cached records and queued actions across reloads
+ *
+ * Why IndexedDB (and Not localStorage):
+ * - localStorage holds about 5 MB of strings and blocks the page on every
+ *   write; a feed with its comments quickly outgrows it
+ * - IndexedDB stores structured values (including the image Files of a
+ *   post written offline) and works asynchronously
+ *
+ * Object Stores:
+ * - users, posts, comments, conversations, messages: One record per entity
+ * - queries: Which entities a GET returned, in order (entityCache.ts)
+ * - outbox: Actions waiting to be sent (outbox.ts)
+ * - chatOutbox: Chat messages waiting to be sent (chatCache.ts)
+ * - meta: Small values such as who owns the cache
+ * Every record carries its own `key` (the store's keyPath).
+ *
+ * Fallback:
+ * - When IndexedDB is missing or refuses to open (some private browsing
+ *   modes), the same API is served from memory: the app still works
+ *   offline during the visit, it just forgets on reload
+ *
+ * LEARNING NOTES:
+ * - IndexedDB predates Promises: every call returns an IDBRequest with
+ *   onsuccess/onerror callbacks, wrapped here once by `settle`
+ * - A transaction commits by itself when its callbacks stop queueing work;
+ *   waiting for 'complete' is how we know the write is on disk
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * StoreName - The object stores of the offline database
+ */
+export type StoreName =
+  | 'users'
+  | 'posts'
+  | 'comments'
+  | 'conversations'
+  | 'messages'
+  | 'queries'
+  | 'outbox'
+  | 'chatOutbox'
+  | 'meta'
+
+/**
+ * StoredRecord - Anything kept in a store; `key` identifies it
+ */
+export interface StoredRecord {
+  key: string
+}
+
+/**
+ * OfflineStorage - The operations the offline layer needs, nothing more
+ */
+export interface OfflineStorage {
+  get<T extends StoredRecord>(store: StoreName, key: string): Promise<T | undefined>
+  getAll<T extends StoredRecord>(store: StoreName): Promise<T[]>
+  /** Inserts or replaces records in one transaction */
+  put<T extends StoredRecord>(store: StoreName, records: T[]): Promise<void>
+  delete(store: StoreName, keys: string[]): Promise<void>
+  /** Empties every store (e.g. when another user signs in) */
+  clear(): Promise<void>
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DATABASE_NAME = 'hsm-offline'
+
+/**
+ * DATABASE_VERSION - Bump when the stores, or the records in them, change
+ *
+ * Everything stored is a cache or a queue of retries, so an upgrade simply
+ * drops the old stores instead of migrating them.
+ * - 2: Users carry follow counts instead of follow lists (Step 2.12)
+ */
+const DATABASE_VERSION = 2
+
+const STORE_NAMES: StoreName[] = [
+  'users',
+  'posts',
+  'comments',
+  'conversations',
+  'messages',
+  'queries',
+  'outbox',
+  'chatOutbox',
+  'meta',
+]
+
+// ============================================================================
+// MEMORY STORAGE
+// ============================================================================
+
+/**
+ * createMemoryStorage - OfflineStorage kept in Maps for this page only
+ *
+ * Records are copied with structuredClone on the way in and out, so callers
+ * see the same "a stored value is a copy" behaviour IndexedDB gives.
+ */
+export function createMemoryStorage(): OfflineStorage {
+  const stores = new Map<StoreName, Map<string, StoredRecord>>()
+  const storeFor = (name: StoreName) => {
+    let store = stores.get(name)
+    if (!store) {
+      store = new Map()
+      stores.set(name, store)
+    }
+    return store
+  }
+
+  return {
+    async get<T extends StoredRecord>(store: StoreName, key: string) {
+      const record = storeFor(store).get(key)
+      return record && (structuredClone(record) as T)
+    },
+    async getAll<T extends StoredRecord>(store: StoreName) {
+      return [...storeFor(store).values()].map((record) => structuredClone(record) as T)
+    },
+    async put(store, records) {
+      for (const record of records) storeFor(store).set(record.key, structuredClone(record))
+    },
+    async delete(store, keys) {
+      for (const key of keys) storeFor(store).delete(key)
+    },
+    async clear() {
+      stores.clear()
+    },
+  }
+}
+
+// ============================================================================
+// INDEXEDDB STORAGE
+// ============================================================================
+
+/**
+ * settle - Resolves with the request's result, rejects with its error
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'))
+  })
+}
+
+/**
+ * completed - Resolves once a write transaction has committed
+ */
+function completed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed.'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'))
+  })
+}
+
+/**
+ * openDatabase - Opens (creating or upgrading) the offline database
+ */
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, DATABASE_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    for (const store of [...db.objectStoreNames]) db.deleteObjectStore(store)
+    for (const store of STORE_NAMES) db.createObjectStore(store, { keyPath: 'key' })
+  }
+  return settle(request)
+}
+
+/**
+ * wrapDatabase - OfflineStorage over an open IDBDatabase
+ */
+function wrapDatabase(db: IDBDatabase): OfflineStorage {
+  return {
+    async get<T extends StoredRecord>(store: StoreName, key: string) {
+      return (await settle(db.transaction(store).objectStore(store).get(key))) as T | undefined
+    },
+    async getAll<T extends StoredRecord>(store: StoreName) {
+      return (await settle(db.transaction(store).objectStore(store).getAll())) as T[]
+    },
+    async put(store, records) {
+      if (records.length === 0) return
+      const transaction = db.transaction(store, 'readwrite')
+      for (const record of records) transaction.objectStore(store).put(record)
+      await completed(transaction)
+    },
+    async delete(store, keys) {
+      if (keys.length === 0) return
+      const transaction = db.transaction(store, 'readwrite')
+      for (const key of keys) transaction.objectStore(store).delete(key)
+      await completed(transaction)
+    },
+    async clear() {
+      const transaction = db.transaction(STORE_NAMES, 'readwrite')
+      for (const store of STORE_NAMES) transaction.objectStore(store).clear()
+      await completed(transaction)
+    },
+  }
+}
+
+/**
+ * createOfflineStorage - IndexedDB when available, memory otherwise
+ *
+ * The database is opened lazily by the first call, so importing the
+ * services never touches IndexedDB in environments that lack it.
+ */
+export function createOfflineStorage(name: string = DATABASE_NAME): OfflineStorage {
+  let backend: Promise<OfflineStorage> | null = null
+  const open = () =>
+    (backend ??=
+      typeof indexedDB === 'undefined'
+        ? Promise.resolve(createMemoryStorage())
+        : openDatabase(name).then(wrapDatabase, () => createMemoryStorage()))
+
+  return {
+    get: async (store, key) => (await open()).get(store, key),
+    getAll: async (store) => (await open()).getAll(store),
+    put: async (store, records) => (await open()).put(store, records),
+    delete: async (store, keys) => (await open()).delete(store, keys),
+    clear: async () => (await open()).clear(),
+  }
+}
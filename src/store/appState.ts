@@ -0,0 +1,252 @@
+/**
+ * ============================================================================
+ * STEP 2.20: App State - The Global Store's State, Actions and Reducer
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * UPDATED: Feature Phase - Step 2.21 (live events)
+ * UPDATED: Feature Phase - Step 2.12 (follow counts instead of follow lists)
+ * PURPOSE: One copy of everything several components show at once: the
+ *          session, posts and users by ID, unread counts and error toasts
+ *
+ * Slices:
+ * - session: AppState (user, isAuthenticated, isLoading, error); written by
+ *   AuthProvider, `error` by the error channel
+ * - entities: Posts and users keyed by ID. Lists keep their own ORDER (which
+ *   IDs, in which order); cards read the post itself from here, so a like
+ *   on one card shows on every other card with the same post
+ * - unread: Message and notification counts, published by ChatProvider and
+ *   NotificationsProvider and read by the nav badges and pages
+ * - toasts: Messages raised through the error channel, oldest first
+ *
+ * Actions:
+ * - Named 'slice/what-happened' and made of plain data only, so devtools
+ *   can show and replay them
+ * - Optimistic changes are ordinary actions; rolling one back is another
+ *   action (store/mutations.ts)
+ *
+ * LEARNING NOTES:
+ * - The reducer is pure: IDs and dates for new toasts are made by the code
+ *   that dispatches, not here
+ * - An action about a post or user the store has never seen changes
+ *   nothing; whoever shows it still has the copy it was given
+ * - Like and comment actions, and follow actions carrying the server's
+ *   counts, can be applied twice with the same result; live events
+ *   (Step 2.21) rely on that. Users only hold follow COUNTS (Step 2.12):
+ *   an optimistic follow steps them, and its rollback steps them back
+ */
+
+import type { Account, AppState, Comment, Post, Toast, User } from '../types'
+import { deleteComment } from '../utils/commentTree'
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * EntityState - Records by ID
+ */
+export interface EntityState {
+  posts: Record<string, Post>
+  users: Record<string, User>
+}
+
+/**
+ * UnreadCounts - What the badges show
+ */
+export interface UnreadCounts {
+  messages: number
+  notifications: number
+}
+
+/**
+ * RootState - Everything in the store
+ */
+export interface RootState {
+  session: AppState
+  entities: EntityState
+  unread: UnreadCounts
+  toasts: Toast[]
+}
+
+/** MAX_TOASTS - Older toasts give way when more pile up */
+const MAX_TOASTS = 3
+
+export const initialRootState: RootState = {
+  session: { user: null, isAuthenticated: false, isLoading: false, error: null },
+  entities: { posts: {}, users: {} },
+  unread: { messages: 0, notifications: 0 },
+  toasts: [],
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+export type AppAction =
+  | { type: 'session/changed'; user: Account | null; isLoading: boolean }
+  | { type: 'posts/received'; posts: Post[] }
+  | { type: 'posts/removed'; postId: string }
+  | { type: 'posts/like-toggled'; postId: string; userId: string; liked: boolean }
+  | { type: 'posts/comment-added'; postId: string; comment: Comment }
+  | { type: 'posts/comment-replaced'; postId: string; commentId: string; comment: Comment }
+  | { type: 'posts/comment-removed'; postId: string; commentId: string }
+  | { type: 'users/received'; users: User[] }
+  | { type: 'follows/changed'; followerId: string; targetId: string; following: boolean; counts?: FollowCounts }
+  | { type: 'unread/changed'; kind: keyof UnreadCounts; count: number }
+  | { type: 'errors/reported'; toast: Toast }
+  | { type: 'toasts/dismissed'; toastId: string }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * FollowCounts - The server's counts after a follow change: the target's
+ * followers and the follower's following
+ */
+interface FollowCounts {
+  followers: number
+  following: number
+}
+
+/**
+ * toggleId - `ids` with `id` added (on) or removed (off); the same array
+ * when nothing changes
+ */
+function toggleId(ids: string[], id: string, on: boolean): string[] {
+  if (ids.includes(id) === on) return ids
+  return on ? [...ids, id] : ids.filter((other) => other !== id)
+}
+
+/**
+ * updatePost - Applies `change` to one stored post, if it is stored
+ */
+function updatePost(state: RootState, postId: string, change: (post: Post) => Post): RootState {
+  const post = state.entities.posts[postId]
+  if (!post) return state
+  return { ...state, entities: { ...state.entities, posts: { ...state.entities.posts, [postId]: change(post) } } }
+}
+
+/**
+ * updateUser - Applies `change` to one stored user, if it is stored
+ */
+function updateUser(users: Record<string, User>, userId: string, change: (user: User) => User) {
+  const user = users[userId]
+  return user ? { ...users, [userId]: change(user) } : users
+}
+
+/**
+ * withPosts - Stores posts, plus the originals embedded in reposts and
+ * quotes (they are whole posts too)
+ */
+function withPosts(posts: Record<string, Post>, incoming: Post[]): Record<string, Post> {
+  const next = { ...posts }
+  for (const post of incoming) {
+    const { followedTag, ...stored } = post
+    next[post.id] = followedTag === undefined ? post : stored
+    if (post.shared?.status === 'available') next[post.shared.post.id] = post.shared.post
+  }
+  return next
+}
+
+// ============================================================================
+// REDUCER
+// ============================================================================
+
+export function appReducer(state: RootState, action: AppAction): RootState {
+  switch (action.type) {
+    case 'session/changed':
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          user: action.user,
+          isAuthenticated: action.user !== null,
+          isLoading: action.isLoading,
+        },
+      }
+
+    case 'posts/received':
+      if (action.posts.length === 0) return state
+      return { ...state, entities: { ...state.entities, posts: withPosts(state.entities.posts, action.posts) } }
+
+    case 'posts/removed': {
+      if (!state.entities.posts[action.postId]) return state
+      const posts = { ...state.entities.posts }
+      delete posts[action.postId]
+      return { ...state, entities: { ...state.entities, posts } }
+    }
+
+    case 'posts/like-toggled':
+      return updatePost(state, action.postId, (post) => ({
+        ...post,
+        likes: toggleId(post.likes, action.userId, action.liked),
+      }))
+
+    case 'posts/comment-added':
+      return updatePost(state, action.postId, (post) =>
+        post.comments.some((c) => c.id === action.comment.id)
+          ? post
+          : { ...post, comments: [...post.comments, action.comment] },
+      )
+
+    case 'posts/comment-replaced':
+      // The live copy of the new comment may have arrived first
+      return updatePost(state, action.postId, (post) => {
+        const others = post.comments.filter((c) => c.id !== action.commentId && c.id !== action.comment.id)
+        return { ...post, comments: [...others, action.comment] }
+      })
+
+    case 'posts/comment-removed':
+      return updatePost(state, action.postId, (post) => ({
+        ...post,
+        comments: deleteComment(post.comments, action.commentId),
+      }))
+
+    case 'users/received': {
+      if (action.users.length === 0) return state
+      const users = { ...state.entities.users }
+      for (const user of action.users) users[user.id] = user
+      return { ...state, entities: { ...state.entities, users } }
+    }
+
+    case 'follows/changed': {
+      // The server's counts when it sent them (live events); otherwise a
+      // step up or down, for optimistic updates and their rollbacks
+      const { followerId, targetId, following, counts } = action
+      const step = (count: number) => Math.max(count + (following ? 1 : -1), 0)
+      let users = updateUser(state.entities.users, targetId, (user) => ({
+        ...user,
+        followersCount: counts?.followers ?? step(user.followersCount),
+      }))
+      const countFollowing = <T extends User>(user: T): T => ({
+        ...user,
+        followingCount: counts?.following ?? step(user.followingCount),
+      })
+      users = updateUser(users, followerId, countFollowing)
+      const viewer = state.session.user
+      const session = viewer?.id === followerId ? { ...state.session, user: countFollowing(viewer) } : state.session
+      return { ...state, session, entities: { ...state.entities, users } }
+    }
+
+    case 'unread/changed':
+      if (state.unread[action.kind] === action.count) return state
+      return { ...state, unread: { ...state.unread, [action.kind]: action.count } }
+
+    case 'errors/reported':
+      return {
+        ...state,
+        session: action.toast.tone === 'error' ? { ...state.session, error: action.toast.message } : state.session,
+        toasts: [...state.toasts, action.toast].slice(-MAX_TOASTS),
+      }
+
+    case 'toasts/dismissed': {
+      const toasts = state.toasts.filter((toast) => toast.id !== action.toastId)
+      if (toasts.length === state.toasts.length) return state
+      // `error` follows the newest error still on screen
+      const latestError = toasts.filter((toast) => toast.tone === 'error').at(-1)
+      return { ...state, session: { ...state.session, error: latestError?.message ?? null }, toasts }
+    }
+  }
+}
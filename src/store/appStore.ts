@@ -0,0 +1,21 @@
+/**
+ * ============================================================================
+ * STEP 2.20: appStore - The App's One Global Store
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * PURPOSE: The single instance every component and provider shares, like
+ *          `api` in services/index.ts
+ *
+ * LEARNING NOTES:
+ * - Devtools are only connected in development builds; production users
+ *   with the extension installed do not get the app's state in it
+ */
+
+import { appReducer, initialRootState, type AppAction, type RootState } from './appState'
+import { createStore } from './createStore'
+
+export const appStore = createStore<RootState, AppAction>(appReducer, initialRootState, {
+  name: 'Hybrid Social',
+  devtools: import.meta.env.DEV,
+})
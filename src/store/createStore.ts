@@ -0,0 +1,141 @@
+/**
+ * ============================================================================
+ * STEP 2.20: createStore - A Tiny Reducer Store with DevTools Support
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * PURPOSE: Hold one state object outside React, change it only through
+ *          actions, and tell subscribers when it changed
+ *
+ * How It Works:
+ * - dispatch(action) runs the reducer; if the state object changed, every
+ *   subscriber is called (React reads it with useSyncExternalStore)
+ * - Actions are plain objects with a `type` like 'posts/like-toggled', so
+ *   they can be logged, replayed and shown in devtools
+ *
+ * DevTools:
+ * - When the Redux DevTools browser extension is installed, every action
+ *   and the state after it appear there, and "jump" / time travel replace
+ *   the state with the one picked (subscribers are told as usual)
+ * - Without the extension nothing is connected and nothing is logged
+ *
+ * LEARNING NOTES:
+ * - The same idea as React's useReducer, but living at module level, so
+ *   any component (or non-React code such as a service callback) can read
+ *   and change it without a Provider
+ * - getState() returns the same object until an action changes it, which
+ *   is what useSyncExternalStore requires of a snapshot
+ */
+
+import { parseJson } from '../utils/serialization'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Action - Anything with a string `type`
+ */
+export interface Action {
+  type: string
+}
+
+/**
+ * Store - Read, change and watch one state object
+ */
+export interface Store<S, A extends Action> {
+  getState(): S
+  dispatch(action: A): void
+  /** Calls `listener` after every change; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void
+}
+
+/**
+ * StoreOptions
+ * - name: Instance name shown in devtools
+ * - devtools: Connect to the Redux DevTools extension if present (default true)
+ */
+export interface StoreOptions {
+  name: string
+  devtools?: boolean
+}
+
+/**
+ * DevToolsConnection - The part of the extension's API this file uses
+ */
+interface DevToolsConnection {
+  init(state: unknown): void
+  send(action: Action, state: unknown): void
+  subscribe(listener: (message: { type: string; payload?: { type: string }; state?: string }) => void): void
+}
+
+interface DevToolsExtension {
+  connect(options: { name: string }): DevToolsConnection
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * connectDevTools - The extension's connection, or null outside a browser
+ * or without the extension
+ */
+function connectDevTools(name: string): DevToolsConnection | null {
+  if (typeof window === 'undefined') return null
+  const extension = (window as Window & { __REDUX_DEVTOOLS_EXTENSION__?: DevToolsExtension })
+    .__REDUX_DEVTOOLS_EXTENSION__
+  return extension?.connect({ name }) ?? null
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * createStore - A store running `reducer`, starting from `initialState`
+ *
+ * @example
+ * const store = createStore(counterReducer, { count: 0 }, { name: 'Counter' })
+ * store.dispatch({ type: 'counter/incremented' })
+ */
+export function createStore<S, A extends Action>(
+  reducer: (state: S, action: A) => S,
+  initialState: S,
+  options: StoreOptions,
+): Store<S, A> {
+  let state = initialState
+  const listeners = new Set<() => void>()
+
+  const notify = () => {
+    for (const listener of [...listeners]) listener()
+  }
+
+  const devtools = options.devtools === false ? null : connectDevTools(options.name)
+  devtools?.init(state)
+  devtools?.subscribe((message) => {
+    // Time travel: the extension sends the picked state as JSON, so Date
+    // fields are revived on the way back in
+    if (message.type === 'DISPATCH' && message.payload?.type.startsWith('JUMP_TO') && message.state) {
+      state = parseJson<S>(message.state)
+      notify()
+    }
+  })
+
+  return {
+    getState: () => state,
+    dispatch(action) {
+      const next = reducer(state, action)
+      devtools?.send(action, next)
+      if (next === state) return
+      state = next
+      notify()
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
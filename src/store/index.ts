@@ -0,0 +1,35 @@
+/**
+ * ============================================================================
+ * STEP 2.20: Store - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * PURPOSE: The store, its state types, selectors and mutations in one
+ *          import path
+ *
+ * @example
+ * import { appStore, selectUnreadCounts } from '../store'
+ * const { messages } = selectUnreadCounts(appStore.getState())
+ */
+
+export { appStore } from './appStore'
+export { appReducer, initialRootState } from './appState'
+export type { AppAction, EntityState, RootState, UnreadCounts } from './appState'
+export { createStore } from './createStore'
+export type { Action, Store, StoreOptions } from './createStore'
+export {
+  applyLiveEvent,
+  dismissToast,
+  optimisticUpdate,
+  receivePosts,
+  receiveUsers,
+  removePost,
+  removePostComment,
+  reportError,
+  setFollowing,
+  setSession,
+  setUnreadCount,
+  togglePostLike,
+} from './mutations'
+export type { OptimisticUpdate } from './mutations'
+export { selectAppState, selectPost, selectToasts, selectUnreadCounts, selectUsers } from './selectors'
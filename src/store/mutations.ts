@@ -0,0 +1,220 @@
+/**
+ * ============================================================================
+ * STEP 2.20: Mutations - Changing the Store, Optimistically When It Helps
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * UPDATED: Feature Phase - Step 2.21 (live events)
+ * UPDATED: Feature Phase - Step 2.24 (toast texts are catalog keys)
+ * PURPOSE: The actions components run (like, follow, report an error)
+ *          instead of dispatching raw actions and calling the API themselves
+ *
+ * Optimistic Updates:
+ * 1. The change is dispatched at once, so every card shows it immediately
+ * 2. The request runs
+ * 3a. success → the server's copy is stored (it may differ, e.g. a private
+ *     account turns a follow into a request)
+ * 3b. `success === false` → the rollback action undoes step 1 and the
+ *     error is raised as a toast
+ *
+ * Live Events (Step 2.21):
+ * - applyLiveEvent() stores what other people just did (a like, a comment,
+ *   a new post, a follow) with the same actions optimistic updates use;
+ *   those actions are idempotent, so our own change coming back live, or
+ *   an event delivered twice, changes nothing
+ *
+ * The Error Channel:
+ * - reportError() is the one way to tell the user something failed
+ *   without a form to show it in; it sets AppState.error and adds a toast
+ *   (components/common/Toasts.tsx shows and dismisses them)
+ * - The app's own sentences are passed as { key }, so Toasts can show them
+ *   in the reader's language; a server's error is passed as it came
+ *
+ * LEARNING NOTES:
+ * - API calls resolve to an ApiResponse and never throw (services/api), so
+ *   there is no try/catch here: `success` decides everything
+ * - Each mutation still returns the response, so the caller can do its
+ *   own follow-up (a list swapping in the updated post, a form showing
+ *   field errors)
+ */
+
+import { DEFAULT_LOCALE, translate, type AppMessage, type MessageKey } from '../i18n'
+import { api } from '../services'
+import type { LiveEvent } from '../services/chat'
+import type { Account, ApiResponse, FollowStatus, Post, Toast, User } from '../types'
+import { createId } from '../utils/ids'
+import type { AppAction, UnreadCounts } from './appState'
+import { appStore } from './appStore'
+
+// ============================================================================
+// ERROR CHANNEL
+// ============================================================================
+
+/**
+ * reportError - Shows `message` as a toast and records it as AppState.error
+ *
+ * AppState.error keeps the English sentence of a { key } message.
+ */
+export function reportError(message: AppMessage, tone: Toast['tone'] = 'error'): void {
+  const text =
+    typeof message === 'string'
+      ? { message }
+      : { message: translate(DEFAULT_LOCALE, message.key), messageKey: message.key }
+  appStore.dispatch({
+    type: 'errors/reported',
+    toast: { id: createId('toast'), ...text, tone, createdAt: new Date() },
+  })
+}
+
+export function dismissToast(toastId: string): void {
+  appStore.dispatch({ type: 'toasts/dismissed', toastId })
+}
+
+// ============================================================================
+// SESSION, ENTITIES AND COUNTS
+// ============================================================================
+
+/**
+ * setSession - Mirrors AuthProvider's user and loading flag into AppState
+ */
+export function setSession(user: Account | null, isLoading: boolean): void {
+  appStore.dispatch({ type: 'session/changed', user, isLoading })
+}
+
+/**
+ * receivePosts - Stores posts fresh from the server (lists, pages, the
+ * answer to an action)
+ */
+export function receivePosts(posts: Post[]): void {
+  appStore.dispatch({ type: 'posts/received', posts })
+}
+
+export function receiveUsers(users: User[]): void {
+  appStore.dispatch({ type: 'users/received', users })
+}
+
+export function removePost(postId: string): void {
+  appStore.dispatch({ type: 'posts/removed', postId })
+}
+
+/**
+ * removePostComment - Drops a deleted comment from its stored post (the
+ * comment count on its card)
+ */
+export function removePostComment(postId: string, commentId: string): void {
+  appStore.dispatch({ type: 'posts/comment-removed', postId, commentId })
+}
+
+/**
+ * setUnreadCount - Publishes a badge count for every place that shows it
+ */
+export function setUnreadCount(kind: keyof UnreadCounts, count: number): void {
+  appStore.dispatch({ type: 'unread/changed', kind, count })
+}
+
+/**
+ * applyLiveEvent - Stores a live event (LiveUpdatesProvider calls this for
+ * every one; notifications are left to NotificationsProvider)
+ */
+export function applyLiveEvent(event: LiveEvent): void {
+  switch (event.type) {
+    case 'post-liked':
+      appStore.dispatch({ type: 'posts/like-toggled', postId: event.postId, userId: event.userId, liked: event.liked })
+      break
+    case 'comment-added':
+      appStore.dispatch({ type: 'posts/comment-added', postId: event.comment.postId, comment: event.comment })
+      break
+    case 'post-created':
+      receivePosts([event.post])
+      break
+    case 'follow-changed':
+      appStore.dispatch({
+        type: 'follows/changed',
+        followerId: event.followerId,
+        targetId: event.targetId,
+        following: event.following,
+        counts: { followers: event.followersCount, following: event.followingCount },
+      })
+      break
+  }
+}
+
+// ============================================================================
+// OPTIMISTIC UPDATES
+// ============================================================================
+
+/**
+ * OptimisticUpdate - One optimistic change
+ * - apply: Dispatched before the request
+ * - rollback: Dispatched if the server says no
+ * - request: The API call
+ * - settle: Turns the server's answer into an action (null: nothing to store)
+ * - failureMessage: Catalog key of the toast when the response has no
+ *   error of its own;
+ *   false when the caller shows the error itself (e.g. under a form)
+ */
+export interface OptimisticUpdate<T> {
+  apply: AppAction
+  rollback: AppAction
+  request: () => Promise<ApiResponse<T>>
+  settle?: (data: T) => AppAction | null
+  failureMessage: MessageKey | false
+}
+
+/**
+ * optimisticUpdate - Applies, requests, then keeps or rolls back
+ */
+export async function optimisticUpdate<T>(update: OptimisticUpdate<T>): Promise<ApiResponse<T>> {
+  appStore.dispatch(update.apply)
+  const response = await update.request()
+
+  if (!response.success) {
+    appStore.dispatch(update.rollback)
+    if (update.failureMessage !== false) reportError(response.error ?? { key: update.failureMessage })
+  } else if (response.data !== undefined && update.settle) {
+    const action = update.settle(response.data)
+    if (action) appStore.dispatch(action)
+  }
+  return response
+}
+
+/**
+ * togglePostLike - Likes `post` for the viewer, or takes the like back
+ */
+export function togglePostLike(post: Post, viewerId: string): Promise<ApiResponse<Post>> {
+  const liked = !post.likes.includes(viewerId)
+  // A post only the caller has seen so far is stored first, so the
+  // optimistic change has something to apply to
+  if (!appStore.getState().entities.posts[post.id]) receivePosts([post])
+
+  return optimisticUpdate({
+    apply: { type: 'posts/like-toggled', postId: post.id, userId: viewerId, liked },
+    rollback: { type: 'posts/like-toggled', postId: post.id, userId: viewerId, liked: !liked },
+    request: () => (liked ? api.posts.likePost(post.id) : api.posts.unlikePost(post.id)),
+    settle: (updated) => ({ type: 'posts/received', posts: [updated] }),
+    failureMessage: liked ? 'toast.likeFailed' : 'toast.unlikeFailed',
+  })
+}
+
+/**
+ * setFollowing - Follows (or unfollows) `targetId` as `viewerId`
+ *
+ * Following a private account only sends a request; the server's answer
+ * then says "not following yet" and the store is corrected to match.
+ */
+export function setFollowing(viewerId: string, targetId: string, follow: boolean): Promise<ApiResponse<FollowStatus>> {
+  const change = (following: boolean): AppAction => ({
+    type: 'follows/changed',
+    followerId: viewerId,
+    targetId,
+    following,
+  })
+
+  return optimisticUpdate({
+    apply: change(follow),
+    rollback: change(!follow),
+    request: () => (follow ? api.users.followUser(targetId) : api.users.unfollowUser(targetId)),
+    settle: (status) => (status.isFollowing === follow ? null : change(status.isFollowing)),
+    failureMessage: follow ? 'toast.followFailed' : 'toast.unfollowFailed',
+  })
+}
@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * STEP 2.20: Selectors - Reading Parts of the Global Store
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.20 (Global state store)
+ * PURPOSE: Small functions from RootState to what a component shows, used
+ *          with useAppSelector (hooks/useAppStore.ts)
+ *
+ * LEARNING NOTES:
+ * - A selector must return something ALREADY IN the state (or a primitive),
+ *   never a new object or array: useSyncExternalStore compares snapshots
+ *   with Object.is, and a fresh object every time would re-render forever
+ * - Deriving something new (a filtered list, a record of picked users)
+ *   belongs in useMemo on top of a selector
+ */
+
+import type { AppState, Post, Toast, User } from '../types'
+import type { RootState, UnreadCounts } from './appState'
+
+export const selectAppState = (state: RootState): AppState => state.session
+
+export const selectUsers = (state: RootState): Record<string, User> => state.entities.users
+
+export const selectUnreadCounts = (state: RootState): UnreadCounts => state.unread
+
+export const selectToasts = (state: RootState): Toast[] => state.toasts
+
+/**
+ * selectPost - The stored copy of one post (undefined until some list,
+ * page or action has put it in the store)
+ */
+export const selectPost =
+  (postId: string) =>
+  (state: RootState): Post | undefined =>
+    state.entities.posts[postId]
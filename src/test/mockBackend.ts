@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Test Backend - A Fresh Mock Backend Per Test
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (tests against the stand-in servers)
+ * PURPOSE: Build the mock database, API server and auth backend the way the
+ *          app does, without latency or localStorage, for server-level tests
+ *
+ * LEARNING NOTES:
+ * - Every call seeds a NEW database from the fixtures, so tests never see
+ *   each other's writes
+ * - Requests go straight to MockServer.handle: the same routing, auth and
+ *   error envelopes as the app, without the HTTP-shaped client on top
+ *
+ * @example
+ * const backend = createTestBackend()
+ * const token = await backend.login('alice')
+ * const me = await backend.request<Account>('GET', '/users/me', { token })
+ */
+
+import type { ApiResponse } from '../types'
+import type { HttpMethod, QueryParams } from '../services/api/transport'
+import { createLocalAuthBackend } from '../services/auth'
+import { createCaptureMailTransport } from '../services/mail'
+import { createMemoryMediaStorage } from '../services/media'
+import { createMockDatabase, createMockServer } from '../services/mock'
+
+/** The password of every fixture account */
+export const FIXTURE_PASSWORD = 'password123'
+
+/**
+ * RequestOptions - Everything of an ApiRequest but method and path
+ */
+export interface RequestOptions {
+  token?: string | null
+  query?: QueryParams
+  body?: unknown
+}
+
+/**
+ * createTestBackend - A freshly seeded mock backend
+ */
+export function createTestBackend() {
+  const db = createMockDatabase({ persist: false })
+  const media = createMemoryMediaStorage()
+  const mail = createCaptureMailTransport()
+  const server = createMockServer(db, { latencyMs: 0, media })
+  const auth = createLocalAuthBackend({ db, latencyMs: 0, mail, media, appUrl: 'http://app.test' })
+
+  const request = <T>(method: HttpMethod, path: string, options: RequestOptions = {}) =>
+    server.handle({ method, path, ...options }) as Promise<ApiResponse<T>>
+
+  /** Signs a fixture user in and returns the session token */
+  const login = async (username: string) => (await auth.login(`${username}@example.com`, FIXTURE_PASSWORD)).token
+
+  return { db, media, mail, server, auth, request, login }
+}
+
+export type TestBackend = ReturnType<typeof createTestBackend>
@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * STEP 2.25: Component Test Helpers - Providers and Accessibility Checks
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.25 (Accessibility)
+ * PURPOSE: Render a component inside the providers the app gives it, and
+ *          run axe over what was rendered
+ *
+ * LEARNING NOTES:
+ * - Only for tests with a `@vitest-environment jsdom` comment: rendering
+ *   needs a document
+ * - The auth context is a plain value, not AuthProvider, so a test picks
+ *   who is signed in without a backend; the language is the real
+ *   I18nProvider, so components read the English catalog
+ * - The router is left to the test (createMemoryRouter), which can then
+ *   navigate and read router.state.location
+ *
+ * @example
+ * renderWithProviders(<RouterProvider router={router} />, { user: fixtureAccount('alice') })
+ * expect(await axeViolations(document.body)).toEqual([])
+ */
+
+import type { ReactElement } from 'react'
+import { render } from '@testing-library/react'
+import axe from 'axe-core'
+import { AuthContext } from '../context/authContext'
+import I18nProvider from '../context/I18nProvider'
+import { createMockDatabase } from '../services/mock'
+import { presentAccount } from '../services/mock/accessPolicy'
+import type { Account, AuthContextType } from '../types'
+
+const notInTests = async () => {
+  throw new Error('Not available in component tests')
+}
+
+/**
+ * fixtureAccount - A fixture user ('alice', 'bob', …) as the signed-in account
+ */
+export function fixtureAccount(username: string): Account {
+  const record = createMockDatabase({ persist: false }).tables.users.find((u) => u.username === username)
+  if (!record) throw new Error(`No fixture user @${username}`)
+  return presentAccount(record)
+}
+
+/**
+ * renderWithProviders - render() inside auth and i18n, as `user` (signed
+ * out when null)
+ */
+export function renderWithProviders(ui: ReactElement, { user = null }: { user?: Account | null } = {}) {
+  const auth: AuthContextType = {
+    user,
+    isAuthenticated: user !== null,
+    isLoading: false,
+    error: null,
+    login: notInTests,
+    register: notInTests,
+    logout: () => {},
+    updateProfile: notInTests,
+    resendVerification: notInTests,
+    verifyEmail: notInTests,
+    requestPasswordReset: notInTests,
+    resetPassword: notInTests,
+    changePassword: notInTests,
+    changeEmail: notInTests,
+    listSessions: notInTests,
+    revokeSession: notInTests,
+    revokeOtherSessions: notInTests,
+    deleteAccount: notInTests,
+  }
+  return render(
+    <AuthContext.Provider value={auth}>
+      <I18nProvider>{ui}</I18nProvider>
+    </AuthContext.Provider>,
+  )
+}
+
+/**
+ * axeViolations - The ids of the axe rules `root` breaks ([] when none)
+ *
+ * Color contrast is skipped: jsdom does not lay out or style the page.
+ */
+export async function axeViolations(root: Element): Promise<string[]> {
+  const results = await axe.run(root, { rules: { 'color-contrast': { enabled: false } } })
+  return results.violations.map((violation) => violation.id)
+}
@@ -23,6 +23,8 @@
  * 4. Self-documenting code through types
  */
 
+import type { MessageKey } from '../i18n'
+
 // ============================================================================
 // USER RELATED TYPES
 // ============================================================================
@@ -36,33 +38,98 @@
  * Key TypeScript Concepts:
  * - interface: Creates a contract for object structure
  * - ? (optional): Properties that may or may not exist (bio?, avatar?)
- * - string[]: Array of strings (followers, following)
+ * - number: Counts (followersCount, followingCount)
  * - Date: Built-in type for date/time values
  * - boolean: True/false values (isVerified)
  * 
  * Social Media Features Covered:
- * - Basic profile info (name, email, username)
- * - Social features (followers, following arrays)
+ * - Basic profile info (name, username)
+ * - Social features (follower and following counts; the lists themselves
+ *   are paged from /users/:id/followers and /following, UPDATED: Step 2.12)
  * - Profile customization (bio, avatar, cover image)
  * - Verification system (isVerified for blue checkmarks)
  * - Additional info (location, website)
+ * - Private accounts (isPrivate, UPDATED: Step 2.14)
+ * - Account-only fields (email, role, ...) live on Account (UPDATED: Step 2.4)
  */
 export interface User {
   id: string;                    // Unique identifier for each user
   username: string;              // @username for mentions and URLs
-  email: string;                 // Login credential and contact
   firstName: string;             // Real first name
   lastName: string;              // Real last name
   bio?: string;                  // Optional: User's bio/description
   avatar?: string;               // Optional: Profile picture URL
   coverImage?: string;           // Optional: Cover photo URL
-  followers: string[];           // Array of user IDs who follow this user
-  following: string[];           // Array of user IDs this user follows
+  followersCount: number;        // How many users follow this user (Step 2.12)
+  followingCount: number;        // How many users this user follows (Step 2.12)
   createdAt: Date;               // When the account was created
   updatedAt: Date;               // When the profile was last updated
   isVerified: boolean;           // Blue checkmark for verified accounts
   location?: string;             // Optional: User's location
   website?: string;              // Optional: User's website URL
+  isPrivate?: boolean;           // Optional: Posts only reach approved followers (Step 2.14)
+}
+
+/**
+ * Account - The signed-in user's own record: the profile plus what only
+ * they (and the server) may see
+ * 
+ * UPDATED: Step 2.4 - Split from User; other users are always sent as a
+ * plain User (accessPolicy presentUser), only /users/me and the auth
+ * service answer with an Account
+ * - Moderator role and suspensions (role, suspendedUntil, UPDATED: Step 2.15)
+ * - Confirmed email address (emailVerifiedAt, UPDATED: Step 2.22)
+ * - Preferred language (locale, UPDATED: Step 2.24)
+ */
+export interface Account extends User {
+  email: string;                 // Login credential and contact
+  role?: UserRole;               // Optional: 'moderator' may review reports; missing means member (Step 2.15)
+  suspendedUntil?: Date;         // Optional: Cannot post, comment, like or message before this (Step 2.15)
+  emailVerifiedAt?: Date;        // Optional: When `email` was confirmed; missing means unconfirmed (Step 2.22)
+  locale?: string;               // Optional: Language of the interface, e.g. 'es'; missing means the browser's (Step 2.24)
+}
+
+/**
+ * UserRole - What an account may do beyond its own content
+ * 
+ * CREATED: Step 2.15 - Content moderation
+ * - member: Everyone (the default when Account.role is missing)
+ * - moderator: Also reviews reports and takes moderation actions
+ */
+export type UserRole = 'member' | 'moderator';
+
+/**
+ * FollowStatus - Counts and the viewer's relationship to one user
+ * 
+ * CREATED: Step 2.12 - Follow graph
+ * - Lets the UI show "Follow" / "Following" and follower counts without
+ *   loading a large account's full followers array
+ * - isFollowing / followsYou are false when nobody is signed in
+ * - UPDATED: Step 2.14 - follow requests, blocking and muting
+ */
+export interface FollowStatus {
+  userId: string;                // The user described
+  followersCount: number;        // How many users follow them
+  followingCount: number;        // How many users they follow
+  isFollowing: boolean;          // The viewer follows them
+  followsYou: boolean;           // They follow the viewer
+  isRequested: boolean;          // The viewer asked to follow (private account, pending) (Step 2.14)
+  isBlocking: boolean;           // The viewer blocked them (Step 2.14)
+  isMuting: boolean;             // The viewer muted them (Step 2.14)
+}
+
+/**
+ * FollowSuggestion - A "who to follow" entry and why it was picked
+ * 
+ * CREATED: Step 2.12 - Follow graph
+ * - mutualIds: A few of the viewer's followees who follow this user
+ * - sharedTags: Hashtags both the viewer and this user post or like
+ */
+export interface FollowSuggestion {
+  user: User;                    // The suggested account
+  mutualIds: string[];           // Up to 3 followees who follow them
+  mutualCount: number;           // All followees who follow them
+  sharedTags: string[];          // Up to 3 hashtags in common
 }
 
 // ============================================================================
@@ -84,7 +151,7 @@ export interface User {
  * Social Media Features Covered:
  * - Content creation (text content, images)
  * - Social interactions (likes, comments, shares)
- * - Privacy settings (isPublic for public/private posts)
+ * - Privacy settings (audience, UPDATED: Step 2.14; was isPublic)
  * - Content organization (tags/hashtags for discovery)
  * - Timestamps for chronological feeds
  * - User relationships (authorId links to User)
@@ -94,13 +161,116 @@ export interface Post {
   authorId: string;              // ID of the user who created the post
   content: string;               // The main text content of the post
   images?: string[];             // Optional: Array of image URLs
+  imageAlts?: string[];          // Optional: Descriptions of `images` for screen readers, same order (Step 2.25)
   likes: string[];               // Array of user IDs who liked this post
   comments: Comment[];           // Array of Comment objects (nested interface)
-  shares: number;                // Number of times this post was shared
+  shares: number;                // Number of reposts and quotes (kept in sync by the server, Step 2.18)
   createdAt: Date;               // When the post was created
   updatedAt: Date;               // When the post was last modified
-  isPublic: boolean;             // Whether the post is visible to everyone
+  audience: PostAudience;        // Who may see the post (Step 2.14; replaced isPublic)
   tags?: string[];               // Optional: Array of hashtags
+  moderation?: ModerationState;  // Optional: Hidden or removed by a moderator (Step 2.15)
+  isPending?: boolean;           // Optional: Written offline, not on the server yet (Step 2.16)
+  media?: MediaAsset[];          // Optional: Uploaded images behind the first `images`, same order (Step 2.17)
+  repostOf?: string;             // Optional: This is a repost of that post; content is empty (Step 2.18)
+  quoteOf?: string;              // Optional: This post quotes that post (Step 2.18)
+  shared?: SharedPost;           // Optional: The reposted or quoted post, filled in by the server (Step 2.18)
+  viewerReposted?: boolean;      // Optional: The current user has reposted this post (Step 2.18)
+  editedAt?: Date;               // Optional: When the content was last edited (Step 2.18)
+  followedTag?: string;          // Optional: In the home feed because the viewer follows this hashtag (Step 2.19)
+}
+
+/**
+ * SharedPost - The post a repost or quote points at
+ * 
+ * CREATED: Step 2.18 - Reposts and quote posts
+ * - available: The original, as the viewer may see it (one level deep:
+ *   a quote inside a quote is not embedded again)
+ * - deleted: The author deleted the original ("original removed")
+ * - unavailable: It exists, but the viewer may not see it
+ */
+export type SharedPost =
+  | { status: 'available'; post: Post }
+  | { status: 'deleted' }
+  | { status: 'unavailable' };
+
+/**
+ * PostRevision - An earlier version of an edited post
+ * 
+ * CREATED: Step 2.18 - Edit history
+ * - Every edit stores the version it replaced; the current version is the
+ *   post itself, so a post edited twice has two revisions
+ */
+export interface PostRevision {
+  id: string;                    // Unique identifier
+  postId: string;                // The edited post
+  content: string;               // Text before the edit
+  audience: PostAudience;        // Audience before the edit
+  tags?: string[];               // Optional: Hashtags before the edit
+  createdAt: Date;               // When this version was written
+}
+
+/**
+ * PostAudience - Who a post is for
+ * 
+ * CREATED: Step 2.14 - Privacy model
+ * - public: Everyone (only followers, if the author's account is private)
+ * - followers: The author's followers
+ * - mentioned: Only the people @mentioned in the post
+ * - The author always sees their own posts, and blocking overrides all three
+ */
+export type PostAudience = 'public' | 'followers' | 'mentioned';
+
+/**
+ * FeedMode - How the home feed is ordered
+ * 
+ * CREATED: Step 2.5 - Home feed
+ * - latest: Newest first
+ * - top: Engagement (likes, comments, shares) weighted by freshness
+ */
+export type FeedMode = 'latest' | 'top';
+
+/**
+ * HashtagSummary - A hashtag and how many posts use it
+ * 
+ * CREATED: Step 2.6 - Hashtag autocomplete in the post composer
+ */
+export interface HashtagSummary {
+  tag: string;                   // Normalized tag, without the leading #
+  postCount: number;             // Number of visible posts carrying the tag
+}
+
+/**
+ * HashtagDetails - A hashtag page's header
+ * 
+ * CREATED: Step 2.19 - Hashtag pages and following hashtags
+ */
+export interface HashtagDetails extends HashtagSummary {
+  followerCount: number;         // People following the tag
+  isFollowing: boolean;          // The current user follows it (posts with it reach their feed)
+}
+
+/**
+ * TrendWindow - The recent stretch of time trends are measured over
+ * 
+ * CREATED: Step 2.19 - Trending hashtags
+ * - The window slides: 'day' always means the last 24 hours
+ * - It is compared with a baseline of equally long windows just before it
+ */
+export type TrendWindow = 'hour' | 'day' | 'week';
+
+/**
+ * TrendingTag - A hashtag used more than usual
+ * 
+ * CREATED: Step 2.19 - Trending hashtags
+ * - Counts are people, not posts: one account posting a tag ten times is
+ *   still one voice
+ */
+export interface TrendingTag {
+  tag: string;                   // Normalized tag, without the leading #
+  score: number;                 // Growth over the baseline; higher trends more
+  recentCount: number;           // People who used it in the current window
+  baselineCount: number;         // People per window, on average, in the baseline
 }
 
 // ============================================================================
@@ -126,6 +296,11 @@ export interface Post {
  * - Timestamps for comment ordering
  * - User relationships (authorId links to User)
  * - Post relationships (postId links to Post)
+ * 
+ * UPDATED: Step 2.7 - isDeleted marks a tombstone: a deleted comment that
+ * still has replies keeps its place in the thread with its text removed
+ * UPDATED: Step 2.15 - moderated comments stay in the thread the same way,
+ * and isFiltered flags a comment matching one of the viewer's muted keywords
  */
 export interface Comment {
   id: string;                    // Unique identifier for each comment
@@ -136,8 +311,21 @@ export interface Comment {
   createdAt: Date;               // When the comment was created
   updatedAt: Date;               // When the comment was last modified
   parentId?: string;             // Optional: ID of parent comment (for replies)
+  isDeleted?: boolean;           // Optional: Tombstone kept so replies stay threaded
+  moderation?: ModerationState;  // Optional: Hidden or removed by a moderator (Step 2.15)
+  isFiltered?: boolean;          // Optional: Matches the viewer's muted keywords; collapsed, not removed (Step 2.15)
+  isPending?: boolean;           // Optional: Written offline, not on the server yet (Step 2.16)
 }
 
+/**
+ * CommentSort - Order of comments within each level of a thread
+ * 
+ * CREATED: Step 2.7 - Threaded comments
+ * - oldest / newest: By createdAt
+ * - top: Most liked first
+ */
+export type CommentSort = 'oldest' | 'newest' | 'top';
+
 // ============================================================================
 // MESSAGE RELATED TYPES
 // ============================================================================
@@ -162,13 +350,32 @@ export interface Comment {
  */
 export interface Message {
   id: string;                    // Unique identifier for each message
+  conversationId: string;        // ID of the conversation this message belongs to (Step 2.4)
   senderId: string;              // ID of the user who sent the message
-  receiverId: string;            // ID of the user who receives the message
+  receiverId: string;            // ID of the recipient (the conversation ID for group chats)
   content: string;               // The text content of the message
-  type: 'text' | 'image' | 'file'; // Type of message (union type)
+  type: 'text' | 'image' | 'file' | 'system'; // Type of message ('system' added in Step 2.9)
   isRead: boolean;               // Whether the message has been read
   createdAt: Date;               // When the message was sent
   attachments?: string[];        // Optional: Array of file URLs
+  system?: SystemEvent;          // Optional: What happened, for 'system' messages (Step 2.9)
+  moderation?: ModerationState;  // Optional: Hidden or removed by a moderator (Step 2.15)
+}
+
+/**
+ * SystemEvent - A membership or settings change recorded in a group thread
+ *
+ * CREATED: Step 2.9 - Group conversation management
+ * PURPOSE: Lets the UI write "You added Carol" in the reader's own words,
+ *          instead of showing text fixed when the event happened
+ *
+ * - senderId of the message is the user who made the change (actorId)
+ * - userIds: Members affected (added, removed, promoted, demoted)
+ */
+export interface SystemEvent {
+  action: 'created' | 'renamed' | 'image-changed' | 'added' | 'removed' | 'left' | 'promoted' | 'demoted';
+  userIds?: string[];            // Optional: Members the change applies to
+  groupName?: string;            // Optional: New name ('created', 'renamed')
 }
 
 // ============================================================================
@@ -192,6 +399,8 @@ export interface Message {
  * - Last message preview
  * - Group customization (name, image)
  * - Multiple participants support
+ * - Group roles: admins may rename, change the image and manage members
+ *   (UPDATED: Step 2.9)
  */
 export interface Conversation {
   id: string;                    // Unique identifier for each conversation
@@ -202,8 +411,27 @@ export interface Conversation {
   isGroup: boolean;              // Whether this is a group conversation
   groupName?: string;            // Optional: Name for group conversations
   groupImage?: string;           // Optional: Image for group conversations
+  admins?: string[];             // Optional: Admin user IDs of a group (Step 2.9)
 }
 
+/**
+ * GroupChange - One change to a group conversation
+ *
+ * CREATED: Step 2.9 - Group conversation management
+ *
+ * Who may do what (see utils/groups.ts):
+ * - Admins: rename, set-image, add, remove, promote, demote
+ * - Everyone: leave
+ */
+export type GroupChange =
+  | { type: 'rename'; groupName: string }
+  | { type: 'set-image'; groupImage: string | null }
+  | { type: 'add'; userIds: string[] }
+  | { type: 'remove'; userId: string }
+  | { type: 'promote'; userId: string }
+  | { type: 'demote'; userId: string }
+  | { type: 'leave' };
+
 // ============================================================================
 // NOTIFICATION RELATED TYPES
 // ============================================================================
@@ -225,16 +453,380 @@ export interface Conversation {
  * - Read/unread status tracking
  * - Links to related content (posts, messages)
  * - User relationships (userId, fromUserId)
+ * - Comment likes, message links and deleted targets (UPDATED: Step 2.10)
  */
 export interface Notification {
   id: string;                    // Unique identifier for each notification
   userId: string;                // ID of the user who receives the notification
-  type: 'like' | 'comment' | 'follow' | 'mention' | 'message'; // Type of notification
+  type: NotificationType;        // Type of notification (named type since Step 2.10)
   fromUserId: string;            // ID of the user who triggered the notification
   postId?: string;               // Optional: ID of related post
   messageId?: string;            // Optional: ID of related message
   isRead: boolean;               // Whether the notification has been read
   createdAt: Date;               // When the notification was created
+  commentId?: string;            // Optional: Liked or new comment on the post (Step 2.10)
+  conversationId?: string;       // Optional: Conversation of messageId, for the link (Step 2.10)
+  targetDeleted?: boolean;       // Optional: Set by the server when the linked item is gone (Step 2.10)
+  moderation?: NotificationModeration; // Optional: What the moderators did, for 'moderation' (Step 2.15)
+}
+
+/**
+ * NotificationType - What happened
+ *
+ * CREATED: Step 2.10 - Notification center (was inline in Notification)
+ * - like: Your post or comment was liked
+ * - comment: Someone commented on your post
+ * - follow: Someone followed you
+ * - mention: Someone @mentioned you in a post or comment
+ * - message: Someone sent you a chat message
+ * - follow_request: Someone asked to follow your private account (Step 2.14)
+ * - moderation: A moderator acted on your content or account (Step 2.15)
+ * - repost / quote: Someone reposted or quoted your post (Step 2.18)
+ */
+export type NotificationType =
+  | 'like'
+  | 'comment'
+  | 'follow'
+  | 'mention'
+  | 'message'
+  | 'follow_request'
+  | 'moderation'
+  | 'repost'
+  | 'quote';
+
+/**
+ * NotificationModeration - The part of a moderation action its subject sees
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - The moderator's identity is NOT included; notices come from "the
+ *   moderators" as a team
+ */
+export interface NotificationModeration {
+  action: ModerationActionType;  // What was done
+  targetType: ReportTargetType;  // To what kind of thing
+  note?: string;                 // Optional: The reason given by the moderator
+  suspendedUntil?: Date;         // Optional: End of a suspension
+}
+
+/**
+ * NotificationPreferences - Per-user notification settings
+ *
+ * CREATED: Step 2.10 - Notification center
+ * - muted: Types that are not created for this user at all
+ */
+export interface NotificationPreferences {
+  userId: string;                // Owner of the settings
+  muted: NotificationType[];     // Types the user does not want to hear about
+}
+
+// ============================================================================
+// MODERATION RELATED TYPES
+// ============================================================================
+
+/**
+ * ModerationState - What a moderator did to a post, comment or message
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - hidden: Out of sight while it is reviewed; only its author and
+ *   moderators still see it
+ * - removed: Taken down; everyone else sees a placeholder in its place
+ * - Missing means the content is untouched (or was restored)
+ */
+export type ModerationState = 'hidden' | 'removed';
+
+/**
+ * ReportReason - Why something was reported
+ *
+ * CREATED: Step 2.15 - Content moderation
+ */
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'sexual' | 'misinformation' | 'other';
+
+/**
+ * ReportTargetType - What kind of thing a report (or action) is about
+ *
+ * CREATED: Step 2.15 - Content moderation
+ */
+export type ReportTargetType = 'post' | 'comment' | 'message' | 'user';
+
+/**
+ * ReportStatus - Where a report is in the review process
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - open: Waiting in the queue
+ * - resolved: A moderator acted on its target
+ * - dismissed: A moderator decided no action was needed
+ */
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+/**
+ * ReportSnapshot - The reported thing as it was when reported
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - Kept so moderators see what was reported even if it is later edited
+ *   or deleted, and can review private messages they could not open
+ */
+export interface ReportSnapshot {
+  authorId: string;              // Who wrote it (the user, for 'user' reports)
+  content: string;               // The text (the bio, for 'user' reports)
+  images?: string[];             // Optional: Images of a post
+  postId?: string;               // Optional: The post a comment belongs to
+  conversationId?: string;       // Optional: The conversation of a message
+}
+
+/**
+ * Report - One user's report about a post, comment, message or user
+ *
+ * CREATED: Step 2.15 - Content moderation
+ */
+export interface Report {
+  id: string;                    // Unique identifier
+  reporterId: string;            // Who reported it
+  targetType: ReportTargetType;  // What kind of thing
+  targetId: string;              // Its ID
+  reason: ReportReason;          // Chosen category
+  details?: string;              // Optional: Free text from the reporter
+  status: ReportStatus;          // Review progress
+  snapshot: ReportSnapshot;      // The target as it was when reported
+  createdAt: Date;               // When it was reported
+  resolvedAt?: Date;             // Optional: When a moderator closed it
+}
+
+/**
+ * ReportForm - What the report dialog sends
+ *
+ * CREATED: Step 2.15 - Content moderation
+ */
+export interface ReportForm {
+  targetType: ReportTargetType;  // What kind of thing
+  targetId: string;              // Its ID
+  reason: ReportReason;          // Chosen category
+  details: string;               // Free text; may be empty
+}
+
+/**
+ * ModerationQueueItem - Open reports about one target, grouped
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - One row per reported thing, however many people reported it
+ * - reasons: Distinct reasons, most reported first
+ */
+export interface ModerationQueueItem {
+  targetType: ReportTargetType;  // What kind of thing
+  targetId: string;              // Its ID
+  snapshot: ReportSnapshot;      // From the newest report
+  reportIds: string[];           // The open reports, oldest first
+  reasons: ReportReason[];       // Distinct reasons, most reported first
+  details: string[];             // Reporters' free-text details
+  firstReportedAt: Date;         // Oldest open report
+  moderation?: ModerationState;  // Optional: What was already done to the content
+  authorSuspendedUntil?: Date;   // Optional: The author's current suspension
+}
+
+/**
+ * ModerationActionType - What a moderator can do
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - hide / remove / restore: Change a post, comment or message
+ * - warn / suspend / unsuspend: Act on its author (or a reported user)
+ * - dismiss: Close the reports without changing anything
+ */
+export type ModerationActionType = 'hide' | 'remove' | 'restore' | 'warn' | 'suspend' | 'unsuspend' | 'dismiss';
+
+/**
+ * ModerationAction - One entry of the audit trail
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - Actions are never edited or deleted: undoing a removal is a new
+ *   'restore' action, so the trail shows both
+ */
+export interface ModerationAction {
+  id: string;                    // Unique identifier
+  moderatorId: string;           // Who acted
+  type: ModerationActionType;    // What they did
+  targetType: ReportTargetType;  // What kind of thing it was done to
+  targetId: string;              // Its ID
+  subjectUserId: string;         // The user affected (the content's author)
+  reportIds: string[];           // Open reports this action closed
+  note?: string;                 // Optional: Reason, shown to the subject for warnings
+  suspendedUntil?: Date;         // Optional: End of a 'suspend'
+  createdAt: Date;               // When it happened
+}
+
+/**
+ * ModerationActionForm - What a moderator sends to act
+ *
+ * CREATED: Step 2.15 - Content moderation
+ * - days: Length of a suspension (suspend only)
+ */
+export interface ModerationActionForm {
+  type: ModerationActionType;    // What to do
+  targetType: ReportTargetType;  // What kind of thing
+  targetId: string;              // Its ID
+  note?: string;                 // Optional: Reason (required for warn and suspend)
+  days?: number;                 // Optional: Suspension length in days
+}
+
+// ============================================================================
+// MEDIA TYPES
+// ============================================================================
+
+/**
+ * MediaPurpose - What an upload will be attached to
+ *
+ * CREATED: Step 2.17 - Media pipeline
+ * - Each purpose has its own allowed types and size limit
+ *   (MEDIA_RULES in validation/rules.ts)
+ * - avatar, cover, group: A profile picture, cover photo or group photo
+ */
+export type MediaPurpose = 'post' | 'message' | 'avatar' | 'cover' | 'group';
+
+/**
+ * UploadSession - A chunked upload in progress
+ *
+ * CREATED: Step 2.17 - Media pipeline
+ * - receivedBytes: How much the server has; a resumed upload continues here
+ * - Sessions nobody completes are discarded after expiresAt
+ */
+export interface UploadSession {
+  id: string;                    // Unique identifier
+  purpose: MediaPurpose;         // What the file is for
+  fileName: string;              // Original file name
+  mimeType: string;              // Declared type (checked against the bytes on completion)
+  size: number;                  // Total bytes
+  receivedBytes: number;         // Bytes stored so far
+  chunkSize: number;             // Largest chunk the server accepts
+  expiresAt: Date;               // When an unfinished session is discarded
+  createdAt: Date;               // When the upload started
+}
+
+/**
+ * MediaAsset - A stored, processed upload
+ *
+ * CREATED: Step 2.17 - Media pipeline
+ * - Images are stored without EXIF/metadata and come with a thumbnail,
+ *   their pixel size and a blurhash placeholder
+ * - blurhash: A ~30 character string that decodes to a blurry preview,
+ *   shown while the real image loads
+ */
+export interface MediaAsset {
+  id: string;                    // Unique identifier
+  ownerId: string;               // Who uploaded it
+  purpose: MediaPurpose;         // What it was uploaded for
+  fileName: string;              // Original file name
+  mimeType: string;              // Type detected from the bytes
+  size: number;                  // Stored bytes
+  url: string;                   // Where the file is served
+  thumbnailUrl?: string;         // Optional: Smaller copy (images only)
+  width?: number;                // Optional: Pixel width (images only)
+  height?: number;               // Optional: Pixel height (images only)
+  blurhash?: string;             // Optional: Placeholder (images only)
+  createdAt: Date;               // When the upload completed
+}
+
+// ============================================================================
+// ARCHIVE TYPES
+// ============================================================================
+
+/**
+ * AccountArchive - Everything a user can take with them, as one JSON file
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ * - format/version: Identify the file; importers refuse other formats and
+ *   versions they do not know (the JSON Schema is in utils/archive.ts)
+ * - comments: Only the user's own, on any post; other people's comments
+ *   are theirs to export
+ * - messages: Every message of the user's conversations, both sides
+ * - followers/following: User IDs, described in `users`
+ * - users: The other accounts the archive mentions, so it still reads
+ *   well after they are gone
+ * - files: Uploaded images and attachments, keyed by the URL they had
+ */
+export interface AccountArchive {
+  format: 'hybrid-social-archive'; // Always this string
+  version: number;               // Layout version (ARCHIVE_VERSION when written)
+  exportedAt: Date;              // When the archive was made
+  profile: ArchivedProfile;      // The user's own account
+  posts: ArchivedPost[];         // Posts the user wrote, reposts included
+  comments: Comment[];           // Comments the user wrote
+  conversations: ArchivedConversation[]; // Chats the user is in
+  messages: Message[];           // Messages of those chats
+  followers: string[];           // IDs of accounts following the user
+  following: string[];           // IDs of accounts the user follows
+  users: ArchivedUser[];         // Every other account mentioned
+  files: ArchivedFile[];         // Uploaded files, embedded
+}
+
+/**
+ * ArchivedProfile - The user as archived (the social graph is separate)
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ */
+export type ArchivedProfile = Omit<Account, 'followersCount' | 'followingCount'>;
+
+/**
+ * ArchivedPost - A post as archived (no derived or client-only fields)
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ */
+export type ArchivedPost = Omit<Post, 'comments' | 'shared' | 'viewerReposted' | 'followedTag' | 'isPending'>;
+
+/**
+ * ArchivedConversation - A conversation as archived (lastMessage is derived)
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ */
+export type ArchivedConversation = Omit<Conversation, 'lastMessage'>;
+
+/**
+ * ArchivedUser - Another account, as much as the archive needs of it
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ */
+export interface ArchivedUser {
+  id: string;                    // Their ID when the archive was made
+  username: string;              // @username (used to find them again)
+  firstName: string;             // First name
+  lastName: string;              // Last name
+}
+
+/**
+ * ArchivedFile - One uploaded file, embedded in the archive
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ * - url: Where posts and messages of the archive point at it
+ */
+export interface ArchivedFile {
+  url: string;                   // URL it was served at
+  mimeType: string;              // File type
+  data: string;                  // Bytes, base64 encoded
+}
+
+/**
+ * ArchiveCounts - How many records of each kind
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ */
+export interface ArchiveCounts {
+  posts: number;                 // Posts and reposts
+  comments: number;              // Comments
+  conversations: number;         // Conversations
+  messages: number;              // Messages
+  following: number;             // Follows (or follow requests)
+  files: number;                 // Uploaded files
+}
+
+/**
+ * ArchiveImportSummary - What an import restored and what it could not
+ * 
+ * CREATED: Step 2.23 - Data export and import
+ * - skipped: Records that point at something no longer there (a comment
+ *   on a deleted post, a follow of a deleted account, a broken file)
+ * - renamedIds: Records stored under a new ID because theirs was taken
+ */
+export interface ArchiveImportSummary {
+  imported: ArchiveCounts;       // Restored records
+  skipped: ArchiveCounts;        // Records left out
+  renamedIds: number;            // Records that got a new ID
 }
 
 // ============================================================================
@@ -251,6 +843,7 @@ export interface Notification {
  * - Generic types: <T> allows this interface to work with any data type
  * - Optional properties: data?, error?, message? (only one will be present)
  * - Boolean: success indicates if the API call succeeded
+ * - errorCode / fieldErrors (Step 2.4): machine-readable failure details
  * 
  * Why This Matters:
  * - Consistent error handling across the app
@@ -262,8 +855,29 @@ export interface ApiResponse<T> {
   data?: T;                      // Optional: The actual data returned
   error?: string;                // Optional: Error message if failed
   message?: string;              // Optional: Success message
+  errorCode?: ApiErrorCode;      // Optional: Category of the failure (Step 2.4)
+  fieldErrors?: Record<string, { code: string; message: string }>; // Optional: Per-field validation errors
 }
 
+/**
+ * ApiErrorCode - Every category of failure a service can report
+ * 
+ * CREATED: Step 2.4 - Data-service layer
+ * PURPOSE: One error taxonomy shared by the mock backend and any real API
+ * 
+ * Maps roughly onto HTTP status codes:
+ * - VALIDATION (422), UNAUTHORIZED (401), FORBIDDEN (403), NOT_FOUND (404),
+ *   CONFLICT (409), NETWORK (no response at all), INTERNAL (500)
+ */
+export type ApiErrorCode =
+  | 'VALIDATION'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'NETWORK'
+  | 'INTERNAL';
+
 /**
  * PaginatedResponse Interface - Generic type for paginated API responses
  * 
@@ -274,6 +888,8 @@ export interface ApiResponse<T> {
  * - Generic types: <T> for any array of data
  * - Nested interfaces: pagination object inside the response
  * - number: All pagination properties are numeric
+ * - nextCursor (Step 2.5): cursor-based lists (like the feed) hand back a
+ *   token for the next page, which stays correct while new items arrive
  * 
  * Why This Matters:
  * - Efficient loading of large datasets (posts, users, etc.)
@@ -287,6 +903,7 @@ export interface PaginatedResponse<T> {
     limit: number;               // Items per page
     total: number;               // Total number of items
     totalPages: number;          // Total number of pages
+    nextCursor?: string | null;  // Optional: Opaque cursor for the next page (null = no more)
   };
 }
 
@@ -347,7 +964,7 @@ export interface RegisterForm {
  * Key TypeScript Concepts:
  * - Optional properties: images?, tags? (not required for every post)
  * - File[]: Array of File objects for image uploads
- * - Boolean: isPublic for privacy settings
+ * - Union type: audience for privacy settings (Step 2.14; was isPublic)
  * 
  * Why This Matters:
  * - Handles different types of posts (text-only, with images, etc.)
@@ -357,8 +974,84 @@ export interface RegisterForm {
 export interface PostForm {
   content: string;               // The text content of the post
   images?: File[];               // Optional: Array of uploaded image files
-  isPublic: boolean;             // Whether the post is public or private
+  mediaIds?: string[];           // Optional: Images already sent through the upload service (Step 2.17)
+  imageAlts?: string[];          // Optional: One description per image, uploaded ones first (Step 2.25)
+  audience: PostAudience;        // Who may see the post (Step 2.14)
   tags?: string[];               // Optional: Array of hashtags
+  quoteOf?: string;              // Optional: The post being quoted (Step 2.18)
+}
+
+/**
+ * ProfileForm - The fields of the edit-profile form
+ * 
+ * CREATED: Step 2.13 - Profile pages
+ * - Only these User fields can be changed through updateProfile; id,
+ *   email, isVerified, followers, following and the dates are protected
+ * - Optional User fields are '' here when empty (inputs need strings)
+ * - avatar / coverImage hold the URL of one of the user's own uploads
+ *   (UPDATED: Step 2.17 - purposes in PROFILE_PHOTOS, utils/profile.ts)
+ */
+export interface ProfileForm {
+  username: string;              // New username (must stay unique)
+  firstName: string;             // First name
+  lastName: string;              // Last name
+  bio: string;                   // Short bio ('' = none)
+  location: string;              // Location ('' = none)
+  website: string;               // http(s) URL ('' = none)
+  avatar: string;                // Profile picture ('' = none)
+  coverImage: string;            // Cover photo ('' = none)
+}
+
+/**
+ * ChangePasswordForm - The fields of the change-password form
+ * 
+ * CREATED: Step 2.22 - Account lifecycle
+ * - The current password is asked for again, so an unlocked computer is
+ *   not enough to take over the account
+ */
+export interface ChangePasswordForm {
+  currentPassword: string;       // The password in use now
+  newPassword: string;           // The new password (strength rules apply)
+  confirmPassword: string;       // newPassword again
+}
+
+/**
+ * ChangeEmailForm - The fields of the change-email form
+ * 
+ * CREATED: Step 2.22 - Account lifecycle
+ * - The new address only replaces the old one once its link is opened
+ */
+export interface ChangeEmailForm {
+  email: string;                 // The new address
+  password: string;              // The current password, to confirm it is you
+}
+
+/**
+ * PasswordResetForm - The fields of the "choose a new password" form
+ * 
+ * CREATED: Step 2.22 - Account lifecycle
+ * - Reached from the link in a password reset email
+ */
+export interface PasswordResetForm {
+  password: string;              // The new password (strength rules apply)
+  confirmPassword: string;       // password again
+}
+
+/**
+ * SessionInfo - One signed-in browser or device, as listed in settings
+ * 
+ * CREATED: Step 2.22 - Account lifecycle
+ * - id: Names the session for sign-out; the token itself is never sent
+ * - device: A readable summary of the browser ("Firefox on Linux")
+ * - isCurrent: The session making the request
+ */
+export interface SessionInfo {
+  id: string;                    // Session ID (not the token)
+  device: string;                // Browser and system it was opened from
+  createdAt: Date;               // When the user signed in
+  lastSeenAt: Date;              // When it was last used
+  expiresAt: Date;               // When it stops working on its own
+  isCurrent: boolean;            // Whether this is the session asking
 }
 
 // ============================================================================
@@ -375,6 +1068,7 @@ export interface PostForm {
  * - Union types: 'users' | 'posts' | 'all' for search type
  * - Union types: 'recent' | 'popular' | 'relevance' for sorting
  * - String: query for search terms
+ * - Step 2.11: the search page keeps these in the URL (?q=&type=&sort=)
  * 
  * Why This Matters:
  * - Consistent search functionality across the app
@@ -387,6 +1081,18 @@ export interface SearchFilters {
   sortBy: 'recent' | 'popular' | 'relevance'; // How to sort results
 }
 
+/**
+ * SearchResult - One hit from GET /search
+ * 
+ * CREATED: Step 2.11 - Search
+ * - Discriminated union: check `kind` before reading `user` or `post`
+ * - score: Relevance (higher is better); only comparable within one search
+ * - matches: Index terms that matched the query, for highlighting
+ */
+export type SearchResult =
+  | { kind: 'user'; user: User; score: number; matches: string[] }
+  | { kind: 'post'; post: Post; score: number; matches: string[] };
+
 // ============================================================================
 // APP STATE TYPES
 // ============================================================================
@@ -395,10 +1101,12 @@ export interface SearchFilters {
  * AppState Interface - Defines the global application state
  * 
  * CREATED: Step 1.2 - Project Setup Phase
+ * UPDATED: Step 2.20 - The `session` slice of the global store (src/store);
+ *          `error` is the latest message from the error channel
  * PURPOSE: Type safety for global state management
  * 
  * Key TypeScript Concepts:
- * - Union types: User | null (user may or may not be logged in)
+ * - Union types: Account | null (user may or may not be logged in)
  * - Boolean: isAuthenticated, isLoading
  * - Union types: string | null for error (may or may not have errors)
  * 
@@ -408,12 +1116,28 @@ export interface SearchFilters {
  * - Better debugging and development experience
  */
 export interface AppState {
-  user: User | null;             // Current logged-in user (null if not logged in)
+  user: Account | null;          // Current logged-in user (null if not logged in)
   isAuthenticated: boolean;      // Whether user is logged in
   isLoading: boolean;            // Whether app is currently loading
   error: string | null;          // Current error message (null if no errors)
 }
 
+/**
+ * Toast - A short message shown in the corner, then dismissed
+ * 
+ * CREATED: Step 2.20 - Global store and error channel
+ * - tone: 'error' for failures (announced at once), 'info' otherwise
+ * - messageKey: Set when the app wrote the sentence, so it is shown in the
+ *   reader's language; a server's own error has none (UPDATED: Step 2.24)
+ */
+export interface Toast {
+  id: string;                    // Unique ID (for dismissing)
+  message: string;               // What happened, in one sentence (English when messageKey is set)
+  messageKey?: MessageKey;       // Optional: The catalog message to show instead (Step 2.24)
+  tone: 'error' | 'info';        // How it is styled and announced
+  createdAt: Date;               // When it was raised
+}
+
 // ============================================================================
 // CONTEXT TYPES
 // ============================================================================
@@ -425,10 +1149,14 @@ export interface AppState {
  * PURPOSE: Type safety for React Context API
  * 
  * Key TypeScript Concepts:
- * - Union types: User | null for user state
+ * - Union types: Account | null for user state
  * - Function types: login, register, logout, updateProfile
  * - Promise<void>: Async functions that don't return data
- * - Partial<User>: Allows partial user updates
+ * - Partial<Account>: Allows partial user updates (Step 2.13: only ProfileForm
+ *   fields; protected fields like isVerified are rejected)
+ * - Pick<AppState, ...>: Reuses isLoading/error from AppState (Step 2.2)
+ * - Step 2.22: email verification, password reset and change, email
+ *   change, sessions and account deletion
  * 
  * Why This Matters:
  * - Type safety for React Context
@@ -437,10 +1165,22 @@ export interface AppState {
  * - Prevents runtime errors from incorrect context usage
  */
 export interface AuthContextType {
-  user: User | null;             // Current logged-in user
+  user: Account | null;          // Current logged-in user
   isAuthenticated: boolean;      // Whether user is logged in
   login: (email: string, password: string) => Promise<void>; // Login function
   register: (formData: RegisterForm) => Promise<void>; // Registration function
   logout: () => void;            // Logout function
-  updateProfile: (userData: Partial<User>) => Promise<void>; // Profile update function
+  updateProfile: (userData: Partial<Account>) => Promise<void>; // Profile update function
+  isLoading: AppState['isLoading']; // True while a saved session is being restored
+  error: AppState['error'];      // Last auth error message (null if none)
+  resendVerification: () => Promise<void>; // Emails the confirmation link again (Step 2.22)
+  verifyEmail: (token: string) => Promise<void>; // Confirms an address from its link (Step 2.22)
+  requestPasswordReset: (email: string) => Promise<void>; // Emails a reset link, if the account exists (Step 2.22)
+  resetPassword: (token: string, form: PasswordResetForm) => Promise<void>; // Sets a new password from a reset link (Step 2.22)
+  changePassword: (form: ChangePasswordForm) => Promise<void>; // Step 2.22
+  changeEmail: (form: ChangeEmailForm) => Promise<void>; // Emails a link to the new address (Step 2.22)
+  listSessions: () => Promise<SessionInfo[]>; // Signed-in browsers and devices (Step 2.22)
+  revokeSession: (sessionId: string) => Promise<void>; // Signs one of them out (Step 2.22)
+  revokeOtherSessions: () => Promise<void>; // Signs out everywhere else (Step 2.22)
+  deleteAccount: (password: string) => Promise<void>; // Deletes the account and signs out (Step 2.22)
 }
@@ -0,0 +1,271 @@
+/**
+ * ============================================================================
+ * STEP 2.23: Archive Helpers - The Account Archive File Format
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.23 (Data export and import)
+ * UPDATED: Feature Phase - Step 2.25 (version 2: image descriptions on posts)
+ * PURPOSE: Everything both sides must agree on about an archive: its name
+ *          and version, its JSON Schema, and how files are embedded
+ *
+ * Versions:
+ * - ARCHIVE_VERSION is written into every new archive
+ * - Importers accept every version from 1 up to their own ARCHIVE_VERSION;
+ *   an archive from a NEWER app is refused, because fields it relies on
+ *   would be silently dropped
+ * - Changing the layout means bumping ARCHIVE_VERSION, updating
+ *   ARCHIVE_SCHEMA, and teaching the importer to read the old version
+ * - 2 added `imageAlts` to posts; a version 1 archive reads as posts
+ *   without descriptions, so the importer needs no special case
+ *
+ * LEARNING NOTES:
+ * - Files are embedded as base64 so the archive is one self-contained JSON
+ *   file; it grows by a third, which is fine for a download
+ * - The schema is published next to the archive (the "Download schema"
+ *   button), so other tools can read archives without this code
+ */
+
+import type { AccountArchive } from '../types'
+
+/** The `format` of every archive */
+export const ARCHIVE_FORMAT = 'hybrid-social-archive'
+
+/** The layout version this app writes (and the newest it reads) */
+export const ARCHIVE_VERSION = 2
+
+/** The oldest layout version this app still reads */
+export const MIN_ARCHIVE_VERSION = 1
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const DATE = { type: 'string', format: 'date-time' }
+const IDS = { type: 'array', items: { type: 'string' } }
+const MODERATION = { type: 'object' }
+
+/**
+ * ARCHIVE_SCHEMA - JSON Schema (draft 2020-12) of ARCHIVE_VERSION
+ *
+ * Loose where the app is loose: optional fields may be missing, and
+ * unknown fields are allowed so a newer minor addition does not break
+ * older validators.
+ */
+export const ARCHIVE_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:${ARCHIVE_FORMAT}:${ARCHIVE_VERSION}`,
+  title: 'Account archive',
+  type: 'object',
+  required: [
+    'format',
+    'version',
+    'exportedAt',
+    'profile',
+    'posts',
+    'comments',
+    'conversations',
+    'messages',
+    'followers',
+    'following',
+    'users',
+    'files',
+  ],
+  properties: {
+    format: { const: ARCHIVE_FORMAT },
+    version: { type: 'integer', minimum: MIN_ARCHIVE_VERSION },
+    exportedAt: DATE,
+    profile: {
+      type: 'object',
+      required: ['id', 'username', 'email', 'firstName', 'lastName', 'createdAt', 'updatedAt', 'isVerified'],
+      properties: {
+        id: { type: 'string' },
+        username: { type: 'string' },
+        email: { type: 'string' },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        bio: { type: 'string' },
+        avatar: { type: 'string' },
+        coverImage: { type: 'string' },
+        location: { type: 'string' },
+        website: { type: 'string' },
+        isPrivate: { type: 'boolean' },
+        isVerified: { type: 'boolean' },
+        createdAt: DATE,
+        updatedAt: DATE,
+        emailVerifiedAt: DATE,
+      },
+    },
+    posts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'authorId', 'content', 'likes', 'shares', 'audience', 'createdAt', 'updatedAt'],
+        properties: {
+          id: { type: 'string' },
+          authorId: { type: 'string' },
+          content: { type: 'string' },
+          images: { type: 'array', items: { type: 'string' } },
+          imageAlts: { type: 'array', items: { type: 'string' } },
+          likes: IDS,
+          shares: { type: 'integer', minimum: 0 },
+          audience: { enum: ['public', 'followers', 'mentioned'] },
+          tags: { type: 'array', items: { type: 'string' } },
+          media: { type: 'array', items: { type: 'object', required: ['id', 'url', 'mimeType'] } },
+          repostOf: { type: 'string' },
+          quoteOf: { type: 'string' },
+          moderation: MODERATION,
+          createdAt: DATE,
+          updatedAt: DATE,
+          editedAt: DATE,
+        },
+      },
+    },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'postId', 'authorId', 'content', 'likes', 'createdAt', 'updatedAt'],
+        properties: {
+          id: { type: 'string' },
+          postId: { type: 'string' },
+          authorId: { type: 'string' },
+          parentId: { type: 'string' },
+          content: { type: 'string' },
+          likes: IDS,
+          moderation: MODERATION,
+          createdAt: DATE,
+          updatedAt: DATE,
+        },
+      },
+    },
+    conversations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'participants', 'isGroup', 'createdAt', 'updatedAt'],
+        properties: {
+          id: { type: 'string' },
+          participants: IDS,
+          isGroup: { type: 'boolean' },
+          groupName: { type: 'string' },
+          groupImage: { type: 'string' },
+          admins: IDS,
+          createdAt: DATE,
+          updatedAt: DATE,
+        },
+      },
+    },
+    messages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'conversationId', 'senderId', 'receiverId', 'content', 'type', 'isRead', 'createdAt'],
+        properties: {
+          id: { type: 'string' },
+          conversationId: { type: 'string' },
+          senderId: { type: 'string' },
+          receiverId: { type: 'string' },
+          content: { type: 'string' },
+          type: { enum: ['text', 'image', 'file', 'system'] },
+          isRead: { type: 'boolean' },
+          attachments: { type: 'array', items: { type: 'string' } },
+          system: { type: 'object', required: ['action'] },
+          moderation: MODERATION,
+          createdAt: DATE,
+        },
+      },
+    },
+    followers: IDS,
+    following: IDS,
+    users: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'username', 'firstName', 'lastName'],
+        properties: {
+          id: { type: 'string' },
+          username: { type: 'string' },
+          firstName: { type: 'string' },
+          lastName: { type: 'string' },
+        },
+      },
+    },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['url', 'mimeType', 'data'],
+        properties: {
+          url: { type: 'string' },
+          mimeType: { type: 'string' },
+          data: { type: 'string', contentEncoding: 'base64' },
+        },
+      },
+    },
+  },
+} as const
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * archiveHeaderError - Why `value` cannot be imported by this app, or null
+ *
+ * Only format and version are checked here: they decide whether reading
+ * the rest makes sense at all. The importer checks each record itself.
+ *
+ * @example archiveHeaderError({ format: 'hybrid-social-archive', version: 99 }) // "…newer version…"
+ */
+export function archiveHeaderError(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || (value as { format?: unknown }).format !== ARCHIVE_FORMAT) {
+    return 'This file is not an account archive.'
+  }
+  const { version } = value as { version?: unknown }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < MIN_ARCHIVE_VERSION) {
+    return 'This archive has an unknown version and cannot be imported.'
+  }
+  if (version > ARCHIVE_VERSION) {
+    return `This archive was made by a newer version of the app (version ${version}). Please update, then import it again.`
+  }
+  return null
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+/**
+ * archiveFileName - 'hybrid-social-<username>-<YYYY-MM-DD>.<extension>'
+ */
+export function archiveFileName(archive: AccountArchive, extension: 'json' | 'html'): string {
+  const day = archive.exportedAt.toISOString().slice(0, 10)
+  return `hybrid-social-${archive.profile.username}-${day}.${extension}`
+}
+
+/**
+ * blobToBase64 - The bytes of a Blob as a base64 string (no data: prefix)
+ *
+ * Converted in slices: String.fromCharCode with a whole file as arguments
+ * would overflow the call stack.
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * base64ToBlob - The reverse of blobToBase64
+ *
+ * @throws DOMException when `data` is not valid base64
+ */
+export function base64ToBlob(data: string, mimeType: string): Blob {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type: mimeType })
+}
@@ -0,0 +1,170 @@
+/**
+ * ============================================================================
+ * STEP 2.23: Archive HTML - A Readable Copy of an Account Archive
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.23 (Data export and import)
+ * UPDATED: Feature Phase - Step 2.25 (images keep their descriptions)
+ * PURPOSE: Turn an AccountArchive into one HTML page anyone can open in a
+ *          browser, without the app and without an internet connection
+ *
+ * Layout:
+ * - Profile, then a table of contents with counts
+ * - Posts, newest first, with their images
+ * - Comments, newest first, with the post they belong to
+ * - Conversations, each with its messages oldest first
+ * - Following and followers
+ *
+ * LEARNING NOTES:
+ * - Every piece of user text goes through escapeHtml: an archive is user
+ *   content, and a post containing "<script>" must stay text
+ * - Embedded files become data: URLs, so images show even after the
+ *   account or the server is gone; other images stay links
+ */
+
+import type { AccountArchive, ArchivedPost, Message } from '../types'
+import { DELETED_USER_ID } from './conversations'
+import { formatFullDate } from './formatDate'
+
+/**
+ * escapeHtml - Text made safe for HTML content and quoted attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * safeUrl - The URL, or '#' for schemes a link must not run (javascript:)
+ */
+function safeUrl(url: string): string {
+  return /^(https?:|blob:|data:image\/|\/)/i.test(url) ? url : '#'
+}
+
+/**
+ * newestFirst - Sort helper for records with createdAt
+ */
+function newestFirst(a: { createdAt: Date }, b: { createdAt: Date }): number {
+  return b.createdAt.getTime() - a.createdAt.getTime()
+}
+
+/**
+ * renderArchiveHtml - The whole page, as a string
+ */
+export function renderArchiveHtml(archive: AccountArchive): string {
+  const { profile } = archive
+  const files = new Map(archive.files.map((file) => [file.url, file]))
+  const users = new Map(archive.users.map((user) => [user.id, user]))
+
+  const nameOf = (userId: string): string => {
+    if (userId === profile.id) return `${profile.firstName} ${profile.lastName}`
+    if (userId === DELETED_USER_ID) return 'Deleted account'
+    const user = users.get(userId)
+    return user ? `${user.firstName} ${user.lastName} (@${user.username})` : 'Unknown account'
+  }
+  const time = (date: Date) => `<time datetime="${date.toISOString()}">${escapeHtml(formatFullDate(date))}</time>`
+  const source = (url: string) => {
+    const file = files.get(url)
+    return escapeHtml(file ? `data:${file.mimeType};base64,${file.data}` : safeUrl(url))
+  }
+  const image = (url: string, alt = '') =>
+    `<a href="${source(url)}"><img src="${source(url)}" alt="${escapeHtml(alt)}" loading="lazy"></a>`
+  const attachment = (url: string) =>
+    (files.get(url)?.mimeType ?? '').startsWith('image/') ? image(url) : `<a href="${source(url)}">Attachment</a>`
+  const text = (content: string) => `<p>${escapeHtml(content).replace(/\n/g, '<br>')}</p>`
+
+  const renderPost = (post: ArchivedPost) => {
+    const kind = post.repostOf ? 'Reposted' : post.quoteOf ? 'Quoted a post' : 'Posted'
+    const tags = (post.tags ?? []).map((tag) => ` · #${escapeHtml(tag)}`).join('')
+    return `<article class="item" id="${escapeHtml(post.id)}">
+  <header>${kind} · ${time(post.createdAt)} · ${escapeHtml(post.audience)}</header>
+  ${post.content ? text(post.content) : ''}
+  ${(post.images ?? []).map((url, index) => image(url, post.imageAlts?.[index])).join('')}
+  <footer>${post.likes.length} likes · ${post.shares} shares${tags}</footer>
+</article>`
+  }
+
+  const postIds = new Set(archive.posts.map((post) => post.id))
+  const comments = [...archive.comments].sort(newestFirst).map((comment) => {
+    const where = postIds.has(comment.postId)
+      ? `on <a href="#${escapeHtml(comment.postId)}">your post</a>`
+      : 'on someone else’s post'
+    return `<article class="item">
+  <header>${time(comment.createdAt)} · ${where}</header>
+  ${text(comment.content)}
+</article>`
+  })
+
+  const messagesByConversation = new Map<string, Message[]>()
+  for (const message of archive.messages) {
+    const list = messagesByConversation.get(message.conversationId) ?? []
+    list.push(message)
+    messagesByConversation.set(message.conversationId, list)
+  }
+  const conversations = archive.conversations.map((conversation) => {
+    const others = conversation.participants.filter((id) => id !== profile.id)
+    const title = conversation.groupName ?? others.map(nameOf).join(', ')
+    const messages = (messagesByConversation.get(conversation.id) ?? [])
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(
+        (message) => `<li>
+  <strong>${escapeHtml(nameOf(message.senderId))}</strong> · ${time(message.createdAt)}
+  ${message.content ? text(message.content) : ''}
+  ${(message.attachments ?? []).map(attachment).join(' ')}
+</li>`,
+      )
+    return `<section class="item">
+  <h3>${escapeHtml(title || 'Conversation')}</h3>
+  <ol class="messages">${messages.join('')}</ol>
+</section>`
+  })
+
+  const people = (ids: string[]) =>
+    ids.length ? `<ul>${ids.map((id) => `<li>${escapeHtml(nameOf(id))}</li>`).join('')}</ul>` : '<p>Nobody.</p>'
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Archive of @${escapeHtml(profile.username)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 0 auto; padding: 1rem; line-height: 1.5; }
+  header, footer { color: #666; font-size: 0.875rem; }
+  img { max-width: 100%; max-height: 320px; border-radius: 8px; margin: 0.25rem 0; }
+  .item { border-bottom: 1px solid rgba(128, 128, 128, 0.3); padding: 0.75rem 0; }
+  .messages { list-style: none; padding: 0; }
+  .messages li { margin-bottom: 0.75rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(`${profile.firstName} ${profile.lastName}`)} <small>@${escapeHtml(profile.username)}</small></h1>
+${profile.bio ? text(profile.bio) : ''}
+<p>Archive made ${time(archive.exportedAt)} · member since ${time(profile.createdAt)}</p>
+<nav>
+  <ul>
+    <li><a href="#posts">Posts (${archive.posts.length})</a></li>
+    <li><a href="#comments">Comments (${archive.comments.length})</a></li>
+    <li><a href="#conversations">Conversations (${archive.conversations.length})</a></li>
+    <li><a href="#following">Following (${archive.following.length})</a></li>
+    <li><a href="#followers">Followers (${archive.followers.length})</a></li>
+  </ul>
+</nav>
+<h2 id="posts">Posts</h2>
+${[...archive.posts].sort(newestFirst).map(renderPost).join('\n') || '<p>No posts.</p>'}
+<h2 id="comments">Comments</h2>
+${comments.join('\n') || '<p>No comments.</p>'}
+<h2 id="conversations">Conversations</h2>
+${conversations.join('\n') || '<p>No conversations.</p>'}
+<h2 id="following">Following</h2>
+${people(archive.following)}
+<h2 id="followers">Followers</h2>
+${people(archive.followers)}
+</body>
+</html>
+`
+}
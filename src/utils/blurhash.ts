@@ -0,0 +1,188 @@
+/**
+ * ============================================================================
+ * STEP 2.17: Blurhash - Tiny Blurry Placeholders for Images
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.17 (Media pipeline)
+ * PURPOSE: Turn an image into a ~30 character string, and that string back
+ *          into a blurry picture shown while the real image loads
+ *
+ * How It Works (https://blurha.sh):
+ * - The image is described by a few cosine waves per axis (components),
+ *   like a very coarse JPEG. 4 × 3 components are enough for "blue sky
+ *   over green field" and fit in 28 characters
+ * - Each component's colour is quantised and written in base 83
+ * - Decoding sums the same waves back up at any size; the result is
+ *   smooth, so a 32 × 32 decode stretched over the frame looks fine
+ *
+ * LEARNING NOTES:
+ * - Colours are averaged in LINEAR light, not sRGB: averaging sRGB values
+ *   makes mixed areas look too dark
+ * - encodeBlurhash takes raw RGBA pixels (canvas getImageData), so this
+ *   file has no browser dependencies and runs anywhere
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~'
+
+type Color = [number, number, number]
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function encode83(value: number, length: number): string {
+  let result = ''
+  for (let i = 1; i <= length; i++) {
+    result += DIGITS[Math.floor(value / 83 ** (length - i)) % 83]
+  }
+  return result
+}
+
+function decode83(text: string): number {
+  let value = 0
+  for (const char of text) {
+    const digit = DIGITS.indexOf(char)
+    if (digit === -1) throw new Error(`Invalid blurhash character "${char}".`)
+    value = value * 83 + digit
+  }
+  return value
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value))
+  return v <= 0.0031308 ? Math.round(v * 12.92 * 255 + 0.5) : Math.round((1.055 * v ** (1 / 2.4) - 0.055) * 255 + 0.5)
+}
+
+const signPow = (value: number, exponent: number) => Math.sign(value) * Math.abs(value) ** exponent
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * encodeBlurhash - Describes RGBA pixels with componentsX × componentsY waves
+ *
+ * @example encodeBlurhash(context.getImageData(0, 0, 32, 32).data, 32, 32)
+ */
+export function encodeBlurhash(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX = 4,
+  componentsY = 3,
+): string {
+  const factors: Color[] = []
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2
+      const color: Color = [0, 0, 0]
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis = normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height)
+          const index = 4 * (y * width + x)
+          color[0] += basis * sRGBToLinear(pixels[index])
+          color[1] += basis * sRGBToLinear(pixels[index + 1])
+          color[2] += basis * sRGBToLinear(pixels[index + 2])
+        }
+      }
+      const scale = 1 / (width * height)
+      factors.push([color[0] * scale, color[1] * scale, color[2] * scale])
+    }
+  }
+
+  const [dc, ...ac] = factors
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1)
+
+  let maximumValue = 1
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.flat().map(Math.abs))
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)))
+    maximumValue = (quantisedMaximum + 1) / 166
+    hash += encode83(quantisedMaximum, 1)
+  } else {
+    hash += encode83(0, 1)
+  }
+
+  hash += encode83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4)
+  for (const color of ac) {
+    const [r, g, b] = color.map((value) =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5))),
+    )
+    hash += encode83(r * 19 * 19 + g * 19 + b, 2)
+  }
+  return hash
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/**
+ * isBlurhash - Whether a string is a well-formed blurhash
+ */
+export function isBlurhash(hash: string): boolean {
+  if (hash.length < 6) return false
+  try {
+    const sizeFlag = decode83(hash[0])
+    const componentsY = Math.floor(sizeFlag / 9) + 1
+    const componentsX = (sizeFlag % 9) + 1
+    decode83(hash)
+    return hash.length === 4 + 2 * componentsX * componentsY
+  } catch {
+    return false
+  }
+}
+
+/**
+ * decodeBlurhash - RGBA pixels (width × height) for a blurhash
+ *
+ * @param punch - Contrast boost; 1 reproduces the original
+ * @example new ImageData(decodeBlurhash(hash, 32, 32), 32, 32)
+ */
+export function decodeBlurhash(hash: string, width: number, height: number, punch = 1): Uint8ClampedArray<ArrayBuffer> {
+  if (!isBlurhash(hash)) throw new Error('Invalid blurhash.')
+
+  const sizeFlag = decode83(hash[0])
+  const componentsY = Math.floor(sizeFlag / 9) + 1
+  const componentsX = (sizeFlag % 9) + 1
+  const maximumValue = ((decode83(hash[1]) + 1) / 166) * punch
+
+  const colors: Color[] = []
+  const dc = decode83(hash.substring(2, 6))
+  colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)])
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const value = decode83(hash.substring(4 + i * 2, 6 + i * 2))
+    colors.push([
+      signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+      signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+      signPow(((value % 19) - 9) / 9, 2) * maximumValue,
+    ])
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color: Color = [0, 0, 0]
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height)
+          const component = colors[i + j * componentsX]
+          color[0] += component[0] * basis
+          color[1] += component[1] * basis
+          color[2] += component[2] * basis
+        }
+      }
+      const index = 4 * (y * width + x)
+      pixels[index] = linearToSRGB(color[0])
+      pixels[index + 1] = linearToSRGB(color[1])
+      pixels[index + 2] = linearToSRGB(color[2])
+      pixels[index + 3] = 255
+    }
+  }
+  return pixels
+}
@@ -0,0 +1,137 @@
+/**
+ * ============================================================================
+ * STEP 2.7: Comment Trees - From a Flat List to Nested Replies
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.7 (Threaded comments)
+ * PURPOSE: Turn comments linked by `parentId` into a tree, sort each level,
+ *          and delete comments without orphaning their replies
+ *
+ * How the Tree Is Built (two passes, O(n)):
+ * 1. Make a node for every comment, indexed by ID in a Map
+ * 2. Attach each node to its parent's `children`; comments with no parent
+ *    (or whose parent is missing from the list) become roots
+ *
+ * Deleting (shared by the mock server and the UI):
+ * - A comment WITH replies becomes a tombstone: isDeleted, empty text, no
+ *   likes - its replies keep their place in the conversation
+ * - A comment WITHOUT replies is removed; if that leaves its parent a
+ *   tombstone with no replies, the parent is removed too, and so on upward
+ *
+ * LEARNING NOTES:
+ * - Sorting is per level: replies stay under their parent, only siblings
+ *   are reordered
+ * - "top" breaks ties by age (oldest first) so the order is stable
+ */
+
+import type { Comment, CommentSort } from '../types'
+
+// ============================================================================
+// TREE
+// ============================================================================
+
+/**
+ * CommentNode - A comment with its replies
+ * - depth: 0 for top-level comments
+ * - replyCount: ALL descendants, not just direct children (for "12 replies")
+ */
+export interface CommentNode {
+  comment: Comment
+  children: CommentNode[]
+  depth: number
+  replyCount: number
+}
+
+/**
+ * COMMENT_COMPARATORS - Sibling order for each CommentSort
+ */
+const COMMENT_COMPARATORS: Record<CommentSort, (a: Comment, b: Comment) => number> = {
+  oldest: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  newest: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  top: (a, b) => b.likes.length - a.likes.length || a.createdAt.getTime() - b.createdAt.getTime(),
+}
+
+/**
+ * sortComments - Returns a sorted copy
+ */
+export function sortComments(comments: Comment[], sort: CommentSort): Comment[] {
+  return [...comments].sort(COMMENT_COMPARATORS[sort])
+}
+
+/**
+ * buildCommentTree - Nested, sorted nodes for a post's comments
+ *
+ * @example
+ * const roots = buildCommentTree(post.comments, 'top')
+ * roots[0].children[0].comment // first reply to the top comment
+ */
+export function buildCommentTree(comments: Comment[], sort: CommentSort = 'oldest'): CommentNode[] {
+  const nodes = new Map<string, CommentNode>()
+  for (const comment of sortComments(comments, sort)) {
+    nodes.set(comment.id, { comment, children: [], depth: 0, replyCount: 0 })
+  }
+
+  const roots: CommentNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.comment.parentId ? nodes.get(node.comment.parentId) : undefined
+    if (parent) parent.children.push(node)
+    else roots.push(node)
+  }
+
+  // Fill in depth and replyCount top-down / bottom-up in one walk
+  const measure = (node: CommentNode, depth: number): number => {
+    node.depth = depth
+    node.replyCount = node.children.reduce((total, child) => total + 1 + measure(child, depth + 1), 0)
+    return node.replyCount
+  }
+  roots.forEach((root) => measure(root, 0))
+
+  return roots
+}
+
+/**
+ * findCommentNode - Depth-first search for a node by comment ID
+ */
+export function findCommentNode(roots: CommentNode[], commentId: string): CommentNode | null {
+  for (const node of roots) {
+    if (node.comment.id === commentId) return node
+    const found = findCommentNode(node.children, commentId)
+    if (found) return found
+  }
+  return null
+}
+
+// ============================================================================
+// DELETION
+// ============================================================================
+
+/**
+ * toTombstone - A deleted comment's placeholder
+ */
+export function toTombstone(comment: Comment): Comment {
+  return { ...comment, content: '', likes: [], isDeleted: true, updatedAt: new Date() }
+}
+
+/**
+ * deleteComment - Deletes a comment from a flat list, following the rules
+ * in the header
+ *
+ * @returns The new list (the input is not modified)
+ */
+export function deleteComment(comments: Comment[], commentId: string): Comment[] {
+  const hasReplies = (id: string, list: Comment[]) => list.some((c) => c.parentId === id)
+
+  if (hasReplies(commentId, comments)) {
+    return comments.map((c) => (c.id === commentId ? toTombstone(c) : c))
+  }
+
+  let remaining = comments.filter((c) => c.id !== commentId)
+  let parentId = comments.find((c) => c.id === commentId)?.parentId
+  while (parentId) {
+    const parent = remaining.find((c) => c.id === parentId)
+    if (!parent?.isDeleted || hasReplies(parent.id, remaining)) break
+    remaining = remaining.filter((c) => c.id !== parent.id)
+    parentId = parent.parentId
+  }
+  return remaining
+}
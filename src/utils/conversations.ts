@@ -0,0 +1,128 @@
+/**
+ * ============================================================================
+ * STEP 2.8: Conversation Helpers - Titles and Typing Labels
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.8 (Real-time messaging)
+ * UPDATED: Feature Phase - Step 2.9 (system message text)
+ * UPDATED: Feature Phase - Step 2.22 (deleted accounts)
+ * UPDATED: Feature Phase - Step 2.24 (sentences come from the catalogs)
+ * PURPOSE: Human-readable text about conversations, shared by the list and
+ *          the chat view
+ *
+ * LEARNING NOTES:
+ * - Users may not be loaded yet (useUsersById fetches them); every helper
+ *   falls back to something sensible instead of showing "undefined"
+ */
+
+import type { Locale, Translate } from '../i18n'
+import type { Conversation, Message, User } from '../types'
+
+/**
+ * DELETED_USER_ID - Takes the place of a deleted account in the
+ * conversations and messages it leaves behind (services/mock/accounts.ts)
+ */
+export const DELETED_USER_ID = 'user-deleted'
+
+/**
+ * displayName - "First Last", or null while the user is loading
+ */
+export function displayName(user: User | undefined): string | null {
+  return user ? `${user.firstName} ${user.lastName}` : null
+}
+
+/**
+ * participantName - displayName by ID; "Deleted account" for one that is
+ * gone, "…" while loading
+ */
+export function participantName(userId: string, users: Record<string, User>, t: Translate): string {
+  if (userId === DELETED_USER_ID) return t('chat.deletedAccount')
+  return displayName(users[userId]) ?? '…'
+}
+
+/**
+ * otherParticipants - Everyone in the conversation except the viewer
+ */
+export function otherParticipants(conversation: Conversation, viewerId: string | undefined): string[] {
+  return conversation.participants.filter((id) => id !== viewerId)
+}
+
+/**
+ * conversationTitle - Group name, or the names of the other participants
+ *
+ * @example conversationTitle(dm, 'user-alice', users, t, 'en') // 'Bob Smith'
+ */
+export function conversationTitle(
+  conversation: Conversation,
+  viewerId: string | undefined,
+  users: Record<string, User>,
+  t: Translate,
+  locale: Locale,
+): string {
+  if (conversation.isGroup && conversation.groupName) return conversation.groupName
+  const names = otherParticipants(conversation, viewerId).map((id) => participantName(id, users, t))
+  return names.length ? new Intl.ListFormat(locale, { style: 'narrow', type: 'unit' }).format(names) : t('chat.justYou')
+}
+
+/**
+ * typingLabel - "Bob is typing…", "Bob and Carol are typing…",
+ * "4 people are typing…"; empty string when nobody is
+ */
+export function typingLabel(userIds: string[], users: Record<string, User>, t: Translate): string {
+  const names = userIds.map((id) => users[id]?.firstName ?? t('chat.someone'))
+  if (names.length === 0) return ''
+  if (names.length === 1) return t('chat.typingOne', { name: names[0] })
+  if (names.length === 2) return t('chat.typingTwo', { first: names[0], second: names[1] })
+  return t('chat.typingMany', { count: names.length })
+}
+
+/**
+ * describeSystemMessage - "You added Carol", "Bob left the group", ...
+ *
+ * Written from the viewer's point of view; falls back to the server's
+ * text for messages without a SystemEvent. {by} and {who} are 'you' when
+ * the viewer did it or is the one it happened to, so a translation can
+ * conjugate for them.
+ */
+export function describeSystemMessage(
+  message: Message,
+  viewerId: string | undefined,
+  users: Record<string, User>,
+  t: Translate,
+  locale: Locale,
+): string {
+  const event = message.system
+  if (!event) return message.content
+
+  const userIds = event.userIds ?? []
+  const names = userIds.map((id) => (id === viewerId ? t('groupEvent.you') : (users[id]?.firstName ?? t('chat.someone'))))
+  const list = new Intl.ListFormat(locale).format(names)
+  const values = {
+    by: message.senderId === viewerId ? 'you' : 'other',
+    actor: users[message.senderId]?.firstName ?? t('chat.someone'),
+    names: list,
+    subject: list.charAt(0).toLocaleUpperCase(locale) + list.slice(1),
+    who: userIds.length === 1 && userIds[0] === viewerId ? 'you' : 'other',
+    count: userIds.length,
+    name: event.groupName ?? '',
+  }
+
+  switch (event.action) {
+    case 'created':
+      return t(event.groupName ? 'groupEvent.createdNamed' : 'groupEvent.created', values)
+    case 'renamed':
+      return t('groupEvent.renamed', values)
+    case 'image-changed':
+      return t('groupEvent.imageChanged', values)
+    case 'added':
+      return t('groupEvent.added', values)
+    case 'removed':
+      return t('groupEvent.removed', values)
+    case 'left':
+      return t('groupEvent.left', values)
+    case 'promoted':
+      return t('groupEvent.promoted', values)
+    case 'demoted':
+      return t('groupEvent.demoted', values)
+  }
+}
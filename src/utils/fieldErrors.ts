@@ -0,0 +1,43 @@
+/**
+ * ============================================================================
+ * STEP 2.24: Field Error Helpers - Validation Errors in the Reader's Language
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: Turn a FieldError's code and params into the sentence shown
+ *          under a form field
+ *
+ * LEARNING NOTES:
+ * - The rules in validation/ stay free of the catalogs: they are shared
+ *   with the mock server, which has no reader and no locale
+ * - Errors without params (a wrong password, a damaged upload) come from
+ *   a server, which already chose their words; they are shown as is
+ */
+
+import type { MessageKey, Translate } from '../i18n'
+import type { FieldError, ValidationErrorCode } from '../validation'
+
+/** The catalog message of each error code; it picks its sentence by `field` */
+const CODE_MESSAGES: Record<ValidationErrorCode, MessageKey> = {
+  required: 'validation.required',
+  invalid_format: 'validation.invalidFormat',
+  too_short: 'validation.tooShort',
+  too_long: 'validation.tooLong',
+  too_weak: 'validation.tooWeak',
+  mismatch: 'validation.mismatch',
+  taken: 'validation.taken',
+  too_many: 'validation.tooMany',
+  invalid_type: 'validation.invalidType',
+  too_large: 'validation.tooLarge',
+  read_only: 'validation.readOnly',
+}
+
+/**
+ * fieldErrorText - What to show for `error`
+ *
+ * @example fieldErrorText({ code: 'too_long', message: '…', params: { field: 'bio', max: 160 } }, t)
+ * // 'Bio can be at most 160 characters.'
+ */
+export function fieldErrorText(error: FieldError, t: Translate): string {
+  return error.params ? t(CODE_MESSAGES[error.code], error.params) : error.message
+}
@@ -0,0 +1,46 @@
+/**
+ * ============================================================================
+ * STEP 2.12: Follow Helpers - Wording for Mutuals and Suggestions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.12 (Follow graph)
+ * UPDATED: Feature Phase - Step 2.24 (sentences come from the catalogs)
+ * PURPOSE: Turn follow-graph data into the short sentences shown next to a
+ *          profile or a "who to follow" entry
+ */
+
+import type { Locale, Translate } from '../i18n'
+import type { FollowSuggestion, User } from '../types'
+
+/**
+ * mutualsLabel - "Followed by Bob", "Followed by Bob and Carol",
+ * "Followed by Bob and 3 others you follow"
+ *
+ * @param mutualIds - A few of the mutuals, to name
+ * @param total - How many mutuals there are in all
+ */
+export function mutualsLabel(mutualIds: string[], total: number, users: Record<string, User>, t: Translate): string {
+  const names = mutualIds.map((id) => users[id]?.firstName ?? t('follows.someone'))
+  if (total === 0 || names.length === 0) return ''
+  if (total === 1) return t('follows.mutualOne', { name: names[0] })
+  if (total === 2 && names.length >= 2) return t('follows.mutualTwo', { first: names[0], second: names[1] })
+  return t('follows.mutualMany', { name: names[0], count: total - 1 })
+}
+
+/**
+ * suggestionReason - Why an account is suggested; mutuals win over tags
+ *
+ * @example suggestionReason(s, users, t, 'en') // 'Followed by Bob and Carol'
+ * @example suggestionReason(s, users, t, 'en') // 'Also posts about #react and #css'
+ */
+export function suggestionReason(
+  suggestion: FollowSuggestion,
+  users: Record<string, User>,
+  t: Translate,
+  locale: Locale,
+): string {
+  if (suggestion.mutualCount > 0) return mutualsLabel(suggestion.mutualIds, suggestion.mutualCount, users, t)
+  const tags = suggestion.sharedTags.map((tag) => `#${tag}`)
+  if (tags.length === 0) return ''
+  return t('follows.alsoPostsAbout', { tags: new Intl.ListFormat(locale).format(tags) })
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * STEP 2.5: Date Formatting - "5m ago", "yesterday", "Jan 4"
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.5 (Home feed)
+ * UPDATED: Feature Phase - Step 2.24 (Internationalization)
+ * PURPOSE: Compact timestamps for posts, comments and messages
+ *
+ * Browser API Demonstrated:
+ * - Intl.RelativeTimeFormat: "3m ago" / "hace 3 min" / "قبل 3 دقائق"
+ * - Intl.DateTimeFormat: Locale-aware dates without a library
+ *
+ * LEARNING NOTES:
+ * - Always render the exact time too (e.g. in a <time dateTime> attribute
+ *   or title) so the compact form never loses information
+ * - Components use <RelativeTime>, which passes the reader's locale and
+ *   re-renders when the label would change (nextRelativeUpdate)
+ * - Without a locale, the browser's default is used (e.g. in exports)
+ */
+
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+/**
+ * formatRelativeTime - Short age of a date relative to `now`
+ *
+ * Under a week it is relative ("2h ago", "yesterday"); older dates are
+ * shown as a short date, with the year only when it is not this year.
+ *
+ * @example formatRelativeTime(twoHoursAgo, 'en') // '2h ago'
+ */
+export function formatRelativeTime(date: Date, locale?: string, now: Date = new Date()): string {
+  const elapsed = now.getTime() - date.getTime()
+  if (elapsed < 7 * DAY) {
+    const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'narrow' })
+    if (elapsed < MINUTE) return relative.format(0, 'second')
+    if (elapsed < HOUR) return relative.format(-Math.floor(elapsed / MINUTE), 'minute')
+    if (elapsed < DAY) return relative.format(-Math.floor(elapsed / HOUR), 'hour')
+    return relative.format(-Math.floor(elapsed / DAY), 'day')
+  }
+
+  const sameYear = date.getFullYear() === now.getFullYear()
+  return new Intl.DateTimeFormat(locale, {
+    month: 'short',
+    day: 'numeric',
+    year: sameYear ? undefined : 'numeric',
+  }).format(date)
+}
+
+/**
+ * formatFullDate - Long form for tooltips: "January 4, 2025 at 3:12 PM"
+ */
+export function formatFullDate(date: Date, locale?: string): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeStyle: 'short' }).format(date)
+}
+
+/**
+ * nextRelativeUpdate - Milliseconds until formatRelativeTime's label changes
+ *
+ * Returns null once the date is shown as a plain date: it never changes
+ * again, so there is nothing to schedule.
+ *
+ * @example nextRelativeUpdate(ninetySecondsAgo) // 30000 (then it reads "2m ago")
+ */
+export function nextRelativeUpdate(date: Date, now: Date = new Date()): number | null {
+  const elapsed = Math.max(0, now.getTime() - date.getTime())
+  if (elapsed >= 7 * DAY) return null
+  const step = elapsed < HOUR ? MINUTE : elapsed < DAY ? HOUR : DAY
+  return step - (elapsed % step)
+}
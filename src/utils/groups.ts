@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * STEP 2.9: Group Rules - Who May Change a Group Conversation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.9 (Group conversations)
+ * PURPOSE: One copy of the permission rules, used by the mock server to
+ *          enforce them and by the UI to decide which controls to show
+ *
+ * Roles:
+ * - admin: Rename, change the image, add and remove members, make other
+ *   members admins or take that away
+ * - member: Send messages and leave
+ * The creator of a group is its first admin.
+ *
+ * Leaving:
+ * - Anyone may leave at any time, admins included
+ * - If the last admin leaves, the longest-standing remaining member becomes
+ *   admin automatically (participants are kept in join order), so a group
+ *   is never left without someone who can manage it
+ * - If the last member leaves, the group is deleted with its messages
+ * - A group that shrinks below GROUP_MIN_MEMBERS stays a group; it does not
+ *   turn into a direct chat
+ *
+ * LEARNING NOTES:
+ * - The UI hiding a button is a convenience, not security: the server runs
+ *   the same checks on every change
+ * - Rules return a reason string (or null) rather than a boolean, so the
+ *   server and the UI show the same explanation
+ */
+
+import type { Conversation, GroupChange } from '../types'
+
+type GroupLike = Pick<Conversation, 'isGroup' | 'participants' | 'admins'>
+
+/**
+ * isGroupAdmin - Whether the user is an admin of this group
+ */
+export function isGroupAdmin(conversation: GroupLike, userId: string | undefined): boolean {
+  return Boolean(userId && conversation.isGroup && conversation.admins?.includes(userId))
+}
+
+/**
+ * groupChangeError - Why `actorId` may not make `change`, or null if allowed
+ *
+ * Only checks roles and membership; field values (names, images, group
+ * size) are checked by the validation rules.
+ */
+export function groupChangeError(conversation: GroupLike, actorId: string, change: GroupChange): string | null {
+  if (!conversation.isGroup) return 'Only group conversations can be changed.'
+  if (!conversation.participants.includes(actorId)) return 'You are not a member of this group.'
+  if (change.type === 'leave') return null
+  if (!isGroupAdmin(conversation, actorId)) return 'Only group admins can do that.'
+
+  switch (change.type) {
+    case 'rename':
+    case 'set-image':
+      return null
+    case 'add':
+      return change.userIds.some((id) => !conversation.participants.includes(id))
+        ? null
+        : 'Everyone you picked is already in the group.'
+    case 'remove':
+      if (change.userId === actorId) return 'Use "Leave group" to leave.'
+      return conversation.participants.includes(change.userId) ? null : 'That person is not in the group.'
+    case 'promote':
+      if (!conversation.participants.includes(change.userId)) return 'That person is not in the group.'
+      return isGroupAdmin(conversation, change.userId) ? 'They are already an admin.' : null
+    case 'demote':
+      if (!isGroupAdmin(conversation, change.userId)) return 'They are not an admin.'
+      return (conversation.admins?.length ?? 0) > 1 ? null : 'A group needs at least one admin.'
+  }
+}
+
+/**
+ * successorAdmin - Who becomes admin if `leaverId` leaves, or null if
+ * nobody needs to (other admins remain, or nobody remains)
+ */
+export function successorAdmin(conversation: GroupLike, leaverId: string): string | null {
+  const remainingAdmins = (conversation.admins ?? []).filter((id) => id !== leaverId)
+  if (remainingAdmins.length > 0) return null
+  return conversation.participants.find((id) => id !== leaverId) ?? null
+}
@@ -0,0 +1,40 @@
+/**
+ * ============================================================================
+ * STEP 2.19: Hashtag Helpers - Trend Labels and Descriptions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.19 (Hashtags and trending)
+ * UPDATED: Feature Phase - Step 2.24 (words come from the catalogs)
+ * PURPOSE: The words the trending panel and tag pages use; how trends are
+ *          scored lives on the server (services/mock/hashtags.ts)
+ */
+
+import type { MessageKey, Translate } from '../i18n'
+import type { TrendWindow, TrendingTag } from '../types'
+
+/**
+ * TREND_WINDOWS - The windows offered by the trending panel, in order
+ */
+export const TREND_WINDOWS: TrendWindow[] = ['hour', 'day', 'week']
+
+/**
+ * TREND_WINDOW_LABELS - Tab labels for each window
+ */
+export const TREND_WINDOW_LABELS: Record<TrendWindow, MessageKey> = {
+  hour: 'trends.hour',
+  day: 'trends.day',
+  week: 'trends.week',
+}
+
+/**
+ * describeTrend - Why a tag is trending, in a few words
+ *
+ * @example describeTrend({ recentCount: 2, baselineCount: 0, ... }, t) // 'New · 2 people'
+ * @example describeTrend({ recentCount: 4, baselineCount: 2, ... }, t) // '4 people, usually 2'
+ */
+export function describeTrend(trend: TrendingTag, t: Translate): string {
+  const count = trend.recentCount
+  if (trend.baselineCount === 0) return t('trends.new', { count })
+  if (trend.baselineCount < 1) return t('trends.rare', { count })
+  return t('trends.usual', { count, usual: Math.round(trend.baselineCount) })
+}
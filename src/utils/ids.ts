@@ -0,0 +1,20 @@
+/**
+ * ============================================================================
+ * STEP 2.4: ID Generation
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.4 (Data-service layer)
+ * PURPOSE: Unique, readable IDs for new records
+ *
+ * LEARNING NOTES:
+ * - crypto.randomUUID() gives 122 random bits: collisions are practically
+ *   impossible, so no central counter is needed
+ * - The prefix ('post-', 'msg-') makes IDs recognisable in DevTools and logs
+ */
+
+/**
+ * createId - Returns e.g. 'post-3f2a…'
+ */
+export function createId(prefix: string): string {
+  return `${prefix}-${crypto.randomUUID()}`
+}
@@ -0,0 +1,196 @@
+/**
+ * ============================================================================
+ * STEP 2.6: Image Helpers - Resize, Compress and Serialize in the Browser
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.13 (cropping avatars and cover photos)
+ * UPDATED: Feature Phase - Step 2.17 (crops are files, for uploading)
+ * PURPOSE: Shrink photos before upload and turn them into strings (and
+ *          back) so drafts can be saved
+ *
+ * Why Resize on the Client:
+ * - Phone photos are often 4000px wide and several MB; the feed never shows
+ *   them larger than ~1000px, so uploading the original wastes bandwidth
+ * - Re-encoding as JPEG/WebP at quality 0.85 typically cuts size by 80-90%
+ *
+ * Browser APIs Demonstrated:
+ * - createImageBitmap: Decodes an image file off the main thread
+ * - <canvas> drawImage + toBlob: Draw at a smaller size and re-encode
+ * - FileReader.readAsDataURL: File → "data:image/jpeg;base64,..." string
+ *
+ * LEARNING NOTES:
+ * - GIFs are passed through untouched: drawing to a canvas keeps only the
+ *   first frame, which would silently break animations
+ * - If re-encoding makes a small image BIGGER (common for tiny PNGs), the
+ *   original is kept
+ */
+
+// ============================================================================
+// RESIZING
+// ============================================================================
+
+/**
+ * ResizeOptions
+ * - maxDimension: Longest side in pixels after resizing (default 1600)
+ * - quality: Encoder quality from 0 to 1 (default 0.85)
+ */
+export interface ResizeOptions {
+  maxDimension?: number
+  quality?: number
+}
+
+/**
+ * canvasToBlob - Promise wrapper around canvas.toBlob
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality))
+}
+
+/**
+ * renameExtension - "IMG_01.png" → "IMG_01.jpg" when the type changes
+ */
+function renameExtension(name: string, mimeType: string): string {
+  const extension = mimeType === 'image/webp' ? 'webp' : 'jpg'
+  return name.replace(/\.[^.]*$/, '') + '.' + extension
+}
+
+/**
+ * resizeImage - Scales an image down and re-encodes it
+ *
+ * PNGs with transparency become WebP (keeps the alpha channel); everything
+ * else becomes JPEG. Files that cannot be decoded are returned unchanged so
+ * validation can report them.
+ *
+ * @example
+ * const smaller = await resizeImage(file, { maxDimension: 1200 })
+ */
+export async function resizeImage(file: File, options: ResizeOptions = {}): Promise<File> {
+  const maxDimension = options.maxDimension ?? 1600
+  const quality = options.quality ?? 0.85
+  if (file.type === 'image/gif' || !file.type.startsWith('image/')) return file
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    return file
+  }
+
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const outputType = file.type === 'image/png' || file.type === 'image/webp' ? 'image/webp' : 'image/jpeg'
+  const blob = await canvasToBlob(canvas, outputType, quality)
+  if (!blob || (scale === 1 && blob.size >= file.size)) return file
+
+  return new File([blob], renameExtension(file.name, blob.type), {
+    type: blob.type,
+    lastModified: file.lastModified,
+  })
+}
+
+// ============================================================================
+// CROPPING
+// ============================================================================
+
+/**
+ * CropArea - A rectangle of the source image, in source pixels
+ */
+export interface CropArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * cropArea - The part of an image a cropper frame shows
+ *
+ * - aspect: Frame width / height (1 for avatars, 3 for covers)
+ * - zoom: 1 = the largest frame that fits the image; 2 = half as wide
+ * - centerX / centerY: Frame centre as a fraction of the image (0-1); it
+ *   is clamped so the frame never leaves the image
+ *
+ * @example cropArea(1200, 800, 1, 1, 0.5, 0.5) // { x: 200, y: 0, width: 800, height: 800 }
+ */
+export function cropArea(
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number,
+  zoom: number,
+  centerX: number,
+  centerY: number,
+): CropArea {
+  const fitWidth = Math.min(imageWidth, imageHeight * aspect)
+  const width = fitWidth / Math.max(zoom, 1)
+  const height = width / aspect
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+  return {
+    x: clamp(centerX * imageWidth - width / 2, imageWidth - width),
+    y: clamp(centerY * imageHeight - height / 2, imageHeight - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * drawCrop - Paints a crop area onto a canvas, filling it completely
+ */
+export function drawCrop(canvas: HTMLCanvasElement, source: CanvasImageSource, area: CropArea): void {
+  const context = canvas.getContext('2d')
+  if (!context) return
+  context.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * cropToFile - Cuts `area` out of an image at `outputWidth` pixels wide
+ * and encodes it (WebP, or PNG where the browser cannot write WebP)
+ *
+ * UPDATED: Step 2.17 - Returns a File named after `name`, ready to upload,
+ * instead of a data URL
+ */
+export async function cropToFile(
+  source: CanvasImageSource,
+  area: CropArea,
+  outputWidth: number,
+  name: string,
+): Promise<File> {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(Math.min(outputWidth, area.width))
+  canvas.height = Math.round(canvas.width * (area.height / area.width))
+  drawCrop(canvas, source, area)
+  const blob = await canvasToBlob(canvas, 'image/webp', 0.85)
+  if (!blob) throw new Error('Could not crop the image.')
+  return new File([blob], `${name.replace(/\.[^.]*$/, '')}.${blob.type.split('/')[1]}`, { type: blob.type })
+}
+
+// ============================================================================
+// SERIALIZATION (for drafts)
+// ============================================================================
+
+/**
+ * fileToDataUrl - Reads a File as a base64 data URL
+ */
+export function fileToDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+/**
+ * dataUrlToFile - Rebuilds a File from a data URL
+ *
+ * fetch() understands data: URLs, which saves decoding base64 by hand.
+ */
+export async function dataUrlToFile(dataUrl: string, name: string): Promise<File> {
+  const blob = await (await fetch(dataUrl)).blob()
+  return new File([blob], name, { type: blob.type })
+}
@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * STEP 2.15: Muted Keywords - Matching Words and Phrases in Text
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * PURPOSE: Decide whether a post or comment contains a word the viewer muted
+ *
+ * Shared Rules:
+ * - The settings form (browser) and the mock server both import this file,
+ *   so the list the user sees is exactly the list the server filters with
+ *
+ * What Matches:
+ * - Whole words only, ignoring case: muting "cat" hides "Cat!" but not
+ *   "category"
+ * - Phrases match as a run of words: "spoiler alert" hides "SPOILER ALERT:"
+ * - "#tag" only matches the hashtag; a plain "tag" matches both the word
+ *   and the hashtag, since the # is just punctuation to the matcher
+ *
+ * Regex Concepts Demonstrated:
+ * - Lookbehind (?<!...) and lookahead (?!...) give a Unicode-aware word
+ *   boundary; \b only knows about A-Z, so it would split "café"
+ * - User input is escaped before it becomes part of a pattern
+ */
+
+/** Characters that make up a "word" for boundary purposes */
+const WORD_CHARACTER = '[\\p{L}\\p{N}_]'
+
+/**
+ * normalizeKeyword - Canonical form for storage and comparison
+ *
+ * Trims, collapses inner whitespace and lowercases (after NFC, like
+ * normalizeTag), so " Spoiler   Alert" and "spoiler alert" are one entry.
+ */
+export function normalizeKeyword(keyword: string): string {
+  return keyword.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * normalizeKeywords - Normalized, non-empty and de-duplicated, in order
+ */
+export function normalizeKeywords(keywords: string[]): string[] {
+  return [...new Set(keywords.map(normalizeKeyword).filter(Boolean))]
+}
+
+/**
+ * escapeRegExp - Makes user input safe to embed in a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * keywordPattern - Whole-word, case-insensitive pattern for one keyword
+ *
+ * Whitespace inside a phrase matches any run of whitespace, so a line
+ * break between the two words still counts.
+ */
+function keywordPattern(keyword: string): RegExp {
+  const body = keyword.split(' ').map(escapeRegExp).join('\\s+')
+  return new RegExp(`(?<!${WORD_CHARACTER})${body}(?!${WORD_CHARACTER})`, 'iu')
+}
+
+/**
+ * matchesMutedKeywords - The first muted keyword found in `text`, or null
+ *
+ * @example matchesMutedKeywords('Big SPOILER ALERT!', ['spoiler alert']) // 'spoiler alert'
+ */
+export function matchesMutedKeywords(text: string, keywords: readonly string[]): string | null {
+  if (!keywords.length || !text) return null
+  const normalized = text.normalize('NFC')
+  return keywords.find((keyword) => keywordPattern(keyword).test(normalized)) ?? null
+}
@@ -0,0 +1,159 @@
+/**
+ * ============================================================================
+ * STEP 2.15: Moderation Helpers - Labels, Notices and Placeholders
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.15 (Content moderation)
+ * UPDATED: Feature Phase - Step 2.24 (words come from the catalogs)
+ * PURPOSE: The words the UI uses for reports, moderation actions and
+ *          moderated content, in one place
+ *
+ * Placeholders:
+ * - Moderated content keeps its place (a removed comment still has its
+ *   replies below it), so the UI needs a sentence for the gap
+ * - The author of HIDDEN content still sees it, with a note that nobody
+ *   else can (the server only sends the text to those allowed to read it)
+ *
+ * LEARNING NOTES:
+ * - Notices never name the moderator: decisions come from "the moderators",
+ *   so nobody is singled out for a call the team made
+ * - Sentences about a post, comment, message or account pass the target
+ *   type to the catalog ({target, select, ...}) rather than a translated
+ *   noun: in Spanish and Arabic the words around it change with its gender
+ */
+
+import type { Locale, MessageKey, Translate } from '../i18n'
+import type {
+  ModerationAction,
+  ModerationActionType,
+  ModerationState,
+  NotificationModeration,
+  ReportReason,
+  ReportTargetType,
+  User,
+} from '../types'
+
+/**
+ * REPORT_REASON_LABELS - The choices in the report form
+ */
+export const REPORT_REASON_LABELS: Record<ReportReason, MessageKey> = {
+  spam: 'report.spam',
+  harassment: 'report.harassment',
+  hate: 'report.hate',
+  violence: 'report.violence',
+  sexual: 'report.sexual',
+  misinformation: 'report.misinformation',
+  other: 'report.other',
+}
+
+/**
+ * MODERATION_ACTION_LABELS - Button names for each action
+ */
+export const MODERATION_ACTION_LABELS: Record<ModerationActionType, MessageKey> = {
+  hide: 'moderation.hide',
+  remove: 'moderation.remove',
+  restore: 'moderation.restore',
+  warn: 'moderation.warn',
+  suspend: 'moderation.suspend',
+  unsuspend: 'moderation.unsuspend',
+  dismiss: 'moderation.dismiss',
+}
+
+/**
+ * REPORT_TARGET_LABELS - What a target is called on its own ("Post")
+ */
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, MessageKey> = {
+  post: 'moderation.targetPost',
+  comment: 'moderation.targetComment',
+  message: 'moderation.targetMessage',
+  user: 'moderation.targetUser',
+}
+
+/**
+ * formatSuspensionEnd - "March 4, 2026", in the reader's language
+ */
+export function formatSuspensionEnd(date: Date, locale: Locale): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(date)
+}
+
+/**
+ * describeModerationNotice - The sentence for a 'moderation' notification
+ *
+ * @example describeModerationNotice({ action: 'remove', targetType: 'comment' }, t, 'en') // 'Moderators removed your comment'
+ */
+export function describeModerationNotice(notice: NotificationModeration, t: Translate, locale: Locale): string {
+  const target = notice.targetType
+  switch (notice.action) {
+    case 'hide':
+      return t('moderation.noticeHide', { target })
+    case 'remove':
+      return t('moderation.noticeRemove', { target })
+    case 'restore':
+      return t('moderation.noticeRestore', { target })
+    case 'warn':
+      return t('moderation.noticeWarn', { target })
+    case 'suspend':
+      return notice.suspendedUntil
+        ? t('moderation.noticeSuspendedUntil', { date: formatSuspensionEnd(notice.suspendedUntil, locale) })
+        : t('moderation.noticeSuspended')
+    case 'unsuspend':
+      return t('moderation.noticeUnsuspend')
+    case 'dismiss':
+      return t('moderation.noticeDismiss', { target })
+  }
+}
+
+/**
+ * describeModerationAction - One audit-log line
+ *
+ * @example describeModerationAction(action, users, t, 'en') // 'Carol removed a comment by @dave'
+ */
+export function describeModerationAction(
+  action: ModerationAction,
+  users: Record<string, User>,
+  t: Translate,
+  locale: Locale,
+): string {
+  const subject = users[action.subjectUserId]
+  const values = {
+    moderator: users[action.moderatorId]?.firstName ?? t('moderation.someModerator'),
+    name: subject ? `@${subject.username}` : t('moderation.someUser'),
+    target: action.targetType,
+  }
+  switch (action.type) {
+    case 'hide':
+      return t('moderation.logHide', values)
+    case 'remove':
+      return t('moderation.logRemove', values)
+    case 'restore':
+      return t('moderation.logRestore', values)
+    case 'warn':
+      return t('moderation.logWarn', values)
+    case 'suspend':
+      return action.suspendedUntil
+        ? t('moderation.logSuspendedUntil', { ...values, date: formatSuspensionEnd(action.suspendedUntil, locale) })
+        : t('moderation.logSuspended', values)
+    case 'unsuspend':
+      return t('moderation.logUnsuspend', values)
+    case 'dismiss':
+      return t('moderation.logDismiss', values)
+  }
+}
+
+/**
+ * moderatedPlaceholder - What to show instead of (or above) moderated content
+ *
+ * @param canRead - Whether the viewer received the text (author of hidden
+ *   content, or a moderator)
+ */
+export function moderatedPlaceholder(
+  state: ModerationState,
+  target: ReportTargetType,
+  canRead: boolean,
+  t: Translate,
+): string {
+  if (state === 'removed') {
+    return canRead ? t('moderation.removedForReader', { target }) : t('moderation.removed', { target })
+  }
+  return canRead ? t('moderation.hiddenForReader', { target }) : t('moderation.hidden', { target })
+}
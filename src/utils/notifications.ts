@@ -0,0 +1,210 @@
+/**
+ * ============================================================================
+ * STEP 2.10: Notification Helpers - Grouping, Wording and Links
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.10 (Notification center)
+ * UPDATED: Feature Phase - Step 2.14 (follow requests)
+ * UPDATED: Feature Phase - Step 2.15 (moderation notices)
+ * UPDATED: Feature Phase - Step 2.18 (reposts and quotes)
+ * UPDATED: Feature Phase - Step 2.24 (sentences come from the catalogs)
+ * PURPOSE: Turn a flat list of notifications into "Alice and 12 others
+ *          liked your post" rows that link to the right place
+ *
+ * Grouping Rules:
+ * - Notifications about the same thing share a key: likes of one post (or
+ *   one comment), comments on one post, reposts of one post, new
+ *   followers, follow requests, messages in one conversation. Mentions,
+ *   quotes and moderation notices are never grouped; each has its own
+ *   context (a quote is a post of its own).
+ * - A group only spans GROUP_WINDOW_MS: a like from last month starts a new
+ *   row instead of reviving an old one
+ * - A group is unread while ANY of its notifications is unread
+ *
+ * LEARNING NOTES:
+ * - Grouping happens on the client, over whatever pages are loaded, so the
+ *   server keeps storing one simple row per event
+ */
+
+import type { Locale, MessageKey, Translate } from '../i18n'
+import { ROUTES, conversationPath, postPath, profilePath } from '../routes/paths'
+import type { Notification, NotificationType, User } from '../types'
+import { describeModerationNotice } from './moderation'
+
+/** Notifications further apart than this are never merged (24 hours) */
+export const GROUP_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * NotificationGroup - One row in the notification center
+ * - notifications: Newest first
+ * - actorIds: Distinct users who did it, most recent first
+ * - latest: The newest notification (time, link and target)
+ */
+export interface NotificationGroup {
+  key: string
+  type: NotificationType
+  notifications: Notification[]
+  actorIds: string[]
+  latest: Notification
+  isRead: boolean
+}
+
+/**
+ * NOTIFICATION_TYPE_LABELS - Names for the preference checkboxes
+ *
+ * Moderation notices are not listed: they cannot be turned off.
+ */
+export const NOTIFICATION_TYPE_LABELS: Record<Exclude<NotificationType, 'moderation'>, MessageKey> = {
+  like: 'notificationTypes.like',
+  comment: 'notificationTypes.comment',
+  follow: 'notificationTypes.follow',
+  follow_request: 'notificationTypes.followRequest',
+  mention: 'notificationTypes.mention',
+  message: 'notificationTypes.message',
+  repost: 'notificationTypes.repost',
+  quote: 'notificationTypes.quote',
+}
+
+/**
+ * groupKey - Notifications with the same key may share a row
+ */
+function groupKey(notification: Notification): string {
+  switch (notification.type) {
+    case 'like':
+      return notification.commentId ? `like:comment:${notification.commentId}` : `like:post:${notification.postId}`
+    case 'comment':
+      return `comment:${notification.postId}`
+    case 'follow':
+      return 'follow'
+    case 'follow_request':
+      return 'follow_request'
+    case 'repost':
+      return `repost:${notification.postId}`
+    case 'message':
+      return `message:${notification.conversationId ?? notification.fromUserId}`
+    case 'mention':
+    case 'quote':
+    case 'moderation':
+      return `${notification.type}:${notification.id}`
+  }
+}
+
+/**
+ * groupNotifications - Groups a list (any order) into rows, newest first
+ */
+export function groupNotifications(notifications: Notification[], windowMs = GROUP_WINDOW_MS): NotificationGroup[] {
+  const sorted = [...notifications].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  const groups: NotificationGroup[] = []
+  const open = new Map<string, NotificationGroup>()
+
+  for (const notification of sorted) {
+    const key = groupKey(notification)
+    const group = open.get(key)
+    const oldest = group?.notifications.at(-1)
+    if (group && oldest && oldest.createdAt.getTime() - notification.createdAt.getTime() <= windowMs) {
+      group.notifications.push(notification)
+      if (!group.actorIds.includes(notification.fromUserId)) group.actorIds.push(notification.fromUserId)
+      if (!notification.isRead) group.isRead = false
+      continue
+    }
+    const created: NotificationGroup = {
+      key: `${key}:${notification.id}`,
+      type: notification.type,
+      notifications: [notification],
+      actorIds: [notification.fromUserId],
+      latest: notification,
+      isRead: notification.isRead,
+    }
+    groups.push(created)
+    open.set(key, created)
+  }
+  return groups
+}
+
+/**
+ * actorsLabel - "Alice", "Alice and Bob", "Alice and 12 others"
+ */
+export function actorsLabel(actorIds: string[], users: Record<string, User>, t: Translate): string {
+  const first = users[actorIds[0]]?.firstName ?? t('notifications.someone')
+  if (actorIds.length === 1) return first
+  if (actorIds.length === 2) {
+    return t('notifications.twoActors', {
+      first,
+      second: users[actorIds[1]]?.firstName ?? t('notifications.someoneElse'),
+    })
+  }
+  return t('notifications.manyActors', { first, count: actorIds.length - 1 })
+}
+
+/** The sentence of each grouped type; {actors} did it, {count} of them */
+const GROUP_SENTENCES: Record<Exclude<NotificationType, 'moderation'>, MessageKey> = {
+  like: 'notifications.like',
+  comment: 'notifications.comment',
+  follow: 'notifications.follow',
+  follow_request: 'notifications.followRequest',
+  mention: 'notifications.mention',
+  message: 'notifications.message',
+  repost: 'notifications.repost',
+  quote: 'notifications.quote',
+}
+
+/**
+ * describeNotificationGroup - The whole sentence for one row
+ *
+ * UPDATED: Step 2.24 - Translated; the sentences also get the number of
+ * actors, since verbs agree with it in Spanish and Arabic
+ *
+ * @example describeNotificationGroup(group, users, t, 'en') // 'Alice and 12 others liked your post'
+ */
+export function describeNotificationGroup(
+  group: NotificationGroup,
+  users: Record<string, User>,
+  t: Translate,
+  locale: Locale,
+): string {
+  if (group.type === 'moderation') {
+    const notice = group.latest.moderation
+    return notice ? describeModerationNotice(notice, t, locale) : t('notifications.moderation')
+  }
+  return t(GROUP_SENTENCES[group.type], {
+    actors: actorsLabel(group.actorIds, users, t),
+    count: group.actorIds.length,
+    target: group.latest.commentId ? 'comment' : 'post',
+    messages: group.notifications.length,
+  })
+}
+
+/**
+ * unavailableTargetLabel - What to say instead of a link when the target
+ * was deleted (or can no longer be seen)
+ */
+export function unavailableTargetLabel(notification: Notification, t: Translate): string {
+  if (notification.type === 'follow_request') return t('notifications.requestAnswered')
+  if (notification.messageId) return t('notifications.messageGone')
+  if (notification.commentId) return t('notifications.commentGone')
+  return t('notifications.postGone')
+}
+
+/**
+ * notificationPath - Where a row leads, or null if there is nowhere to go
+ *
+ * - Posts, comments and mentions → the post page (for a repost the
+ *   reposted post, for a quote the quote)
+ * - Messages → the conversation
+ * - Follows → the newest follower's profile (null until they are loaded)
+ * - Follow requests → the settings page, where they are answered
+ * - Moderation notices → the post or conversation concerned, if any
+ */
+export function notificationPath(group: NotificationGroup, users: Record<string, User>): string | null {
+  const { latest } = group
+  if (latest.targetDeleted) return null
+  if (latest.type === 'message') return latest.conversationId ? conversationPath(latest.conversationId) : null
+  if (latest.type === 'follow_request') return ROUTES.settings
+  if (latest.type === 'moderation') {
+    if (latest.conversationId) return conversationPath(latest.conversationId)
+    return latest.postId ? postPath(latest.postId) : null
+  }
+  if (latest.postId) return postPath(latest.postId)
+  const follower = users[latest.fromUserId]
+  return follower ? profilePath(follower.username) : null
+}
@@ -0,0 +1,87 @@
+/**
+ * ============================================================================
+ * STEP 2.18: Post Helpers - Shared Posts, Edit Window and List Updates
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.18 (Reposts, quote posts, edit history)
+ * UPDATED: Feature Phase - Step 2.21 (shownPostIds for live updates)
+ * PURPOSE: The small decisions post cards and post lists make about
+ *          reposts, quotes, editing and deleted posts, in one place. The
+ *          rules themselves are enforced by the backend
+ *          (services/mock/posts.ts).
+ *
+ * LEARNING NOTES:
+ * - A repost carries no content of its own: cards show its `shared` post
+ *   (the original), and likes, comments and reposts go to that original
+ * - When a post is deleted, lists drop it together with its reposts (the
+ *   server deleted those too) and turn quotes of it into "original removed"
+ */
+
+import type { Post, User } from '../types'
+import { validatePostEditWindow } from '../validation'
+
+/**
+ * sharedPostOf - The reposted or quoted post, when the viewer may see it
+ */
+export function sharedPostOf(post: Post): Post | undefined {
+  return post.shared?.status === 'available' ? post.shared.post : undefined
+}
+
+/**
+ * postAuthorIds - Everyone whose name the cards for these posts show:
+ * the authors and the authors of the posts they share
+ */
+export function postAuthorIds(posts: Post[]): string[] {
+  return posts.flatMap((post) => {
+    const shared = sharedPostOf(post)
+    return shared ? [post.authorId, shared.authorId] : [post.authorId]
+  })
+}
+
+/**
+ * shownPostIds - Every post whose likes and comments these cards show:
+ * the posts and the posts they share
+ */
+export function shownPostIds(posts: Post[]): string[] {
+  return posts.flatMap((post) => {
+    const shared = sharedPostOf(post)
+    return shared ? [post.id, shared.id] : [post.id]
+  })
+}
+
+/**
+ * canEditPost - Whether the viewer may still edit the post: their own,
+ * not a repost, not removed by a moderator, on the server, and within
+ * POST_EDIT_WINDOW_MS
+ */
+export function canEditPost(post: Post, viewerId: string | undefined, now = new Date()): boolean {
+  if (!viewerId || post.authorId !== viewerId) return false
+  if (post.repostOf || post.isPending || post.moderation === 'removed') return false
+  return validatePostEditWindow(post.createdAt, now) === null
+}
+
+/**
+ * canSharePost - Whether the post can be reposted or quoted: public, by a
+ * public account, unmoderated and on the server
+ */
+export function canSharePost(post: Post, author: User | undefined): boolean {
+  return post.audience === 'public' && !author?.isPrivate && !post.moderation && !post.isPending
+}
+
+/**
+ * afterPostRemoved - How a listed post looks once `removedId` was deleted:
+ * null if it goes too (the post itself or a repost of it), marked
+ * "original removed" if it quotes it, otherwise unchanged
+ */
+export function afterPostRemoved(post: Post, removedId: string): Post | null {
+  if (post.id === removedId || post.repostOf === removedId) return null
+  if (post.quoteOf === removedId) return { ...post, shared: { status: 'deleted' } }
+  return post
+}
+
+/**
+ * withoutPost - afterPostRemoved over a whole list
+ */
+export function withoutPost(posts: Post[], removedId: string): Post[] {
+  return posts.flatMap((post) => afterPostRemoved(post, removedId) ?? [])
+}
@@ -0,0 +1,51 @@
+/**
+ * ============================================================================
+ * STEP 2.14: Privacy Helpers - Wording for Audiences and Private Accounts
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.14 (Privacy model)
+ * UPDATED: Feature Phase - Step 2.24 (labels are message keys)
+ * PURPOSE: The labels the composer, post cards and profiles use for who
+ *          can see what. The rules themselves are enforced by the backend
+ *          (services/mock/accessPolicy.ts).
+ */
+
+import type { MessageKey } from '../i18n'
+import type { FollowStatus, PostAudience, User } from '../types'
+
+/**
+ * POST_AUDIENCE_LABELS - Short names for the composer menu and post badges
+ */
+export const POST_AUDIENCE_LABELS: Record<PostAudience, MessageKey> = {
+  public: 'audience.public',
+  followers: 'audience.followers',
+  mentioned: 'audience.mentioned',
+}
+
+/**
+ * POST_AUDIENCE_HINTS - One-line explanations shown under the menu
+ */
+export const POST_AUDIENCE_HINTS: Record<PostAudience, MessageKey> = {
+  public: 'audience.publicHint',
+  followers: 'audience.followersHint',
+  mentioned: 'audience.mentionedHint',
+}
+
+/**
+ * ProfileVisibility - How much of a profile the viewer may see
+ * - visible: everything
+ * - private: the header only; posts, likes and follow lists need approval
+ * - blocked: the viewer blocked this user (the header offers Unblock)
+ */
+export type ProfileVisibility = 'visible' | 'private' | 'blocked'
+
+/**
+ * profileVisibility - The client's reading of the backend's rules, so a
+ * profile can explain itself instead of showing an empty or failing list
+ */
+export function profileVisibility(user: User, status: FollowStatus | null, isOwnProfile: boolean): ProfileVisibility {
+  if (isOwnProfile) return 'visible'
+  if (status?.isBlocking) return 'blocked'
+  if (user.isPrivate && !status?.isFollowing) return 'private'
+  return 'visible'
+}
@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * STEP 2.13: Profile Helpers - Editable Fields and Change Sets
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.13 (Profile pages)
+ * UPDATED: Feature Phase - Step 2.14 (account settings: isPrivate)
+ * UPDATED: Feature Phase - Step 2.17 (the photos are uploads)
+ * PURPOSE: One list of the User fields a person may edit, shared by the
+ *          edit form and the backend that enforces it
+ *
+ * Editable vs Protected:
+ * - Editable: the ProfileForm fields (username, names, bio, location,
+ *   website, avatar, cover image)
+ * - Settings: on/off switches saved the same way (isPrivate), but from
+ *   the settings page instead of the edit form
+ * - Protected: everything else on User. id and createdAt identify the
+ *   record, isVerified is granted by staff, followers/following change
+ *   only by following, email has its own flow
+ *
+ * LEARNING NOTES:
+ * - An allow-list (what MAY change) fails safe: a field added to User
+ *   later is protected until someone decides otherwise. A block-list would
+ *   silently make every new field editable.
+ */
+
+import type { MediaPurpose, ProfileForm, User } from '../types'
+
+/**
+ * PROFILE_FIELDS - Every User field updateProfile accepts
+ */
+export const PROFILE_FIELDS: readonly (keyof ProfileForm)[] = [
+  'username',
+  'firstName',
+  'lastName',
+  'bio',
+  'location',
+  'website',
+  'avatar',
+  'coverImage',
+]
+
+/**
+ * SETTING_FIELDS - Boolean User fields updateProfile accepts
+ */
+export const SETTING_FIELDS: readonly SettingField[] = ['isPrivate']
+
+/**
+ * SettingField - A boolean account setting
+ */
+export type SettingField = 'isPrivate'
+
+/**
+ * PROFILE_PHOTOS - The image fields, and the upload purpose each takes
+ *
+ * Their values are the URLs of the user's own uploads (services/media);
+ * the backend refuses anything else.
+ */
+export const PROFILE_PHOTOS: Readonly<Record<'avatar' | 'coverImage', MediaPurpose>> = {
+  avatar: 'avatar',
+  coverImage: 'cover',
+}
+
+/** Fields that may be removed (saved as '' → cleared) */
+const OPTIONAL_FIELDS: readonly (keyof ProfileForm)[] = ['bio', 'location', 'website', 'avatar', 'coverImage']
+
+/**
+ * isProfileField - Type guard for keys of ProfileForm
+ */
+export function isProfileField(key: string): key is keyof ProfileForm {
+  return (PROFILE_FIELDS as readonly string[]).includes(key)
+}
+
+/**
+ * isSettingField - Type guard for SETTING_FIELDS
+ */
+export function isSettingField(key: string): key is SettingField {
+  return (SETTING_FIELDS as readonly string[]).includes(key)
+}
+
+/**
+ * isOptionalProfileField - An empty value clears the field
+ */
+export function isOptionalProfileField(key: keyof ProfileForm): boolean {
+  return OPTIONAL_FIELDS.includes(key)
+}
+
+/**
+ * toProfileForm - The edit form's starting values for a user
+ */
+export function toProfileForm(user: Pick<User, keyof ProfileForm>): ProfileForm {
+  return {
+    username: user.username,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    bio: user.bio ?? '',
+    location: user.location ?? '',
+    website: user.website ?? '',
+    avatar: user.avatar ?? '',
+    coverImage: user.coverImage ?? '',
+  }
+}
+
+/**
+ * profileChanges - Only the fields that differ from the user, trimmed
+ *
+ * Cleared optional fields are sent as '' (not undefined, which JSON would
+ * drop), and the backend removes them.
+ *
+ * @example profileChanges(user, { ...toProfileForm(user), bio: ' Hi ' }) // { bio: 'Hi' }
+ */
+export function profileChanges(user: User, form: ProfileForm): Partial<ProfileForm> {
+  const before = toProfileForm(user)
+  const changes: Partial<ProfileForm> = {}
+  for (const field of PROFILE_FIELDS) {
+    const value = form[field].trim()
+    if (value !== before[field]) changes[field] = value
+  }
+  return changes
+}
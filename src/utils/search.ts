@@ -0,0 +1,146 @@
+/**
+ * ============================================================================
+ * STEP 2.11: Search Helpers - Tokens, URL State and Highlighting
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.11 (Search)
+ * UPDATED: Feature Phase - Step 2.24 (filter labels are message keys)
+ * PURPOSE: Shared by the search index (mock backend) and the search page
+ *
+ * Search State Lives in the URL:
+ * - /search?q=react&type=posts&sort=popular
+ * - Back/forward, reloads and shared links all restore the same search
+ * - Default values are left out, so a plain search stays /search?q=react
+ *
+ * Tokens:
+ * - Lowercased, accents removed ("José" → "jose"), split on anything that
+ *   is not a letter, digit or underscore
+ * - A leading # or @ is kept ("#react", "@alice")
+ *
+ * LEARNING NOTES:
+ * - The index and the highlighter use the SAME tokenize(), so a word the
+ *   server reports as matched is found again in the text on screen
+ */
+
+import type { MessageKey } from '../i18n'
+import type { SearchFilters, SearchResult } from '../types'
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+const TOKEN_PATTERN = /[#@]?[\p{L}\p{N}_]+/gu
+
+/**
+ * normalizeWord - Lowercase and without accents
+ */
+function normalizeWord(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+/**
+ * tokenize - Lowercase, accent-free words; # and @ prefixes kept
+ *
+ * @example tokenize('Café #React!') // ['cafe', '#react']
+ */
+export function tokenize(text: string): string[] {
+  return [...normalizeWord(text).matchAll(TOKEN_PATTERN)].map((match) => match[0])
+}
+
+// ============================================================================
+// URL STATE
+// ============================================================================
+
+/** Filters used when the URL does not say otherwise */
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = { query: '', type: 'all', sortBy: 'relevance' }
+
+export const SEARCH_TYPE_LABELS: Record<SearchFilters['type'], MessageKey> = {
+  all: 'search.all',
+  users: 'search.people',
+  posts: 'search.posts',
+}
+
+export const SEARCH_SORT_LABELS: Record<SearchFilters['sortBy'], MessageKey> = {
+  relevance: 'search.relevance',
+  recent: 'search.recent',
+  popular: 'search.popular',
+}
+
+/**
+ * isOneOf - Narrows a URL value to one of a label table's keys
+ */
+function isOneOf<K extends string>(value: string | null, labels: Record<K, string>): value is K {
+  return value !== null && Object.hasOwn(labels, value)
+}
+
+/**
+ * parseSearchFilters - Reads ?q, ?type and ?sort; unknown values fall back
+ * to the defaults instead of breaking the page
+ */
+export function parseSearchFilters(params: URLSearchParams): SearchFilters {
+  const type = params.get('type')
+  const sort = params.get('sort')
+  return {
+    query: params.get('q') ?? DEFAULT_SEARCH_FILTERS.query,
+    type: isOneOf(type, SEARCH_TYPE_LABELS) ? type : DEFAULT_SEARCH_FILTERS.type,
+    sortBy: isOneOf(sort, SEARCH_SORT_LABELS) ? sort : DEFAULT_SEARCH_FILTERS.sortBy,
+  }
+}
+
+/**
+ * searchParamsFor - The reverse of parseSearchFilters, defaults omitted
+ *
+ * @example searchParamsFor({ query: 'react', type: 'all', sortBy: 'recent' }).toString()
+ * // 'q=react&sort=recent'
+ */
+export function searchParamsFor(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.query) params.set('q', filters.query)
+  if (filters.type !== DEFAULT_SEARCH_FILTERS.type) params.set('type', filters.type)
+  if (filters.sortBy !== DEFAULT_SEARCH_FILTERS.sortBy) params.set('sort', filters.sortBy)
+  return params
+}
+
+/**
+ * resultKey - Users and posts share one list, so keys carry the kind
+ */
+export function resultKey(result: SearchResult): string {
+  return result.kind === 'user' ? `user:${result.user.id}` : `post:${result.post.id}`
+}
+
+// ============================================================================
+// HIGHLIGHTING
+// ============================================================================
+
+/**
+ * HighlightSegment - A run of text, marked if it matched the search
+ */
+export interface HighlightSegment {
+  text: string
+  isMatch: boolean
+}
+
+/**
+ * highlightMatches - Splits `text` so matched words can be wrapped in <mark>
+ *
+ * `terms` are the index terms the server reported (SearchResult.matches);
+ * a word matches if its token, with or without its # or @, is one of them.
+ *
+ * @example highlightMatches('Hi José', ['jose'])
+ * // [{ text: 'Hi ', isMatch: false }, { text: 'José', isMatch: true }]
+ */
+export function highlightMatches(text: string, terms: string[]): HighlightSegment[] {
+  const wanted = new Set(terms)
+  const segments: HighlightSegment[] = []
+  let last = 0
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = normalizeWord(match[0])
+    if (!wanted.has(token) && !wanted.has(token.replace(/^[#@]/, ''))) continue
+    if (match.index > last) segments.push({ text: text.slice(last, match.index), isMatch: false })
+    segments.push({ text: match[0], isMatch: true })
+    last = match.index + match[0].length
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), isMatch: false })
+  return segments
+}
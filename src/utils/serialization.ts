@@ -0,0 +1,78 @@
+/**
+ * ============================================================================
+ * STEP 2.2: Serialization Helpers - Keeping Dates as Dates
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * UPDATED: Feature Phase - Step 2.15 (moderation dates)
+ * UPDATED: Feature Phase - Step 2.20 (editedAt; store snapshots from devtools)
+ * UPDATED: Feature Phase - Step 2.22 (account and session dates)
+ * UPDATED: Feature Phase - Step 2.23 (account archives)
+ * PURPOSE: Turn ISO date strings back into Date objects after JSON.parse
+ *
+ * The Problem:
+ * - JSON.stringify(new Date()) produces a string like "2025-01-01T00:00:00.000Z"
+ * - JSON.parse gives that string back, NOT a Date
+ * - Our interfaces promise `createdAt: Date`, so calling .getTime() on the
+ *   parsed value would crash at runtime even though TypeScript is happy
+ *
+ * The Solution:
+ * - JSON.parse accepts a "reviver" callback that can transform every value
+ * - We revive only known date keys, so a post whose content happens to look
+ *   like a date is left alone
+ *
+ * LEARNING NOTES:
+ * - TypeScript types disappear at runtime; data from storage or the network
+ *   must be converted by hand
+ */
+
+// ============================================================================
+// DATE FIELDS
+// ============================================================================
+
+/**
+ * DATE_KEYS - Property names that always hold a Date in our types
+ */
+const DATE_KEYS = new Set([
+  'createdAt',
+  'updatedAt',
+  'expiresAt',
+  'suspendedUntil',
+  'authorSuspendedUntil',
+  'resolvedAt',
+  'firstReportedAt',
+  'editedAt',
+  'emailVerifiedAt',
+  'lastSeenAt',
+  'exportedAt',
+])
+
+/**
+ * ISO_DATE_PATTERN - Matches the format produced by Date.prototype.toJSON
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// ============================================================================
+// PUBLIC HELPERS
+// ============================================================================
+
+/**
+ * dateReviver - JSON.parse reviver that restores Date fields
+ *
+ * @example JSON.parse(text, dateReviver)
+ */
+export function dateReviver(key: string, value: unknown): unknown {
+  if (DATE_KEYS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value)
+  }
+  return value
+}
+
+/**
+ * parseJson - JSON.parse with Date revival and a typed result
+ *
+ * The generic <T> is a promise from the caller, not a runtime check.
+ */
+export function parseJson<T>(text: string): T {
+  return JSON.parse(text, dateReviver) as T
+}
@@ -0,0 +1,65 @@
+/**
+ * ============================================================================
+ * STEP 2.2: Local Storage Helpers - Typed JSON Persistence
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.2 (Authentication)
+ * PURPOSE: Read and write JSON values in localStorage safely
+ *
+ * Why Wrap localStorage:
+ * - localStorage only stores strings; these helpers handle JSON for us
+ * - Dates are revived on the way out (see serialization.ts)
+ * - Corrupt or missing values fall back instead of throwing
+ * - Private browsing modes can make localStorage throw on write
+ *
+ * LEARNING NOTES:
+ * - All keys are prefixed so our data is easy to find in DevTools
+ *   (Application → Local Storage)
+ */
+
+import { parseJson } from './serialization'
+
+/**
+ * KEY_PREFIX - Namespace for every key this app writes
+ */
+const KEY_PREFIX = 'hsm.'
+
+/**
+ * readJson - Reads and parses a stored value
+ *
+ * @param key - Key without the prefix
+ * @param fallback - Returned when nothing (or something unreadable) is stored
+ */
+export function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + key)
+    return raw === null ? fallback : parseJson<T>(raw)
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * writeJson - Serializes and stores a value
+ *
+ * Write failures (quota exceeded, storage disabled) are swallowed: losing a
+ * cached value must never crash the UI.
+ */
+export function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value))
+  } catch {
+    // Storage unavailable - nothing sensible to do
+  }
+}
+
+/**
+ * removeKey - Deletes a stored value
+ */
+export function removeKey(key: string): void {
+  try {
+    localStorage.removeItem(KEY_PREFIX + key)
+  } catch {
+    // Storage unavailable - nothing to remove
+  }
+}
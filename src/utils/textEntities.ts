@@ -0,0 +1,198 @@
+/**
+ * ============================================================================
+ * STEP 2.6: Text Entities - #hashtags and @mentions
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.6 (Post composer)
+ * UPDATED: Feature Phase - Step 2.19 (NFKC tags, combining marks, isValidTag)
+ * PURPOSE: Find hashtags and mentions in post text, for tagging, mention
+ *          notifications, autocomplete and link rendering
+ *
+ * Shared Rules:
+ * - The composer (browser) and the mock server both import this file, so
+ *   the tags shown while typing are exactly the tags the server stores
+ *
+ * What Counts as an Entity:
+ * - #tag: letters (any script, with their combining marks), digits and
+ *   underscores, not all digits ("#1" is a ranking, not a topic), preceded
+ *   by start/space/punctuation
+ * - @name: the username alphabet (A-Z, 0-9, _), NOT preceded by a word
+ *   character, so "bob@example.com" is not a mention of @example
+ *
+ * Regex Concepts Demonstrated:
+ * - The `u` flag enables \p{L} (any Unicode letter), \p{M} (combining
+ *   marks, e.g. Devanagari vowel signs) and \p{N} (any digit)
+ * - Capture groups: group 1 is the leading boundary, group 2 the entity
+ * - `g` + matchAll() iterates every match with its index
+ */
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{M}\p{N}_&#])#([\p{L}\p{M}\p{N}_]+)/gu
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_@])@([A-Za-z0-9_]+)/gu
+
+/**
+ * ACTIVE_ENTITY_PATTERN - A trigger and partial word ending at the caret
+ */
+const ACTIVE_ENTITY_PATTERN = /(?:^|[^\p{L}\p{M}\p{N}_&#@])([#@])([\p{L}\p{M}\p{N}_]*)$/u
+
+/**
+ * TAG_WORD_PATTERN - A whole normalized tag (Step 2.19)
+ */
+const TAG_WORD_PATTERN = /^[\p{L}\p{M}\p{N}_]+$/u
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * normalizeTag - Canonical form used for storage and comparison
+ *
+ * NFKC first so "é" typed as e + combining accent equals the single-character
+ * "é", and full-width "Ｒｅａｃｔ" equals "React" (UPDATED: Step 2.19; was
+ * NFC); then lowercase so #React and #react are the same topic. Lowercasing
+ * can leave a letter and its accent uncomposed, so the result is composed
+ * once more.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').normalize('NFKC').toLowerCase().normalize('NFC')
+}
+
+/**
+ * isTagWord - Rejects digit-only words like "#1"
+ */
+function isTagWord(word: string): boolean {
+  return !/^\p{N}+$/u.test(word)
+}
+
+/**
+ * isValidTag - Whether a normalized tag could have come from post text
+ *
+ * CREATED: Step 2.19 - Tags arriving in URLs (/tag/:name) are checked with
+ * this before they are looked up or followed
+ */
+export function isValidTag(tag: string): boolean {
+  return TAG_WORD_PATTERN.test(tag) && isTagWord(tag)
+}
+
+/**
+ * extractHashtags - Unique, normalized hashtags in order of first use
+ *
+ * @example extractHashtags('Loving #React and #react!') // ['react']
+ */
+export function extractHashtags(text: string): string[] {
+  const tags = new Set<string>()
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    if (isTagWord(match[2])) tags.add(normalizeTag(match[2]))
+  }
+  return [...tags]
+}
+
+/**
+ * extractMentions - Unique usernames mentioned, lowercased, in order
+ *
+ * Usernames are case-insensitive (see the users handler), so @Bob and @bob
+ * mention the same person.
+ */
+export function extractMentions(text: string): string[] {
+  const names = new Set<string>()
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    names.add(match[2].toLowerCase())
+  }
+  return [...names]
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * TextSegment - A slice of post text, tagged with what it is
+ */
+export type TextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; username: string }
+
+/**
+ * segmentText - Splits text into plain runs, hashtags and mentions
+ *
+ * Rendering code maps segments to <span>/<Link> elements, which keeps user
+ * text out of dangerouslySetInnerHTML entirely.
+ */
+export function segmentText(text: string): TextSegment[] {
+  const found: { start: number; end: number; segment: TextSegment }[] = []
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    if (!isTagWord(match[2])) continue
+    const start = match.index + match[1].length
+    const raw = `#${match[2]}`
+    found.push({ start, end: start + raw.length, segment: { type: 'hashtag', text: raw, tag: normalizeTag(match[2]) } })
+  }
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = match.index + match[1].length
+    const raw = `@${match[2]}`
+    found.push({ start, end: start + raw.length, segment: { type: 'mention', text: raw, username: match[2] } })
+  }
+  found.sort((a, b) => a.start - b.start)
+
+  const segments: TextSegment[] = []
+  let position = 0
+  for (const { start, end, segment } of found) {
+    if (start < position) continue
+    if (start > position) segments.push({ type: 'text', text: text.slice(position, start) })
+    segments.push(segment)
+    position = end
+  }
+  if (position < text.length) segments.push({ type: 'text', text: text.slice(position) })
+  return segments
+}
+
+// ============================================================================
+// AUTOCOMPLETE
+// ============================================================================
+
+/**
+ * ActiveEntity - The hashtag or mention the caret is currently inside
+ * - start: Index of the # or @
+ * - end: Caret position
+ */
+export interface ActiveEntity {
+  trigger: '#' | '@'
+  query: string
+  start: number
+  end: number
+}
+
+/**
+ * findActiveEntity - What the user is typing right before the caret, if it
+ * is a hashtag or mention
+ *
+ * @example findActiveEntity('hi @bo', 6) // { trigger: '@', query: 'bo', start: 3, end: 6 }
+ */
+export function findActiveEntity(text: string, caret: number): ActiveEntity | null {
+  const match = ACTIVE_ENTITY_PATTERN.exec(text.slice(0, caret))
+  if (!match) return null
+  const trigger = match[1] as ActiveEntity['trigger']
+  const query = match[2]
+  // Mentions only use the username alphabet
+  if (trigger === '@' && !/^[A-Za-z0-9_]*$/.test(query)) return null
+  return { trigger, query, start: caret - query.length - 1, end: caret }
+}
+
+/**
+ * applyCompletion - Replaces the active entity with a chosen suggestion
+ *
+ * @returns The new text and where the caret should go (after a space)
+ */
+export function applyCompletion(
+  text: string,
+  entity: ActiveEntity,
+  value: string,
+): { text: string; caret: number } {
+  const insert = `${entity.trigger}${value} `
+  const rest = text.slice(entity.end).replace(/^\s/, '')
+  return { text: text.slice(0, entity.start) + insert + rest, caret: entity.start + insert.length }
+}
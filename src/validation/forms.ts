@@ -0,0 +1,426 @@
+/**
+ * ============================================================================
+ * STEP 2.3: Form Validators - LoginForm, RegisterForm, PostForm
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * UPDATED: Feature Phase - Step 2.7 (comment form)
+ * UPDATED: Feature Phase - Step 2.9 (new group form)
+ * UPDATED: Feature Phase - Step 2.13 (edit-profile form)
+ * UPDATED: Feature Phase - Step 2.14 (post audience)
+ * UPDATED: Feature Phase - Step 2.15 (report and moderation-action forms)
+ * UPDATED: Feature Phase - Step 2.17 (images already uploaded count toward the limit)
+ * UPDATED: Feature Phase - Step 2.22 (password change and reset, email change)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions)
+ * UPDATED: Feature Phase - Step 2.24 (errors made here name their subject too)
+ * PURPOSE: Validate whole forms by combining single-field rules
+ *
+ * Where These Run:
+ * - In the UI: forms call them on blur and on submit for instant feedback
+ * - In services: backends call them again before saving anything
+ *
+ * Concepts Demonstrated:
+ * - Composition: each form validator is a list of rule calls
+ * - Optional dependencies: uniqueness checks are passed in as callbacks, so
+ *   this module never needs to know where users are stored
+ *
+ * LEARNING NOTES:
+ * - Validators only report the FIRST problem per field; showing five errors
+ *   under one input is overwhelming
+ */
+
+import type {
+  ChangeEmailForm,
+  ChangePasswordForm,
+  LoginForm,
+  ModerationActionForm,
+  PasswordResetForm,
+  PostForm,
+  ProfileForm,
+  RegisterForm,
+  ReportForm,
+} from '../types'
+import { extractMentions } from '../utils/textEntities'
+import type { FieldError, FieldErrors, ValidationResult } from './types'
+import { toResult } from './types'
+import {
+  MODERATION_ACTION_TYPES,
+  validateBio,
+  validateCommentContent,
+  validateEmail,
+  validateGroupName,
+  validateGroupSize,
+  validateImageAlts,
+  validateLocation,
+  validateModerationNote,
+  validateName,
+  validatePassword,
+  validatePostAudience,
+  validatePostContent,
+  validatePostImages,
+  validatePostTags,
+  validateReportDetails,
+  validateReportReason,
+  validateSuspensionDays,
+  validateUsername,
+  validateWebsite,
+} from './rules'
+
+// ============================================================================
+// LOGIN
+// ============================================================================
+
+/**
+ * validateLoginForm - Email must be well-formed, password present
+ *
+ * Password strength is deliberately NOT checked at login.
+ */
+export function validateLoginForm(form: LoginForm): ValidationResult<LoginForm> {
+  const errors: FieldErrors<LoginForm> = {}
+
+  const email = validateEmail(form.email)
+  if (email) errors.email = email
+  if (!form.password)
+    errors.password = { code: 'required', message: 'Password is required.', params: { field: 'password' } }
+
+  return toResult(errors)
+}
+
+// ============================================================================
+// REGISTER
+// ============================================================================
+
+/**
+ * RegisterValidationOptions - Lookups for uniqueness checks
+ * - isUsernameTaken: Case-insensitive username lookup
+ * - isEmailTaken: Email lookup
+ */
+export interface RegisterValidationOptions {
+  isUsernameTaken?: (username: string) => boolean
+  isEmailTaken?: (email: string) => boolean
+}
+
+/**
+ * validateRegisterForm - Every field of RegisterForm
+ *
+ * Uniqueness is only checked once the format is valid: no point asking
+ * whether "a b" is taken when it is not a legal username anyway.
+ */
+export function validateRegisterForm(
+  form: RegisterForm,
+  options: RegisterValidationOptions = {},
+): ValidationResult<RegisterForm> {
+  const errors: FieldErrors<RegisterForm> = {}
+
+  const firstName = validateName(form.firstName, 'firstName')
+  if (firstName) errors.firstName = firstName
+
+  const lastName = validateName(form.lastName, 'lastName')
+  if (lastName) errors.lastName = lastName
+
+  const username = validateUsername(form.username)
+  if (username) {
+    errors.username = username
+  } else if (options.isUsernameTaken?.(form.username.trim())) {
+    errors.username = { code: 'taken', message: 'That username is already taken.', params: { field: 'username' } }
+  }
+
+  const email = validateEmail(form.email)
+  if (email) {
+    errors.email = email
+  } else if (options.isEmailTaken?.(form.email.trim().toLowerCase())) {
+    errors.email = { code: 'taken', message: 'An account with this email already exists.', params: { field: 'email' } }
+  }
+
+  const password = validatePassword(form.password)
+  if (password) errors.password = password
+
+  if (!form.confirmPassword) {
+    errors.confirmPassword = {
+      code: 'required',
+      message: 'Please confirm your password.',
+      params: { field: 'confirmPassword' },
+    }
+  } else if (form.confirmPassword !== form.password) {
+    errors.confirmPassword = {
+      code: 'mismatch',
+      message: 'Passwords do not match.',
+      params: { field: 'confirmPassword' },
+    }
+  }
+
+  return toResult(errors)
+}
+
+// ============================================================================
+// POST
+// ============================================================================
+
+/**
+ * validatePostForm - Content length, attached images and their descriptions,
+ * hashtags and audience
+ */
+export function validatePostForm(form: PostForm): ValidationResult<PostForm> {
+  const errors: FieldErrors<PostForm> = {}
+  const images = form.images ?? []
+  const uploaded = form.mediaIds?.length ?? 0
+
+  const content = validatePostContent(form.content, images.length + uploaded > 0)
+  if (content) errors.content = content
+
+  const imageError = validatePostImages(images, uploaded)
+  if (imageError) errors.images = imageError
+
+  const altError = validateImageAlts(form.imageAlts ?? [], images.length + uploaded)
+  if (altError) errors.imageAlts = altError
+
+  const tagError = validatePostTags(form.tags ?? [])
+  if (tagError) errors.tags = tagError
+
+  const audienceError = validatePostAudience(form.audience, extractMentions(form.content).length)
+  if (audienceError) errors.audience = audienceError
+
+  return toResult(errors)
+}
+
+// ============================================================================
+// COMMENT
+// ============================================================================
+
+/**
+ * CommentForm - Values of the comment / reply / edit box
+ *
+ * CREATED: Step 2.7 - Comments only have text, so the type lives here
+ * instead of with the entity types
+ */
+export interface CommentForm {
+  content: string
+}
+
+/**
+ * validateCommentForm - Non-empty text within COMMENT_MAX_LENGTH
+ */
+export function validateCommentForm(form: CommentForm): ValidationResult<CommentForm> {
+  const errors: FieldErrors<CommentForm> = {}
+  const content = validateCommentContent(form.content)
+  if (content) errors.content = content
+  return toResult(errors)
+}
+
+// ============================================================================
+// GROUP
+// ============================================================================
+
+/**
+ * GroupForm - Values of the "New group" form
+ *
+ * CREATED: Step 2.9 - participantIds excludes the creator; a name is
+ * optional (the member names are shown instead)
+ */
+export interface GroupForm {
+  groupName: string
+  participantIds: string[]
+}
+
+/**
+ * validateGroupForm - Enough members, and a valid name if one is given
+ */
+export function validateGroupForm(form: GroupForm): ValidationResult<GroupForm> {
+  const errors: FieldErrors<GroupForm> = {}
+  const size = validateGroupSize(form.participantIds.length + 1)
+  if (size) errors.participantIds = size
+  const name = form.groupName.trim() ? validateGroupName(form.groupName) : null
+  if (name) errors.groupName = name
+  return toResult(errors)
+}
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+
+/**
+ * ProfileValidationOptions - Lookups for the username check
+ * - isUsernameTaken: Case-insensitive lookup that ignores the editing user,
+ *   so keeping (or re-casing) your own username is allowed
+ */
+export interface ProfileValidationOptions {
+  isUsernameTaken?: (username: string) => boolean
+}
+
+/**
+ * validateProfileForm - Every field of the edit-profile form
+ *
+ * CREATED: Step 2.13 - Same username rules as registration, plus the
+ * optional bio, location and website
+ *
+ * UPDATED: Step 2.17 - The images are uploads; the server checks that
+ * they are the user's own (imageError in services/mock/photos.ts)
+ */
+export function validateProfileForm(
+  form: ProfileForm,
+  options: ProfileValidationOptions = {},
+): ValidationResult<ProfileForm> {
+  const errors: FieldErrors<ProfileForm> = {}
+
+  const username = validateUsername(form.username)
+  if (username) {
+    errors.username = username
+  } else if (options.isUsernameTaken?.(form.username.trim())) {
+    errors.username = { code: 'taken', message: 'That username is already taken.', params: { field: 'username' } }
+  }
+
+  const firstName = validateName(form.firstName, 'firstName')
+  if (firstName) errors.firstName = firstName
+  const lastName = validateName(form.lastName, 'lastName')
+  if (lastName) errors.lastName = lastName
+
+  const bio = validateBio(form.bio)
+  if (bio) errors.bio = bio
+  const location = validateLocation(form.location)
+  if (location) errors.location = location
+  const website = validateWebsite(form.website)
+  if (website) errors.website = website
+
+  return toResult(errors)
+}
+
+// ============================================================================
+// ACCOUNT
+// ============================================================================
+
+/**
+ * confirmError - The "type it again" check shared by every new-password form
+ */
+function confirmError(password: string, confirmation: string): FieldError | null {
+  if (!confirmation)
+    return { code: 'required', message: 'Please confirm your password.', params: { field: 'confirmPassword' } }
+  if (confirmation !== password)
+    return { code: 'mismatch', message: 'Passwords do not match.', params: { field: 'confirmPassword' } }
+  return null
+}
+
+/**
+ * validateChangePasswordForm - The current password, and a new one that
+ * follows the strength rules and differs from it
+ *
+ * CREATED: Step 2.22 - Whether the current password is RIGHT is for the
+ * backend to say
+ */
+export function validateChangePasswordForm(form: ChangePasswordForm): ValidationResult<ChangePasswordForm> {
+  const errors: FieldErrors<ChangePasswordForm> = {}
+
+  if (!form.currentPassword)
+    errors.currentPassword = {
+      code: 'required',
+      message: 'Current password is required.',
+      params: { field: 'currentPassword' },
+    }
+
+  const newPassword = validatePassword(form.newPassword)
+  if (newPassword) {
+    errors.newPassword = newPassword
+  } else if (form.newPassword === form.currentPassword) {
+    errors.newPassword = {
+      code: 'mismatch',
+      message: 'Choose a password you are not using now.',
+      params: { field: 'newPassword' },
+    }
+  }
+
+  const confirmPassword = confirmError(form.newPassword, form.confirmPassword)
+  if (confirmPassword) errors.confirmPassword = confirmPassword
+
+  return toResult(errors)
+}
+
+/**
+ * validatePasswordResetForm - A new password, typed twice
+ *
+ * CREATED: Step 2.22
+ */
+export function validatePasswordResetForm(form: PasswordResetForm): ValidationResult<PasswordResetForm> {
+  const errors: FieldErrors<PasswordResetForm> = {}
+
+  const password = validatePassword(form.password)
+  if (password) errors.password = password
+  const confirmPassword = confirmError(form.password, form.confirmPassword)
+  if (confirmPassword) errors.confirmPassword = confirmPassword
+
+  return toResult(errors)
+}
+
+/**
+ * ChangeEmailValidationOptions - Lookups for the new address
+ * - currentEmail: The address in use now (moving to it again is refused)
+ * - isEmailTaken: Whether another account already uses the address
+ */
+export interface ChangeEmailValidationOptions {
+  currentEmail?: string
+  isEmailTaken?: (email: string) => boolean
+}
+
+/**
+ * validateChangeEmailForm - A well-formed, different, unused address and
+ * the current password
+ *
+ * CREATED: Step 2.22
+ */
+export function validateChangeEmailForm(
+  form: ChangeEmailForm,
+  options: ChangeEmailValidationOptions = {},
+): ValidationResult<ChangeEmailForm> {
+  const errors: FieldErrors<ChangeEmailForm> = {}
+
+  const normalized = form.email.trim().toLowerCase()
+  const email = validateEmail(form.email)
+  if (email) {
+    errors.email = email
+  } else if (normalized === options.currentEmail) {
+    errors.email = { code: 'taken', message: 'This is already your email address.', params: { field: 'currentEmail' } }
+  } else if (options.isEmailTaken?.(normalized)) {
+    errors.email = { code: 'taken', message: 'An account with this email already exists.', params: { field: 'email' } }
+  }
+  if (!form.password)
+    errors.password = { code: 'required', message: 'Password is required.', params: { field: 'password' } }
+
+  return toResult(errors)
+}
+
+// ============================================================================
+// MODERATION
+// ============================================================================
+
+/**
+ * validateReportForm - A reason, and details when the reason is 'other'
+ *
+ * CREATED: Step 2.15 - The target is checked by the server, which knows
+ * whether it exists
+ */
+export function validateReportForm(form: ReportForm): ValidationResult<ReportForm> {
+  const errors: FieldErrors<ReportForm> = {}
+  const reason = validateReportReason(form.reason)
+  if (reason) errors.reason = reason
+  const details = validateReportDetails(form.details, form.reason)
+  if (details) errors.details = details
+  return toResult(errors)
+}
+
+/**
+ * validateModerationActionForm - A known action; warnings and suspensions
+ * need a note, suspensions a number of days
+ *
+ * CREATED: Step 2.15
+ */
+export function validateModerationActionForm(form: ModerationActionForm): ValidationResult<ModerationActionForm> {
+  const errors: FieldErrors<ModerationActionForm> = {}
+  if (!MODERATION_ACTION_TYPES.includes(form.type)) {
+    errors.type = { code: 'invalid_format', message: 'Choose an action.', params: { field: 'moderationAction' } }
+  }
+  const note = validateModerationNote(form.note ?? '', form.type === 'warn' || form.type === 'suspend')
+  if (note) errors.note = note
+  if (form.type === 'suspend') {
+    const days = validateSuspensionDays(Number(form.days))
+    if (days) errors.days = days
+  }
+  return toResult(errors)
+}
@@ -0,0 +1,35 @@
+/**
+ * ============================================================================
+ * STEP 2.3: Validation - Public Entry Point
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * PURPOSE: One import path for validators, limits and error types
+ *
+ * @example
+ * import { validateRegisterForm, ValidationError } from '../validation'
+ */
+
+export { ValidationError } from './types'
+export type { FieldError, FieldErrors, ValidationErrorCode, ValidationResult } from './types'
+export * from './rules'
+export {
+  validateChangeEmailForm,
+  validateChangePasswordForm,
+  validateCommentForm,
+  validateGroupForm,
+  validateLoginForm,
+  validateModerationActionForm,
+  validatePasswordResetForm,
+  validatePostForm,
+  validateProfileForm,
+  validateRegisterForm,
+  validateReportForm,
+} from './forms'
+export type {
+  ChangeEmailValidationOptions,
+  CommentForm,
+  GroupForm,
+  ProfileValidationOptions,
+  RegisterValidationOptions,
+} from './forms'
@@ -0,0 +1,602 @@
+/**
+ * ============================================================================
+ * STEP 2.3: Validation Rules - Single-Field Checks
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * UPDATED: Feature Phase - Step 2.15 (reports, moderation actions, muted keywords)
+ * UPDATED: Feature Phase - Step 2.17 (uploaded files and message attachments)
+ * UPDATED: Feature Phase - Step 2.18 (post edit window)
+ * UPDATED: Feature Phase - Step 2.25 (image descriptions)
+ * UPDATED: Feature Phase - Step 2.9 (message types a client may send)
+ * UPDATED: Feature Phase - Step 2.17 (profile and group photos are uploads)
+ * UPDATED: Feature Phase - Step 2.24 (errors name their subject and limit)
+ * PURPOSE: Small, pure functions that check one value each
+ *
+ * Design:
+ * - Every rule returns FieldError | null (null means "valid")
+ * - The error's params say what was checked and the limit it broke, so
+ *   the UI can say it in the reader's language (utils/fieldErrors.ts)
+ * - Rules are pure: same input, same output, no side effects
+ * - Limits are exported constants so the UI can show them (e.g. a
+ *   character counter reads POST_MAX_LENGTH)
+ *
+ * LEARNING NOTES:
+ * - Regular expressions:
+ *   ^ and $ anchor the match to the whole string
+ *   [A-Za-z0-9_] is a character class, {3,20} a length range
+ */
+
+import type { MediaPurpose, Message, ModerationActionType, PostAudience, ReportReason } from '../types'
+import type { FieldError, FieldErrorParams } from './types'
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export const USERNAME_MIN_LENGTH = 3
+export const USERNAME_MAX_LENGTH = 20
+export const PASSWORD_MIN_LENGTH = 8
+export const PASSWORD_MAX_LENGTH = 128
+export const NAME_MAX_LENGTH = 50
+export const POST_MAX_LENGTH = 500
+export const POST_MAX_IMAGES = 4
+export const IMAGE_ALT_MAX_LENGTH = 1000
+export const POST_MAX_TAGS = 10
+export const POST_EDIT_WINDOW_MS = 60 * 60 * 1000
+export const TAG_MAX_LENGTH = 50
+export const COMMENT_MAX_LENGTH = 1000
+export const MESSAGE_MAX_LENGTH = 2000
+export const GROUP_NAME_MAX_LENGTH = 50
+export const GROUP_MIN_MEMBERS = 3
+export const GROUP_MAX_MEMBERS = 50
+export const IMAGE_MAX_BYTES = 5 * 1024 * 1024
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024
+export const ATTACHMENT_MIME_TYPES = [...IMAGE_MIME_TYPES, 'application/pdf']
+export const MESSAGE_MAX_ATTACHMENTS = 4
+// 'system' messages are written by the server only (group changes)
+export const MESSAGE_TYPES: readonly Message['type'][] = ['text', 'image', 'file']
+export const BIO_MAX_LENGTH = 160
+export const LOCATION_MAX_LENGTH = 50
+export const WEBSITE_MAX_LENGTH = 200
+export const POST_AUDIENCES: readonly PostAudience[] = ['public', 'followers', 'mentioned']
+export const REPORT_REASONS: readonly ReportReason[] = [
+  'spam',
+  'harassment',
+  'hate',
+  'violence',
+  'sexual',
+  'misinformation',
+  'other',
+]
+export const REPORT_DETAILS_MAX_LENGTH = 500
+
+/**
+ * MEDIA_RULES - Allowed types and largest size per upload purpose
+ *
+ * CREATED: Step 2.17 - Post images, message attachments, profile and
+ * group photos share one upload service; the purpose picks the limits
+ */
+export const MEDIA_RULES: Record<MediaPurpose, { mimeTypes: readonly string[]; maxBytes: number }> = {
+  post: { mimeTypes: IMAGE_MIME_TYPES, maxBytes: IMAGE_MAX_BYTES },
+  message: { mimeTypes: ATTACHMENT_MIME_TYPES, maxBytes: ATTACHMENT_MAX_BYTES },
+  avatar: { mimeTypes: IMAGE_MIME_TYPES, maxBytes: IMAGE_MAX_BYTES },
+  cover: { mimeTypes: IMAGE_MIME_TYPES, maxBytes: IMAGE_MAX_BYTES },
+  group: { mimeTypes: IMAGE_MIME_TYPES, maxBytes: IMAGE_MAX_BYTES },
+}
+export const MODERATION_ACTION_TYPES: readonly ModerationActionType[] = [
+  'hide',
+  'remove',
+  'restore',
+  'warn',
+  'suspend',
+  'unsuspend',
+  'dismiss',
+]
+export const MODERATION_NOTE_MAX_LENGTH = 500
+export const SUSPENSION_MAX_DAYS = 365
+export const MUTED_KEYWORD_MAX_LENGTH = 50
+export const MUTED_KEYWORDS_MAX = 100
+
+// ============================================================================
+// PATTERNS
+// ============================================================================
+
+/**
+ * EMAIL_PATTERN - Pragmatic email check: something@something.tld
+ *
+ * Fully validating email addresses by regex is impossible; the only real
+ * proof is a verification email. This catches typos, not every edge case.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+
+/**
+ * USERNAME_PATTERN - Letters, digits and underscores only
+ *
+ * Usernames appear in URLs (/u/:username) and @mentions, so spaces and
+ * punctuation would break both.
+ */
+const USERNAME_PATTERN = /^[A-Za-z0-9_]+$/
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * fail - Shorthand for building a FieldError
+ */
+function fail(code: FieldError['code'], message: string, params: FieldErrorParams): FieldError {
+  return { code, message, params }
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * validateEmail - Required, well-formed email address
+ */
+export function validateEmail(email: string): FieldError | null {
+  const value = email.trim()
+  if (!value) return fail('required', 'Email is required.', { field: 'email' })
+  if (!EMAIL_PATTERN.test(value)) return fail('invalid_format', 'Enter a valid email address.', { field: 'email' })
+  return null
+}
+
+/**
+ * validatePassword - Strength rules for NEW passwords
+ *
+ * Rules: at least 8 characters, at least one letter and one digit.
+ * (Login only checks "required" - old passwords may predate these rules.)
+ */
+export function validatePassword(password: string): FieldError | null {
+  if (!password) return fail('required', 'Password is required.', { field: 'password' })
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return fail('too_short', `Password must be at least ${PASSWORD_MIN_LENGTH} characters.`, {
+      field: 'password',
+      min: PASSWORD_MIN_LENGTH,
+    })
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return fail('too_long', `Password must be at most ${PASSWORD_MAX_LENGTH} characters.`, {
+      field: 'password',
+      max: PASSWORD_MAX_LENGTH,
+    })
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    return fail('too_weak', 'Password must contain at least one letter and one number.', { field: 'password' })
+  }
+  return null
+}
+
+/**
+ * validateUsername - Length and character rules
+ *
+ * Uniqueness is NOT checked here (it needs the user list); form validators
+ * accept an isUsernameTaken callback for that.
+ */
+export function validateUsername(username: string): FieldError | null {
+  const value = username.trim()
+  if (!value) return fail('required', 'Username is required.', { field: 'username' })
+  if (value.length < USERNAME_MIN_LENGTH) {
+    return fail('too_short', `Username must be at least ${USERNAME_MIN_LENGTH} characters.`, {
+      field: 'username',
+      min: USERNAME_MIN_LENGTH,
+    })
+  }
+  if (value.length > USERNAME_MAX_LENGTH) {
+    return fail('too_long', `Username must be at most ${USERNAME_MAX_LENGTH} characters.`, {
+      field: 'username',
+      max: USERNAME_MAX_LENGTH,
+    })
+  }
+  if (!USERNAME_PATTERN.test(value)) {
+    return fail('invalid_format', 'Username can only contain letters, numbers and underscores.', { field: 'username' })
+  }
+  return null
+}
+
+/**
+ * validateName - Required first/last name with a length cap
+ *
+ * @param field - Which of the two names this is
+ */
+export function validateName(name: string, field: 'firstName' | 'lastName'): FieldError | null {
+  const value = name.trim()
+  const label = field === 'firstName' ? 'First name' : 'Last name'
+  if (!value) return fail('required', `${label} is required.`, { field })
+  if (value.length > NAME_MAX_LENGTH) {
+    return fail('too_long', `${label} must be at most ${NAME_MAX_LENGTH} characters.`, { field, max: NAME_MAX_LENGTH })
+  }
+  return null
+}
+
+/**
+ * validatePostContent - Length rules for post text
+ *
+ * @param hasImages - An image-only post may have empty text
+ */
+export function validatePostContent(content: string, hasImages: boolean): FieldError | null {
+  const value = content.trim()
+  if (!value && !hasImages) return fail('required', 'Write something or add an image.', { field: 'post' })
+  if (value.length > POST_MAX_LENGTH) {
+    return fail('too_long', `Posts can be at most ${POST_MAX_LENGTH} characters.`, {
+      field: 'post',
+      max: POST_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validatePostImages - Count, type and size rules for attached images
+ *
+ * Only reads `type` and `size`, so it works for File objects and for any
+ * File-like value a service receives.
+ *
+ * @param uploadedCount - Images already uploaded (PostForm.mediaIds, Step 2.17)
+ */
+export function validatePostImages(images: Pick<File, 'type' | 'size'>[], uploadedCount = 0): FieldError | null {
+  if (images.length + uploadedCount > POST_MAX_IMAGES) {
+    return fail('too_many', `You can attach up to ${POST_MAX_IMAGES} images.`, {
+      field: 'images',
+      max: POST_MAX_IMAGES,
+    })
+  }
+  if (images.some((image) => !IMAGE_MIME_TYPES.includes(image.type))) {
+    return fail('invalid_type', 'Only JPEG, PNG, GIF and WebP images are supported.', { field: 'images' })
+  }
+  if (images.some((image) => image.size > IMAGE_MAX_BYTES)) {
+    return fail('too_large', 'Each image must be 5 MB or smaller.', {
+      field: 'images',
+      max: IMAGE_MAX_BYTES / (1024 * 1024),
+    })
+  }
+  return null
+}
+
+/**
+ * validateImageAlts - Length rule for image descriptions
+ *
+ * CREATED: Step 2.25 - Descriptions stay optional (the composer asks for
+ * them but never blocks a post); the server only enforces the limit
+ *
+ * @param imageCount - Images on the post; there cannot be more descriptions
+ */
+export function validateImageAlts(alts: string[], imageCount: number): FieldError | null {
+  if (alts.length > imageCount)
+    return fail('too_many', 'There are more descriptions than images.', { field: 'imageAlts' })
+  if (alts.some((alt) => typeof alt !== 'string'))
+    return fail('invalid_format', 'Descriptions must be text.', { field: 'imageAlts' })
+  if (alts.some((alt) => alt.trim().length > IMAGE_ALT_MAX_LENGTH)) {
+    return fail('too_long', `Image descriptions can be at most ${IMAGE_ALT_MAX_LENGTH} characters.`, {
+      field: 'imageAlts',
+      max: IMAGE_ALT_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateMediaFile - Type and size rules for one upload
+ *
+ * CREATED: Step 2.17 - Checked before an upload starts, and again by the
+ * server against the bytes it actually received
+ */
+export function validateMediaFile(file: Pick<File, 'type' | 'size'>, purpose: MediaPurpose): FieldError | null {
+  const rules = MEDIA_RULES[purpose]
+  const field = purpose === 'message' ? 'attachment' : 'image'
+  if (!rules.mimeTypes.includes(file.type)) {
+    return fail(
+      'invalid_type',
+      purpose === 'message'
+        ? 'Only images and PDF files can be attached.'
+        : 'Only JPEG, PNG, GIF and WebP images are supported.',
+      { field },
+    )
+  }
+  if (file.size === 0) return fail('required', 'The file is empty.', { field })
+  if (file.size > rules.maxBytes) {
+    return fail('too_large', `Files must be ${rules.maxBytes / (1024 * 1024)} MB or smaller.`, {
+      field,
+      max: rules.maxBytes / (1024 * 1024),
+    })
+  }
+  return null
+}
+
+/**
+ * validateMessageAttachments - Count rule for a message's attachments
+ *
+ * CREATED: Step 2.17 - Attachments arrive as URLs of finished uploads
+ */
+export function validateMessageAttachments(attachments: string[]): FieldError | null {
+  if (attachments.length > MESSAGE_MAX_ATTACHMENTS) {
+    return fail('too_many', `You can attach up to ${MESSAGE_MAX_ATTACHMENTS} files.`, {
+      field: 'attachments',
+      max: MESSAGE_MAX_ATTACHMENTS,
+    })
+  }
+  if (attachments.some((url) => typeof url !== 'string' || !url)) {
+    return fail('invalid_format', 'Attachments must be uploaded files.', { field: 'attachments' })
+  }
+  return null
+}
+
+/**
+ * validatePostTags - Count and length rules for hashtags
+ *
+ * CREATED: Step 2.6 - Tags are extracted from the text, so this mostly
+ * catches posts that are nothing but a wall of hashtags
+ */
+export function validatePostTags(tags: string[]): FieldError | null {
+  if (tags.length > POST_MAX_TAGS) {
+    return fail('too_many', `Posts can have at most ${POST_MAX_TAGS} hashtags.`, { field: 'tags', max: POST_MAX_TAGS })
+  }
+  if (tags.some((tag) => tag.length > TAG_MAX_LENGTH)) {
+    return fail('too_long', `Hashtags can be at most ${TAG_MAX_LENGTH} characters.`, {
+      field: 'tags',
+      max: TAG_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validatePostAudience - One of POST_AUDIENCES; 'mentioned' needs a mention
+ *
+ * CREATED: Step 2.14 - A mentioned-only post without any @mention would be
+ * visible to nobody but its author
+ */
+export function validatePostAudience(audience: string, mentionCount: number): FieldError | null {
+  if (!(POST_AUDIENCES as readonly string[]).includes(audience)) {
+    return fail('invalid_format', 'Choose who can see this post.', { field: 'audience' })
+  }
+  if (audience === 'mentioned' && mentionCount === 0) {
+    return fail('required', 'Mention at least one person, or choose another audience.', { field: 'audience' })
+  }
+  return null
+}
+
+/**
+ * validatePostEditWindow - Posts can only be edited for POST_EDIT_WINDOW_MS
+ *
+ * CREATED: Step 2.18 - After that, what people liked, shared and quoted
+ * stays what they saw
+ */
+export function validatePostEditWindow(createdAt: Date, now: Date = new Date()): FieldError | null {
+  if (now.getTime() - createdAt.getTime() > POST_EDIT_WINDOW_MS) {
+    return fail('read_only', 'Posts can only be edited within an hour of posting.', { field: 'postEdit' })
+  }
+  return null
+}
+
+/**
+ * validateCommentContent - Non-empty comment text with a length cap
+ *
+ * CREATED: Step 2.4 - Used by the comments endpoints
+ */
+export function validateCommentContent(content: string): FieldError | null {
+  const value = content.trim()
+  if (!value) return fail('required', 'Comment cannot be empty.', { field: 'comment' })
+  if (value.length > COMMENT_MAX_LENGTH) {
+    return fail('too_long', `Comments can be at most ${COMMENT_MAX_LENGTH} characters.`, {
+      field: 'comment',
+      max: COMMENT_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateMessageContent - Chat message text with a length cap
+ *
+ * CREATED: Step 2.4 - Used by the messages endpoints
+ *
+ * @param hasAttachments - An attachment-only message may have empty text
+ */
+export function validateMessageContent(content: string, hasAttachments: boolean): FieldError | null {
+  const value = content.trim()
+  if (!value && !hasAttachments) return fail('required', 'Message cannot be empty.', { field: 'message' })
+  if (value.length > MESSAGE_MAX_LENGTH) {
+    return fail('too_long', `Messages can be at most ${MESSAGE_MAX_LENGTH} characters.`, {
+      field: 'message',
+      max: MESSAGE_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateMessageType - One of MESSAGE_TYPES
+ *
+ * CREATED: Step 2.9 - Keeps clients from sending messages that look like
+ * the server's own group notices
+ */
+export function validateMessageType(type: string): FieldError | null {
+  if (!(MESSAGE_TYPES as readonly string[]).includes(type)) {
+    return fail('invalid_format', 'Messages can only be text, images or files.', { field: 'messageType' })
+  }
+  return null
+}
+
+/**
+ * validateGroupName - Non-empty group name with a length cap
+ *
+ * CREATED: Step 2.9 - Renaming a group (a name is optional at creation)
+ */
+export function validateGroupName(name: string): FieldError | null {
+  const value = name.trim()
+  if (!value) return fail('required', 'Group name cannot be empty.', { field: 'groupName' })
+  if (value.length > GROUP_NAME_MAX_LENGTH) {
+    return fail('too_long', `Group names can be at most ${GROUP_NAME_MAX_LENGTH} characters.`, {
+      field: 'groupName',
+      max: GROUP_NAME_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateGroupSize - Member count of a group, counting its creator
+ *
+ * CREATED: Step 2.9 - Fewer than GROUP_MIN_MEMBERS is a direct chat
+ */
+export function validateGroupSize(memberCount: number): FieldError | null {
+  if (memberCount < GROUP_MIN_MEMBERS) {
+    return fail('too_short', `Pick at least ${GROUP_MIN_MEMBERS - 1} people for a group.`, {
+      field: 'groupMembers',
+      min: GROUP_MIN_MEMBERS - 1,
+    })
+  }
+  if (memberCount > GROUP_MAX_MEMBERS) {
+    return fail('too_many', `Groups can have at most ${GROUP_MAX_MEMBERS} members.`, {
+      field: 'groupMembers',
+      max: GROUP_MAX_MEMBERS,
+    })
+  }
+  return null
+}
+
+/**
+ * validateBio - Optional short bio
+ *
+ * CREATED: Step 2.13 - Edit profile
+ */
+export function validateBio(bio: string): FieldError | null {
+  if (bio.trim().length > BIO_MAX_LENGTH) {
+    return fail('too_long', `Bio can be at most ${BIO_MAX_LENGTH} characters.`, { field: 'bio', max: BIO_MAX_LENGTH })
+  }
+  return null
+}
+
+/**
+ * validateLocation - Optional free-text location
+ *
+ * CREATED: Step 2.13 - Edit profile
+ */
+export function validateLocation(location: string): FieldError | null {
+  if (location.trim().length > LOCATION_MAX_LENGTH) {
+    return fail('too_long', `Location can be at most ${LOCATION_MAX_LENGTH} characters.`, {
+      field: 'location',
+      max: LOCATION_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateWebsite - Optional absolute http(s) URL
+ *
+ * CREATED: Step 2.13 - Edit profile
+ *
+ * The URL is shown as a link on the profile, so other schemes are refused:
+ * "javascript:alert(1)" is a valid URL, but must never become an href.
+ */
+export function validateWebsite(website: string): FieldError | null {
+  const value = website.trim()
+  if (!value) return null
+  if (value.length > WEBSITE_MAX_LENGTH) {
+    return fail('too_long', `Website can be at most ${WEBSITE_MAX_LENGTH} characters.`, {
+      field: 'website',
+      max: WEBSITE_MAX_LENGTH,
+    })
+  }
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return fail('invalid_format', 'Enter a full web address, like https://example.com.', { field: 'website' })
+  }
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !url.hostname.includes('.')) {
+    return fail('invalid_format', 'Enter a full web address, like https://example.com.', { field: 'website' })
+  }
+  return null
+}
+
+/**
+ * validateReportReason - One of REPORT_REASONS
+ *
+ * CREATED: Step 2.15 - Reporting a post, comment, message or user
+ */
+export function validateReportReason(reason: string): FieldError | null {
+  if (!(REPORT_REASONS as readonly string[]).includes(reason)) {
+    return fail('required', 'Choose why you are reporting this.', { field: 'reportReason' })
+  }
+  return null
+}
+
+/**
+ * validateReportDetails - Optional extra context, required for 'other'
+ *
+ * CREATED: Step 2.15 - "Other" alone gives a moderator nothing to go on
+ */
+export function validateReportDetails(details: string, reason: string): FieldError | null {
+  const value = details.trim()
+  if (!value && reason === 'other') return fail('required', 'Tell us what is wrong.', { field: 'reportDetails' })
+  if (value.length > REPORT_DETAILS_MAX_LENGTH) {
+    return fail('too_long', `Details can be at most ${REPORT_DETAILS_MAX_LENGTH} characters.`, {
+      field: 'reportDetails',
+      max: REPORT_DETAILS_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateModerationNote - The note sent to the author with an action
+ *
+ * CREATED: Step 2.15 - Warnings and suspensions must say why
+ *
+ * @param isRequired - True for 'warn' and 'suspend'
+ */
+export function validateModerationNote(note: string, isRequired: boolean): FieldError | null {
+  const value = note.trim()
+  if (!value && isRequired) return fail('required', 'Explain the reason to the user.', { field: 'moderationNote' })
+  if (value.length > MODERATION_NOTE_MAX_LENGTH) {
+    return fail('too_long', `Notes can be at most ${MODERATION_NOTE_MAX_LENGTH} characters.`, {
+      field: 'moderationNote',
+      max: MODERATION_NOTE_MAX_LENGTH,
+    })
+  }
+  return null
+}
+
+/**
+ * validateSuspensionDays - Whole days between 1 and SUSPENSION_MAX_DAYS
+ *
+ * CREATED: Step 2.15 - Suspensions always end; there are no permanent bans
+ */
+export function validateSuspensionDays(days: number): FieldError | null {
+  if (!Number.isInteger(days) || days < 1 || days > SUSPENSION_MAX_DAYS) {
+    return fail('invalid_format', `Suspend for 1 to ${SUSPENSION_MAX_DAYS} days.`, {
+      field: 'suspensionDays',
+      min: 1,
+      max: SUSPENSION_MAX_DAYS,
+    })
+  }
+  return null
+}
+
+/**
+ * validateMutedKeywords - A user's whole muted-keyword list
+ *
+ * CREATED: Step 2.15 - Keywords are normalized (utils/keywords.ts) before
+ * this runs, so blanks and duplicates are already gone
+ */
+export function validateMutedKeywords(keywords: string[]): FieldError | null {
+  if (keywords.length > MUTED_KEYWORDS_MAX) {
+    return fail('too_many', `You can mute at most ${MUTED_KEYWORDS_MAX} words.`, {
+      field: 'mutedKeywords',
+      max: MUTED_KEYWORDS_MAX,
+    })
+  }
+  if (keywords.some((keyword) => keyword.length > MUTED_KEYWORD_MAX_LENGTH)) {
+    return fail('too_long', `Muted words can be at most ${MUTED_KEYWORD_MAX_LENGTH} characters.`, {
+      field: 'mutedKeywords',
+      max: MUTED_KEYWORD_MAX_LENGTH,
+    })
+  }
+  return null
+}
@@ -0,0 +1,147 @@
+/**
+ * ============================================================================
+ * STEP 2.3: Validation Types - Typed, Field-Level Errors
+ * ============================================================================
+ *
+ * CREATED: Feature Phase - Step 2.3 (Runtime validation)
+ * UPDATED: Feature Phase - Step 2.24 (errors carry what they are about, for translation)
+ * PURPOSE: Shared shapes for every validator in the app
+ *
+ * TypeScript Concepts Demonstrated:
+ * - Mapped types: FieldErrors<T> has one optional entry per key of T, so
+ *   FieldErrors<LoginForm> can only contain 'email' and 'password'
+ * - Generic classes: ValidationError<T> carries errors for a specific form
+ *
+ * Why Runtime Validation:
+ * - TypeScript checks shapes at COMPILE time only
+ * - A user can type anything into an input, and a script can call a service
+ *   directly; both need checking while the app RUNS
+ *
+ * LEARNING NOTES:
+ * - Errors carry a machine-readable `code` AND a human `message`, so code
+ *   (and tests) can branch on the code
+ * - Errors from the rules also carry `params`: the field they are about
+ *   and the limit they broke. The UI shows the code and params in the
+ *   reader's language (utils/fieldErrors.ts); `message` is the English
+ *   text, for logs and for errors made without params
+ */
+
+// ============================================================================
+// ERROR SHAPES
+// ============================================================================
+
+/**
+ * ValidationErrorCode - Every reason a field can fail
+ */
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_format'
+  | 'too_short'
+  | 'too_long'
+  | 'too_weak'
+  | 'mismatch'
+  | 'taken'
+  | 'too_many'
+  | 'invalid_type'
+  | 'too_large'
+  | 'read_only'
+
+/**
+ * ValidationSubject - What a rule checks; with the code, it picks the
+ * sentence shown to the reader
+ */
+export type ValidationSubject =
+  | 'email'
+  | 'currentEmail'
+  | 'password'
+  | 'currentPassword'
+  | 'newPassword'
+  | 'confirmPassword'
+  | 'username'
+  | 'firstName'
+  | 'lastName'
+  | 'post'
+  | 'postEdit'
+  | 'images'
+  | 'imageAlts'
+  | 'image'
+  | 'attachment'
+  | 'attachments'
+  | 'tags'
+  | 'audience'
+  | 'comment'
+  | 'message'
+  | 'messageType'
+  | 'groupName'
+  | 'groupMembers'
+  | 'bio'
+  | 'location'
+  | 'website'
+  | 'reportReason'
+  | 'reportDetails'
+  | 'moderationAction'
+  | 'moderationNote'
+  | 'suspensionDays'
+  | 'mutedKeywords'
+
+/**
+ * FieldErrorParams - The subject, and the numbers the sentence needs
+ * (`min`, `max`; sizes in MB)
+ */
+export type FieldErrorParams = Record<string, string | number> & { field: ValidationSubject }
+
+/**
+ * FieldError - One problem with one field
+ * - params: Set by the rules; absent on errors only a server can find
+ *   (a wrong password, a damaged upload), whose message is shown as is
+ */
+export interface FieldError {
+  code: ValidationErrorCode
+  message: string
+  params?: FieldErrorParams
+}
+
+/**
+ * FieldErrors<T> - At most one FieldError per field of form T
+ *
+ * @example const errors: FieldErrors<LoginForm> = { email: { code: 'required', message: '…' } }
+ */
+export type FieldErrors<T> = { [K in keyof T]?: FieldError }
+
+/**
+ * ValidationResult<T> - What every form validator returns
+ * - valid: True when `errors` is empty
+ * - errors: Per-field problems
+ */
+export interface ValidationResult<T> {
+  valid: boolean
+  errors: FieldErrors<T>
+}
+
+// ============================================================================
+// ERROR CLASS
+// ============================================================================
+
+/**
+ * ValidationError - Thrown by services when input fails validation
+ *
+ * Services validate again even though the UI already did: the UI can be
+ * bypassed, the service cannot. Forms catch this error and show `errors`
+ * next to the matching inputs.
+ */
+export class ValidationError<T = Record<string, unknown>> extends Error {
+  readonly errors: FieldErrors<T>
+
+  constructor(errors: FieldErrors<T>, message = 'Please fix the highlighted fields.') {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+/**
+ * toResult - Builds a ValidationResult from collected errors
+ */
+export function toResult<T>(errors: FieldErrors<T>): ValidationResult<T> {
+  return { valid: Object.keys(errors).length === 0, errors }
+}
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+/**
+ * Environment Variables (Step 2.4)
+ * - VITE_API_URL: Base URL of a real API server; when unset the app uses the
+ *   in-browser mock backend
+ * - VITE_CHAT_URL (Step 2.8): WebSocket URL for real-time chat, e.g.
+ *   ws://localhost:5173/chat; when unset chat runs in-page
+ */
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string
+  readonly VITE_CHAT_URL?: string
+}
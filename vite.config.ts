@@ -1,7 +1,11 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { chatServerPlugin } from './server/chatServer'
+import { mediaServerPlugin } from './server/mediaServer'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // chatServerPlugin: WebSocket chat stand-in at /chat (Step 2.8)
+  // mediaServerPlugin: Upload storage for the mock at /media (Step 2.17)
+  plugins: [react(), chatServerPlugin(), mediaServerPlugin()],
 })
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+import react from '@vitejs/plugin-react'
+
+// Kept apart from vite.config.ts: tests do not need the dev chat and media
+// servers, and must not start them.
+// Component tests opt into a DOM with a `@vitest-environment jsdom` comment.
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    include: ['src/**/*.test.{ts,tsx}', 'server/**/*.test.ts'],
+    environment: 'node',
+  },
+})